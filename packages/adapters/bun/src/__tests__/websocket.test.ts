@@ -0,0 +1,162 @@
+/**
+ * @nextrush/adapter-bun — WebSocket upgrades through `serve({ websocket })`.
+ *
+ * `Bun.serve` does not exist under vitest/Node, so a stub captures the options
+ * `serve()` builds; the test then drives the captured `fetch` and `websocket`
+ * handlers the way Bun would. Real-Bun proof lives in `bun-runner/`.
+ */
+
+import { createApp } from '@nextrush/core';
+import type { WebSocketPeer, WebSocketUpgradeHandler } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { serve } from '../adapter';
+
+interface CapturedInit {
+  fetch: (request: Request, server: unknown) => Promise<Response | undefined>;
+  websocket?: {
+    maxPayloadLength?: number;
+    open(ws: FakeServerWebSocket): void;
+    message(ws: FakeServerWebSocket, message: string | Uint8Array): void;
+    close(ws: FakeServerWebSocket, code: number, reason: string): void;
+    pong(ws: FakeServerWebSocket, data: Uint8Array): void;
+  };
+}
+
+interface FakeServerWebSocket {
+  data: unknown;
+  readyState: number;
+  send: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+  ping: ReturnType<typeof vi.fn>;
+  pong: ReturnType<typeof vi.fn>;
+}
+
+let captured: CapturedInit | undefined;
+let previousBun: unknown;
+
+beforeEach(() => {
+  const g = globalThis as { Bun?: unknown };
+  previousBun = g.Bun;
+  g.Bun = {
+    serve(init: CapturedInit) {
+      captured = init;
+      return { port: 8080, hostname: '127.0.0.1', stop: async () => undefined };
+    },
+  };
+});
+
+afterEach(() => {
+  (globalThis as { Bun?: unknown }).Bun = previousBun;
+  captured = undefined;
+});
+
+function fakeServer(upgradeResult = true) {
+  return {
+    requestIP: () => ({ address: '10.0.0.7', family: 'IPv4', port: 0 }),
+    upgrade: vi.fn((_request: Request, _options: { data: unknown }) => upgradeResult),
+  };
+}
+
+function fakeSocket(data: unknown): FakeServerWebSocket {
+  return { data, readyState: 1, send: vi.fn(), close: vi.fn(), ping: vi.fn(), pong: vi.fn() };
+}
+
+function upgradeRequest(path = '/chat'): Request {
+  return new Request(`http://localhost${path}`, {
+    headers: { upgrade: 'websocket', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' },
+  });
+}
+
+/** Accepts `/chat`, echoes messages and records what the adapter delivered. */
+function echoHandler() {
+  const events: unknown[] = [];
+  const peers: WebSocketPeer[] = [];
+  const handler: WebSocketUpgradeHandler = {
+    maxPayload: 1024,
+    handleUpgrade: async (request) => {
+      if (request.path !== '/chat') return { accepted: false, status: 404, message: 'Not Found' };
+      events.push(['upgrade', request.ip]);
+      return {
+        accepted: true,
+        open: (peer) => {
+          peers.push(peer);
+          return {
+            message: (data) => {
+              peer.send(data);
+            },
+            close: (code, reason) => events.push(['close', code, reason]),
+            error: (error) => events.push(['error', error]),
+            pong: () => events.push(['pong']),
+          };
+        },
+      };
+    },
+  };
+  return { handler, events, peers };
+}
+
+describe('serve({ websocket })', () => {
+  it('upgrades accepted requests and delivers socket events to the handler', async () => {
+    const { handler, events, peers } = echoHandler();
+    await serve(createApp(), { websocket: handler });
+    const server = fakeServer();
+
+    const response = await captured!.fetch(upgradeRequest(), server);
+
+    expect(response).toBeUndefined();
+    expect(events).toEqual([['upgrade', '10.0.0.7']]);
+    expect(captured!.websocket?.maxPayloadLength).toBe(1024);
+
+    const ws = fakeSocket(server.upgrade.mock.calls[0]![1].data);
+    captured!.websocket!.open(ws);
+    captured!.websocket!.message(ws, 'hello');
+    captured!.websocket!.pong(ws, new Uint8Array());
+    peers[0]!.ping?.();
+    captured!.websocket!.close(ws, 1000, 'done');
+
+    expect(ws.send).toHaveBeenCalledWith('hello');
+    expect(ws.ping).toHaveBeenCalled();
+    expect(events).toContainEqual(['pong']);
+    expect(events).toContainEqual(['close', 1000, 'done']);
+  });
+
+  it('answers a rejected upgrade with its status', async () => {
+    const { handler } = echoHandler();
+    await serve(createApp(), { websocket: handler });
+    const server = fakeServer();
+
+    const response = await captured!.fetch(upgradeRequest('/other'), server);
+
+    expect(response?.status).toBe(404);
+    expect(await response?.json()).toEqual({ error: 'Not Found' });
+    expect(server.upgrade).not.toHaveBeenCalled();
+  });
+
+  it('answers 400 when Bun refuses the handshake', async () => {
+    const { handler } = echoHandler();
+    await serve(createApp(), { websocket: handler });
+
+    const response = await captured!.fetch(upgradeRequest(), fakeServer(false));
+
+    expect(response?.status).toBe(400);
+  });
+
+  it('runs ordinary requests through the middleware pipeline', async () => {
+    const { handler } = echoHandler();
+    const app = createApp();
+    app.use((ctx) => {
+      ctx.json({ ok: true });
+    });
+    await serve(app, { websocket: handler });
+
+    const response = await captured!.fetch(new Request('http://localhost/chat'), fakeServer());
+
+    expect(await response?.json()).toEqual({ ok: true });
+  });
+
+  it('registers no websocket handlers without the option', async () => {
+    await serve(createApp());
+
+    expect(captured!.websocket).toBeUndefined();
+  });
+});
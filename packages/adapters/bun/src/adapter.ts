@@ -10,12 +10,20 @@ import type { Application, Logger } from '@nextrush/core';
 import {
   DEFAULT_SHUTDOWN_TIMEOUT_MS,
   DEFAULT_TIMEOUT_MS,
+  isWebSocketUpgrade,
   jsonErrorResponse,
   normalizeStartupError,
 } from '@nextrush/runtime';
-import type { AdapterContextFactory, HandlerOptions, ProxyTrust, ServerAdapter } from '@nextrush/types';
+import type {
+  AdapterContextFactory,
+  HandlerOptions,
+  ProxyTrust,
+  ServerAdapter,
+  WebSocketUpgradeHandler,
+} from '@nextrush/types';
 import { createBunContext } from './context';
 import type { BunContext } from './context';
+import { createBunWebSocketHandlers, upgradeBunWebSocket } from './websocket';
 
 /**
  * Server options for Bun adapter
@@ -122,6 +130,19 @@ export interface ServeOptions {
    * @default undefined (no signal handler installed)
    */
   gracefulShutdown?: boolean | GracefulShutdownOptions;
+
+  /**
+   * Accept WebSocket upgrades — typically `app.wss` from
+   * `@nextrush/websocket`'s `createWebSocketExtension()`.
+   *
+   * @remarks
+   * `GET` requests with `Upgrade: websocket` go to the handler instead of the
+   * middleware pipeline, and accepted sockets run on `Bun.serve`'s native
+   * `websocket` handlers. Every other request is unaffected. Only `serve()`
+   * wires this: a bare {@link createHandler} has no `websocket` handlers to
+   * hand sockets to.
+   */
+  websocket?: WebSocketUpgradeHandler;
 }
 
 /**
@@ -411,6 +432,7 @@ export async function serve(
     development = false,
     shutdownTimeout = DEFAULT_SHUTDOWN_TIMEOUT_MS,
     gracefulShutdown,
+    websocket,
   } = options;
 
   const host = options.host ?? '0.0.0.0';
@@ -441,13 +463,26 @@ export async function serve(
     }
   };
 
-  // Build Bun.serve options
-  const bunOptions: Parameters<typeof Bun.serve>[0] = {
-    port,
-    hostname: host,
-    fetch: trackedHandler,
-    development,
-  };
+  // Build Bun.serve options. Upgrade requests bypass the middleware pipeline
+  // (and in-flight tracking — an open socket is not a request to drain).
+  const proxy = app.options.proxy ?? false;
+  const bunOptions: Parameters<typeof Bun.serve>[0] = websocket
+    ? {
+        port,
+        hostname: host,
+        fetch: (request, bunServer) =>
+          isWebSocketUpgrade(request)
+            ? upgradeBunWebSocket(websocket, request, bunServer, proxy, logger)
+            : trackedHandler(request, bunServer),
+        websocket: createBunWebSocketHandlers(websocket),
+        development,
+      }
+    : {
+        port,
+        hostname: host,
+        fetch: trackedHandler,
+        development,
+      };
 
   // Add TLS if configured
   if (tls) {
@@ -510,9 +545,11 @@ export async function serve(
       },
     }),
     reload: (newOptions?: Partial<ServeOptions>) => {
+      // The WebSocket handler is fixed for the server's lifetime.
+      const { websocket: _websocket, ...reloadable } = newOptions ?? {};
       server.reload({
         ...bunOptions,
-        ...newOptions,
+        ...reloadable,
       });
     },
   };
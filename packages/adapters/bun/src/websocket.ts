@@ -0,0 +1,102 @@
+/**
+ * @nextrush/adapter-bun - WebSocket Upgrades
+ *
+ * Runs a {@link WebSocketUpgradeHandler} (e.g. `@nextrush/websocket`'s
+ * `WebSocketServer`) over `server.upgrade()` and `Bun.serve`'s `websocket`
+ * handlers.
+ *
+ * @packageDocumentation
+ */
+
+import type { Logger } from '@nextrush/core';
+import { jsonErrorResponse, resolveWebSocketUpgrade } from '@nextrush/runtime';
+import type {
+  ProxyTrust,
+  WebSocketPeer,
+  WebSocketPeerHandlers,
+  WebSocketUpgradeHandler,
+} from '@nextrush/types';
+import { createBunContext } from './context';
+
+/** What {@link upgradeBunWebSocket} stores on `ServerWebSocket.data`. */
+interface BunWebSocketData {
+  open(peer: WebSocketPeer): WebSocketPeerHandlers;
+  handlers?: WebSocketPeerHandlers;
+}
+
+type BunServerWebSocket = Bun.ServerWebSocket<BunWebSocketData>;
+
+function toPeer(ws: BunServerWebSocket): WebSocketPeer {
+  return {
+    get readyState() {
+      return ws.readyState;
+    },
+    send: (data) => {
+      ws.send(data);
+    },
+    close: (code, reason) => {
+      ws.close(code, reason);
+    },
+    ping: (data) => {
+      ws.ping(data);
+    },
+    pong: (data) => {
+      ws.pong(data);
+    },
+  };
+}
+
+/**
+ * Ask `handler` about an upgrade request and, when it accepts, upgrade the
+ * connection.
+ *
+ * @returns `undefined` once upgraded (Bun answers the handshake itself), or the
+ * rejection response.
+ */
+export async function upgradeBunWebSocket(
+  handler: WebSocketUpgradeHandler,
+  request: Request,
+  server: ReturnType<typeof Bun.serve>,
+  proxy: ProxyTrust,
+  logger: Logger
+): Promise<Response | undefined> {
+  const ctx = createBunContext(request, server.requestIP(request)?.address ?? '', proxy);
+  const result = await resolveWebSocketUpgrade(handler, ctx, (error) => {
+    logger.error('WebSocket upgrade error:', error);
+  });
+
+  if (!result.accepted) {
+    return jsonErrorResponse(result.status, result.message ?? 'Upgrade Rejected');
+  }
+
+  const data: BunWebSocketData = { open: result.open };
+  // false when the handshake headers are invalid (e.g. no Sec-WebSocket-Key).
+  return server.upgrade(request, { data }) ? undefined : jsonErrorResponse(400, 'Bad Request');
+}
+
+/**
+ * The `websocket` option for `Bun.serve`, delivering every socket's events to
+ * the handlers its upgrade was accepted with.
+ */
+export function createBunWebSocketHandlers(
+  handler: WebSocketUpgradeHandler
+): Bun.WebSocketHandler<BunWebSocketData> {
+  return {
+    maxPayloadLength: handler.maxPayload,
+    open(ws) {
+      ws.data.handlers = ws.data.open(toPeer(ws));
+    },
+    message(ws, message) {
+      ws.data.handlers?.message(message);
+    },
+    close(ws, code, reason) {
+      ws.data.handlers?.close(code, reason);
+    },
+    ping(ws, data) {
+      ws.data.handlers?.ping?.(data);
+    },
+    pong(ws, data) {
+      ws.data.handlers?.pong?.(data);
+    },
+  };
+}
@@ -15,6 +15,9 @@
  * (`test-primitives.bun.mjs`), so `defineConformanceSuite` registers its
  * assertions through Bun's real test runner.
  *
+ * The WebSocket scenarios run over real sockets too: `serve({ websocket })`
+ * upgrades through `server.upgrade()` and Bun's own `WebSocket` is the client.
+ *
  * Run: cd packages/adapters/conformance/bun-runner && bun test
  */
 
@@ -23,8 +26,16 @@ import { createApp } from '@nextrush/core';
 import { serve } from '@nextrush/adapter-bun';
 import type { ServerInstance } from '@nextrush/adapter-bun';
 import { detectRuntime } from '@nextrush/runtime';
-import { defineConformanceSuite } from '@nextrush/adapter-conformance';
-import type { ConformanceDriver, Configure, DispatchInit, DispatchResult } from '@nextrush/adapter-conformance';
+import { createClientLink, defineConformanceSuite } from '@nextrush/adapter-conformance';
+import type {
+  ConformanceDriver,
+  Configure,
+  DispatchInit,
+  DispatchResult,
+  WebSocketConnectResult,
+  WebSocketEndpoint,
+} from '@nextrush/adapter-conformance';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
 
 let instance: ServerInstance | undefined;
 
@@ -63,6 +74,45 @@ function toResult(response: Response, bodyText: string): DispatchResult {
   };
 }
 
+/**
+ * Open Bun's own `WebSocket` client against the real server. A browser-style
+ * client never sees why a handshake was refused, so a refusal is re-sent as a
+ * plain request with the same handshake headers to read the rejection.
+ */
+function connectWebSocket(port: number, path = '/'): Promise<WebSocketConnectResult> {
+  return new Promise((resolve) => {
+    const socket = new WebSocket(`ws://127.0.0.1:${String(port)}${path}`);
+    socket.binaryType = 'arraybuffer';
+    const link = createClientLink({
+      send: (data) => socket.send(data),
+      close: (code, reason) => socket.close(code, reason),
+    });
+    let opened = false;
+    socket.addEventListener('open', () => {
+      opened = true;
+      resolve({ accepted: true, client: link.client });
+    });
+    socket.addEventListener('message', (event) => {
+      link.receive(typeof event.data === 'string' ? event.data : new Uint8Array(event.data as ArrayBuffer));
+    });
+    socket.addEventListener('close', (event) => {
+      link.closed(event.code, event.reason);
+      if (opened) return;
+      void rawFetch(port, {
+        path,
+        headers: {
+          upgrade: 'websocket',
+          connection: 'Upgrade',
+          'sec-websocket-version': '13',
+          'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        },
+      }).then(async (res) => {
+        resolve({ accepted: false, response: toResult(res, await res.text()) });
+      });
+    });
+  });
+}
+
 /** Real-Bun ConformanceDriver: every dispatch spins a real `serve()` and hits it over the network. */
 const realBunDriver: ConformanceDriver = {
   name: 'bun',
@@ -70,6 +120,21 @@ const realBunDriver: ConformanceDriver = {
   teardownOnShutdown: true,
   transportAbortFiresSignal: true,
   honorsCloudflareIp: false,
+  webSocketUpgrade: true,
+
+  async serveWebSocket(handler: WebSocketUpgradeHandler, configure: Configure): Promise<WebSocketEndpoint> {
+    const app = createApp();
+    configure(app);
+    const server = await serve(app, { port: 0, websocket: handler });
+    return {
+      connect: (path) => connectWebSocket(server.port, path),
+      async dispatch(init) {
+        const res = await rawFetch(server.port, init);
+        return toResult(res, await res.text());
+      },
+      close: () => server.close(),
+    };
+  },
 
   async dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult> {
     const app = createApp({ proxy: init?.proxy ?? false });
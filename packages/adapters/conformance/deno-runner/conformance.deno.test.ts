@@ -22,18 +22,25 @@
  * handler (URL parsing, Headers, ReadableStream, AbortSignal, crypto — all
  * real Deno implementations), not the loopback transport.
  *
+ * WebSocket scenarios are the exception: `Deno.upgradeWebSocket` needs a
+ * connection `Deno.serve()` accepted, so `serveWebSocket` runs the adapter's
+ * real `serve({ websocket })` and connects with Deno's own `WebSocket`.
+ *
  * Run: cd packages/adapters/conformance/deno-runner && deno task conformance
  */
 
 import { createApp, type Application } from '@nextrush/core';
-import { createHandler } from '@nextrush/adapter-deno';
+import { createHandler, serve } from '@nextrush/adapter-deno';
 import { detectRuntime } from '@nextrush/runtime';
-import { defineConformanceSuite } from '@nextrush/adapter-conformance';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import { createClientLink, defineConformanceSuite } from '@nextrush/adapter-conformance';
 import type {
   ConformanceDriver,
   Configure,
   DispatchInit,
   DispatchResult,
+  WebSocketConnectResult,
+  WebSocketEndpoint,
 } from '@nextrush/adapter-conformance';
 import { expect } from '@nextrush/adapter-conformance/test-primitives';
 
@@ -61,6 +68,43 @@ async function toResult(response: Response): Promise<DispatchResult> {
   };
 }
 
+/**
+ * Open Deno's own `WebSocket` client against the real server. The client never
+ * learns why a handshake was refused, so a refusal is re-sent as a plain
+ * request with the same handshake headers to read the rejection.
+ */
+function connectWebSocket(origin: string, path = '/'): Promise<WebSocketConnectResult> {
+  return new Promise((resolve) => {
+    const socket = new WebSocket(`${origin.replace('http', 'ws')}${path}`);
+    socket.binaryType = 'arraybuffer';
+    const link = createClientLink({
+      send: (data) => socket.send(data),
+      close: (code, reason) => socket.close(code, reason),
+    });
+    let opened = false;
+    socket.addEventListener('open', () => {
+      opened = true;
+      resolve({ accepted: true, client: link.client });
+    });
+    socket.addEventListener('message', (event) => {
+      link.receive(typeof event.data === 'string' ? event.data : new Uint8Array(event.data as ArrayBuffer));
+    });
+    socket.addEventListener('close', (event) => {
+      link.closed(event.code, event.reason);
+      if (opened) return;
+      const handshake = {
+        upgrade: 'websocket',
+        connection: 'Upgrade',
+        'sec-websocket-version': '13',
+        'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+      };
+      void fetch(`${origin}${path}`, { headers: handshake }).then(async (res) => {
+        resolve({ accepted: false, response: await toResult(res) });
+      });
+    });
+  });
+}
+
 /** Real-Deno ConformanceDriver: drives the real Deno adapter handler under the real Deno runtime. */
 const realDenoDriver: ConformanceDriver = {
   name: 'deno',
@@ -68,6 +112,21 @@ const realDenoDriver: ConformanceDriver = {
   teardownOnShutdown: true,
   transportAbortFiresSignal: true,
   honorsCloudflareIp: false,
+  webSocketUpgrade: true,
+
+  async serveWebSocket(handler: WebSocketUpgradeHandler, configure: Configure): Promise<WebSocketEndpoint> {
+    const app = createApp();
+    configure(app);
+    const server = await serve(app, { port: 0, host: '127.0.0.1', websocket: handler });
+    const origin = `http://127.0.0.1:${String(server.port)}`;
+    return {
+      connect: (path) => connectWebSocket(origin, path),
+      async dispatch(init) {
+        return toResult(await fetch(`${origin}${init?.path ?? '/'}`, { headers: init?.headers }));
+      },
+      close: () => server.close(),
+    };
+  },
 
   async dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult> {
     const app: Application = createApp({ proxy: init?.proxy ?? false });
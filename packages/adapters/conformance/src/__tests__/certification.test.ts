@@ -61,9 +61,8 @@ describe('certification matrix', () => {
   });
 
   it('9.5 (F-02) capability-only features are not counted full/proven', () => {
-    // WebSockets/Multipart/Compression have no executed cross-adapter assertion
-    // behind them — capped at capability-only regardless of the capability bit.
-    expect(featureSupport('WebSockets', inputByName('node'))).toBe('capability-only');
+    // Multipart/Compression have no executed cross-adapter assertion behind
+    // them — capped at capability-only regardless of the capability bit.
     expect(featureSupport('Multipart', inputByName('node'))).toBe('capability-only');
     expect(featureSupport('Compression', inputByName('node'))).toBe('capability-only');
   });
@@ -75,16 +74,27 @@ describe('certification matrix', () => {
     expect(featureSupport('SSE', inputByName('node'))).toBe('full');
   });
 
+  it('9.8 WebSockets follow the #21-verified webSocketUpgrade flag', () => {
+    for (const name of ['node', 'bun', 'deno', 'edge']) {
+      expect(featureSupport('WebSockets', inputByName(name))).toBe('full');
+    }
+    // No persistent connection to upgrade → not applicable, not a failure.
+    expect(featureSupport('WebSockets', inputByName('serverless'))).toBe('na');
+    expect(featureSupport('WebSockets', inputByName('nextjs'))).toBe('na');
+  });
+
   it('9.7 (F-02) capability-only scores 0 toward coverage, like none — never inflating the published %', () => {
     const node = inputByName('node');
-    const withCapabilityOnlyFeature = coverageOf(node);
-    const asIfNone: CertInput = {
-      ...node,
-      capabilities: { ...node.capabilities, webSocket: false },
-    };
-    // Revoking the WebSockets capability bit (none, not capability-only) must
-    // score identically to capability-only — both contribute 0 to coverage.
-    expect(coverageOf(asIfNone)).toBe(withCapabilityOnlyFeature);
+    const applicable = FEATURES.map((feature) => featureSupport(feature, node)).filter(
+      (support) => support !== 'na'
+    );
+    expect(applicable).toContain('capability-only');
+    // Score only full/partial: capability-only must add exactly what none adds — 0.
+    const proven = applicable.reduce(
+      (sum, support) => sum + (support === 'full' ? 1 : support === 'partial' ? 0.5 : 0),
+      0
+    );
+    expect(coverageOf(node)).toBe(Math.round((proven / applicable.length) * 1000) / 10);
   });
 
   it('9.4 the committed matrix doc is in sync with the generator (CI drift guard)', async () => {
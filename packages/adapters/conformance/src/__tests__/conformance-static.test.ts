@@ -0,0 +1,132 @@
+/**
+ * Cross-adapter conformance — `@nextrush/static` serving.
+ *
+ * One `serveStatic()` must answer identically on every adapter: the same
+ * validators, the same `304`/`206`/`416`, the same `HEAD` lengths, and the
+ * same dotfile and directory handling. It responds through `Context` alone, so
+ * a divergence here is an adapter's `send()`/`sendStream()` behaving
+ * differently. Served from `memoryStorage()` (the edge case) and from a root
+ * directory streamed above `highWaterMark`. Precompressed variants must reach
+ * the client with their `Content-Encoding` and length untouched.
+ */
+
+import type { Application } from '@nextrush/core';
+import { memoryStorage, serveStatic, type StaticStorage } from '@nextrush/static';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { drivers } from '../drivers';
+
+const storage: StaticStorage = memoryStorage(
+  {
+    'index.html': '<h1>Home</h1>',
+    'docs/index.html': '<h1>Docs</h1>',
+    'notes.txt': '0123456789',
+    '.env': 'SECRET=1',
+  },
+  { mtime: new Date('2026-01-01T00:00:00Z') }
+);
+
+const fromMemory = (app: Application): void => {
+  app.use(serveStatic({ storage }));
+};
+
+const gzipped = new Uint8Array(gzipSync('plain'));
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'nextrush-conformance-static-'));
+  writeFileSync(join(root, 'large.txt'), 'y'.repeat(300_000));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe.each(drivers)('conformance: static files [$name]', (driver) => {
+  it('serves a file with its type, length and validators', async () => {
+    const res = await driver.dispatch(fromMemory, { path: '/notes.txt' });
+    expect(res.status).toBe(200);
+    expect(res.text()).toBe('0123456789');
+    expect(res.header('content-type')).toBe('text/plain; charset=utf-8');
+    expect(res.header('content-length')).toBe('10');
+    expect(res.header('last-modified')).toBe('Thu, 01 Jan 2026 00:00:00 GMT');
+    expect(res.header('etag')).toMatch(/^W\/"[0-9a-f]+"$/);
+  });
+
+  it('answers a matching If-None-Match with an empty 304', async () => {
+    const first = await driver.dispatch(fromMemory, { path: '/notes.txt' });
+    const res = await driver.dispatch(fromMemory, {
+      path: '/notes.txt',
+      headers: { 'if-none-match': first.header('etag') ?? '' },
+    });
+    expect(res.status).toBe(304);
+    expect(res.text()).toBe('');
+  });
+
+  it('serves a byte range with 206, and 416 for an unsatisfiable one', async () => {
+    const partial = await driver.dispatch(fromMemory, {
+      path: '/notes.txt',
+      headers: { range: 'bytes=2-5' },
+    });
+    expect(partial.status).toBe(206);
+    expect(partial.header('content-range')).toBe('bytes 2-5/10');
+    expect(partial.text()).toBe('2345');
+
+    const unsatisfiable = await driver.dispatch(fromMemory, {
+      path: '/notes.txt',
+      headers: { range: 'bytes=50-' },
+    });
+    expect(unsatisfiable.status).toBe(416);
+    expect(unsatisfiable.header('content-range')).toBe('bytes */10');
+  });
+
+  it('answers HEAD with the GET length and no body', async () => {
+    const res = await driver.dispatch(fromMemory, { method: 'HEAD', path: '/index.html' });
+    expect(res.status).toBe(200);
+    expect(res.header('content-length')).toBe('13');
+    expect(res.text()).toBe('');
+  });
+
+  it('redirects a directory, serves its index, and hides dotfiles', async () => {
+    const redirect = await driver.dispatch(fromMemory, { path: '/docs' });
+    expect(redirect.status).toBe(301);
+    expect(redirect.header('location')).toBe('/docs/');
+
+    expect((await driver.dispatch(fromMemory, { path: '/docs/' })).text()).toBe('<h1>Docs</h1>');
+    expect((await driver.dispatch(fromMemory, { path: '/.env' })).status).toBe(404);
+  });
+
+  it('serves a precompressed variant with its encoding, length and Vary', async () => {
+    const res = await driver.dispatch(
+      (app) => {
+        app.use(
+          serveStatic({
+            storage: memoryStorage({ 'app.js': 'plain', 'app.js.gz': gzipped }),
+            precompressed: true,
+          })
+        );
+      },
+      { path: '/app.js', headers: { 'accept-encoding': 'gzip' } }
+    );
+    expect(res.status).toBe(200);
+    expect(res.header('content-encoding')).toBe('gzip');
+    expect(res.header('content-length')).toBe(String(gzipped.length));
+    expect(res.header('vary')).toBe('Accept-Encoding');
+  });
+
+  it('streams a file from a root directory above highWaterMark', async () => {
+    const res = await driver.dispatch(
+      (app) => {
+        app.use(serveStatic({ root, highWaterMark: 1024 }));
+      },
+      { path: '/large.txt' }
+    );
+    expect(res.status).toBe(200);
+    expect(res.header('content-length')).toBe('300000');
+    expect(res.text()).toHaveLength(300_000);
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Cross-adapter conformance — WebSocket upgrades, run against every built-in
+ * driver. Assertions live in the reusable `../suite` (single source).
+ */
+
+import { describe } from 'vitest';
+import { drivers } from '../drivers';
+import { defineWebSocketConformance } from '../suite';
+
+describe.each(drivers)('conformance: WebSocket upgrades [$name]', (driver) => {
+  defineWebSocketConformance(driver);
+});
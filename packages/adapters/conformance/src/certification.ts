@@ -59,15 +59,17 @@ export type Support = 'full' | 'partial' | 'capability-only' | 'na' | 'none';
  * driven by driver-declared flags (`handlerTimeout504`, `transportAbortFires
  * Signal`, `teardownOnShutdown`) that are themselves asserted against real
  * behavior in `#13`/`#15`/`#18` — a flag-driven feature counts as tested
- * because the flag's truth is verified, not merely declared. Multipart and
- * Compression have no such assertion yet and are intentionally NOT in this
- * set; WebSockets has no adapter implementation at all.
+ * because the flag's truth is verified, not merely declared. WebSockets
+ * graduated the same way: `webSocketUpgrade` is backed by the `#21` upgrade
+ * scenarios. Multipart and Compression have no such assertion yet and are
+ * intentionally NOT in this set.
  */
 const TESTED_FEATURES: ReadonlySet<Feature> = new Set([
   'Request',
   'Cookies',
   'Streaming',
   'SSE',
+  'WebSockets',
   'AbortSignal',
   'Shutdown',
   'Timeouts',
@@ -139,6 +141,7 @@ export interface CertInput {
   readonly handlerTimeout504: boolean;
   readonly teardownOnShutdown: boolean;
   readonly transportAbortFiresSignal: boolean;
+  readonly webSocketUpgrade: boolean;
   readonly proofLevel: ProofLevel;
   readonly realRuntimeCoverage: RealRuntimeCoverage;
 }
@@ -184,7 +187,9 @@ function rawFeatureSupport(
     case 'Compression':
       return c.webStreams || c.nodeStreams ? 'full' : 'none';
     case 'WebSockets':
-      return c.webSocket ? 'full' : 'none';
+      // Upgrade-capable adapters pass #21; serverless/nextjs have no persistent
+      // connection to upgrade → not applicable by design.
+      return input.webSocketUpgrade ? 'full' : 'na';
     case 'AbortSignal':
       // ctx.signal always fires on timeout; a mid-request TRANSPORT abort is the
       // discriminator (serverless is buffered → timeout-only = partial).
@@ -222,6 +227,7 @@ export function certInputs(): CertInput[] {
     handlerTimeout504: d.handlerTimeout504,
     teardownOnShutdown: d.teardownOnShutdown,
     transportAbortFiresSignal: d.transportAbortFiresSignal,
+    webSocketUpgrade: d.webSocketUpgrade,
     proofLevel: REAL_RUNTIME_RUNNER_EXISTS[d.name] === true ? 'real-runtime' : 'simulated',
     realRuntimeCoverage: REAL_RUNTIME_COVERAGE[d.name] ?? 'n/a',
   }));
@@ -306,12 +312,17 @@ export function renderCertificationMarkdown(): string {
     '  handler against `timeout` and returns a clean 504, cancelling via `ctx.signal`,',
     '  the same contract Bun/Deno/Edge/serverless already used. `server.timeout`',
     '  remains an independent socket-level slow-client guard on Node, unaffected.',
-    '- **Multipart / Compression / WebSockets** — 🔷 capability-only (F-02): support',
-    '  is inferred from a `capabilitiesFor()` bit, not an executed cross-adapter',
-    "  conformance assertion — the adapters implement no multipart parser, no",
-    '  response-compression, and no WebSocket-upgrade path today. Not counted as',
-    '  `full`/proven; add a real conformance assertion to graduate a feature out of',
-    '  this state (as Streaming/SSE did — see `#20` in `suite.ts`).',
+    '- **Multipart / Compression** — 🔷 capability-only (F-02): support is inferred',
+    '  from a `capabilitiesFor()` bit, not an executed cross-adapter conformance',
+    '  assertion — the adapters implement no multipart parser and no',
+    '  response-compression today. Not counted as `full`/proven; add a real',
+    '  conformance assertion to graduate a feature out of this state (as',
+    '  Streaming/SSE did — see `#20` in `suite.ts`).',
+    '- **WebSockets** — ✅ on every adapter that holds a connection (`#21` in',
+    '  `suite.ts`: upgrade gate, echo, middleware, rooms, close codes, payload',
+    '  limit); ➖ for `serverless`/`nextjs`, which have no socket to upgrade. On',
+    '  `edge` the upgrade needs `WebSocketPair` (Cloudflare Workers); other edge',
+    '  platforms answer `501`.',
     '- **AbortSignal** — ⚠️ for `serverless`: the platform delivers a buffered event,',
     '  so there is no mid-request transport abort; `ctx.signal` still fires on timeout.',
     '- **Shutdown** — ➖ for `edge`/`serverless`: no server lifetime, so extension',
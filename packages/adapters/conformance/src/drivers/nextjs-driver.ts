@@ -52,6 +52,7 @@ export const nextjsDriver: ConformanceDriver = {
   teardownOnShutdown: false, // no server lifetime, like edge (F-14) — handle() never calls close()
   transportAbortFiresSignal: true, // the forwarded Request's own .signal aborts, same as edge
   honorsCloudflareIp: true, // reuses the edge context → cf-connecting-ip precedence (F-11)
+  webSocketUpgrade: false, // route handlers return a Response; there is no socket to upgrade
 
   async dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult> {
     const app = createApp({ proxy: init?.proxy ?? false });
@@ -8,13 +8,27 @@
  * auto-follows redirects and returns an opaque response for `redirect:'manual'`,
  * which would hide the redirect status/headers the suite must observe.
  *
+ * WebSocket scenarios run end to end as well: the handler is attached to the
+ * loopback server and a real `ws` client speaks to it.
+ *
  * @packageDocumentation
  */
 
 import { serve } from '@nextrush/adapter-node';
 import { createApp } from '@nextrush/core';
-import { request as httpRequest, type IncomingHttpHeaders } from 'node:http';
-import type { Configure, ConformanceDriver, DispatchInit, DispatchResult } from './types';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import { WebSocketServer } from '@nextrush/websocket';
+import { request as httpRequest, type IncomingHttpHeaders, type Server } from 'node:http';
+import { WebSocket as WsClient, type RawData } from 'ws';
+import type {
+  Configure,
+  ConformanceDriver,
+  DispatchInit,
+  DispatchResult,
+  WebSocketConnectResult,
+  WebSocketEndpoint,
+} from './types';
+import { createClientLink, toFrame } from './websocket-client';
 
 interface RawResponse {
   status: number;
@@ -67,12 +81,52 @@ function toResult(raw: RawResponse): DispatchResult {
   };
 }
 
+/** Open a real `ws` client; a refused handshake resolves with the HTTP response. */
+function connectWebSocket(port: number, path = '/'): Promise<WebSocketConnectResult> {
+  return new Promise((resolve, reject) => {
+    const socket = new WsClient(`ws://127.0.0.1:${String(port)}${path}`);
+    const link = createClientLink({
+      send: (data) => {
+        socket.send(data);
+      },
+      close: (code, reason) => {
+        socket.close(code, reason);
+      },
+    });
+    // The default binaryType ('nodebuffer') delivers every frame as one Buffer.
+    socket.on('message', (data: RawData, isBinary: boolean) => {
+      const buffer = data as Buffer;
+      link.receive(isBinary ? toFrame(buffer) : buffer.toString('utf8'));
+    });
+    socket.on('close', (code: number, reason: Buffer) => {
+      link.closed(code, reason.toString('utf8'));
+    });
+    socket.on('open', () => {
+      resolve({ accepted: true, client: link.client });
+    });
+    socket.on('unexpected-response', (_request, res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        const raw = {
+          status: res.statusCode ?? 0,
+          headers: res.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        };
+        resolve({ accepted: false, response: toResult(raw) });
+      });
+    });
+    socket.on('error', reject);
+  });
+}
+
 export const nodeDriver: ConformanceDriver = {
   name: 'node',
   handlerTimeout504: true, // F-04/ADR-0010: Node now races the handler and returns a clean 504
   teardownOnShutdown: true,
   transportAbortFiresSignal: true,
   honorsCloudflareIp: false, // Node ignores cf-connecting-ip (F-11)
+  webSocketUpgrade: true,
 
   async dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult> {
     const app = createApp({ proxy: init?.proxy ?? false });
@@ -85,6 +139,29 @@ export const nodeDriver: ConformanceDriver = {
     }
   },
 
+  async serveWebSocket(
+    handler: WebSocketUpgradeHandler,
+    configure: Configure
+  ): Promise<WebSocketEndpoint> {
+    // adapter-node has no `websocket` option: the handler attaches to the
+    // http.Server's 'upgrade' event itself.
+    if (!(handler instanceof WebSocketServer)) {
+      throw new TypeError('The node driver attaches a @nextrush/websocket WebSocketServer');
+    }
+    const app = createApp();
+    configure(app);
+    const server = await serve(app, { port: 0 });
+    await handler.attach(server.server as Server);
+    return {
+      connect: (path) => connectWebSocket(server.port, path),
+      dispatch: async (init) => toResult(await rawRequest(server.port, init)),
+      async close() {
+        handler.close();
+        await server.close();
+      },
+    };
+  },
+
   async abortFiresSignal(): Promise<boolean> {
     let fired = false;
     const app = createApp();
@@ -59,6 +59,7 @@ export const serverlessDriver: ConformanceDriver = {
   teardownOnShutdown: false, // no server lifetime, like edge (F-14)
   transportAbortFiresSignal: false, // buffered event model — no mid-request transport abort
   honorsCloudflareIp: true, // reuses the edge context → cf-connecting-ip precedence (F-11)
+  webSocketUpgrade: false, // one buffered event per invocation; no connection to upgrade
 
   async dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult> {
     const app = createApp({ proxy: init?.proxy ?? false });
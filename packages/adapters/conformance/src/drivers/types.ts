@@ -15,7 +15,7 @@
  */
 
 import type { Application } from '@nextrush/core';
-import type { ProxyTrust } from '@nextrush/types';
+import type { ProxyTrust, WebSocketUpgradeHandler } from '@nextrush/types';
 
 /** Options for a single conformance request. */
 export interface DispatchInit {
@@ -52,6 +52,33 @@ export interface DispatchResult {
 /** Registers middleware/extensions on the app before a request is dispatched. */
 export type Configure = (app: Application) => void;
 
+/** The client end of a WebSocket opened through an adapter's upgrade path. */
+export interface WebSocketClient {
+  /** Send a frame to the server. */
+  send(data: string | Uint8Array): void;
+  /** Resolve with the next frame the server sends (binary frames as `Uint8Array`). */
+  next(): Promise<string | Uint8Array>;
+  /** Close from the client side. */
+  close(code: number, reason: string): void;
+  /** Resolve with the close code/reason once the socket has closed, from either side. */
+  closed(): Promise<{ code: number; reason: string }>;
+}
+
+/** The outcome of one upgrade attempt: an open client, or the rejection response. */
+export type WebSocketConnectResult =
+  | { readonly accepted: true; readonly client: WebSocketClient }
+  | { readonly accepted: false; readonly response: DispatchResult };
+
+/** One app served with a WebSocket upgrade handler, open for several clients. */
+export interface WebSocketEndpoint {
+  /** Attempt an upgrade to `path` (default `/`, may carry a query string). */
+  connect(path?: string): Promise<WebSocketConnectResult>;
+  /** Dispatch an ordinary (non-upgrade) request through the same app. */
+  dispatch(init?: DispatchInit): Promise<DispatchResult>;
+  /** Stop serving and restore anything the driver stubbed. */
+  close(): Promise<void>;
+}
+
 /**
  * Drives one adapter through its real handler and normalizes the outcome.
  */
@@ -82,6 +109,23 @@ export interface ConformanceDriver {
    */
   readonly honorsCloudflareIp: boolean;
 
+  /**
+   * Whether the adapter upgrades WebSocket requests through a
+   * `WebSocketUpgradeHandler` (Node via `attach()`, Bun/Deno/Edge via the
+   * `websocket` option). Serverless and Next.js have no persistent connection
+   * to upgrade, so they declare `false` and omit {@link serveWebSocket}.
+   */
+  readonly webSocketUpgrade: boolean;
+
+  /**
+   * Serve `configure`'d app with `handler` answering upgrade requests. Present
+   * exactly when {@link webSocketUpgrade} is `true`.
+   */
+  serveWebSocket?(
+    handler: WebSocketUpgradeHandler,
+    configure: Configure
+  ): Promise<WebSocketEndpoint>;
+
   /** Configure an app, dispatch one request, and return the normalized result. */
   dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult>;
 
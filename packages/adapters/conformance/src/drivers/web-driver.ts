@@ -13,14 +13,30 @@
  * are NOT exercised here (covered by each adapter's own `adapter.test.ts`); the
  * handler path is the runtime-neutral seam that runs under Node/vitest.
  *
+ * WebSocket upgrades are the exception: the runtime owns the socket, so each
+ * `serveWebSocket` stands in for the one primitive the adapter calls
+ * (`Bun.serve`'s `server.upgrade()`, `Deno.upgradeWebSocket`, `WebSocketPair`)
+ * with an in-memory link, installed only while the endpoint is open. Bun's
+ * upgrade path only exists inside `serve()`, so that one runs over a captured
+ * `Bun.serve` call.
+ *
  * @packageDocumentation
  */
 
-import { createHandler as createBunHandler } from '@nextrush/adapter-bun';
+import { createHandler as createBunHandler, serve as serveBun } from '@nextrush/adapter-bun';
 import { createHandler as createDenoHandler } from '@nextrush/adapter-deno';
 import { createFetchHandler } from '@nextrush/adapter-edge';
 import { createApp, type Application } from '@nextrush/core';
-import type { Configure, ConformanceDriver, DispatchInit, DispatchResult } from './types';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import type {
+  Configure,
+  ConformanceDriver,
+  DispatchInit,
+  DispatchResult,
+  WebSocketConnectResult,
+  WebSocketEndpoint,
+} from './types';
+import { createClientLink, LinkedServerSocket, toFrame, type ClientLink } from './websocket-client';
 
 /** Builds a Web `Response` from an app + request for one specific adapter. */
 type WebInvoke = (
@@ -53,11 +69,18 @@ function buildRequest(init: DispatchInit | undefined, signal?: AbortSignal): Req
   return new Request(`http://localhost${path}`, requestInit);
 }
 
+/** Serves an app + upgrade handler for one specific adapter. */
+type WebServeWebSocket = (
+  handler: WebSocketUpgradeHandler,
+  configure: Configure
+) => Promise<WebSocketEndpoint>;
+
 /** Create a conformance driver for a Web adapter. */
 function createWebDriver(
   name: string,
   invoke: WebInvoke,
-  honorsCloudflareIp: boolean
+  honorsCloudflareIp: boolean,
+  serveWebSocket: WebServeWebSocket
 ): ConformanceDriver {
   return {
     name,
@@ -65,6 +88,8 @@ function createWebDriver(
     teardownOnShutdown: name !== 'edge', // edge has no teardown seam (F-14)
     transportAbortFiresSignal: true,
     honorsCloudflareIp,
+    webSocketUpgrade: true,
+    serveWebSocket,
 
     async dispatch(configure: Configure, init?: DispatchInit): Promise<DispatchResult> {
       const app = createApp({ proxy: init?.proxy ?? false });
@@ -131,6 +156,217 @@ function createWebDriver(
   };
 }
 
+/** A handshake request carrying the headers a browser sends. */
+function upgradeRequest(path: string | undefined): Request {
+  return buildRequest({
+    path,
+    headers: {
+      upgrade: 'websocket',
+      connection: 'Upgrade',
+      'sec-websocket-version': '13',
+      'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==',
+    },
+  });
+}
+
+/** Swap a global for the endpoint's lifetime; the returned function restores it. */
+function stubGlobal(name: string, value: unknown): () => void {
+  const g = globalThis as Record<string, unknown>;
+  const had = name in g;
+  const previous = g[name];
+  g[name] = value;
+  return () => {
+    if (had) g[name] = previous;
+    else Reflect.deleteProperty(g, name);
+  };
+}
+
+/** The slice of `Bun.serve`'s options the Bun endpoint drives. */
+interface CapturedBunServe {
+  fetch: (request: Request, server: unknown) => Promise<Response | undefined>;
+  websocket: {
+    open(ws: FakeBunSocket): void;
+    message(ws: FakeBunSocket, message: string | Uint8Array): void;
+    close(ws: FakeBunSocket, code: number, reason: string): void;
+  };
+}
+
+/** A `ServerWebSocket` look-alike wired to an in-memory client. */
+interface FakeBunSocket {
+  readonly data: unknown;
+  readyState: number;
+  send(data: string | ArrayBufferLike | ArrayBufferView): void;
+  close(code?: number, reason?: string): void;
+  ping(): void;
+  pong(): void;
+}
+
+function createBunSocket(
+  data: unknown,
+  handlers: CapturedBunServe['websocket']
+): { ws: FakeBunSocket; link: ClientLink } {
+  const finish = (code: number, reason: string): void => {
+    if (ws.readyState === 3) return;
+    ws.readyState = 3;
+    link.closed(code, reason);
+    handlers.close(ws, code, reason);
+  };
+  const ws: FakeBunSocket = {
+    data,
+    readyState: 1,
+    send: (frame) => {
+      if (ws.readyState === 1) link.receive(toFrame(frame));
+    },
+    close: (code = 1000, reason = '') => {
+      finish(code, reason);
+    },
+    ping: () => undefined,
+    pong: () => undefined,
+  };
+  const link = createClientLink({
+    send: (frame) => {
+      if (ws.readyState === 1) handlers.message(ws, frame);
+    },
+    close: finish,
+  });
+  return { ws, link };
+}
+
+async function serveBunWebSocket(
+  handler: WebSocketUpgradeHandler,
+  configure: Configure
+): Promise<WebSocketEndpoint> {
+  let captured: CapturedBunServe | undefined;
+  const restore = stubGlobal('Bun', {
+    serve(options: CapturedBunServe) {
+      captured = options;
+      return { port: 0, hostname: '127.0.0.1', stop: () => Promise.resolve() };
+    },
+  });
+  const app = createApp();
+  configure(app);
+  const instance = await serveBun(app, { port: 0, websocket: handler }).catch((error: unknown) => {
+    restore();
+    throw error;
+  });
+  if (!captured) throw new Error('serve() did not call Bun.serve');
+  const { fetch, websocket } = captured;
+
+  const upgrades: { ws: FakeBunSocket; link: ClientLink }[] = [];
+  const server = {
+    requestIP: () => ({ address: '127.0.0.1', family: 'IPv4', port: 0 }),
+    upgrade: (_request: Request, options: { data: unknown }) => {
+      upgrades.push(createBunSocket(options.data, websocket));
+      return true;
+    },
+  };
+
+  return {
+    async connect(path): Promise<WebSocketConnectResult> {
+      const response = await fetch(upgradeRequest(path), server);
+      if (response) return { accepted: false, response: await toResult(response) };
+      const upgrade = upgrades.shift();
+      if (!upgrade) throw new Error('fetch answered neither a response nor an upgrade');
+      websocket.open(upgrade.ws); // Bun opens the socket after answering the handshake
+      return { accepted: true, client: upgrade.link.client };
+    },
+    async dispatch(init) {
+      const response = await fetch(buildRequest(init), server);
+      if (!response) throw new Error('a plain request was upgraded');
+      return toResult(response);
+    },
+    async close() {
+      await instance.close();
+      restore();
+    },
+  };
+}
+
+async function serveDenoWebSocket(
+  handler: WebSocketUpgradeHandler,
+  configure: Configure
+): Promise<WebSocketEndpoint> {
+  const upgraded: LinkedServerSocket[] = [];
+  const restore = stubGlobal('Deno', {
+    upgradeWebSocket() {
+      const socket = new LinkedServerSocket();
+      upgraded.push(socket);
+      // Node's Response rejects 101; the socket, not the status, marks success.
+      return { socket, response: new Response(null) };
+    },
+  });
+  const app = createApp();
+  configure(app);
+  await app.ready();
+  const fetch = createDenoHandler(app, { websocket: handler });
+  const info = { remoteAddr: { hostname: '127.0.0.1', port: 0 } };
+
+  return {
+    async connect(path): Promise<WebSocketConnectResult> {
+      const response = await fetch(upgradeRequest(path), info);
+      const socket = upgraded.shift();
+      if (!socket) return { accepted: false, response: await toResult(response) };
+      socket.open(); // Deno fires `open` once the 101 is on the wire
+      return { accepted: true, client: socket.link.client };
+    },
+    async dispatch(init) {
+      return toResult(await fetch(buildRequest(init), info));
+    },
+    async close() {
+      restore();
+      await app.close();
+    },
+  };
+}
+
+async function serveEdgeWebSocket(
+  handler: WebSocketUpgradeHandler,
+  configure: Configure
+): Promise<WebSocketEndpoint> {
+  const accepted: LinkedServerSocket[] = [];
+  const NativeResponse = Response;
+  const restorePair = stubGlobal(
+    'WebSocketPair',
+    class {
+      0 = new LinkedServerSocket();
+      1 = new LinkedServerSocket();
+      constructor() {
+        accepted.push(this[1]);
+      }
+    }
+  );
+  // Workers answer the handshake with a 101 Node's Response refuses.
+  const restoreResponse = stubGlobal(
+    'Response',
+    class extends NativeResponse {
+      constructor(body?: BodyInit | null, init?: ResponseInit) {
+        super(body, init?.status === 101 ? { ...init, status: 200 } : init);
+      }
+    }
+  );
+  const app = createApp();
+  configure(app);
+  await app.ready();
+  const fetch = createFetchHandler(app, { websocket: handler });
+
+  return {
+    async connect(path): Promise<WebSocketConnectResult> {
+      const response = await fetch(upgradeRequest(path));
+      const socket = accepted.shift();
+      if (!socket) return { accepted: false, response: await toResult(response) };
+      return { accepted: true, client: socket.link.client };
+    },
+    async dispatch(init) {
+      return toResult(await fetch(buildRequest(init)));
+    },
+    async close() {
+      restoreResponse();
+      restorePair();
+      await app.close();
+    },
+  };
+}
+
 export const bunDriver: ConformanceDriver = createWebDriver('bun', (app, request, options, ip) => {
   const handler = createBunHandler(app, options);
   // Bun's fetch handler receives the full `Bun.Server` as its 2nd argument, but
@@ -138,14 +374,14 @@ export const bunDriver: ConformanceDriver = createWebDriver('bun', (app, request
   // for the conformance path; erase the Bun-specific server type at this seam.
   const serverStub = { requestIP: () => ({ address: ip, family: 'IPv4', port: 0 }) };
   return (handler as unknown as (r: Request, s: unknown) => Promise<Response>)(request, serverStub);
-}, false);
+}, false, serveBunWebSocket);
 
 export const denoDriver: ConformanceDriver = createWebDriver('deno', (app, request, options, ip) => {
   const handler = createDenoHandler(app, options);
   return handler(request, { remoteAddr: { hostname: ip, port: 0 } });
-}, false);
+}, false, serveDenoWebSocket);
 
 export const edgeDriver: ConformanceDriver = createWebDriver('edge', async (app, request, options) => {
   const handler = createFetchHandler(app, options);
   return handler(request);
-}, true);
+}, true, serveEdgeWebSocket);
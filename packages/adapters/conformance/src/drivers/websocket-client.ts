@@ -0,0 +1,138 @@
+/**
+ * Client-side plumbing shared by the drivers' `serveWebSocket` implementations.
+ *
+ * @remarks
+ * Node drives a real `ws` client over loopback; Bun/Deno/Edge have no socket
+ * under vitest, so their drivers stand in for the runtime with an in-memory
+ * link whose server end is the object the adapter binds (a `StandardWebSocket`
+ * for Deno/Edge, a `ServerWebSocket` look-alike for Bun). Either way the suite
+ * sees the same {@link WebSocketClient}.
+ *
+ * @packageDocumentation
+ */
+
+import type { WebSocketClient } from './types';
+
+type Frame = string | Uint8Array;
+interface CloseInfo {
+  code: number;
+  reason: string;
+}
+
+/** A {@link WebSocketClient} plus the hooks its transport feeds. */
+export interface ClientLink {
+  readonly client: WebSocketClient;
+  /** Queue a frame the server sent. */
+  receive(frame: Frame): void;
+  /** Record the close; only the first call counts. */
+  closed(code: number, reason: string): void;
+}
+
+/**
+ * Build a client whose outbound frames and close go to `transport`; the
+ * transport reports inbound frames and the close back through the link.
+ */
+export function createClientLink(transport: {
+  send(data: Frame): void;
+  close(code: number, reason: string): void;
+}): ClientLink {
+  const frames: Frame[] = [];
+  const frameWaiters: ((frame: Frame) => void)[] = [];
+  let closeInfo: CloseInfo | undefined;
+  const closeWaiters: ((info: CloseInfo) => void)[] = [];
+
+  return {
+    client: {
+      send: (data) => {
+        transport.send(data);
+      },
+      next: () => {
+        const frame = frames.shift();
+        return frame === undefined
+          ? new Promise((resolve) => frameWaiters.push(resolve))
+          : Promise.resolve(frame);
+      },
+      close: (code, reason) => {
+        transport.close(code, reason);
+      },
+      closed: () =>
+        closeInfo
+          ? Promise.resolve(closeInfo)
+          : new Promise((resolve) => closeWaiters.push(resolve)),
+    },
+    receive(frame) {
+      const waiter = frameWaiters.shift();
+      if (waiter) waiter(frame);
+      else frames.push(frame);
+    },
+    closed(code, reason) {
+      if (closeInfo) return;
+      const info = { code, reason };
+      closeInfo = info;
+      for (const waiter of closeWaiters.splice(0)) waiter(info);
+    },
+  };
+}
+
+/** Copy a frame into a plain `Uint8Array` (or keep the string). */
+export function toFrame(data: string | ArrayBufferLike | ArrayBufferView): Frame {
+  if (typeof data === 'string') return data;
+  if (!ArrayBuffer.isView(data)) return new Uint8Array(data.slice(0));
+  return new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+}
+
+/**
+ * The server end of an in-memory link, shaped like the `WebSocket` that
+ * `Deno.upgradeWebSocket` and `WebSocketPair` hand out: frames the client
+ * sends arrive as `message` events (binary as an `ArrayBuffer`), and a close
+ * from either side fires `close` once.
+ */
+export class LinkedServerSocket extends EventTarget {
+  readyState = 0;
+  binaryType = 'blob';
+  readonly link: ClientLink;
+
+  constructor() {
+    super();
+    this.link = createClientLink({
+      send: (data) => {
+        if (this.readyState !== 1) return;
+        const payload = toFrame(data);
+        this.fire('message', { data: typeof payload === 'string' ? payload : payload.buffer });
+      },
+      close: (code, reason) => {
+        this.finish(code, reason);
+      },
+    });
+  }
+
+  /** Open without an event, as `WebSocketPair`'s `accept()` does. */
+  accept(): void {
+    this.readyState = 1;
+  }
+
+  /** Open and fire `open`, as Deno does once the handshake is sent. */
+  open(): void {
+    this.readyState = 1;
+    this.fire('open', {});
+  }
+
+  send(data: string | ArrayBufferLike | ArrayBufferView): void {
+    if (this.readyState === 1) this.link.receive(toFrame(data));
+  }
+
+  close(code = 1000, reason = ''): void {
+    this.finish(code, reason);
+  }
+
+  private finish(code: number, reason: string): void {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.link.closed(code, reason);
+    this.fire('close', { code, reason });
+  }
+
+  private fire(type: string, init: Record<string, unknown>): void {
+    this.dispatchEvent(Object.assign(new Event(type), init));
+  }
+}
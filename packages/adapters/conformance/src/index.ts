@@ -16,7 +16,8 @@
  * Implement a {@link ConformanceDriver} for your adapter (drive its real handler,
  * normalize the result), then run `defineConformanceSuite(driver)`. Behaviors
  * that legitimately cannot match are encoded as capability flags on the driver
- * (e.g. `handlerTimeout504`, `teardownOnShutdown`, `transportAbortFiresSignal`),
+ * (e.g. `handlerTimeout504`, `teardownOnShutdown`, `transportAbortFiresSignal`,
+ * `webSocketUpgrade`),
  * never skipped.
  *
  * @packageDocumentation
@@ -29,6 +30,9 @@ export type {
   Configure,
   DispatchInit,
   DispatchResult,
+  WebSocketClient,
+  WebSocketConnectResult,
+  WebSocketEndpoint,
 } from './drivers/types';
 
 // The reusable suite (run these against your driver)
@@ -37,8 +41,12 @@ export {
   defineRequestConformance,
   defineResponseConformance,
   defineRuntimeConformance,
+  defineWebSocketConformance,
 } from './suite';
 
+// Driver-authoring helper: the client half of `serveWebSocket`
+export { createClientLink, type ClientLink } from './drivers/websocket-client';
+
 // The built-in drivers + certification matrix (for reference/inspection)
 export { drivers } from './drivers';
 export {
@@ -21,7 +21,8 @@
 
 import type { Application } from '@nextrush/core';
 import { expect, it } from '@nextrush/adapter-conformance/test-primitives';
-import type { ConformanceDriver } from './drivers/types';
+import { createWebSocket, type WebSocketOptions, type WebSocketServer } from '@nextrush/websocket';
+import type { Configure, ConformanceDriver, WebSocketEndpoint } from './drivers/types';
 import { json } from './support';
 
 /** Request-side behaviors (audit F-01, spec rows #1-#4, #11, #16-#18). */
@@ -474,12 +475,189 @@ export function defineRuntimeConformance(driver: ConformanceDriver): void {
   });
 }
 
+/**
+ * Serve a fresh `@nextrush/websocket` server through the driver, run `scenario`
+ * against the endpoint, then tear both down.
+ */
+async function withWebSocketEndpoint(
+  driver: ConformanceDriver,
+  options: WebSocketOptions,
+  routes: (wss: WebSocketServer) => void,
+  scenario: (endpoint: WebSocketEndpoint) => Promise<void>,
+  configure: Configure = () => undefined
+): Promise<void> {
+  if (!driver.serveWebSocket) {
+    throw new Error(`${driver.name} declares webSocketUpgrade but has no serveWebSocket`);
+  }
+  const wss = createWebSocket({ heartbeatInterval: 0, ...options });
+  routes(wss);
+  const endpoint = await driver.serveWebSocket(wss, configure);
+  try {
+    await scenario(endpoint);
+  } finally {
+    await endpoint.close();
+    wss.close();
+  }
+}
+
+/** Open a socket the scenario expects to be accepted. */
+async function open(endpoint: WebSocketEndpoint, path: string) {
+  const result = await endpoint.connect(path);
+  if (!result.accepted) {
+    throw new Error(`upgrade to ${path} was rejected with ${String(result.response.status)}`);
+  }
+  return result.client;
+}
+
+/**
+ * WebSocket upgrades (#21): the same `@nextrush/websocket` server — routes,
+ * middleware, rooms, close codes, payload limit — behaves identically on every
+ * adapter that can upgrade. Adapters that cannot declare `webSocketUpgrade:
+ * false` and only the capability check runs.
+ */
+export function defineWebSocketConformance(driver: ConformanceDriver): void {
+  it('#21 WebSocket capability: serveWebSocket is provided exactly when upgrades are declared', () => {
+    expect(typeof driver.webSocketUpgrade).toBe('boolean');
+    expect(typeof driver.serveWebSocket === 'function').toBe(driver.webSocketUpgrade);
+  });
+
+  if (!driver.webSocketUpgrade) return;
+
+  it('#21 WebSocket upgrade gate: unknown path → 404, failed verifyClient → 401, full server → 503', async () => {
+    const options: WebSocketOptions = {
+      maxConnections: 1,
+      verifyClient: (request) => new URL(request.url, 'http://localhost').searchParams.get('token') === 'ok',
+    };
+    await withWebSocketEndpoint(driver, options, (wss) => wss.on('/chat', () => undefined), async (endpoint) => {
+      const statusOf = async (path: string) => {
+        const result = await endpoint.connect(path);
+        return result.accepted ? 101 : result.response.status;
+      };
+      expect(await statusOf('/missing?token=ok')).toBe(404);
+      expect(await statusOf('/chat')).toBe(401);
+      expect(await statusOf('/chat?token=ok')).toBe(101);
+      expect(await statusOf('/chat?token=ok')).toBe(503);
+    });
+  });
+
+  it('#21 WebSocket echo: text frames stay text, binary frames stay binary', async () => {
+    await withWebSocketEndpoint(driver, {}, (wss) => {
+      wss.on('/echo', (conn) => {
+        conn.on('message', (data) => {
+          conn.send(data);
+        });
+      });
+    }, async (endpoint) => {
+      const client = await open(endpoint, '/echo');
+      client.send('hello');
+      expect(await client.next()).toBe('hello');
+      client.send(new Uint8Array([1, 2, 3]));
+      expect(await client.next()).toEqual(new Uint8Array([1, 2, 3]));
+    });
+  });
+
+  it('#21 WebSocket middleware: runs before the route handler and sees the upgrade request', async () => {
+    await withWebSocketEndpoint(driver, {}, (wss) => {
+      wss.use((conn, _request, next) => {
+        conn.join('authenticated');
+        return next();
+      });
+      wss.on('/info', (conn, request) => {
+        conn.json({ path: request.path, url: conn.url, rooms: conn.getRooms() });
+      });
+    }, async (endpoint) => {
+      const client = await open(endpoint, '/info?v=2');
+      expect(JSON.parse(String(await client.next()))).toEqual({
+        path: '/info',
+        url: '/info?v=2',
+        rooms: ['authenticated'],
+      });
+    });
+  });
+
+  it('#21 WebSocket rooms: a broadcast reaches the other members, not the sender', async () => {
+    await withWebSocketEndpoint(driver, {}, (wss) => {
+      wss.on('/room', (conn) => {
+        conn.join('lobby');
+        conn.on('message', (data) => {
+          conn.broadcast('lobby', data);
+        });
+      });
+    }, async (endpoint) => {
+      const alice = await open(endpoint, '/room');
+      const bob = await open(endpoint, '/room');
+      alice.send('hi bob');
+      expect(await bob.next()).toBe('hi bob');
+      bob.send('hi alice');
+      // Alice's first frame is Bob's reply: her own broadcast never came back.
+      expect(await alice.next()).toBe('hi alice');
+    });
+  });
+
+  it('#21 WebSocket close: server close codes reach the client; client close codes reach the server', async () => {
+    let serverSaw: (info: { code: number; reason: string }) => void = () => undefined;
+    const serverClose = new Promise<{ code: number; reason: string }>((resolve) => {
+      serverSaw = resolve;
+    });
+    await withWebSocketEndpoint(driver, {}, (wss) => {
+      wss.on('/kick', (conn) => {
+        conn.on('message', () => {
+          conn.close(4001, 'kicked');
+        });
+      });
+      wss.on('/leave', (conn) => {
+        conn.on('close', (code, reason) => {
+          serverSaw({ code, reason });
+        });
+      });
+    }, async (endpoint) => {
+      const kicked = await open(endpoint, '/kick');
+      kicked.send('anything');
+      expect(await kicked.closed()).toEqual({ code: 4001, reason: 'kicked' });
+
+      const leaving = await open(endpoint, '/leave');
+      leaving.close(4000, 'bye');
+      expect(await serverClose).toEqual({ code: 4000, reason: 'bye' });
+    });
+  });
+
+  it('#21 WebSocket maxPayload: an oversized message closes the socket with 1009', async () => {
+    await withWebSocketEndpoint(driver, { maxPayload: 16 }, (wss) => {
+      wss.on('/small', (conn) => {
+        conn.on('message', (data) => {
+          conn.send(data);
+        });
+      });
+    }, async (endpoint) => {
+      const client = await open(endpoint, '/small');
+      client.send('fits');
+      expect(await client.next()).toBe('fits');
+      client.send('x'.repeat(64));
+      expect((await client.closed()).code).toBe(1009);
+    });
+  });
+
+  it('#21 WebSocket pass-through: a plain request to a socket path runs the HTTP pipeline', async () => {
+    await withWebSocketEndpoint(driver, {}, (wss) => wss.on('/chat', () => undefined), async (endpoint) => {
+      const res = await endpoint.dispatch({ path: '/chat' });
+      expect(res.status).toBe(200);
+      expect(json<{ via: string }>(res).via).toBe('http');
+    }, (app: Application) => {
+      app.use((ctx) => {
+        ctx.json({ via: 'http' });
+      });
+    });
+  });
+}
+
 /**
  * The full cross-adapter conformance suite for one driver — request + response
- * + runtime behaviors. External adapter authors wrap this in a `describe`.
+ * + runtime + WebSocket behaviors. External adapter authors wrap this in a
+ * `describe`.
  */
 export function defineConformanceSuite(driver: ConformanceDriver): void {
   defineRequestConformance(driver);
   defineResponseConformance(driver);
   defineRuntimeConformance(driver);
+  defineWebSocketConformance(driver);
 }
@@ -9,7 +9,7 @@ import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as adapterDenoApi from '../index';
 import type { Application } from '../index';
 import type { BodySource, Context, HttpMethod, Middleware, Runtime } from '../index';
-import type { ServeOptions, ServerInstance } from '../index';
+import type { DenoHandlerOptions, ServeOptions, ServerInstance } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
@@ -49,7 +49,17 @@ describe('Public API surface (type-only exports)', () => {
   it('the type-only surface stays importable from the barrel', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
-    type Surface = [ServeOptions, ServerInstance, Application, BodySource, Context, HttpMethod, Middleware, Runtime];
+    type Surface = [
+      DenoHandlerOptions,
+      ServeOptions,
+      ServerInstance,
+      Application,
+      BodySource,
+      Context,
+      HttpMethod,
+      Middleware,
+      Runtime,
+    ];
     expectTypeOf<Surface>().not.toBeNever();
   });
 });
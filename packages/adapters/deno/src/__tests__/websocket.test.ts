@@ -0,0 +1,121 @@
+/**
+ * @nextrush/adapter-deno — WebSocket upgrades through `createHandler({ websocket })`.
+ *
+ * `Deno.upgradeWebSocket` does not exist under vitest/Node, so a stub returns
+ * an EventTarget-backed socket the test drives by hand. Real-Deno proof lives
+ * in `deno-runner/`.
+ */
+
+import { createApp } from '@nextrush/core';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHandler } from '../adapter';
+
+/** The socket `Deno.upgradeWebSocket` hands back, already open. */
+class FakeSocket extends EventTarget {
+  readyState = 1;
+  binaryType = 'blob';
+  send = vi.fn();
+  close = vi.fn();
+
+  fire(type: string, init: Record<string, unknown>): void {
+    this.dispatchEvent(Object.assign(new Event(type), init));
+  }
+}
+
+const info = { remoteAddr: { hostname: '10.0.0.7', port: 0 } };
+// Node's Response rejects status 101, so a marked 200 stands in for the handshake.
+const handshake = new Response(null, { headers: { 'x-handshake': '1' } });
+
+let socket: FakeSocket;
+let upgradeWebSocket: ReturnType<typeof vi.fn>;
+let previousDeno: unknown;
+
+beforeEach(() => {
+  const g = globalThis as { Deno?: unknown };
+  previousDeno = g.Deno;
+  socket = new FakeSocket();
+  upgradeWebSocket = vi.fn(() => ({ socket, response: handshake }));
+  g.Deno = { upgradeWebSocket };
+});
+
+afterEach(() => {
+  (globalThis as { Deno?: unknown }).Deno = previousDeno;
+});
+
+function upgradeRequest(path = '/chat'): Request {
+  return new Request(`http://localhost${path}`, { headers: { upgrade: 'websocket' } });
+}
+
+function echoHandler() {
+  const events: unknown[] = [];
+  const handler: WebSocketUpgradeHandler = {
+    handleUpgrade: async (request) => {
+      if (request.path !== '/chat') return { accepted: false, status: 403, message: 'Forbidden' };
+      events.push(['upgrade', request.ip]);
+      return {
+        accepted: true,
+        open: (peer) => ({
+          message: (data) => {
+            peer.send(data);
+          },
+          close: (code, reason) => events.push(['close', code, reason]),
+          error: (error) => events.push(['error', error]),
+        }),
+      };
+    },
+  };
+  return { handler, events };
+}
+
+describe('createHandler({ websocket })', () => {
+  it('upgrades accepted requests and delivers socket events to the handler', async () => {
+    const { handler, events } = echoHandler();
+    const fetch = createHandler(createApp(), { websocket: handler });
+
+    const response = await fetch(upgradeRequest(), info);
+
+    expect(response).toBe(handshake);
+    expect(events).toEqual([['upgrade', '10.0.0.7']]);
+
+    socket.fire('message', { data: 'hello' });
+    socket.fire('message', { data: new Uint8Array([7]).buffer });
+    socket.fire('close', { code: 1001, reason: 'away' });
+
+    expect(socket.send).toHaveBeenNthCalledWith(1, 'hello');
+    expect(socket.send).toHaveBeenNthCalledWith(2, new Uint8Array([7]));
+    expect(events).toContainEqual(['close', 1001, 'away']);
+  });
+
+  it('answers a rejected upgrade with its status', async () => {
+    const { handler } = echoHandler();
+    const fetch = createHandler(createApp(), { websocket: handler });
+
+    const response = await fetch(upgradeRequest('/admin'), info);
+
+    expect(response.status).toBe(403);
+    expect(upgradeWebSocket).not.toHaveBeenCalled();
+  });
+
+  it('answers 400 when Deno refuses the handshake', async () => {
+    const { handler } = echoHandler();
+    upgradeWebSocket.mockImplementation(() => {
+      throw new TypeError('Invalid Header');
+    });
+    const fetch = createHandler(createApp(), { websocket: handler });
+
+    expect((await fetch(upgradeRequest(), info)).status).toBe(400);
+  });
+
+  it('leaves upgrade requests to the pipeline without the option', async () => {
+    const app = createApp();
+    app.use((ctx) => {
+      ctx.json({ upgraded: false });
+    });
+
+    const response = await createHandler(app)(upgradeRequest(), info);
+
+    expect(await response.json()).toEqual({ upgraded: false });
+    expect(upgradeWebSocket).not.toHaveBeenCalled();
+  });
+});
@@ -10,12 +10,20 @@ import type { Application, Logger } from '@nextrush/core';
 import {
   DEFAULT_SHUTDOWN_TIMEOUT_MS,
   DEFAULT_TIMEOUT_MS,
+  isWebSocketUpgrade,
   jsonErrorResponse,
   normalizeStartupError,
 } from '@nextrush/runtime';
-import type { AdapterContextFactory, HandlerOptions, ProxyTrust, ServerAdapter } from '@nextrush/types';
+import type {
+  AdapterContextFactory,
+  HandlerOptions,
+  ProxyTrust,
+  ServerAdapter,
+  WebSocketUpgradeHandler,
+} from '@nextrush/types';
 import { createDenoContext } from './context';
 import type { DenoContext } from './context';
+import { upgradeDenoWebSocket } from './websocket';
 
 // Deno runtime types are declared ambiently in ./deno.d.ts (audit F-17).
 
@@ -126,6 +134,27 @@ export interface ServeOptions {
    * @default undefined (no signal handler installed)
    */
   gracefulShutdown?: boolean | GracefulShutdownOptions;
+
+  /**
+   * Accept WebSocket upgrades — see {@link DenoHandlerOptions.websocket}.
+   */
+  websocket?: WebSocketUpgradeHandler;
+}
+
+/**
+ * Options for {@link createHandler}.
+ */
+export interface DenoHandlerOptions extends HandlerOptions {
+  /**
+   * Accept WebSocket upgrades — typically `app.wss` from
+   * `@nextrush/websocket`'s `createWebSocketExtension()`.
+   *
+   * @remarks
+   * `GET` requests with `Upgrade: websocket` go to the handler instead of the
+   * middleware pipeline and, when accepted, are upgraded with
+   * `Deno.upgradeWebSocket()`. Every other request is unaffected.
+   */
+  websocket?: WebSocketUpgradeHandler;
 }
 
 /**
@@ -183,6 +212,7 @@ export interface ServerInstance {
  * Create HTTP request handler for Application
  *
  * @param app - NextRush Application instance
+ * @param options - Handler options (`timeout`, `logger`, `websocket`)
  * @returns Deno-compatible handler function
  *
  * @example
@@ -199,9 +229,10 @@ export interface ServerInstance {
  */
 export function createHandler(
   app: Application,
-  options: HandlerOptions = {}
+  options: DenoHandlerOptions = {}
 ): (request: Request, info: DenoServeHandlerInfo) => Promise<Response> {
   const handler = app.callback();
+  const { websocket } = options;
   const proxy = app.options.proxy ?? false;
   const logger = options.logger ?? app.logger;
   const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
@@ -216,6 +247,10 @@ export function createHandler(
       proxy
     );
 
+    if (websocket && isWebSocketUpgrade(request)) {
+      return upgradeDenoWebSocket(websocket, request, ctx, logger);
+    }
+
     try {
       if (timeout > 0) {
         let timerId: ReturnType<typeof setTimeout> | undefined;
@@ -375,6 +410,7 @@ export async function serve(
     shutdownTimeout = DEFAULT_SHUTDOWN_TIMEOUT_MS,
     timeout = DEFAULT_TIMEOUT_MS,
     gracefulShutdown,
+    websocket,
   } = options;
 
   // Canonical `tls` takes precedence over deprecated flat fields.
@@ -386,7 +422,7 @@ export async function serve(
   // Boot extensions before building the request handler (deferred boot barrier).
   await app.ready();
 
-  const handler = createHandler(app, { timeout, logger: options.logger });
+  const handler = createHandler(app, { timeout, logger: options.logger, websocket });
 
   // AbortController for signal-based shutdown support
   const abortController = new AbortController();
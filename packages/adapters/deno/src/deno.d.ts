@@ -4,9 +4,9 @@
  * The zero-dependency policy forbids pulling `@types/deno`, so the subset of
  * the Deno runtime API this adapter uses is declared here by hand (audit F-17).
  *
- * ⚠️ VERSION NOTE — verified against **Deno 1.46 / 2.x `Deno.serve`** (stable,
- * 2026-07). If Deno's `serve` signature changes, update these declarations and
- * bump the date. A CI smoke test on real Deno guards against silent drift.
+ * ⚠️ VERSION NOTE — verified against **Deno 1.46 / 2.x `Deno.serve` and
+ * `Deno.upgradeWebSocket`** (stable, 2026-10). If either signature changes,
+ * update these declarations and bump the date. A CI smoke test on real Deno guards against silent drift.
  *
  * Declared as ambient globals (not exported) because `Deno` is a runtime global
  * on the Deno platform; on Node/CI it is absent and only used behind `typeof`
@@ -15,6 +15,8 @@
  * @packageDocumentation
  */
 
+import type { StandardWebSocket } from '@nextrush/runtime';
+
 declare global {
   /** The subset of `Deno.serve` init options the adapter uses. */
   interface DenoServeInit {
@@ -42,9 +44,16 @@ declare global {
     addr: { port: number; hostname: string };
   }
 
+  /** The `Deno.upgradeWebSocket` return value. */
+  interface DenoWebSocketUpgrade {
+    socket: StandardWebSocket;
+    response: Response;
+  }
+
   /** The subset of the `Deno` global the adapter touches. */
   var Deno: {
     serve(options: DenoServeInit): DenoServer;
+    upgradeWebSocket(request: Request): DenoWebSocketUpgrade;
     version: { deno: string };
   };
 }
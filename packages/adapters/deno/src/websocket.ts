@@ -0,0 +1,45 @@
+/**
+ * @nextrush/adapter-deno - WebSocket Upgrades
+ *
+ * Runs a {@link WebSocketUpgradeHandler} (e.g. `@nextrush/websocket`'s
+ * `WebSocketServer`) over `Deno.upgradeWebSocket()`.
+ *
+ * @packageDocumentation
+ */
+
+import type { Logger } from '@nextrush/core';
+import { bindWebSocket, jsonErrorResponse, resolveWebSocketUpgrade } from '@nextrush/runtime';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import type { DenoContext } from './context';
+
+/**
+ * Ask `handler` about the upgrade request `ctx` was built from and, when it
+ * accepts, upgrade the connection.
+ *
+ * @returns Deno's `101` handshake response, or the rejection response.
+ */
+export async function upgradeDenoWebSocket(
+  handler: WebSocketUpgradeHandler,
+  request: Request,
+  ctx: DenoContext,
+  logger: Logger
+): Promise<Response> {
+  const result = await resolveWebSocketUpgrade(handler, ctx, (error) => {
+    logger.error('WebSocket upgrade error:', error);
+  });
+
+  if (!result.accepted) {
+    return jsonErrorResponse(result.status, result.message ?? 'Upgrade Rejected');
+  }
+
+  let upgrade: DenoWebSocketUpgrade;
+  try {
+    upgrade = Deno.upgradeWebSocket(request);
+  } catch {
+    // Invalid handshake headers (e.g. no Sec-WebSocket-Key).
+    return jsonErrorResponse(400, 'Bad Request');
+  }
+
+  bindWebSocket(upgrade.socket, result.open);
+  return upgrade.response;
+}
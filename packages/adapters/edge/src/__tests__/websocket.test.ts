@@ -0,0 +1,138 @@
+/**
+ * @nextrush/adapter-edge — WebSocket upgrades through `createFetchHandler({ websocket })`.
+ *
+ * Node has neither `WebSocketPair` nor a `Response` that accepts status `101`,
+ * so both are stubbed for the duration of each test: the pair hands out
+ * EventTarget-backed sockets the test drives by hand.
+ */
+
+import { createApp } from '@nextrush/core';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFetchHandler } from '../adapter';
+
+class FakeSocket extends EventTarget {
+  readyState = 0;
+  binaryType = 'blob';
+  send = vi.fn();
+  close = vi.fn();
+  accept = vi.fn(() => {
+    this.readyState = 1;
+  });
+
+  fire(type: string, init: Record<string, unknown>): void {
+    this.dispatchEvent(Object.assign(new Event(type), init));
+  }
+}
+
+let pairs: [FakeSocket, FakeSocket][];
+const NativeResponse = Response;
+
+/** Records the Workers-only `webSocket` init and tolerates status 101. */
+class UpgradeResponse extends NativeResponse {
+  readonly webSocket: unknown;
+  readonly upgradeStatus: number;
+
+  constructor(body: BodyInit | null, init: ResponseInit & { webSocket?: unknown } = {}) {
+    super(body, { ...init, status: init.status === 101 ? 200 : init.status });
+    this.webSocket = init.webSocket;
+    this.upgradeStatus = init.status ?? 200;
+  }
+}
+
+beforeEach(() => {
+  pairs = [];
+  vi.stubGlobal(
+    'WebSocketPair',
+    class {
+      0: FakeSocket;
+      1: FakeSocket;
+      constructor() {
+        this[0] = new FakeSocket();
+        this[1] = new FakeSocket();
+        pairs.push([this[0], this[1]]);
+      }
+    }
+  );
+  vi.stubGlobal('Response', UpgradeResponse);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function upgradeRequest(path = '/chat'): Request {
+  return new Request(`https://example.com${path}`, { headers: { upgrade: 'websocket' } });
+}
+
+function echoHandler() {
+  const events: unknown[] = [];
+  const handler: WebSocketUpgradeHandler = {
+    handleUpgrade: async (request) => {
+      if (request.path !== '/chat')
+        return { accepted: false, status: 401, message: 'Unauthorized' };
+      return {
+        accepted: true,
+        open: (peer) => ({
+          message: (data) => {
+            peer.send(data);
+          },
+          close: (code, reason) => events.push(['close', code, reason]),
+          error: (error) => events.push(['error', error]),
+        }),
+      };
+    },
+  };
+  return { handler, events };
+}
+
+describe('createFetchHandler({ websocket })', () => {
+  it('answers 101 with the client end and drives the accepted server end', async () => {
+    const { handler, events } = echoHandler();
+    const fetch = createFetchHandler(createApp(), { websocket: handler });
+
+    const response = (await fetch(upgradeRequest())) as UpgradeResponse;
+    const [client, server] = pairs[0]!;
+
+    expect(response.upgradeStatus).toBe(101);
+    expect(response.webSocket).toBe(client);
+    expect(server.accept).toHaveBeenCalledOnce();
+
+    server.fire('message', { data: 'ping' });
+    server.fire('close', { code: 1000, reason: 'bye' });
+
+    expect(server.send).toHaveBeenCalledWith('ping');
+    expect(events).toEqual([['close', 1000, 'bye']]);
+  });
+
+  it('answers a rejected upgrade with its status and opens no pair', async () => {
+    const { handler } = echoHandler();
+    const fetch = createFetchHandler(createApp(), { websocket: handler });
+
+    const response = await fetch(upgradeRequest('/private'));
+
+    expect(response.status).toBe(401);
+    expect(pairs).toHaveLength(0);
+  });
+
+  it('answers 501 on a runtime without WebSocketPair', async () => {
+    vi.stubGlobal('WebSocketPair', undefined);
+    const { handler } = echoHandler();
+    const fetch = createFetchHandler(createApp(), { websocket: handler });
+
+    expect((await fetch(upgradeRequest())).status).toBe(501);
+  });
+
+  it('runs ordinary requests through the middleware pipeline', async () => {
+    const { handler } = echoHandler();
+    const app = createApp();
+    app.use((ctx) => {
+      ctx.json({ ok: true });
+    });
+    const fetch = createFetchHandler(app, { websocket: handler });
+
+    const response = await fetch(new Request('https://example.com/chat'));
+
+    expect(await response.json()).toEqual({ ok: true });
+  });
+});
@@ -17,9 +17,16 @@
  */
 
 import type { Application } from '@nextrush/core';
-import { jsonErrorResponse } from '@nextrush/runtime';
-import type { AdapterContextFactory, FetchAdapter, PlatformId, ProxyTrust } from '@nextrush/types';
+import { isWebSocketUpgrade, jsonErrorResponse } from '@nextrush/runtime';
+import type {
+  AdapterContextFactory,
+  FetchAdapter,
+  PlatformId,
+  ProxyTrust,
+  WebSocketUpgradeHandler,
+} from '@nextrush/types';
 import { createEdgeContext, EdgeContext, type EdgeExecutionContext } from './context';
+import { upgradeEdgeWebSocket } from './websocket';
 
 /**
  * Default request timeout applied when the caller specifies none (F-07,
@@ -100,6 +107,20 @@ export interface FetchHandlerOptions {
    * when omitted.
    */
   platform?: PlatformId;
+
+  /**
+   * Accept WebSocket upgrades — typically `app.wss` from
+   * `@nextrush/websocket`'s `createWebSocketExtension()`.
+   *
+   * @remarks
+   * `GET` requests with `Upgrade: websocket` go to the handler instead of the
+   * middleware pipeline and, when accepted, are answered with one end of a
+   * `WebSocketPair`. Runtimes without `WebSocketPair` (Vercel and Netlify
+   * Edge) answer `501`. Every other request is unaffected. The socket lives as
+   * long as the isolate serving it; for sockets shared across requests and
+   * isolates, use a Durable Object.
+   */
+  websocket?: WebSocketUpgradeHandler;
 }
 
 /**
@@ -216,6 +237,12 @@ function createRequestRunner(
     const handler = await ensureBooted();
     const ctx = createEdgeContext(request, executionContext, proxy, env, app.isProduction, options.platform);
 
+    if (options.websocket && isWebSocketUpgrade(request)) {
+      return upgradeEdgeWebSocket(options.websocket, ctx, (error) => {
+        app.logger.error('WebSocket upgrade error:', error);
+      });
+    }
+
     try {
       if (timeout > 0) {
         let timerId: ReturnType<typeof setTimeout> | undefined;
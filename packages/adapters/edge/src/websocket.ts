@@ -0,0 +1,57 @@
+/**
+ * @nextrush/adapter-edge - WebSocket Upgrades
+ *
+ * Runs a {@link WebSocketUpgradeHandler} (e.g. `@nextrush/websocket`'s
+ * `WebSocketServer`) over the WinterCG `WebSocketPair` (Cloudflare Workers and
+ * compatible runtimes).
+ *
+ * @packageDocumentation
+ */
+
+import {
+  bindWebSocket,
+  jsonErrorResponse,
+  resolveWebSocketUpgrade,
+  type StandardWebSocket,
+} from '@nextrush/runtime';
+import type { WebSocketUpgradeHandler } from '@nextrush/types';
+import type { EdgeContext } from './context';
+
+/** One end of a `WebSocketPair`: a standard socket the server side must `accept()`. */
+interface WebSocketPairEnd extends StandardWebSocket {
+  accept(): void;
+}
+
+type WebSocketPairConstructor = new () => { 0: WebSocketPairEnd; 1: WebSocketPairEnd };
+
+/**
+ * Ask `handler` about the upgrade request `ctx` was built from and, when it
+ * accepts, answer with the client end of a new `WebSocketPair`.
+ *
+ * @returns The `101` response carrying the client socket, the rejection
+ * response, or `501` on a runtime without `WebSocketPair` (Vercel and Netlify
+ * Edge).
+ */
+export async function upgradeEdgeWebSocket(
+  handler: WebSocketUpgradeHandler,
+  ctx: EdgeContext,
+  onError: (error: unknown) => void
+): Promise<Response> {
+  const Pair = (globalThis as { WebSocketPair?: WebSocketPairConstructor }).WebSocketPair;
+  if (!Pair) {
+    return jsonErrorResponse(501, 'WebSocket upgrades are not supported on this runtime');
+  }
+
+  const result = await resolveWebSocketUpgrade(handler, ctx, onError);
+  if (!result.accepted) {
+    return jsonErrorResponse(result.status, result.message ?? 'Upgrade Rejected');
+  }
+
+  const pair = new Pair();
+  const server = pair[1];
+  server.accept();
+  bindWebSocket(server, result.open);
+
+  // `webSocket` is the Workers extension to ResponseInit that hands the client end back.
+  return new Response(null, { status: 101, webSocket: pair[0] } as ResponseInit);
+}
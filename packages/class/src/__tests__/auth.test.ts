@@ -0,0 +1,206 @@
+/**
+ * @nextrush/class - @Authenticated and @Roles Tests
+ */
+
+import { apiKeyStrategy, basicStrategy, type AuthState } from '@nextrush/auth';
+import { createContainer } from '@nextrush/di';
+import { ForbiddenError, UnauthorizedError } from '@nextrush/errors';
+import type { Context } from '@nextrush/types';
+import 'reflect-metadata';
+import { describe, expect, it, vi } from 'vitest';
+import { Authenticated, Roles } from '../decorators/auth.js';
+import { Controller } from '../decorators/class.js';
+import { Delete, Get } from '../decorators/routes.js';
+import { getControllerDefinition } from '../metadata/metadata.js';
+import { buildRoutes } from '../registrar/builder.js';
+
+const apiKey = apiKeyStrategy({
+  validate: (key) => (key === 'k-admin' ? { id: 'ops', roles: ['admin'] } : { id: key }),
+});
+const basic = basicStrategy({ validate: () => undefined });
+
+@Controller('/orders')
+@Authenticated(apiKey)
+class OrderController {
+  @Get()
+  list() {
+    return [];
+  }
+
+  @Delete('/:id')
+  @Roles('admin')
+  remove() {
+    return {};
+  }
+}
+
+function build(controller: Function) {
+  const container = createContainer();
+  container.register(controller, { useClass: controller as new () => unknown });
+  return buildRoutes(getControllerDefinition(controller)!, container, '', []);
+}
+
+function createMockContext(headers: Record<string, string> = {}): Context {
+  return {
+    method: 'GET',
+    path: '/orders',
+    query: {},
+    headers,
+    params: {},
+    state: {},
+    json: vi.fn(),
+    set: vi.fn(),
+    get: (name: string) => headers[name.toLowerCase()],
+    raw: { req: {}, res: { writableEnded: false } },
+  } as unknown as Context;
+}
+
+describe('@Authenticated', () => {
+  it('stores the principal before the handler runs', async () => {
+    const [list] = build(OrderController);
+    const ctx = createMockContext({ 'x-api-key': 'k-1' });
+
+    await list!.handler(ctx);
+
+    expect((ctx.state as AuthState).principal).toEqual({ id: 'k-1' });
+  });
+
+  it('rejects an anonymous request with 401 and sets the challenge', async () => {
+    @Controller('/private')
+    @Authenticated([basic, apiKey])
+    class PrivateController {
+      @Get()
+      read() {
+        return {};
+      }
+    }
+
+    const [read] = build(PrivateController);
+    const ctx = createMockContext();
+
+    await expect(read!.handler(ctx)).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(ctx.set).toHaveBeenCalledWith(
+      'WWW-Authenticate',
+      'Basic realm="Restricted", charset="UTF-8"'
+    );
+  });
+
+  it('contributes the strategies to the route metadata as security', () => {
+    const routes = build(OrderController);
+
+    for (const route of routes) {
+      expect(route.metadata?.security).toEqual({
+        schemes: [
+          { name: 'apiKeyAuth', scheme: { type: 'apiKey', in: 'header', name: 'x-api-key' } },
+        ],
+      });
+    }
+  });
+
+  it('lets a method declare its own security over the controller', () => {
+    @Controller('/feed')
+    @Authenticated(apiKey)
+    class FeedController {
+      @Get()
+      @Authenticated(apiKey, { optional: true })
+      list() {
+        return [];
+      }
+    }
+
+    const [list] = build(FeedController);
+    expect(list!.metadata?.security?.optional).toBe(true);
+  });
+});
+
+describe('@Roles', () => {
+  it('passes a principal holding the role', async () => {
+    const [, remove] = build(OrderController);
+    const ctx = createMockContext({ 'x-api-key': 'k-admin' });
+
+    await remove!.handler(ctx);
+
+    expect((ctx.state as AuthState).principal?.roles).toEqual(['admin']);
+  });
+
+  it('rejects a principal without the role with 403', async () => {
+    const [, remove] = build(OrderController);
+
+    await expect(remove!.handler(createMockContext({ 'x-api-key': 'k-1' }))).rejects.toBeInstanceOf(
+      ForbiddenError
+    );
+  });
+
+  it('rejects with 401 when no principal was stored', async () => {
+    @Controller('/admin')
+    class AdminController {
+      @Get()
+      @Roles('admin')
+      stats() {
+        return {};
+      }
+    }
+
+    const [stats] = build(AdminController);
+
+    await expect(stats!.handler(createMockContext())).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('checks the role after authenticating, whichever decorator comes first', async () => {
+    @Controller('/reports')
+    class ReportController {
+      @Get()
+      @Authenticated(apiKey)
+      @Roles('admin')
+      list() {
+        return [];
+      }
+
+      @Delete('/:id')
+      @Roles('admin')
+      @Authenticated(apiKey)
+      remove() {
+        return {};
+      }
+    }
+
+    for (const route of build(ReportController)) {
+      await expect(route.handler(createMockContext({ 'x-api-key': 'k-admin' }))).resolves.toBe(
+        undefined
+      );
+      await expect(route.handler(createMockContext({ 'x-api-key': 'k-1' }))).rejects.toBeInstanceOf(
+        ForbiddenError
+      );
+    }
+  });
+
+  it('requires every @Roles() of the controller and the method', async () => {
+    const staff = apiKeyStrategy({
+      validate: (key) => ({ id: key, roles: key === 'k-both' ? ['staff', 'admin'] : ['staff'] }),
+    });
+
+    @Controller('/payroll')
+    @Roles('staff')
+    @Authenticated(staff)
+    class PayrollController {
+      @Delete('/:id')
+      @Roles('admin', 'owner')
+      remove() {
+        return {};
+      }
+    }
+
+    const [remove] = build(PayrollController);
+
+    await expect(
+      remove!.handler(createMockContext({ 'x-api-key': 'k-staff' }))
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(remove!.handler(createMockContext({ 'x-api-key': 'k-both' }))).resolves.toBe(
+      undefined
+    );
+  });
+
+  it('throws at decoration time without a role', () => {
+    expect(() => Roles()).toThrow(TypeError);
+  });
+});
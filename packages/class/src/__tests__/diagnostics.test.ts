@@ -111,6 +111,7 @@ describe('Diagnostics (b): providers list reflects DI graph', () => {
       routes: [],
       providers,
       requestScopedTokens: new Set(),
+      globals: { guards: [], interceptors: [], filters: [] },
     };
 
     const report = collectDiagnostics(testGraph as any, []);
@@ -177,6 +178,7 @@ describe('Diagnostics (c): duplicate-route detection', () => {
       routes,
       providers: new Map(),
       requestScopedTokens: new Set(),
+      globals: { guards: [], interceptors: [], filters: [] },
     };
 
     const report = collectDiagnostics(testGraph as any, []);
@@ -218,6 +220,7 @@ describe('Diagnostics (d): circular-dependency detection', () => {
       routes: [],
       providers: cycleProviders,
       requestScopedTokens: new Set(),
+      globals: { guards: [], interceptors: [], filters: [] },
     };
 
     const report = collectDiagnostics(cyclicGraph as any, []);
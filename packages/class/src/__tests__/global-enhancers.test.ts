@@ -0,0 +1,299 @@
+/**
+ * @nextrush/class - Global guards, interceptors and filters
+ *
+ * Entries registered through the `registerControllers`/`registerModule`
+ * options or on a `@Module` apply to every route: guards run before the
+ * route's own, interceptors wrap them, and filters are consulted last. Class
+ * entries resolve from the DI container, and the diagnostics report lists them.
+ */
+
+import {
+  Catch,
+  Controller,
+  Get,
+  getClassDiagnostics,
+  Module,
+  registerControllers,
+  registerModule,
+  Service,
+  UseFilter,
+  UseGuard,
+  UseInterceptor,
+} from '../index.js';
+import type { CanActivate, ExceptionFilter, GuardContext, Interceptor } from '../index.js';
+import { GuardRejectionError } from '../errors.js';
+import { Application } from '@nextrush/core';
+import { createContainer, DIError, inject } from '@nextrush/di';
+import { Router } from '@nextrush/router';
+import type { Context } from '@nextrush/types';
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+/** Call the handler the router registered for `GET path`. */
+async function dispatch(
+  app: Application,
+  path: string,
+  ctx = { headers: {}, state: {}, send: vi.fn() } as unknown as Context
+) {
+  const match = app.router!.match('GET', path);
+  expect(match).not.toBeNull();
+  await match!.handler(ctx, async () => {});
+  return ctx;
+}
+
+let calls: string[];
+
+function recordingGuard(name: string) {
+  return (): boolean => {
+    calls.push(`guard:${name}`);
+    return true;
+  };
+}
+
+function recordingInterceptor(name: string) {
+  return class implements Interceptor {
+    async intercept(_ctx: Context, next: () => Promise<unknown>): Promise<unknown> {
+      calls.push(`before:${name}`);
+      const result = await next();
+      calls.push(`after:${name}`);
+      return result;
+    }
+  };
+}
+
+function recordingFilter(name: string, ...errorTypes: Function[]) {
+  @Catch(...errorTypes)
+  class RecordingFilter implements ExceptionFilter {
+    catch(_error: unknown, ctx: Context): void {
+      calls.push(`filter:${name}`);
+      ctx.status = 418;
+    }
+  }
+  return RecordingFilter;
+}
+
+@Controller('/reports')
+class ReportController {
+  @Get('/')
+  list() {
+    return 'ok';
+  }
+}
+
+describe('global guards, interceptors and filters', () => {
+  let app: Application;
+
+  beforeEach(() => {
+    calls = [];
+    app = new Application({ router: new Router() });
+  });
+
+  it('run guards global → class → method and wrap interceptors global-outermost', async () => {
+    @UseGuard(recordingGuard('class'))
+    @UseInterceptor(recordingInterceptor('class'))
+    @Controller('/reports')
+    class Reports {
+      @Get('/')
+      @UseGuard(recordingGuard('method'))
+      @UseInterceptor(recordingInterceptor('method'))
+      list() {
+        calls.push('handler');
+        return 'ok';
+      }
+    }
+
+    await registerControllers(app, {
+      container: createContainer(),
+      controllers: [Reports],
+      guards: [recordingGuard('global-1'), recordingGuard('global-2')],
+      interceptors: [recordingInterceptor('global')],
+    });
+    await dispatch(app, '/reports');
+
+    expect(calls).toEqual([
+      'guard:global-1',
+      'guard:global-2',
+      'guard:class',
+      'guard:method',
+      'before:global',
+      'before:class',
+      'before:method',
+      'handler',
+      'after:method',
+      'after:class',
+      'after:global',
+    ]);
+  });
+
+  it('stop at a rejecting global guard before any route guard runs', async () => {
+    @UseGuard(recordingGuard('class'))
+    @Controller('/reports')
+    class Reports {
+      @Get('/')
+      list() {
+        return 'ok';
+      }
+    }
+
+    await registerControllers(app, {
+      container: createContainer(),
+      controllers: [Reports],
+      guards: [() => false],
+    });
+
+    await expect(dispatch(app, '/reports')).rejects.toBeInstanceOf(GuardRejectionError);
+    expect(calls).toEqual([]);
+  });
+
+  it('consult global filters after the method and class filters', async () => {
+    class LockedError extends Error {}
+    class QuotaError extends Error {}
+
+    let currentError: Error = new Error('unexpected');
+
+    @UseFilter(recordingFilter('class', QuotaError))
+    @Controller('/reports')
+    class Reports {
+      @Get('/')
+      @UseFilter(recordingFilter('method', LockedError))
+      list(): never {
+        throw currentError;
+      }
+    }
+
+    await registerControllers(app, {
+      container: createContainer(),
+      controllers: [Reports],
+      filters: [recordingFilter('global')],
+    });
+
+    for (currentError of [new LockedError(), new QuotaError(), new Error('unexpected')]) {
+      const ctx = await dispatch(app, '/reports');
+      expect(ctx.status).toBe(418);
+    }
+    expect(calls).toEqual(['filter:method', 'filter:class', 'filter:global']);
+  });
+
+  it('resolve global class guards from the DI container', async () => {
+    @Service()
+    class TenantGuard implements CanActivate {
+      constructor(@inject('TENANTS') private readonly tenants: string[]) {}
+
+      canActivate(ctx: GuardContext): boolean {
+        return this.tenants.includes(ctx.headers['x-tenant'] as string);
+      }
+    }
+
+    const container = createContainer();
+    container.register('TENANTS', { useValue: ['acme'] });
+
+    await registerControllers(app, {
+      container,
+      controllers: [ReportController],
+      guards: [TenantGuard],
+    });
+
+    const allowed = { headers: { 'x-tenant': 'acme' }, state: {}, send: vi.fn() };
+    await expect(dispatch(app, '/reports', allowed as unknown as Context)).resolves.toBeDefined();
+    await expect(dispatch(app, '/reports')).rejects.toBeInstanceOf(GuardRejectionError);
+  });
+
+  it('fail at boot when a global class guard cannot be resolved', async () => {
+    @Service()
+    class TenantGuard implements CanActivate {
+      constructor(@inject('TENANTS') private readonly tenants: string[]) {}
+
+      canActivate(): boolean {
+        return this.tenants.length > 0;
+      }
+    }
+
+    await expect(
+      registerControllers(app, {
+        container: createContainer(),
+        controllers: [ReportController],
+        guards: [TenantGuard],
+      })
+    ).rejects.toBeInstanceOf(DIError);
+  });
+
+  it('appear in the diagnostics report', async () => {
+    const guard = recordingGuard('global');
+    const Interceptor = recordingInterceptor('global');
+    const Filter = recordingFilter('global');
+
+    await registerControllers(app, {
+      container: createContainer(),
+      controllers: [ReportController],
+      guards: [guard],
+      interceptors: [Interceptor],
+      filters: [Filter],
+      diagnostics: true,
+    });
+
+    expect(getClassDiagnostics(app)?.globals).toEqual({
+      guards: [guard],
+      interceptors: [Interceptor],
+      filters: [Filter],
+    });
+  });
+});
+
+describe('module-level global entries', () => {
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it('apply to every route of the graph, after the options and root module first', async () => {
+    @Controller('/billing')
+    class BillingController {
+      @Get('/')
+      list() {
+        return 'ok';
+      }
+    }
+
+    @Module({ controllers: [BillingController], guards: [recordingGuard('billing-module')] })
+    class BillingModule {}
+
+    @Module({
+      imports: [BillingModule],
+      controllers: [ReportController],
+      guards: [recordingGuard('app-module')],
+    })
+    class AppModule {}
+
+    const app = new Application({ router: new Router() });
+    await registerModule(app, AppModule, {
+      container: createContainer(),
+      guards: [recordingGuard('options')],
+    });
+
+    await dispatch(app, '/reports');
+    await dispatch(app, '/billing');
+
+    const order = ['guard:options', 'guard:app-module', 'guard:billing-module'];
+    expect(calls).toEqual([...order, ...order]);
+  });
+
+  it('keep an entry declared by two modules once', async () => {
+    const Audit = recordingInterceptor('audit');
+
+    @Module({ interceptors: [Audit] })
+    class SharedModule {}
+
+    @Module({
+      imports: [SharedModule],
+      controllers: [ReportController],
+      interceptors: [Audit],
+    })
+    class AppModule {}
+
+    const app = new Application({ router: new Router() });
+    await registerModule(app, AppModule, { container: createContainer(), diagnostics: true });
+
+    await dispatch(app, '/reports');
+    expect(calls).toEqual(['before:audit', 'after:audit']);
+    expect(getClassDiagnostics(app)?.globals.interceptors).toEqual([Audit]);
+  });
+});
@@ -16,6 +16,8 @@ describe('Public API Surface', () => {
     const expectedPublic = [
       // Decorators
       'All',
+      'ApiResponse',
+      'Authenticated',
       'Body',
       'Catch',
       'Controller',
@@ -36,11 +38,20 @@ describe('Public API Surface', () => {
       'Redirect',
       'Req',
       'Res',
+      'Roles',
       'SetHeader',
+      'SetMetadata',
+      'Summary',
+      'Tags',
+      'Timeout',
       'UseFilter',
       'UseGuard',
       'UseInterceptor',
       'createCustomParamDecorator',
+      'createMetadataDecorator',
+
+      // Metadata reflection (DI-injectable service)
+      'Reflector',
 
       // Metadata readers (runtime functions)
       'getAllFilters',
@@ -0,0 +1,200 @@
+/**
+ * @nextrush/class - Execution Context & Reflector
+ *
+ * Guards, interceptors and filters learn which controller route they run for,
+ * and read the route's custom metadata — set with `SetMetadata` or a
+ * `createMetadataDecorator` decorator — through the DI-injectable `Reflector`.
+ */
+
+import {
+  createMetadataDecorator,
+  Reflector,
+  Service,
+  SetMetadata,
+  UseFilter,
+  UseGuard,
+  UseInterceptor,
+} from '../index.js';
+import type {
+  CanActivate,
+  ControllerRouteMetadata,
+  ExceptionFilter,
+  ExecutionContext,
+  GuardContext,
+  Interceptor,
+} from '../index.js';
+import { GuardRejectionError } from '../errors.js';
+import { createExecutionContext } from '../runtime/execution-context.js';
+import { createRouteHandler } from '../runtime/handler.js';
+import { createContainer } from '@nextrush/di';
+import type { Context } from '@nextrush/types';
+import 'reflect-metadata';
+import { describe, expect, it } from 'vitest';
+
+const removeRoute: ControllerRouteMetadata = {
+  method: 'DELETE',
+  path: '/:id',
+  methodName: 'remove',
+  propertyKey: 'remove',
+};
+
+const Permissions = createMetadataDecorator<string[]>('permissions');
+
+describe('SetMetadata and createMetadataDecorator', () => {
+  it('store class- and method-level values apart', () => {
+    @SetMetadata('audit', 'class')
+    class ReportController {
+      @SetMetadata('audit', 'method')
+      remove(): void {}
+    }
+
+    const reflector = new Reflector();
+    expect(reflector.get('audit', ReportController)).toBe('class');
+    expect(reflector.get('audit', ReportController, 'remove')).toBe('method');
+  });
+
+  it('give each created decorator a key of its own', () => {
+    const Other = createMetadataDecorator<string[]>('permissions');
+
+    @Permissions(['reports:read'])
+    class ReportController {}
+
+    expect(Permissions.key).not.toBe(Other.key);
+    expect(Permissions.key.description).toBe('permissions');
+    expect(new Reflector().get(Permissions, ReportController)).toEqual(['reports:read']);
+    expect(new Reflector().get(Other, ReportController)).toBeUndefined();
+  });
+});
+
+describe('Reflector', () => {
+  @Permissions(['reports:read'])
+  @SetMetadata('limits', { rate: 10, burst: 20 })
+  class ReportController {
+    list(): void {}
+
+    @Permissions(['reports:delete'])
+    @SetMetadata('limits', { rate: 1 })
+    remove(): void {}
+  }
+
+  const reflector = new Reflector();
+  const remove = createExecutionContext(ReportController, removeRoute);
+  const list = createExecutionContext(ReportController, {
+    ...removeRoute,
+    method: 'GET',
+    methodName: 'list',
+    propertyKey: 'list',
+  });
+
+  it('getAllAndOverride prefers the method-level value', () => {
+    expect(reflector.getAllAndOverride(Permissions, remove)).toEqual(['reports:delete']);
+    expect(reflector.getAllAndOverride(Permissions, list)).toEqual(['reports:read']);
+    expect(reflector.getAllAndOverride('missing', list)).toBeUndefined();
+  });
+
+  it('getAllAndMerge concatenates arrays and merges objects', () => {
+    expect(reflector.getAllAndMerge(Permissions, remove)).toEqual([
+      'reports:read',
+      'reports:delete',
+    ]);
+    expect(reflector.getAllAndMerge('limits', remove)).toEqual({ rate: 1, burst: 20 });
+    expect(reflector.getAllAndMerge('limits', list)).toEqual({ rate: 10, burst: 20 });
+  });
+
+  it('sees metadata a parent controller declared', () => {
+    class AdminReportController extends ReportController {}
+    const context = createExecutionContext(AdminReportController, removeRoute);
+    expect(reflector.getAllAndMerge(Permissions, context)).toEqual([
+      'reports:read',
+      'reports:delete',
+    ]);
+  });
+
+  it('is a DI singleton', () => {
+    const container = createContainer();
+    expect(container.resolve(Reflector)).toBe(container.resolve(Reflector));
+  });
+});
+
+describe('execution context at request time', () => {
+  it('lets one guard enforce each route’s declared permissions', async () => {
+    @Service()
+    class PermissionsGuard implements CanActivate {
+      constructor(private readonly reflector: Reflector) {}
+
+      canActivate(ctx: GuardContext): boolean {
+        const required = this.reflector.getAllAndMerge(Permissions, ctx) ?? [];
+        const granted = (ctx.state.permissions as string[] | undefined) ?? [];
+        return required.every((permission) => granted.includes(permission));
+      }
+    }
+
+    @UseGuard(PermissionsGuard)
+    @Permissions(['reports:read'])
+    class ReportController {
+      @Permissions(['reports:delete'])
+      remove(): void {}
+    }
+
+    const handler = createRouteHandler(ReportController, removeRoute, createContainer(), new Map());
+
+    const reader = { state: { permissions: ['reports:read'] } } as unknown as Context;
+    const admin = {
+      state: { permissions: ['reports:read', 'reports:delete'] },
+    } as unknown as Context;
+
+    await expect(handler(reader, async () => {})).rejects.toBeInstanceOf(GuardRejectionError);
+    await expect(handler(admin, async () => {})).resolves.toBeUndefined();
+  });
+
+  it('hands guards, interceptors and filters the same context', async () => {
+    const seen: ExecutionContext[] = [];
+
+    class RecordingInterceptor implements Interceptor {
+      intercept(
+        _ctx: Context,
+        next: () => Promise<unknown>,
+        context: ExecutionContext
+      ): Promise<unknown> {
+        seen.push(context);
+        return next();
+      }
+    }
+
+    class RecordingFilter implements ExceptionFilter {
+      catch(_error: unknown, ctx: Context, context: ExecutionContext): void {
+        seen.push(context);
+        ctx.status = 409;
+      }
+    }
+
+    @UseGuard((ctx) => {
+      seen.push(ctx);
+      return true;
+    })
+    @UseInterceptor(RecordingInterceptor)
+    @UseFilter(RecordingFilter)
+    class ReportController {
+      remove(): void {
+        throw new Error('report is locked');
+      }
+    }
+
+    const handler = createRouteHandler(ReportController, removeRoute, createContainer(), new Map());
+    const ctx = { state: {}, status: 200 } as unknown as Context;
+    await handler(ctx, async () => {});
+
+    expect(ctx.status).toBe(409);
+    expect(seen).toHaveLength(3);
+    for (const context of seen) {
+      expect(context).toMatchObject({
+        controller: ReportController,
+        handlerName: 'remove',
+        route: removeRoute,
+      });
+    }
+    // Interceptors and filters share one frozen, per-route object.
+    expect(seen[1]).toBe(seen[2]);
+    expect(Object.isFrozen(seen[1])).toBe(true);
+  });
+});
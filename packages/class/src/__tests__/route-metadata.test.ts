@@ -67,6 +67,24 @@ describe('controller route metadata → RouteDefinition', () => {
     expect(def!.metadata).toMatchObject({ description: 'Get a post', tags: ['posts'] });
   });
 
+  it('names a route so router.url() builds its full path', async () => {
+    @Controller('/articles')
+    class ArticleController {
+      @Get('/:slug', { name: 'articles.show' })
+      findOne() {
+        return {};
+      }
+    }
+
+    container.register(ArticleController, { useClass: ArticleController });
+
+    const router = createRouter();
+    const app = new Application({ router, container });
+    await registerControllers(app, { controllers: [ArticleController], container });
+
+    expect(router.url('articles.show', { slug: 'hello world' })).toBe('/articles/hello%20world');
+  });
+
   it('omits metadata when the route has no decorator docs', () => {
     @Controller('/health')
     class HealthController {
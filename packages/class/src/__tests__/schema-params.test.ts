@@ -0,0 +1,300 @@
+/**
+ * @nextrush/class - Schema-validated parameters and documentation decorators
+ *
+ * `@Body(schema)`, `@Query(name, schema)` and `@Param(name, schema)` validate
+ * through `runSchema()` from @nextrush/validation and inject the coerced
+ * output; failures across all parameters surface as one `ValidationError`.
+ * The schemas, `@ApiResponse`, `@Summary` and `@Tags` flow into the route's
+ * metadata, so class routes are documented like functional ones.
+ */
+
+import {
+  ApiResponse,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  registerControllers,
+  Summary,
+  Tags,
+} from '../index.js';
+import { ParameterInjectionError } from '../errors.js';
+import { Application } from '@nextrush/core';
+import { createContainer } from '@nextrush/di';
+import { ValidationError } from '@nextrush/errors';
+import { Router } from '@nextrush/router';
+import {
+  SCHEMA_FIELDS,
+  type Context,
+  type FieldsSchema,
+  type RouteDefinition,
+  type StandardSchemaResult,
+  type StandardSchemaV1,
+} from '@nextrush/types';
+import 'reflect-metadata';
+import { describe, expect, it, vi } from 'vitest';
+
+/** A minimal Standard Schema built from a validate function. */
+function schema<T>(
+  validate: (value: unknown) => StandardSchemaResult<T>
+): StandardSchemaV1<unknown, T> {
+  return { '~standard': { version: 1, vendor: 'test', validate } };
+}
+
+/** Coerces numeric strings to numbers. */
+function toNumber(value: unknown): StandardSchemaResult<number> {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && !Number.isNaN(parsed)
+    ? { value: parsed }
+    : { issues: [{ message: 'Expected a number' }] };
+}
+
+const numeric = schema(toNumber);
+
+/** Accepts a missing value, defaulting it to 1. */
+const page = schema((value) => (value === undefined ? { value: 1 } : toNumber(value)));
+
+const user = schema<{ email: string }>((value) => {
+  const email = (value as { email?: unknown } | undefined)?.email;
+  return typeof email === 'string' && email.includes('@')
+    ? { value: { email: email.toLowerCase() } }
+    : { issues: [{ message: 'Invalid email', path: ['email'] }] };
+});
+
+function createMockContext(overrides: Partial<Context> = {}): Context {
+  return {
+    method: 'GET',
+    path: '/',
+    query: {},
+    headers: {},
+    params: {},
+    body: undefined,
+    status: 200,
+    state: {},
+    responded: false,
+    json: vi.fn(),
+    send: vi.fn(),
+    set: vi.fn(),
+    get: vi.fn(),
+    ...overrides,
+  } as unknown as Context;
+}
+
+async function register(...controllers: Function[]) {
+  const router = new Router();
+  const app = new Application({ router });
+  await registerControllers(app, { container: createContainer(), controllers });
+  return { app, router };
+}
+
+/** Call the handler the router registered for `method path`. */
+async function dispatch(app: Application, method: 'GET' | 'POST', path: string, ctx: Context) {
+  const match = app.router!.match(method, path);
+  expect(match).not.toBeNull();
+  await match!.handler(ctx, async () => {});
+}
+
+function findRoute(router: Router, path: string): RouteDefinition {
+  const route = router.getRoutes().find((r) => r.path === path);
+  expect(route).toBeDefined();
+  return route!;
+}
+
+describe('schema-validated parameters', () => {
+  function defineOrders(received: unknown[][]) {
+    @Controller('/orders')
+    class OrderController {
+      @Get('/:id')
+      show(
+        @Param('id', numeric) id: unknown,
+        @Query('page', page) pageNumber: unknown,
+        @Query('sort') sort: unknown
+      ) {
+        received.push([id, pageNumber, sort]);
+        return 'ok';
+      }
+
+      @Post('/')
+      create(@Body(user) body: unknown) {
+        received.push([body]);
+        return 'ok';
+      }
+    }
+    return OrderController;
+  }
+
+  it('inject the coerced output of each schema', async () => {
+    const received: unknown[][] = [];
+    const { app } = await register(defineOrders(received));
+
+    await dispatch(
+      app,
+      'GET',
+      '/orders/42',
+      createMockContext({ params: { id: '42' }, query: { page: '3', sort: 'date' } })
+    );
+    await dispatch(app, 'GET', '/orders/7', createMockContext({ params: { id: '7' } }));
+    await dispatch(
+      app,
+      'POST',
+      '/orders',
+      createMockContext({ method: 'POST', body: { email: 'Ada@Example.com' } })
+    );
+
+    expect(received).toEqual([[42, 3, 'date'], [7, 1, undefined], [{ email: 'ada@example.com' }]]);
+  });
+
+  it('report the issues of every parameter in one ValidationError', async () => {
+    const received: unknown[][] = [];
+    const { app } = await register(defineOrders(received));
+
+    const error = await dispatch(
+      app,
+      'GET',
+      '/orders/abc',
+      createMockContext({ params: { id: 'abc' }, query: { page: 'last' } })
+    ).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).status).toBe(400);
+    expect((error as ValidationError).issues.map((issue) => issue.path)).toEqual([
+      'params.id',
+      'query.page',
+    ]);
+    expect(received).toEqual([]);
+  });
+
+  it('prefix whole-body issue paths with body', async () => {
+    const { app } = await register(defineOrders([]));
+
+    const error = await dispatch(
+      app,
+      'POST',
+      '/orders',
+      createMockContext({ method: 'POST', body: { email: 'nope' } })
+    ).catch((err: unknown) => err);
+
+    expect((error as ValidationError).issues).toMatchObject([
+      { path: 'body.email', message: 'Invalid email' },
+    ]);
+  });
+
+  it('wrap a schema that throws in a ParameterInjectionError', async () => {
+    const broken = schema(() => {
+      throw new Error('schema exploded');
+    });
+
+    @Controller('/broken')
+    class BrokenController {
+      @Get('/:id')
+      show(@Param('id', broken) _id: unknown) {
+        return 'ok';
+      }
+    }
+    const { app } = await register(BrokenController);
+
+    await expect(
+      dispatch(app, 'GET', '/broken/1', createMockContext({ params: { id: '1' } }))
+    ).rejects.toBeInstanceOf(ParameterInjectionError);
+  });
+});
+
+describe('route metadata of class routes', () => {
+  it('document parameter schemas as request shapes', async () => {
+    const anything = schema((value) => ({ value }));
+
+    @Controller('/search')
+    class SearchController {
+      @Get('/:id')
+      search(
+        @Query('q', anything) _q: unknown,
+        @Query('page', page) _page: unknown,
+        @Param('id', numeric) _id: unknown
+      ) {
+        return [];
+      }
+
+      @Post('/')
+      create(@Body(user) _body: unknown) {
+        return {};
+      }
+    }
+    const { router } = await register(SearchController);
+
+    const search = findRoute(router, '/search/:id').metadata!.request!;
+    const query = search.query as FieldsSchema;
+    expect(query[SCHEMA_FIELDS]).toEqual({
+      q: { schema: anything, required: false },
+      page: { schema: page, required: false },
+    });
+    expect((search.params as FieldsSchema)[SCHEMA_FIELDS]).toEqual({
+      id: { schema: numeric, required: true },
+    });
+    expect(search.body).toBeUndefined();
+
+    expect(findRoute(router, '/search').metadata!.request).toEqual({ body: user });
+  });
+
+  it('validate each field of a composite on its own', async () => {
+    @Controller('/search')
+    class SearchController {
+      @Get('/:id')
+      search(@Param('id', numeric) _id: unknown) {
+        return [];
+      }
+    }
+    const { router } = await register(SearchController);
+    const params = findRoute(router, '/search/:id').metadata!.request!.params!;
+
+    expect(params['~standard'].validate({ id: '5', extra: 'x' })).toEqual({
+      value: { id: 5, extra: 'x' },
+    });
+    expect(params['~standard'].validate({ id: 'x' })).toEqual({
+      issues: [{ message: 'Expected a number', path: ['id'] }],
+    });
+  });
+
+  it('document responses, summary and tags', async () => {
+    const problem = schema((value) => ({ value }));
+    const listing = schema((value) => ({ value }));
+    const created = schema((value) => ({ value }));
+
+    @Tags('accounts', 'users')
+    @ApiResponse(200, problem)
+    @ApiResponse(400, problem)
+    @Controller({ path: '/users', tags: ['users'] })
+    class UserController {
+      @Get('/')
+      @ApiResponse(200, listing)
+      @Summary('List users')
+      list() {
+        return [];
+      }
+
+      @Post('/')
+      @ApiResponse(201, created)
+      @Tags('admin')
+      create() {
+        return {};
+      }
+    }
+    const { router } = await register(UserController);
+
+    const routes = router.getRoutes();
+    const list = routes.find((r) => r.method === 'GET' && r.path === '/users')!.metadata;
+    const create = routes.find((r) => r.method === 'POST' && r.path === '/users')!.metadata;
+
+    expect(list).toMatchObject({
+      summary: 'List users',
+      tags: ['users', 'accounts'],
+      responses: { 200: listing, 400: problem },
+    });
+    expect(create).toMatchObject({
+      tags: ['users', 'accounts', 'admin'],
+      responses: { 200: problem, 201: created, 400: problem },
+    });
+    expect(create!.summary).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @nextrush/class - @Timeout Tests
+ */
+
+import { createContainer } from '@nextrush/di';
+import { RequestTimeoutError } from '@nextrush/errors';
+import { ROUTE_METADATA, type Context, type MetadataContribution } from '@nextrush/types';
+import 'reflect-metadata';
+import { describe, expect, it } from 'vitest';
+import { Controller } from '../decorators/class.js';
+import { Get, Post } from '../decorators/routes.js';
+import { getTimeoutMiddleware, Timeout } from '../decorators/timeout.js';
+import { getControllerDefinition } from '../metadata/metadata.js';
+import { buildRoutes } from '../registrar/builder.js';
+
+function contributedTimeout(middleware: unknown): number | undefined {
+  return (middleware as Record<symbol, MetadataContribution | undefined>)[ROUTE_METADATA]?.timeout;
+}
+
+describe('@Timeout', () => {
+  it('applies a controller deadline to every route, and a method deadline over it', () => {
+    @Controller('/reports')
+    @Timeout(10_000)
+    class ReportController {
+      @Get()
+      list() {
+        return [];
+      }
+
+      @Post('/export')
+      @Timeout(120_000, { status: 504 })
+      export() {
+        return {};
+      }
+    }
+
+    expect(contributedTimeout(getTimeoutMiddleware(ReportController, 'list'))).toBe(10_000);
+    expect(contributedTimeout(getTimeoutMiddleware(ReportController, 'export'))).toBe(120_000);
+  });
+
+  it('returns undefined for a route without a deadline', () => {
+    @Controller('/users')
+    class UserController {
+      @Get()
+      findAll() {
+        return [];
+      }
+    }
+
+    expect(getTimeoutMiddleware(UserController, 'findAll')).toBeUndefined();
+  });
+
+  it('puts the deadline first in the route middleware', () => {
+    @Controller('/slow')
+    class SlowController {
+      @Get()
+      @Timeout(500)
+      run() {
+        return {};
+      }
+    }
+
+    const container = createContainer();
+    container.register(SlowController, { useClass: SlowController });
+    const definition = getControllerDefinition(SlowController)!;
+    const [route] = buildRoutes(definition, container, '', [async (_ctx, next) => next()]);
+
+    expect(route?.middleware).toHaveLength(2);
+    expect(contributedTimeout(route?.middleware[0])).toBe(500);
+  });
+
+  it('rejects an invalid deadline at decoration time', () => {
+    expect(() => Timeout(0)).toThrow(TypeError);
+    expect(() => Timeout(500, { status: 500 as 503 })).toThrow(TypeError);
+  });
+
+  it('enforces the deadline at request time', async () => {
+    @Controller('/slow')
+    @Timeout(10, { status: 504 })
+    class SlowController {
+      @Get()
+      run() {
+        return {};
+      }
+    }
+
+    const deadline = getTimeoutMiddleware(SlowController, 'run')!;
+    const ctx = { state: {}, responded: false } as unknown as Context;
+
+    const error = await deadline(ctx, () => new Promise(() => {})).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect((error as RequestTimeoutError).status).toBe(504);
+  });
+});
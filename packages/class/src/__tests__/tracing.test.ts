@@ -0,0 +1,188 @@
+/**
+ * @nextrush/class - Request Tracing
+ *
+ * With a `RequestTracer` on `ctx.state`, every guard and interceptor runs in
+ * a span of its own, nested the way the runners nest them; without one, the
+ * runners behave exactly as before. Route handlers carry a
+ * `Controller.method` name for the router's handler span.
+ */
+
+import type { CanActivate, GuardContext, Interceptor } from '../index.js';
+import { GuardRejectionError } from '../errors.js';
+import { executeGuards } from '../guards/guard-runner.js';
+import { runInterceptors } from '../interceptors/interceptor-runner.js';
+import { createExecutionContext } from '../runtime/execution-context.js';
+import { createRouteHandler } from '../runtime/handler.js';
+import { createContainer, type Container } from '@nextrush/di';
+import { REQUEST_TRACER } from '@nextrush/types';
+import type { Context, RequestTracer, TraceStepKind } from '@nextrush/types';
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface RecordedStep {
+  kind: TraceStepKind;
+  name: string;
+  depth: number;
+  outcome?: 'ok' | 'error';
+}
+
+function createTracer() {
+  const steps: RecordedStep[] = [];
+  let depth = 0;
+
+  const tracer: RequestTracer = {
+    setRoute: vi.fn(),
+    async step(kind, name, run) {
+      const step: RecordedStep = { kind, name, depth: depth++ };
+      steps.push(step);
+      try {
+        const result = await run();
+        step.outcome = 'ok';
+        return result;
+      } catch (err) {
+        step.outcome = 'error';
+        throw err;
+      } finally {
+        depth--;
+      }
+    },
+  };
+
+  return { tracer, steps };
+}
+
+function createMockContext(state: Record<string | symbol, unknown> = {}): Context {
+  return {
+    method: 'GET',
+    path: '/',
+    query: {},
+    headers: {},
+    params: {},
+    status: 200,
+    state,
+    json: vi.fn(),
+    send: vi.fn(),
+    set: vi.fn(),
+    get: vi.fn(),
+  } as unknown as Context;
+}
+
+const executionContext = createExecutionContext(class UsersController {}, {
+  method: 'GET',
+  path: '/',
+  methodName: 'list',
+  propertyKey: 'list',
+});
+
+class AdminGuard implements CanActivate {
+  canActivate(ctx: GuardContext): boolean {
+    return ctx.state.role === 'admin';
+  }
+}
+
+class TimingInterceptor implements Interceptor {
+  intercept(_ctx: Context, next: () => Promise<unknown>): Promise<unknown> {
+    return next();
+  }
+}
+
+class WrapInterceptor implements Interceptor {
+  async intercept(_ctx: Context, next: () => Promise<unknown>): Promise<unknown> {
+    return { data: await next() };
+  }
+}
+
+describe('guard spans', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = createContainer();
+  });
+
+  it('opens one guard span per guard, named after it', async () => {
+    const { tracer, steps } = createTracer();
+    const ctx = createMockContext({ [REQUEST_TRACER]: tracer, role: 'admin' });
+    const hasSession = () => true;
+
+    await executeGuards([hasSession, AdminGuard], ctx, container, executionContext);
+
+    expect(steps).toEqual([
+      { kind: 'guard', name: 'hasSession', depth: 0, outcome: 'ok' },
+      { kind: 'guard', name: 'AdminGuard', depth: 0, outcome: 'ok' },
+    ]);
+  });
+
+  it('still rejects with GuardRejectionError, after the rejecting span ends', async () => {
+    const { tracer, steps } = createTracer();
+    const ctx = createMockContext({ [REQUEST_TRACER]: tracer, role: 'guest' });
+
+    await expect(
+      executeGuards([AdminGuard], ctx, container, executionContext)
+    ).rejects.toBeInstanceOf(GuardRejectionError);
+    expect(steps).toEqual([{ kind: 'guard', name: 'AdminGuard', depth: 0, outcome: 'ok' }]);
+  });
+
+  it('marks a throwing guard span as failed', async () => {
+    const { tracer, steps } = createTracer();
+    const ctx = createMockContext({ [REQUEST_TRACER]: tracer });
+    const failing = () => {
+      throw new Error('no token');
+    };
+
+    await expect(executeGuards([failing], ctx, container, executionContext)).rejects.toThrow(
+      'no token'
+    );
+    expect(steps[0]).toMatchObject({ name: 'failing', outcome: 'error' });
+  });
+});
+
+describe('interceptor spans', () => {
+  it('nests interceptor spans outer to inner and keeps the transformed result', async () => {
+    const { tracer, steps } = createTracer();
+    const ctx = createMockContext({ [REQUEST_TRACER]: tracer });
+
+    const result = await runInterceptors(
+      [WrapInterceptor, TimingInterceptor],
+      ctx,
+      createContainer(),
+      () => Promise.resolve('users'),
+      executionContext
+    );
+
+    expect(result).toEqual({ data: 'users' });
+    expect(steps).toEqual([
+      { kind: 'interceptor', name: 'WrapInterceptor', depth: 0, outcome: 'ok' },
+      { kind: 'interceptor', name: 'TimingInterceptor', depth: 1, outcome: 'ok' },
+    ]);
+  });
+
+  it('runs untraced when no tracer is published', async () => {
+    const result = await runInterceptors(
+      [WrapInterceptor],
+      createMockContext(),
+      createContainer(),
+      () => Promise.resolve(1),
+      executionContext
+    );
+    expect(result).toEqual({ data: 1 });
+  });
+});
+
+describe('route handler name', () => {
+  it('is Controller.method', () => {
+    class UsersController {
+      list(): string[] {
+        return [];
+      }
+    }
+
+    const handler = createRouteHandler(
+      UsersController,
+      { method: 'GET', path: '/', methodName: 'list', propertyKey: 'list' },
+      createContainer(),
+      new Map()
+    );
+
+    expect(handler.name).toBe('UsersController.list');
+  });
+});
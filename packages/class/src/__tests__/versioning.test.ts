@@ -0,0 +1,141 @@
+/**
+ * @nextrush/class - API versioning
+ *
+ * `version` on `@Controller` or a route decorator follows the router's
+ * `versioning` strategy: controllers serving different versions share a path
+ * and the router picks one per request. On a router without a strategy, each
+ * version is a path prefix.
+ */
+
+import { Controller, Get, getClassDiagnostics, registerControllers } from '../index.js';
+import { Application } from '@nextrush/core';
+import { createContainer } from '@nextrush/di';
+import { Router } from '@nextrush/router';
+import type { Context, RouterOptions } from '@nextrush/types';
+import 'reflect-metadata';
+import { describe, expect, it, vi } from 'vitest';
+
+@Controller({ path: '/users', version: '1' })
+class UsersV1Controller {
+  @Get()
+  list() {
+    return 'users v1';
+  }
+}
+
+@Controller({ path: '/users', version: ['2', '3'] })
+class UsersV2Controller {
+  @Get()
+  list() {
+    return 'users v2';
+  }
+
+  @Get('/export', { version: '3' })
+  exportAll() {
+    return 'export v3';
+  }
+}
+
+async function register(options?: RouterOptions) {
+  const router = new Router(options);
+  const app = new Application({ router });
+  await registerControllers(app, {
+    container: createContainer(),
+    controllers: [UsersV1Controller, UsersV2Controller],
+    diagnostics: true,
+  });
+  return { app, router };
+}
+
+/** Dispatch through `routes()` and report what answered. */
+async function request(router: Router, path: string, headers: Record<string, string> = {}) {
+  const ctx = {
+    method: 'GET',
+    path,
+    headers,
+    status: 200,
+    state: {},
+    send: vi.fn(),
+    set: vi.fn(),
+    get: (field: string) => headers[field.toLowerCase()],
+  } as unknown as Context;
+  await router.routes()(ctx, async () => {});
+  return ctx;
+}
+
+describe('versioned controllers', () => {
+  it('share a path under header versioning', async () => {
+    const { router } = await register({ versioning: { type: 'header' } });
+
+    const v1 = await request(router, '/users', { 'x-api-version': '1' });
+    const v3 = await request(router, '/users', { 'x-api-version': '3' });
+
+    expect(v1.send).toHaveBeenCalledWith('users v1');
+    expect(v3.send).toHaveBeenCalledWith('users v2');
+    expect(router.getRoutes().map((r) => [r.path, r.metadata?.versions])).toEqual([
+      ['/users', ['1']],
+      ['/users', ['2', '3']],
+      ['/users/export', ['3']],
+    ]);
+  });
+
+  it('let a route version replace the controller version', async () => {
+    const { router } = await register({ versioning: { type: 'header' } });
+
+    const v3 = await request(router, '/users/export', { 'x-api-version': '3' });
+    const v2 = await request(router, '/users/export', { 'x-api-version': '2' });
+
+    expect(v3.send).toHaveBeenCalledWith('export v3');
+    expect(v2.status).toBe(404);
+    expect(v2.send).not.toHaveBeenCalled();
+  });
+
+  it('answer 406 for an unserved media-type version', async () => {
+    const { router } = await register({ versioning: { type: 'media-type' } });
+
+    const v2 = await request(router, '/users', { accept: 'application/vnd.acme.v2+json' });
+    const v9 = await request(router, '/users', { accept: 'application/vnd.acme.v9+json' });
+
+    expect(v2.send).toHaveBeenCalledWith('users v2');
+    expect(v9.status).toBe(406);
+  });
+
+  it('follow the URI strategy of the router', async () => {
+    const { router } = await register({ versioning: { type: 'uri' } });
+
+    expect(router.getRoutes().map((r) => r.path)).toEqual([
+      '/v1/users',
+      '/v2/users',
+      '/v3/users',
+      '/v3/users/export',
+    ]);
+  });
+
+  it('are not reported as duplicates when their versions differ', async () => {
+    const { app } = await register({ versioning: { type: 'header' } });
+
+    expect(getClassDiagnostics(app)?.duplicateRoutes).toEqual([]);
+  });
+
+  it('prefix the path with each version on a router without versioning', async () => {
+    @Controller({ path: '/reports', version: ['v1', 'v2'] })
+    class ReportsController {
+      @Get()
+      list() {
+        return [];
+      }
+    }
+
+    const router = new Router();
+    const app = new Application({ router });
+    await registerControllers(app, {
+      container: createContainer(),
+      controllers: [ReportsController],
+    });
+
+    expect(router.getRoutes().map((r) => [r.path, r.metadata?.versions])).toEqual([
+      ['/v1/reports', ['v1']],
+      ['/v2/reports', ['v2']],
+    ]);
+  });
+});
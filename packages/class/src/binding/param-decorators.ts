@@ -12,6 +12,7 @@ import type {
   ParamOptions,
   QueryOptions,
 } from '../types.js';
+import type { StandardSchemaV1 } from '@nextrush/types';
 import { createParamDecorator, pushParamMetadata } from './param-factory.js';
 
 /**
@@ -29,17 +30,28 @@ import { createParamDecorator, pushParamMetadata } from './param-factory.js';
  *   @Post('/email')
  *   updateEmail(@Body('email') email: string) { }
  *
+ *   // Validated (and coerced) by a Standard Schema — zod, valibot, ...
+ *   @Post()
+ *   create(@Body(CreateUserSchema) data: CreateUser) { }
+ *
  *   // With transform
  *   @Post()
  *   create(@Body({ transform: validateCreateUser }) data: CreateUserDto) { }
  * }
  * ```
+ *
+ * A schema validates through `runSchema()` from `@nextrush/validation`:
+ * failures across every schema parameter of the method are reported together
+ * as one `ValidationError` (400), and the schema becomes the route's
+ * documented request body.
  */
 export const Body: {
   (): ParameterDecorator;
   (property: string): ParameterDecorator;
   (options: BodyOptions): ParameterDecorator;
+  (schema: StandardSchemaV1): ParameterDecorator;
   (property: string, options: BodyOptions): ParameterDecorator;
+  (property: string, schema: StandardSchemaV1): ParameterDecorator;
 } = createParamDecorator<BodyOptions>('body', true) as typeof Body;
 
 /**
@@ -60,6 +72,10 @@ export const Body: {
  *   // With transform (e.g., parse to number)
  *   @Get('/:id')
  *   findOne(@Param('id', { transform: Number }) id: number) { }
+ *
+ *   // Validated and coerced by a Standard Schema
+ *   @Get('/:id')
+ *   findOne(@Param('id', z.coerce.number().int()) id: number) { }
  * }
  * ```
  */
@@ -67,7 +83,9 @@ export const Param: {
   (): ParameterDecorator;
   (name: string): ParameterDecorator;
   (options: ParamOptions): ParameterDecorator;
+  (schema: StandardSchemaV1): ParameterDecorator;
   (name: string, options: ParamOptions): ParameterDecorator;
+  (name: string, schema: StandardSchemaV1): ParameterDecorator;
 } = createParamDecorator<ParamOptions>('param', true) as typeof Param;
 
 /**
@@ -88,6 +106,10 @@ export const Param: {
  *   // With default value
  *   @Get()
  *   findAll(@Query('limit', { defaultValue: 10, transform: Number }) limit: number) { }
+ *
+ *   // Validated by a Standard Schema (a default belongs in the schema)
+ *   @Get()
+ *   findAll(@Query('limit', z.coerce.number().max(100).default(10)) limit: number) { }
  * }
  * ```
  */
@@ -95,7 +117,9 @@ export const Query: {
   (): ParameterDecorator;
   (name: string): ParameterDecorator;
   (options: QueryOptions): ParameterDecorator;
+  (schema: StandardSchemaV1): ParameterDecorator;
   (name: string, options: QueryOptions): ParameterDecorator;
+  (name: string, schema: StandardSchemaV1): ParameterDecorator;
 } = createParamDecorator<QueryOptions>('query', false) as typeof Query;
 
 /**
@@ -7,19 +7,23 @@
  * from param-decorators.ts so that file stays focused on the decorator surface.
  */
 
+import type { StandardSchemaV1 } from '@nextrush/types';
 import type { ParamMetadata, ParamSource, TransformFn } from '../types.js';
 import { DECORATOR_METADATA_KEYS } from '../types.js';
 import { defineMetadata, getOwnMetadata } from '../reflection/reflection.js';
 
 /**
  * Create a parameter decorator for a specific source.
+ *
+ * Either argument may be a Standard Schema in place of the options, in which
+ * case the schema validates the extracted value (see `ParamMetadata.schema`).
  */
 export function createParamDecorator<
   TOptions extends { transform?: TransformFn; required?: boolean; defaultValue?: unknown },
 >(source: ParamSource, defaultRequired: boolean) {
   return function paramDecoratorFactory(
-    nameOrOptions?: string | TOptions,
-    options?: TOptions
+    nameOrOptions?: string | TOptions | StandardSchemaV1,
+    options?: TOptions | StandardSchemaV1
   ): ParameterDecorator {
     return function paramDecorator(
       target: object,
@@ -32,16 +36,18 @@ export function createParamDecorator<
         );
       }
 
-      const { name, paramOptions } = normalizeParamInput(nameOrOptions, options, source);
+      const { name, paramOptions, schema } = normalizeParamInput(nameOrOptions, options, source);
 
-      const metadata: ParamMetadata = {
-        source,
-        index: parameterIndex,
-        name,
-        required: paramOptions?.required ?? defaultRequired,
-        defaultValue: paramOptions?.defaultValue,
-        transform: paramOptions?.transform,
-      };
+      const metadata: ParamMetadata = schema
+        ? { source, index: parameterIndex, name, required: defaultRequired, schema }
+        : {
+            source,
+            index: parameterIndex,
+            name,
+            required: paramOptions?.required ?? defaultRequired,
+            defaultValue: paramOptions?.defaultValue,
+            transform: paramOptions?.transform,
+          };
 
       pushParamMetadata(target, propertyKey, metadata);
     };
@@ -52,12 +58,18 @@ export function createParamDecorator<
  * Normalize parameter decorator input.
  */
 function normalizeParamInput<TOptions>(
-  nameOrOptions: string | TOptions | undefined,
-  options: TOptions | undefined,
+  nameOrOptions: string | TOptions | StandardSchemaV1 | undefined,
+  options: TOptions | StandardSchemaV1 | undefined,
   source: ParamSource
-): { name?: string; paramOptions?: TOptions } {
+): { name?: string; paramOptions?: TOptions; schema?: StandardSchemaV1 } {
+  if (isStandardSchema(nameOrOptions)) {
+    return { schema: nameOrOptions };
+  }
+
   if (typeof nameOrOptions === 'string') {
-    return { name: nameOrOptions, paramOptions: options };
+    return isStandardSchema(options)
+      ? { name: nameOrOptions, schema: options }
+      : { name: nameOrOptions, paramOptions: options };
   }
 
   if (nameOrOptions && typeof nameOrOptions === 'object') {
@@ -65,10 +77,23 @@ function normalizeParamInput<TOptions>(
   }
 
   if (source === 'body' || source === 'ctx' || source === 'req' || source === 'res') {
-    return { paramOptions: options };
+    return { paramOptions: options as TOptions | undefined };
   }
 
-  return { paramOptions: options };
+  return { paramOptions: options as TOptions | undefined };
+}
+
+/**
+ * Whether a decorator argument is a Standard Schema rather than an options
+ * object. Checks for the `~standard` property only: some libraries (ArkType)
+ * build schemas as functions.
+ */
+function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    '~standard' in value
+  );
 }
 
 /**
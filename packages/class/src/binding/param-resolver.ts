@@ -2,17 +2,22 @@
  * @nextrush/class - Parameter Resolver
  *
  * Resolves controller-method arguments from the request context using a
- * precomputed, pre-sorted parameter injection plan. Supports async transforms
- * (zod, valibot, etc.) and async custom extractors.
+ * precomputed, pre-sorted parameter injection plan. Supports Standard Schema
+ * validation, async transforms and async custom extractors.
  */
 
 import type { ParamMetadata } from './param-types.js';
-import type { Context } from '@nextrush/types';
+import type { Context, StandardSchemaV1 } from '@nextrush/types';
+import { ValidationError, type ValidationIssue } from '@nextrush/errors';
+import { runSchema } from '@nextrush/validation';
 import { MissingParameterError, ParameterInjectionError } from '../errors.js';
 
 /**
  * Resolve parameter values from a precomputed, pre-sorted injection plan.
  * Supports async transform functions for validation libraries (zod, valibot, etc.)
+ *
+ * @throws {ValidationError} Once every parameter has been resolved, carrying
+ *   the issues of every schema parameter that failed.
  */
 export async function resolveParametersFromPlan(
   ctx: Context,
@@ -27,13 +32,23 @@ export async function resolveParametersFromPlan(
   const maxIndex =
     sortedMetadata.length > 0 ? sortedMetadata[sortedMetadata.length - 1]!.index : -1;
   const args: unknown[] = new Array(maxIndex + 1).fill(undefined);
+  const issues: ValidationIssue[] = [];
+  let anyFailed = false;
 
   for (const param of sortedMetadata) {
     try {
       // Await supports async custom extractors (createCustomParamDecorator)
       const value = await extractParameterValue(ctx, param);
 
-      if (value === undefined) {
+      if (param.schema) {
+        // The schema decides whether a missing value is acceptable
+        const outcome = await validateParameter(param, param.schema, value, issues);
+        if (outcome.ok) {
+          args[param.index] = outcome.value;
+        } else {
+          anyFailed = true;
+        }
+      } else if (value === undefined) {
         if (param.required && param.defaultValue === undefined) {
           throw createMissingParameterError(
             controllerName,
@@ -60,9 +75,41 @@ export async function resolveParametersFromPlan(
     }
   }
 
+  // Like validate(): a schema that fails with no issues still rejects
+  if (anyFailed) {
+    throw new ValidationError(issues);
+  }
+
   return args;
 }
 
+type ValidationOutcome = { ok: true; value: unknown } | { ok: false };
+
+/**
+ * Run a parameter's schema, collecting its issues instead of throwing so the
+ * issues of every parameter are reported together. Issue paths start with the
+ * request part (`body`, `query`, `params`) and the parameter name, if any.
+ */
+async function validateParameter(
+  param: ParamMetadata,
+  schema: StandardSchemaV1,
+  value: unknown,
+  issues: ValidationIssue[]
+): Promise<ValidationOutcome> {
+  const target = param.source === 'param' ? 'params' : param.source;
+  const pathPrefix = param.name ? `${target}.${param.name}` : target;
+
+  try {
+    return { ok: true, value: await runSchema(schema, value, pathPrefix) };
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      issues.push(...error.issues);
+      return { ok: false };
+    }
+    throw error;
+  }
+}
+
 /**
  * Build the `MissingParameterError` thrown when a required parameter
  * resolves to nothing.
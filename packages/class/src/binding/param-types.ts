@@ -5,7 +5,7 @@
  * @Header, and custom param decorators), plus their transform/extractor types.
  */
 
-import type { Context } from '@nextrush/types';
+import type { Context, StandardSchemaV1 } from '@nextrush/types';
 
 /**
  * Parameter source types for parameter decorators
@@ -52,6 +52,13 @@ export interface ParamMetadata {
   /** Validation pipe or transform function */
   readonly transform?: TransformFn;
 
+  /**
+   * Standard Schema the extracted value is validated against; its output is
+   * injected instead of the raw value. Replaces `required`, `defaultValue`
+   * and `transform`, which the schema expresses itself.
+   */
+  readonly schema?: StandardSchemaV1;
+
   /** Custom extractor function for user-defined param decorators */
   readonly customExtractor?: CustomParamExtractor;
 }
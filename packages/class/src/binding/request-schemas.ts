@@ -0,0 +1,142 @@
+/**
+ * @nextrush/class - Request Schemas
+ *
+ * Turns the schemas given to a handler's `@Body`, `@Query` and `@Param`
+ * parameters into the `request` shapes of its route metadata, so a class
+ * route is documented exactly like a functional route guarded by `validate()`.
+ */
+
+import {
+  SCHEMA_FIELDS,
+  type FieldsSchema,
+  type RouteMetadata,
+  type SchemaField,
+  type StandardSchemaIssue,
+  type StandardSchemaResult,
+  type StandardSchemaV1,
+} from '@nextrush/types';
+import type { ParamMetadata, ParamSource } from './param-types.js';
+
+type RequestSchemas = NonNullable<RouteMetadata['request']>;
+type SchemaTarget = 'body' | 'query' | 'params';
+
+const SCHEMA_TARGETS: Partial<Record<ParamSource, SchemaTarget>> = {
+  body: 'body',
+  query: 'query',
+  param: 'params',
+};
+
+/**
+ * Build the request schemas of a handler from its parameter metadata.
+ *
+ * A schema given for a whole request part (`@Body(schema)`) describes that
+ * part as is. Schemas given for named fields (`@Query('page', schema)`) are
+ * combined into one object schema listing each field under
+ * {@link SCHEMA_FIELDS}; a whole-part schema wins over field schemas.
+ *
+ * @returns `undefined` when no parameter carries a schema.
+ */
+export function buildRequestSchemas(params: readonly ParamMetadata[]): RequestSchemas | undefined {
+  const whole: Partial<Record<SchemaTarget, StandardSchemaV1>> = {};
+  const fields: Partial<Record<SchemaTarget, Record<string, SchemaField>>> = {};
+
+  for (const { source, name, schema } of params) {
+    const target = SCHEMA_TARGETS[source];
+    if (!schema || !target) continue;
+
+    if (name === undefined) {
+      whole[target] = schema;
+    } else {
+      // Route params are always present when the route matches
+      const required = target === 'params' || !acceptsUndefined(schema);
+      (fields[target] ??= {})[name] = { schema, required };
+    }
+  }
+
+  const request: Partial<Record<SchemaTarget, StandardSchemaV1>> = {};
+  for (const target of ['body', 'query', 'params'] as const) {
+    const targetFields = fields[target];
+    const schema = whole[target] ?? (targetFields ? fieldsSchema(targetFields) : undefined);
+    if (schema) request[target] = schema;
+  }
+
+  return Object.keys(request).length > 0 ? request : undefined;
+}
+
+/**
+ * Whether a schema accepts a missing value, probed by validating `undefined`.
+ * An async schema cannot be probed synchronously and counts as rejecting it.
+ */
+function acceptsUndefined(schema: StandardSchemaV1): boolean {
+  try {
+    const result = schema['~standard'].validate(undefined);
+    if (result instanceof Promise) {
+      result.catch(() => undefined);
+      return false;
+    }
+    return result.issues === undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combine field schemas into one object schema. It validates each field of
+ * the input with its own schema, prefixing issue paths with the field name,
+ * and outputs the input with the fields replaced by their coerced values.
+ */
+function fieldsSchema(fields: Readonly<Record<string, SchemaField>>): FieldsSchema {
+  return {
+    [SCHEMA_FIELDS]: fields,
+    '~standard': {
+      version: 1,
+      vendor: 'nextrush',
+      validate: (value) => validateFields(fields, value),
+    },
+  };
+}
+
+interface FieldResult {
+  readonly name: string;
+  readonly result: StandardSchemaResult<unknown>;
+}
+
+function validateFields(
+  fields: Readonly<Record<string, SchemaField>>,
+  value: unknown
+): StandardSchemaResult<unknown> | Promise<StandardSchemaResult<unknown>> {
+  if (typeof value !== 'object' || value === null) {
+    return { issues: [{ message: 'Expected an object' }] };
+  }
+
+  const input = value as Record<string, unknown>;
+  const pending = Object.entries(fields).map(([name, field]) => ({
+    name,
+    result: field.schema['~standard'].validate(input[name]),
+  }));
+
+  const combine = (settled: readonly FieldResult[]): StandardSchemaResult<unknown> => {
+    const output: Record<string, unknown> = { ...input };
+    const issues: StandardSchemaIssue[] = [];
+    let failed = false;
+
+    for (const { name, result } of settled) {
+      if (result.issues) {
+        failed = true;
+        for (const issue of result.issues) {
+          issues.push({ ...issue, path: [name, ...(issue.path ?? [])] });
+        }
+      } else if (result.value !== undefined || name in input) {
+        output[name] = result.value;
+      }
+    }
+
+    return failed ? { issues } : { value: output };
+  };
+
+  return pending.some(({ result }) => result instanceof Promise)
+    ? Promise.all(pending.map(async ({ name, result }) => ({ name, result: await result }))).then(
+        combine
+      )
+    : combine(pending as FieldResult[]);
+}
@@ -13,6 +13,7 @@ import type { BuiltRoute } from '../registrar/registrar-types.js';
 import type { ControllerDefinition } from '../metadata/metadata.js';
 import type { ApplicationGraph } from './graph.js';
 import type { TimingEntry } from '../diagnostics/types.js';
+import type { GlobalEnhancers } from '../runtime/global-enhancers.js';
 
 /**
  * The complete bootstrap context. All fields are populated incrementally
@@ -63,6 +64,7 @@ export interface BootstrapContext {
 export interface ResolvedBootstrapOptions {
   prefix: string;
   middleware: Middleware[];
+  globals: GlobalEnhancers;
   include: string[];
   exclude: string[];
   debug: boolean;
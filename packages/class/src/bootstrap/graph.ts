@@ -16,6 +16,7 @@
  */
 
 import type { BuiltRoute } from '../registrar/registrar-types.js';
+import { NO_GLOBAL_ENHANCERS, type GlobalEnhancers } from '../runtime/global-enhancers.js';
 
 /**
  * Assemble the immutable {@link ApplicationGraph} from the boot artifacts and
@@ -28,12 +29,18 @@ import type { BuiltRoute } from '../registrar/registrar-types.js';
 export function buildApplicationGraph(
   routes: ReadonlyArray<BuiltRoute>,
   providers: ReadonlyMap<Function, ReadonlyArray<Function>>,
-  requestScopedTokens: ReadonlySet<Function>
+  requestScopedTokens: ReadonlySet<Function>,
+  globals: GlobalEnhancers = NO_GLOBAL_ENHANCERS
 ): ApplicationGraph {
   return deepFreeze<ApplicationGraph>({
     routes: [...routes],
     providers,
     requestScopedTokens,
+    globals: {
+      guards: [...globals.guards],
+      interceptors: [...globals.interceptors],
+      filters: [...globals.filters],
+    },
   });
 }
 
@@ -48,6 +55,7 @@ export function buildApplicationGraph(
  * - routes: All BuiltRoute objects with precomputed handler closures
  * - providers: DI provider metadata for request-scope bubble detection
  * - requestScopedTokens: Set of provider tokens with request scope
+ * - globals: Guards, interceptors and filters applied to every route
  */
 export interface ApplicationGraph {
   /** All built routes (precomputed at bootstrap, frozen) */
@@ -58,6 +66,9 @@ export interface ApplicationGraph {
 
   /** Tokens marked as request-scoped (require child container per request) */
   readonly requestScopedTokens: ReadonlySet<Function>;
+
+  /** Global guards/interceptors/filters (already baked into route handlers) */
+  readonly globals: GlobalEnhancers;
 }
 
 /**
@@ -73,7 +73,12 @@ export async function bootstrapPipeline(ctx: BootstrapContext): Promise<void> {
   // stage below registers from this frozen graph; request-time execution reads
   // only baked route data (zero Reflect on the request path).
   stageStart = now();
-  ctx.graph = buildApplicationGraph(ctx.builtRoutes, ctx.providerGraph, ctx.requestScoped);
+  ctx.graph = buildApplicationGraph(
+    ctx.builtRoutes,
+    ctx.providerGraph,
+    ctx.requestScoped,
+    ctx.resolvedOptions.globals
+  );
   if (enableTiming) {
     ctx.timings.push({ stage: 'graph', ms: performance.now() - stageStart });
   }
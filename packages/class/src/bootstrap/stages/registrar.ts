@@ -14,7 +14,9 @@ export function registrarStage(ctx: BootstrapContext): void {
     ctx.resolvedOptions.prefix,
     ctx.resolvedOptions.middleware,
     ctx.resolvedOptions.debug,
-    ctx.requestScoped
+    ctx.requestScoped,
+    ctx.resolvedOptions.globals,
+    ctx.router.versioning !== undefined
   );
 
   // Register all controllers and build routes
@@ -35,7 +37,7 @@ export function registrarStage(ctx: BootstrapContext): void {
   // Validate controllers and guards if enabled
   if (ctx.resolvedOptions.validate) {
     validateControllers(registered, ctx.resolvedOptions.container, registry.instances);
-    validateGuards(registered, ctx.resolvedOptions.container);
+    validateGuards(registered, ctx.resolvedOptions.container, ctx.resolvedOptions.globals.guards);
   }
 }
 
@@ -0,0 +1,175 @@
+/**
+ * @nextrush/class - @Authenticated and @Roles Decorators
+ *
+ * Guard-based authentication and role checks. `@Authenticated()` runs the
+ * strategies of `@nextrush/auth`, an optional peer dependency loaded on the
+ * first request; `@Roles()` is checked after every other guard of the route.
+ */
+
+import type {
+  AuthenticateOptions,
+  AuthGuardContext,
+  AuthState,
+  AuthStrategy,
+} from '@nextrush/auth';
+import type * as AuthModule from '@nextrush/auth';
+import { ForbiddenError, UnauthorizedError } from '@nextrush/errors';
+import { ROUTE_METADATA, type MetadataContribution } from '@nextrush/types';
+import { ControllerError } from '../errors.js';
+import type { GuardContext, GuardFn } from '../guards/guard-types.js';
+import { UseGuard } from '../guards/guards.js';
+import { Reflector } from '../metadata/reflector.js';
+import { defineMetadata, getMetadata } from '../reflection/reflection.js';
+import type { ExecutionContext } from '../runtime/execution-context.js';
+import { DECORATOR_METADATA_KEYS } from '../types.js';
+
+let auth: Promise<typeof AuthModule> | undefined;
+
+/** Load the optional `@nextrush/auth` peer dependency. */
+function loadAuth(): Promise<typeof AuthModule> {
+  auth ??= import('@nextrush/auth').catch((error: unknown) => {
+    auth = undefined;
+    throw new ControllerError(
+      '@Authenticated() requires the "@nextrush/auth" package.\n\n  npm install @nextrush/auth\n',
+      'MISSING_DEPENDENCY',
+      { cause: error }
+    );
+  });
+  return auth;
+}
+
+function toList(strategies: AuthStrategy | readonly AuthStrategy[]): readonly AuthStrategy[] {
+  const list = Array.isArray(strategies)
+    ? (strategies as readonly AuthStrategy[])
+    : [strategies as AuthStrategy];
+  if (list.length === 0) throw new TypeError('@Authenticated(): pass at least one strategy');
+  if (new Set(list.map((s) => s.name)).size !== list.length) {
+    throw new TypeError('@Authenticated(): strategy names must be unique');
+  }
+  return list;
+}
+
+/**
+ * Authenticate requests with one or more strategies before the handler runs.
+ *
+ * The first strategy whose credentials the request presents decides: its
+ * principal is stored in `ctx.state.principal`, or the request is rejected
+ * with a 401 and a `WWW-Authenticate` challenge. The strategies are
+ * contributed to the route's metadata as `security`, so `@nextrush/openapi`
+ * documents them.
+ *
+ * Class-level guards run before method-level ones. `@Roles()` is checked
+ * after the principal is stored, wherever it sits among the decorators.
+ *
+ * @param strategies - A strategy, or strategies tried in order.
+ * @param options - `optional: true` lets anonymous requests through.
+ * @throws {TypeError} At decoration time, for an empty or duplicated strategy list.
+ *
+ * @example
+ * ```typescript
+ * const jwt = jwtStrategy({ key: createJwks({ url: JWKS_URL }), algorithms: ['RS256'] });
+ *
+ * @Controller('/orders')
+ * @Authenticated(jwt)
+ * class OrderController {
+ *   @Get()
+ *   list(@Ctx() ctx: Context) {
+ *     return this.orders.forUser(getPrincipal(ctx).id);
+ *   }
+ *
+ *   @Delete('/:id')
+ *   @Roles('admin')
+ *   remove(@Param('id') id: string) {
+ *     return this.orders.remove(id);
+ *   }
+ * }
+ * ```
+ */
+export function Authenticated(
+  strategies: AuthStrategy | readonly AuthStrategy[],
+  options: AuthenticateOptions = {}
+): ClassDecorator & MethodDecorator {
+  const list = toList(strategies);
+  let guard: ((ctx: AuthGuardContext) => Promise<boolean>) | undefined;
+
+  const authenticated: GuardFn = async (ctx) => {
+    guard ??= (await loadAuth()).authGuard(list, options);
+    return guard(ctx);
+  };
+
+  const contribution: MetadataContribution = {
+    security: {
+      schemes: list.map(({ name, scheme }) => ({ name, scheme })),
+      ...(options.optional === true && { optional: true }),
+    },
+  };
+  Object.defineProperty(authenticated, ROUTE_METADATA, {
+    value: contribution,
+    enumerable: false,
+  });
+
+  return UseGuard(authenticated);
+}
+
+/**
+ * Require the authenticated principal to hold at least one of `roles`.
+ *
+ * Rejects with a 403 when it holds none, and a 401 when no principal was
+ * stored — by `@Authenticated()`, another guard, or middleware. The check
+ * runs after all of the route's guards, so decorator order does not matter.
+ * Each `@Roles()` on the class and the method must pass.
+ *
+ * @throws {TypeError} At decoration time, when no role is given.
+ */
+export function Roles(...roles: string[]): ClassDecorator & MethodDecorator {
+  if (roles.length === 0) throw new TypeError('@Roles(): pass at least one role');
+
+  return function rolesDecorator(
+    target: object,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey !== undefined && descriptor !== undefined) {
+      const existing: readonly string[][] =
+        getMetadata(DECORATOR_METADATA_KEYS.ROLES, target.constructor, propertyKey) ?? [];
+      defineMetadata(
+        DECORATOR_METADATA_KEYS.ROLES,
+        [...existing, roles],
+        target.constructor,
+        propertyKey
+      );
+    } else {
+      const existing: readonly string[][] =
+        getMetadata(DECORATOR_METADATA_KEYS.ROLES, target) ?? [];
+      defineMetadata(DECORATOR_METADATA_KEYS.ROLES, [...existing, roles], target);
+    }
+  };
+}
+
+const reflector = new Reflector();
+
+function getRoles(context: ExecutionContext): readonly string[][] {
+  return (
+    reflector.getAllAndMerge<readonly string[][]>(DECORATOR_METADATA_KEYS.ROLES, context) ?? []
+  );
+}
+
+/** Checks the `@Roles()` of the route it guards against `ctx.state.principal`. */
+function roles(ctx: GuardContext): boolean {
+  const { principal } = ctx.state as AuthState;
+  for (const required of getRoles(ctx)) {
+    if (!principal) throw new UnauthorizedError('Authentication required');
+    if (!required.some((role) => principal.roles?.includes(role))) {
+      throw new ForbiddenError('Insufficient role');
+    }
+  }
+  return true;
+}
+
+/**
+ * The guard enforcing a route's `@Roles()`, or `undefined` when it declares
+ * none. The route handler runs it after every other guard.
+ */
+export function getRolesGuard(context: ExecutionContext): GuardFn | undefined {
+  return getRoles(context).length > 0 ? roles : undefined;
+}
@@ -17,8 +17,8 @@ export interface ControllerMetadata {
   /** Base path prefix for all routes in this controller */
   readonly path: string;
 
-  /** Optional controller version for API versioning */
-  readonly version?: string;
+  /** API versions the controller's routes serve, for API versioning */
+  readonly version?: string | readonly string[];
 
   /** Middleware to apply to all routes in this controller */
   readonly middleware?: MiddlewareRef[];
@@ -34,8 +34,13 @@ export interface ControllerOptions {
   /** Base path prefix for all routes */
   path?: string;
 
-  /** API version prefix (e.g., 'v1' → '/v1/users') */
-  version?: string;
+  /**
+   * API versions the controller's routes serve. On a router created with
+   * `versioning`, the router applies its strategy (path, header, media type or
+   * custom); otherwise each version prefixes the path as given
+   * (`'v1'` → `/v1/users`).
+   */
+  version?: string | readonly string[];
 
   /** Middleware to apply to all routes */
   middleware?: MiddlewareRef[];
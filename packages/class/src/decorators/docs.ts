@@ -0,0 +1,136 @@
+/**
+ * @nextrush/class - Documentation Decorators
+ *
+ * `@ApiResponse`, `@Summary` and `@Tags` describe a route for renderers such
+ * as `@nextrush/openapi`. They change nothing at request time: the builder
+ * copies them into the route's metadata.
+ */
+
+import type { StandardSchemaV1 } from '@nextrush/types';
+import { defineMetadata, getMetadata } from '../reflection/reflection.js';
+import { DECORATOR_METADATA_KEYS } from '../types.js';
+
+type ResponseSchemas = Readonly<Record<number, StandardSchemaV1>>;
+
+/**
+ * Document the body a route responds with for `status`.
+ *
+ * On a class, documents every route of the controller; on a method, that
+ * route — replacing the controller's schema for the same status. Stack the
+ * decorator to document several statuses.
+ *
+ * @param status - The HTTP status code the schema describes.
+ * @param schema - A Standard Schema (Zod, Valibot, ...) of the response body.
+ *
+ * @example
+ * ```typescript
+ * @Controller('/users')
+ * @ApiResponse(401, ProblemSchema)
+ * class UserController {
+ *   @Get('/:id')
+ *   @ApiResponse(200, UserSchema)
+ *   @ApiResponse(404, ProblemSchema)
+ *   show(@Param('id') id: string) {}
+ * }
+ * ```
+ */
+export function ApiResponse(
+  status: number,
+  schema: StandardSchemaV1
+): ClassDecorator & MethodDecorator {
+  return function apiResponseDecorator(
+    target: object,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    const key = DECORATOR_METADATA_KEYS.API_RESPONSES;
+    if (propertyKey !== undefined && descriptor !== undefined) {
+      const existing = getMetadata<ResponseSchemas>(key, target.constructor, propertyKey);
+      defineMetadata(key, { ...existing, [status]: schema }, target.constructor, propertyKey);
+    } else {
+      const existing = getMetadata<ResponseSchemas>(key, target);
+      defineMetadata(key, { ...existing, [status]: schema }, target);
+    }
+  };
+}
+
+/**
+ * Give a route a one-line summary — the short title renderers show next to
+ * the longer `description` of the route decorator.
+ *
+ * @example
+ * ```typescript
+ * @Get('/:id', { description: 'Looks the user up by id; soft-deleted users are not returned.' })
+ * @Summary('Get a user')
+ * show(@Param('id') id: string) {}
+ * ```
+ */
+export function Summary(summary: string): MethodDecorator {
+  return function summaryDecorator(target: object, propertyKey: string | symbol): void {
+    defineMetadata(DECORATOR_METADATA_KEYS.SUMMARY, summary, target.constructor, propertyKey);
+  };
+}
+
+/**
+ * Group routes under documentation tags.
+ *
+ * On a class, tags every route of the controller (like the `tags` option of
+ * `@Controller`); on a method, adds tags to that route only.
+ *
+ * @example
+ * ```typescript
+ * @Controller('/users')
+ * @Tags('users')
+ * class UserController {
+ *   @Post('/:id/avatar')
+ *   @Tags('uploads')
+ *   uploadAvatar() {}
+ * }
+ * ```
+ */
+export function Tags(...tags: string[]): ClassDecorator & MethodDecorator {
+  return function tagsDecorator(
+    target: object,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    const key = DECORATOR_METADATA_KEYS.TAGS;
+    if (propertyKey !== undefined && descriptor !== undefined) {
+      const existing = getMetadata<string[]>(key, target.constructor, propertyKey) ?? [];
+      defineMetadata(key, [...existing, ...tags], target.constructor, propertyKey);
+    } else {
+      const existing = getMetadata<string[]>(key, target) ?? [];
+      defineMetadata(key, [...existing, ...tags], target);
+    }
+  };
+}
+
+/**
+ * Get the response schemas documented for a controller method — the
+ * controller's, with the method's replacing them status by status.
+ */
+export function getApiResponses(
+  target: object,
+  methodName: string | symbol
+): ResponseSchemas | undefined {
+  const onClass = getMetadata<ResponseSchemas>(DECORATOR_METADATA_KEYS.API_RESPONSES, target);
+  const onMethod = getMetadata<ResponseSchemas>(
+    DECORATOR_METADATA_KEYS.API_RESPONSES,
+    target,
+    methodName
+  );
+  return onClass || onMethod ? { ...onClass, ...onMethod } : undefined;
+}
+
+/** Get the `@Summary()` of a controller method. */
+export function getSummary(target: object, methodName: string | symbol): string | undefined {
+  return getMetadata<string>(DECORATOR_METADATA_KEYS.SUMMARY, target, methodName);
+}
+
+/** Get the `@Tags()` of a controller method: the controller's first, then the method's. */
+export function getTags(target: object, methodName: string | symbol): string[] {
+  return [
+    ...(getMetadata<string[]>(DECORATOR_METADATA_KEYS.TAGS, target) ?? []),
+    ...(getMetadata<string[]>(DECORATOR_METADATA_KEYS.TAGS, target, methodName) ?? []),
+  ];
+}
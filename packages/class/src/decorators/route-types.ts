@@ -53,6 +53,12 @@ export interface ControllerRouteMetadata {
 
   /** Whether this route is deprecated */
   readonly deprecated?: boolean;
+
+  /** Unique route name, for reverse URL generation via `router.url()` */
+  readonly name?: string;
+
+  /** API versions this route serves, replacing the controller's */
+  readonly version?: string | readonly string[];
 }
 
 /**
@@ -82,6 +88,12 @@ export interface RouteOptions {
 
   /** Mark route as deprecated */
   deprecated?: boolean;
+
+  /** Route name for `router.url(name, params)`; must be unique across the router */
+  name?: string;
+
+  /** API versions this route serves, replacing the controller's `version` */
+  version?: string | readonly string[];
 }
 
 /**
@@ -34,6 +34,8 @@ function createRouteDecorator(method: RouteMethods) {
         statusCode: routeOptions?.statusCode,
         description: routeOptions?.description,
         deprecated: routeOptions?.deprecated,
+        name: routeOptions?.name,
+        version: routeOptions?.version,
       };
 
       const existingRoutes: ControllerRouteMetadata[] =
@@ -0,0 +1,122 @@
+/**
+ * @nextrush/class - @Timeout Decorator
+ *
+ * Gives a controller's routes, or one route, a deadline enforced by
+ * `timeout()` from `@nextrush/timeout`, an optional peer dependency loaded on
+ * the first request.
+ */
+
+import type { TimeoutOptions } from '@nextrush/timeout';
+import type * as TimeoutModule from '@nextrush/timeout';
+import { ROUTE_METADATA, type MetadataContribution, type Middleware } from '@nextrush/types';
+import { ControllerError } from '../errors.js';
+import { defineMetadata, getMetadata } from '../reflection/reflection.js';
+import { DECORATOR_METADATA_KEYS } from '../types.js';
+
+/** `setTimeout`'s upper bound, as `timeout()` enforces it. */
+const MAX_TIMEOUT = 2_147_483_647;
+
+const TIMEOUT_STATUSES: ReadonlySet<number> = new Set([503, 504]);
+
+let timeoutModule: Promise<typeof TimeoutModule> | undefined;
+
+/** Load the optional `@nextrush/timeout` peer dependency. */
+function loadTimeout(): Promise<typeof TimeoutModule> {
+  timeoutModule ??= import('@nextrush/timeout').catch((error: unknown) => {
+    timeoutModule = undefined;
+    throw new ControllerError(
+      '@Timeout() requires the "@nextrush/timeout" package.\n\n  npm install @nextrush/timeout\n',
+      'MISSING_DEPENDENCY',
+      { cause: error }
+    );
+  });
+  return timeoutModule;
+}
+
+function assertValidOptions(ms: number, options: TimeoutOptions): void {
+  if (!Number.isFinite(ms) || ms <= 0 || ms > MAX_TIMEOUT) {
+    throw new TypeError(
+      `@Timeout(): ms must be a positive number of milliseconds up to ${String(MAX_TIMEOUT)}, got ${String(ms)}`
+    );
+  }
+  if (options.status !== undefined && !TIMEOUT_STATUSES.has(options.status)) {
+    throw new TypeError(`@Timeout(): status must be 503 or 504, got ${String(options.status)}`);
+  }
+}
+
+/**
+ * Abort a route's `ctx.signal` and respond 503 (or 504) when its handler runs
+ * longer than `ms` milliseconds.
+ *
+ * On a class, applies to every route of the controller; on a method, replaces
+ * the controller's deadline for that route. The deadline covers the route's
+ * middleware, guards, interceptors and handler, and is contributed to the
+ * route's metadata as `timeout`.
+ *
+ * @param ms - The deadline in milliseconds.
+ * @param options - Status and message of the `RequestTimeoutError`.
+ * @throws {TypeError} At decoration time, for the values `timeout()` rejects.
+ *
+ * @example
+ * ```typescript
+ * @Controller('/reports')
+ * @Timeout(10_000)
+ * class ReportController {
+ *   constructor(private reports: ReportService) {}
+ *
+ *   @Get('/:id')
+ *   show(@Param('id') id: string, @Ctx() ctx: Context) {
+ *     return this.reports.find(id, { signal: ctx.signal });
+ *   }
+ *
+ *   @Post('/export')
+ *   @Timeout(120_000, { status: 504 })
+ *   export(@Ctx() ctx: Context) {
+ *     return this.reports.export({ signal: ctx.signal });
+ *   }
+ * }
+ * ```
+ */
+export function Timeout(
+  ms: number,
+  options: TimeoutOptions = {}
+): ClassDecorator & MethodDecorator {
+  assertValidOptions(ms, options);
+  let deadline: Middleware | undefined;
+
+  const middleware: Middleware = async (ctx, next) => {
+    deadline ??= (await loadTimeout()).timeout(ms, options);
+    return deadline(ctx, next);
+  };
+
+  Object.defineProperty(middleware, ROUTE_METADATA, {
+    value: { timeout: ms } satisfies MetadataContribution,
+    enumerable: false,
+  });
+
+  return function timeoutDecorator(
+    target: object,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey !== undefined && descriptor !== undefined) {
+      defineMetadata(DECORATOR_METADATA_KEYS.TIMEOUT, middleware, target.constructor, propertyKey);
+    } else {
+      defineMetadata(DECORATOR_METADATA_KEYS.TIMEOUT, middleware, target);
+    }
+  };
+}
+
+/**
+ * Get the deadline middleware for a controller method — the method's own
+ * `@Timeout()`, else the controller's, else `undefined`.
+ */
+export function getTimeoutMiddleware(
+  target: object,
+  methodName: string | symbol
+): Middleware | undefined {
+  return (
+    getMetadata<Middleware>(DECORATOR_METADATA_KEYS.TIMEOUT, target, methodName) ??
+    getMetadata<Middleware>(DECORATOR_METADATA_KEYS.TIMEOUT, target)
+  );
+}
@@ -21,7 +21,8 @@ import type {
  * Collect diagnostics from the frozen ApplicationGraph IR.
  *
  * Pure function: takes graph and timings, derives report without side effects.
- * Reports extracted route list, provider graph, duplicate routes, circular
+ * Reports extracted route list, provider graph, global guards/interceptors/
+ * filters, duplicate routes, circular
  * dependencies, and stage timings.
  *
  * @param graph Frozen ApplicationGraph from bootstrap
@@ -45,23 +46,24 @@ export function collectDiagnostics(
     dependencies: [...deps],
   })) as ProviderEntry[];
 
-  // Detect duplicate routes: same method+path more than once
-  const routeMap = new Map<string, number>();
-  for (const route of routes) {
-    const key = `${route.method}:${route.path}`;
-    routeMap.set(key, (routeMap.get(key) ?? 0) + 1);
+  // Detect duplicate routes: same method+path more than once. Routes serving
+  // different API versions may share a method+path, so each version counts
+  // on its own; one serving no version is counted once.
+  const routeMap = new Map<string, DuplicateRoute>();
+  for (const route of graph.routes) {
+    for (const version of route.metadata?.versions ?? [undefined]) {
+      const key = `${route.method}:${route.path}@${version ?? ''}`;
+      const seen = routeMap.get(key);
+      routeMap.set(key, {
+        method: route.method,
+        path: route.path,
+        count: (seen?.count ?? 0) + 1,
+        ...(version !== undefined && { version }),
+      });
+    }
   }
 
-  const duplicateRoutes = Array.from(routeMap.entries())
-    .filter(([_key, count]) => count > 1)
-    .map(([key, count]) => {
-      const [method, ...pathParts] = key.split(':');
-      return {
-        method,
-        path: pathParts.join(':'),
-        count,
-      };
-    }) as DuplicateRoute[];
+  const duplicateRoutes = Array.from(routeMap.values()).filter((route) => route.count > 1);
 
   // Detect circular dependencies via DFS
   const circularDependencies = detectCircularDependencies(graph.providers);
@@ -69,6 +71,8 @@ export function collectDiagnostics(
   return {
     routes: Object.freeze(routes),
     providers: Object.freeze(providers),
+    // Already deep-frozen with the graph
+    globals: graph.globals,
     duplicateRoutes: Object.freeze(duplicateRoutes),
     circularDependencies: Object.freeze(circularDependencies),
     timings: Object.freeze(timings),
@@ -9,6 +9,7 @@ export type {
   CircularDependency,
   DiagnosticsReport,
   DuplicateRoute,
+  GlobalsEntry,
   ProviderEntry,
   RouteEntry,
   TimingEntry,
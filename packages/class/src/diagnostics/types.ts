@@ -2,8 +2,8 @@
  * Diagnostics Report Types
  *
  * Opt-in diagnostics for @nextrush/class that capture ApplicationGraph IR
- * metadata (routes, providers, duplicates, cycles, timings) for introspection
- * and debugging.
+ * metadata (routes, providers, globals, duplicates, cycles, timings) for
+ * introspection and debugging.
  *
  * Zero-cost when disabled: no timing measurement, no report collection,
  * no WeakMap storage when diagnostics: false (default).
@@ -45,6 +45,21 @@ export interface ProviderEntry {
   readonly dependencies: (Function | Symbol)[];
 }
 
+/**
+ * The global guards, interceptors and filters applied to every route, in
+ * the order they run (filters: the order they are consulted).
+ */
+export interface GlobalsEntry {
+  /** Guard functions and classes */
+  readonly guards: ReadonlyArray<Function>;
+
+  /** Interceptor classes, outermost first */
+  readonly interceptors: ReadonlyArray<Function>;
+
+  /** Exception filter classes */
+  readonly filters: ReadonlyArray<Function>;
+}
+
 /**
  * A duplicate route flagged during detection.
  */
@@ -57,6 +72,9 @@ export interface DuplicateRoute {
 
   /** Number of controllers registering this route */
   readonly count: number;
+
+  /** API version the routes share, when they declare versions */
+  readonly version?: string;
 }
 
 /**
@@ -70,7 +88,7 @@ export interface CircularDependency {
 /**
  * Diagnostics Report
  *
- * Captures ApplicationGraph IR state (routes, providers, duplicates, cycles)
+ * Captures ApplicationGraph IR state (routes, providers, globals, duplicates, cycles)
  * and bootstrap timings. Populated by collectDiagnostics() when
  * options.diagnostics === true.
  */
@@ -81,6 +99,9 @@ export interface DiagnosticsReport {
   /** All providers in the DI graph */
   readonly providers: ReadonlyArray<ProviderEntry>;
 
+  /** Guards, interceptors and filters registered for every route */
+  readonly globals: GlobalsEntry;
+
   /** Routes registered more than once (method + path collision) */
   readonly duplicateRoutes: ReadonlyArray<DuplicateRoute>;
 
@@ -10,8 +10,9 @@
 
 import type { ExceptionFilter, ExceptionFilterClass } from './filter-types.js';
 import { getCatchTypes } from './filters.js';
-import type { Container } from '@nextrush/di';
+import type { Container, Token } from '@nextrush/di';
 import type { Context, Next, RouteHandler } from '@nextrush/types';
+import type { ExecutionContext } from '../runtime/execution-context.js';
 
 /**
  * Whether a filter's `@Catch` types match a thrown error.
@@ -33,8 +34,8 @@ function filterMatches(catchTypes: readonly Function[], error: unknown): boolean
  *
  * Filters are walked in the precedence order supplied by the caller
  * (method-level first, then class-level). The first filter whose `@Catch`
- * types match is resolved from the DI container and its `catch(error, ctx)`
- * sets the response.
+ * types match is resolved from the DI container and its
+ * `catch(error, ctx, context)` sets the response.
  *
  * @returns `true` if a filter handled the error; `false` if none matched (the
  *   caller must rethrow so the global error middleware still runs).
@@ -43,15 +44,16 @@ export async function applyFilters(
   filters: readonly ExceptionFilterClass[],
   error: unknown,
   ctx: Context,
-  container: Container
+  container: Container,
+  context: ExecutionContext
 ): Promise<boolean> {
   for (const filter of filters) {
     if (!filterMatches(getCatchTypes(filter), error)) {
       continue;
     }
 
-    const instance = container.resolve(filter) as ExceptionFilter;
-    await instance.catch(error, ctx);
+    const instance = container.resolve(filter as Token<ExceptionFilter>);
+    await instance.catch(error, ctx, context);
     return true;
   }
 
@@ -68,13 +70,14 @@ export async function applyFilters(
 export function wrapWithFilters(
   execute: RouteHandler,
   filters: readonly ExceptionFilterClass[],
-  container: Container
+  container: Container,
+  context: ExecutionContext
 ): RouteHandler {
   return async (ctx: Context, next: Next): Promise<void> => {
     try {
       await execute(ctx, next);
     } catch (error) {
-      const handled = await applyFilters(filters, error, ctx, container);
+      const handled = await applyFilters(filters, error, ctx, container, context);
       if (!handled) {
         throw error;
       }
@@ -8,14 +8,16 @@
 import type { Context } from '@nextrush/types';
 
 import type { Constructor } from '../guards/guard-types.js';
+import type { ExecutionContext } from '../runtime/execution-context.js';
 
 /**
  * Interface for class-based exception filters with dependency injection support.
  *
  * A filter catches errors thrown by a controller route (guards, parameter
  * resolution, or the handler method) and produces the response by mutating
- * `ctx` (status, headers, body). Filters are resolved from the DI container,
- * so they may inject services (loggers, metrics, error mappers).
+ * `ctx` (status, headers, body); `context` says which controller route threw.
+ * Filters are resolved from the DI container, so they may inject services
+ * (loggers, metrics, error mappers).
  *
  * Which errors a filter handles is declared with {@link Catch}. A filter is
  * only invoked when attached to a controller/route via {@link UseFilter}.
@@ -38,7 +40,7 @@ import type { Constructor } from '../guards/guard-types.js';
  * ```
  */
 export interface ExceptionFilter {
-  catch(error: unknown, ctx: Context): void | Promise<void>;
+  catch(error: unknown, ctx: Context, context: ExecutionContext): void | Promise<void>;
 }
 
 /**
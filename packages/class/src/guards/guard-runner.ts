@@ -7,9 +7,11 @@
 
 import type { CanActivate, Guard, GuardContext } from './guard-types.js';
 import { isGuardClass } from './guards.js';
-import type { Container } from '@nextrush/di';
+import type { Container, Token } from '@nextrush/di';
 import type { Context } from '@nextrush/types';
 import { GuardRejectionError } from '../errors.js';
+import type { ExecutionContext } from '../runtime/execution-context.js';
+import { getRequestTracer } from '../runtime/tracing.js';
 
 /**
  * Execute guards and throw if any guard rejects.
@@ -29,6 +31,8 @@ import { GuardRejectionError } from '../errors.js';
  *   mutated `ctx` after this snapshot the guard would not observe it. Guards run
  *   before the handler, so this is not currently exploitable — but attach forward
  *   state via `state`, never by mutating the snapshotted fields.
+ * - `controller`, `handlerName`, and `route` come from the route's
+ *   {@link ExecutionContext}, so a guard can read the route's metadata.
  *
  * Rejection semantics:
  * - A guard that returns `false` throws {@link GuardRejectionError} (403).
@@ -36,15 +40,19 @@ import { GuardRejectionError } from '../errors.js';
  *   `UnauthorizedError` (401) — or any other `HttpError` — and get the correct
  *   status and message. Errors are never swallowed or downgraded to a generic
  *   403; a bug in a guard surfaces as its real error rather than a masked 403.
+ *
+ * When the request is traced, each guard runs in a `guard` span of its own.
  */
 export async function executeGuards(
   guards: Guard[],
   ctx: Context,
   container: Container,
-  _controllerName: string,
-  _methodName: string
+  context: ExecutionContext
 ): Promise<void> {
   const guardContext: GuardContext = {
+    controller: context.controller,
+    handlerName: context.handlerName,
+    route: context.route,
     method: ctx.method,
     path: ctx.path,
     params: ctx.params,
@@ -53,26 +61,32 @@ export async function executeGuards(
     body: ctx.body,
     state: ctx.state,
     get: (name: string) => ctx.get(name),
+    set: (name: string, value: string) => {
+      ctx.set(name, value);
+    },
   };
 
+  const tracer = getRequestTracer(ctx);
+
   for (let i = 0; i < guards.length; i++) {
     const guard = guards[i]!;
     let guardName: string;
-    let result: boolean;
+    let check: () => boolean | Promise<boolean>;
 
     // A thrown guard error propagates unchanged (no try/catch conversion), so
     // typed HTTP errors keep their status/message/stack.
     if (isGuardClass(guard)) {
       // Class-based guard - resolve from DI container
       guardName = guard.name || `ClassGuard[${i}]`;
-      const guardInstance = container.resolve(guard) as CanActivate;
-      result = await guardInstance.canActivate(guardContext);
+      check = () => container.resolve(guard as Token<CanActivate>).canActivate(guardContext);
     } else {
       // Function-based guard
       guardName = guard.name || `Guard[${i}]`;
-      result = await guard(guardContext);
+      check = () => guard(guardContext);
     }
 
+    const result = tracer ? await tracer.step('guard', guardName, check) : await check();
+
     if (!result) {
       throw new GuardRejectionError(guardName);
     }
@@ -6,15 +6,23 @@
  * generic Constructor primitive shared with exception-filter types.
  */
 
+import type { ExecutionContext } from '../runtime/execution-context.js';
+
 /**
- * Constructor type for class-based guards
+ * Constructor type for class-based guards. Any constructor signature is
+ * accepted — a guard's constructor parameters are injected by the DI
+ * container, never passed by the caller.
  */
-export type Constructor<T = unknown> = new (...args: unknown[]) => T;
+export type Constructor<T = unknown> = new (...args: never[]) => T;
 
 /**
- * Minimal context interface for guards (avoids circular dependency)
+ * Minimal context interface for guards (avoids circular dependency).
+ *
+ * Besides the request fields it carries the guard's {@link ExecutionContext}
+ * — `controller`, `handlerName` and `route` — so one guard can read the
+ * metadata of whichever route it protects through a {@link Reflector}.
  */
-export interface GuardContext {
+export interface GuardContext extends ExecutionContext {
   readonly method: string;
   readonly path: string;
   readonly params: Record<string, string>;
@@ -23,6 +31,8 @@ export interface GuardContext {
   readonly body: unknown;
   readonly state: Record<string, unknown>;
   get(name: string): string | undefined;
+  /** Set a response header — e.g. a `WWW-Authenticate` challenge before a 401. */
+  set(name: string, value: string): void;
 }
 
 /**
@@ -28,6 +28,7 @@ export type {
   CustomParamExtractor,
   ExceptionFilter,
   ExceptionFilterClass,
+  ExecutionContext,
   FilterMetadata,
   Guard,
   GuardContext,
@@ -37,6 +38,8 @@ export type {
   Interceptor,
   InterceptorClass,
   InterceptorMetadata,
+  MetadataDecorator,
+  MetadataKey,
   MiddlewareRef,
   ParamMetadata,
   ParamOptions,
@@ -78,8 +81,12 @@ export type {
 
 // Response Decorators
 export { HttpCode } from './decorators/http-code.js';
+export { Timeout } from './decorators/timeout.js';
 export { Redirect, SetHeader } from './decorators/response-decorators.js';
 
+// Documentation Decorators
+export { ApiResponse, Summary, Tags } from './decorators/docs.js';
+
 // Route Decorators
 export {
   All,
@@ -97,6 +104,7 @@ export { Body, Ctx, Header, Param, Query, Req, Res, createCustomParamDecorator }
 
 // Guard Decorators
 export { UseGuard, getAllGuards, getClassGuards, getMethodGuards } from './guards/guards.js';
+export { Authenticated, Roles } from './decorators/auth.js';
 
 // Exception Filter Decorators
 export {
@@ -116,6 +124,10 @@ export {
   getMethodInterceptors,
 } from './interceptors/interceptors.js';
 
+// Custom Metadata
+export { SetMetadata, createMetadataDecorator } from './metadata/custom-metadata.js';
+export { Reflector } from './metadata/reflector.js';
+
 // Metadata Readers
 export type { ControllerDefinition } from './metadata/metadata.js';
 
@@ -164,6 +176,7 @@ export type {
   CircularDependency,
   DiagnosticsReport,
   DuplicateRoute,
+  GlobalsEntry,
   ProviderEntry,
   RouteEntry,
   TimingEntry,
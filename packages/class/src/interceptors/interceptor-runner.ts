@@ -10,11 +10,16 @@
  * may wrap `next()` in try/catch to observe or recover from handler errors. An
  * error an interceptor does not handle propagates out — so exception filters,
  * which wrap the whole handler, can still catch it.
+ *
+ * On a traced request each interceptor layer is an `interceptor` span, and the
+ * spans nest the way the layers do.
  */
 
 import type { Interceptor, InterceptorClass } from './interceptor-types.js';
-import type { Container } from '@nextrush/di';
+import type { Container, Token } from '@nextrush/di';
 import type { Context } from '@nextrush/types';
+import type { ExecutionContext } from '../runtime/execution-context.js';
+import { getRequestTracer } from '../runtime/tracing.js';
 
 /**
  * Run the controller method wrapped in the interceptor onion.
@@ -32,20 +37,23 @@ export async function runInterceptors(
   interceptors: readonly InterceptorClass[],
   ctx: Context,
   container: Container,
-  invokeMethod: () => Promise<unknown>
+  invokeMethod: () => Promise<unknown>,
+  context: ExecutionContext
 ): Promise<unknown> {
   // Fold from the innermost layer outward: the last interceptor wraps the
   // method call, and each earlier interceptor wraps the layer built so far, so
   // interceptors[0] (a class interceptor) ends up outermost.
+  const tracer = getRequestTracer(ctx);
   let next = invokeMethod;
 
   for (let i = interceptors.length - 1; i >= 0; i--) {
     const interceptorClass = interceptors[i]!;
     const downstream = next;
-    next = () => {
-      const instance = container.resolve(interceptorClass) as Interceptor;
-      return instance.intercept(ctx, downstream);
+    const layer = (): Promise<unknown> => {
+      const instance = container.resolve(interceptorClass as Token<Interceptor>);
+      return instance.intercept(ctx, downstream, context);
     };
+    next = tracer ? () => tracer.step('interceptor', interceptorClass.name, layer) : layer;
   }
 
   return next();
@@ -14,6 +14,7 @@
 import type { Context } from '@nextrush/types';
 
 import type { Constructor } from '../guards/guard-types.js';
+import type { ExecutionContext } from '../runtime/execution-context.js';
 
 /**
  * Interface for class-based interceptors with dependency injection support.
@@ -24,6 +25,7 @@ import type { Constructor } from '../guards/guard-types.js';
  * return becomes the result — return `next()`'s value unchanged to pass through,
  * or return a different value to transform the response. Wrap `next()` in
  * try/catch to observe or recover from handler errors; rethrow to propagate.
+ * The third argument names the controller and handler being intercepted.
  *
  * @example
  * ```typescript
@@ -41,7 +43,11 @@ import type { Constructor } from '../guards/guard-types.js';
  * ```
  */
 export interface Interceptor {
-  intercept(ctx: Context, next: () => Promise<unknown>): Promise<unknown>;
+  intercept(
+    ctx: Context,
+    next: () => Promise<unknown>,
+    context: ExecutionContext
+  ): Promise<unknown>;
 }
 
 /**
@@ -115,6 +115,9 @@ export function registerLifecycleExtension(
 
   app.extend({
     name: `${CONTROLLERS_LIFECYCLE_EXTENSION}#${++lifecycleRegistrationCount}`,
+    // @nextrush/config assigns loaded values onto @Config instances in its
+    // setup(); onInit() hooks that read them must run after it.
+    optionalNeeds: ['config'],
     async setup(): Promise<void> {
       for (const instance of instances) {
         if (isOnInit(instance)) {
@@ -0,0 +1,103 @@
+/**
+ * @nextrush/class - Custom Metadata Decorators
+ *
+ * `SetMetadata` and `createMetadataDecorator` attach application-defined
+ * values to a controller class or handler method, for guards, interceptors
+ * and filters to read back through the {@link Reflector}.
+ */
+
+import { defineMetadata } from '../reflection/reflection.js';
+
+/**
+ * A decorator made by {@link createMetadataDecorator}: call it with a value
+ * to decorate a class or method, or hand it to the {@link Reflector} to read
+ * that value back.
+ */
+export interface MetadataDecorator<T> {
+  (value: T): ClassDecorator & MethodDecorator;
+
+  /** The unique key the value is stored under. */
+  readonly key: symbol;
+}
+
+/**
+ * What the {@link Reflector} reads by: the key given to {@link SetMetadata},
+ * or a {@link MetadataDecorator}.
+ */
+export type MetadataKey<T = unknown> = string | symbol | MetadataDecorator<T>;
+
+/**
+ * Attach `value` under `key` to a controller class or a handler method.
+ *
+ * A class-level value applies to every route of the controller; a
+ * method-level value to that route. The {@link Reflector} decides how the two
+ * combine. Applying the same key twice at one level keeps the last value.
+ *
+ * @example
+ * ```typescript
+ * @Controller('/reports')
+ * @SetMetadata('permissions', ['reports:read'])
+ * class ReportController {
+ *   @Delete('/:id')
+ *   @SetMetadata('permissions', ['reports:delete'])
+ *   remove(@Param('id') id: string) {}
+ * }
+ * ```
+ */
+export function SetMetadata(
+  key: string | symbol,
+  value: unknown
+): ClassDecorator & MethodDecorator {
+  return function setMetadataDecorator(
+    target: object | Function,
+    propertyKey?: string | symbol,
+    descriptor?: PropertyDescriptor
+  ): void {
+    if (propertyKey !== undefined && descriptor !== undefined) {
+      // Method decorator - store on the method, keyed by the class
+      defineMetadata(key, value, target.constructor, propertyKey);
+    } else {
+      defineMetadata(key, value, target);
+    }
+  };
+}
+
+/**
+ * Create a typed metadata decorator with a key of its own.
+ *
+ * Preferred over {@link SetMetadata} with a string key: the value is typed,
+ * and no other decorator can collide with the key.
+ *
+ * @param description - Shown as the key's symbol description, for debugging.
+ *
+ * @example
+ * ```typescript
+ * export const Permissions = createMetadataDecorator<string[]>('permissions');
+ *
+ * @Service()
+ * class PermissionsGuard implements CanActivate {
+ *   constructor(private readonly reflector: Reflector) {}
+ *
+ *   canActivate(ctx: GuardContext): boolean {
+ *     const required = this.reflector.getAllAndMerge(Permissions, ctx) ?? [];
+ *     const granted = (ctx.state.user as User | undefined)?.permissions ?? [];
+ *     return required.every((permission) => granted.includes(permission));
+ *   }
+ * }
+ *
+ * @Controller('/reports')
+ * @UseGuard(PermissionsGuard)
+ * class ReportController {
+ *   @Delete('/:id')
+ *   @Permissions(['reports:delete'])
+ *   remove(@Param('id') id: string) {}
+ * }
+ * ```
+ */
+export function createMetadataDecorator<T>(
+  description = 'nextrush:metadata'
+): MetadataDecorator<T> {
+  const key = Symbol(description);
+  const decorator = (value: T): ClassDecorator & MethodDecorator => SetMetadata(key, value);
+  return Object.assign(decorator, { key });
+}
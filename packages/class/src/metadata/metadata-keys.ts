@@ -26,6 +26,11 @@ export const DECORATOR_METADATA_KEYS = {
   RESPONSE_HEADERS: Symbol.for('nextrush:response-headers'),
   REDIRECT: Symbol.for('nextrush:redirect'),
   HTTP_CODE: Symbol.for('nextrush:http-code'),
+  TIMEOUT: Symbol.for('nextrush:timeout'),
+  ROLES: Symbol.for('nextrush:roles'),
+  API_RESPONSES: Symbol.for('nextrush:api-responses'),
+  SUMMARY: Symbol.for('nextrush:summary'),
+  TAGS: Symbol.for('nextrush:tags'),
 } as const;
 
 /**
@@ -0,0 +1,85 @@
+/**
+ * @nextrush/class - Reflector
+ *
+ * Reads the values `SetMetadata` and `createMetadataDecorator` attached to a
+ * controller class and its handler methods, and combines the two levels.
+ */
+
+import { Service } from '@nextrush/di';
+import type { ExecutionContext } from '../runtime/execution-context.js';
+import { getMetadata } from '../reflection/reflection.js';
+import type { MetadataKey } from './custom-metadata.js';
+
+function storageKey<T>(key: MetadataKey<T>): string | symbol {
+  return typeof key === 'function' ? key.key : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value) as unknown;
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Reads custom route metadata for guards, interceptors and filters.
+ *
+ * A singleton service: inject it through the constructor of any DI-resolved
+ * guard, interceptor or filter, or resolve it from the container. Metadata is
+ * inherited — a subclass controller sees its parent's class- and
+ * method-level values unless it sets its own.
+ *
+ * @example
+ * ```typescript
+ * const Public = createMetadataDecorator<boolean>('public');
+ *
+ * @Service()
+ * class SessionGuard implements CanActivate {
+ *   constructor(private readonly reflector: Reflector) {}
+ *
+ *   canActivate(ctx: GuardContext): boolean {
+ *     if (this.reflector.getAllAndOverride(Public, ctx)) return true;
+ *     return ctx.state.user !== undefined;
+ *   }
+ * }
+ * ```
+ */
+export class Reflector {
+  /**
+   * The value stored under `key` on the controller class, or — with
+   * `handlerName` — on that handler method alone.
+   */
+  get<T>(key: MetadataKey<T>, controller: Function, handlerName?: string | symbol): T | undefined {
+    return getMetadata<T>(storageKey(key), controller, handlerName);
+  }
+
+  /** The method-level value if there is one, otherwise the class-level value. */
+  getAllAndOverride<T>(key: MetadataKey<T>, context: ExecutionContext): T | undefined {
+    return (
+      this.get(key, context.controller, context.handlerName) ?? this.get(key, context.controller)
+    );
+  }
+
+  /**
+   * The class- and method-level values combined: arrays are concatenated
+   * (class values first), plain objects are merged with method keys winning,
+   * and any other value falls back to {@link getAllAndOverride}.
+   */
+  getAllAndMerge<T>(key: MetadataKey<T>, context: ExecutionContext): T | undefined {
+    const onClass = this.get(key, context.controller);
+    const onMethod = this.get(key, context.controller, context.handlerName);
+
+    if (onClass === undefined) return onMethod;
+    if (onMethod === undefined) return onClass;
+    if (Array.isArray(onClass) && Array.isArray(onMethod)) {
+      return [...(onClass as unknown[]), ...(onMethod as unknown[])] as T;
+    }
+    if (isPlainObject(onClass) && isPlainObject(onMethod)) {
+      return { ...onClass, ...onMethod };
+    }
+    return onMethod;
+  }
+}
+
+// Registered the way @Service() registers application services, so
+// constructor injection finds one shared instance in any container.
+Service()(Reflector);
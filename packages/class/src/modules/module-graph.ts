@@ -8,6 +8,7 @@
 
 import { getModuleMetadata, isModule } from './module.js';
 import { NotAModuleError } from '../errors.js';
+import type { GlobalEnhancers } from '../runtime/global-enhancers.js';
 
 /**
  * Collect the full module graph reachable from `root` via `imports`.
@@ -76,3 +77,22 @@ export function collectModuleControllers(modules: Function[]): Function[] {
 
   return controllers;
 }
+
+/**
+ * Collect the global guards, interceptors and filters declared across an
+ * ordered module list.
+ *
+ * Modules are read in reverse graph order, so an importer's entries come before
+ * those of the modules it imports and the root module's come first. An entry
+ * declared by more than one module is kept once, at its first position.
+ */
+export function collectModuleGlobals(modules: Function[]): GlobalEnhancers {
+  const unique = <T>(entries: T[]): T[] => [...new Set(entries)];
+  const declared = [...modules].reverse().map((mod) => getModuleMetadata(mod));
+
+  return {
+    guards: unique(declared.flatMap((metadata) => metadata?.guards ?? [])),
+    interceptors: unique(declared.flatMap((metadata) => metadata?.interceptors ?? [])),
+    filters: unique(declared.flatMap((metadata) => metadata?.filters ?? [])),
+  };
+}
@@ -32,7 +32,11 @@ import {
   type Constructor,
   type Container,
 } from '@nextrush/di';
-import { collectModuleControllers, collectModuleGraph } from './module-graph.js';
+import {
+  collectModuleControllers,
+  collectModuleGlobals,
+  collectModuleGraph,
+} from './module-graph.js';
 import { registerControllers } from '../registrar/registrar.js';
 import type { ControllersOptions } from '../registrar/registrar-types.js';
 
@@ -43,7 +47,16 @@ import type { ControllersOptions } from '../registrar/registrar-types.js';
  */
 export type ModuleRegistrationOptions = Pick<
   ControllersOptions,
-  'prefix' | 'middleware' | 'container' | 'isolate' | 'validate' | 'debug'
+  | 'prefix'
+  | 'middleware'
+  | 'guards'
+  | 'interceptors'
+  | 'filters'
+  | 'container'
+  | 'isolate'
+  | 'validate'
+  | 'debug'
+  | 'diagnostics'
 >;
 
 /**
@@ -56,6 +69,10 @@ export type ModuleRegistrationOptions = Pick<
  * container is passed explicitly so it wins inside `registerControllers` even
  * under `isolate: true`, keeping providers and controllers on one container.
  *
+ * Global guards, interceptors and filters declared on modules apply to every
+ * route of the graph. They follow the ones given in `options`, root module
+ * first, then imported modules — an importer's before its imports'.
+ *
  * @param app - The application (must have a router — use `createApp()`).
  * @param rootModule - The root `@Module` class.
  * @param options - Registration options (prefix, middleware, container, etc.).
@@ -80,8 +97,16 @@ export async function registerModule(
   }
 
   const controllers = collectModuleControllers(modules);
+  const globals = collectModuleGlobals(modules);
 
-  await registerControllers(app, { ...options, container, controllers });
+  await registerControllers(app, {
+    ...options,
+    container,
+    controllers,
+    guards: [...(options.guards ?? []), ...globals.guards],
+    interceptors: [...(options.interceptors ?? []), ...globals.interceptors],
+    filters: [...(options.filters ?? []), ...globals.filters],
+  });
 }
 
 /**
@@ -8,6 +8,9 @@
  */
 
 import type { Constructor, Scope, Token } from '@nextrush/di';
+import type { ExceptionFilterClass } from '../filters/filter-types.js';
+import type { Guard } from '../guards/guard-types.js';
+import type { InterceptorClass } from '../interceptors/interceptor-types.js';
 
 /**
  * A provider config: register `provide` using one of `useClass` / `useValue` /
@@ -65,6 +68,18 @@ export interface ModuleOptions {
    * per-module encapsulation; not enforced yet (see RFC-NEXTRUSH-MODULES §5).
    */
   exports?: Function[];
+
+  /**
+   * Guards applied to every route of the registered application, not only
+   * this module's controllers. See {@link registerModule} for their order.
+   */
+  guards?: Guard[];
+
+  /** Interceptors applied to every route of the registered application. */
+  interceptors?: InterceptorClass[];
+
+  /** Exception filters applied to every route of the registered application. */
+  filters?: ExceptionFilterClass[];
 }
 
 /**
@@ -76,4 +91,7 @@ export interface ModuleMetadata {
   readonly controllers: Function[];
   readonly providers: ModuleProvider[];
   readonly exports: Function[];
+  readonly guards: Guard[];
+  readonly interceptors: InterceptorClass[];
+  readonly filters: ExceptionFilterClass[];
 }
@@ -2,9 +2,10 @@
  * @nextrush/class - Module Decorator
  *
  * `@Module` records a feature's composition — its imported modules, controllers,
- * providers, and exports — as reflect-metadata. It is a grouping/composition
- * unit; the `@nextrush/class` `registerModule` registrar reads this
- * metadata to wire the whole module graph in one call.
+ * providers, exports, and application-wide guards, interceptors and filters —
+ * as reflect-metadata. It is a grouping/composition unit; the
+ * `@nextrush/class` `registerModule` registrar reads this metadata to wire the
+ * whole module graph in one call.
  *
  * This layer stores metadata only. Provider registration, route building, and
  * (future) encapsulation live in the controllers layer — see
@@ -19,7 +20,8 @@ import type { ModuleMetadata, ModuleOptions } from './module-types.js';
 /**
  * Marks a class as a NextRush module.
  *
- * @param options - The module's imports, controllers, providers, and exports.
+ * @param options - The module's imports, controllers, providers, exports, and
+ *   global guards, interceptors and filters.
  * @returns Class decorator
  *
  * @example
@@ -40,6 +42,9 @@ export function Module(options: ModuleOptions = {}): ClassDecorator {
       controllers: [...(options.controllers ?? [])],
       providers: [...(options.providers ?? [])],
       exports: [...(options.exports ?? [])],
+      guards: [...(options.guards ?? [])],
+      interceptors: [...(options.interceptors ?? [])],
+      filters: [...(options.filters ?? [])],
     };
 
     defineMetadata(DECORATOR_METADATA_KEYS.MODULE, metadata, target);
@@ -79,5 +84,8 @@ export function getModuleMetadata(target: Function): ModuleMetadata | undefined
     controllers: [...meta.controllers],
     providers: [...meta.providers],
     exports: [...meta.exports],
+    guards: [...meta.guards],
+    interceptors: [...meta.interceptors],
+    filters: [...meta.filters],
   };
 }
@@ -10,10 +10,16 @@ import type {
   ControllerMetadata,
   ControllerRouteMetadata,
   MiddlewareRef,
+  ParamMetadata,
 } from '../types.js';
 import type { ControllerDefinition } from '../metadata/metadata.js';
 import type { Container } from '@nextrush/di';
-import type { MetadataContribution, Middleware } from '@nextrush/types';
+import { ROUTE_METADATA, type MetadataContribution, type Middleware } from '@nextrush/types';
+import { buildRequestSchemas } from '../binding/request-schemas.js';
+import { getApiResponses, getSummary, getTags } from '../decorators/docs.js';
+import { getTimeoutMiddleware } from '../decorators/timeout.js';
+import { getAllGuards } from '../guards/guards.js';
+import { NO_GLOBAL_ENHANCERS, type GlobalEnhancers } from '../runtime/global-enhancers.js';
 import { createRouteHandler } from '../runtime/handler.js';
 import type { BuiltRoute } from './registrar-types.js';
 
@@ -50,6 +56,11 @@ function resolveMiddlewareRefs(refs: MiddlewareRef[], container: Container): Mid
  *   class). Handlers read-or-populate it so a controller singleton is resolved
  *   exactly once across boot-time validation and all requests. Defaults to a
  *   fresh per-call map when omitted (standalone use), preserving lazy resolution.
+ * @param globals - Registration-wide guards, interceptors and filters applied
+ *   to every route alongside the controller's own.
+ * @param versionByRouter - Whether the router applies a versioning strategy.
+ *   If so, a route declares its versions in its metadata and keeps its path;
+ *   otherwise it is registered once per version under `/<version>`.
  */
 export function buildRoutes(
   definition: ControllerDefinition,
@@ -57,65 +68,134 @@ export function buildRoutes(
   globalPrefix: string,
   globalMiddleware: Middleware[],
   instanceCache: Map<Function, unknown> = new Map(),
-  isRequestScoped = false
+  isRequestScoped = false,
+  globals: GlobalEnhancers = NO_GLOBAL_ENHANCERS,
+  versionByRouter = false
 ): BuiltRoute[] {
   const routes: BuiltRoute[] = [];
-  const { target, controller, routes: routeMetadata } = definition;
+  const { target, controller, routes: routeMetadata, params } = definition;
 
   for (const route of routeMetadata) {
-    const handler = createRouteHandler(target, route, container, instanceCache, isRequestScoped);
-    const fullPath = buildFullRoutePath(
-      globalPrefix,
-      controller.path,
-      route.path,
-      controller.version
+    const handler = createRouteHandler(
+      target,
+      route,
+      container,
+      instanceCache,
+      isRequestScoped,
+      globals
     );
-
+    const versions = toVersionList(route.version ?? controller.version);
+    // A @Timeout() deadline runs first, so it covers everything the route does.
+    const deadline = getTimeoutMiddleware(target, route.methodName);
     const combinedMiddleware: Middleware[] = [
+      ...(deadline ? [deadline] : []),
       ...globalMiddleware,
       ...resolveMiddlewareRefs(controller.middleware ?? [], container),
       ...resolveMiddlewareRefs(route.middleware ?? [], container),
     ];
 
-    routes.push({
-      method: route.method,
-      path: fullPath,
-      handler,
-      middleware: combinedMiddleware,
-      controller: target,
-      methodName: String(route.methodName),
-      metadata: toRouteMetaContribution(controller, route),
-    });
+    const routeParams = params.get(String(route.methodName)) ?? [];
+    const variants: readonly (readonly string[])[] =
+      versionByRouter || versions.length === 0 ? [versions] : versions.map((v) => [v]);
+
+    for (const variant of variants) {
+      const pathVersion = versionByRouter ? undefined : variant[0];
+      routes.push({
+        method: route.method,
+        path: buildFullRoutePath(globalPrefix, controller.path, route.path, pathVersion),
+        handler,
+        middleware: combinedMiddleware,
+        controller: target,
+        methodName: String(route.methodName),
+        metadata: toRouteMetaContribution(
+          target,
+          controller,
+          route,
+          routeParams,
+          globals.guards,
+          variant
+        ),
+      });
+    }
   }
 
   return routes;
 }
 
+/** Normalize a `version` option to a list, dropping empty entries. */
+function toVersionList(version: string | readonly string[] | undefined): readonly string[] {
+  if (version === undefined) return [];
+  return (typeof version === 'string' ? [version] : version).filter((v) => v !== '');
+}
+
 /**
  * Map decorator documentation to a route metadata contribution.
  *
- * Pulls `description`/`deprecated` from the route decorator and `tags` from the
- * controller decorator. Returns `undefined` when the route carries no docs, so
- * undocumented routes stay metadata-free rather than gaining empty entries.
+ * Pulls `description`/`deprecated`/`name` from the route decorator, `tags`
+ * from the controller decorator and `@Tags()`, `summary` and `responses` from
+ * `@Summary()` and `@ApiResponse()`, `request` from the schemas of the
+ * handler's parameters, `versions` from the route or controller `version`,
+ * and `security` from the last guard that
+ * contributes one (an `@Authenticated()` guard) — global guards first, so a
+ * route's own guard overrides a global one. Returns `undefined` when the
+ * route carries no docs, so undocumented routes stay metadata-free rather than
+ * gaining empty entries.
  */
 function toRouteMetaContribution(
+  target: ControllerDefinition['target'],
   controller: ControllerMetadata,
-  route: ControllerRouteMetadata
+  route: ControllerRouteMetadata,
+  params: readonly ParamMetadata[],
+  globalGuards: GlobalEnhancers['guards'],
+  versions: readonly string[] = []
 ): MetadataContribution | undefined {
   const contribution: {
+    request?: MetadataContribution['request'];
+    responses?: MetadataContribution['responses'];
+    summary?: string;
     description?: string;
     deprecated?: boolean;
+    name?: string;
     tags?: string[];
+    versions?: readonly string[];
+    security?: MetadataContribution['security'];
   } = {};
 
+  const request = buildRequestSchemas(params);
+  if (request) {
+    contribution.request = request;
+  }
+  const responses = getApiResponses(target, route.methodName);
+  if (responses) {
+    contribution.responses = responses;
+  }
+  const summary = getSummary(target, route.methodName);
+  if (summary !== undefined) {
+    contribution.summary = summary;
+  }
+
   if (route.description) {
     contribution.description = route.description;
   }
   if (route.deprecated) {
     contribution.deprecated = true;
   }
-  if (controller.tags && controller.tags.length > 0) {
-    contribution.tags = [...controller.tags];
+  if (route.name !== undefined) {
+    contribution.name = route.name;
+  }
+  const tags = new Set([...(controller.tags ?? []), ...getTags(target, route.methodName)]);
+  if (tags.size > 0) {
+    contribution.tags = [...tags];
+  }
+  if (versions.length > 0) {
+    contribution.versions = versions;
+  }
+  for (const guard of [...globalGuards, ...getAllGuards(target, route.methodName)]) {
+    const security = (guard as { [ROUTE_METADATA]?: MetadataContribution })[ROUTE_METADATA]
+      ?.security;
+    if (security) {
+      contribution.security = security;
+    }
   }
 
   return Object.keys(contribution).length > 0 ? contribution : undefined;
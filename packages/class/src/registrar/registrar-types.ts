@@ -9,6 +9,10 @@ import type { Container } from '@nextrush/di';
 import type { MetadataContribution, Middleware, RouteHandler } from '@nextrush/types';
 import type { DiscoveryError } from '../errors.js';
 import type { DiscoverySource } from '../discovery/source.js';
+import type { ExceptionFilterClass } from '../filters/filter-types.js';
+import type { Guard } from '../guards/guard-types.js';
+import type { InterceptorClass } from '../interceptors/interceptor-types.js';
+import type { GlobalEnhancers } from '../runtime/global-enhancers.js';
 
 /**
  * Options for the controllers registrar
@@ -113,6 +117,24 @@ export interface ControllersOptions {
    */
   middleware?: Middleware[];
 
+  /**
+   * Guards applied to every route, before the controller's and method's own
+   * `@UseGuard` guards. Class guards are resolved from the DI container.
+   */
+  guards?: Guard[];
+
+  /**
+   * Interceptors applied to every route, wrapping the controller's and
+   * method's own `@UseInterceptor` interceptors (the first one outermost).
+   */
+  interceptors?: InterceptorClass[];
+
+  /**
+   * Exception filters applied to every route, consulted after the method's
+   * and controller's own `@UseFilter` filters found no match.
+   */
+  filters?: ExceptionFilterClass[];
+
   /**
    * Whether to enable debug logging
    * @default false
@@ -165,6 +187,7 @@ export interface ResolvedOptions {
   readonly controllers: Function[];
   readonly container: Container;
   readonly middleware: Middleware[];
+  readonly globals: GlobalEnhancers;
   readonly debug: boolean;
   readonly prefix: string;
   readonly strict: boolean;
@@ -16,7 +16,8 @@
 
 import type { Application } from '@nextrush/core';
 import { getAllGuards, isGuardClass } from '../guards/guards.js';
-import { container as globalContainer, createContainer, DIError, type Container } from '@nextrush/di';
+import type { Guard } from '../guards/guard-types.js';
+import { container as globalContainer, createContainer, DIError, type Container, type Token } from '@nextrush/di';
 import {
   DEFAULT_EXCLUDE,
   DEFAULT_INCLUDE,
@@ -59,6 +60,11 @@ function resolveOptions(
     controllers: options.controllers ?? [],
     container,
     middleware: options.middleware ?? [],
+    globals: {
+      guards: options.guards ?? [],
+      interceptors: options.interceptors ?? [],
+      filters: options.filters ?? [],
+    },
     debug: options.debug ?? false,
     prefix: options.prefix ?? '',
     strict: options.strict ?? false,
@@ -114,6 +120,7 @@ export function validateControllers(
  * controller tokens) would otherwise fail late — the exact gap eager validation
  * exists to close. Function guards need no DI resolution and are skipped; each
  * class guard is resolved once (deduped) even when shared across routes.
+ * Global guards from the registration options are resolved first.
  *
  * A `@nextrush/di` error (a {@link DIError} subclass such as
  * `CircularDependencyError` or `DependencyResolutionError`) is rethrown as-is so
@@ -122,36 +129,44 @@ export function validateControllers(
  */
 export function validateGuards(
   registered: RegisteredController[],
-  container: Container
+  container: Container,
+  globalGuards: readonly Guard[] = []
 ): void {
   const resolved = new Set<Function>();
 
+  const resolveGuard = (guard: Guard, usedBy: string): void => {
+    if (!isGuardClass(guard) || resolved.has(guard)) {
+      return;
+    }
+    resolved.add(guard);
+    try {
+      container.resolve(guard as Token<unknown>);
+    } catch (error) {
+      if (error instanceof DIError) {
+        throw error;
+      }
+      const guardName = guard.name || 'AnonymousGuard';
+      throw new Error(
+        `Failed to resolve guard "${guardName}" from the DI container ` +
+          `(${usedBy}).\n\n` +
+          `A class-based guard is resolved from DI on every request to a guarded ` +
+          `route. Surfacing the failure here means an unresolvable or circular guard ` +
+          `dependency fails at boot instead of as a 500 on the first request.\n\n` +
+          `Ensure "${guardName}" and all of its constructor dependencies are registered ` +
+          `in the DI container.`,
+        { cause: error instanceof Error ? error : undefined }
+      );
+    }
+  };
+
+  for (const guard of globalGuards) {
+    resolveGuard(guard, 'registered as a global guard');
+  }
+
   for (const controller of registered) {
     for (const route of controller.definition.routes) {
-      const guards = getAllGuards(controller.target, route.methodName);
-      for (const guard of guards) {
-        if (!isGuardClass(guard) || resolved.has(guard)) {
-          continue;
-        }
-        resolved.add(guard);
-        try {
-          container.resolve(guard);
-        } catch (error) {
-          if (error instanceof DIError) {
-            throw error;
-          }
-          const guardName = guard.name || 'AnonymousGuard';
-          throw new Error(
-            `Failed to resolve guard "${guardName}" from the DI container ` +
-              `(used by controller "${controller.target.name}").\n\n` +
-              `A class-based guard is resolved from DI on every request to a guarded ` +
-              `route. Surfacing the failure here means an unresolvable or circular guard ` +
-              `dependency fails at boot instead of as a 500 on the first request.\n\n` +
-              `Ensure "${guardName}" and all of its constructor dependencies are registered ` +
-              `in the DI container.`,
-            { cause: error instanceof Error ? error : undefined }
-          );
-        }
+      for (const guard of getAllGuards(controller.target, route.methodName)) {
+        resolveGuard(guard, `used by controller "${controller.target.name}"`);
       }
     }
   }
@@ -8,6 +8,7 @@ import { getControllerDefinition, isController } from '../metadata/metadata.js';
 import type { Container } from '@nextrush/di';
 import type { Middleware } from '@nextrush/types';
 import { buildRoutes } from './builder.js';
+import { NO_GLOBAL_ENHANCERS, type GlobalEnhancers } from '../runtime/global-enhancers.js';
 import { NoRoutesError, NotAControllerError } from '../errors.js';
 import type { BuiltRoute, RegisteredController } from './registrar-types.js';
 
@@ -29,6 +30,12 @@ export class ControllerRegistry {
    */
   private readonly requestScopedClasses: ReadonlySet<Function>;
 
+  /** Guards, interceptors and filters applied to every registered route. */
+  private readonly globals: GlobalEnhancers;
+
+  /** Whether the router versions routes itself (see {@link buildRoutes}). */
+  private readonly versionByRouter: boolean;
+
   /**
    * Shared controller-instance cache, keyed by controller class.
    *
@@ -47,13 +54,17 @@ export class ControllerRegistry {
     globalPrefix: string,
     globalMiddleware: Middleware[],
     debug: boolean,
-    requestScopedClasses: ReadonlySet<Function> = new Set()
+    requestScopedClasses: ReadonlySet<Function> = new Set(),
+    globals: GlobalEnhancers = NO_GLOBAL_ENHANCERS,
+    versionByRouter = false
   ) {
     this.container = container;
     this.globalPrefix = globalPrefix;
     this.globalMiddleware = globalMiddleware;
     this.debug = debug;
     this.requestScopedClasses = requestScopedClasses;
+    this.globals = globals;
+    this.versionByRouter = versionByRouter;
   }
 
   /**
@@ -86,7 +97,9 @@ export class ControllerRegistry {
       this.globalPrefix,
       this.globalMiddleware,
       this.instanceCache,
-      this.requestScopedClasses.has(controllerClass)
+      this.requestScopedClasses.has(controllerClass),
+      this.globals,
+      this.versionByRouter
     );
 
     const registered: RegisteredController = {
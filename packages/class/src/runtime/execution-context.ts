@@ -0,0 +1,49 @@
+/**
+ * @nextrush/class - Execution Context
+ *
+ * What guards, interceptors and exception filters know about the route they
+ * run for: the controller class, the handler method and its route
+ * definition. With a {@link Reflector}, that is enough to read the metadata
+ * the class and method were decorated with.
+ */
+
+import type { ControllerRouteMetadata } from '../decorators/route-types.js';
+
+/**
+ * The controller route a guard, interceptor or filter is running for.
+ *
+ * Built once per route when routes are built, and shared by every request
+ * to that route — it never holds request data.
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class AuditInterceptor implements Interceptor {
+ *   async intercept(ctx: Context, next: () => Promise<unknown>, context: ExecutionContext) {
+ *     audit.record(`${context.controller.name}.${context.handlerName}`, ctx.method);
+ *     return next();
+ *   }
+ * }
+ * ```
+ */
+export interface ExecutionContext {
+  /** The controller class declaring the route. */
+  readonly controller: Function;
+
+  /** The name of the handler method on {@link controller}. */
+  readonly handlerName: string;
+
+  /** The route definition recorded by the route decorator. */
+  readonly route: ControllerRouteMetadata;
+}
+
+/**
+ * Build the (frozen) execution context of a controller route.
+ * @internal Used by the route handler factory.
+ */
+export function createExecutionContext(
+  controller: Function,
+  route: ControllerRouteMetadata
+): ExecutionContext {
+  return Object.freeze({ controller, handlerName: String(route.methodName), route });
+}
@@ -0,0 +1,35 @@
+/**
+ * @nextrush/class - Global guards, interceptors and filters
+ *
+ * Entries registered once for every route of a registration — through the
+ * `registerControllers`/`registerModule` options or on a `@Module` — and
+ * their place relative to the class- and method-level entries of a route.
+ */
+
+import type { ExceptionFilterClass } from '../filters/filter-types.js';
+import type { Guard } from '../guards/guard-types.js';
+import type { InterceptorClass } from '../interceptors/interceptor-types.js';
+
+/**
+ * The guards, interceptors and exception filters applied to every route.
+ *
+ * Class entries are resolved from the DI container on each request, exactly
+ * like the ones attached with `@UseGuard`, `@UseInterceptor` and `@UseFilter`.
+ */
+export interface GlobalEnhancers {
+  /** Run before the route's class and method guards. */
+  readonly guards: readonly Guard[];
+
+  /** Wrap the route's class and method interceptors (outermost first). */
+  readonly interceptors: readonly InterceptorClass[];
+
+  /** Consulted after the route's method and class filters found no match. */
+  readonly filters: readonly ExceptionFilterClass[];
+}
+
+/** No global entries — the default for a registration that declares none. */
+export const NO_GLOBAL_ENHANCERS: GlobalEnhancers = Object.freeze({
+  guards: Object.freeze([]),
+  interceptors: Object.freeze([]),
+  filters: Object.freeze([]),
+});
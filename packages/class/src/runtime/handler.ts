@@ -13,6 +13,7 @@ import {
   getRedirectMetadata,
   getResponseHeaders,
 } from '../metadata/metadata.js';
+import { getRolesGuard } from '../decorators/auth.js';
 import { getAllFilters } from '../filters/filters.js';
 import { getAllGuards } from '../guards/guards.js';
 import { getAllInterceptors } from '../interceptors/interceptors.js';
@@ -23,6 +24,8 @@ import { wrapWithFilters } from '../filters/filter-runner.js';
 import { executeGuards } from '../guards/guard-runner.js';
 import { runInterceptors } from '../interceptors/interceptor-runner.js';
 import { resolveParametersFromPlan } from '../binding/param-resolver.js';
+import { createExecutionContext } from './execution-context.js';
+import { NO_GLOBAL_ENHANCERS, type GlobalEnhancers } from './global-enhancers.js';
 
 /** A controller-class token tsyringe can resolve. */
 type ControllerToken = new (...args: unknown[]) => unknown;
@@ -91,19 +94,34 @@ function resolveFromRequestChild(
  *   the controller resolved from it (never memoized), so request-scoped instances
  *   are fresh per request and shared within one. When false, the lazy-memoized
  *   singleton path is kept — zero new per-request overhead.
+ * @param globals - Registration-wide guards, interceptors and filters. Global
+ *   guards run before the route's own and global interceptors wrap them;
+ *   global filters are consulted only after the method and class filters.
  */
 export function createRouteHandler(
   controllerClass: Function,
   route: ControllerRouteMetadata,
   container: Container,
   instanceCache: Map<Function, unknown>,
-  isRequestScoped = false
+  isRequestScoped = false,
+  globals: GlobalEnhancers = NO_GLOBAL_ENHANCERS
 ): RouteHandler {
   const methodName = String(route.methodName);
   const paramMetadata = getParamMetadata(controllerClass, methodName);
-  const guards = getAllGuards(controllerClass, methodName);
-  const filters = getAllFilters(controllerClass, methodName);
-  const interceptors = getAllInterceptors(controllerClass, methodName);
+  // One per route: guards, interceptors and filters all see the same context.
+  const executionContext = createExecutionContext(controllerClass, route);
+  // @Roles() is checked last, once whichever guard authenticates has run.
+  const rolesGuard = getRolesGuard(executionContext);
+  const guards = [
+    ...globals.guards,
+    ...getAllGuards(controllerClass, methodName),
+    ...(rolesGuard ? [rolesGuard] : []),
+  ];
+  const filters = [...getAllFilters(controllerClass, methodName), ...globals.filters];
+  const interceptors = [
+    ...globals.interceptors,
+    ...getAllInterceptors(controllerClass, methodName),
+  ];
 
   // Precompute sorted param injection plan at build time (not per-request)
   const sortedParams =
@@ -124,7 +142,7 @@ export function createRouteHandler(
   const execute: RouteHandler = async (ctx: Context): Promise<void> => {
     // Execute guards first (if any) — always per-request, never hoisted.
     if (guards.length > 0) {
-      await executeGuards(guards, ctx, container, controllerClass.name, methodName);
+      await executeGuards(guards, ctx, container, executionContext);
     }
 
     const controllerInstance = resolveControllerInstance();
@@ -148,7 +166,7 @@ export function createRouteHandler(
       Promise.resolve(method.apply(controllerInstance, args));
     const result =
       interceptors.length > 0
-        ? await runInterceptors(interceptors, ctx, container, invokeMethod)
+        ? await runInterceptors(interceptors, ctx, container, invokeMethod, executionContext)
         : await invokeMethod();
 
     // Apply response headers from @SetHeader() metadata
@@ -194,5 +212,11 @@ export function createRouteHandler(
   // Wrap with the exception-filter pipeline only when the route declares
   // filters — filter-free routes keep their original, unwrapped behavior so
   // errors propagate to the global error middleware exactly as before.
-  return filters.length > 0 ? wrapWithFilters(execute, filters, container) : execute;
+  const handler =
+    filters.length > 0 ? wrapWithFilters(execute, filters, container, executionContext) : execute;
+
+  // Named `Controller.method`, so the router's handler span on a traced
+  // request says which method ran rather than `execute`.
+  Object.defineProperty(handler, 'name', { value: `${controllerClass.name}.${methodName}` });
+  return handler;
 }
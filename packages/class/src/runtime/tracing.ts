@@ -0,0 +1,16 @@
+/**
+ * @nextrush/class - Request Tracer Lookup
+ *
+ * Guards and interceptors run inside the route handler, below the router's
+ * view, so the class runtime opens their spans itself — through the
+ * {@link RequestTracer} a tracing middleware published on `ctx.state`, never
+ * by importing `@nextrush/tracing`.
+ */
+
+import { REQUEST_TRACER, type Context, type RequestTracer } from '@nextrush/types';
+
+/** The current request's tracer, or `undefined` when the request is not traced. */
+export function getRequestTracer(ctx: Context): RequestTracer | undefined {
+  const state = ctx.state as Record<symbol, unknown> | undefined;
+  return state?.[REQUEST_TRACER] as RequestTracer | undefined;
+}
@@ -62,6 +62,12 @@ export type {
   InterceptorMetadata,
 } from './interceptors/interceptor-types.js';
 
+// Execution context concern
+export type { ExecutionContext } from './runtime/execution-context.js';
+
+// Custom metadata concern
+export type { MetadataDecorator, MetadataKey } from './metadata/custom-metadata.js';
+
 // Service lifecycle concern
 export type { OnInit, OnShutdown } from './lifecycle/lifecycle-types.js';
 
@@ -289,13 +289,15 @@ describe('Application', () => {
       );
     });
 
-    it('should assert declared needs are registered before the dependent', async () => {
-      app.extend(makeExtension('db', { needs: ['events'] }));
-      app.extend(makeExtension('events')); // registered, but too late — after "db"
-
-      await expect(app.ready()).rejects.toThrow(
-        'Extension "db" needs "events", but "events" was not registered before it.'
+    it('should set up a dependency registered after its dependent first', async () => {
+      const order: string[] = [];
+      app.extend(
+        makeExtension('db', { needs: ['events'], setup: () => void order.push('db') })
       );
+      app.extend(makeExtension('events', { setup: () => void order.push('events') }));
+
+      await expect(app.ready()).resolves.toBe(app);
+      expect(order).toEqual(['events', 'db']);
     });
 
     it('should satisfy needs when the dependency is registered earlier', async () => {
@@ -323,18 +325,109 @@ describe('Application', () => {
       expect(order).toEqual(['a', 'b', 'c', 'd']);
     });
 
-    it('should throw on the specific unmet dependency in a diamond when order is wrong', async () => {
-      // c registered before its shared dependency a — must fail on "a", not silently pass
-      app.extend(makeExtension('a', {}));
-      app.extend(makeExtension('c', { needs: ['a'] }));
-      app.extend(makeExtension('b', { needs: ['x'] }));
-      app.extend(makeExtension('x')); // registered, but too late — after "b" needs it
+    it('should sort a diamond registered in reverse, keeping registration order between siblings', async () => {
+      const order: string[] = [];
+      app.extend(
+        makeExtension('d', { needs: ['b', 'c'], setup: () => void order.push('d') })
+      );
+      app.extend(makeExtension('c', { needs: ['a'], setup: () => void order.push('c') }));
+      app.extend(makeExtension('b', { needs: ['a'], setup: () => void order.push('b') }));
+      app.extend(makeExtension('a', { setup: () => void order.push('a') }));
+
+      await app.ready();
+
+      // d's needs are visited in declared order: b (pulling in a), then c.
+      expect(order).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should keep registration order for extensions with no dependency between them', async () => {
+      const order: string[] = [];
+      app.extend(makeExtension('z', { setup: () => void order.push('z') }));
+      app.extend(makeExtension('m', { needs: ['a'], setup: () => void order.push('m') }));
+      app.extend(makeExtension('a', { setup: () => void order.push('a') }));
+
+      await app.ready();
+
+      expect(order).toEqual(['z', 'a', 'm']);
+    });
+
+    it('should order a registered optionalNeeds dependency first', async () => {
+      const order: string[] = [];
+      app.extend(
+        makeExtension('search', {
+          optionalNeeds: ['cache'],
+          setup: () => void order.push('search'),
+        })
+      );
+      app.extend(makeExtension('cache', { setup: () => void order.push('cache') }));
+
+      await app.ready();
+
+      expect(order).toEqual(['cache', 'search']);
+    });
+
+    it('should skip an optionalNeeds dependency that is not registered', async () => {
+      app.extend(makeExtension('search', { optionalNeeds: ['cache'] }));
+
+      await expect(app.ready()).resolves.toBe(app);
+      expect(app.getBootPlan().steps[0]).toMatchObject({
+        name: 'search',
+        optionalNeeds: [],
+        skippedOptionalNeeds: ['cache'],
+      });
+    });
+
+    it('should fail boot on a dependency cycle, naming the cycle path, before any setup()', async () => {
+      const setup = vi.fn();
+      app.extend(makeExtension('free', { setup }));
+      app.extend(makeExtension('a', { needs: ['b'], setup }));
+      app.extend(makeExtension('b', { needs: ['c'], setup }));
+      app.extend(makeExtension('c', { optionalNeeds: ['a'], setup }));
 
-      // c's needs are satisfied (a is registered first); b's are not (x registers
-      // after b, not before) — the thrown message must name the actual unmet
-      // dependency, not just the first extension in the array.
       await expect(app.ready()).rejects.toThrow(
-        'Extension "b" needs "x", but "x" was not registered before it.'
+        'Extension dependency cycle: "a" -> "b" -> "c" -> "a".'
+      );
+      expect(setup).not.toHaveBeenCalled();
+      expect(app.isReady).toBe(false);
+    });
+
+    it('should report a self-dependency as a cycle', async () => {
+      app.extend(makeExtension('loop', { needs: ['loop'] }));
+
+      await expect(app.ready()).rejects.toThrow('Extension dependency cycle: "loop" -> "loop".');
+    });
+  });
+
+  describe('getBootPlan()', () => {
+    it('should return an empty plan when no extensions are registered', () => {
+      expect(app.getBootPlan()).toEqual({ steps: [], destroyOrder: [] });
+    });
+
+    it('should resolve the plan before ready() and report the executed plan after', async () => {
+      app.extend(makeExtension('api', { needs: ['db'], destroy: vi.fn() }));
+      app.extend(makeExtension('db', { destroy: vi.fn() }));
+      app.extend(makeExtension('metrics'));
+
+      const before = app.getBootPlan();
+      await app.ready();
+
+      expect(before.steps.map((s) => s.name)).toEqual(['db', 'api', 'metrics']);
+      expect(before.destroyOrder).toEqual(['api', 'db']);
+      expect(before.steps[1]).toEqual({
+        name: 'api',
+        needs: ['db'],
+        optionalNeeds: [],
+        skippedOptionalNeeds: [],
+        destroyable: true,
+      });
+      expect(app.getBootPlan()).toEqual(before);
+    });
+
+    it('should throw the boot error for an unresolvable graph', () => {
+      app.extend(makeExtension('a', { needs: ['ghost'] }));
+
+      expect(() => app.getBootPlan()).toThrow(
+        'Extension "a" needs "ghost", but no extension named "ghost" was ever registered.'
       );
     });
   });
@@ -646,6 +739,22 @@ describe('Application', () => {
       expect(order).toEqual(['c', 'a']);
     });
 
+    it('should destroy in the reverse of the resolved boot order, not registration order', async () => {
+      const order: string[] = [];
+      app.extend(
+        makeExtension('api', { needs: ['db'], destroy: () => void order.push('api') })
+      );
+      app.onClose(() => void order.push('hook'));
+      app.extend(makeExtension('db', { destroy: () => void order.push('db') }));
+      await app.ready();
+
+      await app.close();
+
+      // Boot is db -> api, so teardown is api before db; the hook keeps its
+      // place between the two extension slots.
+      expect(order).toEqual(['api', 'hook', 'db']);
+    });
+
     it('should clear the extension registry after close', async () => {
       app.extend(makeExtension('clearable'));
       expect(app.extensionCount).toBe(1);
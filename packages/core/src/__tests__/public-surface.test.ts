@@ -15,6 +15,8 @@ import type {
   Context,
   ContextState,
   Extension,
+  ExtensionBootPlan,
+  ExtensionBootStep,
   ExtensionContext,
   ExtensionHost,
   ErrorHandler,
@@ -81,6 +83,8 @@ describe('Public API surface (type-only exports)', () => {
       Context,
       ContextState,
       Extension,
+      ExtensionBootPlan,
+      ExtensionBootStep,
       ExtensionContext,
       ExtensionHost,
       HttpMethod,
@@ -22,6 +22,7 @@ import type {
   SecurityAuditCheck,
 } from '@nextrush/types';
 import { SECURITY_AUDIT } from '@nextrush/types';
+import { EMPTY_BOOT_PLAN, resolveBootPlan, type ExtensionBootPlan } from './boot-order';
 import { compose } from './middleware';
 import { writeDefaultErrorResponse } from './error-handler';
 import { createPrefixMount } from './route-mount';
@@ -248,9 +249,15 @@ export class Application {
    */
   private readonly securityAudits: SecurityAuditCheck[] = [];
 
-  /** Registered extensions, in registration order (setup runs at ready()) */
+  /** Registered extensions, in registration order (setup runs at ready(), in boot-plan order) */
   private readonly extensions: Extension<unknown>[] = [];
 
+  /** Each destroyable extension's teardown unit, by extension name — re-seated in boot-plan order by `_boot()` */
+  private readonly extensionTeardownUnits = new Map<string, TeardownUnit>();
+
+  /** The boot plan `ready()` executed — `null` until boot resolves it */
+  private _bootPlan: ExtensionBootPlan | null = null;
+
   /** Registered extension names — enforces uniqueness */
   private readonly extensionNames = new Set<string>();
 
@@ -260,7 +267,8 @@ export class Application {
    * so `_shutdown()` can run the whole set in one reverse-of-registration pass
    * (RFC-022 §7.3 — "teardown becomes a flat list of independently-isolated,
    * budget-raced units"). Populated lazily by {@link extend} (for extensions
-   * declaring `destroy()`) and {@link onClose}.
+   * declaring `destroy()`) and {@link onClose}; `_boot()` re-seats the
+   * extension units in boot-plan order.
    */
   private readonly teardownUnits: TeardownUnit[] = [];
 
@@ -343,6 +351,29 @@ export class Application {
     return this.extensions.length;
   }
 
+  /**
+   * The extension boot plan — the order `setup()` runs in, which optional
+   * dependencies were honored or skipped, and the order `destroy()` starts
+   * in at `close()`. After `ready()` this is the plan that ran; before it,
+   * the plan the current registrations resolve to.
+   *
+   * @returns The resolved {@link ExtensionBootPlan}
+   * @throws if a `needs` entry names an unregistered extension, or the
+   * dependencies form a cycle — the same error `ready()` would throw
+   *
+   * @example
+   * ```typescript
+   * app.extend(search()).extend(db()); // search() declares needs: ['db']
+   * app.getBootPlan().steps.map((s) => s.name); // ['db', 'search']
+   * ```
+   */
+  getBootPlan(): ExtensionBootPlan {
+    if (this._bootPlan) {
+      return this._bootPlan;
+    }
+    return this.extensions.length === 0 ? EMPTY_BOOT_PLAN : resolveBootPlan(this.extensions);
+  }
+
   /**
    * Throws if the app configuration is frozen (after ready() or start()).
    * Prevents unsafe mutations once the app has booted or is serving traffic.
@@ -489,7 +520,9 @@ export class Application {
 
   /**
    * Register an extension. Queues it — `setup()` runs later, at `ready()`,
-   * in registration order. Synchronous and chainable.
+   * after every extension it `needs` (and every registered one it
+   * `optionalNeeds`), otherwise in registration order. Synchronous and
+   * chainable.
    *
    * @param extension - Extension to register. If it declares a decorated
    * shape via `Extension<TDecorated>`, the return type carries that shape —
@@ -526,24 +559,28 @@ export class Application {
       const destroyableExtension = extension as Extension<TDecorated> & {
         destroy: () => void | Promise<void>;
       };
-      this.teardownUnits.push({
+      const unit: TeardownUnit = {
         name: extension.name,
         run: () => destroyableExtension.destroy(),
-      });
+      };
+      this.teardownUnits.push(unit);
+      this.extensionTeardownUnits.set(extension.name, unit);
     }
     return this as this & TDecorated;
   }
 
   /**
    * Boot the application: run every registered extension's `setup()` once, in
-   * registration order, awaiting async setups. Idempotent — safe to call twice.
-   * Adapters call this automatically before `start()`.
+   * dependency order (see {@link getBootPlan}), awaiting async setups.
+   * Idempotent — safe to call twice. Adapters call this automatically before
+   * `start()`.
    *
    * After `ready()` resolves, the configuration is frozen (`use`/`route`/`extend`
    * throw).
    *
    * @returns this
-   * @throws if an extension declares a `needs` dependency not yet registered
+   * @throws if an extension `needs` an extension that was never registered, or
+   * if extension dependencies form a cycle
    */
   async ready(): Promise<this> {
     if (this._isReady) {
@@ -567,36 +604,16 @@ export class Application {
    * memoized by {@link ready}.
    */
   private async _boot(): Promise<this> {
-    // extension SOMEWHERE (regardless of order) — catches a typo'd or
-    // never-registered dependency name with a distinct message from the
-    // order-sensitive check below, before running any setup().
-    const allNames = new Set(this.extensions.map((e) => e.name));
-    for (const extension of this.extensions) {
-      if (extension.needs) {
-        for (const dep of extension.needs) {
-          if (!allNames.has(dep)) {
-            throw new Error(
-              `Extension "${extension.name}" needs "${dep}", but no extension named ` +
-                `"${dep}" was ever registered.`
-            );
-          }
-        }
-      }
-    }
-
-    const setupDone = new Set<string>();
-
-    for (const extension of this.extensions) {
-      // Declare-and-assert dependency check (no auto-sort; registration order is the order)
-      if (extension.needs) {
-        for (const dep of extension.needs) {
-          if (!setupDone.has(dep)) {
-            throw new Error(
-              `Extension "${extension.name}" needs "${dep}", but "${dep}" was not ` +
-                `registered before it. Register the "${dep}" extension before "${extension.name}".`
-            );
-          }
-        }
+    // Resolve the whole plan before running any setup() — a missing
+    // dependency or a cycle fails boot with nothing half set up.
+    const plan = this.getBootPlan();
+    this._reseatExtensionTeardown(plan);
+    const byName = new Map(this.extensions.map((e) => [e.name, e]));
+
+    for (const step of plan.steps) {
+      const extension = byName.get(step.name);
+      if (!extension) {
+        continue;
       }
 
       const ctx: ExtensionContext = {
@@ -611,7 +628,6 @@ export class Application {
       };
 
       await extension.setup(ctx);
-      setupDone.add(extension.name);
     }
 
     // Mount the app-owned router LAST, so routes run after all middleware
@@ -625,10 +641,31 @@ export class Application {
       this._runSecurityAudits();
     }
 
+    this._bootPlan = plan;
     this._isReady = true;
     return this;
   }
 
+  /**
+   * Re-seat the extension `destroy()` units in boot-plan order, in the slots
+   * registration gave them: the reversed teardown pass then destroys
+   * dependents before their dependencies, while each {@link onClose} hook
+   * keeps its position relative to the extensions registered around it.
+   */
+  private _reseatExtensionTeardown(plan: ExtensionBootPlan): void {
+    const seated = new Set(this.extensionTeardownUnits.values());
+    const inPlanOrder = plan.steps.flatMap((step) => {
+      const unit = this.extensionTeardownUnits.get(step.name);
+      return unit ? [unit] : [];
+    });
+    let next = 0;
+    this.teardownUnits.forEach((unit, index) => {
+      if (seated.has(unit)) {
+        this.teardownUnits[index] = inPlanOrder[next++] ?? unit;
+      }
+    });
+  }
+
   /**
    * Run every registered middleware's boot-time security audit check
    * (`security-boundaries` capability, task 8.1/8.2). `throw`-level verdicts
@@ -784,7 +821,7 @@ export class Application {
   }
 
   /**
-   * Graceful shutdown. Destroys extensions in reverse registration order,
+   * Graceful shutdown. Destroys extensions in reverse boot-plan order,
    * each isolated from the others' failures — one failing/hanging `destroy()`
    * never strands the rest (RFC-022 / ADR-0012).
    *
@@ -823,7 +860,8 @@ export class Application {
     // Reverse of registration order across BOTH extension destroy() calls and
     // onClose hooks — one uniform, combined teardown-unit list (RFC-022 §7.3),
     // so a hook registered between two extend() calls runs at the correct
-    // point in the reversed sequence, not as a separate pass.
+    // point in the reversed sequence, not as a separate pass. After boot, the
+    // extension units sit in boot-plan order (see _reseatExtensionTeardown).
     const units = [...this.teardownUnits].reverse();
 
     const errors = (
@@ -844,7 +882,9 @@ export class Application {
     this.decorations.clear();
     this.extensions.length = 0;
     this.extensionNames.clear();
+    this.extensionTeardownUnits.clear();
     this.teardownUnits.length = 0;
+    this._bootPlan = null;
     this._isReady = false;
     // Reset the boot/shutdown memos so the instance can be cleanly re-booted
     // (re-boot in tests / hot reload) — a fresh ready()/close() must re-run.
@@ -0,0 +1,120 @@
+/**
+ * @nextrush/core - Extension Boot Order
+ *
+ * Resolves the order `ready()` sets extensions up in: a topological sort over
+ * `needs` and `optionalNeeds` that keeps registration order wherever the
+ * dependency graph leaves a choice. Extracted so the plan `ready()` executes
+ * and the one {@link Application.getBootPlan} reports are the same object.
+ *
+ * @packageDocumentation
+ */
+
+import type { Extension } from '@nextrush/types';
+
+/**
+ * One extension's position in the resolved boot plan.
+ */
+export interface ExtensionBootStep {
+  /** The extension's name. */
+  readonly name: string;
+  /** Required dependencies — each set up before this extension. */
+  readonly needs: readonly string[];
+  /** Optional dependencies that are registered, and so set up before this extension. */
+  readonly optionalNeeds: readonly string[];
+  /** Optional dependencies that are not registered, and so ignored. */
+  readonly skippedOptionalNeeds: readonly string[];
+  /** Whether the extension declares `destroy()`. */
+  readonly destroyable: boolean;
+}
+
+/**
+ * The resolved extension boot plan, as reported by `Application.getBootPlan()`.
+ */
+export interface ExtensionBootPlan {
+  /** Extensions in the order `setup()` runs. */
+  readonly steps: readonly ExtensionBootStep[];
+  /**
+   * Names of destroyable extensions in the order `close()` starts their
+   * `destroy()` — the reverse of {@link steps}.
+   */
+  readonly destroyOrder: readonly string[];
+}
+
+/** The plan for an app with no extensions. */
+export const EMPTY_BOOT_PLAN: ExtensionBootPlan = { steps: [], destroyOrder: [] };
+
+/**
+ * Resolve the boot order for `extensions`, given in registration order.
+ *
+ * A depth-first walk in registration order: each extension's dependencies
+ * (`needs`, then registered `optionalNeeds`, each in declared order) are
+ * placed before it, so an app whose registration already satisfies every
+ * dependency boots in exactly its registration order.
+ *
+ * @throws {Error} When a `needs` entry names an extension that was never
+ *   registered, or when dependencies form a cycle — the message spells out
+ *   the cycle path.
+ */
+export function resolveBootPlan(extensions: readonly Extension<unknown>[]): ExtensionBootPlan {
+  const byName = new Map(extensions.map((extension) => [extension.name, extension]));
+
+  // Missing required dependencies first, across the whole graph, so a typo'd
+  // or never-registered name is reported as such and never as a cycle.
+  for (const extension of extensions) {
+    for (const dep of extension.needs ?? []) {
+      if (!byName.has(dep)) {
+        throw new Error(
+          `Extension "${extension.name}" needs "${dep}", but no extension named ` +
+            `"${dep}" was ever registered.`
+        );
+      }
+    }
+  }
+
+  const steps: ExtensionBootStep[] = [];
+  const placed = new Set<string>();
+  // The current DFS path — an edge back into it is a cycle.
+  const path: string[] = [];
+
+  const visit = (extension: Extension<unknown>): void => {
+    if (placed.has(extension.name)) return;
+    const cycleStart = path.indexOf(extension.name);
+    if (cycleStart !== -1) {
+      const cycle = [...path.slice(cycleStart), extension.name].map((n) => `"${n}"`).join(' -> ');
+      throw new Error(
+        `Extension dependency cycle: ${cycle}. Remove one of these needs/optionalNeeds ` +
+          `entries so the extensions can be set up in some order.`
+      );
+    }
+
+    const needs = extension.needs ?? [];
+    const declaredOptional = extension.optionalNeeds ?? [];
+    const optionalNeeds = declaredOptional.filter((dep) => byName.has(dep));
+    const skippedOptionalNeeds = declaredOptional.filter((dep) => !byName.has(dep));
+
+    path.push(extension.name);
+    for (const dep of [...needs, ...optionalNeeds]) {
+      const dependency = byName.get(dep);
+      if (dependency !== undefined) visit(dependency);
+    }
+    path.pop();
+
+    placed.add(extension.name);
+    steps.push({
+      name: extension.name,
+      needs,
+      optionalNeeds,
+      skippedOptionalNeeds,
+      destroyable: typeof extension.destroy === 'function',
+    });
+  };
+
+  for (const extension of extensions) visit(extension);
+
+  const destroyOrder = steps
+    .filter((step) => step.destroyable)
+    .map((step) => step.name)
+    .reverse();
+
+  return { steps, destroyOrder };
+}
@@ -18,6 +18,7 @@ export type {
   ListenCallback,
   Routable,
 } from './application';
+export type { ExtensionBootPlan, ExtensionBootStep } from './boot-order';
 
 // Middleware
 export { compose, flattenMiddleware, isMiddleware } from './middleware';
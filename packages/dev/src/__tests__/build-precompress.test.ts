@@ -0,0 +1,85 @@
+/**
+ * Tests for precompressed asset generation (`nextrush build --precompress`)
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { precompressDirectory } from '../commands/build/precompress.js';
+import { getNodeFsPromises, getNodeOs, getNodePath, getNodeZlib } from '../runtime/node-modules.js';
+
+const SCRIPT = 'export const greeting = "hello";\n'.repeat(200);
+
+describe('precompressDirectory', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    const fs = await getNodeFsPromises();
+    const path = await getNodePath();
+    const os = await getNodeOs();
+
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nextrush-precompress-'));
+    await fs.mkdir(path.join(dir, 'assets'));
+    await fs.writeFile(path.join(dir, 'assets', 'app.js'), SCRIPT);
+    await fs.writeFile(path.join(dir, 'small.css'), 'body{}');
+    await fs.writeFile(path.join(dir, 'logo.png'), Buffer.alloc(4096));
+  });
+
+  afterEach(async () => {
+    const fs = await getNodeFsPromises();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes decodable variants next to compressible files, with the source mtime', async () => {
+    const fs = await getNodeFsPromises();
+    const path = await getNodePath();
+    const zlib = await getNodeZlib();
+    const source = path.join(dir, 'assets', 'app.js');
+
+    const summary = await precompressDirectory(dir);
+    const hasZstd = typeof zlib.zstdDecompressSync === 'function';
+
+    expect(summary).toEqual({ files: 1, written: hasZstd ? 3 : 2 });
+    expect(zlib.brotliDecompressSync(await fs.readFile(`${source}.br`)).toString()).toBe(SCRIPT);
+    expect(zlib.gunzipSync(await fs.readFile(`${source}.gz`)).toString()).toBe(SCRIPT);
+    if (hasZstd) {
+      expect(zlib.zstdDecompressSync(await fs.readFile(`${source}.zst`)).toString()).toBe(SCRIPT);
+    }
+
+    // Never older than the source, or static serving would skip it as stale.
+    const [sourceStat, variantStat] = await Promise.all([fs.stat(source), fs.stat(`${source}.br`)]);
+    expect(variantStat.mtime.getTime()).toBeGreaterThanOrEqual(sourceStat.mtime.getTime());
+  });
+
+  it('skips small files and formats that are already compressed', async () => {
+    const fs = await getNodeFsPromises();
+    await precompressDirectory(dir, { encodings: ['gzip'] });
+
+    const names = await fs.readdir(dir);
+    expect(names.sort()).toEqual(['assets', 'logo.png', 'small.css']);
+  });
+
+  it('rewrites variants from the current source on every run', async () => {
+    const fs = await getNodeFsPromises();
+    const path = await getNodePath();
+    const zlib = await getNodeZlib();
+    const source = path.join(dir, 'assets', 'app.js');
+
+    await precompressDirectory(dir, { encodings: ['gzip'] });
+    await fs.writeFile(source, SCRIPT.toUpperCase());
+    await precompressDirectory(dir, { encodings: ['gzip'] });
+
+    expect(zlib.gunzipSync(await fs.readFile(`${source}.gz`)).toString()).toBe(SCRIPT.toUpperCase());
+  });
+
+  it('removes a variant that would not be smaller than its source', async () => {
+    const fs = await getNodeFsPromises();
+    const path = await getNodePath();
+    const crypto = await import('node:crypto');
+    const source = path.join(dir, 'noise.txt');
+
+    await fs.writeFile(source, crypto.randomBytes(2048));
+    await fs.writeFile(`${source}.gz`, 'stale');
+
+    await precompressDirectory(dir, { encodings: ['gzip'] });
+    await expect(fs.stat(`${source}.gz`)).rejects.toThrow();
+  });
+});
@@ -26,6 +26,7 @@ import {
   buildWithBun,
   buildWithDeno,
   parseBuildTarget,
+  precompressDirectory,
   resolveBuildOptions,
   type BuildOptions,
 } from './build/index.js';
@@ -74,6 +75,9 @@ export async function build(entry?: string, options: BuildOptions = {}): Promise
   info('Decorator Metadata', resolved.decoratorMetadata ? 'enabled' : 'disabled');
   info('Sourcemap', resolved.sourcemap ? 'enabled' : 'disabled');
   info('Minify', resolved.minify ? 'enabled' : 'disabled');
+  if (resolved.precompress.length > 0) {
+    info('Precompress', resolved.precompress.join(', '));
+  }
   newline();
 
   // Validate entry file exists
@@ -121,6 +125,21 @@ export async function build(entry?: string, options: BuildOptions = {}): Promise
     await buildWithSwc(resolvedEntry, resolved.outDir, resolved);
   }
 
+  // Precompress static assets last, so a directory under outDir sees the
+  // freshly built files
+  for (const dir of resolved.precompress) {
+    const dirPath = resolvePath(cwd, dir);
+    if (!existsSync(dirPath)) {
+      error(`Precompress directory not found: ${dir}`);
+      exitProcess(1);
+    }
+    log(`Precompressing ${dir}...`);
+    const summary = await precompressDirectory(dirPath);
+    success(
+      `Precompressed ${String(summary.files)} files in ${dir} (${String(summary.written)} variants)`
+    );
+  }
+
   const duration = Date.now() - startTime;
   newline();
   success(`Build completed in ${formatDuration(duration)}`);
@@ -186,6 +205,15 @@ export async function buildCli(args: string[]): Promise<void> {
         options.clean = false;
         break;
       }
+      case '--precompress': {
+        const dirArg = args[++i];
+        if (!dirArg) {
+          error('--precompress expects a directory');
+          exitProcess(1);
+        }
+        (options.precompress ??= []).push(dirArg);
+        break;
+      }
       case '--verbose':
       case '-v': {
         options.verbose = true;
@@ -215,6 +243,10 @@ export async function buildCli(args: string[]): Promise<void> {
                 options.target = parseBuildTarget(valuePart);
                 break;
               }
+              case '--precompress': {
+                (options.precompress ??= []).push(valuePart);
+                break;
+              }
               default: {
                 error(`Unknown flag: ${arg}`);
                 error('Run "nextrush build --help" for available options.');
@@ -268,6 +300,8 @@ Options:
   --cache                   Use incremental build cache (default: true)
   --no-cache                Disable build cache
   --no-clean                Don't clean output directory
+  --precompress <dir>       Write .br/.zst/.gz variants of compressible files
+                            in <dir> after building (repeatable)
   --verbose, -v             Verbose output
 
 Examples:
@@ -277,6 +311,7 @@ Examples:
   nextrush build --target esnext --no-sourcemap
   nextrush build --no-dts
   nextrush build --no-cache
+  nextrush build --precompress dist/public
 
 Note:
   This command uses SWC to compile TypeScript with decorator metadata
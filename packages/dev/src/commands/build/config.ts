@@ -26,6 +26,7 @@ export function resolveBuildOptions(options: BuildOptions): {
   clean: boolean;
   cache: boolean;
   verbose: boolean;
+  precompress: string[];
 } {
   return {
     outDir: options.outDir ?? 'dist',
@@ -37,5 +38,6 @@ export function resolveBuildOptions(options: BuildOptions): {
     clean: options.clean ?? true,
     cache: options.cache ?? true,
     verbose: options.verbose ?? false,
+    precompress: options.precompress ?? [],
   };
 }
@@ -13,3 +13,9 @@ export { buildWithDeno, buildWithDenoNative, generateDeclarationsWithDeno } from
 export { writeFileAtomic } from './atomic-write.js';
 export { loadCache, saveCache, createEmptyCache, isCached, updateCacheEntry, hashSourceAndOptions } from './cache.js';
 export { runConcurrent } from './concurrency.js';
+export {
+  precompressDirectory,
+  type PrecompressEncoding,
+  type PrecompressOptions,
+  type PrecompressSummary,
+} from './precompress.js';
@@ -0,0 +1,156 @@
+/**
+ * Precompressed asset generation
+ *
+ * Writes `.br`, `.zst` and `.gz` siblings next to every compressible file in
+ * a directory, at maximum settings, for `@nextrush/static`'s `precompressed`
+ * option to serve — so immutable bundles are compressed once per build, not
+ * once per request. A variant is only kept when it is smaller than its source,
+ * and it takes the source's mtime, so it is never older than the file it was
+ * built from (static serving skips a variant that is).
+ */
+
+import { getNodeFsPromises, getNodePath, getNodeZlib } from '../../runtime/node-modules.js';
+import { runConcurrent } from './concurrency.js';
+
+/** Encodings a variant can be written in, and the extension each gets */
+export type PrecompressEncoding = 'br' | 'zstd' | 'gzip';
+
+const VARIANT_EXTENSIONS: Readonly<Record<PrecompressEncoding, string>> = {
+  br: '.br',
+  zstd: '.zst',
+  gzip: '.gz',
+};
+
+/** Text-like formats worth compressing; images, fonts like woff2 and archives already are. */
+const COMPRESSIBLE_EXTENSIONS = new Set([
+  '.html', '.htm', '.css', '.js', '.mjs', '.cjs', '.json', '.map', '.svg', '.txt',
+  '.xml', '.wasm', '.ico', '.md', '.csv', '.webmanifest', '.ttf', '.otf', '.eot',
+]);
+
+/** Files below this gain nothing a response header doesn't cost back. */
+const MIN_SIZE = 1024;
+
+/** zlib's async work runs on libuv's thread pool, which has 4 threads by default. */
+const CONCURRENCY = 4;
+
+export interface PrecompressOptions {
+  /** Encodings to write (default: all the runtime's zlib supports) */
+  encodings?: readonly PrecompressEncoding[];
+}
+
+export interface PrecompressSummary {
+  /** Compressible files at or above the size threshold */
+  files: number;
+  /** Variants written */
+  written: number;
+}
+
+type Compressor = (source: Buffer) => Promise<Buffer>;
+
+function callbackToPromise(
+  run: (callback: (err: Error | null, result: Buffer) => void) => void
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    run((err, result) => {
+      if (err) reject(err);
+      else resolve(result);
+    });
+  });
+}
+
+async function loadCompressors(): Promise<Partial<Record<PrecompressEncoding, Compressor>>> {
+  const zlib = await getNodeZlib();
+  const compressors: Partial<Record<PrecompressEncoding, Compressor>> = {
+    br: (source) =>
+      callbackToPromise((done) => {
+        zlib.brotliCompress(
+          source,
+          {
+            params: {
+              [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+              [zlib.constants.BROTLI_PARAM_SIZE_HINT]: source.length,
+            },
+          },
+          done
+        );
+      }),
+    gzip: (source) =>
+      callbackToPromise((done) => {
+        zlib.gzip(source, { level: zlib.constants.Z_BEST_COMPRESSION }, done);
+      }),
+  };
+
+  // Zstandard landed in node:zlib in Node.js 22.15 / 23.8.
+  if (typeof (zlib as Partial<typeof zlib>).zstdCompress === 'function') {
+    compressors.zstd = (source) =>
+      callbackToPromise((done) => {
+        zlib.zstdCompress(
+          source,
+          { params: { [zlib.constants.ZSTD_c_compressionLevel]: 19 } },
+          done
+        );
+      });
+  }
+
+  return compressors;
+}
+
+/**
+ * Write precompressed variants for every compressible file under `dir`
+ *
+ * Symlinks are not followed, and existing `.br`/`.zst`/`.gz` files are never
+ * treated as sources. A variant that would not be smaller than its source is
+ * not written, and a stale one left from an earlier build is removed.
+ */
+export async function precompressDirectory(
+  dir: string,
+  options: PrecompressOptions = {}
+): Promise<PrecompressSummary> {
+  const fs = await getNodeFsPromises();
+  const path = await getNodePath();
+  const compressors = await loadCompressors();
+  const writers = (options.encodings ?? ['br', 'zstd', 'gzip']).flatMap((encoding) => {
+    const compress = compressors[encoding];
+    return compress ? [{ extension: VARIANT_EXTENSIONS[encoding], compress }] : [];
+  });
+
+  const sources: string[] = [];
+  async function scanDir(current: string): Promise<void> {
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await scanDir(fullPath);
+      } else if (entry.isFile() && COMPRESSIBLE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        sources.push(fullPath);
+      }
+    }
+  }
+  await scanDir(dir);
+
+  const summary: PrecompressSummary = { files: 0, written: 0 };
+
+  await runConcurrent(
+    sources.map((source) => async () => {
+      const stat = await fs.stat(source);
+      if (stat.size < MIN_SIZE) return;
+      summary.files++;
+
+      const content = await fs.readFile(source);
+      for (const { extension, compress } of writers) {
+        const variant = source + extension;
+        const compressed = await compress(content);
+        if (compressed.length >= stat.size) {
+          await fs.rm(variant, { force: true });
+          continue;
+        }
+
+        await fs.writeFile(variant, compressed);
+        await fs.utimes(variant, stat.atime, stat.mtime);
+        summary.written++;
+      }
+    }),
+    { concurrency: CONCURRENCY }
+  );
+
+  return summary;
+}
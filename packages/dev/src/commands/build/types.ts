@@ -25,4 +25,6 @@ export interface BuildOptions {
   cache?: boolean;
   /** Verbose output */
   verbose?: boolean;
+  /** Directories to write precompressed .br/.zst/.gz variants into after compiling */
+  precompress?: string[];
 }
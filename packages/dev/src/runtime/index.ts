@@ -46,5 +46,6 @@ export {
   NODE_PROCESS,
   NODE_URL,
   NODE_UTIL,
+  NODE_ZLIB,
   getSwcNodeRegisterPath,
 } from './node-modules.js';
@@ -23,6 +23,7 @@ export const NODE_URL = 'node:url';
 export const NODE_PROCESS = 'node:process';
 export const NODE_UTIL = 'node:util';
 export const NODE_OS = 'node:os';
+export const NODE_ZLIB = 'node:zlib';
 
 // ── Typed accessors for Node built-ins (RFC-019 D3) ────────────────────────────
 // These wrap the variable-specifier `import(NODE_*)` pattern — which stops
@@ -57,6 +58,11 @@ export async function getNodeOs(): Promise<typeof import('node:os')> {
   return (await import(/* @vite-ignore */ NODE_OS)) as typeof import('node:os');
 }
 
+/** `node:zlib`, typed, with the bundler-safe variable specifier preserved. */
+export async function getNodeZlib(): Promise<typeof import('node:zlib')> {
+  return (await import(/* @vite-ignore */ NODE_ZLIB)) as typeof import('node:zlib');
+}
+
 /** `node:module`, typed, with the bundler-safe variable specifier preserved. */
 export async function getNodeModule(): Promise<typeof import('node:module')> {
   return (await import(/* @vite-ignore */ NODE_MODULE)) as typeof import('node:module');
@@ -4,10 +4,13 @@
 
 import 'reflect-metadata';
 import { beforeEach, describe, expect, it } from 'vitest';
+import type { StandardSchemaV1 } from '@nextrush/types';
 import {
   Config,
   container,
   getConfigPrefix,
+  getConfigSchema,
+  getConfigSecrets,
   getOptionalParams,
   getServiceScope,
   getServiceType,
@@ -247,6 +250,26 @@ describe('@nextrush/di - Decorators', () => {
       expect(getConfigPrefix(AppConfig)).toBeUndefined();
     });
 
+    it('should store schema and secrets metadata when provided', () => {
+      const schema: StandardSchemaV1 = {
+        '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+      };
+
+      @Config({ prefix: 'DB', schema, secrets: ['password'] })
+      class DatabaseConfig {}
+
+      expect(getConfigSchema(DatabaseConfig)).toBe(schema);
+      expect(getConfigSecrets(DatabaseConfig)).toEqual(['password']);
+    });
+
+    it('should have no schema and no secrets by default', () => {
+      @Config()
+      class AppConfig {}
+
+      expect(getConfigSchema(AppConfig)).toBeUndefined();
+      expect(getConfigSecrets(AppConfig)).toEqual([]);
+    });
+
     it('should be resolvable from container', () => {
       @Config()
       class AppConfig {
@@ -40,6 +40,8 @@ describe('Public API surface (runtime exports)', () => {
       'Service',
       'delay',
       'getConfigPrefix',
+      'getConfigSchema',
+      'getConfigSecrets',
       'getOptionalParams',
       'getServiceScope',
       'getServiceType',
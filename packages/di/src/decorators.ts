@@ -20,4 +20,11 @@ export {
 } from './injection.js';
 
 // Metadata readers
-export { getConfigPrefix, getServiceScope, getServiceType, hasServiceMetadata } from './service-metadata.js';
+export {
+  getConfigPrefix,
+  getConfigSchema,
+  getConfigSecrets,
+  getServiceScope,
+  getServiceType,
+  hasServiceMetadata,
+} from './service-metadata.js';
@@ -53,6 +53,8 @@ export {
   Service,
   delay,
   getConfigPrefix,
+  getConfigSchema,
+  getConfigSecrets,
   getOptionalParams,
   getServiceScope,
   getServiceType,
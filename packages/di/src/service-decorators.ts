@@ -130,6 +130,12 @@ export function Config(options: import('./types.js').ConfigOptions = {}) {
     if (options.prefix) {
       Reflect.defineMetadata(METADATA_KEYS.CONFIG_PREFIX, options.prefix, target);
     }
+    if (options.schema) {
+      Reflect.defineMetadata(METADATA_KEYS.CONFIG_SCHEMA, options.schema, target);
+    }
+    if (options.secrets && options.secrets.length > 0) {
+      Reflect.defineMetadata(METADATA_KEYS.CONFIG_SECRETS, [...options.secrets], target);
+    }
 
     // Configuration classes are always singletons
     tsySingleton()(target as unknown as Constructor);
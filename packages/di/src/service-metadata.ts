@@ -4,6 +4,7 @@
  * Functions to read service metadata written by decorators.
  */
 
+import type { StandardSchemaV1 } from '@nextrush/types';
 import { METADATA_KEYS, type Scope } from './types.js';
 
 /**
@@ -52,3 +53,23 @@ export function getServiceScope(target: object): Scope {
 export function getConfigPrefix(target: object): string | undefined {
   return Reflect.getMetadata(METADATA_KEYS.CONFIG_PREFIX, target) as string | undefined;
 }
+
+/**
+ * Get the validation schema from a @Config-decorated class.
+ *
+ * @param target - The class to check
+ * @returns The schema passed as `@Config({ schema })`, or undefined
+ */
+export function getConfigSchema(target: object): StandardSchemaV1 | undefined {
+  return Reflect.getMetadata(METADATA_KEYS.CONFIG_SCHEMA, target) as StandardSchemaV1 | undefined;
+}
+
+/**
+ * Get the secret field paths from a @Config-decorated class.
+ *
+ * @param target - The class to check
+ * @returns The paths passed as `@Config({ secrets })`; empty when none were declared
+ */
+export function getConfigSecrets(target: object): readonly string[] {
+  return (Reflect.getMetadata(METADATA_KEYS.CONFIG_SECRETS, target) as string[] | undefined) ?? [];
+}
@@ -5,6 +5,8 @@
  * package). This module re-exports it and adds the DI-specific metadata types.
  */
 
+import type { StandardSchemaV1 } from '@nextrush/types';
+
 export type {
   ClassProvider,
   Constructor,
@@ -27,6 +29,8 @@ export const METADATA_KEYS = {
   INJECT_TOKEN: 'di:inject',
   PARAM_TYPES: 'design:paramtypes',
   CONFIG_PREFIX: 'di:config:prefix',
+  CONFIG_SCHEMA: 'di:config:schema',
+  CONFIG_SECRETS: 'di:config:secrets',
   OPTIONAL_PARAMS: 'di:optional',
 } as const;
 
@@ -47,6 +51,28 @@ export interface ConfigOptions {
    * ```
    */
   prefix?: string;
+
+  /**
+   * Schema the loaded values are validated against when the class is handed
+   * to `@nextrush/config`. Any StandardSchema-compliant library works (Zod,
+   * Valibot, ArkType, …); its output replaces the field values.
+   *
+   * @example
+   * ```typescript
+   * @Config({ prefix: 'DB', schema: z.object({ host: z.string(), port: z.coerce.number() }) })
+   * class DatabaseConfig {
+   *   readonly host = 'localhost';
+   *   readonly port = 5432;
+   * }
+   * ```
+   */
+  schema?: StandardSchemaV1;
+
+  /**
+   * Fields whose values never appear in logs, diagnostics or serialized
+   * output. Dotted paths reach nested fields (`'credentials.password'`).
+   */
+  secrets?: readonly string[];
 }
 
 /**
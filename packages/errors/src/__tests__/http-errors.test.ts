@@ -151,6 +151,15 @@ describe('4xx Client Errors', () => {
       expect(error.status).toBe(408);
       expect(error.code).toBe('REQUEST_TIMEOUT');
     });
+
+    it('should carry a server-side timeout as 503 or 504', () => {
+      const error = new RequestTimeoutError('Request timed out', { status: 504, timeout: 5000 });
+      expect(error.status).toBe(504);
+      expect(error.code).toBe('REQUEST_TIMEOUT');
+      expect(error.timeout).toBe(5000);
+      expect(error.expose).toBe(true);
+      expect(error.toJSON()).toMatchObject({ message: 'Request timed out', status: 504 });
+    });
   });
 
   describe('ConflictError', () => {
@@ -0,0 +1,288 @@
+/**
+ * @nextrush/errors - Problem Details (RFC 9457) Tests
+ */
+
+import type { Context } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { HttpError } from '../base';
+import { BadRequestError, InternalServerError, NotFoundError } from '../http-errors';
+import { errorHandler, notFoundHandler } from '../middleware';
+import {
+  PROBLEM_CONTENT_TYPE,
+  acceptsProblem,
+  getProblemType,
+  registerProblemType,
+  toJsonPointer,
+} from '../problem';
+import { ValidationError } from '../validation';
+
+function createMockContext(accept?: string): Context {
+  return {
+    method: 'GET',
+    url: '/orders/42',
+    path: '/orders/42',
+    query: {},
+    headers: accept === undefined ? {} : { accept },
+    ip: '127.0.0.1',
+    body: undefined,
+    params: {},
+    status: 200,
+    json: vi.fn(),
+    send: vi.fn(),
+    set: vi.fn(),
+    get: vi.fn((name: string) => (name.toLowerCase() === 'accept' ? accept : undefined)),
+    state: {},
+    responded: false,
+  } as unknown as Context;
+}
+
+/** The problem document a mock context was sent */
+function sentProblem(ctx: Context): Record<string, unknown> {
+  const body = (ctx.send as ReturnType<typeof vi.fn>).mock.calls[0]?.[0] as string;
+  return JSON.parse(body) as Record<string, unknown>;
+}
+
+const noop = async (): Promise<void> => {};
+
+describe('toProblem()', () => {
+  it('maps an exposed error to the standard members plus its code', () => {
+    expect(new NotFoundError('Order 42 not found').toProblem('/orders/42')).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Order 42 not found',
+      instance: '/orders/42',
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it('omits detail and details for an unexposed error', () => {
+    const problem = new InternalServerError('db password rejected', {
+      details: { host: 'db-1' },
+    }).toProblem();
+
+    expect(problem).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      code: 'INTERNAL_SERVER_ERROR',
+    });
+  });
+
+  it('maps validation issues to an `errors` extension with JSON Pointers', () => {
+    const problem = new ValidationError([
+      { path: 'body.items[0].name', message: 'Required', rule: 'required' },
+      { path: 'query.page', message: 'Too small', rule: 'min', expected: 1, received: -5 },
+    ]).toProblem('/orders');
+
+    expect(problem).toMatchObject({ status: 400, code: 'VALIDATION_ERROR', instance: '/orders' });
+    expect(problem.errors).toEqual([
+      { detail: 'Required', pointer: '#/items/0/name', rule: 'required' },
+      { detail: 'Too small', pointer: '#/query/page', rule: 'min', expected: 1 },
+    ]);
+    expect(problem).not.toHaveProperty('issues');
+  });
+});
+
+describe('registerProblemType()', () => {
+  it('sets the type and title for a class and its subclasses', () => {
+    class PaymentError extends HttpError {
+      constructor(message: string) {
+        super(402, message, { code: 'PAYMENT_FAILED' });
+      }
+    }
+    class CardDeclinedError extends PaymentError {}
+    registerProblemType(PaymentError, 'https://example.com/problems/payment', 'Payment failed');
+
+    expect(new CardDeclinedError('Card declined').toProblem()).toMatchObject({
+      type: 'https://example.com/problems/payment',
+      title: 'Payment failed',
+      detail: 'Card declined',
+    });
+  });
+
+  it('lets a subclass override its ancestor and keeps the status title when none is given', () => {
+    class QuotaError extends HttpError {}
+    class DailyQuotaError extends QuotaError {}
+    registerProblemType(QuotaError, 'https://example.com/problems/quota', 'Quota exceeded');
+    registerProblemType(DailyQuotaError, 'https://example.com/problems/daily-quota');
+
+    expect(getProblemType(new DailyQuotaError(429, 'Try tomorrow'))).toEqual({
+      type: 'https://example.com/problems/daily-quota',
+    });
+    expect(new DailyQuotaError(429, 'Try tomorrow').toProblem().title).toBe('Too Many Requests');
+  });
+
+  it('returns undefined for an unregistered error', () => {
+    expect(getProblemType(new Error('plain'))).toBeUndefined();
+  });
+
+  it('rejects an empty type', () => {
+    class EmptyError extends HttpError {}
+    expect(() => registerProblemType(EmptyError, '')).toThrow(TypeError);
+  });
+});
+
+describe('toJsonPointer()', () => {
+  it('drops the body segment and escapes ~ and /', () => {
+    expect(toJsonPointer('body.items[0].name')).toBe('#/items/0/name');
+    expect(toJsonPointer('body')).toBe('#');
+    expect(toJsonPointer('params.id')).toBe('#/params/id');
+    expect(toJsonPointer('body.a~b.c/d')).toBe('#/a~0b/c~1d');
+  });
+});
+
+describe('acceptsProblem()', () => {
+  it.each([
+    ['application/problem+json', true],
+    ['application/problem+json, application/json', true],
+    ['application/json;q=0.5, application/problem+json', true],
+    ['application/json, application/problem+json;q=0.9', false],
+    ['application/problem+json;q=0', false],
+    ['application/json', false],
+    ['*/*', false],
+    [undefined, false],
+  ])('%s → %s', (accept, expected) => {
+    expect(acceptsProblem(accept)).toBe(expected);
+  });
+});
+
+describe('errorHandler({ format })', () => {
+  it("always sends problem details with format: 'problem'", async () => {
+    const ctx = createMockContext();
+
+    await errorHandler({ format: 'problem' })(ctx, async () => {
+      throw new BadRequestError('Missing order id');
+    });
+
+    expect(ctx.status).toBe(400);
+    expect(ctx.json).not.toHaveBeenCalled();
+    expect(ctx.set).toHaveBeenCalledWith('Content-Type', `${PROBLEM_CONTENT_TYPE}; charset=utf-8`);
+    expect(sentProblem(ctx)).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Missing order id',
+      instance: '/orders/42',
+      code: 'BAD_REQUEST',
+    });
+  });
+
+  it('hides a non-NextRush error but still applies its registered type', async () => {
+    class StorageError extends Error {}
+    registerProblemType(StorageError, 'https://example.com/problems/storage');
+    const ctx = createMockContext();
+
+    await errorHandler({ format: 'problem', logger: vi.fn() })(ctx, async () => {
+      throw new StorageError('disk /dev/sda1 full');
+    });
+
+    expect(ctx.status).toBe(500);
+    expect(sentProblem(ctx)).toEqual({
+      type: 'https://example.com/problems/storage',
+      title: 'Internal Server Error',
+      status: 500,
+      instance: '/orders/42',
+      code: 'INTERNAL_ERROR',
+    });
+  });
+
+  it('adds the stack as an extension outside production when includeStack is set', async () => {
+    const ctx = createMockContext();
+
+    await errorHandler({ format: 'problem', includeStack: true })(ctx, async () => {
+      throw new NotFoundError();
+    });
+
+    expect(Array.isArray(sentProblem(ctx).stack)).toBe(true);
+  });
+
+  it('sends a transform body as given, under the problem content type', async () => {
+    const ctx = createMockContext();
+    const transform = () => ({ type: 'urn:custom', title: 'Custom', status: 418 });
+
+    await errorHandler({ format: 'problem', transform })(ctx, async () => {
+      throw new NotFoundError();
+    });
+
+    expect(sentProblem(ctx)).toEqual({ type: 'urn:custom', title: 'Custom', status: 418 });
+  });
+
+  it("negotiates on the Accept header with format: 'negotiate'", async () => {
+    const handler = errorHandler({ format: 'negotiate' });
+    const fail = async () => {
+      throw new NotFoundError();
+    };
+
+    const problemCtx = createMockContext('application/problem+json');
+    await handler(problemCtx, fail);
+    expect(sentProblem(problemCtx)).toMatchObject({ status: 404, title: 'Not Found' });
+
+    const jsonCtx = createMockContext('application/json, */*');
+    await handler(jsonCtx, fail);
+    expect(jsonCtx.send).not.toHaveBeenCalled();
+    expect(jsonCtx.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'NOT_FOUND' }));
+
+    expect(problemCtx.set).toHaveBeenCalledWith('Vary', 'Accept');
+    expect(jsonCtx.set).toHaveBeenCalledWith('Vary', 'Accept');
+  });
+
+  it('adds Accept to a Vary an earlier middleware set', async () => {
+    const ctx = createMockContext('application/problem+json');
+    Object.assign(ctx, { raw: { res: { getHeader: () => 'Origin' } } });
+
+    await errorHandler({ format: 'negotiate' })(ctx, async () => {
+      throw new NotFoundError();
+    });
+
+    expect(ctx.set).toHaveBeenCalledWith('Vary', 'Origin, Accept');
+  });
+
+  it('leaves Vary alone unless it negotiates', async () => {
+    const ctx = createMockContext('application/problem+json');
+
+    await errorHandler({ format: 'problem' })(ctx, async () => {
+      throw new NotFoundError();
+    });
+
+    expect(ctx.set).not.toHaveBeenCalledWith('Vary', expect.anything());
+  });
+
+  it('keeps the NextRush shape by default, whatever the client accepts', async () => {
+    const ctx = createMockContext('application/problem+json');
+
+    await errorHandler()(ctx, async () => {
+      throw new NotFoundError();
+    });
+
+    expect(ctx.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'NotFoundError' }));
+  });
+});
+
+describe('notFoundHandler(message, { format })', () => {
+  it('sends problem details for an unhandled request', async () => {
+    const ctx = createMockContext();
+    ctx.status = 404;
+
+    await notFoundHandler('No such route', { format: 'problem' })(ctx, noop);
+
+    expect(sentProblem(ctx)).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'No such route',
+      instance: '/orders/42',
+      code: 'NOT_FOUND',
+    });
+  });
+
+  it("varies on Accept with format: 'negotiate'", async () => {
+    const ctx = createMockContext('application/json');
+    ctx.status = 404;
+
+    await notFoundHandler('No such route', { format: 'negotiate' })(ctx, noop);
+
+    expect(ctx.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'NOT_FOUND' }));
+    expect(ctx.set).toHaveBeenCalledWith('Vary', 'Accept');
+  });
+});
@@ -9,7 +9,10 @@ import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as errorsApi from '../index';
 import type { ErrorHandlerOptions } from '../index';
 import type { HttpErrorOptions } from '../index';
+import type { RequestTimeoutErrorOptions } from '../index';
 import type { ValidationIssue } from '../index';
+import type { ErrorResponseFormat, ProblemDetails, ProblemValidationError } from '../index';
+import type { NotFoundHandlerOptions } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
@@ -102,6 +105,14 @@ describe('Public API surface (runtime exports)', () => {
       'unauthorized',
       'unprocessableEntity',
 
+      // Problem details (RFC 9457)
+      'DEFAULT_PROBLEM_TYPE',
+      'PROBLEM_CONTENT_TYPE',
+      'acceptsProblem',
+      'getProblemType',
+      'registerProblemType',
+      'toJsonPointer',
+
       // Middleware
       'errorHandler',
       'notFoundHandler',
@@ -115,7 +126,16 @@ describe('Public API surface (type-only exports)', () => {
   it('the type-only surface stays importable from the barrel', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
-    type Surface = [HttpErrorOptions, ValidationIssue, ErrorHandlerOptions];
+    type Surface = [
+      HttpErrorOptions,
+      RequestTimeoutErrorOptions,
+      ValidationIssue,
+      ErrorHandlerOptions,
+      NotFoundHandlerOptions,
+      ProblemDetails,
+      ProblemValidationError,
+      ErrorResponseFormat,
+    ];
     expectTypeOf<Surface>().not.toBeNever();
   });
 });
@@ -7,6 +7,7 @@
  */
 
 import { codeForStatus } from './codes';
+import { DEFAULT_PROBLEM_TYPE, getProblemType, type ProblemDetails } from './problem';
 
 /** Options accepted by {@link NextRushError.hydrate} when reconstructing errors. */
 interface HydrateOptions {
@@ -152,6 +153,47 @@ export class NextRushError extends Error {
     return json;
   }
 
+  /**
+   * Convert error to an RFC 9457 problem details object.
+   *
+   * @remarks
+   * `type` and `title` come from {@link registerProblemType} for this class
+   * (or its nearest registered ancestor), else `about:blank` and the status
+   * phrase. `detail` carries the message only when the error is exposed —
+   * the same boundary as {@link toJSON} — and `code`, exposed `details` and
+   * `cause`, and the correlation identifiers become extension members.
+   *
+   * @param instance - URI reference for this occurrence, usually the request path.
+   */
+  toProblem(instance?: string): ProblemDetails {
+    const registered = getProblemType(this);
+    const problem: ProblemDetails = {
+      type: registered?.type ?? DEFAULT_PROBLEM_TYPE,
+      title: registered?.title ?? getHttpStatusMessage(this.status),
+      status: this.status,
+    };
+
+    if (this.expose) problem.detail = this.message;
+    if (instance !== undefined) problem.instance = instance;
+    problem.code = this.code;
+
+    if (this.expose && this.details) {
+      problem.details = this.details;
+    }
+    if (this.expose && this.cause !== undefined) {
+      const serialized = serializeCause(this.cause, new Set(), 0);
+      if (serialized !== undefined) {
+        problem.cause = serialized;
+      }
+    }
+
+    if (this.requestId !== undefined) problem.requestId = this.requestId;
+    if (this.traceId !== undefined) problem.traceId = this.traceId;
+    if (this.timestamp !== undefined) problem.timestamp = this.timestamp;
+
+    return problem;
+  }
+
   /**
    * Reconstruct a {@link NextRushError} from a serialized {@link toJSON} payload
    * (audit E-7).
@@ -111,12 +111,33 @@ export class ProxyAuthRequiredError extends HttpError {
   }
 }
 
+/**
+ * Options for {@link RequestTimeoutError}.
+ */
+export interface RequestTimeoutErrorOptions extends HttpErrorOptions {
+  /**
+   * `408` when the client was too slow (the default); `503` or `504` when the
+   * server ran out of time producing the response.
+   */
+  status?: 408 | 503 | 504;
+  /** The deadline that elapsed, in milliseconds. */
+  timeout?: number;
+}
+
 /**
  * 408 Request Timeout - Client took too long
+ *
+ * Also raised with status 503/504 by `@nextrush/timeout` when a handler
+ * exceeds its deadline. The code stays `REQUEST_TIMEOUT` whatever the status,
+ * and the message is exposed — it names the condition, not server internals.
  */
 export class RequestTimeoutError extends HttpError {
-  constructor(message = 'Request Timeout', options: HttpErrorOptions = {}) {
-    super(408, message, { code: 'REQUEST_TIMEOUT', ...options });
+  readonly timeout?: number;
+
+  constructor(message = 'Request Timeout', options: RequestTimeoutErrorOptions = {}) {
+    const { status = 408, timeout, ...rest } = options;
+    super(status, message, { code: 'REQUEST_TIMEOUT', expose: true, ...rest });
+    this.timeout = timeout;
   }
 }
 
@@ -46,6 +46,7 @@ export {
   UpgradeRequiredError,
   UriTooLongError,
   type HttpErrorOptions,
+  type RequestTimeoutErrorOptions,
 } from './http-errors';
 
 // HTTP errors - 5xx
@@ -96,5 +97,23 @@ export {
   unprocessableEntity,
 } from './factory';
 
+// Problem details (RFC 9457)
+export {
+  DEFAULT_PROBLEM_TYPE,
+  PROBLEM_CONTENT_TYPE,
+  acceptsProblem,
+  getProblemType,
+  registerProblemType,
+  toJsonPointer,
+  type ErrorResponseFormat,
+  type ProblemDetails,
+  type ProblemValidationError,
+} from './problem';
+
 // Middleware
-export { errorHandler, notFoundHandler, type ErrorHandlerOptions } from './middleware';
+export {
+  errorHandler,
+  notFoundHandler,
+  type ErrorHandlerOptions,
+  type NotFoundHandlerOptions,
+} from './middleware';
@@ -9,6 +9,15 @@
 import type { Context, Middleware, Next } from '@nextrush/types';
 import { SECURITY_AUDIT, type SecurityAuditVerdict } from '@nextrush/types';
 import { HttpError, NextRushError, getHttpStatusMessage } from './base';
+import { NotFoundError } from './http-errors';
+import {
+  DEFAULT_PROBLEM_TYPE,
+  PROBLEM_CONTENT_TYPE,
+  acceptsProblem,
+  getProblemType,
+  type ErrorResponseFormat,
+  type ProblemDetails,
+} from './problem';
 
 /**
  * Error handler options
@@ -38,6 +47,16 @@ export interface ErrorHandlerOptions {
   /** Custom error transformer */
   transform?: (error: Error, ctx: Context) => Record<string, unknown>;
 
+  /**
+   * Response body format. `'problem'` and a negotiated problem response are
+   * RFC 9457 `application/problem+json` built by `toProblem()`, with the
+   * request path as `instance`; a `transform` body is sent as given, under
+   * the chosen content type.
+   *
+   * @default 'json'
+   */
+  format?: ErrorResponseFormat;
+
   /** Handle specific error types */
   handlers?: Map<new (...args: unknown[]) => Error, (error: Error, ctx: Context) => void>;
 }
@@ -55,6 +74,60 @@ function defaultLogger(error: Error, ctx: Context): void {
   }
 }
 
+/**
+ * Whether `format` resolves to problem details for this request
+ */
+function wantsProblem(format: ErrorResponseFormat, ctx: Context): boolean {
+  return format === 'problem' || (format === 'negotiate' && acceptsProblem(ctx.get('accept')));
+}
+
+/**
+ * Add `Accept` to the response's `Vary`, since a negotiated body depends on
+ * it, keeping what an earlier middleware (CORS's `Origin`, say) put there.
+ * The current value is read where the adapter exposes it (Node).
+ */
+function varyOnAccept(ctx: Context): void {
+  const res = (ctx.raw as { res?: { getHeader?: (name: string) => unknown } } | undefined)?.res;
+  const value = typeof res?.getHeader === 'function' ? res.getHeader('vary') : undefined;
+  let current = '';
+  if (typeof value === 'string') current = value;
+  else if (Array.isArray(value)) current = value.join(', ');
+
+  const fields = current.split(',').map((field) => field.trim().toLowerCase());
+  if (fields.includes('*') || fields.includes('accept')) return;
+  ctx.set('Vary', current.trim() ? `${current}, Accept` : 'Accept');
+}
+
+/**
+ * Write `body` as `application/problem+json`. `ctx.json()` would force
+ * `application/json`, so the body is serialized here and the preset content
+ * type is kept by `ctx.send()`.
+ */
+function sendProblem(ctx: Context, body: Record<string, unknown>): void {
+  ctx.set('Content-Type', `${PROBLEM_CONTENT_TYPE}; charset=utf-8`);
+  ctx.send(JSON.stringify(body));
+}
+
+/**
+ * Problem details for an error outside the NextRush hierarchy — a registered
+ * type still applies, but nothing about the error itself is exposed
+ */
+function genericProblem(
+  err: Error,
+  status: number,
+  code: string,
+  instance: string
+): ProblemDetails {
+  const registered = getProblemType(err);
+  return {
+    type: registered?.type ?? DEFAULT_PROBLEM_TYPE,
+    title: registered?.title ?? getHttpStatusMessage(status),
+    status,
+    instance,
+    code,
+  };
+}
+
 /**
  * Create error handler middleware
  *
@@ -67,10 +140,20 @@ function defaultLogger(error: Error, ctx: Context): void {
  *   includeStack: process.env.NODE_ENV !== 'production',
  *   logger: (err, ctx) => myLogger.error(err),
  * }));
+ *
+ * // RFC 9457 problem details for clients that ask for them
+ * app.use(errorHandler({ format: 'negotiate' }));
  * ```
  */
 export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
-  const { includeStack = false, isProduction = false, logger = defaultLogger, transform, handlers } = options;
+  const {
+    includeStack = false,
+    isProduction = false,
+    logger = defaultLogger,
+    transform,
+    handlers,
+    format = 'json',
+  } = options;
 
   // SEC-14: warn once per process, not once per request — a per-request
   // warning on a hot error path floods logs for no added value once the
@@ -110,12 +193,21 @@ export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
       }
 
       ctx.status = status;
+      if (format === 'negotiate') varyOnAccept(ctx);
 
       // Build response body
+      const problem = wantsProblem(format, ctx);
       let body: Record<string, unknown>;
 
       if (transform) {
         body = transform(err, ctx);
+      } else if (problem) {
+        // toProblem() is the problem-details counterpart of toJSON() below —
+        // the same exposure rules, owned by the error class.
+        body =
+          err instanceof NextRushError
+            ? err.toProblem(ctx.path)
+            : genericProblem(err, status, code, ctx.path);
       } else if (err instanceof NextRushError) {
         // Delegate to the error's own toJSON() — this is the single source of
         // truth for what a given error type serializes to (e.g. ValidationError
@@ -152,7 +244,11 @@ export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
         }
       }
 
-      ctx.json(body);
+      if (problem) {
+        sendProblem(ctx, body);
+      } else {
+        ctx.json(body);
+      }
     }
   };
 
@@ -170,7 +266,7 @@ export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
         message:
           'errorHandler({ includeStack: true }) was constructed without isProduction — the ' +
           'per-request guard that ignores includeStack in production never fires unless ' +
-          "isProduction is explicitly threaded through (e.g. isProduction: app.isProduction). " +
+          'isProduction is explicitly threaded through (e.g. isProduction: app.isProduction). ' +
           'Wire it, or this instance will leak stack traces in production.',
       };
     }
@@ -185,6 +281,18 @@ export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
   return handler;
 }
 
+/**
+ * Not found handler options
+ */
+export interface NotFoundHandlerOptions {
+  /**
+   * Response body format, as for {@link ErrorHandlerOptions.format}
+   *
+   * @default 'json'
+   */
+  format?: ErrorResponseFormat;
+}
+
 /**
  * Not found handler middleware - catches unhandled requests
  *
@@ -192,13 +300,24 @@ export function errorHandler(options: ErrorHandlerOptions = {}): Middleware {
  * ```typescript
  * // Add at the end of middleware chain
  * app.use(notFoundHandler());
+ * app.use(notFoundHandler('Not Found', { format: 'problem' }));
  * ```
  */
-export function notFoundHandler(message = 'Not Found'): Middleware {
+export function notFoundHandler(
+  message = 'Not Found',
+  options: NotFoundHandlerOptions = {}
+): Middleware {
+  const { format = 'json' } = options;
+
   return async (ctx: Context, next: Next): Promise<void> => {
     await next();
     // Only handle if no response was sent and status indicates unhandled
     if (!ctx.responded && ctx.status === 404) {
+      if (format === 'negotiate') varyOnAccept(ctx);
+      if (wantsProblem(format, ctx)) {
+        sendProblem(ctx, new NotFoundError(message).toProblem(ctx.path));
+        return;
+      }
       ctx.json({
         error: 'NotFoundError',
         message,
@@ -208,4 +327,3 @@ export function notFoundHandler(message = 'Not Found'): Middleware {
     }
   };
 }
-
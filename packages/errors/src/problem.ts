@@ -0,0 +1,145 @@
+/**
+ * @nextrush/errors - Problem Details (RFC 9457)
+ *
+ * The `application/problem+json` shape, the per-class registry of problem
+ * type URIs, and the helpers the error middleware uses to decide between it
+ * and the NextRush JSON shape.
+ *
+ * @packageDocumentation
+ */
+
+/** Media type of an RFC 9457 problem details document */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/** Problem type used when none is registered: the problem is just its status */
+export const DEFAULT_PROBLEM_TYPE = 'about:blank';
+
+/**
+ * An RFC 9457 problem details object. Members beyond the five standard ones
+ * are extension members (NextRush adds `code`, and `errors` for validation).
+ */
+export interface ProblemDetails {
+  /** URI reference identifying the problem type (default `'about:blank'`) */
+  type: string;
+  /** Short summary of the problem type; the same for every occurrence */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Explanation of this occurrence — omitted when the error is not exposed */
+  detail?: string;
+  /** URI reference identifying this occurrence (the request path) */
+  instance?: string;
+  /** Extension members */
+  [extension: string]: unknown;
+}
+
+/** One entry of a validation problem's `errors` extension */
+export interface ProblemValidationError {
+  /** What is wrong with the value */
+  detail: string;
+  /** JSON Pointer to the value, with body fields at the root (`'#/items/0/name'`) */
+  pointer: string;
+  /** Validation rule that failed */
+  rule?: string;
+  /** Expected value or constraint */
+  expected?: unknown;
+}
+
+/**
+ * How `errorHandler()` writes an error response:
+ * - `'json'` — the NextRush shape from `toJSON()` (default)
+ * - `'problem'` — always `application/problem+json`
+ * - `'negotiate'` — `application/problem+json` when the `Accept` header asks
+ *   for it at least as strongly as `application/json`, otherwise `'json'`
+ */
+export type ErrorResponseFormat = 'json' | 'problem' | 'negotiate';
+
+interface ProblemType {
+  readonly type: string;
+  readonly title: string | undefined;
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error;
+
+const problemTypes = new Map<ErrorClass, ProblemType>();
+
+/**
+ * Register the problem type URI (and optionally its title) for an error
+ * class. Subclasses inherit it unless they register their own.
+ *
+ * @example
+ * ```typescript
+ * registerProblemType(ValidationError, 'https://api.example.com/problems/validation', 'Invalid request');
+ * registerProblemType(OutOfCreditError, 'https://api.example.com/problems/out-of-credit');
+ * ```
+ */
+export function registerProblemType(ErrorType: ErrorClass, type: string, title?: string): void {
+  if (typeof type !== 'string' || type.length === 0) {
+    throw new TypeError('Problem type must be a non-empty URI reference');
+  }
+  problemTypes.set(ErrorType, { type, title });
+}
+
+/**
+ * The problem type registered for `error`'s class or its nearest registered
+ * ancestor, or `undefined` when none is.
+ */
+export function getProblemType(error: Error): { type: string; title?: string } | undefined {
+  let proto: unknown = Object.getPrototypeOf(error);
+  while (proto !== null && proto !== Object.prototype) {
+    const registered = problemTypes.get((proto as { constructor: ErrorClass }).constructor);
+    if (registered) {
+      return registered.title === undefined
+        ? { type: registered.type }
+        : { type: registered.type, title: registered.title };
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return undefined;
+}
+
+/**
+ * Convert a validation issue path to a JSON Pointer fragment. A leading
+ * `body` segment is dropped so body fields point into the request body.
+ *
+ * @example
+ * toJsonPointer('body.items[0].name') // '#/items/0/name'
+ * toJsonPointer('query.page')         // '#/query/page'
+ */
+export function toJsonPointer(path: string): string {
+  const segments = path
+    .replace(/\[(\w*)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+  if (segments[0] === 'body') segments.shift();
+  return `#${segments.map((segment) => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('')}`;
+}
+
+/** `q` of the first `Accept` entry matching `type` exactly, or `0`. */
+function quality(accept: string, type: string): number {
+  for (const entry of accept.split(',')) {
+    const [range = '', ...params] = entry.split(';').map((part) => part.trim());
+    if (range.toLowerCase() !== type) continue;
+    for (const param of params) {
+      const [name, value] = param.split('=').map((part) => part.trim());
+      if (name?.toLowerCase() === 'q') {
+        const q = Number(value);
+        return Number.isFinite(q) ? q : 0;
+      }
+    }
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Whether a request's `Accept` header prefers problem details: it must name
+ * `application/problem+json` with a non-zero quality no lower than that of
+ * `application/json`. Wildcards never opt in, so existing clients keep the
+ * NextRush shape.
+ */
+export function acceptsProblem(accept: string | undefined): boolean {
+  if (!accept) return false;
+  const problem = quality(accept, PROBLEM_CONTENT_TYPE);
+  return problem > 0 && problem >= quality(accept, 'application/json');
+}
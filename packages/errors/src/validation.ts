@@ -7,6 +7,7 @@
  */
 
 import { NextRushError } from './base';
+import { toJsonPointer, type ProblemDetails, type ProblemValidationError } from './problem';
 
 /**
  * Single validation issue
@@ -108,6 +109,23 @@ export class ValidationError extends NextRushError {
       })),
     };
   }
+
+  /**
+   * Problem details with the issues as an `errors` extension — one
+   * `{ detail, pointer }` entry per issue, `received` stripped as in `toJSON()`
+   */
+  override toProblem(instance?: string): ProblemDetails {
+    const problem = super.toProblem(instance);
+    problem.errors = this.issues.map(
+      ({ path, message, rule, expected }): ProblemValidationError => ({
+        detail: message,
+        pointer: toJsonPointer(path),
+        ...(rule !== undefined && { rule }),
+        ...(expected !== undefined && { expected }),
+      })
+    );
+    return problem;
+  }
 }
 
 /**
@@ -0,0 +1,449 @@
+/**
+ * @nextrush/config - Loading, layering, validation and redaction
+ */
+
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inspect } from 'node:util';
+import { createApp } from '@nextrush/core';
+import { Config, createContainer } from '@nextrush/di';
+import type { StandardSchemaIssue, StandardSchemaV1 } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  ConfigError,
+  ConfigSourceError,
+  ConfigValidationError,
+  REDACTED,
+  configuration,
+  defaultSources,
+  defineConfig,
+  dotenvSource,
+  envSource,
+  fileSource,
+  parseDotenv,
+  valuesSource,
+  type ConfigSource,
+} from '../index';
+
+// A minimal StandardSchema: each field's check returns an error message or
+// undefined. Unknown fields pass through untouched.
+type Checks<T> = { [K in keyof T]: (value: unknown) => string | undefined };
+
+function schema<T extends Record<string, unknown>>(checks: Checks<T>): StandardSchemaV1<unknown, T> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate(value) {
+        const input = value as Record<string, unknown>;
+        const issues: StandardSchemaIssue[] = [];
+        for (const [key, check] of Object.entries(checks) as [string, (v: unknown) => string | undefined][]) {
+          const message = check(input[key]);
+          if (message !== undefined) issues.push({ message, path: [{ key }] });
+        }
+        return issues.length > 0 ? { issues } : { value: input as T };
+      },
+    },
+  };
+}
+
+const isString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? undefined : `Expected string, received ${JSON.stringify(value)}`;
+const isNumber = (value: unknown): string | undefined =>
+  typeof value === 'number' ? undefined : `Expected number, received ${JSON.stringify(value)}`;
+const isBoolean = (value: unknown): string | undefined =>
+  typeof value === 'boolean' ? undefined : 'Expected boolean';
+const minLength =
+  (length: number) =>
+  (value: unknown): string | undefined =>
+    typeof value === 'string' && value.length >= length
+      ? undefined
+      : `Expected at least ${String(length)} characters, received "${String(value)}"`;
+
+async function load(configs: Parameters<typeof configuration>[0]['configs'], sources: ConfigSource[]) {
+  const app = createApp().extend(configuration({ configs, sources }));
+  await app.ready();
+  return app;
+}
+
+describe('parseDotenv()', () => {
+  it('parses assignments, exports, quotes and comments', () => {
+    const text = [
+      '# comment',
+      'PLAIN=value',
+      'export EXPORTED=1',
+      'SPACED = padded  ',
+      'DOUBLE="line\\nbreak"',
+      "SINGLE='kept\\n'",
+      'TRAILING=value # comment',
+      'EMPTY=',
+      'not a line',
+    ].join('\r\n');
+
+    expect(parseDotenv(text)).toEqual({
+      PLAIN: 'value',
+      EXPORTED: '1',
+      SPACED: 'padded',
+      DOUBLE: 'line\nbreak',
+      SINGLE: 'kept\\n',
+      TRAILING: 'value',
+      EMPTY: '',
+    });
+  });
+});
+
+describe('layering', () => {
+  const Database = defineConfig({
+    name: 'Database',
+    prefix: 'DB',
+    schema: schema<{ host: string; port: number; ssl: boolean }>({
+      host: isString,
+      port: isNumber,
+      ssl: isBoolean,
+    }),
+    defaults: { host: 'localhost', port: 5432, ssl: false },
+  });
+
+  it('applies sources in order over the defaults', async () => {
+    const app = await load(
+      [Database],
+      [
+        valuesSource({ db: { host: 'file-host', port: 6000 } }, 'config/default.json'),
+        envSource({ DB_PORT: '7000' }),
+      ]
+    );
+
+    expect(app.config(Database)).toEqual({ host: 'file-host', port: 7000, ssl: false });
+  });
+
+  it('coerces variables to the type of the value they replace', async () => {
+    const app = await load([Database], [envSource({ DB_PORT: '6543', DB_SSL: 'yes' })]);
+
+    expect(app.config(Database).port).toBe(6543);
+    expect(app.config(Database).ssl).toBe(true);
+  });
+
+  it('keeps a variable that does not convert as a string for the schema to reject', async () => {
+    await expect(load([Database], [envSource({ DB_PORT: 'not-a-port' })])).rejects.toThrow(
+      'Database.port: Expected number, received "not-a-port" (from env (DB_PORT))'
+    );
+  });
+
+  it('maps snake case to camel case and double underscores to nesting', async () => {
+    const Pool = defineConfig({
+      name: 'Pool',
+      prefix: 'DB',
+      schema: schema<{ poolSize: number; pool: { max: number } }>({
+        poolSize: isNumber,
+        pool: () => undefined,
+      }),
+      defaults: { poolSize: 1, pool: { max: 1 } },
+    });
+
+    const app = await load([Pool], [envSource({ DB_POOL_SIZE: '4', DB_POOL__MAX: '9' })]);
+
+    expect(app.config(Pool)).toEqual({ poolSize: 4, pool: { max: 9 } });
+  });
+
+  it('reads the root and only known fields when there is no prefix', async () => {
+    const App = defineConfig({
+      name: 'App',
+      schema: schema<{ port: number }>({ port: isNumber }),
+      defaults: { port: 3000 },
+    });
+
+    const app = await load([App], [envSource({ PORT: '8080', PATH: '/usr/bin' })]);
+
+    expect(app.config(App)).toEqual({ port: 8080 });
+  });
+
+  it('ignores prototype keys in sources', async () => {
+    const app = await load(
+      [Database],
+      [valuesSource(JSON.parse('{"db":{"__proto__":{"polluted":true}}}') as Record<string, unknown>)]
+    );
+
+    expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+    expect(app.config(Database)).toEqual({ host: 'localhost', port: 5432, ssl: false });
+  });
+
+  it('records the origin of every field', async () => {
+    const app = await load(
+      [Database],
+      [valuesSource({ db: { host: 'file-host' } }, 'config/test.yaml'), envSource({ DB_PORT: '1' })]
+    );
+
+    expect(app.config.describe()[0]?.origins).toEqual({
+      host: 'config/test.yaml',
+      port: 'env (DB_PORT)',
+      ssl: 'defaults',
+    });
+  });
+});
+
+describe('file sources', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nextrush-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads JSON and YAML files', async () => {
+    await writeFile(join(dir, 'a.json'), '{"db":{"host":"json"}}');
+    await writeFile(join(dir, 'b.yaml'), 'db:\n  port: 1234\n');
+
+    expect(await fileSource(join(dir, 'a.json')).load()).toEqual({ db: { host: 'json' } });
+    expect(await fileSource(join(dir, 'b.yaml')).load()).toEqual({ db: { port: 1234 } });
+  });
+
+  it('returns {} for a missing optional file and fails for a required one', async () => {
+    expect(await fileSource(join(dir, 'missing.json'), { optional: true }).load()).toEqual({});
+    expect(await dotenvSource(join(dir, '.env'), { optional: true }).load()).toEqual({});
+    await expect(fileSource(join(dir, 'missing.json')).load()).rejects.toBeInstanceOf(
+      ConfigSourceError
+    );
+  });
+
+  it('fails on malformed files and non-object top levels', async () => {
+    await writeFile(join(dir, 'bad.json'), '{ nope');
+    await writeFile(join(dir, 'list.json'), '[1, 2]');
+
+    await expect(fileSource(join(dir, 'bad.json'), { name: 'bad' }).load()).rejects.toThrow(
+      /Configuration source "bad": cannot parse/
+    );
+    await expect(fileSource(join(dir, 'list.json')).load()).rejects.toThrow(
+      /must contain an object/
+    );
+  });
+
+  it('requires a parser for other extensions', async () => {
+    await writeFile(join(dir, 'app.ini'), 'host=ini');
+
+    await expect(fileSource(join(dir, 'app.ini')).load()).rejects.toThrow(/no parser/);
+    const parsed = await fileSource(join(dir, 'app.ini'), {
+      parse: (text) => Object.fromEntries([text.split('=')]),
+    }).load();
+    expect(parsed).toEqual({ host: 'ini' });
+  });
+
+  it('layers config files, .env files and the environment by default', async () => {
+    await mkdir(join(dir, 'config'));
+    await writeFile(join(dir, 'config/default.json'), '{"db":{"host":"default","port":1}}');
+    await writeFile(join(dir, 'config/staging.yml'), 'db:\n  port: 2\n');
+    await writeFile(join(dir, '.env'), 'DB_USER=dotenv\nDB_PASSWORD=dotenv');
+    await writeFile(join(dir, '.env.staging'), 'DB_PASSWORD=staging');
+
+    const Database = defineConfig({
+      name: 'Database',
+      prefix: 'DB',
+      schema: schema<{ host: string; port: number; user: string; password: string }>({
+        host: isString,
+        port: isNumber,
+        user: isString,
+        password: isString,
+      }),
+    });
+    const sources = defaultSources({ env: 'staging', dir, variables: { DB_HOST: 'env' } });
+    const app = await load([Database], sources);
+
+    expect(app.config(Database)).toEqual({
+      host: 'env',
+      port: 2,
+      user: 'dotenv',
+      password: 'staging',
+    });
+    expect(app.config.describe()[0]?.origins).toEqual({
+      host: 'env (DB_HOST)',
+      port: 'config/staging.yml',
+      user: '.env (DB_USER)',
+      password: '.env.staging (DB_PASSWORD)',
+    });
+  });
+});
+
+describe('validation', () => {
+  it('fails ready() with every issue across every configuration', async () => {
+    const Database = defineConfig({
+      name: 'Database',
+      prefix: 'DB',
+      schema: schema<{ host: string; port: number }>({ host: isString, port: isNumber }),
+    });
+    const Mail = defineConfig({
+      name: 'Mail',
+      prefix: 'MAIL',
+      schema: schema<{ from: string }>({ from: isString }),
+    });
+
+    const error = await load([Database, Mail], [envSource({ DB_PORT: 'x' })]).catch(
+      (caught: unknown) => caught
+    );
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      { config: 'Database', path: 'host', message: 'Expected string, received undefined' },
+      {
+        config: 'Database',
+        path: 'port',
+        message: 'Expected number, received "x"',
+        origin: 'env (DB_PORT)',
+      },
+      { config: 'Mail', path: 'from', message: 'Expected string, received undefined' },
+    ]);
+    expect((error as Error).message).toMatch(/^Invalid configuration \(3 issues\):\n {2}- /);
+  });
+
+  it('keeps the value of a secret field out of issue messages', async () => {
+    const Auth = defineConfig({
+      name: 'Auth',
+      prefix: 'AUTH',
+      schema: schema<{ secret: string }>({ secret: minLength(32) }),
+      secrets: ['secret'],
+    });
+
+    const error = (await load([Auth], [envSource({ AUTH_SECRET: 'hunter2' })]).catch(
+      (caught: unknown) => caught
+    )) as ConfigValidationError;
+
+    expect(error.message).not.toContain('hunter2');
+    expect(error.issues[0]?.message).toBe(`Expected at least 32 characters, received "${REDACTED}"`);
+  });
+
+  it('rejects a schema whose output is not an object', async () => {
+    const Broken = defineConfig({
+      name: 'Broken',
+      schema: {
+        '~standard': { version: 1, vendor: 'test', validate: () => ({ value: 42 }) },
+      } as StandardSchemaV1<unknown, number>,
+    });
+
+    await expect(load([Broken], [])).rejects.toThrow('Broken: Schema output must be an object');
+  });
+
+  it('propagates source errors', async () => {
+    const failing: ConfigSource = {
+      name: 'remote',
+      format: 'tree',
+      load: () => Promise.reject(new ConfigSourceError('remote', 'unreachable')),
+    };
+
+    await expect(load([], [failing])).rejects.toThrow('Configuration source "remote": unreachable');
+  });
+});
+
+describe('@Config classes', () => {
+  class DatabaseConfig {
+    readonly host = 'localhost';
+    readonly port = 5432;
+    readonly password = '';
+  }
+  Config({
+    prefix: 'DB',
+    schema: schema({ host: isString, port: isNumber, password: minLength(1) }),
+    secrets: ['password'],
+  })(DatabaseConfig);
+
+  it('assigns the validated values onto the container instance', async () => {
+    const container = createContainer();
+    const injected = container.resolve(DatabaseConfig);
+
+    const app = createApp({ container }).extend(
+      configuration({
+        configs: [DatabaseConfig],
+        sources: [envSource({ DB_PORT: '6000', DB_PASSWORD: 's3cret' })],
+      })
+    );
+    expect(injected.port).toBe(5432);
+    await app.ready();
+
+    expect(app.config(DatabaseConfig)).toBe(injected);
+    expect(injected.port).toBe(6000);
+    expect(injected.password).toBe('s3cret');
+  });
+
+  it('instantiates the class when the app has no container', async () => {
+    const app = await load([DatabaseConfig], [envSource({ DB_PASSWORD: 'x' })]);
+
+    expect(app.config(DatabaseConfig)).toBeInstanceOf(DatabaseConfig);
+    expect(app.config(DatabaseConfig).host).toBe('localhost');
+  });
+
+  it('rejects classes without @Config()', () => {
+    class Plain {}
+
+    expect(() => configuration({ configs: [Plain] })).toThrow(TypeError);
+    expect(() => configuration({ configs: [Plain] })).toThrow(/not decorated with @Config\(\)/);
+  });
+});
+
+describe('redaction', () => {
+  const Database = defineConfig({
+    name: 'Database',
+    prefix: 'DB',
+    schema: schema<{ host: string; password: string; credentials: { token: string } }>({
+      host: isString,
+      password: isString,
+      credentials: () => undefined,
+    }),
+    defaults: { host: 'localhost', credentials: { token: '' } },
+    secrets: ['password', 'credentials.token'],
+  });
+  const sources = [envSource({ DB_PASSWORD: 'pw', DB_CREDENTIALS__TOKEN: 'tok' })];
+
+  it('redacts secrets in describe(), JSON.stringify() and util.inspect()', async () => {
+    const app = await load([Database], sources);
+    const loaded = app.config(Database);
+    const redacted = { host: 'localhost', password: REDACTED, credentials: { token: REDACTED } };
+
+    expect(loaded.password).toBe('pw');
+    expect(loaded.credentials.token).toBe('tok');
+    expect(app.config.describe()[0]?.values).toEqual(redacted);
+    expect(JSON.parse(JSON.stringify(loaded))).toEqual(redacted);
+    expect(inspect(loaded)).not.toContain('pw');
+    expect(Object.keys(loaded)).toEqual(['host', 'credentials', 'password']);
+  });
+
+  it('redacts secrets in the debug log', async () => {
+    const logged: unknown[][] = [];
+    const app = createApp({
+      logger: {
+        error: () => undefined,
+        warn: () => undefined,
+        info: () => undefined,
+        debug: (...args: unknown[]) => logged.push(args),
+      },
+    }).extend(configuration({ configs: [Database], sources }));
+    await app.ready();
+
+    expect(JSON.stringify(logged)).not.toMatch(/"pw"|"tok"/);
+    expect(logged[0]?.[0]).toBe('Configuration loaded');
+  });
+});
+
+describe('app.config()', () => {
+  it('throws for a configuration that was not loaded', async () => {
+    const Loaded = defineConfig({ name: 'Loaded', schema: schema({}) });
+    const Missing = defineConfig({ name: 'Missing', schema: schema({}) });
+    const app = await load([Loaded], []);
+
+    expect(() => app.config(Missing)).toThrow(ConfigError);
+    expect(() => app.config(Missing)).toThrow('No configuration "Missing" was loaded');
+  });
+
+  it('rejects a configuration listed twice', () => {
+    const Twice = defineConfig({ name: 'Twice', schema: schema({}) });
+
+    expect(() => configuration({ configs: [Twice, Twice] })).toThrow(/listed more than once/);
+  });
+
+  it('validates defineConfig() options', () => {
+    expect(() => defineConfig({ name: '', schema: schema({}) })).toThrow(TypeError);
+    expect(() =>
+      defineConfig({ name: 'X', schema: {} as unknown as StandardSchemaV1 })
+    ).toThrow(/StandardSchema/);
+  });
+});
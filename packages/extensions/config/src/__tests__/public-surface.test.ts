@@ -0,0 +1,70 @@
+/**
+ * @nextrush/config - Public API surface test
+ *
+ * Locks the exported symbol set from `src/index.ts`. If this test fails, the
+ * public API has changed. Intentional changes require an explicit update to
+ * the expected list below, plus a changeset for a published package.
+ */
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import * as configApi from '../index';
+import type {
+  ConfigAccessor,
+  ConfigDefinition,
+  ConfigDescription,
+  ConfigIssue,
+  ConfigSource,
+  ConfigSourceFormat,
+  ConfigToken,
+  ConfigurationOptions,
+  ConfigValues,
+  DefaultSourcesOptions,
+  DefineConfigOptions,
+  FileSourceOptions,
+} from '../index';
+
+describe('Public API surface (runtime exports)', () => {
+  it('exports exactly the intended runtime symbols', () => {
+    const actualExports = Object.keys(configApi).sort();
+
+    // SEALED: intentional public runtime API surface.
+    const expectedRuntime = [
+      'CONFIG_EXTENSION',
+      'ConfigError',
+      'ConfigSourceError',
+      'ConfigValidationError',
+      'REDACTED',
+      'configuration',
+      'defaultSources',
+      'defineConfig',
+      'dotenvSource',
+      'envSource',
+      'fileSource',
+      'parseDotenv',
+      'valuesSource',
+    ].sort();
+
+    expect(actualExports).toEqual(expectedRuntime);
+  });
+});
+
+describe('Public API surface (type-only exports)', () => {
+  it('the type-only surface stays importable from the barrel', () => {
+    // Compile-time only: removing/renaming any of these in src/index.ts fails
+    // this file to type-check.
+    type Surface = [
+      ConfigAccessor,
+      ConfigDefinition,
+      ConfigDescription,
+      ConfigIssue,
+      ConfigSource,
+      ConfigSourceFormat,
+      ConfigToken,
+      ConfigurationOptions,
+      ConfigValues,
+      DefaultSourcesOptions,
+      DefineConfigOptions<never>,
+      FileSourceOptions,
+    ];
+    expectTypeOf<Surface>().not.toBeNever();
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * @nextrush/config - Constants
+ *
+ * @packageDocumentation
+ */
+
+/** The extension's name — the one other extensions list in `needs`/`optionalNeeds`. */
+export const CONFIG_EXTENSION = 'config';
+
+/** What a secret field's value is replaced with in logs, diagnostics and serialized output. */
+export const REDACTED = '[REDACTED]';
+
+/** Directory, relative to `dir`, the default sources read JSON/YAML files from. */
+export const DEFAULT_CONFIG_DIR = 'config';
+
+/** Origin recorded for a value that came from the class initializer or `defaults`. */
+export const DEFAULTS_ORIGIN = 'defaults';
+
+/** Keys never merged into a configuration object. */
+export const UNSAFE_KEYS: ReadonlySet<string> = new Set(['__proto__', 'constructor', 'prototype']);
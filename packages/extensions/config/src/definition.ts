@@ -0,0 +1,128 @@
+/**
+ * @nextrush/config - Configuration targets
+ *
+ * `defineConfig()`, and the one internal shape both kinds of token — a
+ * `@Config` class or a definition — are normalized to.
+ *
+ * @packageDocumentation
+ */
+
+import { getConfigPrefix, getConfigSchema, getConfigSecrets, getServiceType } from '@nextrush/di';
+import type { Container, InferOutput, StandardSchemaV1 } from '@nextrush/types';
+import type { ConfigDefinition, ConfigToken, ConfigValues, DefineConfigOptions } from './types';
+
+/**
+ * Define a configuration without a class — for functional apps.
+ *
+ * @example
+ * ```typescript
+ * const DatabaseConfig = defineConfig({
+ *   name: 'DatabaseConfig',
+ *   prefix: 'DB',
+ *   schema: z.object({ host: z.string(), port: z.coerce.number(), password: z.string() }),
+ *   defaults: { host: 'localhost', port: 5432 },
+ *   secrets: ['password'],
+ * });
+ *
+ * const app = createApp().extend(configuration({ configs: [DatabaseConfig] }));
+ * await app.ready();
+ * app.config(DatabaseConfig).port; // number
+ * ```
+ *
+ * @throws {TypeError} When `name` is empty or `schema` is not a StandardSchema.
+ */
+export function defineConfig<S extends StandardSchemaV1>(
+  options: DefineConfigOptions<S>
+): ConfigDefinition<InferOutput<S>> {
+  if (typeof options.name !== 'string' || options.name === '') {
+    throw new TypeError('defineConfig() requires a non-empty name.');
+  }
+  if (typeof (options.schema as Partial<StandardSchemaV1>)['~standard'] !== 'object') {
+    throw new TypeError(
+      `defineConfig("${options.name}"): schema must implement StandardSchema ` +
+        '(Zod, Valibot, ArkType, …).'
+    );
+  }
+
+  const definition: ConfigDefinition<InferOutput<S>> = {
+    name: options.name,
+    schema: options.schema,
+    defaults: options.defaults ?? {},
+    secrets: [...(options.secrets ?? [])],
+  };
+  return options.prefix === undefined ? definition : { ...definition, prefix: options.prefix };
+}
+
+/**
+ * A configuration token normalized for loading.
+ */
+export interface ConfigTarget {
+  readonly token: ConfigToken;
+  readonly name: string;
+  readonly prefix?: string;
+  readonly schema?: StandardSchemaV1;
+  readonly secrets: readonly string[];
+  /**
+   * The object the values end up on — the class instance (resolved from the
+   * app container when there is one, so injected references see the loaded
+   * values), or `undefined` for a definition.
+   */
+  instantiate(container: Container | undefined): object | undefined;
+  /** The lowest layer: the instance's own fields, or the definition's `defaults`. */
+  defaults(instance: object | undefined): ConfigValues;
+  /** Put the validated values in place and return what `app.config()` returns. */
+  commit(instance: object | undefined, values: ConfigValues): object;
+}
+
+type ConfigClass = new (...args: never[]) => unknown;
+
+function classTarget(target: ConfigClass): ConfigTarget {
+  if (getServiceType(target) !== 'config') {
+    throw new TypeError(
+      `configuration(): ${target.name || 'an anonymous class'} is not decorated with ` +
+        '@Config(). Decorate it, or use defineConfig() for a class-free configuration.'
+    );
+  }
+
+  const prefix = getConfigPrefix(target);
+  const schema = getConfigSchema(target);
+  return {
+    token: target,
+    name: target.name,
+    ...(prefix === undefined ? {} : { prefix }),
+    ...(schema === undefined ? {} : { schema }),
+    secrets: getConfigSecrets(target),
+    instantiate(container) {
+      const Target = target as unknown as new () => object;
+      return container === undefined ? new Target() : container.resolve<object>(Target);
+    },
+    defaults(instance) {
+      return { ...instance };
+    },
+    commit(instance, values) {
+      return Object.assign(instance ?? {}, values);
+    },
+  };
+}
+
+function definitionTarget(definition: ConfigDefinition<unknown>): ConfigTarget {
+  return {
+    token: definition,
+    name: definition.name,
+    ...(definition.prefix === undefined ? {} : { prefix: definition.prefix }),
+    schema: definition.schema,
+    secrets: definition.secrets,
+    instantiate: () => undefined,
+    defaults: () => definition.defaults,
+    commit: (_instance, values) => values,
+  };
+}
+
+/**
+ * Normalize a token given to `configuration({ configs })`.
+ *
+ * @throws {TypeError} When a class is not decorated with `@Config()`.
+ */
+export function toTarget(token: ConfigToken): ConfigTarget {
+  return typeof token === 'function' ? classTarget(token) : definitionTarget(token);
+}
@@ -0,0 +1,57 @@
+/**
+ * @nextrush/config - Errors
+ *
+ * Boot-time errors: every one of them fails `app.ready()`, none of them is an
+ * HTTP error.
+ *
+ * @packageDocumentation
+ */
+
+import type { ConfigIssue } from './types';
+
+/**
+ * Base class for every configuration error.
+ */
+export class ConfigError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * A source could not be read or parsed — a required file is missing, a JSON
+ * or YAML file is malformed, or the YAML parser is not installed.
+ */
+export class ConfigSourceError extends ConfigError {
+  /** The failing source's name. */
+  readonly source: string;
+
+  constructor(source: string, message: string, options?: ErrorOptions) {
+    super(`Configuration source "${source}": ${message}`, options);
+    this.name = 'ConfigSourceError';
+    this.source = source;
+  }
+}
+
+/**
+ * One or more configurations failed their schema. Carries every issue across
+ * every configuration, so a deploy with three bad variables reports all three
+ * at once instead of one per restart.
+ */
+export class ConfigValidationError extends ConfigError {
+  /** Every issue, in configuration order. */
+  readonly issues: readonly ConfigIssue[];
+
+  constructor(issues: readonly ConfigIssue[]) {
+    const count = issues.length === 1 ? '1 issue' : `${String(issues.length)} issues`;
+    const lines = issues.map((issue) => {
+      const field = issue.path === '' ? issue.config : `${issue.config}.${issue.path}`;
+      const origin = issue.origin === undefined ? '' : ` (from ${issue.origin})`;
+      return `  - ${field}: ${issue.message}${origin}`;
+    });
+    super(`Invalid configuration (${count}):\n${lines.join('\n')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
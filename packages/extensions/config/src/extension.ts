@@ -0,0 +1,174 @@
+/**
+ * @nextrush/config - Extension
+ *
+ * Loads every layer once at `app.ready()`, validates every configuration,
+ * and decorates the typed `app.config()` accessor.
+ *
+ * @packageDocumentation
+ */
+
+import type { Extension, ExtensionContext } from '@nextrush/types';
+import { CONFIG_EXTENSION } from './constants';
+import { toTarget, type ConfigTarget } from './definition';
+import { ConfigError, ConfigValidationError } from './errors';
+import { redact, resolveInput, toIssues, type LoadedLayer, type ResolvedInput } from './resolve';
+import { defaultSources } from './sources';
+import type {
+  ConfigAccessor,
+  ConfigDescription,
+  ConfigIssue,
+  ConfigToken,
+  ConfigurationOptions,
+  ConfigValues,
+} from './types';
+
+const INSPECT = Symbol.for('nodejs.util.inspect.custom');
+
+function currentDirectory(): string {
+  return (globalThis as { process?: { cwd?: () => string } }).process?.cwd?.() ?? '.';
+}
+
+/**
+ * Make `JSON.stringify()` and `console.log()`/`util.inspect()` of a loaded
+ * value show its secret fields redacted. Non-enumerable, so neither appears
+ * among the value's fields.
+ */
+function protect(value: object, secrets: readonly string[]): void {
+  if (secrets.length === 0) return;
+  const redacted = (): ConfigValues => redact({ ...value }, secrets);
+  Object.defineProperty(value, 'toJSON', { value: redacted, configurable: true, writable: true });
+  Object.defineProperty(value, INSPECT, { value: redacted, configurable: true, writable: true });
+}
+
+/** A configuration that passed validation, not yet committed. */
+interface Validated {
+  readonly target: ConfigTarget;
+  readonly instance: object | undefined;
+  readonly values: ConfigValues;
+  readonly resolved: ResolvedInput;
+}
+
+async function validate(
+  target: ConfigTarget,
+  resolved: ResolvedInput
+): Promise<ConfigValues | ConfigIssue[]> {
+  if (target.schema === undefined) return resolved.input;
+
+  const result = await target.schema['~standard'].validate(resolved.input);
+  if (result.issues !== undefined) {
+    return toIssues(target.name, result.issues, resolved, target.secrets);
+  }
+  if (!isObject(result.value)) {
+    return [{ config: target.name, path: '', message: 'Schema output must be an object' }];
+  }
+  return result.value as ConfigValues;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Load and validate configuration at `app.ready()`.
+ *
+ * Each configuration's values are its defaults (class field initializers, or
+ * the definition's `defaults`) overlaid by every source in order — by default
+ * `config/default.*`, `config/<env>.*`, `.env`, `.env.<env>`, then the process
+ * environment. Every configuration is validated against its schema, and all
+ * issues across all of them fail `ready()` together as one
+ * {@link ConfigValidationError}.
+ *
+ * A `@Config` class instance is resolved from the app's container and has the
+ * validated values assigned onto it, so whatever injects the class reads
+ * loaded values from `ready()` on. Secret fields are redacted from the debug
+ * log, `app.config.describe()`, `JSON.stringify()` and `util.inspect()`.
+ *
+ * @param options - The configurations to load, and optionally the sources
+ * @returns A NextRush Extension decorating `app.config`
+ * @throws {TypeError} When a class in `configs` is not decorated with `@Config()`,
+ *   or the same token is listed twice
+ *
+ * @example
+ * ```typescript
+ * @Config({ prefix: 'DB', schema: DatabaseSchema, secrets: ['password'] })
+ * class DatabaseConfig {
+ *   readonly host = 'localhost';
+ *   readonly port = 5432;
+ *   readonly password = '';
+ * }
+ *
+ * const app = createApp().extend(configuration({ configs: [DatabaseConfig] }));
+ * await app.ready(); // throws ConfigValidationError listing every bad field
+ * app.config(DatabaseConfig).port;
+ * ```
+ */
+export function configuration(
+  options: ConfigurationOptions
+): Extension<{ config: ConfigAccessor }> {
+  const targets = options.configs.map(toTarget);
+  const seen = new Set<ConfigToken>();
+  for (const target of targets) {
+    if (seen.has(target.token)) {
+      throw new TypeError(`configuration(): "${target.name}" is listed more than once in configs.`);
+    }
+    seen.add(target.token);
+  }
+
+  return {
+    name: CONFIG_EXTENSION,
+    async setup(ctx: ExtensionContext): Promise<void> {
+      const sources =
+        options.sources ??
+        defaultSources({ env: options.env ?? ctx.env, dir: options.dir ?? currentDirectory() });
+      const layers: LoadedLayer[] = await Promise.all(
+        sources.map(async (source) => ({ source, values: await source.load() }))
+      );
+
+      // Validate everything before committing anything, so a failed boot
+      // leaves no configuration half-loaded and reports every issue at once.
+      const issues: ConfigIssue[] = [];
+      const validated: Validated[] = [];
+      for (const target of targets) {
+        const instance = target.instantiate(ctx.container);
+        const resolved = resolveInput(target.defaults(instance), layers, target.prefix);
+        const outcome = await validate(target, resolved);
+        if (Array.isArray(outcome)) {
+          issues.push(...outcome);
+        } else {
+          validated.push({ target, instance, values: outcome, resolved });
+        }
+      }
+      if (issues.length > 0) throw new ConfigValidationError(issues);
+
+      const loaded = new Map<ConfigToken, object>();
+      const descriptions: ConfigDescription[] = [];
+      for (const { target, instance, values, resolved } of validated) {
+        const value = target.commit(instance, values);
+        protect(value, target.secrets);
+        loaded.set(target.token, value);
+        descriptions.push({
+          name: target.name,
+          ...(target.prefix === undefined ? {} : { prefix: target.prefix }),
+          values: redact({ ...value }, target.secrets),
+          origins: Object.fromEntries(resolved.origins),
+        });
+      }
+
+      const accessor = Object.assign(
+        <T>(token: ConfigToken<T>): T => {
+          const value = loaded.get(token);
+          if (value === undefined) {
+            throw new ConfigError(
+              `No configuration "${token.name}" was loaded. Add it to configuration({ configs }).`
+            );
+          }
+          return value as T;
+        },
+        { describe: (): readonly ConfigDescription[] => descriptions }
+      );
+
+      ctx.logger.debug('Configuration loaded', descriptions);
+      ctx.decorate('config', accessor);
+    },
+  };
+}
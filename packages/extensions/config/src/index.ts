@@ -0,0 +1,64 @@
+/**
+ * @nextrush/config - Typed, validated application configuration
+ *
+ * Layers defaults, JSON/YAML files, `.env` files and the environment into
+ * each `@Config` class or `defineConfig()` definition, validates every one
+ * against its StandardSchema at `app.ready()`, and exposes the result through
+ * a typed `app.config()` accessor.
+ *
+ * @packageDocumentation
+ *
+ * @example Class apps
+ * ```typescript
+ * import { Config } from '@nextrush/di';
+ * import { configuration } from '@nextrush/config';
+ *
+ * @Config({ prefix: 'DB', schema: DatabaseSchema, secrets: ['password'] })
+ * export class DatabaseConfig {
+ *   readonly host = 'localhost';
+ *   readonly port = 5432;
+ *   readonly password = '';
+ * }
+ *
+ * const app = createApp().extend(configuration({ configs: [DatabaseConfig] }));
+ * await app.ready();
+ * ```
+ *
+ * @example Functional apps
+ * ```typescript
+ * import { configuration, defineConfig } from '@nextrush/config';
+ *
+ * const DatabaseConfig = defineConfig({ name: 'DatabaseConfig', prefix: 'DB', schema });
+ * const app = createApp().extend(configuration({ configs: [DatabaseConfig] }));
+ * await app.ready();
+ * app.config(DatabaseConfig).host;
+ * ```
+ */
+
+export { configuration } from './extension';
+export { defineConfig } from './definition';
+export {
+  defaultSources,
+  dotenvSource,
+  envSource,
+  fileSource,
+  parseDotenv,
+  valuesSource,
+} from './sources';
+export { ConfigError, ConfigSourceError, ConfigValidationError } from './errors';
+export { CONFIG_EXTENSION, REDACTED } from './constants';
+
+export type {
+  ConfigAccessor,
+  ConfigDefinition,
+  ConfigDescription,
+  ConfigIssue,
+  ConfigSource,
+  ConfigSourceFormat,
+  ConfigToken,
+  ConfigurationOptions,
+  ConfigValues,
+  DefaultSourcesOptions,
+  DefineConfigOptions,
+  FileSourceOptions,
+} from './types';
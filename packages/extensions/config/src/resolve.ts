@@ -0,0 +1,277 @@
+/**
+ * @nextrush/config - Layer resolution
+ *
+ * Folds the loaded layers into one configuration's input: defaults first,
+ * then each source in order, recording which source set every field. Also
+ * owns redaction, which walks the same dotted paths.
+ *
+ * @packageDocumentation
+ */
+
+import type { StandardSchemaIssue } from '@nextrush/types';
+import { DEFAULTS_ORIGIN, REDACTED, UNSAFE_KEYS } from './constants';
+import type { ConfigIssue, ConfigSource, ConfigValues } from './types';
+
+/** A source together with what it loaded. */
+export interface LoadedLayer {
+  readonly source: ConfigSource;
+  readonly values: ConfigValues;
+}
+
+/** A configuration's input before validation, and where each field came from. */
+export interface ResolvedInput {
+  readonly input: ConfigValues;
+  readonly origins: Map<string, string>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isPlainObject(value: unknown): value is ConfigValues {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto: unknown = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Deep-copy plain objects and arrays; anything else is shared. */
+function clone(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(clone);
+  if (!isPlainObject(value)) return value;
+  const copy: ConfigValues = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!UNSAFE_KEYS.has(key)) copy[key] = clone(entry);
+  }
+  return copy;
+}
+
+/** `POOL_SIZE` → `poolSize`, `DB` → `db`. */
+export function camelCase(name: string): string {
+  return name.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function join(path: string, key: string): string {
+  return path === '' ? key : `${path}.${key}`;
+}
+
+// ============================================================================
+// Tree layers
+// ============================================================================
+
+/** Drop the recorded origins of `path` and everything below it. */
+function forgetOrigins(origins: Map<string, string>, path: string): void {
+  for (const key of origins.keys()) {
+    if (key === path || key.startsWith(`${path}.`)) origins.delete(key);
+  }
+}
+
+function recordOrigins(
+  value: unknown,
+  path: string,
+  origin: string,
+  origins: Map<string, string>
+): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, entry] of Object.entries(value)) {
+      if (!UNSAFE_KEYS.has(key)) recordOrigins(entry, join(path, key), origin, origins);
+    }
+    return;
+  }
+  origins.set(path, origin);
+}
+
+/** Merge `source` into `target`: objects merge key by key, anything else replaces. */
+function mergeTree(
+  target: ConfigValues,
+  source: ConfigValues,
+  path: string,
+  origin: string,
+  origins: Map<string, string>
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (UNSAFE_KEYS.has(key)) continue;
+    const fieldPath = join(path, key);
+    const current = target[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      mergeTree(current, value, fieldPath, origin, origins);
+      continue;
+    }
+    target[key] = clone(value);
+    forgetOrigins(origins, fieldPath);
+    recordOrigins(value, fieldPath, origin, origins);
+  }
+}
+
+// ============================================================================
+// Env layers
+// ============================================================================
+
+/**
+ * The field path a variable sets, or `undefined` when it is outside the
+ * prefix. `DB_POOL__MAX` with prefix `DB` → `['pool', 'max']`.
+ */
+function envPath(key: string, prefix: string | undefined): string[] | undefined {
+  let rest = key;
+  if (prefix !== undefined) {
+    if (!key.toUpperCase().startsWith(`${prefix.toUpperCase()}_`)) return undefined;
+    rest = key.slice(prefix.length + 1);
+  }
+  const path = rest.split('__').map(camelCase);
+  if (path.some((segment) => segment === '' || UNSAFE_KEYS.has(segment))) return undefined;
+  return path;
+}
+
+const TRUE_STRINGS = new Set(['true', '1', 'yes', 'on']);
+const FALSE_STRINGS = new Set(['false', '0', 'no', 'off']);
+
+/**
+ * Convert a variable's string to the type of the value it replaces. A string
+ * that does not convert is kept as-is, so the schema reports it instead of it
+ * silently turning into `NaN` or `false`.
+ */
+export function coerce(raw: string, current: unknown): unknown {
+  if (typeof current === 'number') {
+    const number = Number(raw);
+    return raw.trim() === '' || Number.isNaN(number) ? raw : number;
+  }
+  if (typeof current === 'boolean') {
+    const normalized = raw.trim().toLowerCase();
+    if (TRUE_STRINGS.has(normalized)) return true;
+    if (FALSE_STRINGS.has(normalized)) return false;
+    return raw;
+  }
+  if (Array.isArray(current) || isPlainObject(current)) {
+    try {
+      return clone(JSON.parse(raw));
+    } catch {
+      return Array.isArray(current) ? raw.split(',').map((item) => item.trim()) : raw;
+    }
+  }
+  return raw;
+}
+
+function applyEnv(
+  input: ConfigValues,
+  variables: ConfigValues,
+  prefix: string | undefined,
+  origin: string,
+  origins: Map<string, string>
+): void {
+  for (const [key, raw] of Object.entries(variables)) {
+    if (typeof raw !== 'string') continue;
+    const path = envPath(key, prefix);
+    if (path === undefined) continue;
+    // Without a prefix the whole environment is in scope — only fields the
+    // configuration already has are taken, or PATH and HOME would land in it.
+    const [field = ''] = path;
+    if (prefix === undefined && !(field in input)) continue;
+
+    let parent = input;
+    for (const segment of path.slice(0, -1)) {
+      const next = parent[segment];
+      if (isPlainObject(next)) {
+        parent = next;
+      } else {
+        const created: ConfigValues = {};
+        parent[segment] = created;
+        parent = created;
+      }
+    }
+    const leaf = path[path.length - 1] ?? '';
+    parent[leaf] = coerce(raw, parent[leaf]);
+
+    const fieldPath = path.join('.');
+    forgetOrigins(origins, fieldPath);
+    origins.set(fieldPath, `${origin} (${key})`);
+  }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Build one configuration's input from its defaults and every layer.
+ */
+export function resolveInput(
+  defaults: ConfigValues,
+  layers: readonly LoadedLayer[],
+  prefix: string | undefined
+): ResolvedInput {
+  const input = clone(defaults) as ConfigValues;
+  const origins = new Map<string, string>();
+  recordOrigins(input, '', DEFAULTS_ORIGIN, origins);
+  origins.delete('');
+
+  for (const { source, values } of layers) {
+    if (source.format === 'env') {
+      applyEnv(input, values, prefix, source.name, origins);
+      continue;
+    }
+    const section = prefix === undefined ? values : values[camelCase(prefix)];
+    if (isPlainObject(section)) mergeTree(input, section, '', source.name, origins);
+  }
+
+  return { input, origins };
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/** Whether `path` is a secret field or lies inside one. */
+export function isSecretPath(path: string, secrets: readonly string[]): boolean {
+  return secrets.some((secret) => path === secret || path.startsWith(`${secret}.`));
+}
+
+/** A deep copy of `values` with every secret field that is set replaced by `[REDACTED]`. */
+export function redact(values: ConfigValues, secrets: readonly string[]): ConfigValues {
+  const copy = clone(values) as ConfigValues;
+  for (const secret of secrets) {
+    const path = secret.split('.');
+    let parent: unknown = copy;
+    for (const segment of path.slice(0, -1)) {
+      parent = isPlainObject(parent) ? parent[segment] : undefined;
+    }
+    const leaf = path[path.length - 1] ?? '';
+    if (isPlainObject(parent) && parent[leaf] !== undefined) parent[leaf] = REDACTED;
+  }
+  return copy;
+}
+
+function valueAt(values: ConfigValues, path: string): unknown {
+  let current: unknown = values;
+  for (const segment of path.split('.')) {
+    current = isPlainObject(current) ? current[segment] : undefined;
+  }
+  return current;
+}
+
+/**
+ * Map schema issues to {@link ConfigIssue}s. A message about a secret field
+ * has the offending value cut out — several schema libraries echo the
+ * received value in their messages.
+ */
+export function toIssues(
+  config: string,
+  issues: readonly StandardSchemaIssue[],
+  resolved: ResolvedInput,
+  secrets: readonly string[]
+): ConfigIssue[] {
+  return issues.map((issue) => {
+    const path = (issue.path ?? [])
+      .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+      .join('.');
+
+    let message = issue.message;
+    if (path !== '' && isSecretPath(path, secrets)) {
+      const value = valueAt(resolved.input, path);
+      if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+        message = message.split(String(value)).join(REDACTED);
+      }
+    }
+
+    const origin = resolved.origins.get(path);
+    return origin === undefined ? { config, path, message } : { config, path, message, origin };
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * @nextrush/config - Sources
+ *
+ * The built-in layers: process environment, `.env` files, and JSON/YAML
+ * files. File access goes through a dynamic `node:fs/promises` import, so the
+ * package loads on runtimes without a filesystem as long as only in-memory
+ * sources are used there.
+ *
+ * @packageDocumentation
+ */
+
+import { DEFAULT_CONFIG_DIR } from './constants';
+import { ConfigSourceError } from './errors';
+import type { ConfigSource, ConfigValues, DefaultSourcesOptions, FileSourceOptions } from './types';
+
+// ============================================================================
+// In-memory sources
+// ============================================================================
+
+/**
+ * A layer of environment-style variables.
+ *
+ * @param variables - Defaults to `process.env`, read when the source loads.
+ */
+export function envSource(
+  variables?: Readonly<Record<string, string | undefined>>,
+  name = 'env'
+): ConfigSource {
+  return {
+    name,
+    format: 'env',
+    load() {
+      const source =
+        variables ??
+        (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env ??
+        {};
+      const values: ConfigValues = {};
+      for (const [key, value] of Object.entries(source)) {
+        if (value !== undefined) values[key] = value;
+      }
+      return values;
+    },
+  };
+}
+
+/**
+ * A layer of nested values — overrides in tests, or values computed at
+ * startup.
+ */
+export function valuesSource(values: ConfigValues, name = 'values'): ConfigSource {
+  return { name, format: 'tree', load: () => values };
+}
+
+// ============================================================================
+// File sources
+// ============================================================================
+
+/** Read a file, or `undefined` when it does not exist. */
+async function readText(path: string, name: string): Promise<string | undefined> {
+  const { readFile } = await import('node:fs/promises');
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 'ENOENT') return undefined;
+    throw new ConfigSourceError(name, `cannot read ${path}`, { cause: error });
+  }
+}
+
+interface YamlModule {
+  parse(text: string): unknown;
+}
+
+/** Load the optional `yaml` peer dependency. */
+async function loadYaml(name: string): Promise<YamlModule> {
+  try {
+    return await import('yaml');
+  } catch (error) {
+    throw new ConfigSourceError(
+      name,
+      'reading YAML requires the "yaml" package.\n\n  npm install yaml\n',
+      { cause: error }
+    );
+  }
+}
+
+async function parserFor(
+  path: string,
+  name: string,
+  parse: FileSourceOptions['parse']
+): Promise<(text: string) => unknown> {
+  if (parse !== undefined) return parse;
+  if (path.endsWith('.json')) return (text) => JSON.parse(text) as unknown;
+  if (path.endsWith('.yaml') || path.endsWith('.yml')) {
+    const yaml = await loadYaml(name);
+    return (text) => yaml.parse(text);
+  }
+  throw new ConfigSourceError(
+    name,
+    `no parser for ${path}. Use a .json, .yaml or .yml file, or pass { parse }.`
+  );
+}
+
+/**
+ * A JSON or YAML file. Its top level must be an object; an empty YAML file
+ * reads as `{}`.
+ */
+export function fileSource(path: string, options: FileSourceOptions = {}): ConfigSource {
+  const name = options.name ?? path;
+  return {
+    name,
+    format: 'tree',
+    async load() {
+      const text = await readText(path, name);
+      if (text === undefined) {
+        if (options.optional === true) return {};
+        throw new ConfigSourceError(name, `${path} does not exist`);
+      }
+
+      const parse = await parserFor(path, name, options.parse);
+      let parsed: unknown;
+      try {
+        parsed = parse(text);
+      } catch (error) {
+        throw new ConfigSourceError(
+          name,
+          `cannot parse ${path}: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error }
+        );
+      }
+
+      if (parsed === null || parsed === undefined) return {};
+      if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new ConfigSourceError(name, `${path} must contain an object at its top level`);
+      }
+      return parsed as ConfigValues;
+    },
+  };
+}
+
+// Same line grammar as the `dotenv` package: optional `export`, `=` or `: `,
+// single/double/backtick quotes (which may span lines), trailing comments.
+const DOTENV_LINE =
+  /^\s*(?:export\s+)?([\w.-]+)(?:\s*=\s*?|:\s+?)(\s*'(?:\\'|[^'])*'|\s*"(?:\\"|[^"])*"|\s*`(?:\\`|[^`])*`|[^#\r\n]+)?\s*(?:#.*)?$/gm;
+
+/**
+ * Parse `.env` text into variables. No interpolation and no side effects —
+ * `process.env` is never written.
+ */
+export function parseDotenv(text: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const lines = text.replace(/\r\n?/g, '\n');
+
+  for (const match of lines.matchAll(DOTENV_LINE)) {
+    const [, key = '', raw = ''] = match;
+    let value = raw.trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'" || quote === '`') && value.endsWith(quote)) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replace(/\\n/g, '\n').replace(/\\r/g, '\r');
+    }
+    variables[key] = value;
+  }
+  return variables;
+}
+
+/**
+ * A `.env` file, read as an `'env'` layer.
+ */
+export function dotenvSource(
+  path: string,
+  options: Omit<FileSourceOptions, 'parse'> = {}
+): ConfigSource {
+  const name = options.name ?? path;
+  return {
+    name,
+    format: 'env',
+    async load() {
+      const text = await readText(path, name);
+      if (text === undefined) {
+        if (options.optional === true) return {};
+        throw new ConfigSourceError(name, `${path} does not exist`);
+      }
+      return parseDotenv(text);
+    },
+  };
+}
+
+// ============================================================================
+// Default layering
+// ============================================================================
+
+/**
+ * The layering `configuration()` uses when no `sources` are given, lowest
+ * first — every file is optional:
+ *
+ * 1. `config/default.{json,yaml,yml}`
+ * 2. `config/<env>.{json,yaml,yml}`
+ * 3. `.env`
+ * 4. `.env.<env>`
+ * 5. the process environment
+ *
+ * The class initializers or definition `defaults` sit below all of them.
+ */
+export function defaultSources(options: DefaultSourcesOptions): ConfigSource[] {
+  const { env, dir, variables } = options;
+  const files = (base: string): ConfigSource[] =>
+    ['json', 'yaml', 'yml'].map((extension) => {
+      const relative = `${DEFAULT_CONFIG_DIR}/${base}.${extension}`;
+      return fileSource(`${dir}/${relative}`, { name: relative, optional: true });
+    });
+
+  return [
+    ...files('default'),
+    ...files(env),
+    dotenvSource(`${dir}/.env`, { name: '.env', optional: true }),
+    dotenvSource(`${dir}/.env.${env}`, { name: `.env.${env}`, optional: true }),
+    envSource(variables),
+  ];
+}
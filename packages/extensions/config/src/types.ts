@@ -0,0 +1,154 @@
+/**
+ * @nextrush/config - Type Definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { StandardSchemaV1 } from '@nextrush/types';
+
+/** A configuration object — nested plain objects of values. */
+export type ConfigValues = Record<string, unknown>;
+
+/**
+ * How a source's keys map onto configuration fields.
+ *
+ * - `'tree'` — nested objects. A configuration with a prefix reads the section
+ *   named after it (`DB` → `db`, `REDIS_CACHE` → `redisCache`); one without
+ *   reads the root.
+ * - `'env'` — flat variable names with string values. A configuration with
+ *   prefix `DB` reads `DB_*`: `DB_POOL_SIZE` → `poolSize`, and a double
+ *   underscore nests (`DB_POOL__MAX` → `pool.max`).
+ */
+export type ConfigSourceFormat = 'tree' | 'env';
+
+/**
+ * One layer of configuration. Sources are applied in order, each overriding
+ * the ones before it.
+ */
+export interface ConfigSource {
+  /** Shown in diagnostics and error messages as the origin of its values. */
+  readonly name: string;
+  readonly format: ConfigSourceFormat;
+  /**
+   * Read the layer. An optional source that does not exist returns `{}`.
+   *
+   * @throws {ConfigSourceError} When the source exists but cannot be read or parsed.
+   */
+  load(): ConfigValues | Promise<ConfigValues>;
+}
+
+/**
+ * A configuration for apps without `@Config` classes, created by
+ * {@link defineConfig}. `T` is the schema's output — what `app.config()`
+ * returns for it.
+ */
+export interface ConfigDefinition<T = ConfigValues> {
+  /** Name used in diagnostics and error messages. */
+  readonly name: string;
+  /** Environment variable prefix and file section, as for `@Config({ prefix })`. */
+  readonly prefix?: string;
+  readonly schema: StandardSchemaV1<unknown, T>;
+  /** The lowest layer, below every source. */
+  readonly defaults: ConfigValues;
+  /** Dotted field paths redacted from logs, diagnostics and serialized output. */
+  readonly secrets: readonly string[];
+}
+
+/** Options for {@link defineConfig}. */
+export interface DefineConfigOptions<S extends StandardSchemaV1> {
+  readonly name: string;
+  readonly prefix?: string;
+  readonly schema: S;
+  readonly defaults?: ConfigValues;
+  readonly secrets?: readonly string[];
+}
+
+/**
+ * What `app.config()` accepts: a `@Config` class or a {@link ConfigDefinition}.
+ */
+export type ConfigToken<T = unknown> = ConfigDefinition<T> | (new (...args: never[]) => T);
+
+/**
+ * One schema failure. `path` is dotted and relative to the configuration
+ * (`''` for the configuration itself).
+ */
+export interface ConfigIssue {
+  /** The configuration's name — the class name, or the definition's `name`. */
+  readonly config: string;
+  readonly path: string;
+  readonly message: string;
+  /** Where the offending value came from, when it came from a source. */
+  readonly origin?: string;
+}
+
+/**
+ * A loaded configuration as reported by `app.config.describe()`. Secret
+ * fields are redacted.
+ */
+export interface ConfigDescription {
+  readonly name: string;
+  readonly prefix?: string;
+  readonly values: ConfigValues;
+  /**
+   * Dotted field path → the source that last set it (`'defaults'`, a file
+   * name, or an env source with the variable name, e.g. `'env (DB_PORT)'`).
+   */
+  readonly origins: Readonly<Record<string, string>>;
+}
+
+/**
+ * The accessor decorated onto the app as `app.config`.
+ */
+export interface ConfigAccessor {
+  /**
+   * The loaded, validated values of a configuration.
+   *
+   * @throws {ConfigError} When `token` was not passed to `configuration({ configs })`.
+   */
+  <T>(token: ConfigToken<T>): T;
+  /** Every loaded configuration with secret fields redacted. */
+  describe(): readonly ConfigDescription[];
+}
+
+/** Options for {@link configuration}. */
+export interface ConfigurationOptions {
+  /** The `@Config` classes and {@link ConfigDefinition}s to load and validate. */
+  readonly configs: readonly ConfigToken[];
+  /**
+   * The layers, lowest first. Replaces the default layering built by
+   * `defaultSources()` entirely.
+   */
+  readonly sources?: readonly ConfigSource[];
+  /**
+   * Environment name choosing the `config/<env>.*` and `.env.<env>` files.
+   * @default the app's `env`
+   */
+  readonly env?: string;
+  /**
+   * Directory the default file sources are resolved against.
+   * @default process.cwd()
+   */
+  readonly dir?: string;
+}
+
+/** Options for {@link defaultSources}. */
+export interface DefaultSourcesOptions {
+  readonly env: string;
+  readonly dir: string;
+  /** Variables the final `'env'` layer reads. @default process.env */
+  readonly variables?: Readonly<Record<string, string | undefined>>;
+}
+
+/** Options for {@link fileSource} and {@link dotenvSource}. */
+export interface FileSourceOptions {
+  /** @default the path */
+  readonly name?: string;
+  /** Return `{}` instead of failing when the file does not exist. @default false */
+  readonly optional?: boolean;
+  /**
+   * Parser for the file's text. `fileSource()` defaults to `JSON.parse` for
+   * `.json` and the `yaml` package for `.yaml`/`.yml`; any other extension
+   * needs one.
+   */
+  readonly parse?: (text: string) => unknown;
+}
@@ -0,0 +1,507 @@
+/**
+ * @nextrush/websocket - Cluster backplane tests
+ *
+ * Two `WebSocketServer`s sharing a backplane stand in for two nodes; their
+ * connections are opened through `handleUpgrade()` with in-memory peers.
+ */
+
+import type { WebSocketUpgradeRequest } from '@nextrush/types';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryBackplane,
+  createRedisBackplane,
+  MemoryBackplane,
+  REDIS_BACKPLANE_SCRIPTS,
+  RedisBackplane,
+  RoomManager,
+  WebSocketServer,
+  type RedisPubSubClient,
+  type WSBackplane,
+  type WSConnection,
+} from '../index';
+
+/** Let queued backplane deliveries run. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function upgradeRequest(path = '/chat'): WebSocketUpgradeRequest {
+  return { url: path, path, headers: {}, ip: '10.0.0.1', raw: undefined };
+}
+
+/** Open a connection on `wss` and return it with what its peer received. */
+async function connect(wss: WebSocketServer) {
+  const result = await wss.handleUpgrade(upgradeRequest());
+  if (!result.accepted) throw new Error(`rejected with ${String(result.status)}`);
+  const received: (string | Uint8Array)[] = [];
+  const handlers = result.open({
+    readyState: 1,
+    send: (data) => received.push(data),
+    close: vi.fn(),
+  });
+  const connection = wss.getConnections().at(-1)!;
+  return { connection, received, handlers };
+}
+
+const servers: WebSocketServer[] = [];
+
+function node(backplane: WSBackplane, nodeId: string, onBackplaneError = vi.fn()) {
+  const wss = new WebSocketServer({ backplane, nodeId, heartbeatInterval: 0, onBackplaneError });
+  wss.on('/chat', () => undefined);
+  servers.push(wss);
+  return wss;
+}
+
+afterEach(() => {
+  for (const wss of servers.splice(0)) wss.close();
+});
+
+describe('RoomManager hooks', () => {
+  function mockConnection(id: string): WSConnection {
+    return { id, send: vi.fn() } as unknown as WSConnection;
+  }
+
+  it('reports each real membership change with the new local room size', () => {
+    const onMembershipChange = vi.fn();
+    const rooms = new RoomManager(100, { onMembershipChange });
+    const a = mockConnection('a');
+    const b = mockConnection('b');
+
+    rooms.join(a, 'lobby');
+    rooms.join(b, 'lobby');
+    rooms.join(a, 'lobby'); // rejoin: no change
+    rooms.leave(b, 'lobby');
+    rooms.leave(b, 'lobby'); // not a member: no change
+    rooms.join(a, 'games');
+    rooms.leaveAll(a);
+
+    expect(onMembershipChange.mock.calls).toEqual([
+      ['lobby', 1],
+      ['lobby', 2],
+      ['lobby', 1],
+      ['games', 1],
+      ['lobby', 0],
+      ['games', 0],
+    ]);
+  });
+
+  it('passes every broadcast on, even to a room with no local members', () => {
+    const onBroadcast = vi.fn();
+    const rooms = new RoomManager(100, { onBroadcast });
+    const a = mockConnection('a');
+    rooms.join(a, 'lobby');
+
+    rooms.broadcast('lobby', 'hi', a);
+    rooms.broadcast('empty', 'anyone?');
+
+    expect(onBroadcast.mock.calls).toEqual([
+      ['lobby', 'hi', a],
+      ['empty', 'anyone?', undefined],
+    ]);
+  });
+});
+
+describe('MemoryBackplane', () => {
+  it('delivers a message to every subscriber, the publisher included', async () => {
+    const backplane = createMemoryBackplane();
+    const first = vi.fn();
+    const second = vi.fn();
+    await backplane.subscribe(first);
+    const unsubscribe = await backplane.subscribe(second);
+
+    await backplane.publish('one');
+    await unsubscribe();
+    await backplane.publish('two');
+
+    expect(backplane).toBeInstanceOf(MemoryBackplane);
+    expect(first.mock.calls).toEqual([['one'], ['two']]);
+    expect(second.mock.calls).toEqual([['one']]);
+  });
+
+  it('sums presence over nodes and forgets a removed node', async () => {
+    const backplane = createMemoryBackplane();
+
+    await backplane.setPresence('a', 'lobby', 2);
+    await backplane.setPresence('b', 'lobby', 3);
+    await backplane.setPresence('b', 'games', 1);
+    expect(await backplane.getPresence('lobby')).toBe(5);
+
+    await backplane.setPresence('a', 'lobby', 0);
+    await backplane.removeNode('b');
+
+    expect(await backplane.getPresence('lobby')).toBe(0);
+    expect(await backplane.getPresence('games')).toBe(0);
+  });
+});
+
+describe('WebSocketServer with a backplane', () => {
+  it('reaches room members on every node, skipping the sender', async () => {
+    const backplane = createMemoryBackplane();
+    const a = node(backplane, 'a');
+    const b = node(backplane, 'b');
+    await Promise.all([a.ready(), b.ready()]);
+    const alice = await connect(a);
+    const bob = await connect(b);
+    const carol = await connect(b);
+    alice.connection.join('lobby');
+    bob.connection.join('lobby');
+
+    alice.connection.broadcast('lobby', 'hello');
+    a.broadcastJsonToRoom('lobby', { from: 'server' });
+    await flush();
+
+    expect(alice.received).toEqual(['{"from":"server"}']);
+    expect(bob.received).toEqual(['hello', '{"from":"server"}']);
+    expect(carol.received).toEqual([]);
+  });
+
+  it('broadcasts to every connection in the cluster, binary intact', async () => {
+    const backplane = createMemoryBackplane();
+    const a = node(backplane, 'a');
+    const b = node(backplane, 'b');
+    await Promise.all([a.ready(), b.ready()]);
+    const alice = await connect(a);
+    const bob = await connect(b);
+
+    a.broadcast(new Uint8Array([0, 1, 254, 255]), alice.connection);
+    await flush();
+
+    expect(alice.received).toEqual([]);
+    expect(bob.received).toEqual([new Uint8Array([0, 1, 254, 255])]);
+  });
+
+  it('sends to a connection by id on whichever node holds it', async () => {
+    const backplane = createMemoryBackplane();
+    const a = node(backplane, 'a');
+    const b = node(backplane, 'b');
+    await Promise.all([a.ready(), b.ready()]);
+    const alice = await connect(a);
+    const bob = await connect(b);
+
+    a.sendTo(bob.connection.id, 'psst');
+    a.sendJsonTo(alice.connection.id, { local: true });
+    a.sendTo('nobody', 'lost');
+    await flush();
+
+    expect(bob.received).toEqual(['psst']);
+    expect(alice.received).toEqual(['{"local":true}']);
+  });
+
+  it('joins and leaves rooms by connection id across nodes', async () => {
+    const backplane = createMemoryBackplane();
+    const a = node(backplane, 'a');
+    const b = node(backplane, 'b');
+    await Promise.all([a.ready(), b.ready()]);
+    const bob = await connect(b);
+
+    a.joinRoom(bob.connection.id, 'vip');
+    await flush();
+    expect(bob.connection.getRooms()).toEqual(['vip']);
+
+    a.broadcastToRoom('vip', 'welcome');
+    a.leaveRoom(bob.connection.id, 'vip');
+    await flush();
+
+    expect(bob.received).toEqual(['welcome']);
+    expect(bob.connection.getRooms()).toEqual([]);
+    expect(() => {
+      a.joinRoom(bob.connection.id, '');
+    }).toThrow(TypeError);
+  });
+
+  it('reports a remote room limit to the owning node', async () => {
+    const backplane = createMemoryBackplane();
+    const onError = vi.fn();
+    const a = node(backplane, 'a');
+    const b = new WebSocketServer({
+      backplane,
+      nodeId: 'b',
+      heartbeatInterval: 0,
+      maxRoomsPerConnection: 1,
+      onError,
+    }).on('/chat', () => undefined);
+    servers.push(b);
+    await Promise.all([a.ready(), b.ready()]);
+    const bob = await connect(b);
+    bob.connection.join('one');
+
+    a.joinRoom(bob.connection.id, 'two');
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(
+      bob.connection,
+      expect.objectContaining({ name: 'MaxRoomsExceededError' })
+    );
+  });
+
+  it('counts presence across the cluster and withdraws a closed node', async () => {
+    const backplane = createMemoryBackplane();
+    const a = node(backplane, 'a');
+    const b = node(backplane, 'b');
+    const alice = await connect(a);
+    const bob = await connect(b);
+    const carol = await connect(b);
+    alice.connection.join('lobby');
+    bob.connection.join('lobby');
+    carol.connection.join('lobby');
+    await flush();
+
+    expect(await a.getPresence('lobby')).toBe(3);
+
+    carol.handlers.close(1000, 'bye');
+    await flush();
+    expect(await a.getPresence('lobby')).toBe(2);
+
+    b.close();
+    await flush();
+    expect(await a.getPresence('lobby')).toBe(1);
+  });
+
+  it('delivers a repeated message once and ignores its own', async () => {
+    const backplane = createMemoryBackplane();
+    const a = node(backplane, 'a');
+    await a.ready();
+    const alice = await connect(a);
+    alice.connection.join('lobby');
+
+    const message = JSON.stringify({
+      id: 'm-1',
+      node: 'b',
+      kind: 'room',
+      room: 'lobby',
+      data: 'once',
+    });
+    await backplane.publish(message);
+    await backplane.publish(message);
+    await backplane.publish(
+      JSON.stringify({ id: 'm-2', node: 'a', kind: 'room', room: 'lobby', data: 'echo' })
+    );
+    await backplane.publish('not an envelope');
+    await flush();
+
+    expect(alice.received).toEqual(['once']);
+  });
+
+  it('tags what it publishes with its node id and a message id', async () => {
+    const backplane = createMemoryBackplane();
+    const published: string[] = [];
+    await backplane.subscribe((message) => published.push(message));
+    const a = node(backplane, 'node-a');
+
+    a.broadcast('hi');
+    await flush();
+
+    expect(a.nodeId).toBe('node-a');
+    expect(JSON.parse(published[0]!)).toEqual({
+      kind: 'broadcast',
+      data: 'hi',
+      id: expect.any(String),
+      node: 'node-a',
+    });
+  });
+
+  it('keeps delivering locally and reports when the backplane fails', async () => {
+    const failure = new Error('backplane down');
+    const backplane: WSBackplane = {
+      publish: vi.fn().mockRejectedValue(failure),
+      subscribe: vi.fn().mockResolvedValue(async () => undefined),
+      setPresence: vi.fn().mockRejectedValue(failure),
+      getPresence: vi.fn().mockRejectedValue(failure),
+      removeNode: vi.fn().mockResolvedValue(undefined),
+    };
+    const onBackplaneError = vi.fn();
+    const a = node(backplane, 'a', onBackplaneError);
+    const alice = await connect(a);
+    const bob = await connect(a);
+
+    alice.connection.join('lobby');
+    bob.connection.join('lobby');
+    alice.connection.broadcast('lobby', 'still here');
+    await flush();
+
+    expect(bob.received).toEqual(['still here']);
+    expect(onBackplaneError).toHaveBeenCalledWith(failure);
+    await expect(a.getPresence('lobby')).rejects.toBe(failure);
+  });
+
+  it('stays local without a backplane', async () => {
+    const wss = new WebSocketServer({ heartbeatInterval: 0 }).on('/chat', () => undefined);
+    servers.push(wss);
+    await wss.ready();
+    const alice = await connect(wss);
+    alice.connection.join('lobby');
+
+    wss.sendTo(alice.connection.id, 'direct');
+
+    expect(alice.received).toEqual(['direct']);
+    expect(await wss.getPresence('lobby')).toBe(1);
+  });
+});
+
+/**
+ * In-process stand-in for a Redis server: each exported script is mirrored by
+ * a JS port with the same KEYS/ARGV contract, and pub/sub delivers on a later
+ * microtask like a network round-trip.
+ */
+class FakeRedis implements RedisPubSubClient {
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly sortedSets = new Map<string, Map<string, number>>();
+  readonly channels = new Map<string, Set<(message: string) => void>>();
+  readonly commands: string[] = [];
+
+  async eval(script: string, keys: readonly string[], args: readonly string[]): Promise<unknown> {
+    const [first = '', second = ''] = keys;
+    switch (script) {
+      case REDIS_BACKPLANE_SCRIPTS.setPresence:
+        if (Number(args[1]) > 0) {
+          this.hash(first).set(args[0]!, args[1]!);
+          this.sortedSet(second).set(args[0]!, Number(args[2]));
+        } else {
+          this.hash(first).delete(args[0]!);
+        }
+        return 1;
+      case REDIS_BACKPLANE_SCRIPTS.getPresence: {
+        let total = 0;
+        for (const [nodeId, count] of this.hash(first)) {
+          const expiresAt = this.sortedSet(second).get(nodeId);
+          if (expiresAt !== undefined && expiresAt > Number(args[0])) total += Number(count);
+          else this.hash(first).delete(nodeId);
+        }
+        return total;
+      }
+      case REDIS_BACKPLANE_SCRIPTS.refresh:
+        for (const nodeId of args.slice(1)) this.sortedSet(first).set(nodeId, Number(args[0]));
+        return 1;
+      case REDIS_BACKPLANE_SCRIPTS.removeNode:
+        this.sortedSet(first).delete(args[0]!);
+        for (const key of keys.slice(1)) this.hash(key).delete(args[0]!);
+        return 1;
+      default:
+        throw new Error('NOSCRIPT unknown script');
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<unknown> {
+    await Promise.resolve();
+    const listeners = [...(this.channels.get(channel) ?? [])];
+    for (const listener of listeners) listener(message);
+    return listeners.length;
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void): Promise<unknown> {
+    this.commands.push(`SUBSCRIBE ${channel}`);
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+    }
+    listeners.add(listener);
+    return 1;
+  }
+
+  async unsubscribe(channel: string): Promise<unknown> {
+    this.commands.push(`UNSUBSCRIBE ${channel}`);
+    this.channels.delete(channel);
+    return 1;
+  }
+
+  private hash(key: string): Map<string, string> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    return hash;
+  }
+
+  private sortedSet(key: string): Map<string, number> {
+    let set = this.sortedSets.get(key);
+    if (!set) {
+      set = new Map();
+      this.sortedSets.set(key, set);
+    }
+    return set;
+  }
+}
+
+describe('RedisBackplane', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requires a client with eval, publish and subscribe, and a positive nodeTtl', () => {
+    expect(() => new RedisBackplane({ client: {} as RedisPubSubClient })).toThrow(TypeError);
+    expect(() => createRedisBackplane({ client: new FakeRedis(), nodeTtl: 0 })).toThrow(/nodeTtl/);
+  });
+
+  it('shares one SUBSCRIBE between listeners and drops it with the last one', async () => {
+    const redis = new FakeRedis();
+    const backplane = createRedisBackplane({ client: redis, prefix: 'app:' });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const stopFirst = await backplane.subscribe(first);
+    const stopSecond = await backplane.subscribe(second);
+    await backplane.publish('hello');
+    await flush();
+    await stopFirst();
+    await stopSecond();
+
+    expect(first).toHaveBeenCalledWith('hello');
+    expect(second).toHaveBeenCalledWith('hello');
+    expect(redis.commands).toEqual(['SUBSCRIBE app:messages', 'UNSUBSCRIBE app:messages']);
+  });
+
+  it('keeps presence per node and stops counting a node that stops refreshing', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const redis = new FakeRedis();
+    const a = createRedisBackplane({ client: redis, nodeTtl: 3000 });
+    const b = createRedisBackplane({ client: redis, nodeTtl: 3000 });
+
+    await a.setPresence('a', 'lobby', 2);
+    await b.setPresence('b', 'lobby', 1);
+    expect(await a.getPresence('lobby')).toBe(3);
+    expect(redis.hashes.get('nextrush:ws:presence:lobby')?.size).toBe(2);
+
+    // Node b dies without closing; a keeps refreshing every nodeTtl / 3.
+    await b.close();
+    await vi.advanceTimersByTimeAsync(4000);
+
+    expect(await a.getPresence('lobby')).toBe(2);
+    expect(redis.hashes.get('nextrush:ws:presence:lobby')?.has('b')).toBe(false);
+
+    await a.removeNode('a');
+    expect(await a.getPresence('lobby')).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('reports a failed refresh to onError', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const redis = new FakeRedis();
+    const onError = vi.fn();
+    const backplane = createRedisBackplane({ client: redis, nodeTtl: 300, onError });
+    await backplane.setPresence('a', 'lobby', 1);
+    const failure = new Error('connection reset');
+    vi.spyOn(redis, 'eval').mockRejectedValue(failure);
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(onError).toHaveBeenCalledWith(failure);
+    await backplane.close();
+  });
+
+  it('connects WebSocket servers on different backplane instances', async () => {
+    const redis = new FakeRedis();
+    const a = node(createRedisBackplane({ client: redis }), 'a');
+    const b = node(createRedisBackplane({ client: redis }), 'b');
+    await Promise.all([a.ready(), b.ready()]);
+    const alice = await connect(a);
+    const bob = await connect(b);
+    alice.connection.join('lobby');
+    bob.connection.join('lobby');
+
+    alice.connection.broadcastJson('lobby', { text: 'hi' });
+    await flush();
+
+    expect(bob.received).toEqual(['{"text":"hi"}']);
+    expect(await b.getPresence('lobby')).toBe(2);
+  });
+});
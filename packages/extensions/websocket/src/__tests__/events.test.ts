@@ -0,0 +1,398 @@
+/**
+ * @nextrush/websocket - Event protocol tests
+ *
+ * An `EventRouter` attached on a real `WebSocketServer` connection talks to
+ * an `EventClient` over an in-memory link, so both ends are exercised
+ * through the same frames a network socket would carry.
+ */
+
+import type { StandardSchemaResult, StandardSchemaV1 } from '@nextrush/types';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createEventClient,
+  createEventRouter,
+  EventClient,
+  WebSocketServer,
+  WSEventError,
+  type EventRouter,
+  type EventClientSocket,
+  type EventSocket,
+  type WSConnection,
+} from '../index';
+
+/** Build a hand-written Standard Schema from a validate() implementation. */
+function schema<T>(
+  validate: (value: unknown) => StandardSchemaResult<T>
+): StandardSchemaV1<unknown, T> {
+  return { '~standard': { version: 1, vendor: 'test', validate } };
+}
+
+const ChatMessage = schema<{ text: string }>((value) =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { text?: unknown }).text === 'string'
+    ? { value: value as { text: string } }
+    : { issues: [{ message: 'Expected a string', path: ['text'] }] }
+);
+
+/** Let queued frames and handlers run. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const servers: WebSocketServer[] = [];
+
+afterEach(() => {
+  for (const wss of servers.splice(0)) wss.close();
+  vi.useRealTimers();
+});
+
+interface Link {
+  connection: WSConnection;
+  socket: EventSocket;
+  client: EventClient;
+  /** Raw text the server sent */
+  sent: string[];
+  /** Send a raw text frame to the server */
+  raw(text: string): void;
+  /** Close the connection from the client side */
+  disconnect(): void;
+}
+
+/** Open a connection that `router` serves and an `EventClient` for its other end. */
+async function connect(router: EventRouter, ackTimeout?: number): Promise<Link> {
+  const wss = new WebSocketServer({ heartbeatInterval: 0 });
+  servers.push(wss);
+  let socket: EventSocket | undefined;
+  wss.on('/events', (conn) => {
+    socket = router.attach(conn);
+  });
+
+  const result = await wss.handleUpgrade({
+    url: '/events',
+    path: '/events',
+    headers: {},
+    ip: '10.0.0.1',
+    raw: undefined,
+  });
+  if (!result.accepted) throw new Error('upgrade rejected');
+
+  const sent: string[] = [];
+  const messageListeners: ((event: { data: unknown }) => void)[] = [];
+  const closeListeners: (() => void)[] = [];
+  const handlers = result.open({
+    readyState: 1,
+    send: (data) => {
+      if (typeof data !== 'string') return;
+      sent.push(data);
+      // Deliver asynchronously, like a network would.
+      queueMicrotask(() => {
+        for (const listener of messageListeners) listener({ data });
+      });
+    },
+    close: vi.fn(),
+  });
+
+  const clientSocket: EventClientSocket = {
+    send: (data) => {
+      queueMicrotask(() => handlers.message?.(data));
+    },
+    addEventListener: (type: 'message' | 'close', listener: (event: { data: unknown }) => void) => {
+      if (type === 'message') messageListeners.push(listener);
+      else closeListeners.push(listener as () => void);
+    },
+  };
+  const client = createEventClient(clientSocket, { ackTimeout });
+  await flush();
+
+  return {
+    connection: wss.getConnections()[0]!,
+    socket: socket!,
+    client,
+    sent,
+    raw: (text) => handlers.message?.(text),
+    disconnect: () => {
+      handlers.close?.(1000, '');
+      for (const listener of closeListeners) listener();
+    },
+  };
+}
+
+describe('EventRouter', () => {
+  it('routes events to their handlers and acknowledges with the return value', async () => {
+    const received: unknown[] = [];
+    const router = createEventRouter()
+      .on('chat:send', ChatMessage, (message) => {
+        received.push(message.text);
+        return { delivered: true };
+      })
+      .on('ping', () => 'pong');
+    const { client } = await connect(router);
+
+    client.emit('chat:send', { text: 'fire and forget' });
+    const receipt = await client.emitWithAck('chat:send', { text: 'hello' });
+
+    expect(received).toEqual(['fire and forget', 'hello']);
+    expect(receipt).toEqual({ delivered: true });
+    expect(await client.emitWithAck('ping')).toBe('pong');
+  });
+
+  it('answers a payload the schema rejects with its issues, without running the handler', async () => {
+    const handler = vi.fn();
+    const router = createEventRouter().on('chat:send', ChatMessage, handler);
+    const { client } = await connect(router);
+
+    const error = await client.emitWithAck('chat:send', { text: 42 }).catch((e: unknown) => e);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(WSEventError);
+    expect(error).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      message: 'Invalid data for event "chat:send"',
+      issues: [{ path: 'data.text', message: 'Expected a string' }],
+    });
+  });
+
+  it('awaits an async schema', async () => {
+    const Id: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => Promise.resolve({ value: Number(value) }),
+      },
+    };
+    const router = createEventRouter().on('double', Id, (id) => id * 2);
+    const { client } = await connect(router);
+
+    expect(await client.emitWithAck('double', '21')).toBe(42);
+  });
+
+  it('runs router-wide, then per-event middleware before validation', async () => {
+    const order: string[] = [];
+    const router = createEventRouter()
+      .use(async (ctx, next) => {
+        order.push(`all:${ctx.event}:${JSON.stringify(ctx.data)}`);
+        ctx.state.user = 'ada';
+        await next();
+        order.push('all:after');
+      })
+      .use('chat:send', async (_ctx, next) => {
+        order.push('chat');
+        await next();
+      })
+      .on('chat:send', ChatMessage, (message, ctx) => {
+        order.push(`handler:${String(ctx.state.user)}:${message.text}`);
+      })
+      .on('other', () => {
+        order.push('other');
+      });
+    const { client } = await connect(router);
+
+    await client.emitWithAck('chat:send', { text: 'hi' });
+    await client.emitWithAck('other');
+
+    expect(order).toEqual([
+      'all:chat:send:{"text":"hi"}',
+      'chat',
+      'handler:ada:hi',
+      'all:after',
+      'all:other:undefined',
+      'other',
+      'all:after',
+    ]);
+  });
+
+  it('lets middleware reject an event with its own code, or drop it', async () => {
+    const handler = vi.fn();
+    const router = createEventRouter()
+      .use('admin', () => {
+        throw new WSEventError('FORBIDDEN', 'Admins only');
+      })
+      .use('quiet', () => undefined)
+      .on('admin', handler)
+      .on('quiet', handler);
+    const { client } = await connect(router);
+
+    await expect(client.emitWithAck('admin')).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: 'Admins only',
+    });
+    expect(await client.emitWithAck('quiet')).toBeUndefined();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('hides unexpected handler errors from the sender and reports them', async () => {
+    const onError = vi.fn();
+    const failure = new Error('database down');
+    const router = createEventRouter({ onError }).on('save', () => {
+      throw failure;
+    });
+    const { client, connection } = await connect(router);
+
+    await expect(client.emitWithAck('save')).rejects.toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: 'Internal error',
+    });
+    expect(onError).toHaveBeenCalledWith(failure, { connection, event: 'save' });
+  });
+
+  it('sends error frames for failures no acknowledgement can carry', async () => {
+    const router = createEventRouter({ onError: vi.fn() }).on('save', () => {
+      throw new Error('boom');
+    });
+    const { client, raw } = await connect(router);
+    const errors: WSEventError[] = [];
+    client.onError((error) => errors.push(error));
+
+    client.emit('missing');
+    client.emit('save');
+    raw('not json');
+    raw('{"ack":"nope"}');
+    await flush();
+
+    // The raw frames fail synchronously, ahead of the two dispatched events.
+    expect(errors.map((error) => error.code)).toEqual([
+      'BAD_FRAME',
+      'BAD_FRAME',
+      'UNKNOWN_EVENT',
+      'INTERNAL_ERROR',
+    ]);
+  });
+
+  it('leaves binary frames to the connection', async () => {
+    const router = createEventRouter();
+    const { connection, raw, sent } = await connect(router);
+    const onBinary = vi.fn();
+    connection.on('message', onBinary);
+
+    raw('{"event":"missing"}');
+    const bytes = new Uint8Array([1, 2, 3]);
+    (connection as unknown as { emit(event: string, data: unknown): void }).emit('message', bytes);
+    await flush();
+
+    expect(sent).toHaveLength(1);
+    expect(onBinary).toHaveBeenLastCalledWith(bytes);
+  });
+
+  it('returns the existing socket when a connection is attached twice', async () => {
+    const router = createEventRouter();
+    const { connection, socket } = await connect(router);
+
+    expect(router.attach(connection)).toBe(socket);
+  });
+
+  it('rejects an empty event name', () => {
+    expect(() => createEventRouter().on('', vi.fn())).toThrow(TypeError);
+  });
+});
+
+describe('EventSocket', () => {
+  it('emits to the client and receives its acknowledgement', async () => {
+    const { client, socket } = await connect(createEventRouter());
+    client.on('confirm', (data) => ({ confirmed: data }));
+
+    const ack = vi.fn();
+    socket.emit('confirm', 7, ack);
+    await flush();
+
+    expect(ack).toHaveBeenCalledWith(null, { confirmed: 7 });
+  });
+
+  it('times out an unanswered acknowledgement and ignores a late answer', async () => {
+    const { client, socket } = await connect(createEventRouter(), undefined);
+    let answer: (value: unknown) => void = () => undefined;
+    client.on('slow', () => new Promise((resolve) => (answer = resolve)));
+
+    vi.useFakeTimers();
+    const pending = socket.emitWithAck('slow');
+    const result = expect(pending).rejects.toMatchObject({ code: 'ACK_TIMEOUT' });
+    await vi.advanceTimersByTimeAsync(5000);
+    await result;
+
+    answer('too late');
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  it('fails pending acknowledgements when the connection closes', async () => {
+    const { client, socket, disconnect } = await connect(createEventRouter());
+    client.on('never', () => new Promise(() => undefined));
+
+    const pending = socket.emitWithAck('never');
+    await flush();
+    disconnect();
+
+    await expect(pending).rejects.toMatchObject({ code: 'CONNECTION_CLOSED' });
+    await expect(socket.emitWithAck('never')).rejects.toMatchObject({
+      code: 'CONNECTION_CLOSED',
+    });
+  });
+
+  it('broadcasts an event frame to a room', async () => {
+    const router = createEventRouter();
+    const first = await connect(router);
+    first.connection.join('lobby');
+    const send = vi.spyOn(first.connection, 'broadcast');
+
+    first.socket.broadcast('lobby', 'news', { headline: 'hi' });
+
+    expect(send).toHaveBeenCalledWith('lobby', '{"event":"news","data":{"headline":"hi"}}');
+  });
+});
+
+/** An `EventClient` over a stub socket: `deliver` hands it a text frame. */
+function standalone() {
+  const send = vi.fn<(data: string) => void>();
+  const listeners: ((event: { data: unknown }) => void)[] = [];
+  const client = createEventClient({
+    send,
+    addEventListener: (type: 'message' | 'close', listener: (event: { data: unknown }) => void) => {
+      if (type === 'message') listeners.push(listener);
+    },
+  });
+  const deliver = (data: string) => {
+    for (const listener of listeners) listener({ data });
+  };
+  return { client, deliver, send };
+}
+
+describe('EventClient', () => {
+  it('answers an unknown event with UNKNOWN_EVENT', async () => {
+    const { socket } = await connect(createEventRouter());
+
+    await expect(socket.emitWithAck('nobody-home')).rejects.toMatchObject({
+      code: 'UNKNOWN_EVENT',
+    });
+  });
+
+  it('dispatches an event frame that also carries an ack key', async () => {
+    const { client, deliver } = standalone();
+    const handler = vi.fn();
+    client.on('ping', handler);
+
+    deliver('{"event":"ping","data":1,"ack":3}');
+    await flush();
+
+    expect(handler).toHaveBeenCalledWith(1);
+  });
+
+  it('drops the answer to an event once the socket can no longer send', async () => {
+    const { client, deliver, send } = standalone();
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    send.mockImplementation(() => {
+      throw new Error('WebSocket is already in CLOSING or CLOSED state');
+    });
+    client.on('ping', () => 'pong');
+
+    deliver('{"event":"ping","id":1}');
+    await flush();
+    process.off('unhandledRejection', unhandled);
+
+    expect(send).toHaveBeenCalledWith('{"ack":1,"data":"pong"}');
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  it('rejects a non-positive ackTimeout', () => {
+    const socket: EventClientSocket = { send: vi.fn(), addEventListener: vi.fn() };
+
+    expect(() => new EventClient(socket, { ackTimeout: 0 })).toThrow(/ackTimeout/);
+  });
+});
@@ -8,7 +8,31 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as websocketApi from '../index';
 import { DEFAULT_MAX_ROOMS_PER_CONNECTION, DEFAULT_WS_OPTIONS, MAX_ROOM_NAME_LENGTH, WS_READY_STATE_OPEN } from '../index';
-import type { WebSocketOptions, WSConnection, WSHandler, WSMiddleware, WSRoute } from '../index';
+import type {
+  EventClientOptions,
+  EventClientSocket,
+  EventRouterOptions,
+  RedisBackplaneOptions,
+  RedisPubSubClient,
+  RoomManagerHooks,
+  WebSocketOptions,
+  WebSocketUpgradeRequest,
+  WSConnection,
+  WSHandler,
+  WSMiddleware,
+  WSAckCallback,
+  WSAckFrame,
+  WSBackplane,
+  WSErrorFrame,
+  WSErrorPayload,
+  WSEventContext,
+  WSEventErrorCode,
+  WSEventFrame,
+  WSEventHandler,
+  WSEventIssue,
+  WSEventMiddleware,
+  WSRoute,
+} from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
@@ -26,6 +50,20 @@ describe('Public API surface (runtime exports)', () => {
       'MaxRoomsExceededError',
       'RoomManager',
       'WebSocketServer',
+      'createMemoryBackplane',
+      'MemoryBackplane',
+      'createRedisBackplane',
+      'DEFAULT_REDIS_BACKPLANE_NODE_TTL',
+      'DEFAULT_REDIS_BACKPLANE_PREFIX',
+      'REDIS_BACKPLANE_SCRIPTS',
+      'RedisBackplane',
+      'createEventRouter',
+      'EventRouter',
+      'EventSocket',
+      'createEventClient',
+      'EventClient',
+      'DEFAULT_ACK_TIMEOUT',
+      'WSEventError',
     ].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
@@ -40,7 +78,31 @@ describe('Public API surface (type-only exports)', () => {
   it('the type-only surface stays importable from the barrel', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
-    type Surface = [WebSocketOptions, WSConnection, WSHandler, WSMiddleware, WSRoute];
+    type Surface = [
+      EventClientOptions,
+      EventClientSocket,
+      EventRouterOptions,
+      RedisBackplaneOptions,
+      RedisPubSubClient,
+      RoomManagerHooks,
+      WebSocketOptions,
+      WebSocketUpgradeRequest,
+      WSConnection,
+      WSHandler,
+      WSMiddleware,
+      WSAckCallback,
+      WSAckFrame,
+      WSBackplane,
+      WSErrorFrame,
+      WSErrorPayload,
+      WSEventContext,
+      WSEventErrorCode,
+      WSEventFrame,
+      WSEventHandler,
+      WSEventIssue,
+      WSEventMiddleware,
+      WSRoute,
+    ];
     expectTypeOf<Surface>().not.toBeNever();
   });
 });
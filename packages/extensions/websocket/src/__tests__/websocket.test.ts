@@ -3,7 +3,7 @@
  */
 
 import { createServer, type Server } from 'node:http';
-import type { ExtensionContext } from '@nextrush/types';
+import type { ExtensionContext, WebSocketPeer, WebSocketUpgradeRequest } from '@nextrush/types';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { MaxRoomsExceededError, RoomManager } from '../room-manager';
 import { WebSocketServer } from '../server';
@@ -488,6 +488,34 @@ describe('WebSocketServer heartbeat unref (F-04a, D4a)', () => {
   });
 });
 
+describe('WebSocketServer.attach upgrade errors', () => {
+  let httpServer: Server;
+
+  beforeEach(() => {
+    httpServer = createServer();
+  });
+
+  afterEach(() => {
+    httpServer.close();
+  });
+
+  it('answers 500 and destroys the socket when the upgrade fails', async () => {
+    const wss = new WebSocketServer({ heartbeatInterval: 0 }).on('/chat', () => undefined);
+    await wss.attach(httpServer);
+    vi.spyOn(wss, 'handleUpgrade').mockRejectedValue(new Error('upgrade failed'));
+    const socket = { write: vi.fn(), destroy: vi.fn() };
+
+    httpServer.emit('upgrade', { url: '/chat', headers: {}, socket: {} }, socket, Buffer.alloc(0));
+
+    await vi.waitFor(() => {
+      expect(socket.destroy).toHaveBeenCalled();
+    });
+    expect(socket.write).toHaveBeenCalledWith('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+
+    wss.close();
+  });
+});
+
 describe('createWebSocketExtension (F-04b, D4b)', () => {
   let httpServer: Server;
 
@@ -549,6 +577,178 @@ describe('createWebSocketExtension (F-04b, D4b)', () => {
   });
 });
 
+describe('WebSocketServer.handleUpgrade (runtime-neutral contract)', () => {
+  function upgradeRequest(
+    path = '/chat',
+    headers: WebSocketUpgradeRequest['headers'] = {}
+  ): WebSocketUpgradeRequest {
+    return { url: `${path}?room=1`, path, headers, ip: '10.0.0.1', raw: undefined };
+  }
+
+  /** A peer like Deno's or WebSocketPair's: no control frames. */
+  function fakePeer(withPing = false): WebSocketPeer & { sent: unknown[] } {
+    const sent: unknown[] = [];
+    return {
+      sent,
+      readyState: 1,
+      send: (data) => sent.push(data),
+      close: vi.fn(),
+      ...(withPing ? { ping: vi.fn(), pong: vi.fn() } : {}),
+    };
+  }
+
+  async function accept(wss: WebSocketServer, request = upgradeRequest()) {
+    const result = await wss.handleUpgrade(request);
+    if (!result.accepted) throw new Error(`rejected with ${String(result.status)}`);
+    const peer = fakePeer();
+    return { peer, handlers: result.open(peer) };
+  }
+
+  it('rejects unknown paths, disallowed origins, a full server and failed verification', async () => {
+    const wss = new WebSocketServer({
+      allowedOrigins: ['https://app.example'],
+      verifyClient: (req) => req.headers.authorization === 'ok',
+    }).on('/chat', () => undefined);
+    const origin = { origin: 'https://app.example' };
+
+    await expect(wss.handleUpgrade(upgradeRequest('/admin', origin))).resolves.toMatchObject({
+      accepted: false,
+      status: 404,
+    });
+    await expect(
+      wss.handleUpgrade(upgradeRequest('/chat', { origin: 'https://evil.example' }))
+    ).resolves.toMatchObject({ accepted: false, status: 403 });
+    await expect(wss.handleUpgrade(upgradeRequest('/chat', origin))).resolves.toMatchObject({
+      accepted: false,
+      status: 401,
+    });
+    await expect(
+      wss.handleUpgrade(upgradeRequest('/chat', { ...origin, authorization: 'ok' }))
+    ).resolves.toMatchObject({ accepted: true });
+
+    const full = new WebSocketServer({ maxConnections: 1, heartbeatInterval: 0 }).on('/chat', () => undefined);
+    await accept(full);
+    await expect(full.handleUpgrade(upgradeRequest())).resolves.toMatchObject({
+      accepted: false,
+      status: 503,
+    });
+  });
+
+  it('rejects with 500 when verifyClient throws', async () => {
+    const wss = new WebSocketServer({
+      verifyClient: () => {
+        throw new Error('db down');
+      },
+    }).on('/chat', () => undefined);
+
+    await expect(wss.handleUpgrade(upgradeRequest())).resolves.toMatchObject({ status: 500 });
+  });
+
+  it('runs middleware and the route handler with the neutral request, then delivers messages', async () => {
+    const wss = new WebSocketServer({ heartbeatInterval: 0 });
+    const seen: string[] = [];
+    wss.use((conn, req, next) => {
+      seen.push(`mw:${req.ip}`);
+      return next();
+    });
+    wss.on('/chat', (conn, req) => {
+      seen.push(`handler:${conn.url}:${req.path}`);
+      conn.on('message', (data) => conn.send(data));
+    });
+
+    const { peer, handlers } = await accept(wss);
+    handlers.message('hello');
+    handlers.message(new Uint8Array([1, 2]));
+
+    expect(seen).toEqual(['mw:10.0.0.1', 'handler:/chat?room=1:/chat']);
+    expect(peer.sent).toEqual(['hello', new Uint8Array([1, 2])]);
+    expect(wss.getConnectionCount()).toBe(1);
+  });
+
+  it('removes a handler with off()', async () => {
+    const wss = new WebSocketServer({ heartbeatInterval: 0 });
+    const received: unknown[] = [];
+    const listener = (data: unknown): void => {
+      received.push(data);
+    };
+    wss.on('/chat', (conn) => {
+      conn.on('message', listener);
+      conn.off('message', listener);
+    });
+
+    const { handlers } = await accept(wss);
+    handlers.message('ignored');
+
+    expect(received).toEqual([]);
+  });
+
+  it('closes with 1009 when a message exceeds maxPayload', async () => {
+    const wss = new WebSocketServer({ maxPayload: 4, heartbeatInterval: 0 });
+    const received: unknown[] = [];
+    wss.on('/chat', (conn) => conn.on('message', (data) => received.push(data)));
+
+    const { peer, handlers } = await accept(wss);
+    handlers.message('ok');
+    handlers.message('too long');
+
+    expect(received).toEqual(['ok']);
+    expect(peer.close).toHaveBeenCalledWith(1009, 'Message too big');
+  });
+
+  it('leaves rooms, untracks the connection and reports close once', async () => {
+    const onClose = vi.fn();
+    const wss = new WebSocketServer({ heartbeatInterval: 0, onClose });
+    wss.on('/chat', (conn) => conn.join('lobby'));
+
+    const { handlers } = await accept(wss);
+    expect(wss.getRoomConnections('lobby')).toHaveLength(1);
+
+    handlers.close(1001, 'going away');
+    handlers.close(1006, '');
+
+    expect(wss.getRoomConnections('lobby')).toHaveLength(0);
+    expect(wss.getConnectionCount()).toBe(0);
+    expect(onClose).toHaveBeenCalledOnce();
+    expect(onClose).toHaveBeenCalledWith(expect.anything(), 1001, 'going away');
+  });
+
+  it('leaves peers without control frames out of the heartbeat', async () => {
+    vi.useFakeTimers();
+    try {
+      const wss = new WebSocketServer({ heartbeatInterval: 10 }).on('/chat', () => undefined);
+      const { peer } = await accept(wss);
+
+      vi.advanceTimersByTime(50);
+
+      expect(peer.close).not.toHaveBeenCalled();
+      expect(wss.getConnectionCount()).toBe(1);
+      wss.close();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('pings peers with control frames and drops those that never answer', async () => {
+    vi.useFakeTimers();
+    try {
+      const wss = new WebSocketServer({ heartbeatInterval: 10 }).on('/chat', () => undefined);
+      const result = await wss.handleUpgrade(upgradeRequest());
+      if (!result.accepted) throw new Error('rejected');
+      const peer = fakePeer(true);
+      result.open(peer);
+
+      vi.advanceTimersByTime(10);
+      expect(peer.ping).toHaveBeenCalledOnce();
+
+      vi.advanceTimersByTime(10);
+      expect(peer.close).toHaveBeenCalledWith(1001, 'Connection timeout');
+      wss.close();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
 describe('Exports', () => {
   it('should export all required types and classes', async () => {
     const exports = await import('../index');
@@ -0,0 +1,105 @@
+/**
+ * @nextrush/websocket - Backplane
+ *
+ * The pub/sub contract that carries broadcasts, targeted sends, room changes
+ * and presence between WebSocket servers on different nodes, and the
+ * in-memory implementation used by tests and single-process setups.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Pub/sub backplane shared by every node of a cluster.
+ *
+ * Messages are opaque strings: the server encodes, tags and de-duplicates
+ * them itself, so an implementation only has to fan each published message
+ * out to every subscriber — the publisher's own subscription included.
+ * Presence is kept per node as an absolute count, so a lost update heals on
+ * the node's next change in that room.
+ */
+export interface WSBackplane {
+  /** Deliver `message` to every subscriber on every node. */
+  publish(message: string): Promise<void>;
+
+  /**
+   * Receive every published message. Resolves once the subscription is live,
+   * with a function that ends it.
+   */
+  subscribe(listener: (message: string) => void): Promise<() => Promise<void>>;
+
+  /** Record that `nodeId` holds `count` connections in `room` (`0` removes the entry). */
+  setPresence(nodeId: string, room: string, count: number): Promise<void>;
+
+  /** Connections in `room` across every live node. */
+  getPresence(room: string): Promise<number>;
+
+  /** Drop every presence entry `nodeId` recorded — called when its server closes. */
+  removeNode(nodeId: string): Promise<void>;
+}
+
+/**
+ * In-process backplane
+ *
+ * Servers sharing one instance behave like nodes of a cluster, which makes it
+ * the backplane for tests and for several servers in one process. Messages
+ * are delivered asynchronously, as a network backplane would.
+ */
+export class MemoryBackplane implements WSBackplane {
+  private readonly listeners = new Set<(message: string) => void>();
+  private readonly presence = new Map<string, Map<string, number>>();
+
+  async publish(message: string): Promise<void> {
+    await Promise.resolve();
+    for (const listener of [...this.listeners]) {
+      listener(message);
+    }
+  }
+
+  subscribe(listener: (message: string) => void): Promise<() => Promise<void>> {
+    // Each subscription gets its own entry, even for a repeated listener.
+    const entry = (message: string): void => {
+      listener(message);
+    };
+    this.listeners.add(entry);
+    return Promise.resolve(() => {
+      this.listeners.delete(entry);
+      return Promise.resolve();
+    });
+  }
+
+  setPresence(nodeId: string, room: string, count: number): Promise<void> {
+    let nodes = this.presence.get(room);
+    if (count > 0) {
+      if (!nodes) {
+        nodes = new Map();
+        this.presence.set(room, nodes);
+      }
+      nodes.set(nodeId, count);
+      return Promise.resolve();
+    }
+    nodes?.delete(nodeId);
+    if (nodes?.size === 0) this.presence.delete(room);
+    return Promise.resolve();
+  }
+
+  getPresence(room: string): Promise<number> {
+    let total = 0;
+    for (const count of this.presence.get(room)?.values() ?? []) total += count;
+    return Promise.resolve(total);
+  }
+
+  removeNode(nodeId: string): Promise<void> {
+    for (const [room, nodes] of this.presence) {
+      nodes.delete(nodeId);
+      if (nodes.size === 0) this.presence.delete(room);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Create an in-process backplane
+ */
+export function createMemoryBackplane(): MemoryBackplane {
+  return new MemoryBackplane();
+}
@@ -0,0 +1,195 @@
+/**
+ * @nextrush/websocket - Cluster Relay
+ *
+ * Carries one server's broadcasts, targeted sends and room changes to the
+ * other nodes on a {@link WSBackplane}, and hands theirs back to the server.
+ *
+ * @packageDocumentation
+ */
+
+import type { WSBackplane } from './backplane';
+
+/** How many message ids a node remembers to drop repeated deliveries. */
+const SEEN_MESSAGE_LIMIT = 10_000;
+
+/** What one node tells the others. */
+type Message =
+  | { kind: 'broadcast'; data: string; binary?: true; except?: string }
+  | { kind: 'room'; room: string; data: string; binary?: true; except?: string }
+  | { kind: 'send'; target: string; data: string; binary?: true }
+  | { kind: 'join' | 'leave'; target: string; room: string };
+
+/** The format on the backplane: every message carries an id and its origin node. */
+type Envelope = Message & { id: string; node: string };
+
+/**
+ * What the relay delivers to its server — each call reaches only the
+ * connections on this node.
+ */
+export interface ClusterDelivery {
+  broadcast(data: string | Uint8Array, except?: string): void;
+  room(room: string, data: string | Uint8Array, except?: string): void;
+  send(target: string, data: string | Uint8Array): void;
+  join(target: string, room: string): void;
+  leave(target: string, room: string): void;
+}
+
+/**
+ * Bridges one `WebSocketServer` to a backplane.
+ *
+ * Messages this node publishes are tagged with its id and skipped when they
+ * come back (the server already delivered them locally); every message id is
+ * remembered for a while, so a transport that delivers twice delivers once.
+ *
+ * @internal
+ */
+export class ClusterRelay {
+  readonly nodeId: string;
+
+  private readonly backplane: WSBackplane;
+  private readonly deliver: ClusterDelivery;
+  private readonly onError: (error: unknown) => void;
+  private readonly seen = new Set<string>();
+  private readonly subscription: Promise<(() => Promise<void>) | null>;
+  private stopped = false;
+
+  constructor(
+    backplane: WSBackplane,
+    nodeId: string,
+    deliver: ClusterDelivery,
+    onError: (error: unknown) => void
+  ) {
+    this.backplane = backplane;
+    this.nodeId = nodeId;
+    this.deliver = deliver;
+    this.onError = onError;
+    this.subscription = backplane
+      .subscribe((message) => {
+        this.receive(message);
+      })
+      .catch((error: unknown) => {
+        onError(error);
+        return null;
+      });
+  }
+
+  /** Resolves once this node receives messages (or its subscription failed). */
+  async ready(): Promise<void> {
+    await this.subscription;
+  }
+
+  broadcast(data: string | Uint8Array, except?: string): void {
+    this.publish({ kind: 'broadcast', ...encode(data), except });
+  }
+
+  room(room: string, data: string | Uint8Array, except?: string): void {
+    this.publish({ kind: 'room', room, ...encode(data), except });
+  }
+
+  send(target: string, data: string | Uint8Array): void {
+    this.publish({ kind: 'send', target, ...encode(data) });
+  }
+
+  join(target: string, room: string): void {
+    this.publish({ kind: 'join', target, room });
+  }
+
+  leave(target: string, room: string): void {
+    this.publish({ kind: 'leave', target, room });
+  }
+
+  /** Record this node's connection count in `room`. */
+  presence(room: string, count: number): void {
+    if (this.stopped) return;
+    this.backplane.setPresence(this.nodeId, room, count).catch(this.onError);
+  }
+
+  /** Connections in `room` across the cluster. */
+  getPresence(room: string): Promise<number> {
+    return this.backplane.getPresence(room);
+  }
+
+  /** Unsubscribe and withdraw this node's presence. */
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+    const unsubscribe = await this.subscription;
+    await Promise.all([unsubscribe?.(), this.backplane.removeNode(this.nodeId)]);
+  }
+
+  private publish(message: Message): void {
+    if (this.stopped) return;
+    const envelope: Envelope = { ...message, id: crypto.randomUUID(), node: this.nodeId };
+    this.backplane.publish(JSON.stringify(envelope)).catch(this.onError);
+  }
+
+  private receive(message: string): void {
+    const envelope = parse(message);
+    if (!envelope || envelope.node === this.nodeId || this.stopped) return;
+    if (this.seen.has(envelope.id)) return;
+    this.seen.add(envelope.id);
+    if (this.seen.size > SEEN_MESSAGE_LIMIT) {
+      // Sets iterate in insertion order, so the first id is the oldest.
+      for (const oldest of this.seen) {
+        this.seen.delete(oldest);
+        break;
+      }
+    }
+
+    switch (envelope.kind) {
+      case 'broadcast':
+        this.deliver.broadcast(decode(envelope), envelope.except);
+        break;
+      case 'room':
+        this.deliver.room(envelope.room, decode(envelope), envelope.except);
+        break;
+      case 'send':
+        this.deliver.send(envelope.target, decode(envelope));
+        break;
+      case 'join':
+        this.deliver.join(envelope.target, envelope.room);
+        break;
+      case 'leave':
+        this.deliver.leave(envelope.target, envelope.room);
+        break;
+    }
+  }
+}
+
+/** Text travels as-is; bytes as base64, which every runtime can decode with `atob`. */
+function encode(data: string | Uint8Array): { data: string; binary?: true } {
+  if (typeof data === 'string') return { data };
+  let text = '';
+  for (let offset = 0; offset < data.length; offset += 0x8000) {
+    text += String.fromCharCode(...data.subarray(offset, offset + 0x8000));
+  }
+  return { data: btoa(text), binary: true };
+}
+
+function decode(envelope: { data: string; binary?: true }): string | Uint8Array {
+  if (!envelope.binary) return envelope.data;
+  const text = atob(envelope.data);
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+/** The envelope in `message`, or `null` for anything another publisher put on the channel. */
+function parse(message: string): Envelope | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(message);
+  } catch {
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) return null;
+  const { id, node, kind } = value as Partial<Record<string, unknown>>;
+  if (typeof id !== 'string' || typeof node !== 'string') return null;
+  return kind === 'broadcast' ||
+    kind === 'room' ||
+    kind === 'send' ||
+    kind === 'join' ||
+    kind === 'leave'
+    ? (value as Envelope)
+    : null;
+}
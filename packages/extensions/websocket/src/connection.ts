@@ -1,39 +1,37 @@
 /**
  * @nextrush/websocket - Connection Wrapper
  *
- * Wraps the ws library WebSocket with a clean, simple API.
+ * Wraps a runtime's socket (as a `WebSocketPeer`) with a clean, simple API.
  *
  * @packageDocumentation
  */
 
 const randomUUID = (): string => crypto.randomUUID();
-import type { IncomingMessage } from 'node:http';
+import type { WebSocketPeer, WebSocketUpgradeRequest } from '@nextrush/types';
 import type { RoomManager } from './room-manager';
 import { WS_READY_STATE_OPEN, type WSConnection } from './types';
 
-/**
- * Internal ws instance interface (avoids external type dependency)
- */
-interface WsInstance {
-  readyState: number;
-  send(data: string | Buffer): void;
-  close(code?: number, reason?: string): void;
-  ping(data?: Buffer): void;
-  pong(data?: Buffer): void;
-  on(event: string, handler: (...args: unknown[]) => void): void;
-  off(event: string, handler: (...args: unknown[]) => void): void;
-}
-
 // Event handler types
-type MessageHandler = (data: string | Buffer) => void;
+type MessageHandler = (data: string | Uint8Array) => void;
 type CloseHandler = (code: number, reason: string) => void;
 type ErrorHandler = (error: Error) => void;
-type PingPongHandler = (data: Buffer) => void;
+type PingPongHandler = (data: Uint8Array) => void;
+
+interface ConnectionEvents {
+  message: [data: string | Uint8Array];
+  close: [code: number, reason: string];
+  error: [error: Error];
+  ping: [data: Uint8Array];
+  pong: [data: Uint8Array];
+}
+
+type ConnectionEvent = keyof ConnectionEvents;
 
 /**
  * WebSocket connection wrapper
  *
- * Provides a clean API over the ws library WebSocket:
+ * Provides a clean API over the runtime's socket, identical on Node, Bun,
+ * Deno and Edge:
  * - Simplified send/receive
  * - Room support via RoomManager
  * - JSON helpers
@@ -42,26 +40,33 @@ type PingPongHandler = (data: Buffer) => void;
 export class Connection implements WSConnection {
   readonly id: string;
   readonly url: string;
-  readonly request: IncomingMessage;
+  readonly request: WebSocketUpgradeRequest;
 
-  private readonly ws: WsInstance;
+  private readonly peer: WebSocketPeer;
   private readonly roomManager: RoomManager;
+  private readonly listeners = new Map<string, Set<(...args: never[]) => void>>();
+  private closed = false;
 
-  constructor(ws: WsInstance, request: IncomingMessage, roomManager: RoomManager) {
+  constructor(peer: WebSocketPeer, request: WebSocketUpgradeRequest, roomManager: RoomManager) {
     this.id = randomUUID();
-    this.url = request.url ?? '/';
+    this.url = request.url;
     this.request = request;
-    this.ws = ws;
+    this.peer = peer;
     this.roomManager = roomManager;
   }
 
   get isOpen(): boolean {
-    return this.ws.readyState === WS_READY_STATE_OPEN;
+    return this.peer.readyState === WS_READY_STATE_OPEN;
   }
 
-  send(data: string | Buffer): void {
+  /** Whether the runtime exposes ping/pong control frames for this socket. */
+  get supportsPing(): boolean {
+    return this.peer.ping !== undefined;
+  }
+
+  send(data: string | Uint8Array): void {
     if (this.isOpen) {
-      this.ws.send(data);
+      this.peer.send(data);
     }
   }
 
@@ -76,7 +81,7 @@ export class Connection implements WSConnection {
 
   close(code = 1000, reason = 'Normal closure'): void {
     this.roomManager.leaveAll(this);
-    this.ws.close(code, reason);
+    this.peer.close(code, reason);
   }
 
   join(room: string): void {
@@ -95,7 +100,7 @@ export class Connection implements WSConnection {
     return this.roomManager.getRooms(this);
   }
 
-  broadcast(room: string, data: string | Buffer): void {
+  broadcast(room: string, data: string | Uint8Array): void {
     this.roomManager.broadcast(room, data, this);
   }
 
@@ -108,61 +113,48 @@ export class Connection implements WSConnection {
   on(event: 'error', handler: ErrorHandler): void;
   on(event: 'ping', handler: PingPongHandler): void;
   on(event: 'pong', handler: PingPongHandler): void;
-  on(
-    event: 'message' | 'close' | 'error' | 'ping' | 'pong',
-    handler: MessageHandler | CloseHandler | ErrorHandler | PingPongHandler
-  ): void {
-    switch (event) {
-      case 'message':
-        this.ws.on('message', (rawData: unknown, isBinary: unknown) => {
-          const buffer = Buffer.isBuffer(rawData) ? rawData : Buffer.from(rawData as ArrayBuffer);
-          (handler as MessageHandler)(isBinary ? buffer : buffer.toString('utf8'));
-        });
-        break;
-
-      case 'close':
-        this.ws.on('close', (code: unknown, reason: unknown) => {
-          this.roomManager.leaveAll(this);
-          const reasonStr = Buffer.isBuffer(reason)
-            ? reason.toString('utf8')
-            : String(reason ?? '');
-          (handler as CloseHandler)(code as number, reasonStr);
-        });
-        break;
-
-      case 'error':
-        this.ws.on('error', (error: unknown) => {
-          (handler as ErrorHandler)(error as Error);
-        });
-        break;
-
-      case 'ping':
-        this.ws.on('ping', (data: unknown) => {
-          (handler as PingPongHandler)(data as Buffer);
-        });
-        break;
-
-      case 'pong':
-        this.ws.on('pong', (data: unknown) => {
-          (handler as PingPongHandler)(data as Buffer);
-        });
-        break;
+  on(event: ConnectionEvent, handler: (...args: never[]) => void): void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
     }
+    handlers.add(handler);
   }
 
   off(event: string, handler: (...args: unknown[]) => void): void {
-    this.ws.off(event, handler);
+    this.listeners.get(event)?.delete(handler);
   }
 
-  ping(data?: Buffer): void {
+  ping(data?: Uint8Array): void {
     if (this.isOpen) {
-      this.ws.ping(data);
+      this.peer.ping?.(data);
     }
   }
 
-  pong(data?: Buffer): void {
+  pong(data?: Uint8Array): void {
     if (this.isOpen) {
-      this.ws.pong(data);
+      this.peer.pong?.(data);
+    }
+  }
+
+  /**
+   * Deliver a socket event to the registered handlers. Called by the server
+   * with the events the adapter reports; `close` is delivered once and leaves
+   * every room first.
+   *
+   * @internal
+   */
+  emit<E extends ConnectionEvent>(event: E, ...args: ConnectionEvents[E]): void {
+    if (event === 'close') {
+      if (this.closed) return;
+      this.closed = true;
+      this.roomManager.leaveAll(this);
+    }
+    const handlers = this.listeners.get(event);
+    if (!handlers) return;
+    for (const handler of [...handlers]) {
+      (handler as (...eventArgs: unknown[]) => void)(...args);
     }
   }
 }
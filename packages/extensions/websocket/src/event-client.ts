@@ -0,0 +1,117 @@
+/**
+ * @nextrush/websocket - Event Client
+ *
+ * The client end of the event protocol, over any `WebSocket`-shaped object —
+ * the browser's, `ws`'s, or an in-memory stand-in in a test.
+ *
+ * @packageDocumentation
+ */
+
+import { assertEventName, EventEndpoint, WSEventError, type WSEventFrame } from './event-protocol';
+
+/**
+ * The part of a `WebSocket` the client uses. Browser, Deno, Bun and `ws`
+ * sockets all fit; only `string` message data is read.
+ */
+export interface EventClientSocket {
+  send(data: string): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  addEventListener(type: 'close', listener: () => void): void;
+}
+
+/**
+ * Event client options
+ */
+export interface EventClientOptions {
+  /**
+   * Milliseconds an emit waits for its acknowledgement
+   * @default 5000
+   */
+  ackTimeout?: number;
+}
+
+/**
+ * Event client
+ *
+ * Speaks the event protocol to an `EventRouter`: `emit()`/`emitWithAck()`
+ * events to it, and answer the events it emits with `on()` handlers, whose
+ * return value is the acknowledgement. Payloads are not validated.
+ *
+ * @example
+ * ```typescript
+ * const client = createEventClient(new WebSocket('ws://localhost:8080/chat'));
+ * client.on('welcome', (data) => console.log(data));
+ *
+ * const receipt = await client.emitWithAck('chat:send', { text: 'hi' });
+ * ```
+ */
+export class EventClient extends EventEndpoint {
+  private readonly socket: EventClientSocket;
+  private readonly handlers = new Map<string, (data: unknown) => unknown>();
+  private readonly errorListeners = new Set<(error: WSEventError) => void>();
+
+  constructor(socket: EventClientSocket, options: EventClientOptions = {}) {
+    super(options.ackTimeout);
+    this.socket = socket;
+
+    socket.addEventListener('message', (event) => {
+      if (typeof event.data === 'string') this.receive(event.data);
+    });
+    socket.addEventListener('close', () => {
+      this.stop();
+    });
+  }
+
+  /** Answer `event`; the (awaited) return value is the acknowledgement's data. */
+  on(event: string, handler: (data: unknown) => unknown): this {
+    assertEventName(event);
+    this.handlers.set(event, handler);
+    return this;
+  }
+
+  /** Listen for error frames — failures the server had no acknowledgement to carry. */
+  onError(listener: (error: WSEventError) => void): this {
+    this.errorListeners.add(listener);
+    return this;
+  }
+
+  protected write(text: string): void {
+    this.socket.send(text);
+  }
+
+  protected dispatch(frame: WSEventFrame): Promise<unknown> {
+    const handler = this.handlers.get(frame.event);
+    if (!handler) {
+      return Promise.reject(
+        new WSEventError('UNKNOWN_EVENT', `No handler for event "${frame.event}"`)
+      );
+    }
+    // A handler that throws synchronously rejects, like an async one
+    return new Promise((resolve) => {
+      resolve(handler(frame.data));
+    });
+  }
+
+  protected report(error: unknown, frame: WSEventFrame): void {
+    if (typeof globalThis.console.error === 'function') {
+      globalThis.console.error(
+        `[@nextrush/websocket] Client handler for event "${frame.event}" failed:`,
+        error
+      );
+    }
+  }
+
+  protected override receiveError(error: WSEventError): void {
+    for (const listener of [...this.errorListeners]) listener(error);
+  }
+}
+
+/**
+ * Create an event client over a `WebSocket`-shaped socket
+ */
+export function createEventClient(
+  socket: EventClientSocket,
+  options?: EventClientOptions
+): EventClient {
+  return new EventClient(socket, options);
+}
@@ -0,0 +1,328 @@
+/**
+ * @nextrush/websocket - Event Protocol
+ *
+ * The JSON frames the event layer exchanges, and the endpoint logic both
+ * ends share: emitting, matching acknowledgements to the emits that asked
+ * for them, and answering a received event with an acknowledgement or an
+ * error frame.
+ *
+ * @packageDocumentation
+ */
+
+/** Milliseconds an emit waits for its acknowledgement by default */
+export const DEFAULT_ACK_TIMEOUT = 5000;
+
+/**
+ * Codes the protocol itself uses. A handler may throw a {@link WSEventError}
+ * with any other code, which reaches the sender unchanged.
+ */
+export type WSEventErrorCode =
+  | 'BAD_FRAME'
+  | 'UNKNOWN_EVENT'
+  | 'VALIDATION_FAILED'
+  | 'INTERNAL_ERROR'
+  | 'ACK_TIMEOUT'
+  | 'CONNECTION_CLOSED'
+  | (string & {});
+
+/** One schema issue, with its path rendered from `data` (`'data.items[0].name'`) */
+export interface WSEventIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/** The `error` member of an acknowledgement or error frame */
+export interface WSErrorPayload {
+  code: WSEventErrorCode;
+  message: string;
+  /** The event that failed, on error frames answering an event */
+  event?: string;
+  issues?: WSEventIssue[];
+}
+
+/** `{ event, data?, id? }` — a named event; `id` asks for an acknowledgement */
+export interface WSEventFrame {
+  event: string;
+  data?: unknown;
+  id?: number;
+}
+
+/** `{ ack, data? | error? }` — the answer to the event frame with `id: ack` */
+export interface WSAckFrame {
+  ack: number;
+  data?: unknown;
+  error?: WSErrorPayload;
+}
+
+/** `{ error }` — a failure with no acknowledgement to carry it */
+export interface WSErrorFrame {
+  error: WSErrorPayload;
+}
+
+/** A parsed frame, tagged with the type it was recognised as */
+type Frame =
+  | { readonly type: 'event'; readonly frame: WSEventFrame }
+  | { readonly type: 'ack'; readonly frame: WSAckFrame }
+  | { readonly type: 'error'; readonly frame: WSErrorFrame };
+
+/**
+ * Called once with the acknowledgement's data, or with the error the other
+ * end answered with (or `ACK_TIMEOUT` / `CONNECTION_CLOSED`)
+ */
+export type WSAckCallback = (error: WSEventError | null, data?: unknown) => void;
+
+/**
+ * An event-protocol failure. Throw one from a handler or middleware to answer
+ * the sender with its `code` and `message`; any other error reaches the
+ * sender as `INTERNAL_ERROR`, with no detail.
+ */
+export class WSEventError extends Error {
+  readonly code: WSEventErrorCode;
+  readonly issues: readonly WSEventIssue[] | undefined;
+
+  constructor(code: WSEventErrorCode, message: string, issues?: readonly WSEventIssue[]) {
+    super(message);
+    this.name = 'WSEventError';
+    this.code = code;
+    this.issues = issues;
+  }
+
+  toJSON(): WSErrorPayload {
+    const payload: WSErrorPayload = { code: this.code, message: this.message };
+    if (this.issues) payload.issues = [...this.issues];
+    return payload;
+  }
+}
+
+interface PendingAck {
+  readonly callback: WSAckCallback;
+  readonly timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * One end of an event-protocol conversation.
+ *
+ * Subclasses supply the transport (`write`) and what a received event does
+ * (`dispatch`); this class owns the frames and the acknowledgement
+ * bookkeeping, so the server and the client speak exactly the same protocol.
+ *
+ * @internal
+ */
+export abstract class EventEndpoint {
+  private readonly ackTimeout: number;
+  private readonly pending = new Map<number, PendingAck>();
+  private nextId = 1;
+  private closed = false;
+
+  protected constructor(ackTimeout = DEFAULT_ACK_TIMEOUT) {
+    if (!Number.isFinite(ackTimeout) || ackTimeout <= 0) {
+      throw new TypeError('ackTimeout must be a positive number of milliseconds');
+    }
+    this.ackTimeout = ackTimeout;
+  }
+
+  /**
+   * Send `event` to the other end. With `ack`, the other end's handler result
+   * comes back through it, or an error once `ackTimeout` passes.
+   *
+   * @throws {TypeError} If `data` cannot be serialized as JSON
+   */
+  emit(event: string, data?: unknown, ack?: WSAckCallback): void {
+    assertEventName(event);
+    if (!ack) {
+      this.write(JSON.stringify({ event, data } satisfies WSEventFrame));
+      return;
+    }
+
+    if (this.closed) {
+      queueMicrotask(() => {
+        ack(closedError());
+      });
+      return;
+    }
+
+    const id = this.nextId++;
+    this.write(JSON.stringify({ event, data, id } satisfies WSEventFrame));
+    const timer = setTimeout(() => {
+      this.pending.delete(id);
+      ack(
+        new WSEventError(
+          'ACK_TIMEOUT',
+          `No acknowledgement for "${event}" within ${String(this.ackTimeout)}ms`
+        )
+      );
+    }, this.ackTimeout);
+    this.pending.set(id, { callback: ack, timer });
+  }
+
+  /**
+   * {@link emit} with the acknowledgement as a promise.
+   *
+   * @returns The other end's handler result
+   * @throws {WSEventError} The other end's error, `ACK_TIMEOUT` or `CONNECTION_CLOSED`
+   */
+  emitWithAck<T = unknown>(event: string, data?: unknown): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.emit(event, data, (error, response) => {
+        if (error) reject(error);
+        else resolve(response as T);
+      });
+    });
+  }
+
+  /** Send a frame over the transport. */
+  protected abstract write(text: string): void;
+
+  /** Run a received event; the resolved value is its acknowledgement's data. */
+  protected abstract dispatch(frame: WSEventFrame): Promise<unknown>;
+
+  /** A dispatch failed with something other than a {@link WSEventError}. */
+  protected abstract report(error: unknown, frame: WSEventFrame): void;
+
+  /** The other end sent an error frame. Ignored unless a subclass listens. */
+  protected receiveError(_error: WSEventError): void {
+    // No listener by default.
+  }
+
+  /** Handle one text frame from the other end. */
+  protected receive(text: string): void {
+    const parsed = parseFrame(text);
+    if (!parsed) {
+      this.writeError({
+        code: 'BAD_FRAME',
+        message: 'Expected a JSON object with an "event" or "ack" field',
+      });
+      return;
+    }
+
+    switch (parsed.type) {
+      case 'event': {
+        const { frame } = parsed;
+        this.dispatch(frame)
+          .then(
+            (data) => {
+              this.answer(frame, data);
+            },
+            (error: unknown) => {
+              this.fail(frame, error);
+            }
+          )
+          .catch(() => {
+            // The transport closed before the answer could be written.
+          });
+        break;
+      }
+      case 'ack':
+        this.settle(parsed.frame);
+        break;
+      case 'error':
+        this.receiveError(toError(parsed.frame.error));
+        break;
+    }
+  }
+
+  /** Fail every pending acknowledgement; later emits with `ack` fail at once. */
+  protected stop(): void {
+    if (this.closed) return;
+    this.closed = true;
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const { callback, timer } of pending) {
+      clearTimeout(timer);
+      callback(closedError());
+    }
+  }
+
+  private settle(frame: WSAckFrame): void {
+    const entry = this.pending.get(frame.ack);
+    // Unknown ids are acknowledgements that already timed out.
+    if (!entry) return;
+    this.pending.delete(frame.ack);
+    clearTimeout(entry.timer);
+    if (frame.error) entry.callback(toError(frame.error));
+    else entry.callback(null, frame.data);
+  }
+
+  private answer(frame: WSEventFrame, data: unknown): void {
+    if (frame.id === undefined) return;
+    let text: string;
+    try {
+      text = JSON.stringify({ ack: frame.id, data } satisfies WSAckFrame);
+    } catch (error) {
+      this.fail(frame, error);
+      return;
+    }
+    this.write(text);
+  }
+
+  private fail(frame: WSEventFrame, error: unknown): void {
+    let payload: WSErrorPayload;
+    if (error instanceof WSEventError) {
+      payload = error.toJSON();
+    } else {
+      this.report(error, frame);
+      payload = { code: 'INTERNAL_ERROR', message: 'Internal error' };
+    }
+
+    if (frame.id === undefined) {
+      this.writeError({ ...payload, event: frame.event });
+    } else {
+      this.write(JSON.stringify({ ack: frame.id, error: payload } satisfies WSAckFrame));
+    }
+  }
+
+  private writeError(error: WSErrorPayload): void {
+    this.write(JSON.stringify({ error } satisfies WSErrorFrame));
+  }
+}
+
+/** @throws {TypeError} If `event` is not a non-empty string */
+export function assertEventName(event: string): void {
+  if (typeof event !== 'string' || event.length === 0) {
+    throw new TypeError('Event name must be a non-empty string');
+  }
+}
+
+function closedError(): WSEventError {
+  return new WSEventError('CONNECTION_CLOSED', 'The connection closed before an acknowledgement');
+}
+
+function toError(payload: WSErrorPayload): WSEventError {
+  return new WSEventError(payload.code, payload.message, payload.issues);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The frame in `text`, or `null` when it is not one. A valid `event` makes it
+ * an event frame whatever other keys it carries.
+ */
+function parseFrame(text: string): Frame | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(value)) return null;
+
+  if (typeof value.event === 'string' && value.event.length > 0) {
+    return value.id === undefined || Number.isSafeInteger(value.id)
+      ? { type: 'event', frame: value as unknown as WSEventFrame }
+      : null;
+  }
+  if (Number.isSafeInteger(value.ack)) {
+    return value.error === undefined || isErrorPayload(value.error)
+      ? { type: 'ack', frame: value as unknown as WSAckFrame }
+      : null;
+  }
+  return isErrorPayload(value.error)
+    ? { type: 'error', frame: value as unknown as WSErrorFrame }
+    : null;
+}
+
+function isErrorPayload(value: unknown): value is WSErrorPayload {
+  return isObject(value) && typeof value.code === 'string' && typeof value.message === 'string';
+}
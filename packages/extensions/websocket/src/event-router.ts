@@ -0,0 +1,306 @@
+/**
+ * @nextrush/websocket - Event Router
+ *
+ * An optional protocol layer over a connection's text frames: named events
+ * whose payloads a Standard Schema validates, per-event middleware, and
+ * acknowledgements in both directions.
+ *
+ * @packageDocumentation
+ */
+
+import type { InferOutput, StandardSchemaIssue, StandardSchemaV1 } from '@nextrush/types';
+import {
+  assertEventName,
+  EventEndpoint,
+  WSEventError,
+  type WSEventFrame,
+  type WSEventIssue,
+} from './event-protocol';
+import type { WSConnection } from './types';
+
+/**
+ * What a handler and its middleware see of one received event
+ */
+export interface WSEventContext<T = unknown> {
+  /** The connection the event arrived on */
+  readonly connection: WSConnection;
+
+  /** The connection's event socket, for emitting back */
+  readonly socket: EventSocket;
+
+  /** Event name */
+  readonly event: string;
+
+  /**
+   * The payload: as received in middleware, the schema's output by the time
+   * the handler runs
+   */
+  data: T;
+
+  /** Whether the sender asked for an acknowledgement */
+  readonly ack: boolean;
+
+  /** Scratch space for middleware to hand values to the handler */
+  readonly state: Record<string, unknown>;
+}
+
+/**
+ * Event handler. Its (awaited) return value is the acknowledgement's data.
+ */
+export type WSEventHandler<T = unknown> = (data: T, context: WSEventContext<T>) => unknown;
+
+/**
+ * Event middleware — runs before the payload is validated. Throw (a
+ * {@link WSEventError} to choose the code the sender sees) to reject the
+ * event; return without calling `next()` to drop it.
+ */
+export type WSEventMiddleware = (
+  context: WSEventContext,
+  next: () => Promise<void>
+) => void | Promise<void>;
+
+/**
+ * Event router options
+ */
+export interface EventRouterOptions {
+  /**
+   * Milliseconds an emit waits for its acknowledgement
+   * @default 5000
+   */
+  ackTimeout?: number;
+
+  /**
+   * Called when a handler or middleware throws something other than a
+   * `WSEventError`; the sender only sees `INTERNAL_ERROR`
+   * @default console.error
+   */
+  onError?: (error: unknown, context: { connection: WSConnection; event: string }) => void;
+}
+
+/** How an `EventSocket` hands received events back to its router */
+interface EventDispatcher {
+  dispatch(frame: WSEventFrame, socket: EventSocket): Promise<unknown>;
+  report(error: unknown, frame: WSEventFrame): void;
+}
+
+interface EventRoute {
+  readonly schema: StandardSchemaV1 | undefined;
+  readonly handler: WSEventHandler;
+}
+
+function reportHandlerError(error: unknown, context: { event: string }): void {
+  if (typeof globalThis.console.error === 'function') {
+    globalThis.console.error(
+      `[@nextrush/websocket] Handler for event "${context.event}" failed:`,
+      error
+    );
+  }
+}
+
+/** `'data'` followed by the issue's path, in the same notation as request validation. */
+function issuePath(path: StandardSchemaIssue['path']): string {
+  let out = 'data';
+  for (const segment of path ?? []) {
+    const key = typeof segment === 'object' ? segment.key : segment;
+    out += typeof key === 'number' ? `[${String(key)}]` : `.${String(key)}`;
+  }
+  return out;
+}
+
+async function validate(schema: StandardSchemaV1, value: unknown, event: string): Promise<unknown> {
+  let result = schema['~standard'].validate(value);
+  if (result instanceof Promise) {
+    result = await result;
+  }
+
+  if (result.issues) {
+    const issues: WSEventIssue[] = result.issues.map((issue) => ({
+      path: issuePath(issue.path),
+      message: issue.message,
+    }));
+    throw new WSEventError('VALIDATION_FAILED', `Invalid data for event "${event}"`, issues);
+  }
+  return result.value;
+}
+
+/**
+ * Event router
+ *
+ * Declares the events a connection understands. `attach()` binds it to a
+ * connection: from then on the connection's text frames are protocol frames
+ * (binary frames are left to its own `message` handlers).
+ *
+ * @example
+ * ```typescript
+ * const events = createEventRouter()
+ *   .use(requireUser)
+ *   .on('chat:send', ChatMessage, async (message, { connection }) => {
+ *     connection.broadcastJson('lobby', message);
+ *     return { delivered: true }; // the acknowledgement
+ *   });
+ *
+ * wss.on('/chat', (conn) => {
+ *   const socket = events.attach(conn);
+ *   socket.emit('welcome', { id: conn.id });
+ * });
+ * ```
+ */
+export class EventRouter {
+  private readonly routes = new Map<string, EventRoute>();
+  private readonly middlewares: WSEventMiddleware[] = [];
+  private readonly eventMiddlewares = new Map<string, WSEventMiddleware[]>();
+  private readonly sockets = new WeakMap<WSConnection, EventSocket>();
+  private readonly ackTimeout: number | undefined;
+  private readonly onError: NonNullable<EventRouterOptions['onError']>;
+
+  constructor(options: EventRouterOptions = {}) {
+    this.ackTimeout = options.ackTimeout;
+    this.onError = options.onError ?? reportHandlerError;
+  }
+
+  /**
+   * Handle `event`, validating its payload with `schema` first. A payload
+   * the schema rejects answers the sender with `VALIDATION_FAILED` and its
+   * issues; the handler never runs.
+   */
+  on<S extends StandardSchemaV1>(
+    event: string,
+    schema: S,
+    handler: WSEventHandler<InferOutput<S>>
+  ): this;
+  /** Handle `event` with its payload as received. */
+  on(event: string, handler: WSEventHandler): this;
+  on(
+    event: string,
+    schemaOrHandler: StandardSchemaV1 | WSEventHandler,
+    handler?: WSEventHandler<never>
+  ): this {
+    assertEventName(event);
+    this.routes.set(
+      event,
+      typeof schemaOrHandler === 'function'
+        ? { schema: undefined, handler: schemaOrHandler }
+        : { schema: schemaOrHandler, handler: handler as WSEventHandler }
+    );
+    return this;
+  }
+
+  /** Run `middleware` before every event's handler, in registration order. */
+  use(middleware: WSEventMiddleware): this;
+  /** Run `middleware` before `event`'s handler, after the router-wide middleware. */
+  use(event: string, ...middleware: WSEventMiddleware[]): this;
+  use(first: string | WSEventMiddleware, ...middleware: WSEventMiddleware[]): this {
+    if (typeof first === 'function') {
+      this.middlewares.push(first);
+      return this;
+    }
+    assertEventName(first);
+    const list = this.eventMiddlewares.get(first) ?? [];
+    list.push(...middleware);
+    this.eventMiddlewares.set(first, list);
+    return this;
+  }
+
+  /**
+   * Speak the event protocol on `connection`. Attaching the same connection
+   * again returns its existing socket.
+   */
+  attach(connection: WSConnection): EventSocket {
+    let socket = this.sockets.get(connection);
+    if (!socket) {
+      socket = new EventSocket(connection, this.ackTimeout, {
+        dispatch: (frame, target) => this.dispatch(frame, target),
+        report: (error, frame) => {
+          this.onError(error, { connection, event: frame.event });
+        },
+      });
+      this.sockets.set(connection, socket);
+    }
+    return socket;
+  }
+
+  private async dispatch(frame: WSEventFrame, socket: EventSocket): Promise<unknown> {
+    const route = this.routes.get(frame.event);
+    if (!route) {
+      throw new WSEventError('UNKNOWN_EVENT', `No handler for event "${frame.event}"`);
+    }
+
+    const context: WSEventContext = {
+      connection: socket.connection,
+      socket,
+      event: frame.event,
+      data: frame.data,
+      ack: frame.id !== undefined,
+      state: {},
+    };
+    const chain = [...this.middlewares, ...(this.eventMiddlewares.get(frame.event) ?? [])];
+    let result: unknown;
+
+    let index = -1;
+    const next = async (i: number): Promise<void> => {
+      if (i <= index) throw new Error('next() called multiple times');
+      index = i;
+      const middleware = chain[i];
+      if (middleware) {
+        await middleware(context, () => next(i + 1));
+        return;
+      }
+      if (route.schema) {
+        context.data = await validate(route.schema, context.data, frame.event);
+      }
+      result = await route.handler(context.data, context);
+    };
+
+    await next(0);
+    return result;
+  }
+}
+
+/**
+ * A connection speaking the event protocol — returned by
+ * {@link EventRouter.attach}
+ */
+export class EventSocket extends EventEndpoint {
+  readonly connection: WSConnection;
+
+  private readonly router: EventDispatcher;
+
+  /** @internal */
+  constructor(connection: WSConnection, ackTimeout: number | undefined, router: EventDispatcher) {
+    super(ackTimeout);
+    this.connection = connection;
+    this.router = router;
+
+    connection.on('message', (data) => {
+      if (typeof data === 'string') this.receive(data);
+    });
+    connection.on('close', () => {
+      this.stop();
+    });
+  }
+
+  /** Emit `event` to every other connection in `room` (no acknowledgement). */
+  broadcast(room: string, event: string, data?: unknown): void {
+    assertEventName(event);
+    this.connection.broadcast(room, JSON.stringify({ event, data } satisfies WSEventFrame));
+  }
+
+  protected write(text: string): void {
+    this.connection.send(text);
+  }
+
+  protected dispatch(frame: WSEventFrame): Promise<unknown> {
+    return this.router.dispatch(frame, this);
+  }
+
+  protected report(error: unknown, frame: WSEventFrame): void {
+    this.router.report(error, frame);
+  }
+}
+
+/**
+ * Create an event router
+ */
+export function createEventRouter(options?: EventRouterOptions): EventRouter {
+  return new EventRouter(options);
+}
@@ -33,6 +33,25 @@
  * wss.attach(server);
  * ```
  *
+ * On Bun, Deno and Edge there is no `attach()` step: pass the server to the
+ * adapter, which upgrades matching requests before the middleware pipeline.
+ *
+ * ```typescript
+ * import { serve } from '@nextrush/adapter-bun'; // or adapter-deno
+ *
+ * await serve(app, { port: 8080, websocket: wss });
+ * // Edge: createFetchHandler(app, { websocket: wss })
+ * ```
+ *
+ * Across several nodes, give every server the same `backplane` (e.g.
+ * {@link createRedisBackplane}) and broadcasts, room broadcasts, `sendTo()`,
+ * `joinRoom()`/`leaveRoom()` and `getPresence()` span the cluster.
+ *
+ * For a message protocol instead of raw frames, declare events on
+ * {@link createEventRouter} — schema-validated payloads, per-event middleware,
+ * acknowledgements and error frames — and `attach()` it to a connection;
+ * {@link createEventClient} speaks the same protocol from the other end.
+ *
  * For most apps, prefer {@link createWebSocketExtension} instead — it wires
  * disposal into `app.close()` automatically (F-04b). Use the manual
  * `createWebSocket()` factory above only when you need to attach to a server
@@ -110,6 +129,7 @@ export function createWebSocket(options: WebSocketOptions = {}): WebSocketServer
  *
  * const { server } = await listen(app, 8080);
  * await app.wss.attach(server);
+ * // Bun/Deno: serve(app, { websocket: app.wss }) instead of listen() + attach()
  *
  * // app.close() now also calls app.wss.close() — heartbeat cleared,
  * // connections closed, underlying `ws` server closed.
@@ -122,8 +142,10 @@ export function createWebSocketExtension(
 
   return {
     name: 'websocket',
-    setup(ctx: ExtensionContext): void {
+    async setup(ctx: ExtensionContext): Promise<void> {
       ctx.decorate('wss', wss);
+      // With a backplane, boot finishes once this node hears the cluster.
+      await wss.ready();
     },
     destroy(): void {
       wss.close();
@@ -138,6 +160,7 @@ export type {
     WSMiddleware,
     WSRoute
 } from './types';
+export type { WebSocketUpgradeRequest } from '@nextrush/types';
 
 // Re-export constants
 export {
@@ -150,4 +173,38 @@ export {
 // Re-export classes for advanced usage
 export { Connection } from './connection';
 export { MaxRoomsExceededError, RoomManager } from './room-manager';
+export type { RoomManagerHooks } from './room-manager';
 export { WebSocketServer } from './server';
+
+// Cluster backplanes
+export { createMemoryBackplane, MemoryBackplane } from './backplane';
+export type { WSBackplane } from './backplane';
+export {
+  createRedisBackplane,
+  DEFAULT_REDIS_BACKPLANE_NODE_TTL,
+  DEFAULT_REDIS_BACKPLANE_PREFIX,
+  REDIS_BACKPLANE_SCRIPTS,
+  RedisBackplane,
+} from './redis-backplane';
+export type { RedisBackplaneOptions, RedisPubSubClient } from './redis-backplane';
+
+// Event protocol
+export { createEventRouter, EventRouter, EventSocket } from './event-router';
+export type {
+  EventRouterOptions,
+  WSEventContext,
+  WSEventHandler,
+  WSEventMiddleware,
+} from './event-router';
+export { createEventClient, EventClient } from './event-client';
+export type { EventClientOptions, EventClientSocket } from './event-client';
+export { DEFAULT_ACK_TIMEOUT, WSEventError } from './event-protocol';
+export type {
+  WSAckCallback,
+  WSAckFrame,
+  WSErrorFrame,
+  WSErrorPayload,
+  WSEventErrorCode,
+  WSEventFrame,
+  WSEventIssue,
+} from './event-protocol';
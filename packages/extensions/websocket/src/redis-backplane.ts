@@ -0,0 +1,321 @@
+/**
+ * @nextrush/websocket - Redis Backplane
+ *
+ * A {@link WSBackplane} over any Redis-protocol server: messages travel on one
+ * pub/sub channel, presence lives in one hash per room.
+ *
+ * @packageDocumentation
+ */
+
+import type { WSBackplane } from './backplane';
+
+/**
+ * The commands `RedisBackplane` needs.
+ *
+ * Redis delivers pub/sub messages only on a connection in subscriber mode,
+ * so `subscribe` usually runs on a second connection from `publish`/`eval`.
+ * Tests can substitute an in-process fake that dispatches on
+ * {@link REDIS_BACKPLANE_SCRIPTS}.
+ *
+ * @example ioredis
+ * ```typescript
+ * const sub = redis.duplicate();
+ * const client: RedisPubSubClient = {
+ *   eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args),
+ *   publish: (channel, message) => redis.publish(channel, message),
+ *   subscribe: async (channel, listener) => {
+ *     sub.on('message', (from, message) => from === channel && listener(message));
+ *     await sub.subscribe(channel);
+ *   },
+ *   unsubscribe: (channel) => sub.unsubscribe(channel),
+ * };
+ * ```
+ *
+ * @example node-redis
+ * ```typescript
+ * const sub = redis.duplicate();
+ * await sub.connect();
+ * const client: RedisPubSubClient = {
+ *   eval: (script, keys, args) => redis.eval(script, { keys: [...keys], arguments: [...args] }),
+ *   publish: (channel, message) => redis.publish(channel, message),
+ *   subscribe: (channel, listener) => sub.subscribe(channel, listener),
+ *   unsubscribe: (channel) => sub.unsubscribe(channel),
+ * };
+ * ```
+ */
+export interface RedisPubSubClient {
+  /** Run `script` with `KEYS`/`ARGV` and resolve with the raw reply */
+  eval(script: string, keys: readonly string[], args: readonly string[]): Promise<unknown>;
+  /** `PUBLISH` a message */
+  publish(channel: string, message: string): Promise<unknown>;
+  /** `SUBSCRIBE` to a channel, calling `listener` with each message */
+  subscribe(channel: string, listener: (message: string) => void): Promise<unknown>;
+  /** `UNSUBSCRIBE` from a channel */
+  unsubscribe(channel: string): Promise<unknown>;
+}
+
+/**
+ * Redis backplane options
+ */
+export interface RedisBackplaneOptions {
+  /** Client used for pub/sub and the presence scripts */
+  client: RedisPubSubClient;
+  /**
+   * Prefix for the channel and every key (default: `'nextrush:ws:'`). On
+   * Redis Cluster, wrap it in a hash tag (`'{nextrush:ws}:'`) so each presence
+   * script's keys share a slot.
+   */
+  prefix?: string;
+  /**
+   * Milliseconds a node's presence survives without a refresh, so a node
+   * that dies without closing stops counting (default: 30000). Refreshes run
+   * every third of it.
+   */
+  nodeTtl?: number;
+  /** Called when a refresh fails (default: `console.warn`) */
+  onError?: (error: unknown) => void;
+}
+
+/** Default key and channel prefix */
+export const DEFAULT_REDIS_BACKPLANE_PREFIX = 'nextrush:ws:';
+
+/** Default node presence lifetime without a refresh, in milliseconds */
+export const DEFAULT_REDIS_BACKPLANE_NODE_TTL = 30_000;
+
+/**
+ * Lua scripts `RedisBackplane` runs. Presence for a room is a hash of node id
+ * to connection count; a sorted set scores each node by the time its entries
+ * expire, so counting skips (and prunes) nodes that stopped refreshing.
+ *
+ * Exported for client-side script caching (`SCRIPT LOAD`) and for test fakes.
+ */
+export const REDIS_BACKPLANE_SCRIPTS = Object.freeze({
+  /** KEYS: presence, nodes · ARGV: nodeId, count, expiresAt → 1 */
+  setPresence: `
+if tonumber(ARGV[2]) > 0 then
+  redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+  redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+else
+  redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return 1
+`,
+
+  /** KEYS: presence, nodes · ARGV: now → connections on live nodes */
+  getPresence: `
+local now = tonumber(ARGV[1])
+local entries = redis.call('HGETALL', KEYS[1])
+local total = 0
+for i = 1, #entries, 2 do
+  local expiresAt = redis.call('ZSCORE', KEYS[2], entries[i])
+  if expiresAt and tonumber(expiresAt) > now then
+    total = total + tonumber(entries[i + 1])
+  else
+    redis.call('HDEL', KEYS[1], entries[i])
+  end
+end
+return total
+`,
+
+  /** KEYS: nodes · ARGV: expiresAt, nodeId, ... → 1 */
+  refresh: `
+for i = 2, #ARGV do
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[i])
+end
+return 1
+`,
+
+  /** KEYS: nodes, presence... · ARGV: nodeId → 1 */
+  removeNode: `
+redis.call('ZREM', KEYS[1], ARGV[1])
+for i = 2, #KEYS do
+  redis.call('HDEL', KEYS[i], ARGV[1])
+end
+return 1
+`,
+});
+
+/**
+ * Redis-protocol backplane
+ *
+ * Features:
+ * - One pub/sub channel (`<prefix>messages`) per cluster
+ * - Presence counts stored per node, so nodes never overwrite each other
+ * - Node liveness: a node that dies without closing stops counting after
+ *   `nodeTtl`, and its stale entries are pruned on the next count
+ *
+ * Expiry timestamps come from the calling node, so nodes should keep their
+ * clocks synchronized (NTP).
+ *
+ * The client's connections are owned by the caller: `close()` never closes them.
+ */
+export class RedisBackplane implements WSBackplane {
+  private readonly client: RedisPubSubClient;
+  private readonly prefix: string;
+  private readonly channel: string;
+  private readonly nodeTtl: number;
+  private readonly onError: (error: unknown) => void;
+  private readonly listeners = new Set<(message: string) => void>();
+  /** Rooms each local node has a presence entry in — what `removeNode` clears */
+  private readonly nodeRooms = new Map<string, Set<string>>();
+  private subscription: Promise<unknown> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: RedisBackplaneOptions) {
+    const client: unknown = options.client;
+    if (
+      typeof client !== 'object' ||
+      client === null ||
+      typeof (client as Partial<RedisPubSubClient>).eval !== 'function' ||
+      typeof (client as Partial<RedisPubSubClient>).publish !== 'function' ||
+      typeof (client as Partial<RedisPubSubClient>).subscribe !== 'function'
+    ) {
+      throw new TypeError(
+        'RedisBackplane requires a client with eval(), publish() and subscribe() methods'
+      );
+    }
+    const nodeTtl = options.nodeTtl ?? DEFAULT_REDIS_BACKPLANE_NODE_TTL;
+    if (!Number.isFinite(nodeTtl) || nodeTtl <= 0) {
+      throw new TypeError('nodeTtl must be a positive number of milliseconds');
+    }
+
+    this.client = options.client;
+    this.prefix = options.prefix ?? DEFAULT_REDIS_BACKPLANE_PREFIX;
+    this.channel = `${this.prefix}messages`;
+    this.nodeTtl = nodeTtl;
+    this.onError = options.onError ?? reportRefreshError;
+  }
+
+  async publish(message: string): Promise<void> {
+    await this.client.publish(this.channel, message);
+  }
+
+  async subscribe(listener: (message: string) => void): Promise<() => Promise<void>> {
+    const entry = (message: string): void => {
+      listener(message);
+    };
+    this.listeners.add(entry);
+    // One SUBSCRIBE per backplane; local listeners share it.
+    this.subscription ??= this.client.subscribe(this.channel, (message) => {
+      for (const each of [...this.listeners]) each(message);
+    });
+    try {
+      await this.subscription;
+    } catch (error) {
+      this.listeners.delete(entry);
+      this.subscription = null;
+      throw error;
+    }
+
+    return async () => {
+      if (!this.listeners.delete(entry) || this.listeners.size > 0) return;
+      this.subscription = null;
+      await this.client.unsubscribe(this.channel);
+    };
+  }
+
+  async setPresence(nodeId: string, room: string, count: number): Promise<void> {
+    let rooms = this.nodeRooms.get(nodeId);
+    if (count > 0) {
+      if (!rooms) {
+        rooms = new Set();
+        this.nodeRooms.set(nodeId, rooms);
+        this.startRefresh();
+      }
+      rooms.add(room);
+    } else {
+      rooms?.delete(room);
+    }
+
+    await this.client.eval(
+      REDIS_BACKPLANE_SCRIPTS.setPresence,
+      [this.presenceKey(room), this.nodesKey()],
+      [nodeId, String(Math.max(0, Math.floor(count))), String(Date.now() + this.nodeTtl)]
+    );
+  }
+
+  async getPresence(room: string): Promise<number> {
+    const reply = await this.client.eval(
+      REDIS_BACKPLANE_SCRIPTS.getPresence,
+      [this.presenceKey(room), this.nodesKey()],
+      [String(Date.now())]
+    );
+    return Number(reply) || 0;
+  }
+
+  async removeNode(nodeId: string): Promise<void> {
+    const rooms = this.nodeRooms.get(nodeId) ?? new Set<string>();
+    this.nodeRooms.delete(nodeId);
+    if (this.nodeRooms.size === 0) this.stopRefresh();
+
+    await this.client.eval(
+      REDIS_BACKPLANE_SCRIPTS.removeNode,
+      [this.nodesKey(), ...[...rooms].map((room) => this.presenceKey(room))],
+      [nodeId]
+    );
+  }
+
+  /**
+   * Stop refreshing node liveness and drop the channel subscription. Presence
+   * entries are left to expire; call `removeNode()` first to clear them now.
+   */
+  async close(): Promise<void> {
+    this.stopRefresh();
+    this.listeners.clear();
+    if (this.subscription) {
+      this.subscription = null;
+      await this.client.unsubscribe(this.channel);
+    }
+  }
+
+  private presenceKey(room: string): string {
+    return `${this.prefix}presence:${room}`;
+  }
+
+  private nodesKey(): string {
+    return `${this.prefix}nodes`;
+  }
+
+  /** Keep every local node with presence alive (idempotent). */
+  private startRefresh(): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(() => {
+      const nodes = [...this.nodeRooms.keys()];
+      if (nodes.length === 0) return;
+      this.client
+        .eval(
+          REDIS_BACKPLANE_SCRIPTS.refresh,
+          [this.nodesKey()],
+          [String(Date.now() + this.nodeTtl), ...nodes]
+        )
+        .catch(this.onError);
+    }, this.nodeTtl / 3);
+
+    // The refresh alone must never keep the process alive.
+    if (typeof this.refreshTimer === 'object') this.refreshTimer.unref();
+  }
+
+  private stopRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
+
+/**
+ * Create a Redis-protocol backplane
+ */
+export function createRedisBackplane(options: RedisBackplaneOptions): RedisBackplane {
+  return new RedisBackplane(options);
+}
+
+function reportRefreshError(error: unknown): void {
+  if (typeof globalThis.console.warn === 'function') {
+    globalThis.console.warn(
+      '[@nextrush/websocket] RedisBackplane could not refresh node presence:',
+      error
+    );
+  }
+}
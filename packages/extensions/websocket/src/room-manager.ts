@@ -22,6 +22,18 @@ export class MaxRoomsExceededError extends Error {
   }
 }
 
+/**
+ * Callbacks a {@link RoomManager} makes as its rooms change — how a
+ * `WebSocketServer` with a backplane extends rooms across nodes.
+ */
+export interface RoomManagerHooks {
+  /** A connection entered or left `room`, which now holds `size` local connections. */
+  onMembershipChange?(room: string, size: number): void;
+
+  /** `broadcast()` reached the local connections in `room`. */
+  onBroadcast?(room: string, data: string | Uint8Array, exclude?: WSConnection): void;
+}
+
 /**
  * Room manager for WebSocket connections
  *
@@ -40,8 +52,14 @@ export class RoomManager {
   /** Maximum rooms per connection (0 = unlimited) */
   private maxRoomsPerConnection: number;
 
-  constructor(maxRoomsPerConnection = DEFAULT_MAX_ROOMS_PER_CONNECTION) {
+  private readonly hooks: RoomManagerHooks;
+
+  constructor(
+    maxRoomsPerConnection = DEFAULT_MAX_ROOMS_PER_CONNECTION,
+    hooks: RoomManagerHooks = {}
+  ) {
     this.maxRoomsPerConnection = maxRoomsPerConnection;
+    this.hooks = hooks;
   }
 
   /**
@@ -68,6 +86,7 @@ export class RoomManager {
       roomSet = new Set();
       this.rooms.set(room, roomSet);
     }
+    const joined = !roomSet.has(connection);
     roomSet.add(connection);
 
     let roomsForConn = connRooms;
@@ -76,6 +95,8 @@ export class RoomManager {
       this.connectionRooms.set(connection, roomsForConn);
     }
     roomsForConn.add(room);
+
+    if (joined) this.hooks.onMembershipChange?.(room, roomSet.size);
   }
 
   /**
@@ -83,11 +104,11 @@ export class RoomManager {
    */
   leave(connection: WSConnection, room: string): void {
     const roomSet = this.rooms.get(room);
-    if (roomSet) {
-      roomSet.delete(connection);
+    if (roomSet?.delete(connection)) {
       if (roomSet.size === 0) {
         this.rooms.delete(room);
       }
+      this.hooks.onMembershipChange?.(room, roomSet.size);
     }
 
     const connRooms = this.connectionRooms.get(connection);
@@ -106,17 +127,17 @@ export class RoomManager {
     const connRooms = this.connectionRooms.get(connection);
     if (!connRooms) return;
 
+    this.connectionRooms.delete(connection);
+
     for (const room of connRooms) {
       const roomSet = this.rooms.get(room);
-      if (roomSet) {
-        roomSet.delete(connection);
+      if (roomSet?.delete(connection)) {
         if (roomSet.size === 0) {
           this.rooms.delete(room);
         }
+        this.hooks.onMembershipChange?.(room, roomSet.size);
       }
     }
-
-    this.connectionRooms.delete(connection);
   }
 
   /**
@@ -158,17 +179,17 @@ export class RoomManager {
   }
 
   /**
-   * Broadcast to all connections in a room
+   * Broadcast to all connections in a room (and, through the server's
+   * backplane, to the room's connections on other nodes)
    */
   broadcast(
     room: string,
-    data: string | Buffer,
+    data: string | Uint8Array,
     exclude?: WSConnection
   ): void {
     const roomSet = this.rooms.get(room);
-    if (!roomSet) return;
 
-    for (const conn of roomSet) {
+    for (const conn of roomSet ?? []) {
       if (exclude && conn === exclude) continue;
       try {
         conn.send(data);
@@ -176,6 +197,8 @@ export class RoomManager {
         // Connection may be closed, ignore errors
       }
     }
+
+    this.hooks.onBroadcast?.(room, data, exclude);
   }
 
   /**
@@ -191,7 +214,7 @@ export class RoomManager {
   }
 
   /**
-   * Clear all rooms (for cleanup)
+   * Clear all rooms (for cleanup). Makes no hook calls.
    */
   clear(): void {
     this.rooms.clear();
@@ -1,18 +1,30 @@
 /**
  * @nextrush/websocket - WebSocket Server
  *
- * Core WebSocket server implementation using the ws library.
+ * Core WebSocket server: accepts upgrades through the runtime-neutral
+ * `WebSocketUpgradeHandler` contract (Bun, Deno and Edge adapters) or, on
+ * Node, by attaching to the HTTP server with the ws library.
  *
  * @packageDocumentation
  */
 
 import type { IncomingMessage, Server } from 'node:http';
 import type { Socket } from 'node:net';
+import type {
+  WebSocketPeer,
+  WebSocketPeerHandlers,
+  WebSocketUpgradeHandler,
+  WebSocketUpgradeRequest,
+  WebSocketUpgradeResult,
+} from '@nextrush/types';
+import { ClusterRelay, type ClusterDelivery } from './cluster';
 import { Connection } from './connection';
 import { RoomManager } from './room-manager';
 import {
     DEFAULT_WS_OPTIONS,
     escapeRegex,
+    validateRoomName,
+    type UnresolvedWebSocketOption,
     type WebSocketOptions,
     type WSConnection,
     type WSHandler,
@@ -34,12 +46,11 @@ interface WsServerInstance {
 
 interface WsInstance {
   readyState: number;
-  send(data: string | Buffer): void;
+  send(data: string | Uint8Array): void;
   close(code?: number, reason?: string): void;
-  ping(data?: Buffer): void;
-  pong(data?: Buffer): void;
+  ping(data?: Uint8Array): void;
+  pong(data?: Uint8Array): void;
   on(event: string, handler: (...args: unknown[]) => void): void;
-  off(event: string, handler: (...args: unknown[]) => void): void;
 }
 
 interface WsModule {
@@ -66,23 +77,100 @@ async function loadWsLibrary(): Promise<WsModule> {
   }
 }
 
+function toBuffer(data: unknown): Buffer {
+  return Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer);
+}
+
+/**
+ * Expose a ws socket as a {@link WebSocketPeer} and deliver its events to the
+ * handlers `open` returns — the Node counterpart of what the Bun, Deno and
+ * Edge adapters do for their runtimes' sockets.
+ */
+function bindWsSocket(ws: WsInstance, open: (peer: WebSocketPeer) => WebSocketPeerHandlers): void {
+  const handlers = open({
+    get readyState() {
+      return ws.readyState;
+    },
+    send: (data) => {
+      ws.send(data);
+    },
+    close: (code, reason) => {
+      ws.close(code, reason);
+    },
+    ping: (data) => {
+      ws.ping(data);
+    },
+    pong: (data) => {
+      ws.pong(data);
+    },
+  });
+
+  ws.on('message', (rawData: unknown, isBinary: unknown) => {
+    const buffer = toBuffer(rawData);
+    handlers.message(isBinary ? buffer : buffer.toString('utf8'));
+  });
+  ws.on('close', (code: unknown, reason: unknown) => {
+    handlers.close(code as number, Buffer.isBuffer(reason) ? reason.toString('utf8') : '');
+  });
+  ws.on('error', (error: unknown) => {
+    handlers.error(error as Error);
+  });
+  ws.on('ping', (data: unknown) => {
+    handlers.ping?.(toBuffer(data));
+  });
+  ws.on('pong', (data: unknown) => {
+    handlers.pong?.(toBuffer(data));
+  });
+}
+
+/** UTF-8 size of a message, measuring strings only when they could exceed `limit`. */
+function exceedsPayload(data: string | Uint8Array, limit: number): boolean {
+  if (typeof data !== 'string') return data.byteLength > limit;
+  // A UTF-16 code unit encodes to at most 3 UTF-8 bytes.
+  return data.length * 3 > limit && new TextEncoder().encode(data).byteLength > limit;
+}
+
+function reject(status: number, message: string): WebSocketUpgradeResult {
+  return { accepted: false, status, message };
+}
+
+function reportBackplaneError(error: unknown): void {
+  if (typeof globalThis.console.warn === 'function') {
+    globalThis.console.warn('[@nextrush/websocket] Backplane operation failed:', error);
+  }
+}
+
+function sendQuietly(connection: WSConnection, data: string | Uint8Array): void {
+  try {
+    connection.send(data);
+  } catch {
+    // Connection may be closed, ignore errors
+  }
+}
+
 /**
  * WebSocket Server implementation
  *
- * Internal class that manages WebSocket connections using the ws library.
+ * Manages WebSocket connections for every runtime: pass it as the `websocket`
+ * option of the Bun, Deno or Edge adapter, or {@link WebSocketServer.attach}
+ * it to a Node HTTP server.
  */
-export class WebSocketServer {
+export class WebSocketServer implements WebSocketUpgradeHandler {
+  /** This server's id on the backplane (`nodeId` option, else a random UUID) */
+  readonly nodeId: string;
+
   private wss: WsServerInstance | null = null;
-  private readonly connections = new Map<WSConnection, { isAlive: boolean }>();
+  private readonly connections = new Map<Connection, { isAlive: boolean }>();
+  private readonly connectionsById = new Map<string, Connection>();
+  private readonly cluster: ClusterRelay | null;
+  private readonly onBackplaneError: (error: unknown) => void;
   private readonly routes = new Map<string, WSHandler>();
   private readonly middlewares: WSMiddleware[] = [];
   private readonly roomManager: RoomManager;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private initialized = false;
 
-  private readonly resolvedOptions: Required<
-    Omit<WebSocketOptions, 'verifyClient' | 'onConnection' | 'onClose' | 'onError'>
-  >;
+  private readonly resolvedOptions: Required<Omit<WebSocketOptions, UnresolvedWebSocketOption>>;
   private readonly customCallbacks: Pick<
     WebSocketOptions,
     'verifyClient' | 'onConnection' | 'onClose' | 'onError'
@@ -99,7 +187,48 @@ export class WebSocketServer {
       onClose: options.onClose,
       onError: options.onError,
     };
-    this.roomManager = new RoomManager(this.resolvedOptions.maxRoomsPerConnection);
+    this.nodeId = options.nodeId ?? crypto.randomUUID();
+    this.onBackplaneError = options.onBackplaneError ?? reportBackplaneError;
+
+    const cluster = options.backplane
+      ? new ClusterRelay(
+          options.backplane,
+          this.nodeId,
+          this.localDelivery(),
+          this.onBackplaneError
+        )
+      : null;
+    this.cluster = cluster;
+
+    this.roomManager = new RoomManager(
+      this.resolvedOptions.maxRoomsPerConnection,
+      cluster
+        ? {
+            onMembershipChange: (room, size) => {
+              cluster.presence(room, size);
+            },
+            onBroadcast: (room, data, exclude) => {
+              cluster.room(room, data, exclude?.id);
+            },
+          }
+        : {}
+    );
+  }
+
+  /**
+   * Resolves once the server receives messages from the backplane (at once
+   * without one). A subscription failure is reported to `onBackplaneError`.
+   */
+  async ready(): Promise<void> {
+    await this.cluster?.ready();
+  }
+
+  /**
+   * Maximum incoming message size in bytes, read by adapters whose runtime
+   * enforces it at the socket (Bun).
+   */
+  get maxPayload(): number {
+    return this.resolvedOptions.maxPayload;
   }
 
   /**
@@ -148,11 +277,12 @@ export class WebSocketServer {
   }
 
   /**
-   * Attach to the raw HTTP server and start handling WebSocket connections.
+   * Attach to the raw Node HTTP server and start handling WebSocket connections.
    *
    * Call this explicitly after starting the server (e.g.
    * `const { server } = await listen(app, port); wss.attach(server);`) —
-   * nothing calls this automatically.
+   * nothing calls this automatically. On Bun, Deno and Edge, pass the server
+   * as the adapter's `websocket` option instead.
    */
   async attach(httpServer: Server): Promise<void> {
     if (this.initialized) return;
@@ -166,58 +296,88 @@ export class WebSocketServer {
     });
 
     httpServer.on('upgrade', (request, socket, head) => {
-      this.handleUpgrade(request, socket as Socket, head as Buffer);
+      this.handleNodeUpgrade(request, socket as Socket, head as Buffer);
     });
 
-    if (this.resolvedOptions.heartbeatInterval > 0) {
-      this.startHeartbeat();
-    }
+    this.startHeartbeat();
 
     this.initialized = true;
   }
 
   /**
-   * Handle HTTP upgrade request
+   * Decide whether to accept an upgrade request: the path must match a route
+   * or `path` (404), the origin `allowedOrigins` (403), the server must be
+   * under `maxConnections` (503), and `verifyClient` must allow it (401, or
+   * 500 when it throws).
+   *
+   * @remarks
+   * The {@link WebSocketUpgradeHandler} entry point the Bun, Deno and Edge
+   * adapters call; the Node {@link WebSocketServer.attach} path runs it too.
    */
-  private handleUpgrade(
-    request: IncomingMessage,
-    socket: Socket,
-    head: Buffer
-  ): void {
-    const url = new URL(request.url ?? '/', `http://${request.headers.host}`);
-    const path = url.pathname;
+  async handleUpgrade(request: WebSocketUpgradeRequest): Promise<WebSocketUpgradeResult> {
+    const { path } = request;
 
     if (!this.matchPath(path)) {
-      socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
-      socket.destroy();
-      return;
+      return reject(404, 'Not Found');
     }
 
     if (!this.verifyOrigin(request)) {
-      socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
-      socket.destroy();
-      return;
+      return reject(403, 'Forbidden');
     }
 
     if (
       this.resolvedOptions.maxConnections > 0 &&
       this.connections.size >= this.resolvedOptions.maxConnections
     ) {
-      socket.write('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+      return reject(503, 'Service Unavailable');
+    }
+
+    try {
+      if (!(await this.verifyClient(request))) {
+        return reject(401, 'Unauthorized');
+      }
+    } catch {
+      return reject(500, 'Internal Server Error');
+    }
+
+    return {
+      accepted: true,
+      open: (peer) => this.onConnection(peer, request, path),
+    };
+  }
+
+  /**
+   * Handle a Node HTTP upgrade request
+   */
+  private handleNodeUpgrade(request: IncomingMessage, socket: Socket, head: Buffer): void {
+    const url = request.url ?? '/';
+    let path: string;
+    try {
+      path = new URL(url, 'http://localhost').pathname;
+    } catch {
+      socket.write('HTTP/1.1 400 Bad Request\r\n\r\n');
       socket.destroy();
       return;
     }
 
-    this.verifyClient(request)
-      .then((allowed) => {
-        if (!allowed) {
-          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    const upgradeRequest: WebSocketUpgradeRequest = {
+      url,
+      path,
+      headers: request.headers,
+      ip: request.socket.remoteAddress ?? '',
+      raw: request,
+    };
+
+    this.handleUpgrade(upgradeRequest)
+      .then((result) => {
+        if (!result.accepted) {
+          socket.write(`HTTP/1.1 ${String(result.status)} ${result.message ?? ''}\r\n\r\n`);
           socket.destroy();
           return;
         }
 
-        this.wss!.handleUpgrade(request, socket, head, (ws) => {
-          this.onConnection(ws, request, path);
+        this.wss?.handleUpgrade(request, socket, head, (ws) => {
+          bindWsSocket(ws, result.open);
         });
       })
       .catch(() => {
@@ -229,7 +389,7 @@ export class WebSocketServer {
   /**
    * Verify client connection
    */
-  private async verifyClient(request: IncomingMessage): Promise<boolean> {
+  private async verifyClient(request: WebSocketUpgradeRequest): Promise<boolean> {
     if (this.customCallbacks.verifyClient) {
       return this.customCallbacks.verifyClient(request);
     }
@@ -240,7 +400,7 @@ export class WebSocketServer {
    * Verify origin header
    * When allowedOrigins is configured, requests without Origin header are denied
    */
-  private verifyOrigin(request: IncomingMessage): boolean {
+  private verifyOrigin(request: WebSocketUpgradeRequest): boolean {
     if (this.resolvedOptions.allowedOrigins.length === 0) {
       return true;
     }
@@ -249,7 +409,7 @@ export class WebSocketServer {
 
     // When origins are configured, missing Origin header is denied
     // This prevents bypassing CORS by omitting the header
-    if (!origin) return false;
+    if (typeof origin !== 'string' || !origin) return false;
 
     return this.resolvedOptions.allowedOrigins.some((allowed) => {
       if (allowed === '*') return true;
@@ -310,16 +470,20 @@ export class WebSocketServer {
 
   /**
    * Handle new WebSocket connection
+   *
+   * @returns The handlers the adapter delivers the socket's events to.
    */
   private onConnection(
-    ws: WsInstance,
-    request: IncomingMessage,
+    peer: WebSocketPeer,
+    request: WebSocketUpgradeRequest,
     path: string
-  ): void {
-    const connection = new Connection(ws, request, this.roomManager);
+  ): WebSocketPeerHandlers {
+    const connection = new Connection(peer, request, this.roomManager);
 
     // Track connection with isAlive for heartbeat
     this.connections.set(connection, { isAlive: true });
+    this.connectionsById.set(connection.id, connection);
+    this.startHeartbeat();
 
     // Track pong responses for heartbeat
     connection.on('pong', () => {
@@ -330,7 +494,7 @@ export class WebSocketServer {
     });
 
     connection.on('close', (code: number, reason: string) => {
-      this.connections.delete(connection);
+      this.untrack(connection);
       this.customCallbacks.onClose?.(connection, code, reason);
     });
 
@@ -348,6 +512,31 @@ export class WebSocketServer {
         });
       }
     });
+
+    const { maxPayload } = this.resolvedOptions;
+
+    return {
+      message: (data) => {
+        // Node and Bun enforce maxPayload at the socket; Deno and WebSocketPair cannot.
+        if (maxPayload > 0 && exceedsPayload(data, maxPayload)) {
+          connection.close(1009, 'Message too big');
+          return;
+        }
+        connection.emit('message', data);
+      },
+      close: (code, reason) => {
+        connection.emit('close', code, reason);
+      },
+      error: (error) => {
+        connection.emit('error', error);
+      },
+      ping: (data) => {
+        connection.emit('ping', data);
+      },
+      pong: (data) => {
+        connection.emit('pong', data);
+      },
+    };
   }
 
   /**
@@ -372,7 +561,7 @@ export class WebSocketServer {
    */
   private executeMiddlewares(
     connection: WSConnection,
-    request: IncomingMessage,
+    request: WebSocketUpgradeRequest,
     done: () => void
   ): void {
     let index = 0;
@@ -407,23 +596,26 @@ export class WebSocketServer {
   }
 
   /**
-   * Start heartbeat timer
-   * Pings all connections and terminates those that don't respond
+   * Start heartbeat timer (idempotent; a no-op when `heartbeatInterval` is 0)
+   * Pings all connections and terminates those that don't respond. Sockets
+   * without control frames (Deno, WebSocketPair) are left to their runtime.
    */
   private startHeartbeat(): void {
-    this.heartbeatTimer = setInterval(() => {
-      for (const [conn, state] of this.connections) {
-        const connection = conn as Connection;
+    if (this.heartbeatTimer || this.resolvedOptions.heartbeatInterval <= 0) return;
 
+    this.heartbeatTimer = setInterval(() => {
+      for (const [connection, state] of this.connections) {
         if (!connection.isOpen) {
-          this.connections.delete(conn);
+          this.untrack(connection);
           continue;
         }
 
+        if (!connection.supportsPing) continue;
+
         // If connection didn't respond to previous ping, terminate it
         if (!state.isAlive) {
           connection.close(1001, 'Connection timeout');
-          this.connections.delete(conn);
+          this.untrack(connection);
           continue;
         }
 
@@ -435,7 +627,44 @@ export class WebSocketServer {
 
     // Never let the heartbeat alone keep the Node event loop alive — a missed
     // disposal (e.g. no app.close() wiring, see N9) must not hang shutdown.
-    this.heartbeatTimer.unref();
+    // Deno and Workers return a number, which has nothing to unref.
+    if (typeof this.heartbeatTimer === 'object') this.heartbeatTimer.unref();
+  }
+
+  /** Deliver what other nodes publish to the connections on this one. */
+  private localDelivery(): ClusterDelivery {
+    return {
+      broadcast: (data, except) => {
+        for (const conn of this.connections.keys()) {
+          if (conn.id !== except) sendQuietly(conn, data);
+        }
+      },
+      room: (room, data, except) => {
+        for (const conn of this.roomManager.getConnections(room)) {
+          if (conn.id !== except) sendQuietly(conn, data);
+        }
+      },
+      send: (target, data) => {
+        const connection = this.connectionsById.get(target);
+        if (connection) sendQuietly(connection, data);
+      },
+      join: (target, room) => {
+        const connection = this.connectionsById.get(target);
+        try {
+          connection?.join(room);
+        } catch (error) {
+          if (connection) this.customCallbacks.onError?.(connection, error as Error);
+        }
+      },
+      leave: (target, room) => {
+        this.connectionsById.get(target)?.leave(room);
+      },
+    };
+  }
+
+  private untrack(connection: Connection): void {
+    this.connections.delete(connection);
+    this.connectionsById.delete(connection.id);
   }
 
   // Public API methods
@@ -455,17 +684,14 @@ export class WebSocketServer {
   }
 
   /**
-   * Broadcast to all connections
+   * Broadcast to all connections, on every node when there is a backplane
    */
-  broadcast(data: string | Buffer, exclude?: WSConnection): void {
+  broadcast(data: string | Uint8Array, exclude?: WSConnection): void {
     for (const conn of this.connections.keys()) {
       if (exclude && conn === exclude) continue;
-      try {
-        conn.send(data);
-      } catch {
-        // Ignore send errors
-      }
+      sendQuietly(conn, data);
     }
+    this.cluster?.broadcast(data, exclude?.id);
   }
 
   /**
@@ -480,11 +706,11 @@ export class WebSocketServer {
   }
 
   /**
-   * Broadcast to a specific room
+   * Broadcast to a specific room, on every node when there is a backplane
    */
   broadcastToRoom(
     room: string,
-    data: string | Buffer,
+    data: string | Uint8Array,
     exclude?: WSConnection
   ): void {
     this.roomManager.broadcast(room, data, exclude);
@@ -509,12 +735,76 @@ export class WebSocketServer {
   }
 
   /**
-   * Get connections in a room
+   * Get connections in a room (on this node)
    */
   getRoomConnections(room: string): WSConnection[] {
     return this.roomManager.getConnections(room);
   }
 
+  /**
+   * Send to a connection by id. A connection on another node is reached
+   * through the backplane; an unknown id is ignored.
+   */
+  sendTo(connectionId: string, data: string | Uint8Array): void {
+    const connection = this.connectionsById.get(connectionId);
+    if (connection) {
+      sendQuietly(connection, data);
+      return;
+    }
+    this.cluster?.send(connectionId, data);
+  }
+
+  /**
+   * Send JSON to a connection by id (see {@link WebSocketServer.sendTo})
+   */
+  sendJsonTo(connectionId: string, data: unknown): void {
+    let text: string;
+    try {
+      text = JSON.stringify(data);
+    } catch {
+      // JSON.stringify can fail on circular references or BigInt
+      return;
+    }
+    this.sendTo(connectionId, text);
+  }
+
+  /**
+   * Add a connection to a room by id, on whichever node holds it. On another
+   * node a room limit is reported to that node's `onError`.
+   * @throws TypeError if room name is invalid
+   * @throws MaxRoomsExceededError if a connection on this node is in too many rooms
+   */
+  joinRoom(connectionId: string, room: string): void {
+    validateRoomName(room);
+    const connection = this.connectionsById.get(connectionId);
+    if (connection) {
+      connection.join(room);
+      return;
+    }
+    this.cluster?.join(connectionId, room);
+  }
+
+  /**
+   * Remove a connection from a room by id, on whichever node holds it
+   */
+  leaveRoom(connectionId: string, room: string): void {
+    const connection = this.connectionsById.get(connectionId);
+    if (connection) {
+      connection.leave(room);
+      return;
+    }
+    this.cluster?.leave(connectionId, room);
+  }
+
+  /**
+   * Count the connections in a room across every node sharing the backplane
+   * (this node's count without one). Rejects when the backplane does.
+   */
+  async getPresence(room: string): Promise<number> {
+    if (!this.cluster) return this.roomManager.getRoomSize(room);
+    return this.cluster.getPresence(room);
+  }
+
   /**
    * Close all connections
    */
@@ -523,10 +813,12 @@ export class WebSocketServer {
       conn.close(code, reason);
     }
     this.connections.clear();
+    this.connectionsById.clear();
   }
 
   /**
-   * Cleanup resources
+   * Cleanup resources. With a backplane the server also unsubscribes and
+   * withdraws its presence; the backplane itself stays open.
    */
   close(): void {
     if (this.heartbeatTimer) {
@@ -535,6 +827,7 @@ export class WebSocketServer {
     }
     this.closeAll();
     this.roomManager.clear();
+    this.cluster?.stop().catch(this.onBackplaneError);
     this.wss?.close();
     this.initialized = false;
   }
@@ -6,7 +6,8 @@
  * @packageDocumentation
  */
 
-import type { IncomingMessage } from 'node:http';
+import type { WebSocketUpgradeRequest } from '@nextrush/types';
+import type { WSBackplane } from './backplane';
 
 /**
  * Maximum room name length to prevent memory exhaustion attacks
@@ -36,11 +37,14 @@ export interface WSConnection {
   /** Whether the connection is open */
   readonly isOpen: boolean;
 
-  /** Original HTTP request that initiated the upgrade */
-  readonly request: IncomingMessage;
+  /**
+   * The upgrade request that opened the connection — the same shape on every
+   * runtime. The platform request is on `request.raw`.
+   */
+  readonly request: WebSocketUpgradeRequest;
 
-  /** Send a message to this connection */
-  send(data: string | Buffer): void;
+  /** Send a message to this connection: a `string` as text, bytes as binary */
+  send(data: string | Uint8Array): void;
 
   /** Send JSON data (automatically stringified) */
   json(data: unknown): void;
@@ -61,13 +65,13 @@ export interface WSConnection {
   getRooms(): string[];
 
   /** Broadcast to a room (excluding self) */
-  broadcast(room: string, data: string | Buffer): void;
+  broadcast(room: string, data: string | Uint8Array): void;
 
   /** Broadcast JSON to a room (excluding self) */
   broadcastJson(room: string, data: unknown): void;
 
-  /** Register message handler */
-  on(event: 'message', handler: (data: string | Buffer) => void): void;
+  /** Register message handler: text frames as `string`, binary frames as `Uint8Array` */
+  on(event: 'message', handler: (data: string | Uint8Array) => void): void;
 
   /** Register close handler */
   on(event: 'close', handler: (code: number, reason: string) => void): void;
@@ -75,20 +79,23 @@ export interface WSConnection {
   /** Register error handler */
   on(event: 'error', handler: (error: Error) => void): void;
 
-  /** Register ping handler */
-  on(event: 'ping', handler: (data: Buffer) => void): void;
+  /** Register ping handler (Node and Bun only — see {@link WSConnection.ping}) */
+  on(event: 'ping', handler: (data: Uint8Array) => void): void;
 
-  /** Register pong handler */
-  on(event: 'pong', handler: (data: Buffer) => void): void;
+  /** Register pong handler (Node and Bun only — see {@link WSConnection.ping}) */
+  on(event: 'pong', handler: (data: Uint8Array) => void): void;
 
   /** Remove event handler */
   off(event: string, handler: (...args: unknown[]) => void): void;
 
-  /** Send ping to client */
-  ping(data?: Buffer): void;
+  /**
+   * Send ping to client. A no-op on Deno and `WebSocketPair` runtimes, which
+   * expose no control frames and keep connections alive themselves.
+   */
+  ping(data?: Uint8Array): void;
 
-  /** Send pong to client */
-  pong(data?: Buffer): void;
+  /** Send pong to client. A no-op where {@link WSConnection.ping} is. */
+  pong(data?: Uint8Array): void;
 }
 
 /**
@@ -96,7 +103,7 @@ export interface WSConnection {
  */
 export type WSHandler = (
   connection: WSConnection,
-  request: IncomingMessage
+  request: WebSocketUpgradeRequest
 ) => void | Promise<void>;
 
 /**
@@ -104,7 +111,7 @@ export type WSHandler = (
  */
 export type WSMiddleware = (
   connection: WSConnection,
-  request: IncomingMessage,
+  request: WebSocketUpgradeRequest,
   next: () => void | Promise<void>
 ) => void | Promise<void>;
 
@@ -130,13 +137,16 @@ export interface WebSocketOptions {
   path?: string | string[];
 
   /**
-   * Maximum message size in bytes
+   * Maximum message size in bytes. Enforced by the socket on Node and Bun;
+   * on Deno and `WebSocketPair` runtimes a larger message closes the
+   * connection with `1009`.
    * @default 1048576 (1MB)
    */
   maxPayload?: number;
 
   /**
-   * Heartbeat interval in milliseconds (0 to disable)
+   * Heartbeat interval in milliseconds (0 to disable). Applies to Node and
+   * Bun connections; Deno and `WebSocketPair` runtimes keep their own.
    * @default 30000 (30 seconds)
    */
   heartbeatInterval?: number;
@@ -170,12 +180,12 @@ export interface WebSocketOptions {
 
   /**
    * Custom client verification function
-   * Return true to allow, false to reject
+   * Return true to allow, false to reject (401)
    */
-  verifyClient?: (request: IncomingMessage) => boolean | Promise<boolean>;
+  verifyClient?: (request: WebSocketUpgradeRequest) => boolean | Promise<boolean>;
 
   /**
-   * Enable per-message deflate compression
+   * Enable per-message deflate compression (Node only)
    * @default false
    */
   perMessageDeflate?: boolean;
@@ -194,8 +204,42 @@ export interface WebSocketOptions {
    * Called when an error occurs
    */
   onError?: (connection: WSConnection, error: Error) => void;
+
+  /**
+   * Pub/sub backplane shared with the other nodes of a cluster. With one,
+   * broadcasts, room broadcasts, targeted sends, room changes by connection
+   * id and presence counts reach every node; without one, only this
+   * process's connections.
+   */
+  backplane?: WSBackplane;
+
+  /**
+   * This server's id on the backplane, carried by every message it publishes
+   * @default crypto.randomUUID()
+   */
+  nodeId?: string;
+
+  /**
+   * Called when publishing to, subscribing to or recording presence on the
+   * backplane fails. Local delivery is unaffected.
+   * @default console.warn
+   */
+  onBackplaneError?: (error: unknown) => void;
 }
 
+/**
+ * Options the server keeps as given, rather than resolved against
+ * {@link DEFAULT_WS_OPTIONS}
+ */
+export type UnresolvedWebSocketOption =
+  | 'verifyClient'
+  | 'onConnection'
+  | 'onClose'
+  | 'onError'
+  | 'backplane'
+  | 'nodeId'
+  | 'onBackplaneError';
+
 /**
  * WebSocket server interface
  */
@@ -207,13 +251,13 @@ export interface WSServer {
   getConnectionCount(): number;
 
   /** Broadcast to all connections */
-  broadcast(data: string | Buffer, exclude?: WSConnection): void;
+  broadcast(data: string | Uint8Array, exclude?: WSConnection): void;
 
   /** Broadcast JSON to all connections */
   broadcastJson(data: unknown, exclude?: WSConnection): void;
 
   /** Broadcast to a specific room */
-  broadcastToRoom(room: string, data: string | Buffer, exclude?: WSConnection): void;
+  broadcastToRoom(room: string, data: string | Uint8Array, exclude?: WSConnection): void;
 
   /** Broadcast JSON to a specific room */
   broadcastJsonToRoom(room: string, data: unknown, exclude?: WSConnection): void;
@@ -224,6 +268,21 @@ export interface WSServer {
   /** Get connections in a room */
   getRoomConnections(room: string): WSConnection[];
 
+  /** Send to a connection by id, on whichever node holds it */
+  sendTo(connectionId: string, data: string | Uint8Array): void;
+
+  /** Send JSON to a connection by id, on whichever node holds it */
+  sendJsonTo(connectionId: string, data: unknown): void;
+
+  /** Add a connection, on whichever node holds it, to a room */
+  joinRoom(connectionId: string, room: string): void;
+
+  /** Remove a connection, on whichever node holds it, from a room */
+  leaveRoom(connectionId: string, room: string): void;
+
+  /** Count the connections in a room across every node */
+  getPresence(room: string): Promise<number>;
+
   /** Close all connections */
   closeAll(code?: number, reason?: string): void;
 }
@@ -231,9 +290,7 @@ export interface WSServer {
 /**
  * Default WebSocket options
  */
-export const DEFAULT_WS_OPTIONS: Required<
-  Omit<WebSocketOptions, 'verifyClient' | 'onConnection' | 'onClose' | 'onError'>
-> = {
+export const DEFAULT_WS_OPTIONS: Required<Omit<WebSocketOptions, UnresolvedWebSocketOption>> = {
   path: ['/'],
   maxPayload: 1048576, // 1MB
   heartbeatInterval: 30000, // 30 seconds
@@ -265,7 +322,7 @@ export function validateRoomName(room: string): void {
   }
   if (room.length > MAX_ROOM_NAME_LENGTH) {
     throw new TypeError(
-      `Room name exceeds maximum length of ${MAX_ROOM_NAME_LENGTH} characters`
+      `Room name exceeds maximum length of ${String(MAX_ROOM_NAME_LENGTH)} characters`
     );
   }
 }
@@ -0,0 +1,151 @@
+/**
+ * Shared test helpers for @nextrush/auth.
+ *
+ * Not a test file (no `.test` suffix), so it is never collected as a suite.
+ * Tokens are signed with Web Crypto directly — the package under test only
+ * ever verifies.
+ */
+
+import type { Context } from '@nextrush/types';
+import type { Jwk, JwtAlgorithm } from '../types';
+
+const encoder = new TextEncoder();
+
+export function base64url(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Web Crypto algorithm parameters, loosely typed to fit every overload. */
+interface Params {
+  readonly name: string;
+  readonly [param: string]: unknown;
+}
+
+const SIGNING: Record<JwtAlgorithm, { generate: Params; sign: Params }> = {
+  HS256: { generate: { name: 'HMAC', hash: 'SHA-256' }, sign: { name: 'HMAC' } },
+  HS384: { generate: { name: 'HMAC', hash: 'SHA-384' }, sign: { name: 'HMAC' } },
+  HS512: { generate: { name: 'HMAC', hash: 'SHA-512' }, sign: { name: 'HMAC' } },
+  ...rsa('RS', 'RSASSA-PKCS1-v1_5'),
+  ...rsa('PS', 'RSA-PSS'),
+  ES256: {
+    generate: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  ES384: {
+    generate: { name: 'ECDSA', namedCurve: 'P-384' },
+    sign: { name: 'ECDSA', hash: 'SHA-384' },
+  },
+  ES512: {
+    generate: { name: 'ECDSA', namedCurve: 'P-521' },
+    sign: { name: 'ECDSA', hash: 'SHA-512' },
+  },
+  EdDSA: { generate: { name: 'Ed25519' }, sign: { name: 'Ed25519' } },
+};
+
+function rsa(
+  prefix: 'RS' | 'PS',
+  name: string
+): Record<`${'RS' | 'PS'}${256 | 384 | 512}`, { generate: Params; sign: Params }> {
+  const entries = ([256, 384, 512] as const).map((bits) => [
+    `${prefix}${String(bits)}`,
+    {
+      generate: {
+        name,
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: `SHA-${String(bits)}`,
+      },
+      sign: prefix === 'PS' ? { name, saltLength: bits / 8 } : { name },
+    },
+  ]);
+  return Object.fromEntries(entries) as ReturnType<typeof rsa>;
+}
+
+export interface TestKeys {
+  readonly alg: JwtAlgorithm;
+  readonly privateKey: CryptoKey;
+  readonly publicKey: CryptoKey;
+  /** The verification key as a JWK (the secret itself for HS algorithms). */
+  readonly jwk: Jwk;
+  /** The public key as a PEM SPKI string; absent for HS algorithms. */
+  readonly pem?: string;
+}
+
+/** Generate a signing key for `alg` and export its verification half. */
+export async function generateKeys(alg: JwtAlgorithm): Promise<TestKeys> {
+  const { generate } = SIGNING[alg];
+  const generated = await crypto.subtle.generateKey(generate, true, ['sign', 'verify']);
+  if (!('privateKey' in generated)) {
+    const jwk = (await crypto.subtle.exportKey('jwk', generated)) as Jwk;
+    return { alg, privateKey: generated, publicKey: generated, jwk };
+  }
+  const jwk = (await crypto.subtle.exportKey('jwk', generated.publicKey)) as Jwk;
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', generated.publicKey));
+  const body = btoa(String.fromCharCode(...spki)).replace(/(.{64})/g, '$1\n');
+  const pem = `-----BEGIN PUBLIC KEY-----\n${body}\n-----END PUBLIC KEY-----`;
+  return { alg, privateKey: generated.privateKey, publicKey: generated.publicKey, jwk, pem };
+}
+
+/** An HMAC key over a known secret, for tests that configure the secret as a string. */
+export async function secretKeys(secret: string, alg: 'HS256' | 'HS384' | 'HS512' = 'HS256') {
+  const { generate } = SIGNING[alg];
+  const privateKey = await crypto.subtle.importKey('raw', encoder.encode(secret), generate, false, [
+    'sign',
+  ]);
+  return { alg, privateKey };
+}
+
+/** Sign a JWT; `header` overrides or adds JOSE header parameters. */
+export async function signJwt(
+  keys: { readonly alg: JwtAlgorithm; readonly privateKey: CryptoKey },
+  payload: Record<string, unknown>,
+  header: Record<string, unknown> = {}
+): Promise<string> {
+  const input = `${base64url(JSON.stringify({ alg: keys.alg, typ: 'JWT', ...header }))}.${base64url(
+    JSON.stringify(payload)
+  )}`;
+  const signature = await crypto.subtle.sign(
+    SIGNING[keys.alg].sign,
+    keys.privateKey,
+    encoder.encode(input)
+  );
+  return `${input}.${base64url(new Uint8Array(signature))}`;
+}
+
+/** Seconds since the epoch, as JWT time claims use. */
+export function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export interface MockContext {
+  state: Record<string | symbol, unknown>;
+  query: Record<string, string | string[] | undefined>;
+  responseHeaders: Record<string, string>;
+  get: (name: string) => string | undefined;
+  set: (name: string, value: string) => void;
+}
+
+/** Minimal Context stub carrying only what authentication touches. */
+export function mockCtx(
+  init: {
+    headers?: Record<string, string>;
+    query?: Record<string, string | string[] | undefined>;
+  } = {}
+): MockContext & Context {
+  const headers = Object.fromEntries(
+    Object.entries(init.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const ctx: MockContext = {
+    state: {},
+    query: init.query ?? {},
+    responseHeaders: {},
+    get: (name) => headers[name.toLowerCase()],
+    set: (name, value) => {
+      ctx.responseHeaders[name] = value;
+    },
+  };
+  return ctx as MockContext & Context;
+}
@@ -0,0 +1,258 @@
+import { ForbiddenError, UnauthorizedError } from '@nextrush/errors';
+import type { Context, MetadataContribution } from '@nextrush/types';
+import { ROUTE_METADATA } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { authenticate, authGuard, getPrincipal, requireRoles, rolesGuard } from '../middleware';
+import { apiKeyStrategy, basicStrategy, bearerStrategy, jwtStrategy } from '../strategies';
+import type { AuthState, JwtPrincipal, Principal } from '../types';
+import { mockCtx, nowSeconds, secretKeys, signJwt } from './_helpers';
+
+const SECRET = 'a-test-secret-that-is-32-bytes!!';
+
+const jwt = jwtStrategy({ key: SECRET, algorithms: ['HS256'], realm: 'api' });
+const apiKey = apiKeyStrategy({
+  validate: (key) => (key === 'k-123' ? { id: 'client-1', roles: ['service'] } : undefined),
+});
+const basic = basicStrategy({
+  validate: (user, password) => (user === 'ädmin' && password === 'p:ss' ? { id: user } : null),
+});
+
+async function token(payload: Record<string, unknown>): Promise<string> {
+  return signJwt(await secretKeys(SECRET), payload);
+}
+
+function basicHeader(credentials: string): string {
+  const bytes = new TextEncoder().encode(credentials);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+function contribution(target: object): MetadataContribution | undefined {
+  return (target as { [ROUTE_METADATA]?: MetadataContribution })[ROUTE_METADATA];
+}
+
+/** The error `run` fails with, or `undefined`. */
+async function rejection(run: () => unknown): Promise<unknown> {
+  return Promise.resolve()
+    .then(run)
+    .then(
+      () => undefined,
+      (error: unknown) => error
+    );
+}
+
+describe('strategies', () => {
+  it('jwtStrategy maps sub and roles to the principal', async () => {
+    const ctx = mockCtx({
+      headers: { authorization: `Bearer ${await token({ sub: 'u1', roles: ['admin', 7] })}` },
+    });
+    const result = await jwt.authenticate(ctx);
+    expect(result?.ok).toBe(true);
+    const { principal } = result as { principal: JwtPrincipal };
+    expect(principal.id).toBe('u1');
+    expect(principal.roles).toEqual(['admin']);
+    expect(principal.claims.sub).toBe('u1');
+  });
+
+  it('jwtStrategy refuses a token it cannot verify, and one without sub', async () => {
+    const expired = await token({ sub: 'u1', exp: nowSeconds() - 60 });
+    expect(
+      await jwt.authenticate(mockCtx({ headers: { authorization: `Bearer ${expired}` } }))
+    ).toEqual({ ok: false, reason: 'Token has expired' });
+    const anonymous = await token({});
+    expect(
+      await jwt.authenticate(mockCtx({ headers: { authorization: `bearer ${anonymous}` } }))
+    ).toEqual({ ok: false, reason: 'Invalid credentials' });
+  });
+
+  it('jwtStrategy uses a custom principal mapper', async () => {
+    const custom = jwtStrategy({
+      key: SECRET,
+      algorithms: ['HS256'],
+      principal: (payload) => ({ id: `user:${String(payload.sub)}`, tenant: payload.tid }),
+    });
+    const ctx = mockCtx({
+      headers: { authorization: `Bearer ${await token({ sub: 'u1', tid: 't9' })}` },
+    });
+    expect(await custom.authenticate(ctx)).toEqual({
+      ok: true,
+      principal: { id: 'user:u1', tenant: 't9' },
+    });
+  });
+
+  it('jwtStrategy lets key lookup failures through', async () => {
+    const outage = jwtStrategy({
+      key: () => Promise.reject(new Error('idp down')),
+      algorithms: ['HS256'],
+    });
+    const ctx = mockCtx({ headers: { authorization: `Bearer ${await token({ sub: 'u1' })}` } });
+    await expect(outage.authenticate(ctx)).rejects.toThrow('idp down');
+  });
+
+  it('ignores requests without its credentials', async () => {
+    const ctx = mockCtx({ headers: { authorization: 'Basic Zm9vOmJhcg==' } });
+    expect(await jwt.authenticate(ctx)).toBeUndefined();
+    expect(await apiKey.authenticate(ctx)).toBeUndefined();
+    expect(await basic.authenticate(mockCtx())).toBeUndefined();
+  });
+
+  it('bearerStrategy resolves opaque tokens', async () => {
+    const tokens = bearerStrategy({
+      validate: (value) => Promise.resolve(value === 'pat_1' ? { id: 'u1' } : undefined),
+    });
+    expect(
+      await tokens.authenticate(mockCtx({ headers: { authorization: 'Bearer pat_1' } }))
+    ).toEqual({ ok: true, principal: { id: 'u1' } });
+    expect(
+      await tokens.authenticate(mockCtx({ headers: { authorization: 'Bearer nope' } }))
+    ).toEqual({ ok: false, reason: 'Invalid credentials' });
+    expect(tokens.scheme).toEqual({ type: 'http', scheme: 'bearer' });
+  });
+
+  it('apiKeyStrategy reads a header or a query parameter', async () => {
+    const fromHeader = await apiKey.authenticate(mockCtx({ headers: { 'X-API-Key': 'k-123' } }));
+    expect(fromHeader).toMatchObject({ ok: true });
+    expect(apiKey.scheme).toEqual({ type: 'apiKey', in: 'header', name: 'x-api-key' });
+    expect(apiKey.challenge).toBeUndefined();
+
+    const fromQuery = apiKeyStrategy({ query: 'api_key', validate: (key) => ({ id: key }) });
+    expect(await fromQuery.authenticate(mockCtx({ query: { api_key: 'abc' } }))).toEqual({
+      ok: true,
+      principal: { id: 'abc' },
+    });
+    expect(
+      await fromQuery.authenticate(mockCtx({ query: { api_key: ['a', 'b'] } }))
+    ).toBeUndefined();
+    expect(() =>
+      apiKeyStrategy({ header: 'x-key', query: 'key', validate: () => undefined })
+    ).toThrow('not both');
+  });
+
+  it('basicStrategy decodes UTF-8 credentials split at the first colon', async () => {
+    expect(
+      await basic.authenticate(mockCtx({ headers: { authorization: basicHeader('ädmin:p:ss') } }))
+    ).toEqual({ ok: true, principal: { id: 'ädmin' } });
+    expect(await basic.authenticate(mockCtx({ headers: { authorization: 'Basic !!!' } }))).toEqual({
+      ok: false,
+      reason: 'Invalid credentials',
+    });
+    expect(
+      await basic.authenticate(mockCtx({ headers: { authorization: basicHeader('nocolon') } }))
+    ).toEqual({ ok: false, reason: 'Invalid credentials' });
+    expect(basic.challenge).toBe('Basic realm="Restricted", charset="UTF-8"');
+  });
+});
+
+describe('authenticate()', () => {
+  it('stores the principal and continues', async () => {
+    const ctx = mockCtx({ headers: { authorization: `Bearer ${await token({ sub: 'u1' })}` } });
+    const next = vi.fn(() => Promise.resolve());
+    await authenticate([apiKey, jwt])(ctx, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect((ctx.state as AuthState).principal?.id).toBe('u1');
+    expect(getPrincipal(ctx).id).toBe('u1');
+  });
+
+  it('answers a request without credentials with 401 and every challenge', async () => {
+    const ctx = mockCtx();
+    const next = vi.fn(() => Promise.resolve());
+    const error = await rejection(() => authenticate([jwt, apiKey, basic])(ctx, next));
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect((error as UnauthorizedError).message).toBe('Authentication required');
+    expect(ctx.responseHeaders['WWW-Authenticate']).toBe(
+      'Bearer realm="api", Basic realm="Restricted", charset="UTF-8"'
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('lets the first presented credential decide', async () => {
+    const ctx = mockCtx({
+      headers: { authorization: 'Bearer not.a.jwt', 'x-api-key': 'k-123' },
+    });
+    const error = await rejection(() => authenticate([jwt, apiKey])(ctx, () => Promise.resolve()));
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(ctx.responseHeaders['WWW-Authenticate']).toBe(
+      'Bearer realm="api", error="invalid_token"'
+    );
+    expect(ctx.state.principal).toBeUndefined();
+  });
+
+  it('lets anonymous requests through when optional, but not bad credentials', async () => {
+    const mw = authenticate(jwt, { optional: true });
+    const anonymous = mockCtx();
+    const next = vi.fn(() => Promise.resolve());
+    await mw(anonymous, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(anonymous.state.principal).toBeUndefined();
+    expect(() => getPrincipal(anonymous)).toThrow(UnauthorizedError);
+
+    const forged = mockCtx({ headers: { authorization: 'Bearer a.b.c' } });
+    await expect(mw(forged, next)).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('contributes the strategies as route security', () => {
+    expect(contribution(authenticate([jwt, apiKey]))).toEqual({
+      security: {
+        schemes: [
+          { name: 'jwtAuth', scheme: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } },
+          { name: 'apiKeyAuth', scheme: { type: 'apiKey', in: 'header', name: 'x-api-key' } },
+        ],
+      },
+    });
+    expect(contribution(authenticate(jwt, { optional: true }))?.security?.optional).toBe(true);
+  });
+
+  it('requires unique strategies', () => {
+    expect(() => authenticate([])).toThrow('at least one strategy');
+    expect(() => authenticate([jwt, jwt])).toThrow('unique');
+  });
+});
+
+describe('requireRoles()', () => {
+  const withPrincipal = (principal?: Principal): Context => {
+    const ctx = mockCtx();
+    if (principal) ctx.state.principal = principal;
+    return ctx;
+  };
+
+  it('passes a principal with any of the roles', async () => {
+    const next = vi.fn(() => Promise.resolve());
+    await requireRoles('admin', 'owner')(withPrincipal({ id: 'u1', roles: ['owner'] }), next);
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it('is 403 without the role and 401 without a principal', async () => {
+    const next = () => Promise.resolve();
+    await expect(
+      requireRoles('admin')(withPrincipal({ id: 'u1', roles: ['viewer'] }), next)
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(requireRoles('admin')(withPrincipal({ id: 'u1' }), next)).rejects.toBeInstanceOf(
+      ForbiddenError
+    );
+    await expect(requireRoles('admin')(withPrincipal(), next)).rejects.toBeInstanceOf(
+      UnauthorizedError
+    );
+    expect(() => requireRoles()).toThrow('at least one role');
+  });
+});
+
+describe('guards', () => {
+  it('authGuard authenticates a guard context and carries route security', async () => {
+    const guard = authGuard(apiKey);
+    const ctx = mockCtx({ headers: { 'x-api-key': 'k-123' } });
+    await expect(guard(ctx)).resolves.toBe(true);
+    expect((ctx.state as AuthState).principal?.id).toBe('client-1');
+    expect(contribution(guard)?.security?.schemes.map((s) => s.name)).toEqual(['apiKeyAuth']);
+
+    const anonymous = mockCtx();
+    await expect(authGuard(jwt)(anonymous)).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(anonymous.responseHeaders['WWW-Authenticate']).toBe('Bearer realm="api"');
+  });
+
+  it('rolesGuard checks the principal the auth guard stored', () => {
+    const ctx = mockCtx();
+    ctx.state.principal = { id: 'client-1', roles: ['service'] };
+    expect(rolesGuard('service')(ctx)).toBe(true);
+    expect(() => rolesGuard('admin')(ctx)).toThrow(ForbiddenError);
+    expect(() => rolesGuard('admin')(mockCtx())).toThrow(UnauthorizedError);
+  });
+});
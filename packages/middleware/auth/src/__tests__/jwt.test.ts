@@ -0,0 +1,308 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { JWT_ALGORITHMS } from '../constants';
+import { createJwks } from '../jwks';
+import { JwtVerificationError, verifyJwt } from '../jwt';
+import type { JwtAlgorithm, JwtErrorCode, VerifyJwtOptions } from '../types';
+import {
+  base64url,
+  generateKeys,
+  nowSeconds,
+  secretKeys,
+  signJwt,
+  type TestKeys,
+} from './_helpers';
+
+const SECRET = 'a-test-secret-that-is-32-bytes!!';
+
+async function expectRefused(
+  token: string,
+  options: VerifyJwtOptions,
+  code: JwtErrorCode
+): Promise<void> {
+  const error: unknown = await verifyJwt(token, options).catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(JwtVerificationError);
+  expect((error as JwtVerificationError).code).toBe(code);
+}
+
+describe('verifyJwt()', () => {
+  const keys = new Map<JwtAlgorithm, TestKeys>();
+
+  beforeAll(async () => {
+    for (const alg of JWT_ALGORITHMS) keys.set(alg, await generateKeys(alg));
+  }, 60_000);
+
+  it.each(JWT_ALGORITHMS)('verifies %s against a JWK', async (alg) => {
+    const pair = keys.get(alg)!;
+    const token = await signJwt(pair, { sub: 'u1' });
+    const { header, payload } = await verifyJwt(token, { key: pair.jwk, algorithms: [alg] });
+    expect(header.alg).toBe(alg);
+    expect(payload.sub).toBe('u1');
+  });
+
+  it.each(['RS256', 'PS384', 'ES512', 'EdDSA'] as const)(
+    'verifies %s against a PEM public key',
+    async (alg) => {
+      const pair = keys.get(alg)!;
+      const token = await signJwt(pair, { sub: 'u1' });
+      await expect(verifyJwt(token, { key: pair.pem!, algorithms: [alg] })).resolves.toBeDefined();
+    }
+  );
+
+  it('verifies against a string secret and a CryptoKey', async () => {
+    const hs = await secretKeys(SECRET);
+    await expect(
+      verifyJwt(await signJwt(hs, { sub: 'u1' }), { key: SECRET, algorithms: ['HS256'] })
+    ).resolves.toBeDefined();
+
+    const es = keys.get('ES256')!;
+    await expect(
+      verifyJwt(await signJwt(es, { sub: 'u1' }), { key: es.publicKey, algorithms: ['ES256'] })
+    ).resolves.toBeDefined();
+  });
+
+  it('refuses a tampered payload', async () => {
+    const pair = keys.get('RS256')!;
+    const [header, , signature] = (await signJwt(pair, { sub: 'u1' })).split('.');
+    const forged = `${header!}.${base64url(JSON.stringify({ sub: 'admin' }))}.${signature!}`;
+    await expectRefused(forged, { key: pair.jwk, algorithms: ['RS256'] }, 'invalid_signature');
+  });
+
+  it('refuses algorithms outside the allowlist, including none', async () => {
+    const hs = await secretKeys(SECRET, 'HS512');
+    await expectRefused(
+      await signJwt(hs, { sub: 'u1' }),
+      { key: SECRET, algorithms: ['HS256'] },
+      'unsupported_algorithm'
+    );
+    const unsigned = `${base64url('{"alg":"none"}')}.${base64url('{"sub":"u1"}')}.`;
+    await expectRefused(unsigned, { key: SECRET, algorithms: ['HS256'] }, 'unsupported_algorithm');
+  });
+
+  it('never uses a public key as an HMAC secret', async () => {
+    const rs = keys.get('RS256')!;
+    const confused = await signJwt(
+      {
+        alg: 'HS256',
+        privateKey: await crypto.subtle.importKey(
+          'raw',
+          new TextEncoder().encode(rs.pem),
+          { name: 'HMAC', hash: 'SHA-256' },
+          false,
+          ['sign']
+        ),
+      },
+      { sub: 'admin' }
+    );
+    await expectRefused(confused, { key: rs.pem!, algorithms: ['RS256'] }, 'unsupported_algorithm');
+    // Through a resolver, where the allowlist may mix key types.
+    await expectRefused(
+      confused,
+      { key: () => rs.pem!, algorithms: ['RS256', 'HS256'] },
+      'key_not_found'
+    );
+  });
+
+  it('refuses a JWK whose alg or use does not fit the token', async () => {
+    const pair = keys.get('ES256')!;
+    const token = await signJwt(pair, { sub: 'u1' });
+    await expectRefused(
+      token,
+      { key: { ...pair.jwk, alg: 'ES384' }, algorithms: ['ES256'] },
+      'key_not_found'
+    );
+    await expectRefused(
+      token,
+      { key: { ...pair.jwk, use: 'enc' }, algorithms: ['ES256'] },
+      'key_not_found'
+    );
+  });
+
+  it('refuses malformed tokens and critical headers', async () => {
+    const options = { key: SECRET, algorithms: ['HS256'] } as const;
+    await expectRefused('not-a-jwt', options, 'malformed');
+    await expectRefused('a.b', options, 'malformed');
+    await expectRefused(`${base64url('[1]')}.${base64url('{}')}.`, options, 'malformed');
+    await expectRefused('e30.e30.***', options, 'malformed');
+
+    const hs = await secretKeys(SECRET);
+    const critical = await signJwt(hs, { sub: 'u1' }, { crit: ['b64'], b64: false });
+    await expectRefused(critical, options, 'malformed');
+  });
+
+  describe('claims', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const options = { key: SECRET, algorithms: ['HS256'] } as const;
+    const sign = async (payload: Record<string, unknown>) =>
+      signJwt(await secretKeys(SECRET), payload);
+
+    it('checks exp and nbf with clock tolerance', async () => {
+      const now = nowSeconds();
+      await expectRefused(await sign({ exp: now - 10 }), options, 'expired');
+      await expect(
+        verifyJwt(await sign({ exp: now - 10 }), { ...options, clockTolerance: 30 })
+      ).resolves.toBeDefined();
+      await expectRefused(await sign({ nbf: now + 60 }), options, 'not_yet_valid');
+      await expectRefused(await sign({ exp: 'tomorrow' }), options, 'malformed');
+    });
+
+    it('checks maxAge against iat', async () => {
+      const now = nowSeconds();
+      await expectRefused(await sign({ iat: now - 120 }), { ...options, maxAge: 60 }, 'expired');
+      await expectRefused(await sign({}), { ...options, maxAge: 60 }, 'missing_claim');
+      await expect(
+        verifyJwt(await sign({ iat: now - 30 }), { ...options, maxAge: 60 })
+      ).resolves.toBeDefined();
+    });
+
+    it('checks issuer and audience', async () => {
+      const token = await sign({ iss: 'https://idp', aud: ['api', 'web'] });
+      await expect(
+        verifyJwt(token, { ...options, issuer: ['https://idp'], audience: 'web' })
+      ).resolves.toBeDefined();
+      await expectRefused(token, { ...options, issuer: 'https://other' }, 'invalid_issuer');
+      await expectRefused(token, { ...options, audience: 'admin' }, 'invalid_audience');
+    });
+  });
+
+  describe('option checks', () => {
+    it('requires a non-empty list of known algorithms', async () => {
+      await expect(verifyJwt('x', { key: SECRET, algorithms: [] })).rejects.toThrow(TypeError);
+      await expect(
+        verifyJwt('x', { key: SECRET, algorithms: ['none' as JwtAlgorithm] })
+      ).rejects.toThrow('unsupported algorithm "none"');
+    });
+
+    it('refuses a fixed key for algorithms of different key types', async () => {
+      await expect(
+        verifyJwt('x', { key: keys.get('RS256')!.pem!, algorithms: ['RS256', 'HS256'] })
+      ).rejects.toThrow('a fixed key cannot serve');
+    });
+
+    it('refuses short and PEM-shaped HMAC secrets', async () => {
+      await expect(verifyJwt('x', { key: 'short', algorithms: ['HS256'] })).rejects.toThrow(
+        'at least 32 bytes'
+      );
+      await expect(verifyJwt('x', { key: SECRET, algorithms: ['HS512'] })).rejects.toThrow(
+        'at least 64 bytes'
+      );
+      await expect(
+        verifyJwt('x', { key: keys.get('RS256')!.pem!, algorithms: ['HS256'] })
+      ).rejects.toThrow('PEM key cannot be used as an HMAC secret');
+    });
+  });
+});
+
+describe('createJwks()', () => {
+  let current: TestKeys;
+  let rotated: TestKeys;
+
+  beforeAll(async () => {
+    current = await generateKeys('ES256');
+    rotated = await generateKeys('ES256');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const set = (...entries: [string, TestKeys][]) => ({
+    keys: entries.map(([kid, keys]) => ({ ...keys.jwk, kid })),
+  });
+
+  it('fetches once, caches and resolves keys by kid', async () => {
+    const fetchKeys = vi.fn(() => Promise.resolve(set(['k1', current])));
+    const jwks = createJwks({ fetchKeys });
+    const options = { key: jwks, algorithms: ['ES256'] } as const;
+
+    const [a, b] = await Promise.all([
+      verifyJwt(await signJwt(current, { sub: 'a' }, { kid: 'k1' }), options),
+      verifyJwt(await signJwt(current, { sub: 'b' }, { kid: 'k1' }), options),
+    ]);
+    expect([a.payload.sub, b.payload.sub]).toEqual(['a', 'b']);
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches for an unknown kid, within the cooldown', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const fetchKeys = vi
+      .fn()
+      .mockResolvedValueOnce(set(['k1', current]))
+      .mockResolvedValue(set(['k1', current], ['k2', rotated]));
+    const options = {
+      key: createJwks({ fetchKeys, cooldown: 30_000 }),
+      algorithms: ['ES256'],
+    } as const;
+
+    await verifyJwt(await signJwt(current, {}, { kid: 'k1' }), options);
+    const next = await signJwt(rotated, {}, { kid: 'k2' });
+    await expectRefused(next, options, 'key_not_found');
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(1_000_000 + 30_000);
+    await expect(verifyJwt(next, options)).resolves.toBeDefined();
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('refreshes a stale set and keeps serving it when the refresh fails', async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const fetchKeys = vi
+      .fn()
+      .mockResolvedValueOnce(set(['k1', current]))
+      .mockRejectedValue(new Error('idp down'));
+    const options = {
+      key: createJwks({ fetchKeys, cacheTtl: 1000, cooldown: 0 }),
+      algorithms: ['ES256'],
+    } as const;
+    const token = await signJwt(current, {}, { kid: 'k1' });
+
+    await verifyJwt(token, options);
+    vi.setSystemTime(1_000_000 + 5000);
+    await expect(verifyJwt(token, options)).resolves.toBeDefined();
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws the fetch error when no set was ever loaded', async () => {
+    const jwks = createJwks({ fetchKeys: () => Promise.reject(new Error('idp down')) });
+    const token = await signJwt(current, {}, { kid: 'k1' });
+    await expect(verifyJwt(token, { key: jwks, algorithms: ['ES256'] })).rejects.toThrow(
+      'idp down'
+    );
+  });
+
+  it('accepts a token without kid only when one key fits', async () => {
+    const token = await signJwt(current, { sub: 'u1' });
+    const single = createJwks({ fetchKeys: () => Promise.resolve(set(['k1', current])) });
+    await expect(verifyJwt(token, { key: single, algorithms: ['ES256'] })).resolves.toBeDefined();
+
+    const two = createJwks({
+      fetchKeys: () => Promise.resolve(set(['k1', current], ['k2', rotated])),
+    });
+    await expectRefused(token, { key: two, algorithms: ['ES256'] }, 'key_not_found');
+  });
+
+  it('fetches a url with the global fetch', async () => {
+    const fetchMock = vi.fn((_url: string) =>
+      Promise.resolve(new Response(JSON.stringify(set(['k1', current])), { status: 200 }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const jwks = createJwks({ url: 'https://idp.example/jwks.json' });
+    const token = await signJwt(current, {}, { kid: 'k1' });
+    await expect(verifyJwt(token, { key: jwks, algorithms: ['ES256'] })).resolves.toBeDefined();
+    expect(fetchMock.mock.calls[0]?.[0]).toBe('https://idp.example/jwks.json');
+
+    vi.stubGlobal('fetch', () => Promise.resolve(new Response('nope', { status: 503 })));
+    const failing = createJwks({ url: 'https://idp.example/jwks.json' });
+    await expect(verifyJwt(token, { key: failing, algorithms: ['ES256'] })).rejects.toThrow(
+      'answered 503'
+    );
+  });
+
+  it('requires a source and valid durations', () => {
+    expect(() => createJwks({})).toThrow('pass url or fetchKeys');
+    expect(() => createJwks({ url: 'https://idp', cacheTtl: -1 })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @nextrush/auth - Public API surface test
+ *
+ * Locks the exported symbol set from `src/index.ts`. If this test fails, the
+ * public API has changed. Intentional changes require an explicit update to
+ * the expected list below, plus a changeset for a published package.
+ */
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import * as authApi from '../index';
+import type {
+  ApiKeyStrategyOptions,
+  AuthenticateOptions,
+  AuthGuardContext,
+  AuthResult,
+  AuthState,
+  AuthStrategy,
+  BasicStrategyOptions,
+  BearerStrategyOptions,
+  CredentialSource,
+  CredentialValidator,
+  JsonWebKeySet,
+  Jwk,
+  JwksOptions,
+  JwtAlgorithm,
+  JwtErrorCode,
+  JwtHeader,
+  JwtKey,
+  JwtKeyResolver,
+  JwtPayload,
+  JwtPrincipal,
+  JwtStrategyOptions,
+  Principal,
+  VerifiedJwt,
+  VerifyJwtOptions,
+} from '../index';
+
+describe('Public API surface (runtime exports)', () => {
+  it('exports exactly the intended runtime symbols', () => {
+    const actualExports = Object.keys(authApi).sort();
+
+    // SEALED: intentional public runtime API surface.
+    const expectedRuntime = [
+      'DEFAULT_API_KEY_HEADER',
+      'DEFAULT_BASIC_REALM',
+      'DEFAULT_JWKS_CACHE_TTL',
+      'DEFAULT_JWKS_COOLDOWN',
+      'JWT_ALGORITHMS',
+      'JwtVerificationError',
+      'apiKeyStrategy',
+      'authGuard',
+      'authenticate',
+      'basicStrategy',
+      'bearerStrategy',
+      'createJwks',
+      'getPrincipal',
+      'jwtStrategy',
+      'requireRoles',
+      'rolesGuard',
+      'verifyJwt',
+    ].sort();
+
+    expect(actualExports).toEqual(expectedRuntime);
+  });
+});
+
+describe('Public API surface (type-only exports)', () => {
+  it('the type-only surface stays importable from the barrel', () => {
+    // Compile-time only: removing/renaming any of these in src/index.ts fails
+    // this file to type-check.
+    type Surface = [
+      ApiKeyStrategyOptions,
+      AuthenticateOptions,
+      AuthGuardContext,
+      AuthResult,
+      AuthState,
+      AuthStrategy,
+      BasicStrategyOptions,
+      BearerStrategyOptions,
+      CredentialSource,
+      CredentialValidator<Principal, [string]>,
+      JsonWebKeySet,
+      Jwk,
+      JwksOptions,
+      JwtAlgorithm,
+      JwtErrorCode,
+      JwtHeader,
+      JwtKey,
+      JwtKeyResolver,
+      JwtPayload,
+      JwtPrincipal,
+      JwtStrategyOptions,
+      Principal,
+      VerifiedJwt,
+      VerifyJwtOptions,
+    ];
+    expectTypeOf<Surface>().not.toBeNever();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @nextrush/auth - Constants
+ *
+ * @packageDocumentation
+ */
+
+import type { JwtAlgorithm } from './types';
+
+/** Header an `apiKeyStrategy()` reads when neither `header` nor `query` is given. */
+export const DEFAULT_API_KEY_HEADER = 'x-api-key';
+
+/** Realm announced by `basicStrategy()` when none is configured. */
+export const DEFAULT_BASIC_REALM = 'Restricted';
+
+/** How long `createJwks()` trusts a fetched key set, in milliseconds (10 minutes). */
+export const DEFAULT_JWKS_CACHE_TTL = 600_000;
+
+/** Shortest gap between two `createJwks()` fetches, in milliseconds (30 seconds). */
+export const DEFAULT_JWKS_COOLDOWN = 30_000;
+
+/** Every algorithm `verifyJwt()` can check. `none` is never among them. */
+export const JWT_ALGORITHMS: readonly JwtAlgorithm[] = [
+  'HS256',
+  'HS384',
+  'HS512',
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA',
+];
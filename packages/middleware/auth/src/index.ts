@@ -0,0 +1,77 @@
+/**
+ * @nextrush/auth
+ *
+ * Authentication for NextRush.
+ *
+ * Features:
+ * - `verifyJwt()`: HS, RS, PS, ES and EdDSA JWTs on Web Crypto, on every runtime
+ * - `createJwks()`: JSON Web Key Set resolver with caching and rotation
+ * - JWT, Bearer, API-key and Basic strategies
+ * - `authenticate()` stores a typed principal in `ctx.state.principal`
+ * - `requireRoles()`, and `authGuard()`/`rolesGuard()` for class controllers
+ * - Contributes `RouteMetadata.security` for the OpenAPI document
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type {
+  ApiKeyStrategyOptions,
+  AuthenticateOptions,
+  AuthGuardContext,
+  AuthResult,
+  AuthState,
+  AuthStrategy,
+  BasicStrategyOptions,
+  BearerStrategyOptions,
+  CredentialSource,
+  CredentialValidator,
+  JsonWebKeySet,
+  Jwk,
+  JwksOptions,
+  JwtAlgorithm,
+  JwtErrorCode,
+  JwtHeader,
+  JwtKey,
+  JwtKeyResolver,
+  JwtPayload,
+  JwtPrincipal,
+  JwtStrategyOptions,
+  Principal,
+  VerifiedJwt,
+  VerifyJwtOptions,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export {
+  DEFAULT_API_KEY_HEADER,
+  DEFAULT_BASIC_REALM,
+  DEFAULT_JWKS_CACHE_TTL,
+  DEFAULT_JWKS_COOLDOWN,
+  JWT_ALGORITHMS,
+} from './constants';
+
+// ============================================================================
+// JWT
+// ============================================================================
+
+export { JwtVerificationError, verifyJwt } from './jwt';
+export { createJwks } from './jwks';
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+export { apiKeyStrategy, basicStrategy, bearerStrategy, jwtStrategy } from './strategies';
+
+// ============================================================================
+// Middleware and guards
+// ============================================================================
+
+export { authenticate, authGuard, getPrincipal, requireRoles, rolesGuard } from './middleware';
@@ -0,0 +1,119 @@
+/**
+ * @nextrush/auth - JWKS Key Resolver
+ *
+ * @packageDocumentation
+ */
+
+import { DEFAULT_JWKS_CACHE_TTL, DEFAULT_JWKS_COOLDOWN } from './constants';
+import { jwkAllows, JwtVerificationError } from './jwt';
+import type { JsonWebKeySet, Jwk, JwksOptions, JwtHeader, JwtKeyResolver } from './types';
+
+function validateDuration(name: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new TypeError(`createJwks(): ${name} must be a non-negative number of milliseconds`);
+  }
+}
+
+async function fetchJwks(url: string): Promise<JsonWebKeySet> {
+  const response = await fetch(url, { headers: { accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`createJwks(): ${url} answered ${String(response.status)}`);
+  }
+  const body = (await response.json()) as Partial<JsonWebKeySet> | null;
+  if (!body || !Array.isArray(body.keys)) {
+    throw new Error(`createJwks(): ${url} did not return a key set`);
+  }
+  return body as JsonWebKeySet;
+}
+
+/**
+ * Key resolver backed by a JSON Web Key Set — pass it as `key` to
+ * `jwtStrategy()` or `verifyJwt()`.
+ *
+ * The set is fetched on first use and kept for `cacheTtl`. A token whose
+ * `kid` is not in the set triggers a refetch, so rotated keys are picked up
+ * without waiting for the cache to expire; `cooldown` bounds how often that
+ * can happen. Concurrent requests share one fetch. When a refresh fails, the
+ * set already held keeps serving; with nothing held, the fetch error is thrown.
+ *
+ * A token without a `kid` is accepted only when exactly one key in the set
+ * fits its algorithm.
+ *
+ * @example
+ * ```typescript
+ * const auth = jwtStrategy({
+ *   key: createJwks({ url: 'https://auth.example.com/.well-known/jwks.json' }),
+ *   algorithms: ['RS256'],
+ *   issuer: 'https://auth.example.com/',
+ *   audience: 'api',
+ * });
+ * ```
+ *
+ * @throws {TypeError} When neither `url` nor `fetchKeys` is given, or a
+ *   duration is negative.
+ */
+export function createJwks(options: JwksOptions): JwtKeyResolver {
+  const { url, fetchKeys } = options;
+  let load: () => Promise<JsonWebKeySet>;
+  if (fetchKeys) load = fetchKeys;
+  else if (url !== undefined) load = () => fetchJwks(url);
+  else throw new TypeError('createJwks(): pass url or fetchKeys');
+  const cacheTtl = options.cacheTtl ?? DEFAULT_JWKS_CACHE_TTL;
+  const cooldown = options.cooldown ?? DEFAULT_JWKS_COOLDOWN;
+  validateDuration('cacheTtl', cacheTtl);
+  validateDuration('cooldown', cooldown);
+
+  let keys: readonly Jwk[] | undefined;
+  let fetchedAt = 0;
+  let attemptedAt = Number.NEGATIVE_INFINITY;
+  let inFlight: Promise<readonly Jwk[]> | undefined;
+
+  function refresh(): Promise<readonly Jwk[]> {
+    if (!inFlight) {
+      attemptedAt = Date.now();
+      inFlight = Promise.resolve()
+        .then(load)
+        .then(
+          (set) => {
+            keys = set.keys;
+            fetchedAt = Date.now();
+            return keys;
+          },
+          (error: unknown) => {
+            if (keys) return keys;
+            throw error;
+          }
+        )
+        .finally(() => {
+          inFlight = undefined;
+        });
+    }
+    return inFlight;
+  }
+
+  async function current(forceRefresh: boolean): Promise<readonly Jwk[]> {
+    const now = Date.now();
+    const stale = keys === undefined || now - fetchedAt >= cacheTtl;
+    if ((stale || forceRefresh) && (keys === undefined || now - attemptedAt >= cooldown)) {
+      return refresh();
+    }
+    return keys ?? refresh();
+  }
+
+  function select(set: readonly Jwk[], header: JwtHeader): Jwk | undefined {
+    const usable = set.filter((key) => jwkAllows(key, header.alg));
+    if (header.kid !== undefined) {
+      return usable.find((key) => key.kid === header.kid);
+    }
+    return usable.length === 1 ? usable[0] : undefined;
+  }
+
+  return async (header) => {
+    const found = select(await current(false), header);
+    if (found) return found;
+    // An unknown kid may be a freshly rotated key.
+    const retried = header.kid === undefined ? undefined : select(await current(true), header);
+    if (retried) return retried;
+    throw new JwtVerificationError('key_not_found', 'No key matches the token');
+  };
+}
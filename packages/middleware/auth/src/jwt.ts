@@ -0,0 +1,405 @@
+/**
+ * @nextrush/auth - JWT Verification
+ *
+ * JWS compact-serialization verification on Web Crypto alone, so the same
+ * code runs on Node, Bun, Deno and edge runtimes.
+ *
+ * @packageDocumentation
+ */
+
+import { JWT_ALGORITHMS } from './constants';
+import type {
+  JwtAlgorithm,
+  JwtErrorCode,
+  JwtHeader,
+  Jwk,
+  JwtKey,
+  VerifiedJwt,
+  VerifyJwtOptions,
+} from './types';
+
+/**
+ * Thrown by `verifyJwt()` for a token that must be refused. Its message is
+ * safe to send to the client; `code` says which check failed.
+ */
+export class JwtVerificationError extends Error {
+  readonly code: JwtErrorCode;
+
+  constructor(code: JwtErrorCode, message: string) {
+    super(message);
+    this.name = 'JwtVerificationError';
+    this.code = code;
+  }
+}
+
+/** The kind of key an algorithm needs — what a JWK's `kty` must be. */
+type KeyType = 'oct' | 'RSA' | 'EC' | 'OKP';
+
+type ImportParams = Parameters<typeof crypto.subtle.importKey>[2];
+type VerifyParams = Parameters<typeof crypto.subtle.verify>[0];
+type JwkKeyData = Extract<Parameters<typeof crypto.subtle.importKey>[1], { kty?: string }>;
+
+interface AlgorithmSpec {
+  readonly kty: KeyType;
+  /** `importKey` parameters. */
+  readonly importParams: ImportParams;
+  /** `verify` parameters. */
+  readonly verifyParams: VerifyParams;
+  /** Raw signature length, for algorithms where it is fixed. */
+  readonly signatureLength?: number;
+  /** Shortest HMAC secret accepted, in bytes (RFC 7518 §3.2). */
+  readonly minSecretBytes?: number;
+  /** The JWK `crv` the key must have. */
+  readonly curve?: string;
+  /** Other JWK `alg` values for the same algorithm (RFC 9864). */
+  readonly aliases?: readonly string[];
+}
+
+function hmac(bits: 256 | 384 | 512): AlgorithmSpec {
+  return {
+    kty: 'oct',
+    importParams: { name: 'HMAC', hash: `SHA-${String(bits)}` },
+    verifyParams: { name: 'HMAC' },
+    minSecretBytes: bits / 8,
+  };
+}
+
+function rsa(name: 'RSASSA-PKCS1-v1_5' | 'RSA-PSS', bits: 256 | 384 | 512): AlgorithmSpec {
+  const hash = `SHA-${String(bits)}`;
+  return {
+    kty: 'RSA',
+    importParams: { name, hash },
+    verifyParams: name === 'RSA-PSS' ? { name, saltLength: bits / 8 } : { name },
+  };
+}
+
+function ecdsa(curve: 'P-256' | 'P-384' | 'P-521', bits: 256 | 384 | 512): AlgorithmSpec {
+  // JWS ECDSA signatures are r || s, each the curve's size — the raw form Web Crypto verifies.
+  const coordinate = curve === 'P-521' ? 66 : bits / 8;
+  return {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: curve },
+    verifyParams: { name: 'ECDSA', hash: `SHA-${String(bits)}` },
+    signatureLength: coordinate * 2,
+    curve,
+  };
+}
+
+const SPECS: Readonly<Record<JwtAlgorithm, AlgorithmSpec>> = {
+  HS256: hmac(256),
+  HS384: hmac(384),
+  HS512: hmac(512),
+  RS256: rsa('RSASSA-PKCS1-v1_5', 256),
+  RS384: rsa('RSASSA-PKCS1-v1_5', 384),
+  RS512: rsa('RSASSA-PKCS1-v1_5', 512),
+  PS256: rsa('RSA-PSS', 256),
+  PS384: rsa('RSA-PSS', 384),
+  PS512: rsa('RSA-PSS', 512),
+  ES256: ecdsa('P-256', 256),
+  ES384: ecdsa('P-384', 384),
+  ES512: ecdsa('P-521', 512),
+  EdDSA: {
+    kty: 'OKP',
+    importParams: { name: 'Ed25519' },
+    verifyParams: { name: 'Ed25519' },
+    signatureLength: 64,
+    curve: 'Ed25519',
+    aliases: ['Ed25519'],
+  },
+};
+
+const PEM_PUBLIC_KEY = /^-----BEGIN PUBLIC KEY-----([A-Za-z0-9+/=\s]+)-----END PUBLIC KEY-----$/;
+const BASE64URL = /^[A-Za-z0-9_-]*$/;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+function isJwtAlgorithm(alg: unknown): alg is JwtAlgorithm {
+  return typeof alg === 'string' && Object.hasOwn(SPECS, alg);
+}
+
+function isCryptoKey(key: unknown): key is CryptoKey {
+  return typeof CryptoKey !== 'undefined' && key instanceof CryptoKey;
+}
+
+function decodeBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function decodeBase64Url(segment: string): Uint8Array<ArrayBuffer> {
+  if (!BASE64URL.test(segment) || segment.length % 4 === 1) {
+    throw new JwtVerificationError('malformed', 'Malformed token');
+  }
+  return decodeBase64(segment.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+function decodeJson(segment: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(decoder.decode(decodeBase64Url(segment)));
+  } catch {
+    throw new JwtVerificationError('malformed', 'Malformed token');
+  }
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new JwtVerificationError('malformed', 'Malformed token');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Check the `algorithms` allowlist, and — for a fixed key — that one key can
+ * serve every entry, so a token cannot pick an algorithm that reuses a public
+ * key as an HMAC secret.
+ *
+ * @throws {TypeError} On an empty or unknown algorithm list, or a fixed key
+ *   that does not fit it.
+ */
+export function assertVerifyOptions(options: VerifyJwtOptions, caller: string): void {
+  const { algorithms, key } = options;
+  const listed: unknown = algorithms;
+  if (!Array.isArray(listed) || listed.length === 0) {
+    throw new TypeError(`${caller}: algorithms must list at least one algorithm`);
+  }
+  for (const alg of algorithms) {
+    if (!isJwtAlgorithm(alg)) {
+      throw new TypeError(
+        `${caller}: unsupported algorithm ${JSON.stringify(alg)}; expected one of ${JWT_ALGORITHMS.join(', ')}`
+      );
+    }
+  }
+  if (typeof key === 'function') return;
+
+  const types = new Set(algorithms.map((alg) => SPECS[alg].kty));
+  if (types.size > 1) {
+    throw new TypeError(`${caller}: a fixed key cannot serve ${algorithms.join(', ')} together`);
+  }
+  const [alg] = algorithms as [JwtAlgorithm];
+  const spec = SPECS[alg];
+  if (spec.kty === 'oct') {
+    if (typeof key === 'string' && key.startsWith('-----BEGIN')) {
+      throw new TypeError(`${caller}: a PEM key cannot be used as an HMAC secret`);
+    }
+    const secret = typeof key === 'string' ? encoder.encode(key) : key;
+    const minimum = Math.max(...algorithms.map((a) => SPECS[a].minSecretBytes ?? 0));
+    if (secret instanceof Uint8Array && secret.byteLength < minimum) {
+      throw new TypeError(
+        `${caller}: the HMAC secret must be at least ${String(minimum)} bytes for ${algorithms.join(', ')}`
+      );
+    }
+  } else if (typeof key === 'string' && !PEM_PUBLIC_KEY.test(key.trim())) {
+    throw new TypeError(`${caller}: ${alg} needs a PEM public key, a JWK or a CryptoKey`);
+  } else if (key instanceof Uint8Array) {
+    throw new TypeError(`${caller}: ${alg} needs a PEM public key, a JWK or a CryptoKey`);
+  }
+}
+
+/** Whether a JWK's own `alg` and `use`, when it states them, allow verifying `alg` tokens. */
+export function jwkAllows(key: Jwk, alg: string): boolean {
+  if (key.use !== undefined && key.use !== 'sig') return false;
+  if (key.alg === undefined || key.alg === alg) return true;
+  return isJwtAlgorithm(alg) && (SPECS[alg].aliases?.includes(key.alg) ?? false);
+}
+
+/**
+ * Imported keys, per key and algorithm. Object keys (JWKs from a cached
+ * key set, byte secrets) are held weakly; string keys in a small bounded map.
+ */
+const objectKeys = new WeakMap<object, Map<JwtAlgorithm, Promise<CryptoKey>>>();
+const stringKeys = new Map<string, Map<JwtAlgorithm, Promise<CryptoKey>>>();
+const MAX_STRING_KEYS = 64;
+
+function keyNotFound(): JwtVerificationError {
+  return new JwtVerificationError('key_not_found', 'No key matches the token');
+}
+
+async function importFor(alg: JwtAlgorithm, key: Exclude<JwtKey, CryptoKey>): Promise<CryptoKey> {
+  const spec = SPECS[alg];
+  if (typeof key === 'string') {
+    const pem = PEM_PUBLIC_KEY.exec(key.trim());
+    if (spec.kty === 'oct') {
+      if (pem) throw keyNotFound();
+      return crypto.subtle.importKey('raw', encoder.encode(key), spec.importParams, false, [
+        'verify',
+      ]);
+    }
+    if (!pem) throw keyNotFound();
+    const der = decodeBase64((pem[1] ?? '').replace(/\s/g, ''));
+    return crypto.subtle.importKey('spki', der, spec.importParams, false, ['verify']);
+  }
+  if (key instanceof Uint8Array) {
+    if (spec.kty !== 'oct') throw keyNotFound();
+    return crypto.subtle.importKey('raw', new Uint8Array(key), spec.importParams, false, [
+      'verify',
+    ]);
+  }
+  if (
+    key.kty !== spec.kty ||
+    !jwkAllows(key, alg) ||
+    (spec.curve !== undefined && key.crv !== spec.curve)
+  ) {
+    throw keyNotFound();
+  }
+  return crypto.subtle.importKey('jwk', key as JwkKeyData, spec.importParams, false, ['verify']);
+}
+
+function cachedImport(alg: JwtAlgorithm, key: Exclude<JwtKey, CryptoKey>): Promise<CryptoKey> {
+  let perAlg: Map<JwtAlgorithm, Promise<CryptoKey>> | undefined;
+  if (typeof key === 'string') {
+    perAlg = stringKeys.get(key);
+    if (!perAlg) {
+      if (stringKeys.size >= MAX_STRING_KEYS) {
+        const oldest = stringKeys.keys().next();
+        if (!oldest.done) stringKeys.delete(oldest.value);
+      }
+      perAlg = new Map();
+      stringKeys.set(key, perAlg);
+    }
+  } else {
+    perAlg = objectKeys.get(key);
+    if (!perAlg) {
+      perAlg = new Map();
+      objectKeys.set(key, perAlg);
+    }
+  }
+
+  let imported = perAlg.get(alg);
+  if (!imported) {
+    imported = importFor(alg, key);
+    perAlg.set(alg, imported);
+    // A key that failed to import is not remembered — the failure may be the token's alg.
+    const entry = perAlg;
+    void imported.catch(() => entry.delete(alg));
+  }
+  return imported;
+}
+
+async function toCryptoKey(alg: JwtAlgorithm, key: JwtKey): Promise<CryptoKey> {
+  if (!isCryptoKey(key)) {
+    try {
+      return await cachedImport(alg, key);
+    } catch (error) {
+      if (error instanceof JwtVerificationError) throw error;
+      throw keyNotFound();
+    }
+  }
+  const params = SPECS[alg].importParams as { name: string; namedCurve?: string };
+  const algorithm = key.algorithm as { name: string; namedCurve?: string };
+  if (algorithm.name !== params.name || algorithm.namedCurve !== params.namedCurve) {
+    throw keyNotFound();
+  }
+  return key;
+}
+
+function oneOf(value: unknown, accepted: string | readonly string[]): boolean {
+  const list = typeof accepted === 'string' ? [accepted] : accepted;
+  const values: readonly unknown[] = Array.isArray(value) ? value : [value];
+  return values.some((v) => typeof v === 'string' && list.includes(v));
+}
+
+function numericClaim(payload: Record<string, unknown>, claim: string): number | undefined {
+  const value = payload[claim];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new JwtVerificationError('malformed', `Malformed "${claim}" claim`);
+  }
+  return value;
+}
+
+function checkClaims(payload: Record<string, unknown>, options: VerifyJwtOptions): void {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 0;
+
+  const exp = numericClaim(payload, 'exp');
+  if (exp !== undefined && now >= exp + tolerance) {
+    throw new JwtVerificationError('expired', 'Token has expired');
+  }
+  const nbf = numericClaim(payload, 'nbf');
+  if (nbf !== undefined && now + tolerance < nbf) {
+    throw new JwtVerificationError('not_yet_valid', 'Token is not yet valid');
+  }
+  const iat = numericClaim(payload, 'iat');
+  if (options.maxAge !== undefined) {
+    if (iat === undefined) {
+      throw new JwtVerificationError('missing_claim', 'Token has no "iat" claim');
+    }
+    if (now - iat > options.maxAge + tolerance) {
+      throw new JwtVerificationError('expired', 'Token is too old');
+    }
+  }
+  if (options.issuer !== undefined && !oneOf(payload.iss, options.issuer)) {
+    throw new JwtVerificationError('invalid_issuer', 'Token issuer is not accepted');
+  }
+  if (options.audience !== undefined && !oneOf(payload.aud, options.audience)) {
+    throw new JwtVerificationError('invalid_audience', 'Token audience is not accepted');
+  }
+}
+
+/**
+ * Verify a compact JWS-signed JWT and return its header and claims.
+ *
+ * The signature is checked with Web Crypto against `options.key` — or the
+ * key a resolver such as `createJwks()` picks for the header — using only an
+ * algorithm from `options.algorithms`. Then `exp`, `nbf`, `maxAge`, `iss`
+ * and `aud` are checked. Tokens with a `crit` header are refused: none of
+ * its extensions are understood.
+ *
+ * @example
+ * ```typescript
+ * const { payload } = await verifyJwt(token, {
+ *   key: process.env.JWT_SECRET!,
+ *   algorithms: ['HS256'],
+ *   issuer: 'https://auth.example.com',
+ * });
+ * ```
+ *
+ * @throws {JwtVerificationError} When the token must be refused.
+ * @throws {TypeError} When the options are invalid.
+ */
+export async function verifyJwt(token: string, options: VerifyJwtOptions): Promise<VerifiedJwt> {
+  assertVerifyOptions(options, 'verifyJwt');
+  return verifyWith(token, options);
+}
+
+/** `verifyJwt()` without the option checks, for callers that did them once up front. */
+export async function verifyWith(token: string, options: VerifyJwtOptions): Promise<VerifiedJwt> {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new JwtVerificationError('malformed', 'Malformed token');
+  const [headerPart, payloadPart, signaturePart] = parts as [string, string, string];
+
+  const header = decodeJson(headerPart);
+  const payload = decodeJson(payloadPart);
+  const signature = decodeBase64Url(signaturePart);
+
+  const alg = header.alg;
+  if (!isJwtAlgorithm(alg) || !options.algorithms.includes(alg)) {
+    throw new JwtVerificationError('unsupported_algorithm', 'Token algorithm is not accepted');
+  }
+  if (header.crit !== undefined) {
+    throw new JwtVerificationError('malformed', 'Token has unsupported critical headers');
+  }
+  if (header.kid !== undefined && typeof header.kid !== 'string') {
+    throw new JwtVerificationError('malformed', 'Malformed token');
+  }
+
+  const spec = SPECS[alg];
+  const verifiedHeader = header as unknown as JwtHeader;
+  const material =
+    typeof options.key === 'function' ? await options.key(verifiedHeader) : options.key;
+  const key = await toCryptoKey(alg, material);
+
+  const valid =
+    (spec.signatureLength === undefined || signature.byteLength === spec.signatureLength) &&
+    (await crypto.subtle.verify(
+      spec.verifyParams,
+      key,
+      signature,
+      encoder.encode(`${headerPart}.${payloadPart}`)
+    ));
+  if (!valid) throw new JwtVerificationError('invalid_signature', 'Invalid token signature');
+
+  checkClaims(payload, options);
+  return { header: verifiedHeader, payload };
+}
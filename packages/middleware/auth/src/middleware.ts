@@ -0,0 +1,224 @@
+/**
+ * @nextrush/auth - Middleware and Guards
+ *
+ * `authenticate()` and `requireRoles()` for functional routes; `authGuard()`
+ * and `rolesGuard()` for `@UseGuard()` — the same checks, run from a guard
+ * context. Both authentication forms contribute `RouteMetadata.security`.
+ *
+ * @packageDocumentation
+ */
+
+import { ForbiddenError, UnauthorizedError } from '@nextrush/errors';
+import { ROUTE_METADATA, type MetadataContribution, type RouteSecurity } from '@nextrush/types';
+import type {
+  AuthenticateOptions,
+  AuthGuardContext,
+  AuthState,
+  AuthStrategy,
+  Context,
+  Middleware,
+  Principal,
+} from './types';
+
+function toList(
+  strategies: AuthStrategy | readonly AuthStrategy[],
+  caller: string
+): readonly AuthStrategy[] {
+  const list = Array.isArray(strategies)
+    ? (strategies as readonly AuthStrategy[])
+    : [strategies as AuthStrategy];
+  if (list.length === 0) throw new TypeError(`${caller}: pass at least one strategy`);
+  const names = new Set(list.map((s) => s.name));
+  if (names.size !== list.length) {
+    throw new TypeError(`${caller}: strategy names must be unique`);
+  }
+  return list;
+}
+
+function securityOf(
+  strategies: readonly AuthStrategy[],
+  options: AuthenticateOptions
+): MetadataContribution {
+  const security: RouteSecurity = {
+    schemes: strategies.map(({ name, scheme }) => ({ name, scheme })),
+    ...(options.optional === true && { optional: true }),
+  };
+  return { security };
+}
+
+/**
+ * Run the strategies in order against a request; the first one that finds
+ * its credentials decides. Sets `state.principal`, or sets the challenge and
+ * throws.
+ */
+async function resolvePrincipal(
+  strategies: readonly AuthStrategy[],
+  optional: boolean,
+  request: AuthGuardContext
+): Promise<void> {
+  for (const strategy of strategies) {
+    const result = await strategy.authenticate(request);
+    if (result === undefined) continue;
+    if (result.ok) {
+      (request.state as AuthState).principal = result.principal;
+      return;
+    }
+    if (strategy.challenge !== undefined) {
+      // RFC 6750 §3.1: a refused bearer token is reported as invalid_token.
+      const bearer = strategy.scheme.type === 'http' && strategy.scheme.scheme === 'bearer';
+      request.set(
+        'WWW-Authenticate',
+        bearer ? `${strategy.challenge}, error="invalid_token"` : strategy.challenge
+      );
+    }
+    throw new UnauthorizedError(result.reason);
+  }
+
+  if (optional) return;
+  const challenges = strategies.flatMap((s) => (s.challenge === undefined ? [] : [s.challenge]));
+  if (challenges.length > 0) request.set('WWW-Authenticate', challenges.join(', '));
+  throw new UnauthorizedError('Authentication required');
+}
+
+function checkRoles(state: Record<string, unknown>, roles: readonly string[]): void {
+  const { principal } = state as AuthState;
+  if (!principal) throw new UnauthorizedError('Authentication required');
+  if (!roles.some((role) => principal.roles?.includes(role))) {
+    throw new ForbiddenError('Insufficient role');
+  }
+}
+
+function assertRoles(roles: readonly string[], caller: string): void {
+  if (roles.length === 0) throw new TypeError(`${caller}: pass at least one role`);
+}
+
+/**
+ * Authenticate every request through one or more strategies and store the
+ * principal in `ctx.state.principal`.
+ *
+ * The strategies are tried in order, and the first one whose credentials the
+ * request carries decides: a principal, or a 401 `UnauthorizedError`. A
+ * request with no credentials at all is a 401 too, unless `optional` is set.
+ * Every 401 carries the strategies' `WWW-Authenticate` challenges.
+ *
+ * The strategies are also contributed as `RouteMetadata.security`, so
+ * `@nextrush/openapi` documents them.
+ *
+ * @example
+ * ```typescript
+ * const jwt = jwtStrategy({ key: process.env.JWT_SECRET!, algorithms: ['HS256'] });
+ *
+ * router.get('/me', authenticate(jwt), (ctx) => {
+ *   ctx.json(getPrincipal(ctx));
+ * });
+ * ```
+ *
+ * @throws {TypeError} When no strategy is given, or two share a name.
+ */
+export function authenticate(
+  strategies: AuthStrategy | readonly AuthStrategy[],
+  options: AuthenticateOptions = {}
+): Middleware {
+  const list = toList(strategies, 'authenticate()');
+  const optional = options.optional ?? false;
+
+  const middleware: Middleware = async (ctx, next) => {
+    await resolvePrincipal(list, optional, ctx);
+    await next();
+  };
+
+  Object.defineProperty(middleware, ROUTE_METADATA, {
+    value: securityOf(list, options),
+    enumerable: false,
+  });
+
+  return middleware;
+}
+
+/**
+ * Let a request through only if its principal has at least one of `roles`.
+ * Runs after `authenticate()`: no principal is a 401, a principal without
+ * the role a 403.
+ *
+ * @example
+ * ```typescript
+ * router.delete('/users/:id', authenticate(jwt), requireRoles('admin'), removeUser);
+ * ```
+ *
+ * @throws {TypeError} When no role is given.
+ */
+export function requireRoles(...roles: string[]): Middleware {
+  assertRoles(roles, 'requireRoles()');
+  return async (ctx, next) => {
+    checkRoles(ctx.state, roles);
+    await next();
+  };
+}
+
+/**
+ * `authenticate()` as a class guard, for `@UseGuard()` — `@Authenticated()`
+ * in `@nextrush/class` is built on it. Resolves `true` or throws; it never
+ * rejects by returning `false`, so the 401 keeps its challenge.
+ *
+ * @example
+ * ```typescript
+ * @UseGuard(authGuard(jwt))
+ * @Controller('/me')
+ * class MeController {}
+ * ```
+ *
+ * @throws {TypeError} When no strategy is given, or two share a name.
+ */
+export function authGuard(
+  strategies: AuthStrategy | readonly AuthStrategy[],
+  options: AuthenticateOptions = {}
+): (ctx: AuthGuardContext) => Promise<boolean> {
+  const list = toList(strategies, 'authGuard()');
+  const optional = options.optional ?? false;
+
+  const guard = async (ctx: AuthGuardContext): Promise<boolean> => {
+    await resolvePrincipal(list, optional, ctx);
+    return true;
+  };
+
+  Object.defineProperty(guard, ROUTE_METADATA, {
+    value: securityOf(list, options),
+    enumerable: false,
+  });
+
+  return guard;
+}
+
+/**
+ * `requireRoles()` as a class guard, for `@UseGuard()`. It must run after the
+ * guard that authenticates.
+ *
+ * @throws {TypeError} When no role is given.
+ */
+export function rolesGuard(
+  ...roles: string[]
+): (ctx: { readonly state: Record<string, unknown> }) => boolean {
+  assertRoles(roles, 'rolesGuard()');
+  return (ctx) => {
+    checkRoles(ctx.state, roles);
+    return true;
+  };
+}
+
+/**
+ * The request's principal, typed.
+ *
+ * @example
+ * ```typescript
+ * const user = getPrincipal<JwtPrincipal>(ctx);
+ * ctx.json({ id: user.id, email: user.claims.email });
+ * ```
+ *
+ * @throws {UnauthorizedError} When the request was not authenticated.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters -- P is the caller's principal type
+export function getPrincipal<P extends Principal = Principal>(ctx: Context): P {
+  const { principal } = ctx.state as AuthState<P>;
+  if (!principal) throw new UnauthorizedError('Authentication required');
+  return principal;
+}
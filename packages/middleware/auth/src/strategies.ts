@@ -0,0 +1,213 @@
+/**
+ * @nextrush/auth - Strategies
+ *
+ * Each strategy reads one kind of credential and turns it into a principal.
+ * None of them touches the response; `authenticate()` and `authGuard()` do.
+ *
+ * @packageDocumentation
+ */
+
+import { DEFAULT_API_KEY_HEADER, DEFAULT_BASIC_REALM } from './constants';
+import { assertVerifyOptions, JwtVerificationError, verifyWith } from './jwt';
+import type {
+  ApiKeyStrategyOptions,
+  AuthResult,
+  AuthStrategy,
+  BasicStrategyOptions,
+  BearerStrategyOptions,
+  CredentialSource,
+  JwtPayload,
+  JwtPrincipal,
+  JwtStrategyOptions,
+  Principal,
+} from './types';
+
+const REFUSED = { ok: false, reason: 'Invalid credentials' } as const;
+
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/** The credentials after an `Authorization: <scheme> ` prefix, if the header uses that scheme. */
+function authorization(source: CredentialSource, scheme: string): string | undefined {
+  const header = source.get('authorization')?.trim();
+  if (!header) return undefined;
+  const space = header.indexOf(' ');
+  if (space === -1 || header.slice(0, space).toLowerCase() !== scheme) return undefined;
+  return header.slice(space + 1).trim();
+}
+
+/** A quoted-string parameter for a `WWW-Authenticate` challenge. */
+function quoted(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function bearerChallenge(realm: string | undefined): string {
+  return realm === undefined ? 'Bearer' : `Bearer realm=${quoted(realm)}`;
+}
+
+function accept<P extends Principal>(principal: P | undefined | null): AuthResult<P> {
+  return principal ? { ok: true, principal } : REFUSED;
+}
+
+/** `sub` as `id`, a string-array `roles` claim as `roles`, and every claim. */
+function defaultPrincipal(payload: JwtPayload): JwtPrincipal | undefined {
+  if (typeof payload.sub !== 'string') return undefined;
+  const roles = Array.isArray(payload.roles)
+    ? (payload.roles as unknown[]).filter((role): role is string => typeof role === 'string')
+    : undefined;
+  return { id: payload.sub, roles, claims: payload };
+}
+
+/**
+ * Strategy for JWTs in `Authorization: Bearer <token>`, verified with
+ * `verifyJwt()`.
+ *
+ * A token that fails verification is refused with the verification error's
+ * message. A failure to get a key — an unreachable JWKS endpoint — is thrown,
+ * not reported as bad credentials.
+ *
+ * @example
+ * ```typescript
+ * const jwt = jwtStrategy({ key: process.env.JWT_SECRET!, algorithms: ['HS256'] });
+ * app.use(authenticate(jwt));
+ * ```
+ *
+ * @throws {TypeError} When the verification options are invalid.
+ */
+export function jwtStrategy<P extends Principal = JwtPrincipal>(
+  options: JwtStrategyOptions<P>
+): AuthStrategy<P> {
+  assertVerifyOptions(options, 'jwtStrategy()');
+  const toPrincipal =
+    options.principal ?? (defaultPrincipal as unknown as NonNullable<typeof options.principal>);
+
+  return {
+    name: options.name ?? 'jwtAuth',
+    scheme: {
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+      ...(options.description !== undefined && { description: options.description }),
+    },
+    challenge: bearerChallenge(options.realm),
+    async authenticate(source) {
+      const token = authorization(source, 'bearer');
+      if (token === undefined) return undefined;
+      try {
+        const { header, payload } = await verifyWith(token, options);
+        return accept(await toPrincipal(payload, header));
+      } catch (error) {
+        if (error instanceof JwtVerificationError) return { ok: false, reason: error.message };
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Strategy for opaque tokens in `Authorization: Bearer <token>` — session
+ * tokens, personal access tokens — resolved by `validate`.
+ *
+ * @example
+ * ```typescript
+ * const tokens = bearerStrategy({ validate: (token) => db.tokens.findOwner(token) });
+ * ```
+ */
+export function bearerStrategy<P extends Principal = Principal>(
+  options: BearerStrategyOptions<P>
+): AuthStrategy<P> {
+  return {
+    name: options.name ?? 'bearerAuth',
+    scheme: {
+      type: 'http',
+      scheme: 'bearer',
+      ...(options.description !== undefined && { description: options.description }),
+    },
+    challenge: bearerChallenge(options.realm),
+    async authenticate(source) {
+      const token = authorization(source, 'bearer');
+      if (token === undefined) return undefined;
+      return accept(await options.validate(token));
+    },
+  };
+}
+
+/**
+ * Strategy for an API key in a header (`x-api-key` by default) or a query
+ * parameter. API keys have no standard `WWW-Authenticate` challenge, so none
+ * is sent for this strategy.
+ *
+ * @example
+ * ```typescript
+ * const keys = apiKeyStrategy({ validate: (key) => clients.byKey(key) });
+ * ```
+ *
+ * @throws {TypeError} When both `header` and `query` are given.
+ */
+export function apiKeyStrategy<P extends Principal = Principal>(
+  options: ApiKeyStrategyOptions<P>
+): AuthStrategy<P> {
+  if (options.header !== undefined && options.query !== undefined) {
+    throw new TypeError('apiKeyStrategy(): pass header or query, not both');
+  }
+  const location = options.query === undefined ? 'header' : 'query';
+  const field = options.query ?? options.header ?? DEFAULT_API_KEY_HEADER;
+
+  return {
+    name: options.name ?? 'apiKeyAuth',
+    scheme: {
+      type: 'apiKey',
+      in: location,
+      name: field,
+      ...(options.description !== undefined && { description: options.description }),
+    },
+    async authenticate(source) {
+      const raw = location === 'query' ? source.query[field] : source.get(field);
+      // A repeated query parameter is ambiguous; treat it as no key rather than pick one.
+      const key = typeof raw === 'string' ? raw.trim() : undefined;
+      if (!key) return undefined;
+      return accept(await options.validate(key));
+    },
+  };
+}
+
+/**
+ * Strategy for HTTP Basic authentication (RFC 7617), with UTF-8 credentials.
+ * Only use it over HTTPS: the password travels with every request.
+ *
+ * @example
+ * ```typescript
+ * const admin = basicStrategy({
+ *   realm: 'Admin',
+ *   validate: (user, password) => (checkPassword(user, password) ? { id: user } : undefined),
+ * });
+ * ```
+ */
+export function basicStrategy<P extends Principal = Principal>(
+  options: BasicStrategyOptions<P>
+): AuthStrategy<P> {
+  const realm = options.realm ?? DEFAULT_BASIC_REALM;
+
+  return {
+    name: options.name ?? 'basicAuth',
+    scheme: {
+      type: 'http',
+      scheme: 'basic',
+      ...(options.description !== undefined && { description: options.description }),
+    },
+    challenge: `Basic realm=${quoted(realm)}, charset="UTF-8"`,
+    async authenticate(source) {
+      const encoded = authorization(source, 'basic');
+      if (encoded === undefined) return undefined;
+
+      let decoded: string;
+      try {
+        decoded = decoder.decode(Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0)));
+      } catch {
+        return REFUSED;
+      }
+      const colon = decoded.indexOf(':');
+      if (colon === -1) return REFUSED;
+      return accept(await options.validate(decoded.slice(0, colon), decoded.slice(colon + 1)));
+    },
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * @nextrush/auth - Type Definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { Context, Middleware, QueryParams, SecurityScheme } from '@nextrush/types';
+
+export type { Context, Middleware };
+
+// ============================================================================
+// Principal
+// ============================================================================
+
+/** The authenticated caller, as stored in `ctx.state.principal`. */
+export interface Principal {
+  /** Stable identifier — a user ID, a client ID, an API key's owner. */
+  readonly id: string;
+
+  /** Roles checked by `requireRoles()`, `rolesGuard()` and `@Roles()`. */
+  readonly roles?: readonly string[];
+}
+
+/** The principal `jwtStrategy()` builds when no `principal` mapper is given. */
+export interface JwtPrincipal extends Principal {
+  /** Every claim of the verified token. */
+  readonly claims: JwtPayload;
+}
+
+/**
+ * The slice of `ctx.state` this package writes. Cast `ctx.state` to it, or
+ * use `getPrincipal()`.
+ *
+ * @example
+ * ```typescript
+ * const { principal } = ctx.state as AuthState<User>;
+ * ```
+ */
+export interface AuthState<P extends Principal = Principal> {
+  principal?: P;
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+/**
+ * What a strategy may read credentials from. Both a `Context` and a class
+ * `GuardContext` satisfy it.
+ */
+export interface CredentialSource {
+  get(name: string): string | undefined;
+  readonly query: QueryParams;
+}
+
+/** What a guard built by `authGuard()` needs from its context. */
+export interface AuthGuardContext extends CredentialSource {
+  readonly state: Record<string, unknown>;
+  set(name: string, value: string): void;
+}
+
+/**
+ * A strategy's verdict on a request that presented its credentials:
+ * a principal, or a client-safe reason the credentials were refused.
+ */
+export type AuthResult<P extends Principal = Principal> =
+  { readonly ok: true; readonly principal: P } | { readonly ok: false; readonly reason: string };
+
+/**
+ * One way of authenticating a request.
+ *
+ * `authenticate()` returns `undefined` when the request carries no
+ * credentials of this kind, so the next strategy can try. It throws only for
+ * failures that are not the caller's fault — an unreachable JWKS endpoint.
+ */
+export interface AuthStrategy<P extends Principal = Principal> {
+  /** Name of the security scheme in the OpenAPI document. */
+  readonly name: string;
+
+  /** The OpenAPI security scheme this strategy implements. */
+  readonly scheme: SecurityScheme;
+
+  /** `WWW-Authenticate` challenge sent with a 401, if the scheme has one. */
+  readonly challenge?: string;
+
+  authenticate(source: CredentialSource): Promise<AuthResult<P> | undefined>;
+}
+
+/** Options for {@link authenticate} and {@link authGuard}. */
+export interface AuthenticateOptions {
+  /**
+   * Let requests without credentials through with no principal. Credentials
+   * that are presented and refused are still a 401.
+   *
+   * @default false
+   */
+  readonly optional?: boolean;
+}
+
+/** Resolve a presented credential to a principal, or `undefined` to refuse it. */
+export type CredentialValidator<P extends Principal, A extends unknown[]> = (
+  ...credentials: A
+) => P | undefined | null | Promise<P | undefined | null>;
+
+/** Options for {@link bearerStrategy}: opaque bearer tokens. */
+export interface BearerStrategyOptions<P extends Principal = Principal> {
+  /** Look the token up. Compare secrets in constant time. */
+  readonly validate: CredentialValidator<P, [token: string]>;
+
+  /** @default 'bearerAuth' */
+  readonly name?: string;
+
+  /** Realm announced in the `WWW-Authenticate` challenge. */
+  readonly realm?: string;
+
+  readonly description?: string;
+}
+
+/** Options for {@link apiKeyStrategy}. Set `header` or `query`, not both. */
+export interface ApiKeyStrategyOptions<P extends Principal = Principal> {
+  /** Look the key up. Compare secrets in constant time. */
+  readonly validate: CredentialValidator<P, [key: string]>;
+
+  /**
+   * Request header carrying the key.
+   *
+   * @default 'x-api-key'
+   */
+  readonly header?: string;
+
+  /** Query parameter carrying the key, instead of a header. */
+  readonly query?: string;
+
+  /** @default 'apiKeyAuth' */
+  readonly name?: string;
+
+  readonly description?: string;
+}
+
+/** Options for {@link basicStrategy}. */
+export interface BasicStrategyOptions<P extends Principal = Principal> {
+  /** Check the user name and password. Compare secrets in constant time. */
+  readonly validate: CredentialValidator<P, [username: string, password: string]>;
+
+  /**
+   * Realm announced in the `WWW-Authenticate` challenge.
+   *
+   * @default 'Restricted'
+   */
+  readonly realm?: string;
+
+  /** @default 'basicAuth' */
+  readonly name?: string;
+
+  readonly description?: string;
+}
+
+/** Options for {@link jwtStrategy}. */
+export interface JwtStrategyOptions<P extends Principal = JwtPrincipal> extends VerifyJwtOptions {
+  /**
+   * Build the principal from a verified token; return `undefined` to refuse
+   * it. By default `sub` becomes `id` and a `roles` array claim `roles`.
+   */
+  readonly principal?: (
+    payload: JwtPayload,
+    header: JwtHeader
+  ) => P | undefined | null | Promise<P | undefined | null>;
+
+  /** @default 'jwtAuth' */
+  readonly name?: string;
+
+  /** Realm announced in the `WWW-Authenticate` challenge. */
+  readonly realm?: string;
+
+  readonly description?: string;
+}
+
+// ============================================================================
+// JWT
+// ============================================================================
+
+/** A JWS algorithm `verifyJwt()` can check. */
+export type JwtAlgorithm =
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'PS256'
+  | 'PS384'
+  | 'PS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+  | 'EdDSA';
+
+/** A decoded JOSE header. */
+export interface JwtHeader {
+  readonly alg: string;
+  readonly kid?: string;
+  readonly typ?: string;
+  readonly [parameter: string]: unknown;
+}
+
+/** A decoded claims set. */
+export interface JwtPayload {
+  readonly iss?: string;
+  readonly sub?: string;
+  readonly aud?: string | readonly string[];
+  readonly exp?: number;
+  readonly nbf?: number;
+  readonly iat?: number;
+  readonly jti?: string;
+  readonly [claim: string]: unknown;
+}
+
+/** A token that passed `verifyJwt()`. */
+export interface VerifiedJwt {
+  readonly header: JwtHeader;
+  readonly payload: JwtPayload;
+}
+
+/** A JSON Web Key (RFC 7517) — the members verification reads, and any others. */
+export interface Jwk {
+  readonly kty: string;
+  readonly kid?: string;
+  readonly alg?: string;
+  readonly use?: string;
+  readonly crv?: string;
+  readonly [member: string]: unknown;
+}
+
+/**
+ * Key material for verification:
+ * - a `string` or `Uint8Array` secret (HS algorithms only, at least as long as the hash)
+ * - a PEM `-----BEGIN PUBLIC KEY-----` string (RS, PS, ES, EdDSA)
+ * - a JWK or a `CryptoKey`
+ */
+export type JwtKey = string | Uint8Array | Jwk | CryptoKey;
+
+/** Pick the key for a token from its header — `createJwks()` returns one. */
+export type JwtKeyResolver = (header: JwtHeader) => Promise<JwtKey> | JwtKey;
+
+/** Why `verifyJwt()` refused a token — `JwtVerificationError.code`. */
+export type JwtErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'key_not_found'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'missing_claim';
+
+/** Options for {@link verifyJwt}. */
+export interface VerifyJwtOptions {
+  /** The verification key, or a resolver such as `createJwks()`. */
+  readonly key: JwtKey | JwtKeyResolver;
+
+  /**
+   * Algorithms to accept. Required: the token's own `alg` header is only
+   * trusted when it is on this list. With a fixed `key`, every entry must
+   * use the same kind of key.
+   */
+  readonly algorithms: readonly JwtAlgorithm[];
+
+  /** Accepted `iss` value or values. */
+  readonly issuer?: string | readonly string[];
+
+  /** Accepted `aud` value or values; the token must name at least one. */
+  readonly audience?: string | readonly string[];
+
+  /**
+   * Leeway for `exp`, `nbf` and `maxAge`, in seconds.
+   *
+   * @default 0
+   */
+  readonly clockTolerance?: number;
+
+  /** Refuse tokens issued (`iat`) longer ago than this, in seconds. */
+  readonly maxAge?: number;
+}
+
+/** A JSON Web Key Set document. */
+export interface JsonWebKeySet {
+  readonly keys: readonly Jwk[];
+}
+
+/** Options for {@link createJwks}. Set `url` or `fetchKeys`. */
+export interface JwksOptions {
+  /** The `jwks_uri` to fetch with the global `fetch`. */
+  readonly url?: string;
+
+  /** Load the key set some other way — a custom client, a file, a test fixture. */
+  readonly fetchKeys?: () => Promise<JsonWebKeySet>;
+
+  /**
+   * How long a fetched key set is used before it is refreshed, in milliseconds.
+   *
+   * @default 600000 (10 minutes)
+   */
+  readonly cacheTtl?: number;
+
+  /**
+   * Shortest gap between fetches, in milliseconds — bounds the refetches a
+   * stream of tokens with unknown `kid`s can cause.
+   *
+   * @default 30000 (30 seconds)
+   */
+  readonly cooldown?: number;
+}
@@ -0,0 +1,158 @@
+/**
+ * @nextrush/body-parser — Content-Encoding inflation.
+ *
+ * With `inflate: true`, gzip/deflate/br bodies are decompressed before parsing,
+ * the limit applies to the decompressed size, and codings that cannot be
+ * undone answer 415 before the body is read.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { bodyParser } from '../parsers/combined.js';
+import { json } from '../parsers/json.js';
+import { text } from '../parsers/text.js';
+import type { BodyParserContext } from '../types.js';
+import { getContentEncoding } from '../utils/content-type.js';
+
+/** Compress `input` with each format in turn, as a client stacking codings would. */
+async function compress(input: string, ...formats: CompressionFormat[]): Promise<Uint8Array> {
+  let bytes: Uint8Array = new TextEncoder().encode(input);
+  for (const format of formats) {
+    const stream = new Blob([bytes as Uint8Array<ArrayBuffer>])
+      .stream()
+      .pipeThrough(new CompressionStream(format));
+    bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+  return bytes;
+}
+
+function makeCtx(
+  bytes: Uint8Array,
+  contentEncoding: string | string[] | undefined,
+  contentType = 'application/json'
+): { ctx: BodyParserContext; read: ReturnType<typeof vi.fn> } {
+  const headers: Record<string, string | string[]> = { 'content-type': contentType };
+  if (contentEncoding !== undefined) headers['content-encoding'] = contentEncoding;
+  const read = vi.fn(async () => bytes);
+
+  const ctx: BodyParserContext = {
+    method: 'POST',
+    path: '/',
+    headers,
+    bodySource: {
+      text: async () => new TextDecoder().decode(bytes),
+      buffer: read,
+      json: async () => JSON.parse(new TextDecoder().decode(bytes)),
+      get consumed() {
+        return read.mock.calls.length > 0;
+      },
+      get contentLength() {
+        return bytes.byteLength;
+      },
+      get contentType() {
+        return contentType;
+      },
+    },
+  };
+  return { ctx, read };
+}
+
+const next = () => vi.fn().mockResolvedValue(undefined);
+
+describe('inflate option', () => {
+  it('parses a gzip-encoded JSON body', async () => {
+    const { ctx } = makeCtx(await compress('{"sdk":"mobile"}', 'gzip'), 'gzip');
+
+    await json({ inflate: true })(ctx, next());
+
+    expect(ctx.body).toEqual({ sdk: 'mobile' });
+  });
+
+  it('undoes stacked codings in reverse order', async () => {
+    const { ctx } = makeCtx(
+      await compress('layered', 'deflate', 'gzip'),
+      'deflate, gzip',
+      'text/plain'
+    );
+
+    await text({ inflate: true })(ctx, next());
+
+    expect(ctx.body).toBe('layered');
+  });
+
+  it('undoes codings spread over repeated headers', async () => {
+    const { ctx } = makeCtx(
+      await compress('{"twice":true}', 'gzip', 'deflate'),
+      ['gzip', 'deflate'],
+      'application/json'
+    );
+
+    await json({ inflate: true })(ctx, next());
+
+    expect(ctx.body).toEqual({ twice: true });
+  });
+
+  it('keeps the decompressed bytes as rawBody', async () => {
+    const { ctx } = makeCtx(await compress('{"a":1}', 'deflate'), 'deflate');
+
+    await json({ inflate: true, rawBody: true })(ctx, next());
+
+    expect(new TextDecoder().decode(ctx.rawBody as Uint8Array)).toBe('{"a":1}');
+  });
+
+  it('reaches the parsers through bodyParser()', async () => {
+    const { ctx } = makeCtx(await compress('{"ok":true}', 'gzip'), 'x-gzip');
+
+    await bodyParser({ json: { inflate: true } })(ctx, next());
+
+    expect(ctx.body).toEqual({ ok: true });
+  });
+
+  it('leaves encoded bodies alone when off', async () => {
+    const { ctx } = makeCtx(await compress('{"a":1}', 'gzip'), 'gzip');
+
+    await expect(json()(ctx, next())).rejects.toMatchObject({ status: 400, code: 'INVALID_JSON' });
+  });
+
+  it('enforces the limit on the decompressed size', async () => {
+    const bomb = await compress(`"${'0'.repeat(1024 * 1024)}"`, 'gzip');
+    const { ctx } = makeCtx(bomb, 'gzip');
+    expect(bomb.byteLength).toBeLessThan(4096);
+
+    await expect(json({ inflate: true, limit: '64kb' })(ctx, next())).rejects.toMatchObject({
+      status: 413,
+      code: 'ENTITY_TOO_LARGE',
+    });
+  });
+
+  it('answers 415 for an unsupported coding without reading the body', async () => {
+    const { ctx, read } = makeCtx(new Uint8Array([1, 2, 3]), 'compress');
+
+    await expect(json({ inflate: true })(ctx, next())).rejects.toMatchObject({
+      name: 'BodyParserError',
+      status: 415,
+      code: 'UNSUPPORTED_CONTENT_ENCODING',
+    });
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it('answers 400 for a body that is not valid for its coding', async () => {
+    const { ctx } = makeCtx(new TextEncoder().encode('{"not":"gzip"}'), 'gzip');
+
+    await expect(json({ inflate: true })(ctx, next())).rejects.toMatchObject({
+      name: 'BodyParserError',
+      status: 400,
+      code: 'INVALID_CONTENT_ENCODING',
+    });
+  });
+});
+
+describe('getContentEncoding', () => {
+  it('joins repeated headers in the order the codings were applied', () => {
+    expect(getContentEncoding({ 'content-encoding': 'deflate, gzip' })).toBe('deflate, gzip');
+    expect(getContentEncoding({ 'content-encoding': ['gzip', 'br'] })).toBe('gzip, br');
+  });
+
+  it('returns undefined without the header', () => {
+    expect(getContentEncoding({})).toBeUndefined();
+  });
+});
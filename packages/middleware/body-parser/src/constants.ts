@@ -60,8 +60,8 @@ export const DEFAULT_CONTENT_TYPES = {
  * (`@nextrush/runtime`): DELETE is intentionally **excluded** — RFC 7231 §4.3.5
  * permits a body on DELETE, so a DELETE with a matching Content-Type is parsed.
  * TRACE is included — RFC 7231 §4.3.8 forbids a body on TRACE. The value is
- * duplicated here (not imported) to keep body-parser free of a runtime dependency;
- * the runtime constant is the source of truth for the policy (BP-H).
+ * duplicated here (not imported) because it is part of body-parser's own public
+ * surface; the runtime constant is the source of truth for the policy (BP-H).
  */
 export const BODYLESS_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'TRACE']);
 
@@ -205,6 +205,28 @@ export const Errors = {
     return new BodyParserError(`Unsupported charset: "${charset}"`, 415, 'UNSUPPORTED_CHARSET');
   },
 
+  /**
+   * Content-Encoding that cannot be inflated (unknown, or not available on this runtime)
+   */
+  unsupportedContentEncoding(encoding: string): BodyParserError {
+    return new BodyParserError(
+      `Unsupported content encoding: "${encoding}"`,
+      415,
+      'UNSUPPORTED_CONTENT_ENCODING'
+    );
+  },
+
+  /**
+   * Body is not valid data for its Content-Encoding
+   */
+  invalidContentEncoding(encoding: string): BodyParserError {
+    return new BodyParserError(
+      `Request body is not valid ${encoding} data`,
+      400,
+      'INVALID_CONTENT_ENCODING'
+    );
+  },
+
   /**
    * JSON nesting depth exceeded
    */
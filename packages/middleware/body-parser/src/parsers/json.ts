@@ -96,6 +96,7 @@ export function json(options: JsonOptions = {}): Middleware {
     strict = true,
     verify,
     maxDepth = DEFAULT_JSON_MAX_DEPTH,
+    inflate = false,
   } = options;
 
   // Pre-compute configuration
@@ -132,7 +133,7 @@ export function json(options: JsonOptions = {}): Middleware {
     }
 
     // Read body
-    const buffer = await readBody(ctx, limitBytes);
+    const buffer = await readBody(ctx, limitBytes, inflate);
 
     // Store raw body if requested (Buffer on Node, Uint8Array on edge)
     if (rawBody) {
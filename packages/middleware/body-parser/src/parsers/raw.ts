@@ -52,6 +52,7 @@ export function raw(options: RawOptions = {}): Middleware {
     type = DEFAULT_CONTENT_TYPES.RAW,
     rawBody: _rawBody = false, // Raw parser always returns buffer, option kept for consistency
     verify,
+    inflate = false,
   } = options;
 
   // Pre-compute configuration
@@ -81,7 +82,7 @@ export function raw(options: RawOptions = {}): Middleware {
     }
 
     // Read body as raw bytes
-    const buffer = await readBody(ctx, limitBytes);
+    const buffer = await readBody(ctx, limitBytes, inflate);
 
     // Present as a Node Buffer where available (DX), Uint8Array on edge.
     const body = toRawBody(buffer);
@@ -7,9 +7,26 @@
  * @packageDocumentation
  */
 
+import { contentCodings, inflateBody, UnsupportedContentEncodingError } from '@nextrush/runtime';
 import { Errors } from '../errors.js';
 import type { BodyParserContext } from '../types.js';
-import { getContentLength } from '../utils/content-type.js';
+import { getContentEncoding, getContentLength } from '../utils/content-type.js';
+
+/**
+ * Formats to inflate the body through, last applied first.
+ *
+ * @throws BodyParserError (415) for a coding this runtime cannot decode
+ */
+function getContentCodings(contentEncoding: string | undefined): string[] {
+  try {
+    return contentCodings(contentEncoding);
+  } catch (err) {
+    if (err instanceof UnsupportedContentEncodingError) {
+      throw Errors.unsupportedContentEncoding(err.encoding);
+    }
+    throw err;
+  }
+}
 
 /**
  * Read body from request using cross-runtime BodySource API.
@@ -17,12 +34,14 @@ import { getContentLength } from '../utils/content-type.js';
  * Features:
  * - Cross-runtime support (Node.js, Bun, Deno, Edge)
  * - Size limit enforcement (pre-check and post-read validation)
+ * - Optional `Content-Encoding` inflation, with the limit applied to the decompressed size
  * - Proper error handling with descriptive messages
  *
  * @param ctx - Request context
  * @param limit - Maximum body size in bytes
+ * @param inflate - Decompress a `Content-Encoding`-encoded body (default: `false`)
  * @returns Promise resolving to body buffer
- * @throws BodyParserError on size limit, abort, or stream error
+ * @throws BodyParserError on size limit, abort, stream error, or an encoding that cannot be inflated
  *
  * @example
  * ```typescript
@@ -31,7 +50,11 @@ import { getContentLength } from '../utils/content-type.js';
  * const text = buffer.toString('utf-8');
  * ```
  */
-export async function readBody(ctx: BodyParserContext, limit: number): Promise<Uint8Array> {
+export async function readBody(
+  ctx: BodyParserContext,
+  limit: number,
+  inflate = false
+): Promise<Uint8Array> {
   const bodySource = ctx.bodySource;
 
   // No body source available (modern adapters always provide one) — empty body.
@@ -45,6 +68,10 @@ export async function readBody(ctx: BodyParserContext, limit: number): Promise<U
     throw Errors.entityTooLarge(contentLength, limit);
   }
 
+  // Reject an encoding we cannot undo before consuming the body
+  const contentEncoding = inflate ? getContentEncoding(ctx.headers) : undefined;
+  const codings = getContentCodings(contentEncoding);
+
   try {
     // Read body as Uint8Array using cross-runtime API. Pass the parser's configured
     // limit so the adapter enforces it incrementally during the read (RFC 017), rather
@@ -56,6 +83,10 @@ export async function readBody(ctx: BodyParserContext, limit: number): Promise<U
       throw Errors.entityTooLargeStreaming(limit);
     }
 
+    if (codings.length > 0) {
+      return await inflateBody(uint8Array, codings, limit);
+    }
+
     // Return the bytes as-is (runtime-agnostic). Parsers decode via TextDecoder
     // and expose raw bytes as a Node Buffer only where the runtime provides one.
     return uint8Array;
@@ -73,6 +104,9 @@ export async function readBody(ctx: BodyParserContext, limit: number): Promise<U
       if (err.name === 'BodyTooLargeError') {
         throw Errors.entityTooLargeStreaming(limit);
       }
+      if ((err as { code?: unknown }).code === 'INVALID_CONTENT_ENCODING') {
+        throw Errors.invalidContentEncoding(String(contentEncoding));
+      }
       throw Errors.bodyReadError(err.message);
     }
 
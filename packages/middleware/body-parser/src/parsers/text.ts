@@ -57,6 +57,7 @@ export function text(options: TextOptions = {}): Middleware {
     rawBody = false,
     defaultCharset = 'utf-8',
     verify,
+    inflate = false,
   } = options;
 
   // Pre-compute configuration
@@ -87,7 +88,7 @@ export function text(options: TextOptions = {}): Middleware {
     }
 
     // Read body
-    const buffer = await readBody(ctx, limitBytes);
+    const buffer = await readBody(ctx, limitBytes, inflate);
 
     // Store raw body if requested (Buffer on Node, Uint8Array on edge)
     if (rawBody) {
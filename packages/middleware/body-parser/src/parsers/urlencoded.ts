@@ -62,6 +62,7 @@ export function urlencoded(options: UrlEncodedOptions = {}): Middleware {
     parameterLimit = DEFAULT_PARAMETER_LIMITS.MAX_PARAMS,
     depth = DEFAULT_PARAMETER_LIMITS.MAX_DEPTH,
     verify,
+    inflate = false,
   } = options;
 
   // Pre-compute configuration
@@ -91,7 +92,7 @@ export function urlencoded(options: UrlEncodedOptions = {}): Middleware {
     }
 
     // Read body
-    const buffer = await readBody(ctx, limitBytes);
+    const buffer = await readBody(ctx, limitBytes, inflate);
 
     // Store raw body if requested (Buffer on Node, Uint8Array on edge)
     if (rawBody) {
@@ -151,6 +151,16 @@ export interface BaseParserOptions {
    * Throw an error to reject the body.
    */
   readonly verify?: VerifyCallback;
+
+  /**
+   * Inflate bodies sent with `Content-Encoding: gzip`, `deflate`, `br` or
+   * `zstd` before parsing. `limit` then applies to the decompressed size, and
+   * `rawBody`/`verify` see the decompressed bytes. Other codings, and `br`/`zstd`
+   * on runtimes without them, are rejected with a 415. When `false`, the
+   * encoded bytes are parsed as is.
+   * @default false
+   */
+  readonly inflate?: boolean;
 }
 
 /**
@@ -269,7 +279,9 @@ export type BodyParserErrorCode =
   | 'REQUEST_ABORTED'
   | 'INVALID_CONTENT_TYPE'
   | 'UNSUPPORTED_CONTENT_TYPE'
-  | 'UNSUPPORTED_CHARSET';
+  | 'UNSUPPORTED_CHARSET'
+  | 'UNSUPPORTED_CONTENT_ENCODING'
+  | 'INVALID_CONTENT_ENCODING';
 
 /**
  * Result of reading a request body
@@ -48,6 +48,23 @@ export function getContentLength(
   return parsed;
 }
 
+/**
+ * Extract content-encoding from headers. Repeated headers are joined in order,
+ * as they list the codings the client applied one after another.
+ *
+ * @param headers - Request headers object
+ * @returns Content-encoding string or undefined
+ */
+export function getContentEncoding(
+  headers: Readonly<Record<string, string | string[] | undefined>>
+): string | undefined {
+  const ce = headers['content-encoding'];
+  if (Array.isArray(ce)) {
+    return ce.join(', ');
+  }
+  return ce;
+}
+
 /**
  * Check if content-type is JSON (fast path).
  *
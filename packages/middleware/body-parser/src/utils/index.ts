@@ -9,7 +9,7 @@
 export { bufferToString, concatBuffers } from './buffer.js';
 
 export {
-    extractCharset, getContentLength, getContentType, isCharsetSupported, isJsonContentType,
+    extractCharset, getContentEncoding, getContentLength, getContentType, isCharsetSupported, isJsonContentType,
     matchContentType, normalizeCharset
 } from './content-type.js';
 
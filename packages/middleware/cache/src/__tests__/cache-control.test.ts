@@ -0,0 +1,150 @@
+/**
+ * @nextrush/cache - Cache-Control policy tests
+ */
+
+import { ROUTE_METADATA, type Context } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { cacheControl, formatCacheControl, parseCacheControl } from '../cache-control';
+import { MemoryStore } from '../memory-store';
+
+function headerCtx(): Context & { headers: Record<string, unknown>; responded: boolean } {
+  const headers: Record<string, unknown> = {};
+  return {
+    headers,
+    responded: false,
+    set(field: string, value: unknown) {
+      headers[field.toLowerCase()] = value;
+    },
+  } as unknown as Context & { headers: Record<string, unknown>; responded: boolean };
+}
+
+describe('formatCacheControl', () => {
+  it('renders every directive in a stable order', () => {
+    expect(
+      formatCacheControl({
+        immutable: true,
+        mustRevalidate: true,
+        staleIfError: 600,
+        staleWhileRevalidate: 30,
+        sMaxAge: 120,
+        maxAge: 60,
+        noCache: true,
+        public: true,
+      })
+    ).toBe(
+      'public, no-cache, max-age=60, s-maxage=120, stale-while-revalidate=30, ' +
+        'stale-if-error=600, must-revalidate, immutable'
+    );
+  });
+
+  it('renders an empty policy as an empty value', () => {
+    expect(formatCacheControl({})).toBe('');
+  });
+});
+
+describe('parseCacheControl', () => {
+  it('round-trips a formatted policy', () => {
+    const policy = { private: true, maxAge: 0, staleWhileRevalidate: 5, noStore: true };
+    expect(parseCacheControl(formatCacheControl(policy))).toEqual(policy);
+  });
+
+  it('is case-insensitive and tolerates whitespace and quotes', () => {
+    expect(parseCacheControl(' Public ,MAX-AGE="30",  S-MaxAge=10')).toEqual({
+      public: true,
+      maxAge: 30,
+      sMaxAge: 10,
+    });
+  });
+
+  it('reads field-scoped private and no-cache as the bare directive', () => {
+    expect(parseCacheControl('private="set-cookie", no-cache="x-user"')).toEqual({
+      private: true,
+      noCache: true,
+    });
+  });
+
+  it('ignores unknown directives and malformed durations', () => {
+    expect(parseCacheControl('max-age=abc, s-maxage=-1, proxy-revalidate, x=1')).toEqual({});
+  });
+});
+
+describe('cacheControl()', () => {
+  it('sets the header before the handler runs', async () => {
+    const ctx = headerCtx();
+    const seen = vi.fn(() => ctx.headers['cache-control']);
+    await cacheControl({ public: true, maxAge: 60 })(ctx, async () => {
+      seen();
+    });
+    expect(seen).toHaveReturnedWith('public, max-age=60');
+  });
+
+  it('contributes the policy as route metadata', () => {
+    const policy = { private: true, maxAge: 10 };
+    const mw = cacheControl(policy) as unknown as Record<symbol, unknown>;
+    expect(mw[ROUTE_METADATA]).toEqual({ cacheControl: policy });
+    expect(Object.keys(mw)).toEqual([]);
+  });
+
+  it('switches to no-store when the handler throws before responding', async () => {
+    const ctx = headerCtx();
+    const mw = cacheControl({ public: true, maxAge: 60 });
+    await expect(
+      mw(ctx, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(ctx.headers['cache-control']).toBe('no-store');
+  });
+
+  it.each([
+    [{ maxAge: -1 }, /maxAge must be a non-negative integer/],
+    [{ sMaxAge: 1.5 }, /sMaxAge must be a non-negative integer/],
+    [{ public: true, private: true }, /both public and private/],
+  ])('rejects an invalid policy %j', (policy, message) => {
+    expect(() => cacheControl(policy)).toThrow(message);
+  });
+});
+
+describe('MemoryStore', () => {
+  const entry = (staleUntil = Number.MAX_SAFE_INTEGER) => ({
+    status: 200,
+    body: { type: 'send' as const, value: 'x' },
+    headers: {},
+    size: 1,
+    storedAt: 0,
+    freshUntil: staleUntil,
+    staleUntil,
+  });
+
+  it('evicts the least recently used entry at capacity', async () => {
+    const store = new MemoryStore({ maxEntries: 2 });
+    await store.set('a', entry());
+    await store.set('b', entry());
+    await store.get('a');
+    await store.set('c', entry());
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+
+  it('drops an entry past staleUntil on read', async () => {
+    const store = new MemoryStore();
+    await store.set('old', entry(Date.now() - 1));
+    expect(await store.get('old')).toBeNull();
+    expect(store.size).toBe(0);
+  });
+
+  it('deletes and clears', async () => {
+    const store = new MemoryStore();
+    await store.set('a', entry());
+    await store.set('b', entry());
+    await store.delete('a');
+    expect(store.size).toBe(1);
+    await store.clear();
+    expect(store.size).toBe(0);
+  });
+
+  it.each([0, -1, 1.5])('rejects maxEntries %s', (maxEntries) => {
+    expect(() => new MemoryStore({ maxEntries })).toThrow(/positive integer/);
+  });
+});
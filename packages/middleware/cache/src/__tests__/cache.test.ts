@@ -0,0 +1,553 @@
+/**
+ * @nextrush/cache - Middleware tests
+ *
+ * Conditional GET (ETag / 304), storage decisions driven by the response's
+ * Cache-Control, stale-while-revalidate, and coalescing of concurrent misses.
+ */
+
+import { createRouter, endpoint } from '@nextrush/router';
+import type { Context, Middleware, Next } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cache } from '../middleware';
+import { cacheControl } from '../cache-control';
+import { generateETag } from '../etag';
+import { MemoryStore } from '../memory-store';
+import type { CacheEntry, CacheStore } from '../types';
+
+interface Sent {
+  status: number;
+  type: 'json' | 'html' | 'send';
+  body: unknown;
+}
+
+type TestContext = Context & { sent: Sent[]; responseHeaders: Record<string, unknown> };
+
+/** Context stub recording headers set and bodies actually sent. */
+function createCtx(
+  options: { method?: string; url?: string; headers?: Record<string, string> } = {}
+): TestContext {
+  const url = options.url ?? '/items';
+  const requestHeaders = options.headers ?? {};
+  const sent: Sent[] = [];
+  const responseHeaders: Record<string, unknown> = {};
+  const ctx = {
+    method: options.method ?? 'GET',
+    url,
+    path: url.split('?')[0],
+    status: 200,
+    sent,
+    responseHeaders,
+    get responded() {
+      return sent.length > 0;
+    },
+    get(field: string) {
+      return requestHeaders[field.toLowerCase()];
+    },
+    set(field: string, value: unknown) {
+      responseHeaders[field.toLowerCase()] = value;
+    },
+    json(data: unknown) {
+      if (sent.length === 0) sent.push({ status: ctx.status, type: 'json', body: data });
+    },
+    html(content: string) {
+      if (sent.length === 0) sent.push({ status: ctx.status, type: 'html', body: content });
+    },
+    send(data: unknown) {
+      if (sent.length === 0) sent.push({ status: ctx.status, type: 'send', body: data });
+    },
+  };
+  return ctx as unknown as TestContext;
+}
+
+/** Run `mw` with `handler` playing the downstream chain. */
+async function run(
+  mw: Middleware,
+  ctx: Context,
+  handler: (ctx: Context) => unknown
+): Promise<void> {
+  const next: Next = async () => {
+    await handler(ctx);
+  };
+  await mw(ctx, next);
+}
+
+/** Handler that sends JSON under a Cache-Control policy. */
+function cachedJson(data: unknown, policy = 'public, max-age=60') {
+  return vi.fn((ctx: Context) => {
+    ctx.set('Cache-Control', policy);
+    ctx.json(data);
+  });
+}
+
+describe('cache() — conditional GET', () => {
+  it('adds a strong ETag to a 200 JSON response', async () => {
+    const ctx = createCtx();
+    await run(cache(), ctx, (c) => c.json({ id: 1 }));
+
+    expect(ctx.responseHeaders.etag).toBe(await generateETag('{"id":1}'));
+    expect(ctx.responseHeaders.etag).toMatch(/^"8-[A-Za-z0-9+/]{27}"$/);
+    expect(ctx.sent).toEqual([{ status: 200, type: 'json', body: { id: 1 } }]);
+  });
+
+  it('adds a weak ETag in weak mode', async () => {
+    const ctx = createCtx();
+    await run(cache({ etag: 'weak' }), ctx, (c) => c.send('hello'));
+    expect(ctx.responseHeaders.etag).toBe(await generateETag('hello', true));
+    expect(String(ctx.responseHeaders.etag)).toMatch(/^W\/"/);
+  });
+
+  it('answers 304 with no body when If-None-Match matches', async () => {
+    const etag = await generateETag('<p>hi</p>');
+    const ctx = createCtx({ headers: { 'if-none-match': `"other", ${etag}` } });
+    await run(cache(), ctx, (c) => c.html('<p>hi</p>'));
+    expect(ctx.sent).toEqual([{ status: 304, type: 'send', body: null }]);
+    expect(ctx.responseHeaders.etag).toBe(etag);
+  });
+
+  it('compares If-None-Match weakly', async () => {
+    const etag = await generateETag('hello');
+    const ctx = createCtx({ headers: { 'if-none-match': `W/${etag}` } });
+    await run(cache(), ctx, (c) => c.send('hello'));
+    expect(ctx.status).toBe(304);
+  });
+
+  it('sends the full body when If-None-Match does not match', async () => {
+    const ctx = createCtx({ headers: { 'if-none-match': '"stale"' } });
+    await run(cache(), ctx, (c) => c.send('hello'));
+    expect(ctx.sent).toEqual([{ status: 200, type: 'send', body: 'hello' }]);
+  });
+
+  it('keeps a handler-set ETag instead of generating one', async () => {
+    const ctx = createCtx({ headers: { 'if-none-match': '"v7"' } });
+    await run(cache(), ctx, (c) => {
+      c.set('ETag', '"v7"');
+      c.json({ version: 7 });
+    });
+    expect(ctx.responseHeaders.etag).toBe('"v7"');
+    expect(ctx.status).toBe(304);
+  });
+
+  it('honors If-Modified-Since against a handler-set Last-Modified', async () => {
+    const handler = (c: Context): void => {
+      c.set('Last-Modified', 'Wed, 01 Jan 2025 00:00:00 GMT');
+      c.send('doc');
+    };
+    const fresh = createCtx({ headers: { 'if-modified-since': 'Thu, 02 Jan 2025 00:00:00 GMT' } });
+    await run(cache({ etag: false }), fresh, handler);
+    expect(fresh.status).toBe(304);
+
+    const old = createCtx({ headers: { 'if-modified-since': 'Tue, 31 Dec 2024 00:00:00 GMT' } });
+    await run(cache({ etag: false }), old, handler);
+    expect(old.sent[0]?.status).toBe(200);
+  });
+
+  it('ignores If-Modified-Since when If-None-Match is present', async () => {
+    const ctx = createCtx({
+      headers: { 'if-none-match': '"nope"', 'if-modified-since': 'Thu, 02 Jan 2025 00:00:00 GMT' },
+    });
+    await run(cache(), ctx, (c) => {
+      c.set('Last-Modified', 'Wed, 01 Jan 2025 00:00:00 GMT');
+      c.send('doc');
+    });
+    expect(ctx.sent[0]?.status).toBe(200);
+  });
+
+  it('generates no ETag when disabled', async () => {
+    const ctx = createCtx();
+    await run(cache({ etag: false }), ctx, (c) => c.json({}));
+    expect(ctx.responseHeaders.etag).toBeUndefined();
+  });
+
+  it('leaves non-200 responses without an ETag', async () => {
+    const ctx = createCtx();
+    await run(cache(), ctx, (c) => {
+      c.status = 404;
+      c.json({ error: 'Not found' });
+    });
+    expect(ctx.responseHeaders.etag).toBeUndefined();
+    expect(ctx.sent).toEqual([{ status: 404, type: 'json', body: { error: 'Not found' } }]);
+  });
+
+  it('passes non-GET requests through untouched', async () => {
+    const ctx = createCtx({ method: 'POST' });
+    await run(cache(), ctx, (c) => c.json({ created: true }));
+    expect(ctx.responseHeaders.etag).toBeUndefined();
+    expect(ctx.sent).toHaveLength(1);
+  });
+
+  it('passes a stream straight through', async () => {
+    const ctx = createCtx();
+    const stream = new ReadableStream<Uint8Array>();
+    await run(cache(), ctx, (c) => c.send(stream));
+    expect(ctx.sent).toEqual([{ status: 200, type: 'send', body: stream }]);
+    expect(ctx.responseHeaders.etag).toBeUndefined();
+  });
+
+  it('restores the response methods before an error propagates', async () => {
+    const ctx = createCtx();
+    await expect(
+      run(cache(), ctx, () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    ctx.json({ error: 'rendered by the error handler' });
+    expect(ctx.sent).toEqual([
+      { status: 200, type: 'json', body: { error: 'rendered by the error handler' } },
+    ]);
+  });
+});
+
+describe('cache() — store', () => {
+  let store: MemoryStore;
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new MemoryStore();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays a stored response without running the handler', async () => {
+    const mw = cache({ store });
+    const handler = cachedJson({ id: 1 });
+
+    await run(mw, createCtx(), handler);
+    vi.advanceTimersByTime(5_000);
+    const hit = createCtx();
+    await run(mw, hit, handler);
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(hit.sent).toEqual([{ status: 200, type: 'json', body: { id: 1 } }]);
+    expect(hit.responseHeaders['cache-control']).toBe('public, max-age=60');
+    expect(hit.responseHeaders.etag).toBe(await generateETag('{"id":1}'));
+    expect(hit.responseHeaders.age).toBe(5);
+  });
+
+  it('answers a conditional hit with 304', async () => {
+    const mw = cache({ store });
+    const first = createCtx();
+    await run(mw, first, cachedJson({ id: 1 }));
+
+    const ctx = createCtx({ headers: { 'if-none-match': String(first.responseHeaders.etag) } });
+    await run(mw, ctx, cachedJson({ id: 1 }));
+    expect(ctx.sent).toEqual([{ status: 304, type: 'send', body: null }]);
+  });
+
+  it('uses s-maxage over max-age for the lifetime', async () => {
+    const mw = cache({ store });
+    const handler = cachedJson('x', 'public, max-age=600, s-maxage=10');
+    await run(mw, createCtx(), handler);
+    vi.advanceTimersByTime(11_000);
+    await run(mw, createCtx(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('snapshots a JSON body so later mutation is not replayed', async () => {
+    const mw = cache({ store });
+    const data = { count: 1 };
+    await run(mw, createCtx(), cachedJson(data));
+    data.count = 2;
+    const hit = createCtx();
+    await run(mw, hit, cachedJson(data));
+    expect(hit.sent[0]?.body).toEqual({ count: 1 });
+  });
+
+  it('shares one entry between GET and HEAD', async () => {
+    const mw = cache({ store });
+    const handler = cachedJson({ id: 1 });
+    await run(mw, createCtx(), handler);
+    await run(mw, createCtx({ method: 'HEAD' }), handler);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('keys entries by URL including the query string', async () => {
+    const mw = cache({ store });
+    const handler = cachedJson({});
+    await run(mw, createCtx({ url: '/items?page=1' }), handler);
+    await run(mw, createCtx({ url: '/items?page=2' }), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a custom key', async () => {
+    const mw = cache({ store, key: (ctx) => ctx.path });
+    const handler = cachedJson({});
+    await run(mw, createCtx({ url: '/items?page=1' }), handler);
+    await run(mw, createCtx({ url: '/items?page=2' }), handler);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it.each([
+    ['no Cache-Control', undefined],
+    ['private', 'private, max-age=60'],
+    ['no-store', 'no-store'],
+    ['no-cache', 'no-cache, max-age=60'],
+    ['max-age=0', 'public, max-age=0'],
+  ])('does not store a response with %s', async (_label, policy) => {
+    const mw = cache({ store });
+    const handler = vi.fn((ctx: Context) => {
+      if (policy !== undefined) ctx.set('Cache-Control', policy);
+      ctx.json({});
+    });
+    await run(mw, createCtx(), handler);
+    await run(mw, createCtx(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it.each(['Set-Cookie', 'Vary'])('does not store a response that sets %s', async (header) => {
+    const mw = cache({ store });
+    const handler = vi.fn((ctx: Context) => {
+      ctx.set('Cache-Control', 'public, max-age=60');
+      ctx.set(header, 'x');
+      ctx.json({});
+    });
+    await run(mw, createCtx(), handler);
+    await run(mw, createCtx(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not store non-200 responses', async () => {
+    const mw = cache({ store });
+    const handler = vi.fn((ctx: Context) => {
+      ctx.set('Cache-Control', 'public, max-age=60');
+      ctx.status = 404;
+      ctx.json({});
+    });
+    await run(mw, createCtx(), handler);
+    await run(mw, createCtx(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not store bodies over maxBodySize', async () => {
+    const mw = cache({ store, maxBodySize: 4 });
+    const handler = vi.fn((ctx: Context) => {
+      ctx.set('Cache-Control', 'public, max-age=60');
+      ctx.send('too long');
+    });
+    await run(mw, createCtx(), handler);
+    await run(mw, createCtx(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('bypasses the store for requests carrying Authorization', async () => {
+    const mw = cache({ store });
+    const handler = cachedJson({ secret: true });
+    await run(mw, createCtx(), handler);
+    const authorized = createCtx({ headers: { authorization: 'Bearer t' } });
+    await run(mw, authorized, handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(store.size).toBe(1);
+  });
+
+  it('stores the policy contributed by cacheControl() on the route', async () => {
+    const mw = cache({ store });
+    const route = cacheControl({ public: true, maxAge: 30 });
+    const handler = vi.fn((ctx: Context) => ctx.json({ ok: true }));
+    const chain = (ctx: Context) => route(ctx, async () => handler(ctx));
+
+    await run(mw, createCtx(), chain);
+    const hit = createCtx();
+    await run(mw, hit, chain);
+    expect(handler).toHaveBeenCalledOnce();
+    expect(hit.responseHeaders['cache-control']).toBe('public, max-age=30');
+  });
+
+  it('treats a failing store as a miss and reports it', async () => {
+    const onError = vi.fn();
+    const failing: CacheStore = {
+      get: () => Promise.reject(new Error('down')),
+      set: () => Promise.reject(new Error('down')),
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve(),
+    };
+    const ctx = createCtx();
+    await run(cache({ store: failing, onError }), ctx, cachedJson({ id: 1 }));
+    expect(ctx.sent).toEqual([{ status: 200, type: 'json', body: { id: 1 } }]);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores an entry a custom store returns past staleUntil', async () => {
+    const expired: CacheEntry = {
+      status: 200,
+      body: { type: 'send', value: 'old' },
+      headers: {},
+      size: 3,
+      storedAt: 0,
+      freshUntil: 0,
+      staleUntil: 0,
+    };
+    const custom: CacheStore = {
+      get: () => Promise.resolve(expired),
+      set: () => Promise.resolve(),
+      delete: () => Promise.resolve(),
+      clear: () => Promise.resolve(),
+    };
+    const ctx = createCtx();
+    await run(cache({ store: custom }), ctx, (c) => c.send('new'));
+    expect(ctx.sent[0]?.body).toBe('new');
+  });
+});
+
+describe('cache() — in front of a versioned route', () => {
+  it.each([
+    [{ type: 'header' } as const, (v: string) => ({ 'x-api-version': v }), 'x-api-version'],
+    [
+      { type: 'media-type' } as const,
+      (v: string) => ({ accept: `application/vnd.acme.v${v}+json` }),
+      'Accept',
+    ],
+  ])('serves each version its own response under %o', async (versioning, headersFor, vary) => {
+    const router = createRouter({ versioning });
+    router.get('/items', endpoint({ versions: ['1'] }), cachedJson({ version: 1 }));
+    router.get('/items', endpoint({ versions: ['2'] }), cachedJson({ version: 2 }));
+    const routes = router.routes();
+    const mw = cache({ store: new MemoryStore() });
+
+    const bodies: unknown[] = [];
+    for (const version of ['1', '2', '1', '2']) {
+      const ctx = createCtx({ headers: headersFor(version) });
+      await run(mw, ctx, (c) => routes(c, async () => {}));
+      expect(ctx.responseHeaders.vary).toBe(vary);
+      bodies.push(ctx.sent[0]?.body);
+    }
+
+    expect(bodies).toEqual([{ version: 1 }, { version: 2 }, { version: 1 }, { version: 2 }]);
+  });
+});
+
+describe('cache() — coalescing and stale-while-revalidate', () => {
+  /** A handler that blocks until released, counting invocations. */
+  function gatedHandler(policy: string) {
+    let release!: () => void;
+    let gate = new Promise<void>((resolve) => (release = resolve));
+    let calls = 0;
+    const handler = async (ctx: Context): Promise<void> => {
+      calls++;
+      const n = calls;
+      await gate;
+      ctx.set('Cache-Control', policy);
+      ctx.json({ version: n });
+    };
+    return {
+      handler,
+      release: () => release(),
+      reset: () => {
+        gate = new Promise<void>((resolve) => (release = resolve));
+      },
+      calls: () => calls,
+    };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the handler once for a burst of concurrent misses', async () => {
+    const mw = cache({ store: new MemoryStore() });
+    const gated = gatedHandler('public, max-age=60');
+    const ctxs = Array.from({ length: 10 }, () => createCtx());
+
+    const pending = ctxs.map((ctx) => run(mw, ctx, gated.handler));
+    await vi.waitFor(() => expect(gated.calls()).toBe(1));
+    gated.release();
+    await Promise.all(pending);
+
+    expect(gated.calls()).toBe(1);
+    for (const ctx of ctxs)
+      expect(ctx.sent).toEqual([{ status: 200, type: 'json', body: { version: 1 } }]);
+  });
+
+  it('lets waiters run their own handler when the shared response is not storable', async () => {
+    const mw = cache({ store: new MemoryStore() });
+    const gated = gatedHandler('private, max-age=60');
+    const a = createCtx();
+    const b = createCtx();
+
+    const pending = [run(mw, a, gated.handler), run(mw, b, gated.handler)];
+    await vi.waitFor(() => expect(gated.calls()).toBe(1));
+    gated.release();
+    await Promise.all(pending);
+
+    expect(gated.calls()).toBe(2);
+    expect(b.sent[0]?.body).toEqual({ version: 2 });
+  });
+
+  it('lets waiters proceed when the leading request throws', async () => {
+    const mw = cache({ store: new MemoryStore() });
+    let calls = 0;
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const handler = async (ctx: Context): Promise<void> => {
+      calls++;
+      if (calls === 1) {
+        await gate;
+        throw new Error('boom');
+      }
+      ctx.json({ ok: true });
+    };
+
+    const leader = run(mw, createCtx(), handler);
+    await vi.waitFor(() => expect(calls).toBe(1));
+    const follower = createCtx();
+    const waiting = run(mw, follower, handler);
+    release();
+
+    await expect(leader).rejects.toThrow('boom');
+    await waiting;
+    expect(follower.sent[0]?.body).toEqual({ ok: true });
+  });
+
+  it('serves stale copies while one request revalidates', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const mw = cache({ store: new MemoryStore() });
+    const gated = gatedHandler('public, max-age=10, stale-while-revalidate=60');
+
+    const first = run(mw, createCtx(), gated.handler);
+    gated.release();
+    await first;
+
+    vi.advanceTimersByTime(15_000);
+    gated.reset();
+    const revalidating = createCtx();
+    const revalidation = run(mw, revalidating, gated.handler);
+    await vi.waitFor(() => expect(gated.calls()).toBe(2));
+
+    const others = Array.from({ length: 5 }, () => createCtx());
+    await Promise.all(others.map((ctx) => run(mw, ctx, gated.handler)));
+    for (const ctx of others) {
+      expect(ctx.sent[0]?.body).toEqual({ version: 1 });
+      expect(ctx.responseHeaders.age).toBe(15);
+    }
+
+    gated.release();
+    await revalidation;
+    expect(revalidating.sent[0]?.body).toEqual({ version: 2 });
+
+    const after = createCtx();
+    await run(mw, after, gated.handler);
+    expect(after.sent[0]?.body).toEqual({ version: 2 });
+    expect(gated.calls()).toBe(2);
+  });
+
+  it('does not serve stale past the stale-while-revalidate window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const mw = cache({ store: new MemoryStore() });
+    const handler = cachedJson({}, 'public, max-age=10, stale-while-revalidate=5');
+    await run(mw, createCtx(), handler);
+    vi.advanceTimersByTime(16_000);
+    await run(mw, createCtx(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('never serves stale under must-revalidate', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new MemoryStore();
+    const mw = cache({ store });
+    await run(
+      mw,
+      createCtx(),
+      cachedJson({}, 'public, max-age=10, stale-while-revalidate=60, must-revalidate')
+    );
+    vi.advanceTimersByTime(11_000);
+    expect(await store.get('/items')).toBeNull();
+  });
+});
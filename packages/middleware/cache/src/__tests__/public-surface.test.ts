@@ -0,0 +1,59 @@
+/**
+ * @nextrush/cache - Public API surface test
+ *
+ * Locks the exported symbol set from `src/index.ts`. If this test fails, the
+ * public API has changed. Intentional changes require an explicit update to
+ * the expected list below, plus a changeset for a published package.
+ */
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import * as cacheApi from '../index';
+import type {
+  CacheControlPolicy,
+  CachedBody,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  ETagMode,
+  HeaderValue,
+  MemoryStoreOptions,
+} from '../index';
+
+describe('Public API surface (runtime exports)', () => {
+  it('exports exactly the intended runtime symbols', () => {
+    const actualExports = Object.keys(cacheApi).sort();
+
+    // SEALED: intentional public runtime API surface.
+    const expectedRuntime = [
+      'DEFAULT_MAX_BODY_SIZE',
+      'DEFAULT_MAX_ENTRIES',
+      'MemoryStore',
+      'cache',
+      'cacheControl',
+      'createMemoryStore',
+      'formatCacheControl',
+      'generateETag',
+      'isNotModified',
+      'parseCacheControl',
+    ].sort();
+
+    expect(actualExports).toEqual(expectedRuntime);
+  });
+});
+
+describe('Public API surface (type-only exports)', () => {
+  it('the type-only surface stays importable from the barrel', () => {
+    // Compile-time only: removing/renaming any of these in src/index.ts fails
+    // this file to type-check.
+    type Surface = [
+      CacheControlPolicy,
+      CachedBody,
+      CacheEntry,
+      CacheOptions,
+      CacheStore,
+      ETagMode,
+      HeaderValue,
+      MemoryStoreOptions,
+    ];
+    expectTypeOf<Surface>().not.toBeNever();
+  });
+});
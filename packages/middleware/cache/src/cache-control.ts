@@ -0,0 +1,152 @@
+/**
+ * @nextrush/cache - Cache-Control Policy
+ *
+ * `cacheControl()` declares a route's `Cache-Control` policy once and uses it
+ * twice: it sends the header on every response of the route, and contributes
+ * the same policy as `RouteMetadata.cacheControl` so tooling reading
+ * `router.getRoutes()` sees exactly what clients are told.
+ *
+ * @packageDocumentation
+ */
+
+import { ROUTE_METADATA, type MetadataContribution } from '@nextrush/types';
+import type { CacheControlPolicy, Context, Middleware } from './types';
+
+type DurationField = 'maxAge' | 'sMaxAge' | 'staleWhileRevalidate' | 'staleIfError';
+
+/** Duration fields in header order, with their directive names. */
+const DURATIONS: readonly (readonly [DurationField, string])[] = [
+  ['maxAge', 'max-age'],
+  ['sMaxAge', 's-maxage'],
+  ['staleWhileRevalidate', 'stale-while-revalidate'],
+  ['staleIfError', 'stale-if-error'],
+];
+
+/**
+ * Render a policy as a `Cache-Control` header value.
+ *
+ * @example
+ * ```typescript
+ * formatCacheControl({ public: true, maxAge: 60, staleWhileRevalidate: 30 });
+ * // 'public, max-age=60, stale-while-revalidate=30'
+ * ```
+ */
+export function formatCacheControl(policy: CacheControlPolicy): string {
+  const parts: string[] = [];
+  if (policy.public === true) parts.push('public');
+  if (policy.private === true) parts.push('private');
+  if (policy.noStore === true) parts.push('no-store');
+  if (policy.noCache === true) parts.push('no-cache');
+  for (const [field, directive] of DURATIONS) {
+    const seconds = policy[field];
+    if (seconds !== undefined) parts.push(`${directive}=${String(seconds)}`);
+  }
+  if (policy.mustRevalidate === true) parts.push('must-revalidate');
+  if (policy.immutable === true) parts.push('immutable');
+  return parts.join(', ');
+}
+
+/**
+ * Parse a `Cache-Control` header value into a policy. Directive names are
+ * matched case-insensitively; unknown directives and malformed durations are
+ * ignored. A field-scoped `private="..."` or `no-cache="..."` counts as the
+ * bare directive — the conservative reading for a shared cache.
+ */
+export function parseCacheControl(header: string): CacheControlPolicy {
+  const policy: { -readonly [K in keyof CacheControlPolicy]: CacheControlPolicy[K] } = {};
+
+  for (const part of header.split(',')) {
+    const eq = part.indexOf('=');
+    const name = (eq === -1 ? part : part.slice(0, eq)).trim().toLowerCase();
+    const arg = eq === -1 ? undefined : part.slice(eq + 1).trim();
+
+    switch (name) {
+      case 'public':
+        policy.public = true;
+        break;
+      case 'private':
+        policy.private = true;
+        break;
+      case 'no-store':
+        policy.noStore = true;
+        break;
+      case 'no-cache':
+        policy.noCache = true;
+        break;
+      case 'must-revalidate':
+        policy.mustRevalidate = true;
+        break;
+      case 'immutable':
+        policy.immutable = true;
+        break;
+      default: {
+        const field = DURATIONS.find(([, directive]) => directive === name)?.[0];
+        if (field !== undefined && arg !== undefined && /^"?\d+"?$/.test(arg)) {
+          policy[field] = Number(arg.replace(/"/g, ''));
+        }
+      }
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Reject a policy that cannot be rendered as a meaningful header, at
+ * middleware-creation time rather than on the first request.
+ */
+function assertValidPolicy(policy: CacheControlPolicy): void {
+  for (const [field] of DURATIONS) {
+    const seconds = policy[field];
+    if (seconds !== undefined && (!Number.isInteger(seconds) || seconds < 0)) {
+      throw new TypeError(
+        `cacheControl: ${field} must be a non-negative integer number of seconds, got ${String(seconds)}`
+      );
+    }
+  }
+  if (policy.public === true && policy.private === true) {
+    throw new TypeError('cacheControl: a policy cannot be both public and private');
+  }
+}
+
+/**
+ * Create middleware that sends a route's `Cache-Control` policy.
+ *
+ * The header is set before the handler runs, so a handler can still override
+ * it for a single response. When the handler throws, the header is replaced
+ * with `no-store` before the error propagates — an error page rendered
+ * further up the chain must never be cached under the route's policy.
+ *
+ * @example
+ * ```typescript
+ * router.get('/products/:id',
+ *   cacheControl({ public: true, maxAge: 60, staleWhileRevalidate: 300 }),
+ *   async (ctx) => ctx.json(await products.find(ctx.params.id)),
+ * );
+ * ```
+ *
+ * @param policy - The policy; also contributed as `RouteMetadata.cacheControl`.
+ * @throws {TypeError} When a duration is not a non-negative integer, or the
+ *   policy is both `public` and `private`.
+ */
+export function cacheControl(policy: CacheControlPolicy): Middleware {
+  assertValidPolicy(policy);
+  const value = formatCacheControl(policy);
+
+  const middleware: Middleware = async (ctx: Context, next): Promise<void> => {
+    ctx.set('Cache-Control', value);
+    try {
+      await next();
+    } catch (error) {
+      if (!ctx.responded) ctx.set('Cache-Control', 'no-store');
+      throw error;
+    }
+  };
+
+  Object.defineProperty(middleware, ROUTE_METADATA, {
+    value: { cacheControl: policy } satisfies MetadataContribution,
+    enumerable: false,
+  });
+
+  return middleware;
+}
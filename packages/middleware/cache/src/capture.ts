@@ -0,0 +1,120 @@
+/**
+ * @nextrush/cache - Response Capture
+ *
+ * Holds back the body a handler chain sends so it can be fingerprinted and
+ * stored before it goes out, and replays stored responses through the same
+ * response methods.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import type { Next, ResponseBody } from '@nextrush/types';
+import { toBytes } from './etag';
+import type { CachedBody, Context, HeaderValue } from './types';
+
+/** What the handler chain sent, held until the middleware releases it. */
+export interface CapturedResponse {
+  readonly status: number;
+  readonly body: CachedBody;
+  /** Headers set through `ctx.set()` during the chain, keyed by lowercase name. */
+  readonly headers: Readonly<Record<string, HeaderValue>>;
+}
+
+/**
+ * Run the downstream chain with `ctx.json()`, `ctx.html()` and `ctx.send()`
+ * shadowed.
+ *
+ * The first body sent is captured with the status at the time of the call,
+ * matching the "first response wins" semantics of the real methods. Bodies
+ * that cannot be held — streams and empty sends — go straight out through
+ * the real `send()`. Headers still reach the response as they are set, and
+ * are recorded for storage. The real methods are restored before this
+ * returns or throws, so an error handler further up renders normally.
+ *
+ * @returns The captured response, or `undefined` when the chain sent nothing
+ *   capturable (no body, a stream, a redirect written directly).
+ */
+export async function captureResponse(
+  ctx: Context,
+  next: Next
+): Promise<CapturedResponse | undefined> {
+  const json = ctx.json.bind(ctx);
+  const html = ctx.html.bind(ctx);
+  const send = ctx.send.bind(ctx);
+  const set = ctx.set.bind(ctx);
+  const headers: Record<string, HeaderValue> = {};
+  let captured: { status: number; body: CachedBody } | undefined;
+  let released = false;
+
+  const hold = (body: CachedBody): void => {
+    if (captured === undefined && !released) captured = { status: ctx.status, body };
+  };
+
+  ctx.set = (field: string, value: HeaderValue): void => {
+    headers[field.toLowerCase()] = value;
+    set(field, value);
+  };
+  ctx.json = (data: unknown): void => {
+    hold({ type: 'json', value: data });
+  };
+  ctx.html = (content: string): void => {
+    hold({ type: 'html', value: content });
+  };
+  ctx.send = (data: ResponseBody): void => {
+    if (typeof data === 'string' || data instanceof Uint8Array) {
+      hold({ type: 'send', value: data });
+    } else if (data instanceof ArrayBuffer) {
+      hold({ type: 'send', value: new Uint8Array(data) });
+    } else if (isPlainData(data)) {
+      hold({ type: 'json', value: data });
+    } else if (captured === undefined && !released) {
+      released = true;
+      send(data);
+    }
+  };
+
+  try {
+    await next();
+  } finally {
+    ctx.json = json;
+    ctx.html = html;
+    ctx.send = send;
+    ctx.set = set;
+  }
+
+  return captured && { ...captured, headers };
+}
+
+/** A plain object or array body — `send()` renders those as JSON. */
+function isPlainData(data: ResponseBody): data is Record<string, unknown> | unknown[] {
+  if (data === null || typeof data !== 'object') return false;
+  return (
+    typeof (data as { pipe?: unknown }).pipe !== 'function' &&
+    typeof (data as { getReader?: unknown }).getReader !== 'function'
+  );
+}
+
+/**
+ * The bytes a body goes out as. `undefined` for a JSON value with no JSON
+ * form (`ctx.json(undefined)`), which can be neither fingerprinted nor stored.
+ */
+export function bodyBytes(body: CachedBody): Uint8Array | undefined {
+  if (body.type !== 'json') return toBytes(body.value);
+  const text = JSON.stringify(body.value) as string | undefined;
+  return text === undefined ? undefined : toBytes(text);
+}
+
+/** Send a body through the response method it was captured from. */
+export function sendBody(ctx: Context, status: number, body: CachedBody): void {
+  ctx.status = status;
+  if (body.type === 'json') ctx.json(body.value);
+  else if (body.type === 'html') ctx.html(body.value);
+  else ctx.send(body.value);
+}
+
+/** Answer with `304 Not Modified` — no body, validators already set. */
+export function sendNotModified(ctx: Context): void {
+  ctx.status = 304;
+  ctx.send(null);
+}
@@ -0,0 +1,21 @@
+/**
+ * @nextrush/cache - Constants
+ *
+ * @packageDocumentation
+ */
+
+/** Default {@link MemoryStore} capacity, in entries. */
+export const DEFAULT_MAX_ENTRIES = 1000;
+
+/** Default largest body stored, in bytes (1 MiB). */
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/** Methods whose responses are conditional and cacheable. */
+export const CACHEABLE_METHODS: readonly string[] = ['GET', 'HEAD'];
+
+/**
+ * Headers that make a response unsafe to share between clients: a stored
+ * `Set-Cookie` would hand one user's session to the next, and a `Vary`ing
+ * response needs a key the default `ctx.url` key does not provide.
+ */
+export const UNSHAREABLE_HEADERS: readonly string[] = ['set-cookie', 'vary'];
@@ -0,0 +1,77 @@
+/**
+ * @nextrush/cache - ETag Generation and Conditional Requests
+ *
+ * Runtime-neutral: hashing goes through WebCrypto (`crypto.subtle`), available
+ * on Node.js 22+, Bun, Deno and edge runtimes alike.
+ *
+ * @packageDocumentation
+ */
+
+import type { Context } from './types';
+
+const encoder = new TextEncoder();
+
+/** Encode a string body as UTF-8 bytes; byte bodies pass through. */
+export function toBytes(body: string | Uint8Array): Uint8Array {
+  return typeof body === 'string' ? encoder.encode(body) : body;
+}
+
+/**
+ * Generate an `ETag` for a response body: the body length in hex and the
+ * base64 SHA-1 of its bytes, quoted — `"1b-Xr4ilOzQ4PCOq3aQ0qbuaQqBtFs"`.
+ * Weak tags carry the `W/` prefix.
+ *
+ * SHA-1 here is a content fingerprint, not a security boundary: an attacker
+ * who forges a collision only gets a `304` for a body they already know.
+ *
+ * @param body - Response body; strings are hashed as UTF-8.
+ * @param weak - Emit a weak validator (`W/"..."`).
+ */
+export async function generateETag(body: string | Uint8Array, weak = false): Promise<string> {
+  const bytes = toBytes(body);
+  const digest = new Uint8Array(
+    await crypto.subtle.digest('SHA-1', bytes as Uint8Array<ArrayBuffer>)
+  );
+  let binary = '';
+  for (const byte of digest) binary += String.fromCharCode(byte);
+  const hash = btoa(binary).slice(0, 27);
+  const tag = `"${bytes.byteLength.toString(16)}-${hash}"`;
+  return weak ? `W/${tag}` : tag;
+}
+
+/** Strip the weak prefix — `If-None-Match` always uses the weak comparison. */
+function opaque(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Whether a `GET`/`HEAD` request's validators match the response, so a
+ * `304 Not Modified` can replace it (RFC 9110 §13.1.2 and §13.1.3).
+ *
+ * `If-None-Match` wins when present: it matches `*` or any listed tag under
+ * the weak comparison. Only without it is `If-Modified-Since` compared with
+ * the response's `Last-Modified`, at one-second HTTP-date precision.
+ *
+ * @param ctx - Request context; only request headers are read.
+ * @param etag - The response `ETag`, if any.
+ * @param lastModified - The response `Last-Modified` header, if any.
+ */
+export function isNotModified(
+  ctx: Context,
+  etag: string | undefined,
+  lastModified: string | undefined
+): boolean {
+  const ifNoneMatch = ctx.get('if-none-match');
+  if (ifNoneMatch !== undefined) {
+    if (ifNoneMatch.trim() === '*') return true;
+    if (etag === undefined) return false;
+    const target = opaque(etag);
+    return ifNoneMatch.split(',').some((tag) => opaque(tag.trim()) === target);
+  }
+
+  const ifModifiedSince = ctx.get('if-modified-since');
+  if (ifModifiedSince === undefined || lastModified === undefined) return false;
+  const since = Date.parse(ifModifiedSince);
+  const modified = Date.parse(lastModified);
+  return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+}
@@ -0,0 +1,50 @@
+/**
+ * @nextrush/cache
+ *
+ * Response caching middleware for NextRush.
+ *
+ * Features:
+ * - Strong and weak ETag generation for `ctx.json()`/`ctx.html()`/`ctx.send()` bodies
+ * - `304 Not Modified` for matching `If-None-Match` / `If-Modified-Since`
+ * - Per-route `Cache-Control` policy, contributed as route metadata
+ * - In-memory LRU store with stale-while-revalidate and request coalescing
+ * - Pluggable store interface for shared backends
+ * - Multi-runtime: hashing via WebCrypto, no Node.js-only modules
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type {
+  CacheControlPolicy,
+  CachedBody,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  ETagMode,
+  HeaderValue,
+  MemoryStoreOptions,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export { DEFAULT_MAX_BODY_SIZE, DEFAULT_MAX_ENTRIES } from './constants';
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export { cache } from './middleware';
+export { cacheControl, formatCacheControl, parseCacheControl } from './cache-control';
+
+// ============================================================================
+// Stores & utilities
+// ============================================================================
+
+export { createMemoryStore, MemoryStore } from './memory-store';
+export { generateETag, isNotModified } from './etag';
@@ -0,0 +1,89 @@
+/**
+ * @nextrush/cache - In-Memory LRU Store
+ *
+ * @packageDocumentation
+ */
+
+import { DEFAULT_MAX_ENTRIES } from './constants';
+import type { CacheEntry, CacheStore, MemoryStoreOptions } from './types';
+
+/**
+ * In-memory response store with least-recently-used eviction.
+ *
+ * Recency is tracked by `Map` insertion order: a read re-inserts the entry at
+ * the end, so the first key is always the least recently used one. Entries
+ * past `staleUntil` are dropped lazily when read, or evicted by capacity like
+ * any other — no timer runs, so the store never keeps a process alive.
+ *
+ * Limitations:
+ * - Not shared across server instances — each keeps its own copy
+ * - Lost on restart
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryStore({ maxEntries: 500 });
+ * app.use(cache({ store }));
+ * ```
+ */
+export class MemoryStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  /**
+   * @throws {TypeError} When `maxEntries` is not a positive integer.
+   */
+  constructor(options: MemoryStoreOptions = {}) {
+    const { maxEntries = DEFAULT_MAX_ENTRIES } = options;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new TypeError(
+        `MemoryStore: maxEntries must be a positive integer, got ${String(maxEntries)}`
+      );
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  /** Number of entries currently held, expired ones included until touched. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(null);
+
+    this.entries.delete(key);
+    if (Date.now() >= entry.staleUntil) return Promise.resolve(null);
+
+    this.entries.set(key, entry);
+    return Promise.resolve(entry);
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done !== true) this.entries.delete(oldest.value);
+    }
+    this.entries.set(key, entry);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Create an in-memory LRU store.
+ *
+ * @param options - Store options
+ */
+export function createMemoryStore(options?: MemoryStoreOptions): MemoryStore {
+  return new MemoryStore(options);
+}
@@ -0,0 +1,239 @@
+/**
+ * @nextrush/cache - Middleware
+ *
+ * `cache()` adds validators and conditional GET to every `GET`/`HEAD`
+ * response, and — given a store — keeps responses whose `Cache-Control`
+ * allows a shared cache to, replaying them without running the handler.
+ *
+ * @packageDocumentation
+ */
+
+import type { Next } from '@nextrush/types';
+import { parseCacheControl } from './cache-control';
+import { bodyBytes, captureResponse, sendBody, sendNotModified } from './capture';
+import { CACHEABLE_METHODS, DEFAULT_MAX_BODY_SIZE, UNSHAREABLE_HEADERS } from './constants';
+import { generateETag, isNotModified } from './etag';
+import type {
+  CachedBody,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  Context,
+  ETagMode,
+  HeaderValue,
+  Middleware,
+} from './types';
+
+/** Default `onError` reporter. */
+function reportStoreError(error: unknown, ctx: Context): void {
+  console.warn(`[@nextrush/cache] Store failed for ${ctx.method} ${ctx.path}:`, error);
+}
+
+/** First value of a recorded header, as a string. */
+function headerString(value: HeaderValue | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return String(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Create response caching middleware.
+ *
+ * Every `200` response to `GET`/`HEAD` sent through `ctx.json()`, `ctx.html()`
+ * or `ctx.send()` gets an `ETag` (unless the handler set one) and is answered
+ * with `304 Not Modified` when the request's `If-None-Match` — or, without
+ * it, `If-Modified-Since` against a handler-set `Last-Modified` — matches.
+ *
+ * With a `store`, a response is kept when its `Cache-Control` (set by the
+ * handler or by `cacheControl()` on the route) has a positive `s-maxage` or
+ * `max-age` and no `private`, `no-cache` or `no-store`. Responses that set
+ * cookies or `Vary`, and requests carrying `Authorization`, bypass the store.
+ *
+ * Concurrent misses on one key are coalesced: the first request runs the
+ * handler and the rest wait for its response. Once an entry is stale but
+ * inside its `stale-while-revalidate` window, the next request revalidates it
+ * in the foreground while every request arriving meanwhile is served the
+ * stale copy — a thundering herd costs exactly one handler invocation.
+ *
+ * @example
+ * ```typescript
+ * app.use(cache({ store: createMemoryStore({ maxEntries: 500 }) }));
+ *
+ * router.get('/reports/:id',
+ *   cacheControl({ public: true, maxAge: 60, staleWhileRevalidate: 300 }),
+ *   async (ctx) => ctx.json(await buildReport(ctx.params.id)),
+ * );
+ * ```
+ *
+ * @param options - ETag mode, store, key, and size limit options.
+ */
+export function cache(options: CacheOptions = {}): Middleware {
+  const etagMode = options.etag ?? 'strong';
+  const store = options.store;
+  const keyOf = options.key ?? ((ctx: Context): string => ctx.url);
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  const onError = options.onError ?? reportStoreError;
+
+  // Keys whose handler is running, mapped to the entry it will produce —
+  // `null` when the response turns out not to be storable or the chain throws.
+  const inflight = new Map<string, Promise<CacheEntry | null>>();
+
+  return async (ctx: Context, next: Next): Promise<void> => {
+    if (!CACHEABLE_METHODS.includes(ctx.method)) {
+      await next();
+      return;
+    }
+
+    if (store === undefined || ctx.get('authorization') !== undefined) {
+      await respond(ctx, next, etagMode, maxBodySize);
+      return;
+    }
+
+    const key = keyOf(ctx);
+    const entry = await read(store, key, ctx, onError);
+    const now = Date.now();
+    if (entry !== null && now < entry.freshUntil) {
+      replay(ctx, entry, now);
+      return;
+    }
+
+    const pending = inflight.get(key);
+    if (pending !== undefined) {
+      if (entry !== null) {
+        replay(ctx, entry, now);
+        return;
+      }
+      const shared = await pending;
+      if (shared !== null) {
+        replay(ctx, shared, Date.now());
+        return;
+      }
+      await respond(ctx, next, etagMode, maxBodySize);
+      return;
+    }
+
+    const run = respond(ctx, next, etagMode, maxBodySize).then(async (fresh) => {
+      if (fresh !== null) await write(store, key, fresh, ctx, onError);
+      return fresh;
+    });
+    // Waiters only need the outcome; the rejection itself belongs to this request.
+    const settled = run.catch((): null => null);
+    inflight.set(key, settled);
+    try {
+      await run;
+    } finally {
+      inflight.delete(key);
+    }
+  };
+}
+
+/** Read an entry, treating a store failure — or an entry past `staleUntil` — as a miss. */
+async function read(
+  store: CacheStore,
+  key: string,
+  ctx: Context,
+  onError: (error: unknown, ctx: Context) => void
+): Promise<CacheEntry | null> {
+  try {
+    const entry = await store.get(key);
+    return entry !== null && Date.now() < entry.staleUntil ? entry : null;
+  } catch (error) {
+    onError(error, ctx);
+    return null;
+  }
+}
+
+/** Write an entry; a store failure only costs the next request a miss. */
+async function write(
+  store: CacheStore,
+  key: string,
+  entry: CacheEntry,
+  ctx: Context,
+  onError: (error: unknown, ctx: Context) => void
+): Promise<void> {
+  try {
+    await store.set(key, entry);
+  } catch (error) {
+    onError(error, ctx);
+  }
+}
+
+/**
+ * Run the handler chain, then send its response with an `ETag` — or a `304`
+ * when the request's validators match.
+ *
+ * @returns The entry to store, or `null` when the response is not storable.
+ */
+async function respond(
+  ctx: Context,
+  next: Next,
+  etagMode: ETagMode,
+  maxBodySize: number
+): Promise<CacheEntry | null> {
+  const captured = await captureResponse(ctx, next);
+  if (captured === undefined) return null;
+
+  const { status, body, headers } = captured;
+  const bytes = bodyBytes(body);
+  let etag = headerString(headers.etag);
+  if (etag === undefined && etagMode !== false && status === 200 && bytes !== undefined) {
+    etag = await generateETag(bytes, etagMode === 'weak');
+    ctx.set('ETag', etag);
+  }
+
+  if (status === 200 && isNotModified(ctx, etag, headerString(headers['last-modified']))) {
+    sendNotModified(ctx);
+  } else {
+    sendBody(ctx, status, body);
+  }
+
+  if (status !== 200 || bytes === undefined || bytes.byteLength > maxBodySize) return null;
+  if (UNSHAREABLE_HEADERS.some((name) => name in headers)) return null;
+
+  const cacheControl = headerString(headers['cache-control']);
+  if (cacheControl === undefined) return null;
+  const policy = parseCacheControl(cacheControl);
+  if (policy.noStore === true || policy.private === true || policy.noCache === true) return null;
+  const ttl = policy.sMaxAge ?? policy.maxAge ?? 0;
+  if (ttl <= 0) return null;
+
+  const storedAt = Date.now();
+  const freshUntil = storedAt + ttl * 1000;
+  const swr = policy.mustRevalidate === true ? 0 : (policy.staleWhileRevalidate ?? 0);
+
+  return {
+    status,
+    body: snapshot(body),
+    headers,
+    ...(etag === undefined ? {} : { etag }),
+    size: bytes.byteLength,
+    storedAt,
+    freshUntil,
+    staleUntil: freshUntil + swr * 1000,
+  };
+}
+
+/**
+ * Detach a stored body from the handler's objects: a JSON value is kept as
+ * its serialized form, so later mutation by the handler (or by a caller of a
+ * shared object) can never change what is replayed.
+ */
+function snapshot(body: CachedBody): CachedBody {
+  if (body.type !== 'json') return body;
+  return { type: 'json', value: JSON.parse(JSON.stringify(body.value)) as unknown };
+}
+
+/** Answer a request from a stored entry, with the entry's age. */
+function replay(ctx: Context, entry: CacheEntry, now: number): void {
+  for (const [name, value] of Object.entries(entry.headers)) ctx.set(name, value);
+  if (entry.etag !== undefined) ctx.set('ETag', entry.etag);
+  ctx.set('Age', Math.max(0, Math.floor((now - entry.storedAt) / 1000)));
+
+  if (
+    entry.status === 200 &&
+    isNotModified(ctx, entry.etag, headerString(entry.headers['last-modified']))
+  ) {
+    sendNotModified(ctx);
+    return;
+  }
+  sendBody(ctx, entry.status, entry.body);
+}
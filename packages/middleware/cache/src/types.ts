@@ -0,0 +1,124 @@
+/**
+ * @nextrush/cache - Type Definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { CacheControlPolicy, Context, Middleware } from '@nextrush/types';
+
+export type { CacheControlPolicy, Context, Middleware };
+
+/**
+ * How the `ETag` of a response is generated.
+ *
+ * - `'strong'` — `"<hash>"`: byte-for-byte identity. Required for `Range`
+ *   requests and safe whenever nothing downstream rewrites the body.
+ * - `'weak'` — `W/"<hash>"`: semantic equivalence only. Use it when a proxy or
+ *   middleware further out (compression, minification) may transform the bytes.
+ * - `false` — generate no `ETag`; a handler-set `ETag` is still honored.
+ */
+export type ETagMode = 'strong' | 'weak' | false;
+
+/** A response header value as accepted by `ctx.set()`. */
+export type HeaderValue = string | number | string[];
+
+/**
+ * A response body captured from `ctx.json()`, `ctx.html()` or `ctx.send()`,
+ * replayed through the same method on a cache hit.
+ */
+export type CachedBody =
+  | { readonly type: 'json'; readonly value: unknown }
+  | { readonly type: 'html'; readonly value: string }
+  | { readonly type: 'send'; readonly value: string | Uint8Array };
+
+/** A stored response. Timestamps are epoch milliseconds. */
+export interface CacheEntry {
+  readonly status: number;
+  readonly body: CachedBody;
+  /** Headers the handler chain set through `ctx.set()`, keyed by lowercase name. */
+  readonly headers: Readonly<Record<string, HeaderValue>>;
+  /** The `ETag` sent with the response — generated or handler-set. */
+  readonly etag?: string;
+  /** Body size in bytes. */
+  readonly size: number;
+  readonly storedAt: number;
+  /** Served as-is until this instant. */
+  readonly freshUntil: number;
+  /**
+   * Served stale while one request revalidates, until this instant. Equal to
+   * `freshUntil` when the policy declares no `stale-while-revalidate`.
+   */
+  readonly staleUntil: number;
+}
+
+/**
+ * Storage backend for cached responses.
+ *
+ * A store only keeps entries; freshness and revalidation are decided by the
+ * middleware from the entry timestamps. An entry may be dropped once
+ * `staleUntil` has passed.
+ *
+ * @example
+ * ```typescript
+ * class RedisCacheStore implements CacheStore {
+ *   async get(key) { ... }
+ *   async set(key, entry) { ... }
+ *   async delete(key) { ... }
+ *   async clear() { ... }
+ * }
+ * ```
+ */
+export interface CacheStore {
+  /** Get an entry, or `null` when absent or past `staleUntil`. */
+  get(key: string): Promise<CacheEntry | null>;
+  /** Store an entry, replacing any previous one under `key`. */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Remove an entry. */
+  delete(key: string): Promise<void>;
+  /** Remove every entry. */
+  clear(): Promise<void>;
+}
+
+/** Options for {@link MemoryStore}. */
+export interface MemoryStoreOptions {
+  /**
+   * Maximum number of entries; the least recently used entry is evicted first.
+   * @default 1000
+   */
+  maxEntries?: number;
+}
+
+/** Options for the {@link cache} middleware. */
+export interface CacheOptions {
+  /**
+   * `ETag` generation for `200` responses sent through `ctx.json()`,
+   * `ctx.html()` or `ctx.send()`.
+   * @default 'strong'
+   */
+  etag?: ETagMode;
+
+  /**
+   * Where to keep responses. Without a store the middleware only does
+   * conditional GET (`ETag` plus `304 Not Modified`).
+   */
+  store?: CacheStore;
+
+  /**
+   * Cache key for a request. `GET` and `HEAD` share an entry.
+   * @default (ctx) => ctx.url
+   */
+  key?: (ctx: Context) => string;
+
+  /**
+   * Largest body, in bytes, that is stored. Bigger responses are still sent
+   * and `ETag`ged, never stored.
+   * @default 1048576 (1 MiB)
+   */
+  maxBodySize?: number;
+
+  /**
+   * Called when the store rejects. The request carries on as a cache miss.
+   * Defaults to a `console.warn` report.
+   */
+  onError?: (error: unknown, ctx: Context) => void;
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['esm'],
+  dts: true,
+  clean: true,
+  sourcemap: true,
+  minify: false,
+  target: 'es2022',
+  outDir: 'dist',
+  tsconfig: 'tsconfig.build.json',
+});
@@ -6,13 +6,14 @@
  * - Content negotiation (parseAcceptEncoding, negotiateEncoding, selectEncoding)
  * - Content type detection (isCompressible, isAlreadyCompressed, etc.)
  * - Compressor functions (compress, compressData, detectCapabilities)
- * - Middleware (compression, gzip, deflate, brotli)
+ * - Middleware (compression, gzip, deflate, brotli, zstd)
  * - Error handling and edge cases
  *
  * @packageDocumentation
  */
 
 import type { Context } from '@nextrush/types';
+import { zstdDecompressSync } from 'node:zlib';
 import { describe, expect, it } from 'vitest';
 
 // ============================================================================
@@ -81,6 +82,7 @@ import {
   gzip,
   secureCompressionOptions,
   wasCompressed,
+  zstd,
 } from '../middleware.js';
 
 // Types
@@ -209,6 +211,7 @@ describe('Constants', () => {
   describe('COMPRESSION_ENCODINGS', () => {
     it('should define all supported encodings', () => {
       expect(COMPRESSION_ENCODINGS.BROTLI).toBe('br');
+      expect(COMPRESSION_ENCODINGS.ZSTD).toBe('zstd');
       expect(COMPRESSION_ENCODINGS.GZIP).toBe('gzip');
       expect(COMPRESSION_ENCODINGS.DEFLATE).toBe('deflate');
     });
@@ -221,6 +224,9 @@ describe('Constants', () => {
       expect(ENCODING_PRIORITY).toContain('deflate');
       // br should have highest priority (highest index)
       expect(ENCODING_PRIORITY.indexOf('br')).toBeGreaterThan(ENCODING_PRIORITY.indexOf('gzip'));
+      // zstd sits between them
+      expect(ENCODING_PRIORITY.indexOf('zstd')).toBeGreaterThan(ENCODING_PRIORITY.indexOf('gzip'));
+      expect(ENCODING_PRIORITY.indexOf('zstd')).toBeLessThan(ENCODING_PRIORITY.indexOf('br'));
     });
   });
 
@@ -295,6 +301,7 @@ describe('Constants', () => {
       expect(DEFAULT_OPTIONS.gzip).toBe(true);
       expect(DEFAULT_OPTIONS.deflate).toBe(true);
       expect(DEFAULT_OPTIONS.brotli).toBe(true);
+      expect(DEFAULT_OPTIONS.zstd).toBe(true);
     });
 
     it('should use correct defaults', () => {
@@ -425,6 +432,20 @@ describe('Content Negotiation', () => {
       expect(result.encoding).toBe('br'); // Highest priority
     });
 
+    it('should negotiate zstd when the client asks for it', () => {
+      expect(negotiateEncoding('zstd, gzip;q=0.5', {}).encoding).toBe('zstd');
+      expect(negotiateEncoding('gzip, zstd', {}).encoding).toBe('zstd');
+    });
+
+    it('should prefer brotli over zstd at equal quality', () => {
+      expect(negotiateEncoding('zstd, br', {}).encoding).toBe('br');
+      expect(negotiateEncoding('zstd, br', { brotli: false }).encoding).toBe('zstd');
+    });
+
+    it('should skip zstd when disabled on server', () => {
+      expect(negotiateEncoding('zstd, gzip;q=0.5', { zstd: false }).encoding).toBe('gzip');
+    });
+
     it('should return accepted encodings list', () => {
       const result = negotiateEncoding('gzip, br', { brotli: true });
       expect(result.accepted.length).toBeGreaterThan(0);
@@ -510,7 +531,12 @@ describe('Content Negotiation', () => {
 
     it('should return all for wildcard', () => {
       const encodings = getAcceptedEncodings('*');
-      expect(encodings).toEqual(['br', 'gzip', 'deflate']);
+      expect(encodings).toEqual(['br', 'zstd', 'gzip', 'deflate']);
+    });
+
+    it('should include zstd', () => {
+      expect(getAcceptedEncodings('zstd, gzip;q=0.5')).toEqual(['zstd', 'gzip']);
+      expect(acceptsCompression('zstd')).toBe(true);
     });
 
     it('should filter non-compression encodings', () => {
@@ -734,6 +760,7 @@ describe('Compressor', () => {
       expect(caps).toHaveProperty('hasCompressionStreams');
       expect(caps).toHaveProperty('hasNodeZlib');
       expect(caps).toHaveProperty('hasBrotli');
+      expect(caps).toHaveProperty('hasZstd');
       expect(caps).toHaveProperty('runtime');
     });
 
@@ -757,6 +784,10 @@ describe('Compressor', () => {
     it('should return true for brotli in Node.js', () => {
       expect(isEncodingSupported('br')).toBe(true);
     });
+
+    it('should report zstd where node:zlib provides it', () => {
+      expect(isEncodingSupported('zstd')).toBe(typeof zstdDecompressSync === 'function');
+    });
   });
 
   describe('compress', () => {
@@ -780,6 +811,13 @@ describe('Compressor', () => {
       expect(result.info.encoding).toBe('br');
     });
 
+    it.runIf(isEncodingSupported('zstd'))('should compress string data with zstd', async () => {
+      const result = await compress(testData, 'zstd');
+      expect(result.data.length).toBeLessThan(testBuffer.length);
+      expect(result.info.encoding).toBe('zstd');
+      expect(new TextDecoder().decode(zstdDecompressSync(result.data))).toBe(testData);
+    });
+
     it('should compress Uint8Array data', async () => {
       const result = await compress(testBuffer, 'gzip');
       expect(result.data.length).toBeLessThan(testBuffer.length);
@@ -1131,6 +1169,35 @@ describe('Middleware', () => {
       const middleware = brotli();
       expect(typeof middleware).toBe('function');
     });
+
+    it('should not fall through to zstd when br is not accepted', async () => {
+      const middleware = brotli({ threshold: 0 });
+      const ctx = createMockContext({
+        headers: { 'accept-encoding': 'zstd' },
+      });
+      ctx._test.setBody('test data '.repeat(200));
+      ctx._test.getResponseHeaders().set('content-type', 'text/plain');
+
+      await middleware(ctx);
+
+      expect(ctx._test.getResponseHeaders().get('content-encoding')).toBeUndefined();
+    });
+  });
+
+  describe('zstd', () => {
+    it.runIf(isEncodingSupported('zstd'))('should use zstd even when br is preferred by client', async () => {
+      const middleware = zstd({ threshold: 0 });
+      const ctx = createMockContext({
+        headers: { 'accept-encoding': 'br, zstd;q=0.5' },
+      });
+      ctx._test.setBody('test data '.repeat(200));
+      ctx._test.getResponseHeaders().set('content-type', 'text/plain');
+
+      await middleware(ctx);
+
+      expect(ctx._test.getResponseHeaders().get('content-encoding')).toBe('zstd');
+      expect(ctx._test.getResponseHeaders().get('vary')).toBe('Accept-Encoding');
+    });
   });
 
   describe('getCompressionInfo', () => {
@@ -1434,15 +1501,17 @@ describe('Production Readiness', () => {
 
   describe('Negotiation sort stability (P2-1)', () => {
     it('should not give unknown encodings higher priority than known ones', () => {
-      // "zstd" is not in ENCODING_PRIORITY, should sort below known encodings
-      const result = parseAcceptEncoding('gzip, deflate, zstd');
+      // "compress" is not in ENCODING_PRIORITY, should sort below known encodings
+      const result = parseAcceptEncoding('compress, gzip, deflate, zstd');
       const gzipIdx = result.findIndex((e) => e.encoding === 'gzip');
       const deflateIdx = result.findIndex((e) => e.encoding === 'deflate');
       const zstdIdx = result.findIndex((e) => e.encoding === 'zstd');
+      const compressIdx = result.findIndex((e) => e.encoding === 'compress');
 
       // All have quality=1. Known encodings should appear before unknown.
-      expect(gzipIdx).toBeLessThan(zstdIdx);
-      expect(deflateIdx).toBeLessThan(zstdIdx);
+      expect(gzipIdx).toBeLessThan(compressIdx);
+      expect(deflateIdx).toBeLessThan(compressIdx);
+      expect(zstdIdx).toBeLessThan(compressIdx);
     });
 
     it('should handle identity encoding in priority sort', () => {
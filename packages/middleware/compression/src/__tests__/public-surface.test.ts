@@ -7,7 +7,7 @@
  */
 import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as compressionApi from '../index';
-import { CompressionErrorCode, COMPRESSION_ENCODINGS, DEFAULT_COMPRESSIBLE_TYPES, DEFAULT_COMPRESSION_LEVEL, DEFAULT_EXCLUDED_TYPES, DEFAULT_OPTIONS, DEFAULT_THRESHOLD, ENCODING_PRIORITY, MAX_BROTLI_LEVEL, MAX_COMPRESSION_RATIO, MAX_IN_MEMORY_SIZE, MAX_ZLIB_LEVEL, NO_BODY_METHODS, NO_COMPRESS_STATUS_CODES, VARY_HEADER } from '../index';
+import { CompressionErrorCode, COMPRESSION_ENCODINGS, DEFAULT_COMPRESSIBLE_TYPES, DEFAULT_COMPRESSION_LEVEL, DEFAULT_EXCLUDED_TYPES, DEFAULT_OPTIONS, DEFAULT_THRESHOLD, ENCODING_PRIORITY, MAX_BROTLI_LEVEL, MAX_COMPRESSION_RATIO, MAX_IN_MEMORY_SIZE, MAX_ZLIB_LEVEL, MAX_ZSTD_LEVEL, NO_BODY_METHODS, NO_COMPRESS_STATUS_CODES, VARY_HEADER } from '../index';
 import type { AcceptEncodingEntry, CompressionAlgorithm, CompressionEncoding, CompressionErrorCodeType, CompressionInfo, CompressionMiddleware, CompressionOptions, CompressionResult, CompressionState, NegotiationResult, ResolvedCompressionOptions, RuntimeCapabilities, WebCompressionFormat } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
@@ -23,6 +23,7 @@ describe('Public API surface (runtime exports)', () => {
       'gzip',
       'secureCompressionOptions',
       'wasCompressed',
+      'zstd',
       'compress',
       'compressData',
       'compressToBuffer',
@@ -58,6 +59,7 @@ describe('Public API surface (runtime exports)', () => {
       'MAX_COMPRESSION_RATIO',
       'MAX_IN_MEMORY_SIZE',
       'MAX_ZLIB_LEVEL',
+      'MAX_ZSTD_LEVEL',
       'NO_BODY_METHODS',
       'NO_COMPRESS_STATUS_CODES',
       'VARY_HEADER',
@@ -79,6 +81,7 @@ describe('Public API surface (runtime exports)', () => {
     expect(typeof MAX_COMPRESSION_RATIO).toBe('number');
     expect(typeof MAX_IN_MEMORY_SIZE).toBe('number');
     expect(typeof MAX_ZLIB_LEVEL).toBe('number');
+    expect(typeof MAX_ZSTD_LEVEL).toBe('number');
     expect(typeof NO_BODY_METHODS === 'object').toBe(true);
     expect(typeof NO_COMPRESS_STATUS_CODES === 'object').toBe(true);
     expect(typeof VARY_HEADER).toBe('string');
@@ -2,7 +2,7 @@
  * @nextrush/compression - Compressor
  *
  * Multi-runtime compression implementation using Web Compression Streams API
- * with fallback to Node.js zlib for Brotli support.
+ * with fallback to Node.js zlib for Brotli and zstd support.
  *
  * @packageDocumentation
  */
@@ -12,6 +12,7 @@ import {
   MAX_BROTLI_LEVEL,
   MAX_COMPRESSION_RATIO,
   MAX_ZLIB_LEVEL,
+  MAX_ZSTD_LEVEL,
 } from './constants.js';
 import {
   CompressionError,
@@ -41,6 +42,20 @@ function hasGlobal(name: string): boolean {
   }
 }
 
+/**
+ * Whether Node's zlib has Zstandard (Node.js 22.15+ and 23.8+).
+ *
+ * Read through `process.getBuiltinModule()` because capability detection is
+ * synchronous and this is an ES module.
+ */
+function hasNodeZstd(): boolean {
+  // `getBuiltinModule` itself only exists from Node.js 20.16 / 22.3.
+  const { getBuiltinModule } = process as {
+    getBuiltinModule?: (id: string) => Partial<typeof import('node:zlib')> | undefined;
+  };
+  return typeof getBuiltinModule?.('node:zlib')?.zstdCompress === 'function';
+}
+
 // ============================================================================
 // Runtime Detection
 // ============================================================================
@@ -71,6 +86,7 @@ export function detectCapabilities(): RuntimeCapabilities {
   // Check for Node.js zlib
   let hasNodeZlib = false;
   let hasBrotli = false;
+  let hasZstd = false;
 
   // Detect runtime
   let runtime: RuntimeCapabilities['runtime'] = 'unknown';
@@ -79,6 +95,7 @@ export function detectCapabilities(): RuntimeCapabilities {
     runtime = 'node';
     hasNodeZlib = true;
     hasBrotli = true; // Node.js has native Brotli
+    hasZstd = hasNodeZstd();
   } else if (typeof process !== 'undefined' && process.versions?.bun) {
     runtime = 'bun';
     hasBrotli = true; // Bun supports Brotli via CompressionStream
@@ -97,6 +114,7 @@ export function detectCapabilities(): RuntimeCapabilities {
     hasCompressionStreams,
     hasNodeZlib,
     hasBrotli,
+    hasZstd,
     runtime,
   };
 
@@ -115,6 +133,8 @@ export function isEncodingSupported(encoding: CompressionEncoding): boolean {
   switch (encoding) {
     case 'br':
       return caps.hasBrotli;
+    case 'zstd':
+      return caps.hasZstd;
     case 'gzip':
     case 'deflate':
       return caps.hasCompressionStreams || caps.hasNodeZlib;
@@ -173,7 +193,7 @@ async function compressWithWebStreams(
 }
 
 // ============================================================================
-// Node.js zlib Implementation (for Brotli)
+// Node.js zlib Implementation (for Brotli and zstd)
 // ============================================================================
 
 /**
@@ -206,6 +226,16 @@ async function compressWithNodeZlib(
       return new Uint8Array(compressed);
     }
 
+    case 'zstd': {
+      const zstdCompress = promisify(zlib.zstdCompress);
+      const compressed = await zstdCompress(buffer, {
+        params: {
+          [zlib.constants.ZSTD_c_compressionLevel]: Math.min(level, MAX_ZSTD_LEVEL),
+        },
+      });
+      return new Uint8Array(compressed);
+    }
+
     case 'gzip': {
       const gzip = promisify(zlib.gzip);
       const compressed = await gzip(buffer, {
@@ -281,7 +311,7 @@ export async function compress(
     if ((encoding === 'gzip' || encoding === 'deflate') && caps.hasCompressionStreams) {
       compressed = await compressWithWebStreams(inputData, encoding);
     }
-    // Use Node.js zlib for all encodings (including Brotli)
+    // Use Node.js zlib for all encodings (including Brotli and zstd)
     else if (caps.hasNodeZlib) {
       compressed = await compressWithNodeZlib(inputData, encoding, level);
     }
@@ -391,6 +421,7 @@ export function estimateCompressedSize(
   // Base ratios for different encodings
   const baseRatios: Record<CompressionEncoding, number> = {
     br: 0.2, // Brotli typically achieves best compression
+    zstd: 0.22, // zstd trades a little ratio for much faster compression
     gzip: 0.3, // Gzip is good for most content
     deflate: 0.32, // Deflate similar to gzip
   };
@@ -438,7 +469,7 @@ export function isCompressionBeneficial(originalSize: number, threshold: number
  * @returns Best available encoding or null
  */
 export function getBestAvailableEncoding(
-  preferred: CompressionEncoding[] = ['br', 'gzip', 'deflate']
+  preferred: CompressionEncoding[] = ['br', 'zstd', 'gzip', 'deflate']
 ): CompressionEncoding | null {
   for (const encoding of preferred) {
     if (isEncodingSupported(encoding)) {
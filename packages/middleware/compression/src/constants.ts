@@ -17,6 +17,8 @@
 export const COMPRESSION_ENCODINGS = {
   /** Brotli - best compression, limited runtime support */
   BROTLI: 'br',
+  /** Zstandard - fast, near-Brotli compression, newest runtimes only */
+  ZSTD: 'zstd',
   /** Gzip - universal support, good compression */
   GZIP: 'gzip',
   /** Deflate - universal support, fast compression */
@@ -27,7 +29,7 @@ export const COMPRESSION_ENCODINGS = {
  * Encoding priority for content negotiation.
  * Higher index = higher priority.
  */
-export const ENCODING_PRIORITY: readonly string[] = ['deflate', 'gzip', 'br'];
+export const ENCODING_PRIORITY: readonly string[] = ['deflate', 'gzip', 'zstd', 'br'];
 
 // ============================================================================
 // Compression Levels
@@ -49,6 +51,11 @@ export const MAX_ZLIB_LEVEL = 9;
  */
 export const MAX_BROTLI_LEVEL = 11;
 
+/**
+ * Maximum compression level for zstd.
+ */
+export const MAX_ZSTD_LEVEL = 22;
+
 /**
  * Minimum compression level.
  */
@@ -220,7 +227,9 @@ export const DEFAULT_OPTIONS = {
   deflate: true,
   /** Enable brotli compression (where supported) */
   brotli: true,
-  /** Compression level (0-9 for gzip/deflate, 0-11 for brotli) */
+  /** Enable zstd compression (where supported) */
+  zstd: true,
+  /** Compression level (0-9 for gzip/deflate, 0-11 for brotli, 1-22 for zstd) */
   level: DEFAULT_COMPRESSION_LEVEL,
   /** Minimum response size to compress */
   threshold: DEFAULT_THRESHOLD,
@@ -2,7 +2,7 @@
  * @nextrush/compression
  *
  * High-performance, multi-runtime response compression middleware for NextRush.
- * Supports Gzip, Deflate, and Brotli with automatic content negotiation.
+ * Supports Gzip, Deflate, Brotli and Zstandard with automatic content negotiation.
  *
  * Features:
  * - Web Compression Streams API for runtime compatibility
@@ -45,6 +45,7 @@ export {
   gzip,
   secureCompressionOptions,
   wasCompressed,
+  zstd,
 } from './middleware.js';
 
 export { compression as default } from './middleware.js';
@@ -110,6 +111,7 @@ export {
   MAX_COMPRESSION_RATIO,
   MAX_IN_MEMORY_SIZE,
   MAX_ZLIB_LEVEL,
+  MAX_ZSTD_LEVEL,
   NO_BODY_METHODS,
   NO_COMPRESS_STATUS_CODES,
   VARY_HEADER,
@@ -65,8 +65,9 @@ function resolveOptions(options: CompressionOptions = {}): ResolvedCompressionOp
   return {
     gzip: options.gzip ?? DEFAULT_OPTIONS.gzip,
     deflate: options.deflate ?? DEFAULT_OPTIONS.deflate,
-    // Only enable brotli if runtime supports it
+    // Only enable brotli and zstd if runtime supports them
     brotli: (options.brotli ?? DEFAULT_OPTIONS.brotli) && caps.hasBrotli,
+    zstd: (options.zstd ?? DEFAULT_OPTIONS.zstd) && caps.hasZstd,
     level: options.level ?? DEFAULT_OPTIONS.level,
     threshold: options.threshold ?? DEFAULT_OPTIONS.threshold,
     contentTypes: options.contentTypes ?? DEFAULT_OPTIONS.contentTypes,
@@ -359,17 +360,18 @@ export function compression(options: CompressionOptions = {}): CompressionMiddle
  * app.use(gzip({ level: 9 }));
  * ```
  *
- * @param options - Compression options (gzip, deflate, brotli ignored)
+ * @param options - Compression options (gzip, deflate, brotli, zstd ignored)
  * @returns Gzip compression middleware
  */
 export function gzip(
-  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli'> = {}
+  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli' | 'zstd'> = {}
 ): Middleware {
   return compression({
     ...options,
     gzip: true,
     deflate: false,
     brotli: false,
+    zstd: false,
   });
 }
 
@@ -381,17 +383,18 @@ export function gzip(
  * app.use(deflate({ level: 6 }));
  * ```
  *
- * @param options - Compression options (gzip, deflate, brotli ignored)
+ * @param options - Compression options (gzip, deflate, brotli, zstd ignored)
  * @returns Deflate compression middleware
  */
 export function deflate(
-  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli'> = {}
+  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli' | 'zstd'> = {}
 ): Middleware {
   return compression({
     ...options,
     gzip: false,
     deflate: true,
     brotli: false,
+    zstd: false,
   });
 }
 
@@ -406,17 +409,45 @@ export function deflate(
  * app.use(brotli({ level: 4 })); // Level 4 is good balance for dynamic content
  * ```
  *
- * @param options - Compression options (gzip, deflate, brotli ignored)
+ * @param options - Compression options (gzip, deflate, brotli, zstd ignored)
  * @returns Brotli compression middleware
  */
 export function brotli(
-  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli'> = {}
+  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli' | 'zstd'> = {}
 ): Middleware {
   return compression({
     ...options,
     gzip: false,
     deflate: false,
     brotli: true,
+    zstd: false,
+  });
+}
+
+/**
+ * Zstandard-only compression middleware.
+ *
+ * Note: zstd is only available where the runtime's zlib provides it
+ * (Node.js 22.15+ and 23.8+). Elsewhere this middleware will not compress
+ * responses.
+ *
+ * @example
+ * ```typescript
+ * app.use(zstd({ level: 3 }));
+ * ```
+ *
+ * @param options - Compression options (gzip, deflate, brotli, zstd ignored)
+ * @returns Zstandard compression middleware
+ */
+export function zstd(
+  options: Omit<CompressionOptions, 'gzip' | 'deflate' | 'brotli' | 'zstd'> = {}
+): Middleware {
+  return compression({
+    ...options,
+    gzip: false,
+    deflate: false,
+    brotli: false,
+    zstd: true,
   });
 }
 
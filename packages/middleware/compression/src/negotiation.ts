@@ -154,7 +154,7 @@ export function getEncodingQuality(header: string | null | undefined, encoding:
  */
 export function negotiateEncoding(
   acceptEncoding: string | null | undefined,
-  options: Pick<CompressionOptions, 'brotli' | 'gzip' | 'deflate'>
+  options: Pick<CompressionOptions, 'brotli' | 'zstd' | 'gzip' | 'deflate'>
 ): NegotiationResult {
   const accepted = parseAcceptEncoding(acceptEncoding);
 
@@ -165,6 +165,7 @@ export function negotiateEncoding(
   // Build list of server-supported encodings
   const serverSupported = new Set<string>();
   if (options.brotli !== false) serverSupported.add('br');
+  if (options.zstd !== false) serverSupported.add('zstd');
   if (options.gzip !== false) serverSupported.add('gzip');
   if (options.deflate !== false) serverSupported.add('deflate');
 
@@ -179,10 +180,13 @@ export function negotiateEncoding(
 
     // Handle wildcard - return highest priority server encoding
     if (entry.encoding === '*') {
-      // Return based on priority: br > gzip > deflate
+      // Return based on priority: br > zstd > gzip > deflate
       if (serverSupported.has('br')) {
         return { encoding: 'br', accepted };
       }
+      if (serverSupported.has('zstd')) {
+        return { encoding: 'zstd', accepted };
+      }
       if (serverSupported.has('gzip')) {
         return { encoding: 'gzip', accepted };
       }
@@ -204,7 +208,7 @@ export function negotiateEncoding(
  */
 export function selectEncoding(
   acceptEncoding: string | null | undefined,
-  options: Pick<CompressionOptions, 'brotli' | 'gzip' | 'deflate'>
+  options: Pick<CompressionOptions, 'brotli' | 'zstd' | 'gzip' | 'deflate'>
 ): CompressionEncoding | null {
   return negotiateEncoding(acceptEncoding, options).encoding;
 }
@@ -230,6 +234,7 @@ export function acceptsCompression(header: string | null | undefined): boolean {
       entry.encoding === 'gzip' ||
       entry.encoding === 'deflate' ||
       entry.encoding === 'br' ||
+      entry.encoding === 'zstd' ||
       entry.encoding === '*'
   );
 }
@@ -247,11 +252,16 @@ export function getAcceptedEncodings(header: string | null | undefined): Compres
   const compressionEncodings: CompressionEncoding[] = [];
 
   for (const entry of entries) {
-    if (entry.encoding === 'gzip' || entry.encoding === 'deflate' || entry.encoding === 'br') {
+    if (
+      entry.encoding === 'gzip' ||
+      entry.encoding === 'deflate' ||
+      entry.encoding === 'br' ||
+      entry.encoding === 'zstd'
+    ) {
       compressionEncodings.push(entry.encoding);
     } else if (entry.encoding === '*') {
       // Wildcard accepts all - return all in priority order
-      return ['br', 'gzip', 'deflate'];
+      return ['br', 'zstd', 'gzip', 'deflate'];
     }
   }
 
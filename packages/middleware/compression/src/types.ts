@@ -15,7 +15,7 @@ import type { Context, Middleware } from '@nextrush/types';
 /**
  * Compression encoding types.
  */
-export type CompressionEncoding = 'gzip' | 'deflate' | 'br';
+export type CompressionEncoding = 'gzip' | 'deflate' | 'br' | 'zstd';
 
 /**
  * Compression algorithm (alias for encoding).
@@ -56,10 +56,19 @@ export interface CompressionOptions {
    */
   brotli?: boolean;
 
+  /**
+   * Enable Zstandard compression.
+   * Note: zstd is only available where the runtime's zlib provides it
+   * (Node.js 22.15+ and 23.8+); elsewhere it is never negotiated.
+   * @default true
+   */
+  zstd?: boolean;
+
   /**
    * Compression level.
    * - 0-9 for gzip/deflate (0 = no compression, 9 = maximum)
    * - 0-11 for Brotli (0 = no compression, 11 = maximum)
+   * - 1-22 for zstd (0 = the zstd default, 3)
    * @default 6
    */
   level?: number;
@@ -125,6 +134,7 @@ export interface ResolvedCompressionOptions {
   gzip: boolean;
   deflate: boolean;
   brotli: boolean;
+  zstd: boolean;
   level: number;
   threshold: number;
   contentTypes: readonly string[];
@@ -219,6 +229,8 @@ export interface RuntimeCapabilities {
   hasNodeZlib: boolean;
   /** Brotli compression available */
   hasBrotli: boolean;
+  /** Zstandard compression available */
+  hasZstd: boolean;
   /** Current runtime name */
   runtime: 'node' | 'bun' | 'deno' | 'edge' | 'browser' | 'unknown';
 }
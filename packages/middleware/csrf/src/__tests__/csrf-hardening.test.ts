@@ -6,7 +6,8 @@
  * Each describe block corresponds to one numbered task.
  */
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { CSRF_FIELD, CSRF_HEADER, DEFAULT_COOKIE_NAME } from '../constants.js';
+import { SESSION_IDENTIFIER } from '@nextrush/types';
+import { CSRF_FIELD, CSRF_HEADER, DEFAULT_COOKIE_NAME, ERRORS } from '../constants.js';
 import { csrf } from '../middleware.js';
 import { clearKeyCache, constantTimeEqual, generateToken } from '../token.js';
 
@@ -303,10 +304,49 @@ describe('5.4-5.5 origin validation', () => {
 // ============================================================================
 
 describe('5.6 session binding is an explicit decision', () => {
-  it('throws when neither getSessionIdentifier nor sessionBinding is supplied', () => {
-    expect(() => csrf({ secret: TEST_SECRET })).toThrow(
-      /getSessionIdentifier|sessionBinding/
-    );
+  it('binds to the session identifier published on ctx.state by default', async () => {
+    const next = vi.fn<() => Promise<void>>().mockResolvedValue(undefined);
+    const token = await generateToken(TEST_SECRET, 'session-A');
+    const { protect } = csrf({ secret: TEST_SECRET, originCheck: false });
+    const post = (sessionId: string) =>
+      createMockContext({
+        method: 'POST',
+        headers: { cookie: `${DEFAULT_COOKIE_NAME}=${token}`, [CSRF_HEADER]: token },
+        state: { [SESSION_IDENTIFIER]: () => sessionId } as Record<string, unknown>,
+      });
+
+    await protect(post('session-A') as never, next);
+    expect(next).toHaveBeenCalledOnce();
+
+    const other = post('session-B');
+    await protect(other as never, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(other.status).toBe(403);
+  });
+
+  it('fails closed when no session identifier was published', async () => {
+    const next = vi.fn<() => Promise<void>>().mockResolvedValue(undefined);
+    const token = await generateToken(TEST_SECRET);
+    const { protect } = csrf({ secret: TEST_SECRET, originCheck: false });
+    const ctx = createMockContext({
+      method: 'POST',
+      headers: { cookie: `${DEFAULT_COOKIE_NAME}=${token}`, [CSRF_HEADER]: token },
+    });
+
+    await protect(ctx as never, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(ctx.status).toBe(403);
+    expect(ctx.body).toMatchObject({ message: ERRORS.MISSING_SESSION });
+  });
+
+  it('refuses to mint an unbound token when no session identifier was published', async () => {
+    const { tokenProvider } = csrf({ secret: TEST_SECRET, originCheck: false });
+    const ctx = createMockContext();
+    await tokenProvider(ctx as never, async () => {
+      const { csrf: utils } = ctx.state as { csrf: { generateToken(): Promise<string> } };
+      await expect(utils.generateToken()).rejects.toThrow(ERRORS.MISSING_SESSION);
+    });
+    expect(ctx.responseHeaders['Set-Cookie']).toBeUndefined();
   });
 
   it('throws when sessionBinding is set to an invalid value', () => {
@@ -57,11 +57,11 @@ export const ERRORS = {
   ORIGIN_MISMATCH: 'Request origin does not match allowed origins.',
   CROSS_SITE: 'Cross-site request blocked by CSRF protection.',
   SECRET_TOO_SHORT: 'CSRF secret must be at least 32 characters.',
-  MISSING_SESSION_DECISION:
-    'csrf() requires either a getSessionIdentifier function or an explicit ' +
-    "sessionBinding: 'none' acknowledgement. Provide getSessionIdentifier to bind " +
-    "tokens to sessions, or sessionBinding: 'none' to opt into the weaker unbound " +
-    'double-submit mode intentionally.',
+  MISSING_SESSION:
+    'CSRF tokens are bound to the session, but no session identifier is available. ' +
+    'Register session() from @nextrush/session before csrf(), supply ' +
+    "getSessionIdentifier, or set sessionBinding: 'none' to opt into the weaker " +
+    'unbound double-submit mode intentionally.',
   INVALID_SESSION_BINDING: "sessionBinding must be 'none' when provided.",
   MISSING_ALLOWED_ORIGINS:
     'csrf() has origin checking active (originCheck is true by default) but no ' +
@@ -17,8 +17,8 @@
  * @packageDocumentation
  */
 
-import type { Context, Middleware } from '@nextrush/types';
-import { SECURITY_AUDIT, type SecurityAuditVerdict } from '@nextrush/types';
+import type { Context, Middleware, SessionIdentifierSource } from '@nextrush/types';
+import { SECURITY_AUDIT, SESSION_IDENTIFIER, type SecurityAuditVerdict } from '@nextrush/types';
 import {
   CSRF_FIELD,
   CSRF_HEADER,
@@ -141,6 +141,19 @@ function isPathExcluded(path: string, excludePaths: string[]): boolean {
   return false;
 }
 
+// ============================================================================
+// Session Binding
+// ============================================================================
+
+/**
+ * Default session binding: the identifier a session middleware published on
+ * `ctx.state` (`@nextrush/session` does), or `undefined` when none ran.
+ */
+function sessionFromState(ctx: Context): string | undefined {
+  const source = (ctx.state as Record<symbol, unknown>)[SESSION_IDENTIFIER];
+  return typeof source === 'function' ? (source as SessionIdentifierSource)() : undefined;
+}
+
 // ============================================================================
 // Cookie Serialization
 // ============================================================================
@@ -178,6 +191,8 @@ type ResolvedCookieOptions = Required<Omit<CsrfCookieOptions, 'maxAge'>> &
 interface ResolvedOptions {
   getSecret: () => string;
   getSessionIdentifier: ((ctx: Context) => string | undefined) | undefined;
+  /** Whether a missing session identifier fails the request (default binding only). */
+  sessionRequired: boolean;
   getTokenFromRequest: TokenExtractor;
   ignoredMethods: Set<string>;
   excludePaths: string[];
@@ -194,16 +209,11 @@ function validateMaxAge(maxAge: number): void {
   }
 }
 
-function validateSessionDecision(options: CsrfOptions): void {
-  const hasIdentifier = typeof options.getSessionIdentifier === 'function';
+function validateSessionBinding(options: CsrfOptions): void {
   const binding: unknown = options.sessionBinding;
-
   if (binding !== undefined && binding !== 'none') {
     throw new Error(ERRORS.INVALID_SESSION_BINDING);
   }
-  if (!hasIdentifier && binding === undefined) {
-    throw new Error(ERRORS.MISSING_SESSION_DECISION);
-  }
 }
 
 function resolveOptions(options: CsrfOptions): ResolvedOptions {
@@ -221,7 +231,9 @@ function resolveOptions(options: CsrfOptions): ResolvedOptions {
 
   const getSecret = typeof secret === 'function' ? secret : () => secret;
 
-  validateSessionDecision(options);
+  validateSessionBinding(options);
+  const sessionRequired =
+    options.getSessionIdentifier === undefined && options.sessionBinding === undefined;
 
   const originCheck = options.originCheck ?? true;
   const allowedOrigins = options.allowedOrigins ?? [];
@@ -271,7 +283,8 @@ function resolveOptions(options: CsrfOptions): ResolvedOptions {
 
   return {
     getSecret,
-    getSessionIdentifier: options.getSessionIdentifier,
+    getSessionIdentifier: sessionRequired ? sessionFromState : options.getSessionIdentifier,
+    sessionRequired,
     getTokenFromRequest: options.getTokenFromRequest ?? defaultTokenExtractor,
     ignoredMethods,
     excludePaths: options.excludePaths ?? [],
@@ -297,9 +310,12 @@ function resolveOptions(options: CsrfOptions): ResolvedOptions {
  * ```typescript
  * import { csrf } from '@nextrush/csrf';
  *
+ * app.use(session({ secret: process.env.SESSION_SECRET! }));
+ *
+ * // Tokens bind to the @nextrush/session ID automatically
  * const { protect, tokenProvider } = csrf({
  *   secret: process.env.CSRF_SECRET!,
- *   getSessionIdentifier: (ctx) => ctx.state.sessionId,
+ *   allowedOrigins: ['https://example.com'],
  * });
  *
  * // Apply to all routes
@@ -328,6 +344,9 @@ export function csrf(options: CsrfOptions): CsrfMiddleware {
       async generateToken(): Promise<string> {
         const currentSecret = resolved.getSecret();
         const sessionId = resolved.getSessionIdentifier?.(ctx);
+        if (sessionId === undefined && resolved.sessionRequired) {
+          throw new Error(ERRORS.MISSING_SESSION);
+        }
         const token = await generateToken(currentSecret, sessionId, resolved.tokenSize);
 
         // Set the cookie (only once per request)
@@ -403,6 +422,9 @@ export function csrf(options: CsrfOptions): CsrfMiddleware {
     // Validate HMAC signature (proves token authenticity)
     const currentSecret = resolved.getSecret();
     const sessionId = resolved.getSessionIdentifier?.(ctx);
+    if (sessionId === undefined && resolved.sessionRequired) {
+      return resolved.onError(ctx, ERRORS.MISSING_SESSION);
+    }
     const isValid = await validateToken(cookieToken, currentSecret, sessionId);
     if (!isValid) {
       return resolved.onError(ctx, ERRORS.INVALID_TOKEN);
@@ -114,8 +114,8 @@ export type SessionIdentifierExtractor = (ctx: Context) => string | undefined;
 /**
  * Explicit acknowledgement that session binding is intentionally disabled.
  *
- * `csrf()` requires either `getSessionIdentifier` or `sessionBinding: 'none'` —
- * the weaker unbound double-submit mode can never be reached by omission.
+ * Without it, tokens are always session-bound — the weaker unbound
+ * double-submit mode can never be reached by omission.
  */
 export type SessionBinding = 'none';
 
@@ -140,9 +140,11 @@ export interface CsrfOptions {
   /**
    * Extract a session-dependent value to bind tokens to sessions.
    *
-   * Required unless `sessionBinding: 'none'` is explicitly set — session
-   * binding is an intentional decision, never a silent default. Prevents
-   * cookie injection attacks (subdomain takeover, MITM).
+   * Prevents cookie injection attacks (subdomain takeover, MITM). When
+   * neither this nor `sessionBinding` is set, tokens bind to the session
+   * `@nextrush/session` publishes on `ctx.state`; a request with no session
+   * middleware in front then fails closed — `protect` rejects it and
+   * `generateToken()` throws.
    *
    * @example
    * ```typescript
@@ -154,9 +156,8 @@ export interface CsrfOptions {
   /**
    * Explicit opt-out of session binding.
    *
-   * `csrf()` throws unless exactly one of `getSessionIdentifier` or
-   * `sessionBinding: 'none'` is supplied — the weaker unbound double-submit
-   * mode is never reached by omission. Only `'none'` is a valid value.
+   * Opts into the weaker unbound double-submit mode, which is never
+   * reached by omission. Only `'none'` is a valid value.
    */
   sessionBinding?: SessionBinding;
 
@@ -6,6 +6,8 @@
  * - /readyz depends on registered checks, 503 on any failure/throw
  * - a hung check produces a bounded-time 503, not an indefinite hang
  * - both sync and async check functions are supported
+ * - degraded and non-critical checks, the detailed body, result caching and
+ *   the /startupz probe
  *
  * @packageDocumentation
  */
@@ -13,7 +15,7 @@
 import type { Context, Next } from '@nextrush/types';
 import { describe, expect, it, vi } from 'vitest';
 
-import { health } from '../index';
+import { health, type DetailedHealthResponseBody } from '../index';
 
 // ============================================================================
 // Minimal mock Context
@@ -298,3 +300,286 @@ describe('check cancellation on timeout', () => {
     expect(capturedSignal?.aborted).toBe(false);
   });
 });
+
+// ============================================================================
+// Degraded state and critical vs non-critical checks
+// ============================================================================
+
+describe('degraded state', () => {
+  it('reports degraded with 200 when a check returns a degraded result', async () => {
+    const { middleware, registerCheck } = health();
+    registerCheck('database', () => true);
+    registerCheck('replica', () => ({ status: 'degraded', message: 'lag 12s' }));
+    const ctx = createMockContext('/readyz');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx._json).toEqual({ status: 'degraded', checks: { database: true, replica: true } });
+  });
+
+  it('reports degraded with 200 when only a non-critical check fails', async () => {
+    const { middleware, registerCheck } = health();
+    registerCheck('database', () => true);
+    registerCheck('search', () => false, { critical: false });
+    const ctx = createMockContext('/readyz');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(200);
+    expect(ctx._json).toEqual({ status: 'degraded', checks: { database: true, search: false } });
+  });
+
+  it('reports error with 503 when a critical check fails, whatever else degrades', async () => {
+    const { middleware, registerCheck } = health();
+    registerCheck('database', () => ({ status: 'error' }));
+    registerCheck('search', () => false, { critical: false });
+    const ctx = createMockContext('/readyz');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(503);
+    expect(ctx._json).toMatchObject({ status: 'error' });
+  });
+
+  it('treats a result with an unknown status as a failure', async () => {
+    const { middleware, registerCheck } = health();
+    registerCheck('broken', (() => ({ status: 'fine' })) as unknown as () => boolean);
+    const ctx = createMockContext('/readyz');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(503);
+  });
+
+  it('rejects a negative timeout or cache TTL at registration', () => {
+    const { registerCheck } = health();
+
+    expect(() => registerCheck('a', () => true, { timeoutMs: -1 })).toThrow(TypeError);
+    expect(() => registerCheck('b', () => true, { cacheTtlMs: Number.NaN })).toThrow(TypeError);
+  });
+});
+
+// ============================================================================
+// Detailed response body
+// ============================================================================
+
+describe('detailed body', () => {
+  it('keeps the compact shape by default', async () => {
+    const { middleware, registerCheck } = health();
+    registerCheck('database', () => true);
+    const ctx = createMockContext('/readyz');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx._json).toEqual({ status: 'ok', checks: { database: true } });
+  });
+
+  it('reports per-check status, criticality, latency and messages', async () => {
+    const { middleware, registerCheck } = health({ detailed: true, checkTimeoutMs: 20 });
+    registerCheck('database', () => true);
+    registerCheck('search', () => ({ status: 'degraded', message: 'lag 12s' }), {
+      critical: false,
+    });
+    registerCheck('queue', () => {
+      throw new Error('connection refused');
+    });
+    registerCheck('hangs', () => new Promise<boolean>(() => {}), { critical: false });
+    const ctx = createMockContext('/readyz');
+
+    await middleware(ctx, noopNext);
+
+    const body = ctx._json as DetailedHealthResponseBody;
+    expect(ctx.status).toBe(503);
+    expect(body.status).toBe('error');
+    expect(typeof body.durationMs).toBe('number');
+    expect(body.checks.database).toMatchObject({ status: 'ok', critical: true, cached: false });
+    expect(body.checks.database?.message).toBeUndefined();
+    expect(body.checks.search).toMatchObject({
+      status: 'degraded',
+      critical: false,
+      message: 'lag 12s',
+    });
+    expect(body.checks.queue).toMatchObject({ status: 'error', message: 'connection refused' });
+    expect(body.checks.hangs).toMatchObject({
+      status: 'error',
+      message: 'Check timed out after 20ms',
+    });
+    expect(body.checks.hangs?.durationMs).toBeGreaterThanOrEqual(15);
+    expect(Number.isNaN(Date.parse(body.checks.database?.checkedAt ?? ''))).toBe(false);
+  });
+
+  it('decides per request when given a function', async () => {
+    const { middleware, registerCheck } = health({
+      detailed: (ctx) => ctx.query.verbose !== undefined,
+    });
+    registerCheck('database', () => true);
+
+    const plain = createMockContext('/readyz');
+    await middleware(plain, noopNext);
+    const verbose = createMockContext('/readyz');
+    verbose.query.verbose = '';
+    await middleware(verbose, noopNext);
+
+    expect(plain._json).toEqual({ status: 'ok', checks: { database: true } });
+    expect((verbose._json as DetailedHealthResponseBody).checks.database?.status).toBe('ok');
+  });
+});
+
+// ============================================================================
+// Result caching
+// ============================================================================
+
+describe('result cache', () => {
+  it('runs every check on every request by default', async () => {
+    const { middleware, registerCheck } = health();
+    const check = vi.fn(() => true);
+    registerCheck('database', check);
+
+    await middleware(createMockContext('/readyz'), noopNext);
+    await middleware(createMockContext('/readyz'), noopNext);
+
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it('reuses a result within the TTL and re-runs once it expires', async () => {
+    vi.useFakeTimers();
+    try {
+      const { middleware, registerCheck } = health({ cacheTtlMs: 1000, detailed: true });
+      const check = vi.fn(() => true);
+      registerCheck('database', check);
+
+      await middleware(createMockContext('/readyz'), noopNext);
+      const second = createMockContext('/readyz');
+      await middleware(second, noopNext);
+
+      expect(check).toHaveBeenCalledTimes(1);
+      expect((second._json as DetailedHealthResponseBody).checks.database?.cached).toBe(true);
+
+      vi.advanceTimersByTime(1001);
+      await middleware(createMockContext('/readyz'), noopNext);
+
+      expect(check).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('lets a per-check TTL override the default', async () => {
+    const { middleware, registerCheck } = health({ cacheTtlMs: 60_000 });
+    const cachedCheck = vi.fn(() => true);
+    const liveCheck = vi.fn(() => true);
+    registerCheck('config', cachedCheck);
+    registerCheck('database', liveCheck, { cacheTtlMs: 0 });
+
+    await middleware(createMockContext('/readyz'), noopNext);
+    await middleware(createMockContext('/readyz'), noopNext);
+
+    expect(cachedCheck).toHaveBeenCalledTimes(1);
+    expect(liveCheck).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one in-flight run between concurrent probes', async () => {
+    const { middleware, registerCheck } = health({ cacheTtlMs: 1000 });
+    let release: (value: boolean) => void = () => {};
+    const check = vi.fn(
+      () =>
+        new Promise<boolean>((resolve) => {
+          release = resolve;
+        })
+    );
+    registerCheck('database', check);
+
+    const first = middleware(createMockContext('/readyz'), noopNext);
+    const second = middleware(createMockContext('/readyz'), noopNext);
+    await Promise.resolve();
+    release(true);
+    await Promise.all([first, second]);
+
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the cached result when a check is re-registered', async () => {
+    const { middleware, registerCheck } = health({ cacheTtlMs: 60_000 });
+    registerCheck('database', () => true);
+    await middleware(createMockContext('/readyz'), noopNext);
+
+    registerCheck('database', () => false);
+    const ctx = createMockContext('/readyz');
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(503);
+  });
+});
+
+// ============================================================================
+// Startup probe
+// ============================================================================
+
+describe('startupz', () => {
+  it('returns 503 until the app is ready, then 200', async () => {
+    const app = { isReady: false };
+    const { middleware } = health({ app });
+
+    const before = createMockContext('/startupz');
+    await middleware(before, noopNext);
+    app.isReady = true;
+    const after = createMockContext('/startupz');
+    await middleware(after, noopNext);
+
+    expect(before.status).toBe(503);
+    expect(before._json).toEqual({ status: 'error' });
+    expect(after.status).toBe(200);
+    expect(after._json).toEqual({ status: 'ok' });
+  });
+
+  it('flips on markStarted() with a startupzPath but no app', async () => {
+    const { middleware, markStarted } = health({ startupzPath: '/startupz' });
+
+    const before = createMockContext('/startupz');
+    await middleware(before, noopNext);
+    markStarted();
+    const after = createMockContext('/startupz');
+    await middleware(after, noopNext);
+
+    expect(before.status).toBe(503);
+    expect(after.status).toBe(200);
+  });
+
+  it('leaves /startupz to the app until opted in', async () => {
+    const { middleware, markStarted } = health();
+    const next = vi.fn(async () => {});
+
+    const before = createMockContext('/startupz');
+    await middleware(before, next);
+    markStarted();
+    const after = createMockContext('/startupz');
+    await middleware(after, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(before._json).toBeUndefined();
+    expect(after.status).toBe(200);
+    expect(after._json).toEqual({ status: 'ok' });
+  });
+
+  it('never evaluates registered checks', async () => {
+    const { middleware, registerCheck } = health({ app: { isReady: true } });
+    const check = vi.fn(() => false);
+    registerCheck('database', check);
+    const ctx = createMockContext('/startupz');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(200);
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it('honours a custom startupzPath', async () => {
+    const { middleware } = health({ startupzPath: '/health/startup', app: { isReady: true } });
+    const ctx = createMockContext('/health/startup');
+
+    await middleware(ctx, noopNext);
+
+    expect(ctx.status).toBe(200);
+  });
+});
@@ -8,16 +8,30 @@
 import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as healthApi from '../index';
 import {
+    DEFAULT_CACHE_TTL_MS,
     DEFAULT_CHECK_TIMEOUT_MS,
     DEFAULT_LIVEZ_PATH,
     DEFAULT_READYZ_PATH,
+    DEFAULT_STARTUPZ_PATH,
     HTTP_OK,
     HTTP_SERVICE_UNAVAILABLE,
+    STATUS_DEGRADED,
     STATUS_ERROR,
     STATUS_OK,
     health,
 } from '../index';
-import type { CheckFn, HealthInstance, HealthOptions, HealthResponseBody } from '../index';
+import type {
+  CheckFn,
+  CheckOptions,
+  CheckReport,
+  CheckResult,
+  DetailedHealthResponseBody,
+  HealthInstance,
+  HealthOptions,
+  HealthResponseBody,
+  HealthStatus,
+  StartupSource,
+} from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
@@ -25,22 +39,28 @@ describe('Public API surface (runtime exports)', () => {
 
     // SEALED: intentional public runtime API surface.
     const expectedRuntime = [
+      'DEFAULT_CACHE_TTL_MS',
       'DEFAULT_CHECK_TIMEOUT_MS',
       'DEFAULT_LIVEZ_PATH',
       'DEFAULT_READYZ_PATH',
+      'DEFAULT_STARTUPZ_PATH',
       'HTTP_OK',
       'HTTP_SERVICE_UNAVAILABLE',
+      'STATUS_DEGRADED',
       'STATUS_ERROR',
       'STATUS_OK',
       'health',
     ].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
+    expect(typeof DEFAULT_CACHE_TTL_MS).toBe('number');
     expect(typeof DEFAULT_CHECK_TIMEOUT_MS).toBe('number');
     expect(typeof DEFAULT_LIVEZ_PATH).toBe('string');
     expect(typeof DEFAULT_READYZ_PATH).toBe('string');
+    expect(typeof DEFAULT_STARTUPZ_PATH).toBe('string');
     expect(typeof HTTP_OK).toBe('number');
     expect(typeof HTTP_SERVICE_UNAVAILABLE).toBe('number');
+    expect(typeof STATUS_DEGRADED).toBe('string');
     expect(typeof STATUS_ERROR).toBe('string');
     expect(typeof STATUS_OK).toBe('string');
     expect(typeof health).toBe('function');
@@ -51,7 +71,18 @@ describe('Public API surface (type-only exports)', () => {
   it('the type-only surface stays importable from the barrel', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
-    type Surface = [CheckFn, HealthInstance, HealthOptions, HealthResponseBody];
+    type Surface = [
+      CheckFn,
+      CheckOptions,
+      CheckReport,
+      CheckResult,
+      DetailedHealthResponseBody,
+      HealthInstance,
+      HealthOptions,
+      HealthResponseBody,
+      HealthStatus,
+      StartupSource,
+    ];
     expectTypeOf<Surface>().not.toBeNever();
   });
 });
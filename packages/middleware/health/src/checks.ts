@@ -0,0 +1,170 @@
+/**
+ * @nextrush/health - Check execution
+ *
+ * Runs registered checks under their timeout, normalizes every outcome to a
+ * {@link CheckReport}, reuses cached reports within a check's TTL, and
+ * aggregates the reports into one status.
+ *
+ * @packageDocumentation
+ */
+
+import { STATUS_DEGRADED, STATUS_ERROR, STATUS_OK } from './constants';
+import type { CheckFn, CheckReport, CheckResult, HealthStatus } from './types';
+
+// ============================================================================
+// Registry entry
+// ============================================================================
+
+/**
+ * A registered check with its resolved options and its cache slot.
+ */
+export interface RegisteredCheck {
+  readonly check: CheckFn;
+  readonly critical: boolean;
+  readonly timeoutMs: number;
+  readonly cacheTtlMs: number;
+  /** The last report and when it stops being reusable (`Date.now()` ms). */
+  cached?: { report: CheckReport; expiresAt: number };
+  /** The run in progress, shared by concurrent probes while caching is on. */
+  inflight?: Promise<CheckReport>;
+}
+
+const STATUSES: readonly HealthStatus[] = [STATUS_OK, STATUS_DEGRADED, STATUS_ERROR];
+
+// ============================================================================
+// Single check
+// ============================================================================
+
+/** Round a duration to hundredths of a millisecond. */
+export function roundMs(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
+/**
+ * Map whatever a check returned to a {@link CheckResult}. Anything other than a
+ * boolean or a {@link CheckResult} with a known status is a failing check —
+ * a plain-JS check returning `undefined` must not read as healthy.
+ */
+function normalize(value: unknown): CheckResult {
+  if (typeof value === 'boolean') return { status: value ? STATUS_OK : STATUS_ERROR };
+  if (typeof value === 'object' && value !== null) {
+    const { status, message } = value as Partial<CheckResult>;
+    if (status !== undefined && STATUSES.includes(status)) {
+      return typeof message === 'string' ? { status, message } : { status };
+    }
+  }
+  return { status: STATUS_ERROR, message: 'Check returned an invalid result' };
+}
+
+/**
+ * Runs a single check with a bounded timeout.
+ *
+ * A check that throws, returns `false`, or fails to settle within
+ * `timeoutMs` all resolve to an `'error'` result here — a throw or hang
+ * never propagates to the caller (design.md Risks: a hung check must not
+ * hang `/readyz` indefinitely). The thrown error's message, or a timeout
+ * notice, is kept as the result's `message`; only the detailed body
+ * surfaces it.
+ *
+ * A fresh `AbortController` is created per invocation and aborted when the
+ * timeout fires, so a cooperative check can cancel its own in-flight work
+ * instead of it being silently abandoned (design.md D7, F-08).
+ */
+async function runCheckWithTimeout(check: CheckFn, timeoutMs: number): Promise<CheckResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const controller = new AbortController();
+
+  const timeout = new Promise<CheckResult>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve({ status: STATUS_ERROR, message: `Check timed out after ${String(timeoutMs)}ms` });
+    }, timeoutMs);
+  });
+
+  const invocation = (async (): Promise<CheckResult> => {
+    try {
+      return normalize(await check(controller.signal));
+    } catch (error) {
+      return {
+        status: STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  })();
+
+  try {
+    return await Promise.race([invocation, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Run a check and time it. */
+async function execute(entry: RegisteredCheck): Promise<CheckReport> {
+  const checkedAt = new Date().toISOString();
+  const start = performance.now();
+  const outcome = await runCheckWithTimeout(entry.check, entry.timeoutMs);
+  return {
+    ...outcome,
+    critical: entry.critical,
+    durationMs: roundMs(performance.now() - start),
+    checkedAt,
+    cached: false,
+  };
+}
+
+/**
+ * Report on one check — from its cache while the TTL holds, otherwise by
+ * running it. With caching on, concurrent probes arriving during a run share
+ * it instead of each invoking the check.
+ */
+async function report(entry: RegisteredCheck): Promise<CheckReport> {
+  if (entry.cacheTtlMs <= 0) return execute(entry);
+
+  if (entry.cached !== undefined && Date.now() < entry.cached.expiresAt) {
+    return { ...entry.cached.report, cached: true };
+  }
+  if (entry.inflight !== undefined) return entry.inflight;
+
+  const run = execute(entry).then((fresh) => {
+    entry.cached = { report: fresh, expiresAt: Date.now() + entry.cacheTtlMs };
+    return fresh;
+  });
+  entry.inflight = run;
+  try {
+    return await run;
+  } finally {
+    entry.inflight = undefined;
+  }
+}
+
+// ============================================================================
+// All checks
+// ============================================================================
+
+/**
+ * Runs every registered check concurrently and returns a name→report map.
+ */
+export async function runAllChecks(
+  checks: Map<string, RegisteredCheck>
+): Promise<Record<string, CheckReport>> {
+  const entries = Array.from(checks.entries());
+  const results = await Promise.all(
+    entries.map(async ([name, entry]) => [name, await report(entry)] as const)
+  );
+  return Object.fromEntries(results);
+}
+
+/**
+ * Aggregate reports into one status: `'error'` if any critical check
+ * errored, `'degraded'` if any check is degraded or a non-critical check
+ * errored, `'ok'` otherwise.
+ */
+export function aggregate(reports: Record<string, CheckReport>): HealthStatus {
+  let status: HealthStatus = STATUS_OK;
+  for (const { status: checkStatus, critical } of Object.values(reports)) {
+    if (checkStatus === STATUS_ERROR && critical) return STATUS_ERROR;
+    if (checkStatus !== STATUS_OK) status = STATUS_DEGRADED;
+  }
+  return status;
+}
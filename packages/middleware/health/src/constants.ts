@@ -23,6 +23,13 @@ export const DEFAULT_LIVEZ_PATH = '/livez';
  */
 export const DEFAULT_READYZ_PATH = '/readyz';
 
+/**
+ * Default path for the startup endpoint.
+ * Reflects whether the application has finished booting — never depends on
+ * registered checks, so a slow dependency cannot hold a pod in startup.
+ */
+export const DEFAULT_STARTUPZ_PATH = '/startupz';
+
 // ============================================================================
 // Response Status Bodies
 // ============================================================================
@@ -37,6 +44,12 @@ export const STATUS_OK = 'ok' as const;
  */
 export const STATUS_ERROR = 'error' as const;
 
+/**
+ * Response status literal for a result that is ready but impaired — a check
+ * reported `'degraded'`, or a non-critical check failed.
+ */
+export const STATUS_DEGRADED = 'degraded' as const;
+
 // ============================================================================
 // HTTP Status Codes
 // ============================================================================
@@ -53,7 +66,7 @@ export const HTTP_OK = 200;
 export const HTTP_SERVICE_UNAVAILABLE = 503;
 
 // ============================================================================
-// Timeout Defaults
+// Timeout and Cache Defaults
 // ============================================================================
 
 /**
@@ -64,3 +77,9 @@ export const HTTP_SERVICE_UNAVAILABLE = 503;
  * (design.md Risks: "hung check" mitigation).
  */
 export const DEFAULT_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Default check result-cache lifetime, in milliseconds. `0` — caching is
+ * opt-in, so by default every `/readyz` request re-runs every check.
+ */
+export const DEFAULT_CACHE_TTL_MS = 0;
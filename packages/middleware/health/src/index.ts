@@ -7,10 +7,14 @@
  * Features:
  * - `/livez` reflects only whether the process can respond at all — never
  *   depends on registered checks.
- * - `/readyz` reflects whether every registered readiness check currently
- *   passes — 503 if any fails, throws, or times out.
- * - Check functions may be sync (`() => boolean`) or async
- *   (`() => Promise<boolean>`).
+ * - `/readyz` reflects whether every critical readiness check currently
+ *   passes — 503 if any fails, throws, or times out; `'degraded'` (still
+ *   200) for degraded or failing non-critical checks.
+ * - `/startupz` flips to 200 once the app has booted (`app.ready()`).
+ * - Check functions may be sync or async and return a `boolean` or a
+ *   `{ status, message }` result.
+ * - Optional per-check result caching and a detailed body with per-check
+ *   latency and error messages.
  * - A hung check is bounded by a timeout and treated as a failure, never
  *   an indefinite hang.
  *
@@ -22,11 +26,14 @@
 // ============================================================================
 
 export {
+    DEFAULT_CACHE_TTL_MS,
     DEFAULT_CHECK_TIMEOUT_MS,
     DEFAULT_LIVEZ_PATH,
     DEFAULT_READYZ_PATH,
+    DEFAULT_STARTUPZ_PATH,
     HTTP_OK,
     HTTP_SERVICE_UNAVAILABLE,
+    STATUS_DEGRADED,
     STATUS_ERROR,
     STATUS_OK
 } from './constants';
@@ -37,9 +44,15 @@ export {
 
 export type {
     CheckFn,
+    CheckOptions,
+    CheckReport,
+    CheckResult,
+    DetailedHealthResponseBody,
     HealthInstance,
     HealthOptions,
-    HealthResponseBody
+    HealthResponseBody,
+    HealthStatus,
+    StartupSource
 } from './types';
 
 // ============================================================================
@@ -1,85 +1,58 @@
 /**
  * @nextrush/health - Middleware
  *
- * Liveness and readiness endpoints for orchestrator probes.
+ * Liveness, readiness and startup endpoints for orchestrator probes.
  *
  * @packageDocumentation
  */
 
 import type { Context, Middleware, Next } from '@nextrush/types';
 
+import { aggregate, roundMs, runAllChecks, type RegisteredCheck } from './checks';
 import {
+  DEFAULT_CACHE_TTL_MS,
   DEFAULT_CHECK_TIMEOUT_MS,
   DEFAULT_LIVEZ_PATH,
   DEFAULT_READYZ_PATH,
+  DEFAULT_STARTUPZ_PATH,
   HTTP_OK,
   HTTP_SERVICE_UNAVAILABLE,
   STATUS_ERROR,
   STATUS_OK,
 } from './constants';
-import type { CheckFn, HealthInstance, HealthOptions } from './types';
+import type {
+  CheckFn,
+  CheckOptions,
+  CheckReport,
+  DetailedHealthResponseBody,
+  HealthInstance,
+  HealthOptions,
+  HealthResponseBody,
+} from './types';
 
 // ============================================================================
-// Check execution
+// Validation
 // ============================================================================
 
 /**
- * Runs a single check with a bounded timeout.
- *
- * A check that throws, returns `false`, or fails to settle within
- * `timeoutMs` all resolve to `false` here — the caller doesn't need to
- * distinguish "hung" from "explicitly failed" (design.md Risks: a hung
- * check must not hang `/readyz` indefinitely).
- *
- * A fresh `AbortController` is created per invocation and aborted when the
- * timeout fires, so a cooperative check can cancel its own in-flight work
- * instead of it being silently abandoned (design.md D7, F-08). The signal
- * is passed as an additive, optional argument — a check that ignores it
- * keeps behaving exactly as before. Either way, a timed-out check still
- * counts as a failure.
+ * Reject a duration that would make a timer or a cache TTL meaningless, at
+ * registration time rather than on the first probe.
  */
-async function runCheckWithTimeout(check: CheckFn, timeoutMs: number): Promise<boolean> {
-  let timer: ReturnType<typeof setTimeout> | undefined;
-  const controller = new AbortController();
-
-  const timeout = new Promise<boolean>((resolve) => {
-    timer = setTimeout(() => {
-      controller.abort();
-      resolve(false);
-    }, timeoutMs);
-  });
-
-  const invocation = (async (): Promise<boolean> => {
-    try {
-      return await check(controller.signal);
-    } catch {
-      // A throwing check is a failing check, not an error that propagates
-      // to the caller — the endpoint reports it as an unhealthy check, it
-      // never surfaces an internal stack trace to the client (project-rules
-      // §3/§4: no internal detail leaks in production error responses).
-      return false;
-    }
-  })();
-
-  try {
-    return await Promise.race([invocation, timeout]);
-  } finally {
-    clearTimeout(timer);
+function assertDuration(name: string, field: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new TypeError(
+      `health: ${field} for check "${name}" must be a non-negative finite number, got ${String(value)}`
+    );
   }
 }
 
-/**
- * Runs every registered check concurrently and returns a name→pass map.
- */
-async function runAllChecks(
-  checks: Map<string, CheckFn>,
-  timeoutMs: number
-): Promise<Record<string, boolean>> {
-  const entries = Array.from(checks.entries());
-  const results = await Promise.all(
-    entries.map(async ([name, check]) => [name, await runCheckWithTimeout(check, timeoutMs)] as const)
-  );
-  return Object.fromEntries(results);
+/** Collapse detailed reports to the compact pass/fail map. */
+function compact(reports: Record<string, CheckReport>): Record<string, boolean> {
+  const checks: Record<string, boolean> = {};
+  for (const [name, report] of Object.entries(reports)) {
+    checks[name] = report.status !== STATUS_ERROR;
+  }
+  return checks;
 }
 
 // ============================================================================
@@ -90,10 +63,18 @@ async function runAllChecks(
  * Creates the health middleware plus its check registry.
  *
  * Mount the returned `middleware` with `app.use()`. It responds directly to
- * `livezPath` and `readyzPath` and calls `next()` for every other path.
+ * `livezPath` and `readyzPath` and calls `next()` for every other path. The
+ * startup probe is opt-in: `startupzPath` is served once `app` or
+ * `startupzPath` is given, or `markStarted()` has been called, so an existing
+ * `/startupz` route keeps working otherwise.
+ *
+ * `/readyz` answers `503` when a critical check fails, and `200` otherwise —
+ * with status `'degraded'` when a check reports itself degraded or a
+ * non-critical check fails. Its body is the compact
+ * `{ status, checks: { name: boolean } }` unless `detailed` is enabled.
  *
  * @param options - Configuration options.
- * @returns A {@link HealthInstance} — `{ middleware, registerCheck }`.
+ * @returns A {@link HealthInstance} — `{ middleware, registerCheck, markStarted }`.
  *
  * @example Basic usage
  * ```ts
@@ -116,36 +97,84 @@ async function runAllChecks(
  *   checkTimeoutMs: 2000,
  * });
  * ```
+ *
+ * @example Degraded state, startup probe and detailed output
+ * ```ts
+ * const { middleware, registerCheck } = health({
+ *   app,
+ *   cacheTtlMs: 2000,
+ *   detailed: (ctx) => ctx.query.verbose !== undefined,
+ * });
+ *
+ * registerCheck('database', () => db.ping().then(() => true));
+ * registerCheck('search', async () => {
+ *   const lag = await search.replicaLag();
+ *   return lag < 10 ? true : { status: 'degraded', message: `replica lag ${lag}s` };
+ * }, { critical: false });
+ * ```
  */
 export function health(options: HealthOptions = {}): HealthInstance {
   const {
     livezPath = DEFAULT_LIVEZ_PATH,
     readyzPath = DEFAULT_READYZ_PATH,
+    startupzPath = DEFAULT_STARTUPZ_PATH,
     checkTimeoutMs = DEFAULT_CHECK_TIMEOUT_MS,
+    cacheTtlMs = DEFAULT_CACHE_TTL_MS,
+    detailed = false,
+    app,
   } = options;
 
-  const checks = new Map<string, CheckFn>();
+  const checks = new Map<string, RegisteredCheck>();
+  const serveStartup = options.startupzPath !== undefined || app !== undefined;
+  let started = false;
+
+  function registerCheck(name: string, check: CheckFn, checkOptions: CheckOptions = {}): void {
+    const {
+      critical = true,
+      timeoutMs = checkTimeoutMs,
+      cacheTtlMs: ttl = cacheTtlMs,
+    } = checkOptions;
+    assertDuration(name, 'timeoutMs', timeoutMs);
+    assertDuration(name, 'cacheTtlMs', ttl);
+    // A fresh entry — re-registering a name also drops its cached result.
+    checks.set(name, { check, critical, timeoutMs, cacheTtlMs: ttl });
+  }
 
-  function registerCheck(name: string, check: CheckFn): void {
-    checks.set(name, check);
+  function markStarted(): void {
+    started = true;
   }
 
   function respondLive(ctx: Context): void {
     // /livez NEVER evaluates registered checks (design.md D5) — it only
     // reflects that this handler ran, i.e. the process can respond at all.
     ctx.status = HTTP_OK;
-    ctx.json({ status: STATUS_OK });
+    ctx.json({ status: STATUS_OK } satisfies HealthResponseBody);
+  }
+
+  function respondStartup(ctx: Context): void {
+    // Read at request time, never latched from app: a health() created
+    // before app.ready() flips as soon as the boot completes.
+    const isStarted = started || app?.isReady === true;
+    ctx.status = isStarted ? HTTP_OK : HTTP_SERVICE_UNAVAILABLE;
+    ctx.json({ status: isStarted ? STATUS_OK : STATUS_ERROR } satisfies HealthResponseBody);
   }
 
   async function respondReady(ctx: Context): Promise<void> {
-    const results = await runAllChecks(checks, checkTimeoutMs);
-    const allPassed = Object.values(results).every(Boolean);
-
-    ctx.status = allPassed ? HTTP_OK : HTTP_SERVICE_UNAVAILABLE;
-    ctx.json({
-      status: allPassed ? STATUS_OK : STATUS_ERROR,
-      checks: results,
-    });
+    const start = performance.now();
+    const reports = await runAllChecks(checks);
+    const status = aggregate(reports);
+
+    ctx.status = status === STATUS_ERROR ? HTTP_SERVICE_UNAVAILABLE : HTTP_OK;
+    const verbose = typeof detailed === 'function' ? detailed(ctx) : detailed;
+    if (verbose) {
+      ctx.json({
+        status,
+        durationMs: roundMs(performance.now() - start),
+        checks: reports,
+      } satisfies DetailedHealthResponseBody);
+      return;
+    }
+    ctx.json({ status, checks: compact(reports) } satisfies HealthResponseBody);
   }
 
   const middleware: Middleware = async (ctx: Context, next: Next) => {
@@ -159,8 +188,13 @@ export function health(options: HealthOptions = {}): HealthInstance {
       return;
     }
 
+    if (ctx.path === startupzPath && (serveStartup || started)) {
+      respondStartup(ctx);
+      return;
+    }
+
     await next();
   };
 
-  return { middleware, registerCheck };
+  return { middleware, registerCheck, markStarted };
 }
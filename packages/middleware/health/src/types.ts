@@ -6,7 +6,37 @@
  * @packageDocumentation
  */
 
-import type { Middleware } from '@nextrush/types';
+import type { Context, Middleware } from '@nextrush/types';
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * The three-state health status reported for a single check and for the
+ * aggregate `/readyz` result.
+ *
+ * - `'ok'` — healthy.
+ * - `'degraded'` — serving, but impaired: a check reported itself degraded,
+ *   or a non-critical check failed. `/readyz` still answers `200`, so an
+ *   orchestrator keeps routing traffic while dashboards see the impairment.
+ * - `'error'` — a critical check failed; `/readyz` answers `503`.
+ */
+export type HealthStatus = 'ok' | 'degraded' | 'error';
+
+/**
+ * A structured check outcome — the richer alternative to returning a bare
+ * `boolean` from a {@link CheckFn}.
+ */
+export interface CheckResult {
+  /** The check's status. */
+  status: HealthStatus;
+  /**
+   * Short human-readable detail (e.g. `'replica lag 12s'`). Only surfaced in
+   * the detailed `/readyz` body.
+   */
+  message?: string;
+}
 
 // ============================================================================
 // Check Function
@@ -15,8 +45,8 @@ import type { Middleware } from '@nextrush/types';
 /**
  * A readiness check function.
  *
- * May be synchronous (returning a `boolean` directly) or asynchronous
- * (returning a `Promise<boolean>`) — both are supported so a trivially
+ * May be synchronous (returning a `boolean` or {@link CheckResult} directly)
+ * or asynchronous (returning a `Promise` of either) — both are supported so a trivially
  * synchronous check (e.g. "is this env var set") doesn't need a manual
  * `Promise.resolve()` wrapper (design.md's Open Question, resolved: support
  * both).
@@ -33,9 +63,53 @@ import type { Middleware } from '@nextrush/types';
  *
  * @param signal - Aborted when the check's timeout fires. Each invocation
  *   gets its own fresh signal; never shared across checks or calls.
- * @returns `true` if the dependency is healthy, `false` otherwise.
+ * @returns `true` if the dependency is healthy, `false` otherwise — or a
+ *   {@link CheckResult} to report `'degraded'` and/or a message.
  */
-export type CheckFn = (signal?: AbortSignal) => boolean | Promise<boolean>;
+export type CheckFn = (
+  signal?: AbortSignal
+) => boolean | CheckResult | Promise<boolean | CheckResult>;
+
+/**
+ * Per-check options for `registerCheck`.
+ */
+export interface CheckOptions {
+  /**
+   * Whether a failure of this check fails readiness. A failing critical
+   * check turns `/readyz` into a `503`; a failing non-critical check only
+   * marks the aggregate `'degraded'` and `/readyz` stays `200`.
+   * @default true
+   */
+  critical?: boolean;
+
+  /**
+   * Timeout for this check, overriding `HealthOptions.checkTimeoutMs`.
+   */
+  timeoutMs?: number;
+
+  /**
+   * How long, in milliseconds, this check's last result is reused before
+   * the check runs again, overriding `HealthOptions.cacheTtlMs`. `0` runs
+   * the check on every `/readyz` request.
+   */
+  cacheTtlMs?: number;
+}
+
+// ============================================================================
+// Startup
+// ============================================================================
+
+/**
+ * Anything that reports whether the application has finished booting.
+ *
+ * Structurally satisfied by a NextRush `Application` — its `isReady` flips
+ * to `true` once `app.ready()` has run every extension's setup and mounted
+ * the router — without this package importing `@nextrush/core`.
+ */
+export interface StartupSource {
+  /** `true` once startup has completed. */
+  readonly isReady: boolean;
+}
 
 // ============================================================================
 // Options
@@ -63,6 +137,41 @@ export interface HealthOptions {
    * @default 5000
    */
   checkTimeoutMs?: number;
+
+  /**
+   * Path for the startup endpoint. Giving it turns the endpoint on: it then
+   * answers `503` until `app.isReady` or `markStarted()`. Without it, or
+   * `app`, the endpoint is only served once `markStarted()` has been called.
+   * @default '/startupz'
+   */
+  startupzPath?: string;
+
+  /**
+   * The application whose boot `/startupz` reports, which turns the endpoint
+   * on. `/startupz` answers `503` until `app.isReady` is `true` — or until
+   * `markStarted()` is called.
+   */
+  app?: StartupSource;
+
+  /**
+   * Default result-cache lifetime, in milliseconds, for every registered
+   * check. `0` disables caching, so every `/readyz` request re-runs every
+   * check. Overridable per check via `CheckOptions.cacheTtlMs`.
+   * @default 0
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * Whether `/readyz` answers with the detailed body
+   * ({@link DetailedHealthResponseBody}) — per-check status, criticality,
+   * latency and message — instead of the compact one. A function decides
+   * per request, e.g. only for `?verbose` or an internal network.
+   *
+   * Check messages include thrown error messages; enable this only where
+   * the endpoint is not reachable by untrusted clients.
+   * @default false
+   */
+  detailed?: boolean | ((ctx: Context) => boolean);
 }
 
 // ============================================================================
@@ -70,18 +179,56 @@ export interface HealthOptions {
 // ============================================================================
 
 /**
- * JSON body returned by both `/livez` and `/readyz`.
+ * Compact JSON body returned by `/livez`, `/startupz`, and — unless
+ * `detailed` is enabled — `/readyz`.
  */
 export interface HealthResponseBody {
-  /** `'ok'` when healthy/ready, `'error'` otherwise. */
-  status: 'ok' | 'error';
   /**
-   * Per-check pass/fail breakdown. Only populated on `/readyz` responses —
-   * `/livez` never evaluates registered checks (design.md D5).
+   * `'ok'` when healthy/ready, `'degraded'` when ready but impaired,
+   * `'error'` otherwise.
+   */
+  status: HealthStatus;
+  /**
+   * Per-check pass/fail breakdown — a `'degraded'` check counts as passing.
+   * Only populated on `/readyz` responses — `/livez` never evaluates
+   * registered checks (design.md D5).
    */
   checks?: Record<string, boolean>;
 }
 
+/**
+ * One check's entry in the detailed `/readyz` body.
+ */
+export interface CheckReport {
+  /** The check's status; a throw or timeout reports `'error'`. */
+  status: HealthStatus;
+  /** Whether this check's failure fails readiness. */
+  critical: boolean;
+  /** How long the check took, in milliseconds. */
+  durationMs: number;
+  /** ISO-8601 timestamp of when the check ran. */
+  checkedAt: string;
+  /** Whether this result was served from the result cache. */
+  cached: boolean;
+  /**
+   * The check's own message, the thrown error's message, or a timeout
+   * notice.
+   */
+  message?: string;
+}
+
+/**
+ * Detailed JSON body returned by `/readyz` when `detailed` is enabled.
+ */
+export interface DetailedHealthResponseBody {
+  /** The aggregate status. */
+  status: HealthStatus;
+  /** Wall-clock time spent evaluating all checks, in milliseconds. */
+  durationMs: number;
+  /** Per-check reports, keyed by check name. */
+  checks: Record<string, CheckReport>;
+}
+
 // ============================================================================
 // Health Instance
 // ============================================================================
@@ -91,7 +238,7 @@ export interface HealthResponseBody {
  */
 export interface HealthInstance {
   /**
-   * Middleware handling `/livez` and `/readyz`; mount with `app.use()`.
+   * Middleware handling `/livez`, `/readyz` and `/startupz`; mount with `app.use()`.
    * Any other path is passed through via `next()` untouched.
    */
   middleware: Middleware;
@@ -106,6 +253,17 @@ export interface HealthInstance {
    * @param name - A short identifier for the check (e.g. `'database'`),
    *   surfaced in the `/readyz` response body's `checks` breakdown.
    * @param check - The check function; see {@link CheckFn}.
+   * @param options - Criticality, timeout and cache overrides; see
+   *   {@link CheckOptions}.
+   * @throws {TypeError} When `timeoutMs` or `cacheTtlMs` is negative or not
+   *   finite.
+   */
+  registerCheck: (name: string, check: CheckFn, options?: CheckOptions) => void;
+
+  /**
+   * Flips `/startupz` to `200`, serving it from now on even when neither
+   * `app` nor `startupzPath` was given. Use when startup completes outside
+   * `app.ready()` (cache warm-up, migrations), or when no `app` was given.
    */
-  registerCheck: (name: string, check: CheckFn) => void;
+  markStarted: () => void;
 }
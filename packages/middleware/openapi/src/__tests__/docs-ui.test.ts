@@ -26,4 +26,20 @@ describe('swaggerUiHtml', () => {
     expect(html).toContain('url: "/openapi.json?v=1&flavor=full"');
     expect(html).not.toContain('&amp;flavor');
   });
+
+  it('offers one spec per API version in the standalone layout selector', () => {
+    const html = swaggerUiHtml(
+      [
+        { url: '/openapi/1.json', name: 'API 1' },
+        { url: '/openapi/2.json', name: 'API </script>' },
+      ],
+      'API'
+    );
+
+    expect(html).toContain('urls: [{"url":"/openapi/1.json","name":"API 1"}');
+    expect(html).toContain("layout: 'StandaloneLayout'");
+    expect(html).toContain('swagger-ui-standalone-preset.js');
+    // a value can never close the <script> element
+    expect(html).toContain('API \\u003c/script>');
+  });
 });
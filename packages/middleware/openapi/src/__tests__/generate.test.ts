@@ -1,6 +1,11 @@
 import type { RouteDefinition, StandardSchemaV1 } from '@nextrush/types';
 import { describe, expect, it } from 'vitest';
-import { extractPathParams, generateDocument, toOpenApiPath } from '../generate.js';
+import {
+  declaredVersions,
+  extractPathParams,
+  generateDocument,
+  toOpenApiPath,
+} from '../generate.js';
 import type { SchemaConverter } from '../types.js';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -29,6 +34,13 @@ describe('toOpenApiPath / extractPathParams', () => {
   });
 });
 
+describe('toOpenApiPath / extractPathParams (constraints and optional params)', () => {
+  it('drops constraints and optional markers', () => {
+    expect(toOpenApiPath('/users/:id(\\d+)/posts/:slug?')).toBe('/users/{id}/posts/{slug}');
+    expect(extractPathParams('/users/:id(\\d+)/posts/:slug?')).toEqual(['id', 'slug']);
+  });
+});
+
 describe('generateDocument', () => {
   it('produces a valid empty 3.1 doc with default info', async () => {
     const doc = await generateDocument([], {});
@@ -76,6 +88,44 @@ describe('generateDocument', () => {
     });
   });
 
+  it('emits a route constraint as an anchored pattern on the path parameter', async () => {
+    const doc = await generateDocument(
+      [route({ method: 'GET', path: '/users/:id(\\d+)' })],
+      {}
+    );
+    const op = (doc.paths as Record<string, any>)['/users/{id}'].get;
+    expect(op.operationId).toBe('get_users_id');
+    expect(op.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string', pattern: '^(?:\\d+)$' } },
+    ]);
+  });
+
+  it('adds the pattern to a converted params schema unless it declares its own', async () => {
+    const params = schemaWith({
+      type: 'object',
+      properties: { id: { type: 'string', format: 'uuid' }, v: { type: 'string', pattern: '^v' } },
+    });
+    const doc = await generateDocument(
+      [route({ method: 'GET', path: '/x/:id([0-9a-f-]+)/:v(v\\d)', metadata: { request: { params } } })],
+      { toJsonSchema: convert }
+    );
+    const [id, v] = (doc.paths as Record<string, any>)['/x/{id}/{v}'].get.parameters;
+    expect(id.schema).toEqual({ type: 'string', format: 'uuid', pattern: '^(?:[0-9a-f-]+)$' });
+    expect(v.schema).toEqual({ type: 'string', pattern: '^v' });
+  });
+
+  it('expands a trailing optional param into one path item per variant', async () => {
+    const doc = await generateDocument([route({ method: 'GET', path: '/posts/:slug?' })], {});
+    const paths = doc.paths as Record<string, any>;
+    expect(Object.keys(paths)).toEqual(['/posts', '/posts/{slug}']);
+    expect(paths['/posts'].get.parameters).toBeUndefined();
+    expect(paths['/posts'].get.operationId).toBe('get_posts');
+    expect(paths['/posts/{slug}'].get.operationId).toBe('get_posts_slug');
+    expect(paths['/posts/{slug}'].get.parameters).toEqual([
+      { name: 'slug', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
   it('decomposes request.query into query parameters', async () => {
     const query = schemaWith({
       type: 'object',
@@ -96,6 +146,45 @@ describe('generateDocument', () => {
     });
   });
 
+  it('decomposes request.headers into header parameters, skipping reserved ones', async () => {
+    const headers = schemaWith({
+      type: 'object',
+      properties: {
+        'x-api-key': { type: 'string' },
+        'x-request-id': { type: 'string' },
+        accept: { type: 'string' },
+        'content-type': { type: 'string' },
+        authorization: { type: 'string' },
+      },
+      required: ['x-api-key'],
+    });
+    const doc = await generateDocument(
+      [route({ method: 'GET', path: '/me', metadata: { request: { headers } } })],
+      { toJsonSchema: convert }
+    );
+    const params = (doc.paths as Record<string, any>)['/me'].get.parameters;
+    expect(params).toEqual([
+      { name: 'x-api-key', in: 'header', required: true, schema: { type: 'string' } },
+      { name: 'x-request-id', in: 'header', required: false, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('decomposes request.cookies into cookie parameters', async () => {
+    const cookies = schemaWith({
+      type: 'object',
+      properties: { session: { type: 'string' } },
+      required: ['session'],
+    });
+    const doc = await generateDocument(
+      [route({ method: 'GET', path: '/me', metadata: { request: { cookies } } })],
+      { toJsonSchema: convert }
+    );
+    const params = (doc.paths as Record<string, any>)['/me'].get.parameters;
+    expect(params).toEqual([
+      { name: 'session', in: 'cookie', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
   it('emits responses with description + content', async () => {
     const res = schemaWith({ type: 'object' });
     const doc = await generateDocument(
@@ -109,6 +198,116 @@ describe('generateDocument', () => {
     });
   });
 
+  it('documents declared error responses and a default as problem details', async () => {
+    const doc = await generateDocument(
+      [
+        route({
+          method: 'GET',
+          path: '/orders/:id',
+          metadata: {
+            responses: {
+              200: schemaWith({ type: 'object' }),
+              404: schemaWith({}),
+              409: schemaWith({ properties: { orderId: { type: 'string' } } }),
+            },
+          },
+        }),
+      ],
+      { toJsonSchema: convert, problemDetails: true }
+    );
+    const responses = (doc.paths as Record<string, any>)['/orders/{id}'].get.responses;
+    const ref = { $ref: '#/components/schemas/ProblemDetails' };
+    expect(responses['200'].content).toEqual({
+      'application/json': { schema: { type: 'object' } },
+    });
+    expect(responses['404']).toEqual({
+      description: 'Not Found',
+      content: { 'application/problem+json': { schema: ref } },
+    });
+    expect(responses['409'].content['application/problem+json'].schema).toEqual({
+      allOf: [ref, { properties: { orderId: { type: 'string' } } }],
+    });
+    expect(responses.default).toEqual({
+      description: 'Error',
+      content: { 'application/problem+json': { schema: ref } },
+    });
+    const problem = (doc.components as any).schemas.ProblemDetails;
+    expect(problem.required).toEqual(['type', 'title', 'status']);
+    expect(Object.keys(problem.properties)).toEqual(
+      expect.arrayContaining(['type', 'title', 'status', 'detail', 'instance', 'errors'])
+    );
+  });
+
+  it('omits the problem schema when nothing references it, or by default', async () => {
+    const undeclared = await generateDocument([route({ method: 'GET', path: '/health' })], {
+      problemDetails: true,
+    });
+    expect(undeclared.components).toBeUndefined();
+
+    const disabled = await generateDocument(
+      [
+        route({
+          method: 'GET',
+          path: '/orders/:id',
+          metadata: { responses: { 404: schemaWith({ type: 'object' }) } },
+        }),
+      ],
+      { toJsonSchema: convert }
+    );
+    expect((disabled.paths as Record<string, any>)['/orders/{id}'].get.responses).toEqual({
+      '404': {
+        description: 'Not Found',
+        content: { 'application/json': { schema: { type: 'object' } } },
+      },
+    });
+    expect(disabled.components).toBeUndefined();
+  });
+
+  it('documents route security and collects its schemes', async () => {
+    const bearer = { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } as const;
+    const apiKey = { type: 'apiKey', in: 'header', name: 'x-api-key' } as const;
+    const doc = await generateDocument(
+      [
+        route({
+          method: 'GET',
+          path: '/me',
+          metadata: {
+            security: {
+              schemes: [
+                { name: 'jwtAuth', scheme: bearer },
+                { name: 'apiKeyAuth', scheme: apiKey },
+              ],
+            },
+          },
+        }),
+        route({
+          method: 'GET',
+          path: '/feed',
+          metadata: {
+            security: { schemes: [{ name: 'jwtAuth', scheme: bearer }], optional: true },
+          },
+        }),
+      ],
+      {}
+    );
+    const paths = doc.paths as Record<string, any>;
+    expect(paths['/me'].get.security).toEqual([{ jwtAuth: [] }, { apiKeyAuth: [] }]);
+    expect(paths['/feed'].get.security).toEqual([{ jwtAuth: [] }, {}]);
+    expect(doc.components).toEqual({ securitySchemes: { jwtAuth: bearer, apiKeyAuth: apiKey } });
+  });
+
+  it('rejects one security scheme name with two definitions', async () => {
+    const named = (path: string, scheme: 'bearer' | 'basic'): RouteDefinition =>
+      route({
+        method: 'GET',
+        path,
+        metadata: { security: { schemes: [{ name: 'auth', scheme: { type: 'http', scheme } }] } },
+      });
+    await expect(
+      generateDocument([named('/a', 'bearer'), named('/b', 'basic')], {})
+    ).rejects.toThrow('security scheme "auth"');
+  });
+
   it('carries summary/description/tags/deprecated', async () => {
     const doc = await generateDocument(
       [
@@ -152,6 +351,33 @@ describe('generateDocument', () => {
     expect(paths['/public']).toBeDefined();
   });
 
+  it('documents one API version: its routes, the version-neutral ones and info.version', async () => {
+    const routes = [
+      route({ method: 'GET', path: '/users', metadata: { versions: ['1'] } }),
+      route({ method: 'POST', path: '/users', metadata: { versions: ['2', '3'] } }),
+      route({ method: 'GET', path: '/health' }),
+    ];
+
+    const v2 = await generateDocument(routes, { info: { version: '9.9.9' }, version: '2' });
+    expect(v2.info).toEqual({ title: 'API', version: '2' });
+    expect(v2.paths).toEqual({
+      '/users': { post: expect.anything() },
+      '/health': { get: expect.anything() },
+    });
+
+    const all = await generateDocument(routes, {});
+    expect(Object.keys((all.paths as Record<string, any>)['/users'])).toEqual(['get', 'post']);
+  });
+
+  it('lists the declared versions in numeric order', () => {
+    const versions = declaredVersions([
+      route({ method: 'GET', path: '/a', metadata: { versions: ['10', '2'] } }),
+      route({ method: 'GET', path: '/b', metadata: { versions: ['9'] } }),
+      route({ method: 'GET', path: '/c' }),
+    ]);
+    expect(versions).toEqual(['2', '9', '10']);
+  });
+
   it('expands an isAnyMethod route into an operation for every standard HTTP method (T016)', async () => {
     // @All()/router.all() now yields a single RouteDefinition with
     // isAnyMethod: true instead of one row per method (T016). Without this,
@@ -1,7 +1,7 @@
-import type { StandardSchemaV1 } from '@nextrush/types';
+import { SCHEMA_FIELDS, type FieldsSchema, type StandardSchemaV1 } from '@nextrush/types';
 import { describe, expect, it } from 'vitest';
 import { z } from 'zod';
-import { defaultConvert, resolveConverter } from '../json-schema.js';
+import { defaultConvert, resolveConverter, withSchemaFields } from '../json-schema.js';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -31,3 +31,41 @@ describe('resolveConverter', () => {
     expect(resolveConverter()).toBe(defaultConvert);
   });
 });
+
+describe('withSchemaFields', () => {
+  const fields = (entries: FieldsSchema[typeof SCHEMA_FIELDS]): FieldsSchema => ({
+    [SCHEMA_FIELDS]: entries,
+    '~standard': { version: 1, vendor: 'nextrush', validate: (value) => ({ value }) },
+  });
+
+  it('converts each field on its own into an object schema', async () => {
+    const convert = withSchemaFields(defaultConvert);
+    const schema = fields({
+      page: { schema: z.number(), required: false },
+      q: { schema: z.string(), required: true },
+    });
+
+    expect(await convert(schema)).toMatchObject({
+      type: 'object',
+      properties: { page: { type: 'number' }, q: { type: 'string' } },
+      required: ['q'],
+    });
+  });
+
+  it('passes every other schema, and each field, to the wrapped converter', async () => {
+    const seen: string[] = [];
+    const convert = withSchemaFields((schema) => {
+      seen.push(schema['~standard'].vendor);
+      return { converted: true };
+    });
+    const plain = z.string();
+
+    expect(await convert(plain)).toEqual({ converted: true });
+    expect(await convert(fields({ id: { schema: plain, required: true } }))).toEqual({
+      type: 'object',
+      properties: { id: { converted: true } },
+      required: ['id'],
+    });
+    expect(seen).toEqual(['zod', 'zod']);
+  });
+});
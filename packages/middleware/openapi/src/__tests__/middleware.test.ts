@@ -0,0 +1,79 @@
+import type { Context, RouteDefinition, Router } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { openapi } from '../middleware.js';
+
+function route(
+  def: Partial<RouteDefinition> & Pick<RouteDefinition, 'method' | 'path'>
+): RouteDefinition {
+  return { key: `${def.method} ${def.path}`, ...def };
+}
+
+const routes = [
+  route({ method: 'GET', path: '/users', metadata: { versions: ['1'] } }),
+  route({ method: 'GET', path: '/orders', metadata: { versions: ['2'] } }),
+  route({ method: 'GET', path: '/health' }),
+];
+
+function createCtx(path: string, method = 'GET') {
+  return { method, path, json: vi.fn(), html: vi.fn() } as unknown as Context & {
+    json: ReturnType<typeof vi.fn>;
+    html: ReturnType<typeof vi.fn>;
+  };
+}
+
+/** Run the middleware and report what it answered, if anything. */
+async function serve(router: Pick<Router, 'getRoutes' | 'versioning'>, path: string, options = {}) {
+  const ctx = createCtx(path);
+  const next = vi.fn(async () => {});
+  await openapi({ router, ...options })(ctx, next);
+  return { json: ctx.json.mock.calls[0]?.[0], html: ctx.html.mock.calls[0]?.[0], next };
+}
+
+describe('openapi() middleware', () => {
+  it('serves one document covering every route on an unversioned router', async () => {
+    const { json } = await serve({ getRoutes: () => routes }, '/openapi.json');
+
+    expect(Object.keys(json.paths)).toEqual(['/users', '/orders', '/health']);
+  });
+
+  it('serves one document per version the routes declare on a versioned router', async () => {
+    const router = { getRoutes: () => routes, versioning: { type: 'header' as const } };
+
+    const v1 = (await serve(router, '/openapi/1.json')).json;
+    const v2 = (await serve(router, '/openapi/2.json')).json;
+
+    expect(v1.info.version).toBe('1');
+    expect(Object.keys(v1.paths)).toEqual(['/users', '/health']);
+    expect(Object.keys(v2.paths)).toEqual(['/orders', '/health']);
+    expect((await serve(router, '/openapi/3.json')).next).toHaveBeenCalled();
+    expect((await serve(router, '/openapi.json')).next).toHaveBeenCalled();
+  });
+
+  it('serves the listed versions at a custom path and links them all from the docs UI', async () => {
+    const router = { getRoutes: () => routes };
+    const options = { versions: ['2'], path: '/spec/v{version}' };
+
+    expect((await serve(router, '/spec/v2', options)).json.info.version).toBe('2');
+    expect((await serve(router, '/spec/v1', options)).next).toHaveBeenCalled();
+    expect((await serve(router, '/docs', options)).html).toContain(
+      'urls: [{"url":"/spec/v2","name":"API 2"}]'
+    );
+  });
+
+  it('caches each version document', async () => {
+    const getRoutes = vi.fn(() => routes);
+    const middleware = openapi({ router: { getRoutes }, versions: ['1', '2'] });
+
+    for (const path of ['/openapi/1.json', '/openapi/1.json', '/openapi/2.json']) {
+      await middleware(createCtx(path), async () => {});
+    }
+
+    expect(getRoutes).toHaveBeenCalledTimes(2);
+  });
+
+  it('requires {version} in the path of a versioned API', () => {
+    expect(() =>
+      openapi({ router: { getRoutes: () => routes }, versions: ['1'], path: '/openapi.json' })
+    ).toThrow(TypeError);
+  });
+});
@@ -14,13 +14,36 @@ function escapeHtml(value: string): string {
     .replace(/"/g, '&quot;');
 }
 
-/** Render a Swagger UI HTML page for the given spec URL. */
-export function swaggerUiHtml(specUrl: string, title: string): string {
+/** One spec listed in the docs UI's spec selector. */
+export interface SpecLink {
+  readonly url: string;
+  readonly name: string;
+}
+
+/**
+ * Serialize a value as a JS literal for a <script>. `<` is escaped so a value
+ * can never close the script element.
+ */
+function scriptLiteral(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Render a Swagger UI HTML page for the given spec URL, or for several specs
+ * (one per API version) offered in its top-bar spec selector.
+ */
+export function swaggerUiHtml(spec: string | readonly SpecLink[], title: string): string {
   const safeTitle = escapeHtml(title);
-  // specUrl is injected into a <script> as a JS string literal — JSON.stringify
-  // is the correct (JS-context) escaping. HTML-escaping it here would corrupt
+  // Spec URLs are injected into a <script> as JS literals — JSON.stringify
+  // is the correct (JS-context) escaping. HTML-escaping them here would corrupt
   // URLs containing '&' (query params). Title is HTML text → escapeHtml.
-  const specLiteral = JSON.stringify(specUrl);
+  const single = typeof spec === 'string';
+  const config = single
+    ? `url: ${scriptLiteral(spec)}`
+    : `urls: ${scriptLiteral(spec)}, presets: [SwaggerUIBundle.presets.apis, SwaggerUIStandalonePreset], layout: 'StandaloneLayout'`;
+  const preset = single
+    ? ''
+    : `\n  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-standalone-preset.js" crossorigin></script>`;
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -31,9 +54,9 @@ export function swaggerUiHtml(specUrl: string, title: string): string {
 </head>
 <body>
   <div id="swagger-ui"></div>
-  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js" crossorigin></script>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js" crossorigin></script>${preset}
   <script>
-    window.ui = SwaggerUIBundle({ url: ${specLiteral}, dom_id: '#swagger-ui' });
+    window.ui = SwaggerUIBundle({ ${config}, dom_id: '#swagger-ui' });
   </script>
 </body>
 </html>`;
@@ -5,24 +5,79 @@
  * coupling — the middleware (middleware.ts) feeds it getRoutes() and caches the result.
  */
 
-import type { RouteDefinition, StandardSchemaV1 } from '@nextrush/types';
-import { resolveConverter } from './json-schema.js';
+import type {
+  RouteDefinition,
+  RouteSecurity,
+  SecurityScheme,
+  StandardSchemaV1,
+} from '@nextrush/types';
+import { resolveConverter, withSchemaFields } from './json-schema.js';
 import type { OpenApiDocument, OpenApiOptions, SchemaConverter } from './types.js';
 
-/** Convert a NextRush path pattern (`/users/:id`) to an OpenAPI path (`/users/{id}`). */
+/** A path parameter parsed from a NextRush segment (`:id`, `:id(\d+)`, `:id?`). */
+interface PathParam {
+  readonly name: string;
+  /** The constraint's regex source, without the surrounding parentheses. */
+  readonly pattern?: string;
+  readonly optional: boolean;
+}
+
+/** Parse a `:name`, `:name(regex)` or `:name?` segment; `undefined` for other segments. */
+function parseParamSegment(segment: string): PathParam | undefined {
+  if (!segment.startsWith(':')) return undefined;
+  let body = segment.slice(1);
+  const optional = body.endsWith('?');
+  if (optional) body = body.slice(0, -1);
+  const open = body.indexOf('(');
+  if (open === -1 || !body.endsWith(')')) return { name: body, optional };
+  return { name: body.slice(0, open), pattern: body.slice(open + 1, -1), optional };
+}
+
+/**
+ * Convert a NextRush path pattern (`/users/:id`) to an OpenAPI path (`/users/{id}`).
+ * Constraints and optional markers are dropped (`/users/:id(\d+)` -> `/users/{id}`).
+ */
 export function toOpenApiPath(path: string): string {
-  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+  return path
+    .split('/')
+    .map((segment) => {
+      const param = parseParamSegment(segment);
+      return param ? `{${param.name}}` : segment;
+    })
+    .join('/');
 }
 
 /** Extract path parameter names from a NextRush path pattern. */
 export function extractPathParams(path: string): string[] {
-  const names: string[] = [];
-  const re = /:([A-Za-z0-9_]+)/g;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(path)) !== null) {
-    if (m[1]) names.push(m[1]);
+  return parsePathParams(path).map((p) => p.name);
+}
+
+function parsePathParams(path: string): PathParam[] {
+  const params: PathParam[] = [];
+  for (const segment of path.split('/')) {
+    const param = parseParamSegment(segment);
+    if (param) params.push(param);
   }
-  return names;
+  return params;
+}
+
+/**
+ * Expand trailing optional params into the concrete paths a route answers,
+ * shortest first: `/posts/:slug?` -> `['/posts', '/posts/:slug']`. OpenAPI
+ * path parameters are always required, so each answer gets its own path item.
+ */
+function expandOptional(path: string): string[] {
+  const segments = path.split('/');
+  const variants: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const param = parseParamSegment(segments[i] ?? '');
+    if (param?.optional) variants.push(segments.slice(0, i).join('/') || '/');
+  }
+  if (variants.length === 0) return [path];
+  variants.push(
+    segments.map((s) => (parseParamSegment(s)?.optional ? s.slice(0, -1) : s)).join('/')
+  );
+  return variants;
 }
 
 function isExcluded(path: string, exclude: readonly string[] | undefined): boolean {
@@ -30,6 +85,24 @@ function isExcluded(path: string, exclude: readonly string[] | undefined): boole
   return exclude.some((prefix) => path.startsWith(prefix));
 }
 
+/** Whether a route belongs in the document of `version` (every route when `undefined`). */
+function servesVersion(route: RouteDefinition, version: string | undefined): boolean {
+  const versions = route.metadata?.versions;
+  return version === undefined || versions === undefined || versions.includes(version);
+}
+
+/**
+ * Every API version the routes declare, in ascending order (digit runs
+ * compare numerically, so `10` follows `9`).
+ */
+export function declaredVersions(routes: readonly RouteDefinition[]): string[] {
+  const versions = new Set<string>();
+  for (const route of routes) {
+    for (const version of route.metadata?.versions ?? []) versions.add(version);
+  }
+  return [...versions].sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+}
+
 function asObject(v: unknown): Record<string, unknown> | undefined {
   return v && typeof v === 'object' ? (v as Record<string, unknown>) : undefined;
 }
@@ -56,6 +129,13 @@ function propSchema(schema: unknown, name: string): unknown {
   return props?.[name];
 }
 
+/**
+ * Header parameters OpenAPI forbids describing as `in: header` — they are
+ * expressed by `requestBody`/`content` and `securitySchemes` instead, so a
+ * header schema that validates them must not leak them into `parameters`.
+ */
+const RESERVED_HEADERS: ReadonlySet<string> = new Set(['accept', 'content-type', 'authorization']);
+
 const STATUS_TEXT: Readonly<Record<number, string>> = {
   200: 'OK',
   201: 'Created',
@@ -81,14 +161,74 @@ const STATUS_TEXT: Readonly<Record<number, string>> = {
  */
 const ALL_OPENAPI_VERBS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'] as const;
 
-function deriveOperationId(route: RouteDefinition, verb: string): string {
-  const slug = route.path.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+function deriveOperationId(path: string, verb: string): string {
+  const slug = toOpenApiPath(path)
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
   return `${verb}${slug ? `_${slug}` : ''}`;
 }
 
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+const PROBLEM_SCHEMA_REF = '#/components/schemas/ProblemDetails';
+
+/**
+ * RFC 9457 problem details, as `@nextrush/errors` writes them in problem
+ * mode: the five standard members plus its `code` and validation `errors`
+ * extensions. Further extension members are allowed.
+ */
+const PROBLEM_DETAILS_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', format: 'uri-reference', default: 'about:blank' },
+    title: { type: 'string' },
+    status: { type: 'integer', minimum: 100, maximum: 599 },
+    detail: { type: 'string' },
+    instance: { type: 'string', format: 'uri-reference' },
+    code: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          detail: { type: 'string' },
+          pointer: { type: 'string' },
+          rule: { type: 'string' },
+          expected: {},
+        },
+        required: ['detail', 'pointer'],
+      },
+    },
+  },
+  required: ['type', 'title', 'status'],
+} as const;
+
+/**
+ * Whether error responses are documented as problem details, and whether
+ * any operation has referenced the shared schema yet (it is only emitted
+ * into `components` when one has).
+ */
+interface ProblemRefs {
+  readonly enabled: boolean;
+  used: boolean;
+}
+
+function isSuccess(status: string): boolean {
+  return /^2\d\d$/.test(status);
+}
+
+/** A declared error response's body: the problem schema, refined by the route's own. */
+function problemContent(schema: unknown, problems: ProblemRefs): Record<string, unknown> {
+  problems.used = true;
+  const ref = { $ref: PROBLEM_SCHEMA_REF };
+  const body =
+    asObject(schema) && Object.keys(schema as object).length > 0 ? { allOf: [ref, schema] } : ref;
+  return { [PROBLEM_CONTENT_TYPE]: { schema: body } };
+}
+
 async function buildResponses(
   responses: Readonly<Record<number, StandardSchemaV1>> | undefined,
-  convert: SchemaConverter
+  convert: SchemaConverter,
+  problems: ProblemRefs
 ): Promise<Record<string, unknown>> {
   if (!responses) {
     return { default: { description: 'Response' } };
@@ -96,36 +236,89 @@ async function buildResponses(
   const out: Record<string, unknown> = {};
   for (const [status, schema] of Object.entries(responses)) {
     const code = Number(status);
+    const json = await convert(schema);
     out[status] = {
       description: STATUS_TEXT[code] ?? 'Response',
-      content: { 'application/json': { schema: await convert(schema) } },
+      content:
+        problems.enabled && !isSuccess(status)
+          ? problemContent(json, problems)
+          : { 'application/json': { schema: json } },
     };
   }
+  // Any status the route did not declare still reaches the client through
+  // the error middleware, so it is documented as a problem too.
+  if (problems.enabled && !('default' in out)) {
+    out.default = { description: 'Error', content: problemContent(undefined, problems) };
+  }
   return out;
 }
 
+/**
+ * The security schemes operations have referenced, by name — emitted as
+ * `components.securitySchemes`.
+ */
+type SchemeRegistry = Map<string, SecurityScheme>;
+
+/**
+ * An operation's `security` array: one requirement object per accepted
+ * scheme (any one suffices), plus `{}` when anonymous requests are served.
+ *
+ * @throws {Error} When two routes declare the same scheme name with
+ *   different definitions — the document could only describe one of them.
+ */
+function buildSecurity(security: RouteSecurity, schemes: SchemeRegistry): unknown[] {
+  const requirements: unknown[] = [];
+  for (const { name, scheme } of security.schemes) {
+    const known = schemes.get(name);
+    if (known && JSON.stringify(known) !== JSON.stringify(scheme)) {
+      throw new Error(
+        `openapi: security scheme "${name}" is declared with two different definitions`
+      );
+    }
+    schemes.set(name, scheme);
+    requirements.push({ [name]: [] });
+  }
+  if (security.optional) requirements.push({});
+  return requirements;
+}
+
+/**
+ * Add a route constraint to a path parameter's schema as an anchored
+ * `pattern`, unless the schema already declares its own.
+ */
+function withPattern(schema: unknown, source: string): unknown {
+  const obj = asObject(schema);
+  if (!obj || 'pattern' in obj) return schema;
+  return { ...obj, pattern: `^(?:${source})$` };
+}
+
 async function buildOperation(
   route: RouteDefinition,
+  path: string,
   verb: string,
-  convert: SchemaConverter
+  convert: SchemaConverter,
+  problems: ProblemRefs,
+  schemes: SchemeRegistry
 ): Promise<Record<string, unknown>> {
   const md = route.metadata;
-  const op: Record<string, unknown> = { operationId: deriveOperationId(route, verb) };
+  const op: Record<string, unknown> = { operationId: deriveOperationId(path, verb) };
 
   if (md?.summary) op.summary = md.summary;
   if (md?.description) op.description = md.description;
   if (md?.tags) op.tags = md.tags;
   if (md?.deprecated) op.deprecated = true;
+  if (md?.security) op.security = buildSecurity(md.security, schemes);
 
   const parameters: unknown[] = [];
 
   const paramsSchema = md?.request?.params ? await convert(md.request.params) : undefined;
-  for (const name of extractPathParams(route.path)) {
+  for (const param of parsePathParams(path)) {
+    const schema = propSchema(paramsSchema, param.name) ?? { type: 'string' };
     parameters.push({
-      name,
+      name: param.name,
       in: 'path',
       required: true,
-      schema: propSchema(paramsSchema, name) ?? { type: 'string' },
+      schema: param.pattern === undefined ? schema : withPattern(schema, param.pattern),
     });
   }
 
@@ -136,6 +329,21 @@ async function buildOperation(
     }
   }
 
+  if (md?.request?.headers) {
+    const headersSchema = await convert(md.request.headers);
+    for (const p of objectProps(headersSchema)) {
+      if (RESERVED_HEADERS.has(p.name.toLowerCase())) continue;
+      parameters.push({ name: p.name, in: 'header', required: p.required, schema: p.schema });
+    }
+  }
+
+  if (md?.request?.cookies) {
+    const cookiesSchema = await convert(md.request.cookies);
+    for (const p of objectProps(cookiesSchema)) {
+      parameters.push({ name: p.name, in: 'cookie', required: p.required, schema: p.schema });
+    }
+  }
+
   if (parameters.length > 0) op.parameters = parameters;
 
   if (md?.request?.body) {
@@ -145,22 +353,35 @@ async function buildOperation(
     };
   }
 
-  op.responses = await buildResponses(md?.responses, convert);
+  op.responses = await buildResponses(md?.responses, convert, problems);
   return op;
 }
 
 /**
  * Generate an OpenAPI 3.1 document from route definitions. Routes marked
  * `visibility: 'internal'` or matching an `exclude` prefix are omitted.
+ * With `problemDetails: true`, the error responses of routes that
+ * declare `responses` are `application/problem+json`, sharing a
+ * `ProblemDetails` component schema. A route's `security` becomes the
+ * operation's `security`, and its schemes `components.securitySchemes`.
+ * With `version`, only the routes serving that API version (per
+ * `metadata.versions`) and version-neutral routes are documented, and the
+ * version becomes `info.version`.
+ *
+ * @throws {Error} When one security scheme name has two definitions.
  */
 export async function generateDocument(
   routes: readonly RouteDefinition[],
-  options: Pick<OpenApiOptions, 'info' | 'exclude' | 'toJsonSchema'>
+  options: Pick<OpenApiOptions, 'info' | 'exclude' | 'toJsonSchema' | 'problemDetails'> & {
+    version?: string;
+  }
 ): Promise<OpenApiDocument> {
-  const convert = resolveConverter(options.toJsonSchema);
+  const convert = withSchemaFields(resolveConverter(options.toJsonSchema));
+  const problems: ProblemRefs = { enabled: options.problemDetails === true, used: false };
+  const schemes: SchemeRegistry = new Map();
   const info: Record<string, unknown> = {
     title: options.info?.title ?? 'API',
-    version: options.info?.version ?? '1.0.0',
+    version: options.version ?? options.info?.version ?? '1.0.0',
   };
   if (options.info?.description) info.description = options.info.description;
 
@@ -169,19 +390,25 @@ export async function generateDocument(
   for (const route of routes) {
     if (route.metadata?.visibility === 'internal') continue;
     if (isExcluded(route.path, options.exclude)) continue;
-
-    const oaPath = toOpenApiPath(route.path);
-    const pathItem = (paths[oaPath] ??= {});
+    if (!servesVersion(route, options.version)) continue;
 
     // An isAnyMethod row (T016) represents one handler answering every
     // standard HTTP method — expand it into an operation per verb rather
     // than keying off its single placeholder `.method` value, which would
     // silently drop the other 6 methods from the generated spec.
     const verbs = route.isAnyMethod ? ALL_OPENAPI_VERBS : [route.method.toLowerCase()];
-    for (const verb of verbs) {
-      pathItem[verb] = await buildOperation(route, verb, convert);
+    for (const path of expandOptional(route.path)) {
+      const pathItem = (paths[toOpenApiPath(path)] ??= {});
+      for (const verb of verbs) {
+        pathItem[verb] = await buildOperation(route, path, verb, convert, problems, schemes);
+      }
     }
   }
 
-  return { openapi: '3.1.0', info, paths };
+  const doc: OpenApiDocument = { openapi: '3.1.0', info, paths };
+  const components: Record<string, unknown> = {};
+  if (problems.used) components.schemas = { ProblemDetails: PROBLEM_DETAILS_SCHEMA };
+  if (schemes.size > 0) components.securitySchemes = Object.fromEntries(schemes);
+  if (Object.keys(components).length > 0) doc.components = components;
+  return doc;
 }
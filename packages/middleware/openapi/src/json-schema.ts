@@ -7,7 +7,7 @@
  * with a user override and an untyped `{}` fallback.
  */
 
-import type { StandardSchemaV1 } from '@nextrush/types';
+import { SCHEMA_FIELDS, type FieldsSchema, type StandardSchemaV1 } from '@nextrush/types';
 import type { SchemaConverter } from './types.js';
 
 /** Free-function converters exported by a library's converter package. */
@@ -58,3 +58,25 @@ export async function defaultConvert(schema: StandardSchemaV1): Promise<unknown>
 export function resolveConverter(override?: SchemaConverter): SchemaConverter {
   return override ?? defaultConvert;
 }
+
+/**
+ * Extend a converter to object schemas assembled from field schemas (see
+ * `SCHEMA_FIELDS` — e.g. the `@Query('page', schema)` parameters of a class
+ * controller). No schema library can convert such a composite, so each field
+ * is converted on its own and the results become the object's `properties`.
+ */
+export function withSchemaFields(convert: SchemaConverter): SchemaConverter {
+  const convertWithFields: SchemaConverter = async (schema) => {
+    const fields = (schema as Partial<FieldsSchema>)[SCHEMA_FIELDS];
+    if (!fields) return convert(schema);
+
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const [name, field] of Object.entries(fields)) {
+      properties[name] = await convertWithFields(field.schema);
+      if (field.required) required.push(name);
+    }
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+  };
+  return convertWithFields;
+}
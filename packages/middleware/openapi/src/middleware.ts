@@ -6,6 +6,9 @@
  * never matters), caches it in memory, and serves it plus a docs UI. The
  * generator is never invoked during normal request handling.
  *
+ * A versioned API gets one document per version, each cached on its own, and
+ * a docs UI that switches between them.
+ *
  * @example
  * ```typescript
  * app.use(openapi({ router })); // serves /openapi.json and /docs
@@ -14,34 +17,65 @@
 
 import type { Context, Middleware, Next } from '@nextrush/types';
 import { swaggerUiHtml } from './docs-ui.js';
-import { generateDocument } from './generate.js';
+import { declaredVersions, generateDocument } from './generate.js';
 import type { OpenApiDocument, OpenApiOptions } from './types.js';
 
 /**
  * Create the OpenAPI middleware.
  *
  * Mount it with `app.use()`. It responds to the spec path (`/openapi.json` by
- * default) and the docs path (`/docs`); all other requests fall through.
+ * default, `/openapi/{version}.json` for each version of a versioned API) and
+ * the docs path (`/docs`); all other requests fall through.
+ *
+ * @throws {TypeError} When documenting versions and `path` lacks `{version}`.
  */
 export function openapi(options: OpenApiOptions): Middleware {
-  const specPath = options.path ?? '/openapi.json';
+  const versioned = options.versions !== undefined || options.router.versioning !== undefined;
+  const specPath = options.path ?? (versioned ? '/openapi/{version}.json' : '/openapi.json');
   const docsPath = options.docs === false ? undefined : (options.docs ?? '/docs');
   const enabled = options.enabled ?? true;
   const title = options.info?.title ?? 'API';
 
-  let cached: OpenApiDocument | null = null;
+  if (versioned && !specPath.includes('{version}')) {
+    throw new TypeError(
+      `openapi(): path "${specPath}" must contain "{version}" to serve one document per API version.`
+    );
+  }
+
+  const cached = new Map<string | undefined, OpenApiDocument>();
+  let versions: readonly string[] | undefined;
+  const listVersions = (): readonly string[] =>
+    (versions ??= options.versions ?? declaredVersions(options.router.getRoutes()));
+  const specUrl = (version: string): string => specPath.replace('{version}', () => version);
+
+  /** The version whose document `path` names; `undefined` for the unversioned one. */
+  const specVersion = (path: string): string | undefined | null => {
+    if (!versioned) return path === specPath ? undefined : null;
+    return listVersions().find((version) => specUrl(version) === path) ?? null;
+  };
 
   return async (ctx: Context, next: Next): Promise<void> => {
     if (!enabled) {
       return next();
     }
-    if (ctx.method === 'GET' && ctx.path === specPath) {
-      cached ??= await generateDocument(options.router.getRoutes(), options);
-      ctx.json(cached);
+    if (ctx.method !== 'GET') {
+      return next();
+    }
+    const version = specVersion(ctx.path);
+    if (version !== null) {
+      let doc = cached.get(version);
+      if (!doc) {
+        doc = await generateDocument(options.router.getRoutes(), { ...options, version });
+        cached.set(version, doc);
+      }
+      ctx.json(doc);
       return;
     }
-    if (docsPath !== undefined && ctx.method === 'GET' && ctx.path === docsPath) {
-      ctx.html(swaggerUiHtml(specPath, title));
+    if (docsPath !== undefined && ctx.path === docsPath) {
+      const spec = versioned
+        ? listVersions().map((v) => ({ url: specUrl(v), name: `${title} ${v}` }))
+        : specPath;
+      ctx.html(swaggerUiHtml(spec, title));
       return;
     }
     await next();
@@ -18,11 +18,22 @@ export interface OpenApiOptions {
    * The router whose routes to document (the same router you pass to `registerControllers`).
    * Only its `getRoutes()` projection is read — never per request.
    */
-  router: Pick<Router, 'getRoutes'>;
+  router: Pick<Router, 'getRoutes' | 'versioning'>;
   /** Document info block. Defaults: title 'API', version '1.0.0'. */
   info?: OpenApiInfo;
-  /** Path serving the JSON spec. Default `/openapi.json`. */
+  /**
+   * Path serving the JSON spec. Default `/openapi.json`, or
+   * `/openapi/{version}.json` when documenting versions — `{version}` is
+   * required then and replaced by each version.
+   */
   path?: string;
+  /**
+   * API versions to document, one document each, holding the routes serving
+   * that version and the version-neutral ones. Defaults to every version the
+   * routes declare when the router has `versioning`; otherwise one document
+   * covers every route.
+   */
+  versions?: readonly string[];
   /** Path serving the docs UI, or `false` to disable. Default `/docs`. */
   docs?: string | false;
   /** Path prefixes to exclude from the spec (e.g. `/internal`). Prefix match. */
@@ -31,6 +42,13 @@ export interface OpenApiOptions {
   enabled?: boolean;
   /** Override schema→JSON-Schema conversion. Default: vendor-dispatch (zod/valibot/arktype). */
   toJsonSchema?: SchemaConverter;
+  /**
+   * Document declared non-2xx responses (and a `default` error response) as
+   * RFC 9457 `application/problem+json`, matching `errorHandler({ format: 'problem' })`
+   * from `@nextrush/errors`. Enable it only when the app sends problem details;
+   * `errorHandler()` sends the NextRush JSON shape by default. Default `false`.
+   */
+  problemDetails?: boolean;
 }
 
 /** A JSON-serializable OpenAPI 3.1 document (kept loose — renderers/clients validate). */
@@ -41,7 +41,7 @@ import {
   tokenBucket,
   WINDOW_PATTERN,
 } from '../index';
-import type { Algorithm, KeyGenerator, MemoryStoreOptions, OnRateLimited, RateLimitAlgorithm, RateLimitHandler, RateLimitInfo, RateLimitMiddleware, RateLimitOptions, RateLimitStore, SkipFunction, StoreEntry, TierConfig, TieredRateLimitOptions, TierResolver } from '../index';
+import type { Algorithm, ConsumeRequest, KeyGenerator, MemoryStoreOptions, OnRateLimited, RateLimitAlgorithm, RateLimitHandler, RateLimitInfo, RateLimitMiddleware, RateLimitOptions, RateLimitStore, RedisFailureMode, RedisScriptClient, RedisStoreOptions, SkipFunction, StoreEntry, TierConfig, TieredRateLimitOptions, TierResolver } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols (default export excluded — vitest module namespace)', () => {
@@ -81,7 +81,13 @@ describe('Public API surface (runtime exports)', () => {
       'TIME_UNITS',
       'WINDOW_PATTERN',
       'createMemoryStore',
+      'createRedisStore',
       'MemoryStore',
+      'REDIS_SCRIPTS',
+      'RedisStore',
+      'DEFAULT_REDIS_PREFIX',
+      'DEFAULT_REDIS_RETRY_INTERVAL',
+      'DEFAULT_REDIS_TIMEOUT',
       'LEGACY_RATE_LIMIT_HEADERS',
       'setRateLimitHeaders',
       'STANDARD_RATE_LIMIT_HEADERS',
@@ -151,6 +157,10 @@ describe('Public API surface (type-only exports)', () => {
       TieredRateLimitOptions,
       TierResolver,
       MemoryStoreOptions,
+      ConsumeRequest,
+      RedisFailureMode,
+      RedisScriptClient,
+      RedisStoreOptions,
     ];
     expectTypeOf<Surface>().not.toBeNever();
   });
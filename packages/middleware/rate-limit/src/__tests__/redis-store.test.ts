@@ -0,0 +1,362 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryStore,
+  createRedisStore,
+  fixedWindow,
+  REDIS_SCRIPTS,
+  RateLimitValidationError,
+  RedisStore,
+  slidingWindow,
+  tokenBucket,
+  type RedisScriptClient,
+  type RedisStoreOptions,
+} from '../index';
+
+type Hash = Map<string, string>;
+
+/**
+ * In-process stand-in for a Redis server: each exported script is mirrored by
+ * a JS port with the same KEYS/ARGV contract and reply shape, run
+ * synchronously — i.e. atomically, like the real server.
+ */
+class FakeRedis implements RedisScriptClient {
+  readonly hashes = new Map<string, { hash: Hash; expiresAt: number }>();
+  readonly calls: { script: string; keys: readonly string[]; args: readonly string[] }[] = [];
+
+  async eval(script: string, keys: readonly string[], args: readonly string[]): Promise<unknown> {
+    this.calls.push({ script, keys, args });
+    const key = keys[0] ?? '';
+    const n = args.map(Number);
+    switch (script) {
+      case REDIS_SCRIPTS.tokenBucket:
+        return this.tokenBucket(key, n[0] ?? 0, n[1] ?? 0, n[2] ?? 0, n[3] ?? 0);
+      case REDIS_SCRIPTS.slidingWindow:
+        return this.slidingWindow(key, n[0] ?? 0, n[1] ?? 0, n[2] ?? 0);
+      case REDIS_SCRIPTS.fixedWindow: {
+        const hash = this.hash(key);
+        let count = Number(hash.get('count') ?? 0);
+        let allowed = 0;
+        if (count < (n[0] ?? 0)) {
+          count += 1;
+          allowed = 1;
+        }
+        this.write(key, { count, windowStart: args[1] ?? '' }, n[2] ?? 0, hash);
+        return [allowed, count];
+      }
+      case REDIS_SCRIPTS.get:
+        return [...(this.live(key) ?? new Map<string, string>())].flat();
+      case REDIS_SCRIPTS.set: {
+        const fields: Record<string, string> = {};
+        for (let i = 1; i + 1 < args.length; i += 2) fields[args[i] ?? ''] = args[i + 1] ?? '';
+        this.write(key, fields, n[0] ?? 0, new Map());
+        return 1;
+      }
+      case REDIS_SCRIPTS.increment: {
+        const hash = this.hash(key);
+        const count = Number(hash.get('count') ?? 0) + 1;
+        const fields: Record<string, string | number> = { count };
+        if (count === 1) fields.windowStart = args[1] ?? '';
+        this.write(key, fields, n[0] ?? 0, hash);
+        return count;
+      }
+      case REDIS_SCRIPTS.decrement: {
+        const hash = this.live(key);
+        const count = Number(hash?.get('count') ?? 0);
+        if (hash && count > 0) hash.set('count', String(count - 1));
+        return count;
+      }
+      case REDIS_SCRIPTS.reset:
+        return this.hashes.delete(key) ? 1 : 0;
+      default:
+        throw new Error('NOSCRIPT unknown script');
+    }
+  }
+
+  private tokenBucket(key: string, limit: number, window: number, capacity: number, now: number) {
+    const state = this.live(key);
+    let tokens: number;
+    let windowStart: number;
+    if (!state?.has('windowStart')) {
+      tokens = capacity - 1;
+      windowStart = now;
+    } else {
+      windowStart = Number(state.get('windowStart'));
+      const last = Number(state.get('lastUpdate') ?? windowStart);
+      const current = Number(state.get('tokens') ?? capacity);
+      tokens = Math.min(capacity, current + ((now - last) * limit) / window) - 1;
+      if (now - windowStart >= window) windowStart = now;
+    }
+    let allowed = 1;
+    if (tokens < 0) {
+      allowed = 0;
+      tokens += 1;
+    }
+    tokens = Math.max(0, tokens);
+    const remaining = Math.floor(tokens);
+    this.write(
+      key,
+      { count: limit - remaining, windowStart, lastUpdate: now, tokens },
+      window * 2,
+      state ?? new Map()
+    );
+    return [allowed, remaining, windowStart];
+  }
+
+  private slidingWindow(key: string, limit: number, window: number, now: number) {
+    const state = this.live(key);
+    let windowStart = now;
+    let count = 1;
+    let prev = 0;
+    if (state?.has('windowStart')) {
+      const start = Number(state.get('windowStart'));
+      const age = now - start;
+      if (age < window) {
+        windowStart = start;
+        count = Number(state.get('count') ?? 0) + 1;
+        prev = Number(state.get('prevCount') ?? 0);
+      } else if (age < window * 2) {
+        windowStart = start + window;
+        prev = Number(state.get('count') ?? 0);
+      }
+    }
+    const effective = prev * (1 - Math.min(1, (now - windowStart) / window)) + count;
+    let allowed = 1;
+    if (effective > limit) {
+      allowed = 0;
+      count -= 1;
+    }
+    this.write(key, { count, windowStart, prevCount: prev }, window * 2, state ?? new Map());
+    return [allowed, Math.max(0, Math.floor(limit - effective)), Math.ceil(effective), windowStart];
+  }
+
+  private live(key: string): Hash | undefined {
+    const stored = this.hashes.get(key);
+    if (stored && Date.now() >= stored.expiresAt) {
+      this.hashes.delete(key);
+      return undefined;
+    }
+    return stored?.hash;
+  }
+
+  private hash(key: string): Hash {
+    return this.live(key) ?? new Map();
+  }
+
+  private write(key: string, fields: Record<string, string | number>, ttlMs: number, hash: Hash) {
+    for (const [field, value] of Object.entries(fields)) hash.set(field, String(value));
+    this.hashes.set(key, { hash, expiresAt: Date.now() + ttlMs });
+  }
+}
+
+/** A client whose backend is down: every call rejects. */
+function downClient(): RedisScriptClient & { eval: ReturnType<typeof vi.fn> } {
+  return { eval: vi.fn(() => Promise.reject(new Error('ECONNREFUSED'))) };
+}
+
+function store(client: RedisScriptClient, options: Partial<RedisStoreOptions> = {}): RedisStore {
+  return createRedisStore({ client, onError: () => {}, ...options });
+}
+
+const WINDOW = 60_000;
+
+describe('RedisStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('shared limits', () => {
+    it('enforces one limit across instances sharing a backend (fixed window)', async () => {
+      const redis = new FakeRedis();
+      const podA = store(redis);
+      const podB = store(redis);
+
+      expect((await fixedWindow.consume('ip', 2, WINDOW, podA)).allowed).toBe(true);
+      expect((await fixedWindow.consume('ip', 2, WINDOW, podB)).allowed).toBe(true);
+      const third = await fixedWindow.consume('ip', 2, WINDOW, podA);
+      expect(third).toMatchObject({ allowed: false, remaining: 0, current: 2 });
+    });
+
+    it('runs the whole check as one script per request', async () => {
+      const redis = new FakeRedis();
+      await slidingWindow.consume('ip', 5, WINDOW, store(redis));
+      expect(redis.calls).toHaveLength(1);
+      expect(redis.calls[0]?.script).toBe(REDIS_SCRIPTS.slidingWindow);
+    });
+
+    it('prefixes every key', async () => {
+      const redis = new FakeRedis();
+      await tokenBucket.consume('ip', 5, WINDOW, store(redis, { prefix: 'api:' }));
+      expect(redis.calls[0]?.keys).toEqual(['api:ip']);
+      await tokenBucket.consume('ip', 5, WINDOW, store(redis));
+      expect(redis.calls[1]?.keys).toEqual(['nextrush:ip']);
+    });
+  });
+
+  describe('algorithms', () => {
+    it('token bucket allows a burst, then refills over time', async () => {
+      const s = store(new FakeRedis());
+      for (let i = 0; i < 3; i++) {
+        expect((await tokenBucket.consume('k', 3, 3_000, s)).allowed).toBe(true);
+      }
+      expect((await tokenBucket.consume('k', 3, 3_000, s)).allowed).toBe(false);
+
+      vi.advanceTimersByTime(1_000); // one token back at 3 per 3s
+      const refilled = await tokenBucket.consume('k', 3, 3_000, s);
+      expect(refilled).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('token bucket honours burstLimit as the capacity', async () => {
+      const s = store(new FakeRedis());
+      const first = await tokenBucket.consume('k', 10, WINDOW, s, 2);
+      expect(first.remaining).toBe(1);
+      await tokenBucket.consume('k', 10, WINDOW, s, 2);
+      expect((await tokenBucket.consume('k', 10, WINDOW, s, 2)).allowed).toBe(false);
+    });
+
+    it('sliding window weighs the previous window', async () => {
+      const s = store(new FakeRedis());
+      for (let i = 0; i < 4; i++) await slidingWindow.consume('k', 4, WINDOW, s);
+      expect((await slidingWindow.consume('k', 4, WINDOW, s)).allowed).toBe(false);
+
+      // A quarter into the next window, 75% of the previous 4 still counts.
+      vi.advanceTimersByTime(WINDOW + WINDOW / 4);
+      const info = await slidingWindow.consume('k', 4, WINDOW, s);
+      expect(info).toMatchObject({ allowed: true, current: 4, remaining: 0 });
+      expect((await slidingWindow.consume('k', 4, WINDOW, s)).allowed).toBe(false);
+    });
+
+    it('fixed window starts a fresh count in the next window', async () => {
+      const s = store(new FakeRedis());
+      await fixedWindow.consume('k', 1, WINDOW, s);
+      expect((await fixedWindow.consume('k', 1, WINDOW, s)).allowed).toBe(false);
+      vi.advanceTimersByTime(WINDOW);
+      expect((await fixedWindow.consume('k', 1, WINDOW, s)).allowed).toBe(true);
+    });
+
+    it('reports reset timing from the window start', async () => {
+      const info = await fixedWindow.consume('k', 5, WINDOW, store(new FakeRedis()));
+      expect(info.resetIn).toBe(60);
+      expect(info.resetTime).toBe(Math.ceil((Date.now() + WINDOW) / 1000));
+    });
+  });
+
+  describe('key-value primitives', () => {
+    it('round-trips an entry and expires it', async () => {
+      const s = store(new FakeRedis());
+      await s.set('k', { count: 3, windowStart: 10, tokens: 1.5 }, 1_000);
+      expect(await s.get('k')).toEqual({ count: 3, windowStart: 10, tokens: 1.5 });
+      vi.advanceTimersByTime(1_000);
+      expect(await s.get('k')).toBeNull();
+    });
+
+    it('increments, decrements and resets', async () => {
+      const s = store(new FakeRedis());
+      expect(await s.increment('k', 1_000)).toBe(1);
+      expect(await s.increment('k', 1_000)).toBe(2);
+      await s.decrement('k');
+      expect((await s.get('k'))?.count).toBe(1);
+      await s.reset('k');
+      expect(await s.get('k')).toBeNull();
+    });
+
+    it('serves peek through get()', async () => {
+      const s = store(new FakeRedis());
+      await fixedWindow.consume('k', 5, WINDOW, s);
+      await fixedWindow.consume('k', 5, WINDOW, s);
+      expect((await fixedWindow.peek('k', 5, WINDOW, s)).remaining).toBe(3);
+    });
+  });
+
+  describe('backend failure', () => {
+    it('fails open by default', async () => {
+      const info = await tokenBucket.consume('k', 5, WINDOW, store(downClient()));
+      expect(info).toMatchObject({ allowed: true, remaining: 5, current: 0 });
+    });
+
+    it('fails closed when configured', async () => {
+      const s = store(downClient(), { failureMode: 'closed' });
+      const info = await slidingWindow.consume('k', 5, WINDOW, s);
+      expect(info).toMatchObject({ allowed: false, remaining: 0, current: 5 });
+    });
+
+    it('limits locally with a fallback store', async () => {
+      const s = store(downClient(), { fallback: true, failureMode: 'closed' });
+      expect((await fixedWindow.consume('k', 1, WINDOW, s)).allowed).toBe(true);
+      expect((await fixedWindow.consume('k', 1, WINDOW, s)).allowed).toBe(false);
+      await s.shutdown();
+    });
+
+    it('uses a caller-supplied fallback and leaves it running on shutdown', async () => {
+      const memory = createMemoryStore({ disableCleanup: true });
+      const shutdown = vi.spyOn(memory, 'shutdown');
+      const s = store(downClient(), { fallback: memory });
+      await s.set('k', { count: 1, windowStart: 0 }, 1_000);
+      expect(await memory.get('k')).toEqual({ count: 1, windowStart: 0 });
+      await s.shutdown();
+      expect(shutdown).not.toHaveBeenCalled();
+    });
+
+    it('rethrows from primitives when there is no fallback', async () => {
+      await expect(store(downClient()).get('k')).rejects.toThrow('ECONNREFUSED');
+    });
+
+    it('bypasses the backend for retryInterval after a failure, reporting once', async () => {
+      const client = downClient();
+      const onError = vi.fn();
+      const s = store(client, { retryInterval: 1_000, onError });
+
+      await tokenBucket.consume('k', 5, WINDOW, s);
+      await tokenBucket.consume('k', 5, WINDOW, s);
+      expect(client.eval).toHaveBeenCalledOnce();
+      expect(onError).toHaveBeenCalledOnce();
+
+      vi.advanceTimersByTime(1_000);
+      await tokenBucket.consume('k', 5, WINDOW, s);
+      expect(client.eval).toHaveBeenCalledTimes(2);
+    });
+
+    it('recovers once the backend answers again', async () => {
+      const redis = new FakeRedis();
+      let down = true;
+      const client: RedisScriptClient = {
+        eval: (script, keys, args) =>
+          down ? Promise.reject(new Error('down')) : redis.eval(script, keys, args),
+      };
+      const s = store(client, { retryInterval: 100, failureMode: 'closed' });
+
+      expect((await fixedWindow.consume('k', 5, WINDOW, s)).allowed).toBe(false);
+      down = false;
+      vi.advanceTimersByTime(100);
+      expect((await fixedWindow.consume('k', 5, WINDOW, s)).allowed).toBe(true);
+    });
+
+    it('treats a reply slower than timeout as a failure', async () => {
+      const client: RedisScriptClient = { eval: () => new Promise(() => {}) };
+      const s = store(client, { timeout: 50, failureMode: 'closed' });
+      const pending = tokenBucket.consume('k', 5, WINDOW, s);
+      vi.advanceTimersByTime(50);
+      expect((await pending).allowed).toBe(false);
+    });
+  });
+
+  describe('construction', () => {
+    it('requires a client with eval()', () => {
+      expect(() => new RedisStore({ client: {} as RedisScriptClient })).toThrow(
+        RateLimitValidationError
+      );
+    });
+
+    it('rejects an unknown failureMode', () => {
+      const options = {
+        client: new FakeRedis(),
+        failureMode: 'maybe',
+      } as unknown as RedisStoreOptions;
+      expect(() => new RedisStore(options)).toThrow("failureMode must be 'open' or 'closed'");
+    });
+  });
+});
@@ -30,6 +30,11 @@ export class FixedWindowAlgorithm implements Algorithm {
     windowMs: number,
     store: RateLimitStore
   ): Promise<RateLimitInfo> {
+    // An atomic store increments the window counter itself, race-free across instances.
+    if (store.consume) {
+      return store.consume({ algorithm: this.name, key, limit, windowMs });
+    }
+
     const now = Date.now();
     const windowStart = Math.floor(now / windowMs) * windowMs;
     const windowKey = `${key}:${windowStart}`;
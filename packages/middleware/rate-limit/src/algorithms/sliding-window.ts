@@ -33,6 +33,11 @@ export class SlidingWindowAlgorithm implements Algorithm {
     windowMs: number,
     store: RateLimitStore
   ): Promise<RateLimitInfo> {
+    // An atomic store weighs both windows and counts the request server-side.
+    if (store.consume) {
+      return store.consume({ algorithm: this.name, key, limit, windowMs });
+    }
+
     const now = Date.now();
     const entry = await store.get(key);
 
@@ -32,6 +32,11 @@ export class TokenBucketAlgorithm implements Algorithm {
     store: RateLimitStore,
     burstLimit?: number
   ): Promise<RateLimitInfo> {
+    // RedisStore and other atomic stores refill and take the token in one server-side step.
+    if (store.consume) {
+      return store.consume({ algorithm: this.name, key, limit, windowMs, burstLimit });
+    }
+
     const now = Date.now();
     const maxTokens = burstLimit ?? limit;
     const refillRate = limit / windowMs;
@@ -68,6 +68,23 @@ export const INFO_CACHE_MAX = 10_000;
  */
 export const DEFAULT_KEY_PREFIX = 'rl:';
 
+/**
+ * Namespace `RedisStore` prepends to every key it writes
+ */
+export const DEFAULT_REDIS_PREFIX = 'nextrush:';
+
+/**
+ * How long `RedisStore` waits for a reply before treating the backend as
+ * unreachable (ms) — a rate limiter must never hold a request hostage
+ */
+export const DEFAULT_REDIS_TIMEOUT = 500;
+
+/**
+ * How long `RedisStore` bypasses the backend after a failure before trying it
+ * again (ms), so an outage costs one timeout per interval, not per request
+ */
+export const DEFAULT_REDIS_RETRY_INTERVAL = 5_000;
+
 /**
  * Headers to check for real client IP (in order of preference)
  * Order matters: CDN-specific headers are checked first
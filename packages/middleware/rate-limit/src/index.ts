@@ -9,6 +9,7 @@
  * - Shared IP handling (proxies, corporate NAT)
  * - IETF-compliant headers
  * - CIDR notation for whitelist/blacklist
+ * - Redis-protocol store for limits shared across instances
  * - Zero dependencies
  *
  * @example Simple usage
@@ -89,6 +90,7 @@ import { validateOptions, validateTieredOptions } from './validation';
 
 export type {
   Algorithm,
+  ConsumeRequest,
   KeyGenerator,
   OnCloseHost,
   OnRateLimited,
@@ -117,6 +119,9 @@ export {
   DEFAULT_MAX,
   DEFAULT_MAX_ENTRIES,
   DEFAULT_MESSAGE,
+  DEFAULT_REDIS_PREFIX,
+  DEFAULT_REDIS_RETRY_INTERVAL,
+  DEFAULT_REDIS_TIMEOUT,
   DEFAULT_STATUS_CODE,
   DEFAULT_WINDOW,
   DEFAULT_WINDOW_MS,
@@ -132,7 +137,17 @@ export {
   TIME_UNITS,
   WINDOW_PATTERN,
 } from './constants';
-export { createMemoryStore, MemoryStore, type MemoryStoreOptions } from './stores';
+export {
+  createMemoryStore,
+  createRedisStore,
+  MemoryStore,
+  REDIS_SCRIPTS,
+  RedisStore,
+  type MemoryStoreOptions,
+  type RedisFailureMode,
+  type RedisScriptClient,
+  type RedisStoreOptions,
+} from './stores';
 export {
   LEGACY_HEADERS as LEGACY_RATE_LIMIT_HEADERS,
   setRateLimitHeaders,
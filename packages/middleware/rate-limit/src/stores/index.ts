@@ -1,2 +1,4 @@
 export { MemoryStore, createMemoryStore } from './memory';
 export type { MemoryStoreOptions } from './memory';
+export { createRedisStore, REDIS_SCRIPTS, RedisStore } from './redis';
+export type { RedisFailureMode, RedisScriptClient, RedisStoreOptions } from './redis';
@@ -0,0 +1,440 @@
+import { getAlgorithm } from '../algorithms';
+import {
+  DEFAULT_REDIS_PREFIX,
+  DEFAULT_REDIS_RETRY_INTERVAL,
+  DEFAULT_REDIS_TIMEOUT,
+} from '../constants';
+import type { ConsumeRequest, RateLimitInfo, RateLimitStore, StoreEntry } from '../types';
+import { RateLimitValidationError } from '../validation';
+import { createMemoryStore } from './memory';
+
+/**
+ * The one command `RedisStore` needs: run a Lua script with `EVAL`.
+ *
+ * Deliberately minimal so any Redis-protocol client (ioredis, node-redis,
+ * Valkey, Dragonfly, Upstash) fits behind a one-line adapter, and so tests can
+ * substitute an in-process fake that dispatches on {@link REDIS_SCRIPTS}.
+ *
+ * @example ioredis
+ * ```typescript
+ * const client: RedisScriptClient = {
+ *   eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args),
+ * };
+ * ```
+ *
+ * @example node-redis
+ * ```typescript
+ * const client: RedisScriptClient = {
+ *   eval: (script, keys, args) => redis.eval(script, { keys: [...keys], arguments: [...args] }),
+ * };
+ * ```
+ */
+export interface RedisScriptClient {
+  /** Run `script` with `KEYS`/`ARGV` and resolve with the raw reply */
+  eval(script: string, keys: readonly string[], args: readonly string[]): Promise<unknown>;
+}
+
+/**
+ * What `RedisStore.consume` answers when the backend is unreachable and no
+ * `fallback` store is configured.
+ *
+ * - `'open'`: allow the request — availability over enforcement
+ * - `'closed'`: reject the request — enforcement over availability
+ */
+export type RedisFailureMode = 'open' | 'closed';
+
+/**
+ * Redis store options
+ */
+export interface RedisStoreOptions {
+  /** Client used to run the store's scripts */
+  client: RedisScriptClient;
+  /** Prefix for every key the store writes (default: `'nextrush:'`) */
+  prefix?: string;
+  /**
+   * Decision when the backend fails and there is no fallback
+   * @default 'open'
+   */
+  failureMode?: RedisFailureMode;
+  /**
+   * Store that keeps limiting locally while the backend is unreachable.
+   * `true` creates a private `MemoryStore` (shut down with this store); a
+   * store instance is used as-is and stays owned by the caller. Takes
+   * precedence over `failureMode`.
+   * @default false
+   */
+  fallback?: boolean | RateLimitStore;
+  /** Milliseconds to wait for a reply before failing over (default: 500, `0` disables) */
+  timeout?: number;
+  /** Milliseconds to bypass the backend after a failure (default: 5000) */
+  retryInterval?: number;
+  /** Called once per backend failure (default: `console.warn`) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Lua scripts `RedisStore` runs. Each algorithm script performs the whole
+ * read-decide-write cycle on one hash key, so concurrent requests across every
+ * instance are serialized by the server. State lives in the same hash fields
+ * as `StoreEntry`, which keeps `get()`-based `peek` accurate.
+ *
+ * Exported for client-side script caching (`SCRIPT LOAD`) and for test fakes.
+ */
+export const REDIS_SCRIPTS = Object.freeze({
+  /** KEYS: key · ARGV: limit, windowMs, capacity, now → [allowed, remaining, windowStart] */
+  tokenBucket: `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local capacity = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'windowStart', 'lastUpdate')
+local tokens
+local windowStart
+if state[2] == false then
+  tokens = capacity - 1
+  windowStart = now
+else
+  windowStart = tonumber(state[2])
+  local last = tonumber(state[3]) or windowStart
+  local current = tonumber(state[1]) or capacity
+  tokens = math.min(capacity, current + (now - last) * limit / window) - 1
+  if now - windowStart >= window then windowStart = now end
+end
+local allowed = 1
+if tokens < 0 then
+  allowed = 0
+  tokens = tokens + 1
+end
+tokens = math.max(0, tokens)
+local remaining = math.floor(tokens)
+redis.call('HSET', KEYS[1], 'count', limit - remaining, 'windowStart', windowStart,
+  'lastUpdate', now, 'tokens', tostring(tokens))
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return {allowed, remaining, windowStart}
+`,
+
+  /** KEYS: key · ARGV: limit, windowMs, now → [allowed, remaining, current, windowStart] */
+  slidingWindow: `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'count', 'windowStart', 'prevCount')
+local windowStart = now
+local count = 1
+local prev = 0
+if state[2] ~= false then
+  local age = now - tonumber(state[2])
+  if age < window then
+    windowStart = tonumber(state[2])
+    count = (tonumber(state[1]) or 0) + 1
+    prev = tonumber(state[3]) or 0
+  elseif age < window * 2 then
+    windowStart = tonumber(state[2]) + window
+    prev = tonumber(state[1]) or 0
+  end
+end
+local effective = prev * (1 - math.min(1, (now - windowStart) / window)) + count
+local allowed = 1
+if effective > limit then
+  allowed = 0
+  count = count - 1
+end
+redis.call('HSET', KEYS[1], 'count', count, 'windowStart', windowStart, 'prevCount', prev)
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return {allowed, math.max(0, math.floor(limit - effective)), math.ceil(effective), windowStart}
+`,
+
+  /** KEYS: key:windowStart · ARGV: limit, windowStart, windowMs → [allowed, count] */
+  fixedWindow: `
+local limit = tonumber(ARGV[1])
+local count = tonumber(redis.call('HGET', KEYS[1], 'count') or 0)
+local allowed = 0
+if count < limit then
+  count = redis.call('HINCRBY', KEYS[1], 'count', 1)
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'windowStart', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return {allowed, count}
+`,
+
+  /** KEYS: key → flat [field, value, ...] */
+  get: `return redis.call('HGETALL', KEYS[1])`,
+
+  /** KEYS: key · ARGV: ttlMs, field, value, ... */
+  set: `
+redis.call('DEL', KEYS[1])
+redis.call('HSET', KEYS[1], unpack(ARGV, 2))
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return 1
+`,
+
+  /** KEYS: key · ARGV: ttlMs, now → new count */
+  increment: `
+local count = redis.call('HINCRBY', KEYS[1], 'count', 1)
+if count == 1 then redis.call('HSET', KEYS[1], 'windowStart', ARGV[2]) end
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return count
+`,
+
+  /** KEYS: key → previous count */
+  decrement: `
+local count = tonumber(redis.call('HGET', KEYS[1], 'count') or 0)
+if count > 0 then redis.call('HINCRBY', KEYS[1], 'count', -1) end
+return count
+`,
+
+  /** KEYS: key → number of keys removed */
+  reset: `return redis.call('DEL', KEYS[1])`,
+});
+
+type ScriptResult = { ok: true; reply: unknown } | { ok: false; error: unknown };
+
+/**
+ * Redis-protocol rate limit store
+ *
+ * Features:
+ * - Limits shared by every instance pointing at the same backend
+ * - Atomic consume: each algorithm runs as one server-side Lua script
+ * - Fail-open / fail-closed policy, or a local fallback store, when the
+ *   backend errors or exceeds `timeout`
+ * - Backs off for `retryInterval` after a failure instead of paying the
+ *   timeout on every request during an outage
+ *
+ * Timestamps come from the calling instance, so instances should keep their
+ * clocks synchronized (NTP); skew shifts window boundaries, not counts.
+ *
+ * The client's connection is owned by the caller: `shutdown()` never closes it.
+ */
+export class RedisStore implements RateLimitStore {
+  private readonly client: RedisScriptClient;
+  private readonly prefix: string;
+  private readonly failureMode: RedisFailureMode;
+  private readonly fallback: RateLimitStore | null;
+  private readonly ownsFallback: boolean;
+  private readonly timeout: number;
+  private readonly retryInterval: number;
+  private readonly onError: (error: unknown) => void;
+  private retryAt = 0;
+
+  constructor(options: RedisStoreOptions) {
+    const client: unknown = options.client;
+    if (
+      typeof client !== 'object' ||
+      client === null ||
+      typeof (client as Partial<RedisScriptClient>).eval !== 'function'
+    ) {
+      throw new RateLimitValidationError('RedisStore requires a client with an eval() method');
+    }
+    const failureMode: unknown = options.failureMode ?? 'open';
+    if (failureMode !== 'open' && failureMode !== 'closed') {
+      throw new RateLimitValidationError("failureMode must be 'open' or 'closed'");
+    }
+
+    this.client = options.client;
+    this.prefix = options.prefix ?? DEFAULT_REDIS_PREFIX;
+    this.failureMode = failureMode;
+    this.timeout = options.timeout ?? DEFAULT_REDIS_TIMEOUT;
+    this.retryInterval = options.retryInterval ?? DEFAULT_REDIS_RETRY_INTERVAL;
+    this.onError = options.onError ?? reportBackendError;
+
+    if (options.fallback === true) {
+      this.fallback = createMemoryStore();
+      this.ownsFallback = true;
+    } else {
+      this.fallback = typeof options.fallback === 'object' ? options.fallback : null;
+      this.ownsFallback = false;
+    }
+  }
+
+  async consume(request: ConsumeRequest): Promise<RateLimitInfo> {
+    const { algorithm, key, limit } = request;
+    const windowMs = Math.ceil(request.windowMs);
+    const now = Date.now();
+
+    if (algorithm === 'fixed-window') {
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+      const result = await this.run(REDIS_SCRIPTS.fixedWindow, `${key}:${String(windowStart)}`, [
+        String(limit),
+        String(windowStart),
+        String(windowMs),
+      ]);
+      if (!result.ok) return this.consumeLocally(request, now);
+      const [allowed, count] = toNumbers(result.reply);
+      return toInfo(request, allowed === 1, Math.max(0, limit - count), count, windowStart, now);
+    }
+
+    if (algorithm === 'sliding-window') {
+      const result = await this.run(REDIS_SCRIPTS.slidingWindow, key, [
+        String(limit),
+        String(windowMs),
+        String(now),
+      ]);
+      if (!result.ok) return this.consumeLocally(request, now);
+      const [allowed, remaining, current, windowStart] = toNumbers(result.reply);
+      return toInfo(request, allowed === 1, remaining, current, windowStart, now);
+    }
+
+    const result = await this.run(REDIS_SCRIPTS.tokenBucket, key, [
+      String(limit),
+      String(windowMs),
+      String(request.burstLimit ?? limit),
+      String(now),
+    ]);
+    if (!result.ok) return this.consumeLocally(request, now);
+    const [allowed, remaining, windowStart] = toNumbers(result.reply);
+    return toInfo(request, allowed === 1, remaining, limit - remaining, windowStart, now);
+  }
+
+  async get(key: string): Promise<StoreEntry | null> {
+    const result = await this.run(REDIS_SCRIPTS.get, key, []);
+    if (!result.ok) return this.local(result.error).get(key);
+    return toEntry(result.reply);
+  }
+
+  async set(key: string, entry: StoreEntry, ttlMs: number): Promise<void> {
+    const args = [String(Math.ceil(ttlMs))];
+    for (const [field, value] of Object.entries(entry)) {
+      if (typeof value === 'number') args.push(field, String(value));
+    }
+    const result = await this.run(REDIS_SCRIPTS.set, key, args);
+    if (!result.ok) await this.local(result.error).set(key, entry, ttlMs);
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const result = await this.run(REDIS_SCRIPTS.increment, key, [
+      String(Math.ceil(ttlMs)),
+      String(Date.now()),
+    ]);
+    if (!result.ok) return this.local(result.error).increment(key, ttlMs);
+    return Number(result.reply);
+  }
+
+  async decrement(key: string): Promise<void> {
+    const result = await this.run(REDIS_SCRIPTS.decrement, key, []);
+    if (!result.ok) await this.local(result.error).decrement?.(key);
+  }
+
+  async reset(key: string): Promise<void> {
+    // Local state from an earlier outage must not outlive an explicit reset.
+    await this.fallback?.reset(key);
+    const result = await this.run(REDIS_SCRIPTS.reset, key, []);
+    if (!result.ok && !this.fallback) throw result.error;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.ownsFallback) await this.fallback?.shutdown?.();
+  }
+
+  /**
+   * Run a script against the prefixed key, turning an error or timeout into a
+   * failed result. After a failure the backend is skipped until `retryAt`,
+   * and `onError` fires only for real attempts — once per outage interval.
+   */
+  private async run(script: string, key: string, args: string[]): Promise<ScriptResult> {
+    if (Date.now() < this.retryAt) {
+      return { ok: false, error: new Error('Redis rate-limit backend is unavailable') };
+    }
+    try {
+      const reply = await withTimeout(
+        this.client.eval(script, [this.prefix + key], args),
+        this.timeout
+      );
+      return { ok: true, reply };
+    } catch (error) {
+      this.retryAt = Date.now() + this.retryInterval;
+      this.onError(error);
+      return { ok: false, error };
+    }
+  }
+
+  /** The fallback store, or the backend error when there is none. */
+  private local(error: unknown): RateLimitStore {
+    if (this.fallback) return this.fallback;
+    throw error;
+  }
+
+  /** Decide a request without the backend: fallback store, else `failureMode`. */
+  private consumeLocally(
+    request: ConsumeRequest,
+    now: number
+  ): Promise<RateLimitInfo> | RateLimitInfo {
+    const { algorithm, key, limit, windowMs, burstLimit } = request;
+    if (this.fallback) {
+      return getAlgorithm(algorithm).consume(key, limit, windowMs, this.fallback, burstLimit);
+    }
+    const open = this.failureMode === 'open';
+    return toInfo(request, open, open ? limit : 0, open ? 0 : limit, now, now);
+  }
+}
+
+/**
+ * Create a new Redis-protocol store
+ */
+export function createRedisStore(options: RedisStoreOptions): RedisStore {
+  return new RedisStore(options);
+}
+
+function reportBackendError(error: unknown): void {
+  if (typeof globalThis.console.warn === 'function') {
+    globalThis.console.warn(
+      '[@nextrush/rate-limit] RedisStore backend failed; limiting locally until it recovers:',
+      error
+    );
+  }
+}
+
+/** Reject with a timeout error if `promise` has not settled within `ms`. */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  if (!(ms > 0) || !Number.isFinite(ms)) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`Redis rate-limit backend did not reply within ${String(ms)}ms`));
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => {
+    clearTimeout(timer);
+  });
+}
+
+function toNumbers(reply: unknown): number[] {
+  if (!Array.isArray(reply)) {
+    throw new TypeError('Unexpected reply from Redis rate-limit script');
+  }
+  return reply.map(Number);
+}
+
+/** Parse an `HGETALL` reply — flat `[field, value, ...]` — into a `StoreEntry`. */
+function toEntry(reply: unknown): StoreEntry | null {
+  if (!Array.isArray(reply) || reply.length === 0) return null;
+  const fields: Partial<Record<string, number>> = {};
+  for (let i = 0; i + 1 < reply.length; i += 2) {
+    fields[String(reply[i])] = Number(reply[i + 1]);
+  }
+  const entry: StoreEntry = { count: fields.count ?? 0, windowStart: fields.windowStart ?? 0 };
+  if (fields.lastUpdate !== undefined) entry.lastUpdate = fields.lastUpdate;
+  if (fields.tokens !== undefined) entry.tokens = fields.tokens;
+  if (fields.prevCount !== undefined) entry.prevCount = fields.prevCount;
+  return entry;
+}
+
+function toInfo(
+  request: ConsumeRequest,
+  allowed: boolean,
+  remaining: number,
+  current: number,
+  windowStart: number,
+  now: number
+): RateLimitInfo {
+  const resetAt = windowStart + request.windowMs;
+  return {
+    allowed,
+    limit: request.limit,
+    remaining,
+    resetTime: Math.ceil(resetAt / 1000),
+    resetIn: Math.max(0, Math.ceil((resetAt - now) / 1000)),
+    key: request.key,
+    current,
+  };
+}
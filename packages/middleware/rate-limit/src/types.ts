@@ -37,10 +37,31 @@ export interface RateLimitInfo {
   current: number;
 }
 
+/**
+ * One request's worth of input to an atomic {@link RateLimitStore.consume}.
+ */
+export interface ConsumeRequest {
+  /** Algorithm whose accept/reject arithmetic the store must apply */
+  algorithm: RateLimitAlgorithm;
+  /** The rate-limit key (before any store-level prefix) */
+  key: string;
+  /** Maximum requests allowed in the window */
+  limit: number;
+  /** Window duration in milliseconds */
+  windowMs: number;
+  /** Token-bucket capacity (defaults to `limit`) */
+  burstLimit?: number;
+}
+
 /**
  * Rate limit store interface for custom storage implementations
  *
- * @example Redis implementation
+ * A store shared across processes should also implement `consume`, so the
+ * read-decide-write cycle of an algorithm runs as one atomic step —
+ * `RedisStore` does this with server-side scripts. Stores without it are
+ * driven through `get`/`set`, which is only race-free inside one process.
+ *
+ * @example Key-value implementation (see `RedisStore` for a shipped, atomic one)
  * ```typescript
  * const redisStore: RateLimitStore = {
  *   async get(key) {
@@ -73,6 +94,12 @@ export interface RateLimitStore {
   decrement?(key: string): Promise<void>;
   /** Reset/delete entry */
   reset(key: string): Promise<void>;
+  /**
+   * Atomically check and consume one request for `request.key` (optional).
+   * When present, the built-in algorithms delegate to it instead of running
+   * their own `get`/`set` cycle.
+   */
+  consume?(request: ConsumeRequest): Promise<RateLimitInfo>;
   /** Cleanup expired entries (called periodically) */
   cleanup?(): Promise<void>;
   /** Shutdown store (cleanup resources) */
@@ -9,6 +9,7 @@
 import { createApp } from '@nextrush/core';
 import { createRouter } from '@nextrush/router';
 import { listen } from '@nextrush/adapter-node';
+import { generateToken } from '@nextrush/csrf';
 import { afterEach, describe, expect, it } from 'vitest';
 import { security } from '../index';
 
@@ -40,10 +41,30 @@ describe('security()', () => {
     originCheck: false as const,
   };
 
-  it('throws at construction when required CSRF configuration is missing', () => {
-    expect(() => security({ csrf: { secret: 'a'.repeat(32) } } as never)).toThrow(
-      /getSessionIdentifier|sessionBinding/
-    );
+  it('fails closed at request time when CSRF has no session to bind to', async () => {
+    const reasons: string[] = [];
+    const mw = security({
+      csrf: {
+        secret: 'a'.repeat(32),
+        originCheck: false,
+        onError: (ctx, reason) => {
+          reasons.push(reason);
+          ctx.status = 403;
+          ctx.json({ error: 'CSRF validation failed' });
+        },
+      },
+    });
+    const { baseUrl, close } = await withApp(mw);
+    closeServer = close;
+
+    // A well-formed token in cookie and header, but no session middleware published an identifier
+    const token = await generateToken('a'.repeat(32));
+    const res = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { cookie: `__Host-csrf=${token}`, 'x-csrf-token': token },
+    });
+    expect(res.status).toBe(403);
+    expect(reasons).toEqual([expect.stringMatching(/no session identifier/)]);
   });
 
   it('applies the helmet header set on a plain request', async () => {
@@ -4,10 +4,11 @@
  * Applies helmet + strict cookies + CSRF + rate limiting behind one call, so
  * the secure configuration is the shortest path (`security-boundaries`
  * capability). Each layer's own constructor already validates and throws on
- * misconfiguration (e.g. `csrf()` requiring `getSessionIdentifier` or an
- * explicit `sessionBinding: 'none'`) — `security()` builds every layer
- * eagerly at call time, so an incomplete required option throws here, not on
- * the first request.
+ * misconfiguration (e.g. a `csrf()` secret shorter than 32 characters) —
+ * `security()` builds every layer eagerly at call time, so an invalid option
+ * throws here, not on the first request. CSRF tokens bind to the session
+ * `@nextrush/session` publishes on `ctx.state` unless configured otherwise;
+ * without a session in front, CSRF fails closed per request instead.
  *
  * @packageDocumentation
  */
@@ -23,7 +24,8 @@ import type { Middleware } from '@nextrush/types';
 
 /**
  * Per-layer configuration for {@link security}. Every layer is optional
- * except `csrf`, which — like calling `csrf()` directly — requires either
+ * except `csrf`, which needs at least a `secret`. Its tokens bind to the
+ * session on `ctx.state` by default, so register `session()` first, or pass
  * `getSessionIdentifier` or an explicit `sessionBinding: 'none'`.
  */
 export interface SecurityPresetOptions {
@@ -31,7 +33,7 @@ export interface SecurityPresetOptions {
   helmet?: HelmetOptions;
   /** Passed to `cookies()`. Omit for the framework's `secure: 'auto'` default. */
   cookies?: CookieMiddlewareOptions;
-  /** Passed to `csrf()`. Required — the one layer with no safe zero-config default. */
+  /** Passed to `csrf()`. Required — the one layer with no safe zero-config default (it needs a secret). */
   csrf: CsrfOptions;
   /** Passed to `rateLimit()`. Omit for rate-limit's own defaults. */
   rateLimit?: RateLimitOptions;
@@ -44,16 +46,18 @@ export interface SecurityPresetOptions {
  * @param options - Per-layer configuration. `csrf` is required.
  * @returns A single composed {@link Middleware} suitable for `app.use()`.
  * @throws If any layer's own constructor rejects its configuration —
- *   most commonly `csrf()` when neither `getSessionIdentifier` nor
- *   `sessionBinding: 'none'` is supplied.
+ *   most commonly `csrf()` for a missing or short secret. A missing session
+ *   does not throw: with neither `getSessionIdentifier` nor
+ *   `sessionBinding: 'none'`, CSRF reads the session from `ctx.state` and
+ *   rejects (403) every state-changing request that arrives without one.
  *
  * @example
  * ```typescript
  * import { security } from '@nextrush/security';
+ * import { session } from '@nextrush/session';
  *
- * app.use(security({
- *   csrf: { secret: process.env.CSRF_SECRET!, getSessionIdentifier: (ctx) => ctx.state.sessionId },
- * }));
+ * app.use(session({ secret: process.env.SESSION_SECRET! }));
+ * app.use(security({ csrf: { secret: process.env.CSRF_SECRET! } }));
  * ```
  */
 export function security(options: SecurityPresetOptions): Middleware {
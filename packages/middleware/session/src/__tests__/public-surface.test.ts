@@ -0,0 +1,64 @@
+/**
+ * @nextrush/session - Public API surface test
+ *
+ * Locks the exported symbol set from `src/index.ts`. If this test fails, the
+ * public API has changed. Intentional changes require an explicit update to
+ * the expected list below, plus a changeset for a published package.
+ */
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import * as sessionApi from '../index';
+import type {
+  MemoryStoreOptions,
+  RedisSessionClient,
+  RedisStoreOptions,
+  Session,
+  SessionCookieOptions,
+  SessionData,
+  SessionOptions,
+  SessionRecord,
+  SessionState,
+  SessionStore,
+} from '../index';
+
+describe('Public API surface (runtime exports)', () => {
+  it('exports exactly the intended runtime symbols', () => {
+    const actualExports = Object.keys(sessionApi).sort();
+
+    // SEALED: intentional public runtime API surface.
+    const expectedRuntime = [
+      'DEFAULT_ABSOLUTE_TIMEOUT',
+      'DEFAULT_COOKIE_NAME',
+      'DEFAULT_IDLE_TIMEOUT',
+      'DEFAULT_MAX_SESSIONS',
+      'DEFAULT_REDIS_PREFIX',
+      'MemoryStore',
+      'RedisStore',
+      'createMemoryStore',
+      'createRedisStore',
+      'getSession',
+      'session',
+    ].sort();
+
+    expect(actualExports).toEqual(expectedRuntime);
+  });
+});
+
+describe('Public API surface (type-only exports)', () => {
+  it('the type-only surface stays importable from the barrel', () => {
+    // Compile-time only: removing/renaming any of these in src/index.ts fails
+    // this file to type-check.
+    type Surface = [
+      MemoryStoreOptions,
+      RedisSessionClient,
+      RedisStoreOptions,
+      Session,
+      SessionCookieOptions,
+      SessionData,
+      SessionOptions,
+      SessionRecord,
+      SessionState,
+      SessionStore,
+    ];
+    expectTypeOf<Surface>().not.toBeNever();
+  });
+});
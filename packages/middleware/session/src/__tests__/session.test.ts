@@ -0,0 +1,586 @@
+import { signCookie } from '@nextrush/cookies';
+import type { Context, Middleware, SecurityAuditCheck } from '@nextrush/types';
+import { SECURITY_AUDIT, SESSION_IDENTIFIER } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore } from '../memory-store';
+import { getSession, session } from '../middleware';
+import type { RedisSessionClient } from '../redis-store';
+import { RedisStore } from '../redis-store';
+import type { Session, SessionOptions, SessionState } from '../types';
+
+// ============================================================================
+// Mock Context
+// ============================================================================
+
+interface MockContext {
+  state: Record<string | symbol, unknown>;
+  status: number;
+  body: unknown;
+  responded: boolean;
+  /** Response side effects in the order they happened */
+  events: string[];
+  setCookies: string[];
+  get: (name: string) => string | undefined;
+  set: (name: string, value: string) => void;
+  json: (data: unknown) => void;
+  html: (content: string) => void;
+  send: (data: unknown) => void;
+  redirect: (url: string, status?: number) => void;
+}
+
+function createMockContext(cookie?: string): MockContext {
+  const ctx: MockContext = {
+    state: {},
+    status: 200,
+    body: undefined,
+    responded: false,
+    events: [],
+    setCookies: [],
+    get: (name) => (name.toLowerCase() === 'cookie' ? cookie : undefined),
+    set: (name, value) => {
+      if (name === 'Set-Cookie') ctx.setCookies.push(value);
+      ctx.events.push(`set ${name}`);
+    },
+    json: (data) => {
+      ctx.body = data;
+      ctx.responded = true;
+      ctx.events.push(`json ${String(ctx.status)}`);
+    },
+    html: (content) => {
+      ctx.body = content;
+      ctx.responded = true;
+      ctx.events.push('html');
+    },
+    send: (data) => {
+      ctx.body = data;
+      ctx.responded = true;
+      ctx.events.push('send');
+    },
+    redirect: (url, status = 302) => {
+      ctx.status = status;
+      ctx.responded = true;
+      ctx.events.push(`redirect ${url}`);
+    },
+  };
+  return ctx;
+}
+
+type Handler = (ctx: MockContext, session: Session<{ user: string; n: number }>) => unknown;
+
+async function run(mw: Middleware, cookie: string | undefined, handler: Handler = () => {}) {
+  const ctx = createMockContext(cookie);
+  await mw(ctx as unknown as Context, async () => {
+    const { session: current } = ctx.state as unknown as SessionState<{ user: string; n: number }>;
+    await handler(ctx, current);
+  });
+  return ctx;
+}
+
+/** `name=value` of the last Set-Cookie, ready to send back */
+function cookieFrom(ctx: MockContext): string {
+  const last = ctx.setCookies.at(-1);
+  if (last === undefined) throw new Error('no Set-Cookie');
+  return last.split(';')[0]!;
+}
+
+// ============================================================================
+// Test Constants
+// ============================================================================
+
+const SECRET = 'a-very-secure-secret-that-is-at-least-32-characters-long';
+const OLD_SECRET = 'an-older-secret-that-is-also-at-least-32-characters';
+const HOUR = 60 * 60 * 1000;
+
+function create(options: Partial<SessionOptions> = {}) {
+  const store = new MemoryStore();
+  return { store, mw: session({ secret: SECRET, store, ...options }) };
+}
+
+// ============================================================================
+// Options
+// ============================================================================
+
+describe('session() options', () => {
+  it('rejects a short secret', () => {
+    expect(() => session({ secret: 'short' })).toThrow(TypeError);
+    expect(() => session({ secret: { current: SECRET, previous: ['short'] } })).toThrow(
+      /previous secret/
+    );
+  });
+
+  it('rejects non-positive timeouts', () => {
+    expect(() => session({ secret: SECRET, idleTimeout: 0 })).toThrow(/idleTimeout/);
+    expect(() => session({ secret: SECRET, absoluteTimeout: -1 })).toThrow(/absoluteTimeout/);
+    expect(() => session({ secret: SECRET, absoluteTimeout: false })).not.toThrow();
+  });
+
+  it('rejects an invalid cookie name at construction', () => {
+    expect(() => session({ secret: SECRET, cookie: { name: 'bad name' } })).toThrow();
+  });
+});
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+describe('session() lifecycle', () => {
+  it('does not create a session that was never used', async () => {
+    const { store, mw } = create();
+    const ctx = await run(mw, undefined, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+      expect(s.data).toEqual({});
+    });
+
+    expect(ctx.setCookies).toEqual([]);
+    expect(store.size).toBe(0);
+  });
+
+  it('saves a session once data is set and loads it from the cookie', async () => {
+    const { store, mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+
+    expect(store.size).toBe(1);
+    const header = first.setCookies[0]!;
+    expect(header).toMatch(/^sid=/);
+    expect(header).toContain('HttpOnly');
+    expect(header).toContain('Secure');
+    expect(header).toMatch(/SameSite=Lax/i);
+    expect(header).toContain('Max-Age=86400');
+
+    await run(mw, cookieFrom(first), (_ctx, s) => {
+      expect(s.isNew).toBe(false);
+      expect(s.data.user).toBe('ada');
+    });
+  });
+
+  it('omits Max-Age when the cookie is not persistent', async () => {
+    const { mw } = create({ cookie: { persistent: false } });
+    const ctx = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+    expect(ctx.setCookies[0]).not.toContain('Max-Age');
+  });
+
+  it('starts a new session when the cookie is tampered with', async () => {
+    const { mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+    const [name, value] = cookieFrom(first).split('=') as [string, string];
+    const tampered = `${name}=x${value.slice(1)}`;
+
+    await run(mw, tampered, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+      expect(s.data.user).toBeUndefined();
+    });
+  });
+
+  it('starts a new session when the store no longer has it', async () => {
+    const { store, mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+    await store.clear();
+
+    await run(mw, cookieFrom(first), (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+  });
+
+  it('saves nothing when the chain throws', async () => {
+    const { store, mw } = create();
+    const ctx = createMockContext();
+    await expect(
+      mw(ctx as unknown as Context, async () => {
+        (ctx.state as unknown as SessionState).session.data.user = 'ada';
+        ctx.json({ ok: true });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(store.size).toBe(0);
+    expect(ctx.events).toEqual([]);
+    expect(ctx.responded).toBe(false);
+  });
+});
+
+// ============================================================================
+// Expiry
+// ============================================================================
+
+describe('session() expiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rolls the idle expiry forward on every request', async () => {
+    const { mw } = create({ idleTimeout: HOUR, absoluteTimeout: false });
+    let cookie = cookieFrom(
+      await run(mw, undefined, (_ctx, s) => {
+        s.data.user = 'ada';
+      })
+    );
+
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(HOUR - 1000);
+      const ctx = await run(mw, cookie, (_ctx, s) => {
+        expect(s.data.user).toBe('ada');
+      });
+      expect(ctx.setCookies).toHaveLength(1);
+      cookie = cookieFrom(ctx);
+    }
+  });
+
+  it('does not re-send the cookie for an unchanged session when rolling is off', async () => {
+    const { mw } = create({ idleTimeout: HOUR, rolling: false });
+    const cookie = cookieFrom(
+      await run(mw, undefined, (_ctx, s) => {
+        s.data.user = 'ada';
+      })
+    );
+
+    vi.advanceTimersByTime(HOUR / 2);
+    const unchanged = await run(mw, cookie);
+    expect(unchanged.setCookies).toEqual([]);
+
+    vi.advanceTimersByTime(HOUR / 2);
+    await run(mw, cookie, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+  });
+
+  it('expires a session left idle past idleTimeout', async () => {
+    const { store, mw } = create({ idleTimeout: HOUR });
+    const cookie = cookieFrom(
+      await run(mw, undefined, (_ctx, s) => {
+        s.data.user = 'ada';
+      })
+    );
+
+    vi.advanceTimersByTime(HOUR);
+    await run(mw, cookie, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+      expect(s.data.user).toBeUndefined();
+    });
+    expect(store.size).toBe(0);
+  });
+
+  it('expires a session at absoluteTimeout however active', async () => {
+    const { mw } = create({ idleTimeout: HOUR, absoluteTimeout: 2 * HOUR });
+    let cookie = cookieFrom(
+      await run(mw, undefined, (_ctx, s) => {
+        s.data.user = 'ada';
+      })
+    );
+
+    vi.advanceTimersByTime(HOUR - 1000);
+    const ctx = await run(mw, cookie, (_ctx, s) => {
+      expect(s.data.user).toBe('ada');
+    });
+    cookie = cookieFrom(ctx);
+
+    vi.advanceTimersByTime(HOUR - 1000);
+    const capped = await run(mw, cookie, (_ctx, s) => {
+      expect(s.data.user).toBe('ada');
+      s.touch();
+    });
+    // The idle extension is capped at the absolute limit, 2 seconds away
+    expect(capped.setCookies[0]).toContain('Max-Age=2');
+    cookie = cookieFrom(capped);
+
+    vi.advanceTimersByTime(2000);
+    await run(mw, cookie, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+  });
+
+  it('rejects an expired cookie-store session', async () => {
+    const mw = session({ secret: SECRET, store: 'cookie', idleTimeout: HOUR });
+    const cookie = cookieFrom(
+      await run(mw, undefined, (_ctx, s) => {
+        s.data.user = 'ada';
+      })
+    );
+
+    vi.advanceTimersByTime(HOUR);
+    await run(mw, cookie, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+  });
+});
+
+// ============================================================================
+// Regenerate and destroy
+// ============================================================================
+
+describe('session() regenerate and destroy', () => {
+  it('regenerate() moves the data to a new ID and deletes the old one', async () => {
+    const { store, mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'anonymous';
+    });
+    let oldId = '';
+    let newId = '';
+
+    const second = await run(mw, cookieFrom(first), (_ctx, s) => {
+      oldId = s.id;
+      s.regenerate();
+      newId = s.id;
+      s.data.user = 'ada';
+    });
+
+    expect(newId).not.toBe(oldId);
+    expect(await store.get(oldId)).toBeNull();
+    expect((await store.get(newId))?.data).toEqual({ user: 'ada' });
+
+    await run(mw, cookieFrom(first), (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+    await run(mw, cookieFrom(second), (_ctx, s) => {
+      expect(s.data.user).toBe('ada');
+    });
+  });
+
+  it('regenerate() starts a new absolute period', async () => {
+    const { mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+    await run(mw, cookieFrom(first), (_ctx, s) => {
+      const before = s.createdAt;
+      s.regenerate();
+      expect(s.createdAt).toBeGreaterThanOrEqual(before);
+      expect(s.isNew).toBe(true);
+    });
+  });
+
+  it('destroy() deletes the stored session and expires the cookie', async () => {
+    const { store, mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+
+    const ctx = await run(mw, cookieFrom(first), (_ctx, s) => {
+      s.destroy();
+      expect(s.data).toEqual({});
+    });
+
+    expect(store.size).toBe(0);
+    expect(ctx.setCookies).toHaveLength(1);
+    expect(ctx.setCookies[0]).toMatch(/^sid=;/);
+    expect(ctx.setCookies[0]).toContain('Max-Age=0');
+  });
+
+  it('destroy() followed by new data saves a fresh session', async () => {
+    const { store, mw } = create();
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+
+    const ctx = await run(mw, cookieFrom(first), (_ctx, s) => {
+      s.destroy();
+      s.data.n = 1;
+    });
+
+    expect(store.size).toBe(1);
+    await run(mw, cookieFrom(ctx), (_ctx, s) => {
+      expect(s.data).toEqual({ n: 1 });
+    });
+  });
+});
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+describe('session() stores', () => {
+  it("keeps the whole session in the cookie with store: 'cookie'", async () => {
+    const mw = session({ secret: SECRET, store: 'cookie' });
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+      s.data.n = 3;
+    });
+
+    await run(mw, cookieFrom(first), (_ctx, s) => {
+      expect(s.isNew).toBe(false);
+      expect(s.data).toEqual({ user: 'ada', n: 3 });
+    });
+  });
+
+  it('works against a Redis-protocol store', async () => {
+    const data = new Map<string, string>();
+    const client: RedisSessionClient = {
+      get: async (key) => data.get(key) ?? null,
+      set: async (key, value) => data.set(key, value),
+      del: async (key) => data.delete(key),
+    };
+    const mw = session({ secret: SECRET, store: new RedisStore({ client }) });
+
+    const first = await run(mw, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+    expect([...data.keys()][0]).toMatch(/^nextrush:sess:/);
+
+    await run(mw, cookieFrom(first), (_ctx, s) => {
+      expect(s.data.user).toBe('ada');
+    });
+  });
+});
+
+// ============================================================================
+// Key rotation
+// ============================================================================
+
+describe('session() key rotation', () => {
+  it('accepts a cookie signed with a previous secret and re-signs it', async () => {
+    const store = new MemoryStore();
+    const before = session({ secret: OLD_SECRET, store, rolling: false });
+    const first = await run(before, undefined, (_ctx, s) => {
+      s.data.user = 'ada';
+    });
+
+    const after = session({
+      secret: { current: SECRET, previous: [OLD_SECRET] },
+      store,
+      rolling: false,
+    });
+    const ctx = await run(after, cookieFrom(first), (_ctx, s) => {
+      expect(s.data.user).toBe('ada');
+    });
+    expect(ctx.setCookies).toHaveLength(1);
+
+    const onlyNew = session({ secret: SECRET, store, rolling: false });
+    await run(onlyNew, cookieFrom(ctx), (_ctx, s) => {
+      expect(s.data.user).toBe('ada');
+    });
+    await run(onlyNew, cookieFrom(first), (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+  });
+
+  it('does not accept a value signed under another cookie name', async () => {
+    const { store, mw } = create();
+    await store.set('known-id', {
+      data: { user: 'ada' },
+      createdAt: Date.now(),
+      expiresAt: Date.now() + HOUR,
+    });
+    const forged = await signCookie('other', 'known-id', SECRET);
+
+    await run(mw, `sid=${forged}`, (_ctx, s) => {
+      expect(s.isNew).toBe(true);
+    });
+  });
+});
+
+// ============================================================================
+// Response ordering
+// ============================================================================
+
+describe('session() response ordering', () => {
+  it('writes the session cookie before the held response is sent', async () => {
+    const { mw } = create();
+    const ctx = await run(mw, undefined, (c, s) => {
+      s.data.user = 'ada';
+      c.status = 201;
+      c.json({ ok: true });
+      expect(c.responded).toBe(true);
+      c.status = 500;
+    });
+
+    expect(ctx.events).toEqual(['set Set-Cookie', 'json 201']);
+    expect(ctx.body).toEqual({ ok: true });
+    expect(ctx.responded).toBe(true);
+  });
+
+  it('sends only the first response and restores the real methods', async () => {
+    const { mw } = create();
+    const ctx = createMockContext();
+    const json = ctx.json;
+    await mw(ctx as unknown as Context, async () => {
+      ctx.redirect('/next');
+      ctx.json({ late: true });
+    });
+
+    expect(ctx.events).toEqual(['redirect /next']);
+    expect(ctx.json).toBe(json);
+    expect(Object.getOwnPropertyDescriptor(ctx, 'responded')?.value).toBe(true);
+  });
+});
+
+// ============================================================================
+// Session identifier for csrf
+// ============================================================================
+
+describe('session() identifier source', () => {
+  it('publishes the ID under SESSION_IDENTIFIER and keeps the session it names', async () => {
+    const { store, mw } = create();
+    let id: string | undefined;
+    const ctx = await run(mw, undefined, (c, s) => {
+      const source = c.state[SESSION_IDENTIFIER] as () => string;
+      id = source();
+      expect(id).toBe(s.id);
+    });
+
+    expect(store.size).toBe(1);
+    await run(mw, cookieFrom(ctx), (_ctx, s) => {
+      expect(s.id).toBe(id);
+    });
+  });
+});
+
+// ============================================================================
+// getSession
+// ============================================================================
+
+describe('getSession()', () => {
+  it('returns the session installed by the middleware', async () => {
+    const { mw } = create();
+    await run(mw, undefined, (c, s) => {
+      expect(getSession(c as unknown as Context)).toBe(s);
+    });
+  });
+
+  it('throws without the middleware', () => {
+    const ctx = createMockContext();
+    expect(() => getSession(ctx as unknown as Context)).toThrow(/register session\(\)/);
+  });
+});
+
+// ============================================================================
+// Security audit
+// ============================================================================
+
+describe('session() security audit contribution', () => {
+  function auditOf(mw: unknown): SecurityAuditCheck {
+    const check = (mw as Record<typeof SECURITY_AUDIT, SecurityAuditCheck>)[SECURITY_AUDIT];
+    expect(typeof check).toBe('function');
+    return check;
+  }
+
+  it('warns on cookie.secure: false', () => {
+    const mw = session({ secret: SECRET, store: 'cookie', cookie: { secure: false } });
+    expect(auditOf(mw)()).toMatchObject({
+      level: 'warn',
+      message: expect.stringContaining('Secure'),
+    });
+  });
+
+  it('warns on the in-memory store', () => {
+    expect(auditOf(session({ secret: SECRET }))()).toMatchObject({
+      level: 'warn',
+      message: expect.stringContaining('MemoryStore'),
+    });
+  });
+
+  it('is ok for a shared or cookie store', () => {
+    expect(auditOf(session({ secret: SECRET, store: 'cookie' }))()).toEqual({ level: 'ok' });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore } from '../memory-store';
+import type { RedisSessionClient } from '../redis-store';
+import { RedisStore } from '../redis-store';
+import type { SessionRecord } from '../types';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function record(data: Record<string, unknown>, ttl = 60_000): SessionRecord {
+  return { data, createdAt: Date.now(), expiresAt: Date.now() + ttl };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ============================================================================
+// MemoryStore
+// ============================================================================
+
+describe('MemoryStore', () => {
+  it('rejects an invalid maxSessions', () => {
+    expect(() => new MemoryStore({ maxSessions: 0 })).toThrow(TypeError);
+    expect(() => new MemoryStore({ maxSessions: 1.5 })).toThrow(TypeError);
+  });
+
+  it('copies records in and out', async () => {
+    const store = new MemoryStore();
+    const stored = record({ cart: ['a'] });
+    await store.set('id', stored);
+    (stored.data.cart as string[]).push('b');
+
+    const read = await store.get('id');
+    expect(read?.data).toEqual({ cart: ['a'] });
+    (read?.data.cart as string[]).push('c');
+    expect((await store.get('id'))?.data).toEqual({ cart: ['a'] });
+  });
+
+  it('drops a record once it expires', async () => {
+    const store = new MemoryStore();
+    await store.set('id', record({ n: 1 }, 1000));
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.get('id')).toBeNull();
+    expect(store.size).toBe(0);
+  });
+
+  it('evicts the least recently used session at capacity', async () => {
+    const store = new MemoryStore({ maxSessions: 2 });
+    await store.set('a', record({}));
+    await store.set('b', record({}));
+    await store.get('a');
+    await store.set('c', record({}));
+
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+
+  it('destroys and clears', async () => {
+    const store = new MemoryStore();
+    await store.set('a', record({}));
+    await store.set('b', record({}));
+    await store.destroy('a');
+    expect(store.size).toBe(1);
+    await store.clear();
+    expect(store.size).toBe(0);
+  });
+});
+
+// ============================================================================
+// RedisStore
+// ============================================================================
+
+describe('RedisStore', () => {
+  function fakeClient() {
+    const data = new Map<string, string>();
+    const client = {
+      get: vi.fn(async (key: string) => data.get(key) ?? null),
+      set: vi.fn(async (key: string, value: string, _ttlMs: number) => data.set(key, value)),
+      del: vi.fn(async (key: string) => data.delete(key)),
+    } satisfies RedisSessionClient;
+    return { data, client };
+  }
+
+  it('writes JSON under the prefix with a PX expiry at expiresAt', async () => {
+    const { data, client } = fakeClient();
+    const store = new RedisStore({ client, prefix: 'app:' });
+    await store.set('id', record({ user: 'ada' }, 5000));
+
+    expect(client.set).toHaveBeenCalledWith('app:id', expect.any(String), 5000);
+    expect(JSON.parse(data.get('app:id')!)).toMatchObject({ data: { user: 'ada' } });
+    expect((await store.get('id'))?.data).toEqual({ user: 'ada' });
+  });
+
+  it('uses the default prefix', async () => {
+    const { data, client } = fakeClient();
+    await new RedisStore({ client }).set('id', record({}));
+    expect([...data.keys()]).toEqual(['nextrush:sess:id']);
+  });
+
+  it('deletes instead of writing an already expired record', async () => {
+    const { client } = fakeClient();
+    await new RedisStore({ client }).set('id', record({}, 0));
+    expect(client.set).not.toHaveBeenCalled();
+    expect(client.del).toHaveBeenCalledWith('nextrush:sess:id');
+  });
+
+  it('reads a malformed or expired value as no session', async () => {
+    const { data, client } = fakeClient();
+    const store = new RedisStore({ client });
+    data.set('nextrush:sess:junk', 'not json');
+    data.set('nextrush:sess:shape', JSON.stringify({ data: [] }));
+    data.set('nextrush:sess:old', JSON.stringify(record({}, -1)));
+
+    expect(await store.get('junk')).toBeNull();
+    expect(await store.get('shape')).toBeNull();
+    expect(await store.get('old')).toBeNull();
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('propagates backend errors', async () => {
+    const { client } = fakeClient();
+    client.get.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    await expect(new RedisStore({ client }).get('id')).rejects.toThrow('ECONNREFUSED');
+  });
+});
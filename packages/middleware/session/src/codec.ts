@@ -0,0 +1,82 @@
+/**
+ * @nextrush/session - Encoding
+ *
+ * Session IDs, and the JSON forms a record takes in a store and in a
+ * cookie-store cookie.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import { SESSION_ID_BYTES } from './constants';
+import type { SessionRecord } from './types';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): string | undefined {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) return undefined;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+  } catch {
+    return undefined;
+  }
+}
+
+/** A new random session ID: 256 bits, base64url. */
+export function generateSessionId(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(SESSION_ID_BYTES)));
+}
+
+/** Whether `value` has the shape of a {@link SessionRecord}. */
+function isRecord(value: unknown): value is SessionRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const { data, createdAt, expiresAt } = value as Record<string, unknown>;
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    !Array.isArray(data) &&
+    Number.isFinite(createdAt) &&
+    Number.isFinite(expiresAt)
+  );
+}
+
+/** The record in a stored JSON string, or `null` when it is not one. */
+export function parseRecord(raw: string): SessionRecord | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  return isRecord(value) ? value : null;
+}
+
+/** A session as the (already verified) value of a cookie-store cookie. */
+export interface CookieSession {
+  readonly id: string;
+  readonly record: SessionRecord;
+}
+
+/** Encode a session as a cookie-safe string (base64url JSON). */
+export function encodeCookieSession(id: string, record: SessionRecord): string {
+  const json = JSON.stringify({ id, ...record });
+  return toBase64Url(new TextEncoder().encode(json));
+}
+
+/** Decode {@link encodeCookieSession} output, or `null` when it is not one. */
+export function decodeCookieSession(value: string): CookieSession | null {
+  const json = fromBase64Url(value);
+  if (json === undefined) return null;
+  const record = parseRecord(json);
+  const id = (record as { id?: unknown } | null)?.id;
+  if (!record || typeof id !== 'string') return null;
+  return {
+    id,
+    record: { data: record.data, createdAt: record.createdAt, expiresAt: record.expiresAt },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * @nextrush/session - Constants
+ *
+ * @packageDocumentation
+ */
+
+/** Default session cookie name. */
+export const DEFAULT_COOKIE_NAME = 'sid';
+
+/** Default idle timeout: a session unused for a day expires. */
+export const DEFAULT_IDLE_TIMEOUT = 24 * 60 * 60 * 1000;
+
+/** Default absolute timeout: no session outlives a week, however active. */
+export const DEFAULT_ABSOLUTE_TIMEOUT = 7 * 24 * 60 * 60 * 1000;
+
+/** Default {@link MemoryStore} capacity, in sessions. */
+export const DEFAULT_MAX_SESSIONS = 10_000;
+
+/** Default prefix for every key a {@link RedisStore} writes. */
+export const DEFAULT_REDIS_PREFIX = 'nextrush:sess:';
+
+/** Random bytes in a session ID (256 bits, 43 base64url characters). */
+export const SESSION_ID_BYTES = 32;
@@ -0,0 +1,106 @@
+/**
+ * @nextrush/session - Response Deferral
+ *
+ * Saving a session is asynchronous (a store round trip, a cookie signature),
+ * but the Node adapter commits the response — headers included — the moment
+ * a handler calls `ctx.json()`. So the session cookie cannot be written
+ * after the handler returns; instead the handler's response is held until
+ * the session has been saved.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import type { Context, Next } from '@nextrush/types';
+
+type StreamMethod = 'sendStream' | 'stream' | 'sse' | 'ndjson';
+
+const STREAM_METHODS: readonly StreamMethod[] = ['sendStream', 'stream', 'sse', 'ndjson'];
+
+/**
+ * Run the downstream chain with the response methods shadowed, then `save`,
+ * then send what the chain sent.
+ *
+ * `ctx.json()`, `ctx.html()`, `ctx.send()` and `ctx.redirect()` are held —
+ * the first one wins, with the status at the time of the call — and replayed
+ * once `save` resolves; `ctx.responded` reads `true` while one is held. The
+ * streaming methods cannot wait for the chain to finish, so they run `save`
+ * first and then start the stream; `save` runs at most once. The real
+ * methods are restored before this returns or throws. When the chain or
+ * `save` throws, a held response is dropped and the error propagates, so
+ * an error handler further up renders in its place.
+ */
+export async function deferResponse(
+  ctx: Context,
+  next: Next,
+  save: () => Promise<void>
+): Promise<void> {
+  const json = ctx.json.bind(ctx);
+  const html = ctx.html.bind(ctx);
+  const send = ctx.send.bind(ctx);
+  const redirect = ctx.redirect.bind(ctx);
+  const streams = STREAM_METHODS.filter((name) => typeof ctx[name] === 'function').map(
+    (name) => [name, (ctx[name] as (...args: unknown[]) => Promise<void>).bind(ctx)] as const
+  );
+  const shadowed = ['json', 'html', 'send', 'redirect', ...streams.map(([name]) => name)];
+  const ownMethods = shadowed.map(
+    (name) => [name, Object.getOwnPropertyDescriptor(ctx, name)] as const
+  );
+  const respondedOwn = Object.getOwnPropertyDescriptor(ctx, 'responded');
+  const responded = (): boolean =>
+    respondedOwn
+      ? Boolean(respondedOwn.get ? respondedOwn.get.call(ctx) : respondedOwn.value)
+      : Boolean(Reflect.get(Object.getPrototypeOf(ctx) as object, 'responded', ctx));
+
+  let held: (() => void) | undefined;
+  let saved: Promise<void> | undefined;
+  const saveOnce = (): Promise<void> => (saved ??= save());
+
+  const hold = <A extends unknown[]>(release: (...args: A) => void, ...args: A): void => {
+    if (held !== undefined || responded()) return;
+    const status = ctx.status;
+    held = () => {
+      ctx.status = status;
+      release(...args);
+    };
+  };
+
+  ctx.json = (data: unknown): void => {
+    hold(json, data);
+  };
+  ctx.html = (content: string): void => {
+    hold(html, content);
+  };
+  ctx.send = (data): void => {
+    hold(send, data);
+  };
+  ctx.redirect = (url: string, status?: number): void => {
+    hold(redirect, url, status);
+  };
+  for (const [name, method] of streams) {
+    Object.assign(ctx, {
+      [name]: async (...args: unknown[]): Promise<void> => {
+        if (held !== undefined) return;
+        await saveOnce();
+        await method(...args);
+      },
+    });
+  }
+  Object.defineProperty(ctx, 'responded', {
+    configurable: true,
+    enumerable: respondedOwn?.enumerable ?? false,
+    get: () => held !== undefined || responded(),
+  });
+
+  try {
+    await next();
+    await saveOnce();
+  } finally {
+    for (const [name, own] of [...ownMethods, ['responded', respondedOwn] as const]) {
+      if (own) Object.defineProperty(ctx, name, own);
+      else Reflect.deleteProperty(ctx, name);
+    }
+  }
+
+  held?.();
+}
@@ -0,0 +1,57 @@
+/**
+ * @nextrush/session
+ *
+ * Sessions for NextRush.
+ *
+ * Features:
+ * - Signed session cookie, with key rotation
+ * - Stores: in-memory, Redis-protocol, or the cookie itself
+ * - Rolling idle expiry and an absolute lifetime cap
+ * - `regenerate()` for privilege changes, `destroy()` for sign-out
+ * - Lazy: no cookie and no store write until the session is used
+ * - Typed data through `ctx.state.session`
+ * - Publishes the session ID for `@nextrush/csrf` token binding
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type {
+  MemoryStoreOptions,
+  Session,
+  SessionCookieOptions,
+  SessionData,
+  SessionOptions,
+  SessionRecord,
+  SessionState,
+  SessionStore,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export {
+  DEFAULT_ABSOLUTE_TIMEOUT,
+  DEFAULT_COOKIE_NAME,
+  DEFAULT_IDLE_TIMEOUT,
+  DEFAULT_MAX_SESSIONS,
+  DEFAULT_REDIS_PREFIX,
+} from './constants';
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export { getSession, session } from './middleware';
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export { createMemoryStore, MemoryStore } from './memory-store';
+export { createRedisStore, RedisStore } from './redis-store';
+export type { RedisSessionClient, RedisStoreOptions } from './redis-store';
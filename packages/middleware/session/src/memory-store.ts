@@ -0,0 +1,90 @@
+/**
+ * @nextrush/session - In-Memory Store
+ *
+ * @packageDocumentation
+ */
+
+import { DEFAULT_MAX_SESSIONS } from './constants';
+import type { MemoryStoreOptions, SessionRecord, SessionStore } from './types';
+
+/**
+ * In-memory session store with least-recently-used eviction.
+ *
+ * Records are copied in and out with `structuredClone`, so a handler that
+ * keeps a reference to `session.data` cannot change the stored session
+ * behind the middleware's back. Expired sessions are dropped lazily when
+ * read, or evicted by capacity — no timer runs, so the store never keeps a
+ * process alive.
+ *
+ * Limitations:
+ * - Not shared across server instances — use a {@link RedisStore} there
+ * - Lost on restart, signing every user out
+ *
+ * @example
+ * ```typescript
+ * app.use(session({ secret, store: new MemoryStore({ maxSessions: 50_000 }) }));
+ * ```
+ */
+export class MemoryStore implements SessionStore {
+  private readonly records = new Map<string, SessionRecord>();
+  private readonly maxSessions: number;
+
+  /**
+   * @throws {TypeError} When `maxSessions` is not a positive integer.
+   */
+  constructor(options: MemoryStoreOptions = {}) {
+    const { maxSessions = DEFAULT_MAX_SESSIONS } = options;
+    if (!Number.isInteger(maxSessions) || maxSessions < 1) {
+      throw new TypeError(
+        `MemoryStore: maxSessions must be a positive integer, got ${String(maxSessions)}`
+      );
+    }
+    this.maxSessions = maxSessions;
+  }
+
+  /** Number of sessions currently held, expired ones included until touched. */
+  get size(): number {
+    return this.records.size;
+  }
+
+  get(id: string): Promise<SessionRecord | null> {
+    const record = this.records.get(id);
+    if (!record) return Promise.resolve(null);
+
+    this.records.delete(id);
+    if (Date.now() >= record.expiresAt) return Promise.resolve(null);
+
+    this.records.set(id, record);
+    return Promise.resolve(structuredClone(record));
+  }
+
+  set(id: string, record: SessionRecord): Promise<void> {
+    this.records.delete(id);
+    if (this.records.size >= this.maxSessions) {
+      const oldest = this.records.keys().next();
+      if (oldest.done !== true) this.records.delete(oldest.value);
+    }
+    this.records.set(id, structuredClone(record));
+    return Promise.resolve();
+  }
+
+  destroy(id: string): Promise<void> {
+    this.records.delete(id);
+    return Promise.resolve();
+  }
+
+  /** Remove every session. */
+  clear(): Promise<void> {
+    this.records.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Create an in-memory session store.
+ *
+ * @param options - Store options
+ */
+export function createMemoryStore(options?: MemoryStoreOptions): MemoryStore {
+  return new MemoryStore(options);
+}
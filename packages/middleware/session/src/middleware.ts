@@ -0,0 +1,244 @@
+/**
+ * @nextrush/session - Session Middleware
+ *
+ * @packageDocumentation
+ */
+
+import {
+  createDeleteCookie,
+  getCookie,
+  serializeCookie,
+  signCookie,
+  unsignCookie,
+  type CookieOptions,
+} from '@nextrush/cookies';
+import type { Context, Middleware, SecurityAuditVerdict } from '@nextrush/types';
+import { SECURITY_AUDIT, SESSION_IDENTIFIER } from '@nextrush/types';
+import { decodeCookieSession, encodeCookieSession } from './codec';
+import { DEFAULT_ABSOLUTE_TIMEOUT, DEFAULT_COOKIE_NAME, DEFAULT_IDLE_TIMEOUT } from './constants';
+import { deferResponse } from './defer';
+import { MemoryStore } from './memory-store';
+import { SessionHandle } from './session';
+import type { Session, SessionData, SessionOptions, SessionRecord, SessionStore } from './types';
+
+/** Shortest `secret` accepted, as for `@nextrush/csrf`. */
+const MIN_SECRET_LENGTH = 32;
+
+function validateTimeout(name: string, value: number): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new TypeError(`session(): ${name} must be a positive number of milliseconds`);
+  }
+}
+
+function validateSecret(secret: string, which: string): void {
+  if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH) {
+    throw new TypeError(
+      `session(): ${which} must be a string of at least ${String(MIN_SECRET_LENGTH)} characters`
+    );
+  }
+}
+
+/**
+ * Session middleware.
+ *
+ * Loads the session named by a signed cookie into `ctx.state.session`,
+ * publishes its ID for `@nextrush/csrf` under `SESSION_IDENTIFIER`, and
+ * saves it once the rest of the chain has run — holding back the handler's
+ * response until the store write and the `Set-Cookie` header are done.
+ *
+ * Expiry is enforced here on every read, whatever the store does: a session
+ * idle for `idleTimeout`, or older than `absoluteTimeout`, is discarded and
+ * the request starts a new one.
+ *
+ * @example
+ * ```typescript
+ * import { session, RedisStore, type SessionState } from '@nextrush/session';
+ *
+ * app.use(session({ secret: process.env.SESSION_SECRET!, store: new RedisStore({ client }) }));
+ *
+ * app.post('/login', async (ctx) => {
+ *   const user = await authenticate(ctx.body);
+ *   const { session } = ctx.state as SessionState<{ userId: string }>;
+ *   session.regenerate(); // new ID on every privilege change
+ *   session.data.userId = user.id;
+ *   ctx.json({ ok: true });
+ * });
+ * ```
+ *
+ * @throws {TypeError} When a secret is shorter than 32 characters or a
+ *   timeout is not a positive number.
+ */
+export function session(options: SessionOptions): Middleware {
+  const keys = typeof options.secret === 'string' ? { current: options.secret } : options.secret;
+  validateSecret(keys.current, 'secret');
+  for (const previous of keys.previous ?? []) validateSecret(previous, 'each previous secret');
+
+  const idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+  const absoluteTimeout = options.absoluteTimeout ?? DEFAULT_ABSOLUTE_TIMEOUT;
+  validateTimeout('idleTimeout', idleTimeout);
+  if (absoluteTimeout !== false) validateTimeout('absoluteTimeout', absoluteTimeout);
+
+  const rolling = options.rolling ?? true;
+  const store: SessionStore | 'cookie' = options.store ?? new MemoryStore();
+  const name = options.cookie?.name ?? DEFAULT_COOKIE_NAME;
+  const persistent = options.cookie?.persistent ?? true;
+  const cookieOptions: CookieOptions = {
+    path: options.cookie?.path ?? '/',
+    domain: options.cookie?.domain,
+    sameSite: options.cookie?.sameSite ?? 'lax',
+    secure: options.cookie?.secure ?? true,
+    httpOnly: true,
+  };
+  // Fail at construction, not on the first request that saves a session.
+  serializeCookie(name, 'probe', cookieOptions);
+
+  /** When a session created at `createdAt` expires if saved at `now`. */
+  const expiryFor = (createdAt: number, now: number): number =>
+    absoluteTimeout === false
+      ? now + idleTimeout
+      : Math.min(now + idleTimeout, createdAt + absoluteTimeout);
+
+  const isLive = (record: SessionRecord, now: number): boolean =>
+    now < record.expiresAt &&
+    (absoluteTimeout === false || now < record.createdAt + absoluteTimeout);
+
+  /** Verify a cookie value against every key; `rotated` when only a previous key matched. */
+  async function verify(raw: string): Promise<{ value: string; rotated: boolean } | undefined> {
+    const value = await unsignCookie(name, raw, keys.current);
+    if (value !== undefined) return { value, rotated: false };
+    for (const previous of keys.previous ?? []) {
+      const old = await unsignCookie(name, raw, previous);
+      if (old !== undefined) return { value: old, rotated: true };
+    }
+    return undefined;
+  }
+
+  async function load(
+    raw: string | undefined,
+    now: number
+  ): Promise<{ id: string; record: SessionRecord; rotated: boolean } | undefined> {
+    if (raw === undefined) return undefined;
+    const verified = await verify(raw);
+    if (!verified) return undefined;
+
+    if (store === 'cookie') {
+      const decoded = decodeCookieSession(verified.value);
+      return decoded && isLive(decoded.record, now)
+        ? { ...decoded, rotated: verified.rotated }
+        : undefined;
+    }
+
+    const record = await store.get(verified.value);
+    if (!record) return undefined;
+    if (!isLive(record, now)) {
+      await store.destroy(verified.value);
+      return undefined;
+    }
+    return { id: verified.value, record, rotated: verified.rotated };
+  }
+
+  async function save(ctx: Context, handle: SessionHandle, hadCookie: boolean): Promise<void> {
+    if (store !== 'cookie') {
+      for (const id of handle.retiredIds) await store.destroy(id);
+    }
+
+    if (handle.empty) {
+      if (hadCookie && handle.retiredIds.length > 0) {
+        ctx.set('Set-Cookie', createDeleteCookie(name, cookieOptions));
+      }
+      return;
+    }
+    if (!handle.changed && !handle.forced && !(rolling && !handle.isNew)) return;
+
+    const now = Date.now();
+    const record = handle.toRecord(expiryFor(handle.createdAt, now));
+    let value: string;
+    if (store === 'cookie') {
+      value = encodeCookieSession(handle.id, record);
+    } else {
+      await store.set(handle.id, record);
+      value = handle.id;
+    }
+
+    const signed = await signCookie(name, value, keys.current);
+    ctx.set(
+      'Set-Cookie',
+      serializeCookie(name, signed, {
+        ...cookieOptions,
+        maxAge: persistent ? Math.ceil((record.expiresAt - now) / 1000) : undefined,
+      })
+    );
+  }
+
+  const middleware: Middleware = async (ctx, next) => {
+    const raw = getCookie(ctx.get('cookie'), name);
+    const now = Date.now();
+    const loaded = await load(raw, now);
+    const handle = new SessionHandle(loaded, expiryFor(now, now));
+    if (loaded?.rotated) handle.touch();
+
+    const state = ctx.state as Record<string | symbol, unknown>;
+    state.session = handle;
+    state[SESSION_IDENTIFIER] = (): string => {
+      // A token bound to this ID is only useful if the session outlives the request.
+      handle.touch();
+      return handle.id;
+    };
+
+    await deferResponse(ctx, next, () => save(ctx, handle, raw !== undefined));
+  };
+
+  /**
+   * Boot-time verdict: a session cookie without `Secure` can be stolen off
+   * plaintext HTTP, and a MemoryStore is neither shared between instances
+   * nor kept across restarts.
+   */
+  function auditVerdict(): SecurityAuditVerdict {
+    if (cookieOptions.secure === false) {
+      return {
+        level: 'warn',
+        message:
+          "session({ cookie: { secure: false } }) sends the session cookie without the 'Secure' " +
+          'attribute — anyone on a plaintext network path can take over the session. Remove the ' +
+          'override to keep the secure default, or confirm this is intentional for local development.',
+      };
+    }
+    if (store instanceof MemoryStore) {
+      return {
+        level: 'warn',
+        message:
+          'session() is keeping sessions in a MemoryStore — each instance has its own, and all are ' +
+          "lost on restart. Pass a shared store (RedisStore) or store: 'cookie' for production.",
+      };
+    }
+    return { level: 'ok' };
+  }
+
+  Object.defineProperty(middleware, SECURITY_AUDIT, {
+    value: auditVerdict,
+    enumerable: false,
+  });
+
+  return middleware;
+}
+
+/**
+ * The request's session, typed.
+ *
+ * @example
+ * ```typescript
+ * const session = getSession<{ cart: string[] }>(ctx);
+ * session.data.cart = [...(session.data.cart ?? []), itemId];
+ * ```
+ *
+ * @throws {Error} When `session()` has not run for this request.
+ */
+export function getSession<T extends SessionData = SessionData>(ctx: Context): Session<T> {
+  const current = (ctx.state as { session?: unknown }).session;
+  if (!(current instanceof SessionHandle)) {
+    throw new Error(
+      'getSession(): no session on this request — register session() before this handler'
+    );
+  }
+  return current as Session<T>;
+}
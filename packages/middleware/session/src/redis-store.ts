@@ -0,0 +1,107 @@
+/**
+ * @nextrush/session - Redis-Protocol Store
+ *
+ * @packageDocumentation
+ */
+
+import { parseRecord } from './codec';
+import { DEFAULT_REDIS_PREFIX } from './constants';
+import type { SessionRecord, SessionStore } from './types';
+
+/**
+ * The three commands `RedisStore` needs.
+ *
+ * Deliberately minimal so any Redis-protocol client (ioredis, node-redis,
+ * Valkey, Dragonfly, Upstash) fits behind a small adapter, and so tests can
+ * substitute an in-process fake.
+ *
+ * @example ioredis
+ * ```typescript
+ * const client: RedisSessionClient = {
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttlMs) => redis.set(key, value, 'PX', ttlMs),
+ *   del: (key) => redis.del(key),
+ * };
+ * ```
+ *
+ * @example node-redis
+ * ```typescript
+ * const client: RedisSessionClient = {
+ *   get: (key) => redis.get(key),
+ *   set: (key, value, ttlMs) => redis.set(key, value, { PX: ttlMs }),
+ *   del: (key) => redis.del(key),
+ * };
+ * ```
+ */
+export interface RedisSessionClient {
+  /** `GET key` — the stored string, or `null` */
+  get(key: string): Promise<string | null>;
+  /** `SET key value PX ttlMs` */
+  set(key: string, value: string, ttlMs: number): Promise<unknown>;
+  /** `DEL key` */
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Redis store options
+ */
+export interface RedisStoreOptions {
+  /** Client used to reach the server */
+  client: RedisSessionClient;
+  /** Prefix for every key the store writes (default: `'nextrush:sess:'`) */
+  prefix?: string;
+}
+
+/**
+ * Session store on a Redis-protocol server, shared by every instance.
+ *
+ * Each session is one JSON string under `prefix + id`, written with a `PX`
+ * expiry at the record's `expiresAt`, so the server drops sessions on its
+ * own. A value that does not parse as a session reads as no session. Backend
+ * errors are not caught: a request whose session cannot be read or saved
+ * fails rather than silently running signed out.
+ *
+ * @example
+ * ```typescript
+ * app.use(session({ secret, store: new RedisStore({ client }) }));
+ * ```
+ */
+export class RedisStore implements SessionStore {
+  private readonly client: RedisSessionClient;
+  private readonly prefix: string;
+
+  constructor(options: RedisStoreOptions) {
+    this.client = options.client;
+    this.prefix = options.prefix ?? DEFAULT_REDIS_PREFIX;
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const raw = await this.client.get(this.prefix + id);
+    if (raw === null) return null;
+    const record = parseRecord(raw);
+    if (!record || Date.now() >= record.expiresAt) return null;
+    return record;
+  }
+
+  async set(id: string, record: SessionRecord): Promise<void> {
+    const ttl = record.expiresAt - Date.now();
+    if (ttl <= 0) {
+      await this.client.del(this.prefix + id);
+      return;
+    }
+    await this.client.set(this.prefix + id, JSON.stringify(record), ttl);
+  }
+
+  async destroy(id: string): Promise<void> {
+    await this.client.del(this.prefix + id);
+  }
+}
+
+/**
+ * Create a Redis-protocol session store.
+ *
+ * @param options - Store options
+ */
+export function createRedisStore(options: RedisStoreOptions): RedisStore {
+  return new RedisStore(options);
+}
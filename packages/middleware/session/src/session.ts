@@ -0,0 +1,116 @@
+/**
+ * @nextrush/session - Session Handle
+ *
+ * The per-request {@link Session} object, and the bookkeeping the middleware
+ * reads back when it saves: whether the data changed, and which IDs the
+ * request retired.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import { generateSessionId } from './codec';
+import type { Session, SessionData, SessionRecord } from './types';
+
+/**
+ * A request's session.
+ *
+ * @internal
+ */
+export class SessionHandle<T extends SessionData = SessionData> implements Session<T> {
+  data: Partial<T>;
+
+  private currentId: string;
+  private created: number;
+  private expires: number;
+  private fresh: boolean;
+  /** JSON of `data` as loaded — a different JSON at save time means it changed. */
+  private snapshot: string;
+  private touched = false;
+  private readonly retired: string[] = [];
+
+  /**
+   * @param loaded - The stored session, or `undefined` to start a new one
+   * @param expiresAt - Expiry a new session would get if saved now
+   */
+  constructor(loaded: { id: string; record: SessionRecord } | undefined, expiresAt: number) {
+    if (loaded) {
+      this.currentId = loaded.id;
+      this.data = loaded.record.data as Partial<T>;
+      this.created = loaded.record.createdAt;
+      this.expires = loaded.record.expiresAt;
+      this.fresh = false;
+    } else {
+      this.currentId = generateSessionId();
+      this.data = {};
+      this.created = Date.now();
+      this.expires = expiresAt;
+      this.fresh = true;
+    }
+    this.snapshot = JSON.stringify(this.data);
+  }
+
+  get id(): string {
+    return this.currentId;
+  }
+
+  get isNew(): boolean {
+    return this.fresh;
+  }
+
+  get createdAt(): number {
+    return this.created;
+  }
+
+  get expiresAt(): number {
+    return this.expires;
+  }
+
+  regenerate(): void {
+    if (!this.fresh) this.retired.push(this.currentId);
+    this.currentId = generateSessionId();
+    this.created = Date.now();
+    this.fresh = true;
+    this.touched = true;
+  }
+
+  destroy(): void {
+    if (!this.fresh) this.retired.push(this.currentId);
+    this.currentId = generateSessionId();
+    this.data = {};
+    this.snapshot = '{}';
+    this.created = Date.now();
+    this.fresh = true;
+    this.touched = false;
+  }
+
+  touch(): void {
+    this.touched = true;
+  }
+
+  /** Whether `data` differs from what was loaded (or is non-empty, for a new session). */
+  get changed(): boolean {
+    return JSON.stringify(this.data) !== this.snapshot;
+  }
+
+  /** Whether `touch()` or `regenerate()` asked for a save. */
+  get forced(): boolean {
+    return this.touched;
+  }
+
+  /** Stored IDs this request moved away from, to delete on save. */
+  get retiredIds(): readonly string[] {
+    return this.retired;
+  }
+
+  /** Whether the request ended up with no session — destroyed, or never created. */
+  get empty(): boolean {
+    return this.fresh && !this.touched && !this.changed;
+  }
+
+  /** The record to store, expiring at `expiresAt`. */
+  toRecord(expiresAt: number): SessionRecord {
+    this.expires = expiresAt;
+    return { data: this.data, createdAt: this.created, expiresAt };
+  }
+}
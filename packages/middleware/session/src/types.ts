@@ -0,0 +1,171 @@
+/**
+ * @nextrush/session - Type Definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { SigningKeys } from '@nextrush/cookies';
+
+/** Session data: a JSON-serializable object. */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * What a store holds for one session. Times are epoch milliseconds;
+ * `expiresAt` already accounts for both the idle and the absolute timeout.
+ */
+export interface SessionRecord<T extends SessionData = SessionData> {
+  data: Partial<T>;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Server-side session store.
+ *
+ * Implement this interface to keep sessions in a shared backend. A store
+ * should drop a record once its `expiresAt` passes; the middleware checks
+ * expiry again on every read, so a store that keeps stale records is only
+ * wasteful, never unsafe.
+ *
+ * @example
+ * ```typescript
+ * class PostgresSessionStore implements SessionStore {
+ *   async get(id) { ... }
+ *   async set(id, record) { ... }
+ *   async destroy(id) { ... }
+ * }
+ * ```
+ */
+export interface SessionStore {
+  /** Get a session, or `null` when absent or expired. */
+  get(id: string): Promise<SessionRecord | null>;
+  /** Store a session, replacing any previous record under `id`, until `record.expiresAt`. */
+  set(id: string, record: SessionRecord): Promise<void>;
+  /** Remove a session. */
+  destroy(id: string): Promise<void>;
+}
+
+/** Options for {@link MemoryStore}. */
+export interface MemoryStoreOptions {
+  /**
+   * Maximum number of sessions; the least recently used is evicted first.
+   * @default 10000
+   */
+  maxSessions?: number;
+}
+
+/** Session cookie attributes. The cookie is always `HttpOnly`. */
+export interface SessionCookieOptions {
+  /**
+   * Cookie name. Use a `__Host-` prefix to lock it to the origin.
+   * @default 'sid'
+   */
+  name?: string;
+  /** @default '/' */
+  path?: string;
+  /** Domain attribute. Omit to scope the cookie to the exact host. */
+  domain?: string;
+  /** @default 'lax' */
+  sameSite?: 'strict' | 'lax' | 'none';
+  /** @default true */
+  secure?: boolean;
+  /**
+   * Send `Max-Age` matching the session's expiry. `false` makes it a
+   * browser-session cookie, dropped when the browser closes.
+   * @default true
+   */
+  persistent?: boolean;
+}
+
+/** Options for the {@link session} middleware. */
+export interface SessionOptions {
+  /**
+   * Secret the session cookie is signed with (at least 32 characters), or
+   * `{ current, previous }` to rotate it: cookies signed with a previous key
+   * are still accepted, and re-signed with `current` on their next write.
+   */
+  secret: string | SigningKeys;
+
+  /**
+   * Where session data lives. `'cookie'` keeps it in the signed cookie itself
+   * — no server state, but the data is readable by the client (signed, not
+   * encrypted) and limited to about 4 KB.
+   * @default a private MemoryStore
+   */
+  store?: SessionStore | 'cookie';
+
+  /** Session cookie attributes. */
+  cookie?: SessionCookieOptions;
+
+  /**
+   * Milliseconds a session may go unused before it expires.
+   * @default 86400000 (1 day)
+   */
+  idleTimeout?: number;
+
+  /**
+   * Milliseconds after creation a session expires, however active — `false`
+   * for no limit. A regenerated session starts a new period.
+   * @default 604800000 (7 days)
+   */
+  absoluteTimeout?: number | false;
+
+  /**
+   * Extend the idle expiry on every request that has a session, re-sending
+   * the cookie. With `false`, the expiry only moves when the session is
+   * saved because its data changed (or `touch()` was called).
+   * @default true
+   */
+  rolling?: boolean;
+}
+
+/**
+ * The request's session, on `ctx.state.session`.
+ *
+ * A session is created lazily: a request without one gets an empty session
+ * that is only saved — and only sets a cookie — once something is stored in
+ * it, `touch()` is called, or its ID is used (csrf binding a token to it).
+ * Changes are saved when the middleware chain completes; a chain that throws
+ * leaves the stored session as it was.
+ */
+export interface Session<T extends SessionData = SessionData> {
+  /** Session ID. Changes on `regenerate()` and `destroy()`. */
+  readonly id: string;
+  /** Session data. Mutate it in place or assign a new object. */
+  data: Partial<T>;
+  /** Whether the session did not exist before this request. */
+  readonly isNew: boolean;
+  /** When the session was created (epoch ms). */
+  readonly createdAt: number;
+  /** When the session expires if it is not used again (epoch ms). */
+  readonly expiresAt: number;
+  /**
+   * Move the session to a new ID, keeping its data, and invalidate the old
+   * one. Call it on every privilege change — sign-in, sign-out to a lesser
+   * role, elevation — so an ID planted or leaked before the change is
+   * worthless after it.
+   */
+  regenerate(): void;
+  /** Clear the data, delete the stored session and expire the cookie. */
+  destroy(): void;
+  /** Save the session this request even if its data did not change. */
+  touch(): void;
+}
+
+/**
+ * `ctx.state` with a session — the typed view of what {@link session}
+ * installs.
+ *
+ * @example
+ * ```typescript
+ * interface AppSession { userId: string; role: 'admin' | 'user' }
+ *
+ * app.get('/me', (ctx) => {
+ *   const { session } = ctx.state as SessionState<AppSession>;
+ *   ctx.json({ userId: session.data.userId });
+ * });
+ * ```
+ */
+export interface SessionState<T extends SessionData = SessionData> {
+  session: Session<T>;
+}
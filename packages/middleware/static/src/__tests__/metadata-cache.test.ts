@@ -25,7 +25,7 @@ import { PassThrough } from 'node:stream';
 import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
 import { serveStatic } from '../index';
 import { getCachedFileMetadata, __resetMetadataCacheForTests } from '../metadata-cache';
-import { statSafe } from '../utils';
+import { statSafe } from '../storage';
 
 let tempDir: string;
 
@@ -71,6 +71,9 @@ function createMockContext(headers: Record<string, string> = {}): TestContext {
     set(name: string, value: string | number) {
       mockRes.setHeader(name, value);
     },
+    send(data: unknown) {
+      mockRes.end(data ?? undefined);
+    },
     _test: { responseHeaders, statusCode: 200 },
   } as unknown as TestContext;
   return ctx;
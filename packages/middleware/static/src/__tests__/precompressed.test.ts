@@ -0,0 +1,202 @@
+/**
+ * @nextrush/static - Precompressed Variant Tests
+ *
+ * `precompressed` negotiation against `Accept-Encoding`, and the headers,
+ * validators and ranges of the variant that answers.
+ */
+
+import type { Context } from '@nextrush/types';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createSendFile, memoryStorage, serveStatic, type StaticOptions } from '../index';
+
+interface Response {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function createContext(path: string, method = 'GET', headers: Record<string, string> = {}) {
+  const response: Response = { status: 200, headers: {}, body: '' };
+  const decoder = new TextDecoder();
+
+  const ctx = {
+    method,
+    path,
+    headers,
+    get status() {
+      return response.status;
+    },
+    set status(code: number) {
+      response.status = code;
+    },
+    set(name: string, value: string | number) {
+      response.headers[name.toLowerCase()] = String(value);
+    },
+    send(data: Uint8Array | null) {
+      if (data) response.body = decoder.decode(data);
+    },
+    json(data: unknown) {
+      response.body = JSON.stringify(data);
+    },
+    redirect(url: string, status = 302) {
+      response.status = status;
+      response.headers.location = url;
+    },
+    async sendStream(source: ReadableStream<Uint8Array>) {
+      for await (const chunk of source) response.body += decoder.decode(chunk, { stream: true });
+    },
+  } as unknown as Context;
+
+  return { ctx, response };
+}
+
+// Stand-ins for the compressed bytes: the middleware never decodes them.
+const storage = memoryStorage({
+  'app.js': 'console.log("identity")',
+  'app.js.br': 'BROTLI',
+  'app.js.zst': 'ZSTANDARD',
+  'app.js.gz': 'GZIP-BYTES',
+  'plain.css': 'body{}',
+  'docs/index.html': '<h1>Docs</h1>',
+  'docs/index.html.gz': 'GZ-DOCS',
+});
+
+async function request(
+  path: string,
+  acceptEncoding: string | undefined,
+  init: { options?: Partial<StaticOptions>; headers?: Record<string, string>; method?: string } = {}
+): Promise<Response> {
+  const headers = { ...init.headers };
+  if (acceptEncoding !== undefined) headers['accept-encoding'] = acceptEncoding;
+  const { ctx, response } = createContext(path, init.method, headers);
+  const middleware = serveStatic({ storage, precompressed: true, ...init.options });
+  await middleware(ctx, () => Promise.resolve());
+  return response;
+}
+
+describe('precompressed variants', () => {
+  it('serves the best accepted variant under the source type', async () => {
+    const res = await request('/app.js', 'gzip, br');
+    expect(res.status).toBe(200);
+    expect(res.body).toBe('BROTLI');
+    expect(res.headers['content-encoding']).toBe('br');
+    expect(res.headers['content-type']).toBe('application/javascript; charset=utf-8');
+    expect(res.headers['content-length']).toBe('6');
+    expect(res.headers.vary).toBe('Accept-Encoding');
+  });
+
+  it('follows client quality values, then server order', async () => {
+    expect((await request('/app.js', 'br;q=0.5, gzip')).headers['content-encoding']).toBe('gzip');
+    expect((await request('/app.js', 'zstd, gzip')).headers['content-encoding']).toBe('zstd');
+    expect((await request('/app.js', '*')).headers['content-encoding']).toBe('br');
+    expect((await request('/app.js', '*, br;q=0')).headers['content-encoding']).toBe('zstd');
+  });
+
+  it('serves the file itself, still with Vary, when nothing is accepted', async () => {
+    for (const accept of [undefined, 'identity', 'deflate', 'gzip;q=0']) {
+      const res = await request('/app.js', accept);
+      expect(res.body).toBe('console.log("identity")');
+      expect(res.headers['content-encoding']).toBeUndefined();
+      expect(res.headers.vary).toBe('Accept-Encoding');
+    }
+  });
+
+  it('falls back to the file when it has no variants', async () => {
+    const res = await request('/plain.css', 'br, gzip');
+    expect(res.body).toBe('body{}');
+    expect(res.headers['content-encoding']).toBeUndefined();
+  });
+
+  it('offers only the listed encodings', async () => {
+    const res = await request('/app.js', 'br, gzip', { options: { precompressed: ['gzip'] } });
+    expect(res.headers['content-encoding']).toBe('gzip');
+  });
+
+  it('is off by default', async () => {
+    const res = await request('/app.js', 'br', { options: { precompressed: undefined } });
+    expect(res.body).toBe('console.log("identity")');
+    expect(res.headers.vary).toBeUndefined();
+  });
+
+  it('gives each representation its own ETag', async () => {
+    const identity = await request('/app.js', undefined);
+    const brotli = await request('/app.js', 'br');
+    expect(brotli.headers.etag).not.toBe(identity.headers.etag);
+
+    const notModified = await request('/app.js', 'br', {
+      headers: { 'if-none-match': brotli.headers.etag! },
+    });
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.vary).toBe('Accept-Encoding');
+    expect(notModified.headers['content-encoding']).toBeUndefined();
+
+    const otherEncoding = await request('/app.js', 'gzip', {
+      headers: { 'if-none-match': brotli.headers.etag! },
+    });
+    expect(otherEncoding.status).toBe(200);
+  });
+
+  it('tells apart same-size variants stamped with one mtime', async () => {
+    const twins = memoryStorage(
+      { 'twin.js': 'source', 'twin.js.br': 'AAAA', 'twin.js.zst': 'BBBB' },
+      { mtime: new Date('2024-01-01T00:00:00Z') }
+    );
+    const options = { storage: twins };
+    const brotli = await request('/twin.js', 'br', { options });
+    const zstd = await request('/twin.js', 'zstd', { options });
+    expect(brotli.headers.etag).not.toBe(zstd.headers.etag);
+
+    const crossed = await request('/twin.js', 'zstd', {
+      options,
+      headers: { 'if-none-match': brotli.headers.etag! },
+    });
+    expect(crossed.status).toBe(200);
+  });
+
+  it('applies ranges and HEAD lengths to the variant bytes', async () => {
+    const partial = await request('/app.js', 'zstd', { headers: { range: 'bytes=1-3' } });
+    expect(partial).toMatchObject({
+      status: 206,
+      body: 'STA',
+      headers: { 'content-range': 'bytes 1-3/9', 'content-encoding': 'zstd' },
+    });
+
+    const head = await request('/app.js', 'gzip', { method: 'HEAD' });
+    expect(head.headers['content-length']).toBe('10');
+  });
+
+  it('serves variants of directory indexes and through createSendFile', async () => {
+    expect((await request('/docs/', 'gzip')).body).toBe('GZ-DOCS');
+
+    const send = createSendFile({ storage, precompressed: ['br'] });
+    const { ctx, response } = createContext('/download', 'GET', { 'accept-encoding': 'br' });
+    expect(await send(ctx, 'app.js')).toBe(true);
+    expect(response.headers['content-encoding']).toBe('br');
+  });
+});
+
+describe('precompressed variants on disk', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'nextrush-static-precompressed-'));
+    writeFileSync(join(root, 'bundle.js'), 'fresh source');
+    writeFileSync(join(root, 'bundle.js.br'), 'old build');
+    const earlier = new Date(Date.now() - 60_000);
+    utimesSync(join(root, 'bundle.js.br'), earlier, earlier);
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('ignores a variant older than its source', async () => {
+    const { ctx, response } = createContext('/bundle.js', 'GET', { 'accept-encoding': 'br' });
+    await serveStatic({ root, precompressed: true })(ctx, () => Promise.resolve());
+    expect(response.body).toBe('fresh source');
+    expect(response.headers['content-encoding']).toBeUndefined();
+  });
+});
@@ -7,7 +7,7 @@
  */
 import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as staticApi from '../index';
-import type { DotfilesPolicy, NodeContext, NodeMiddleware, NormalizedStaticOptions, RangeResult, StaticContext, StaticOptions, StatsLike } from '../index';
+import type { AssetBody, AssetManifest, AssetManifestEntry, DotfilesPolicy, FileStorageOptions, ManifestStorageOptions, MemoryFile, MemoryStorageOptions, NodeContext, NodeMiddleware, NormalizedStaticOptions, PrecompressedEncoding, PrecompressedVariant, RangeResult, StaticContext, StaticEntry, StaticFile, StaticOptions, StaticStorage, StatsLike } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
@@ -29,6 +29,11 @@ describe('Public API surface (runtime exports)', () => {
       'serveStatic',
       'staticFiles',
       'createSendFile',
+      'nodeStorage',
+      'bunStorage',
+      'denoStorage',
+      'memoryStorage',
+      'manifestStorage',
     ].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
@@ -40,6 +45,9 @@ describe('Public API surface (type-only exports)', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
     type Surface = [DotfilesPolicy, NodeContext, NodeMiddleware, NormalizedStaticOptions, RangeResult, StaticContext, StaticOptions, StatsLike];
+    type StorageSurface = [StaticStorage, StaticEntry, StaticFile, FileStorageOptions, MemoryFile, MemoryStorageOptions, AssetManifest, AssetManifestEntry, AssetBody, ManifestStorageOptions];
     expectTypeOf<Surface>().not.toBeNever();
+    expectTypeOf<StorageSurface>().not.toBeNever();
+    expectTypeOf<[PrecompressedEncoding, PrecompressedVariant]>().not.toBeNever();
   });
 });
@@ -31,6 +31,7 @@ import {
     staticFiles,
     statSafe,
     stripPrefix,
+    type StaticStorage,
 } from '../index';
 
 // SEC-13: mock only `open` on `node:fs/promises`, keeping every other export
@@ -140,15 +141,15 @@ function createMockContext(opts: MockContextOptions = {}): TestContext {
     if (data !== undefined && body === null) {
       // Only set body if not already set (by json/html/send)
       body = data;
-      if (Buffer.isBuffer(data)) {
-        chunks.push(data);
+      if (data instanceof Uint8Array) {
+        chunks.push(Buffer.from(data));
       } else if (typeof data === 'string') {
         chunks.push(Buffer.from(data));
       }
     } else if (data !== undefined) {
       // Just add to chunks if body was already set
-      if (Buffer.isBuffer(data)) {
-        chunks.push(data);
+      if (data instanceof Uint8Array) {
+        chunks.push(Buffer.from(data));
       } else if (typeof data === 'string') {
         chunks.push(Buffer.from(data));
       }
@@ -193,6 +194,17 @@ function createMockContext(opts: MockContextOptions = {}): TestContext {
       responseHeaders['Content-Type'] = 'text/html';
       raw.res.end(content);
     },
+    // Mirrors the Node adapter: pump to the end, reject if the source errors.
+    async sendStream(source: ReadableStream<Uint8Array>) {
+      const reader = source.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(Buffer.from(value));
+      }
+      originalEnd();
+      ended = true;
+    },
     redirect(url: string, status = 302) {
       statusCode = status;
       responseHeaders['Location'] = url;
@@ -312,6 +324,12 @@ describe('Utility Functions', () => {
       expect(generateETag(stat1)).not.toBe(generateETag(stat2));
     });
 
+    it('should generate different ETag for different content coding', () => {
+      const stat = { size: 100, mtime: new Date('2024-01-01'), isFile: () => true, isDirectory: () => false };
+      expect(generateETag(stat, 'br')).not.toBe(generateETag(stat, 'zstd'));
+      expect(generateETag(stat, 'br')).not.toBe(generateETag(stat));
+    });
+
     it('should generate weak ETag format', () => {
       const stat = { size: 100, mtime: new Date('2024-01-01'), isFile: () => true, isDirectory: () => false };
       const etag = generateETag(stat);
@@ -933,24 +951,34 @@ describe('serveStatic Middleware', () => {
       expect(ctx._test.responseHeaders['Content-Length']).toBe(2 * 1024 * 1024);
     });
 
-    // Pre-existing streamTimeout branch in streamToResponse(), found
-    // uncovered while verifying WS-E's package coverage target — not a
-    // SEC-10-17 behavior change, closing a gap discovered in a file this
-    // workstream already touches (send-file.ts).
-    it('ends the response with 504 when streaming exceeds streamTimeout', async () => {
-      const middleware = serveStatic({
-        root: tempDir,
-        highWaterMark: 1024,
-        streamTimeout: 1,
-      });
-      const ctx = createMockContext({ path: '/large.txt' }) as TestContext;
-      const next = vi.fn();
-
-      // The read stream stays open past the 1ms timeout (nothing artificially
-      // finishes it first), so streamToResponse's timeout branch fires and
-      // rejects — sendFile() itself does not swallow that rejection.
-      await expect(middleware(ctx, next)).rejects.toThrow('Stream timeout');
-      expect(ctx._test.statusCode).toBe(504);
+    it('errors the body instead of answering 504 when streaming exceeds streamTimeout', async () => {
+      // A storage whose stream never delivers: the deadline, not the file
+      // size, decides the outcome. The status was committed when streaming
+      // began, so the timeout errors the body rather than rewriting it to 504.
+      const close = vi.fn(() => Promise.resolve());
+      const stalled: StaticStorage = {
+        stat: (path) =>
+          Promise.resolve(
+            path === 'slow.bin'
+              ? { path: '/slow.bin', size: 10, mtime: new Date(0), isFile: () => true, isDirectory: () => false }
+              : null
+          ),
+        open: () =>
+          Promise.resolve({
+            size: 10,
+            bytes: () => new Promise<Uint8Array>(() => undefined),
+            stream: () => new ReadableStream<Uint8Array>({ cancel: close }),
+            close,
+          }),
+      };
+      const middleware = serveStatic({ storage: stalled, highWaterMark: 0, streamTimeout: 5 });
+      const ctx = createMockContext({ path: '/slow.bin' }) as TestContext;
+
+      await expect(middleware(ctx, vi.fn())).rejects.toThrow('Stream timeout');
+      expect(ctx._test.statusCode).toBe(200);
+      expect(ctx._test.chunks).toHaveLength(0);
+      // The storage's stream was cancelled, releasing its file.
+      expect(close).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,308 @@
+/**
+ * @nextrush/static - Storage Tests
+ *
+ * The middleware over each storage: memory, manifest, and the Deno and Bun
+ * filesystems (driven through stand-ins for their globals, backed by node:fs).
+ */
+
+import type { Context } from '@nextrush/types';
+import { createReadStream, mkdtempSync, readSync, rmSync, writeFileSync } from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    bunStorage,
+    createSendFile,
+    denoStorage,
+    manifestStorage,
+    memoryStorage,
+    serveStatic,
+    type StaticStorage,
+} from '../index';
+
+interface Response {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function createContext(path: string, method = 'GET', headers: Record<string, string> = {}) {
+  const response: Response = { status: 200, headers: {}, body: '' };
+  const decoder = new TextDecoder();
+
+  const ctx = {
+    method,
+    path,
+    headers,
+    get status() {
+      return response.status;
+    },
+    set status(code: number) {
+      response.status = code;
+    },
+    set(name: string, value: string | number) {
+      response.headers[name.toLowerCase()] = String(value);
+    },
+    send(data: Uint8Array | null) {
+      if (data) response.body = decoder.decode(data);
+    },
+    json(data: unknown) {
+      response.body = JSON.stringify(data);
+    },
+    redirect(url: string, status = 302) {
+      response.status = status;
+      response.headers.location = url;
+    },
+    async sendStream(source: ReadableStream<Uint8Array>) {
+      for await (const chunk of source) response.body += decoder.decode(chunk, { stream: true });
+    },
+  } as unknown as Context;
+
+  return { ctx, response };
+}
+
+async function request(
+  storage: StaticStorage,
+  path: string,
+  init: { method?: string; headers?: Record<string, string>; highWaterMark?: number } = {}
+): Promise<Response> {
+  const { ctx, response } = createContext(path, init.method, init.headers);
+  const middleware = serveStatic({ storage, highWaterMark: init.highWaterMark ?? 1024 });
+  await middleware(ctx, () => Promise.resolve());
+  return response;
+}
+
+describe('memoryStorage', () => {
+  const storage = memoryStorage({
+    'index.html': '<h1>Home</h1>',
+    '/docs/index.html': '<h1>Docs</h1>',
+    'data.bin': new Uint8Array([104, 105]).buffer,
+    '.env': 'SECRET=1',
+  });
+
+  it('serves a file with its type, length and validators', async () => {
+    const res = await request(storage, '/index.html');
+    expect(res.status).toBe(200);
+    expect(res.body).toBe('<h1>Home</h1>');
+    expect(res.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(res.headers['content-length']).toBe('13');
+    expect(res.headers.etag).toMatch(/^W\//);
+    expect(res.headers['last-modified']).toBeDefined();
+  });
+
+  it('infers directories from paths, for redirects and indexes', async () => {
+    expect(await request(storage, '/docs')).toMatchObject({
+      status: 301,
+      headers: { location: '/docs/' },
+    });
+    expect((await request(storage, '/docs/')).body).toBe('<h1>Docs</h1>');
+    expect((await request(storage, '/')).body).toBe('<h1>Home</h1>');
+  });
+
+  it('answers 304, 206, 416 and HEAD like the filesystem', async () => {
+    const { headers } = await request(storage, '/index.html');
+
+    const notModified = await request(storage, '/index.html', {
+      headers: { 'if-none-match': headers.etag! },
+    });
+    expect(notModified.status).toBe(304);
+    expect(notModified.body).toBe('');
+    expect(notModified.headers['content-length']).toBeUndefined();
+
+    const partial = await request(storage, '/index.html', { headers: { range: 'bytes=4-7' } });
+    expect(partial).toMatchObject({
+      status: 206,
+      body: 'Home',
+      headers: { 'content-range': 'bytes 4-7/13', 'content-length': '4' },
+    });
+
+    expect((await request(storage, '/data.bin', { headers: { range: 'bytes=9-' } })).status).toBe(
+      416
+    );
+
+    const head = await request(storage, '/data.bin', { method: 'HEAD' });
+    expect(head).toMatchObject({ body: '', headers: { 'content-length': '2' } });
+  });
+
+  it('streams a file above highWaterMark', async () => {
+    const large = memoryStorage({ 'big.txt': 'x'.repeat(200_000) });
+    const res = await request(large, '/big.txt', { highWaterMark: 0 });
+    expect(res.body).toHaveLength(200_000);
+  });
+
+  it('applies the dotfiles policy to storage paths', async () => {
+    expect((await request(storage, '/.env')).status).toBe(404);
+  });
+
+  it('refuses a path that could escape the root', () => {
+    expect(() => memoryStorage({ '../secret': 'x' })).toThrow(TypeError);
+  });
+});
+
+describe('manifestStorage', () => {
+  const content: Record<string, string> = {
+    'app.js': 'console.log("app")',
+    'assets/logo.svg': '<svg/>',
+  };
+  const manifest = {
+    'app.js': { size: 18, etag: '"a1b2"', mtime: '2026-01-01T00:00:00Z' },
+    'assets/logo.svg': { size: 6 },
+    'gone.txt': { size: 4 },
+  };
+
+  const load = vi.fn((path: string) => {
+    const text = content[path];
+    if (text === undefined) return Promise.resolve(null);
+    // Two chunks, so ranges have to cut across a chunk boundary.
+    const bytes = new TextEncoder().encode(text);
+    return Promise.resolve(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes.subarray(0, 5));
+          controller.enqueue(bytes.subarray(5));
+          controller.close();
+        },
+      })
+    );
+  });
+  const storage = manifestStorage({ manifest, load });
+
+  afterEach(() => {
+    load.mockClear();
+  });
+
+  it('takes size, date and ETag from the manifest', async () => {
+    const res = await request(storage, '/app.js');
+    expect(res.body).toBe('console.log("app")');
+    expect(res.headers.etag).toBe('"a1b2"');
+    expect(res.headers['last-modified']).toBe('Thu, 01 Jan 2026 00:00:00 GMT');
+    expect(res.headers['content-length']).toBe('18');
+  });
+
+  it('answers a matching validator without loading the asset', async () => {
+    const res = await request(storage, '/app.js', { headers: { 'if-none-match': '"a1b2"' } });
+    expect(res.status).toBe(304);
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('slices ranges out of a streamed asset', async () => {
+    const res = await request(storage, '/app.js', {
+      headers: { range: 'bytes=3-9' },
+      highWaterMark: 0,
+    });
+    expect(res).toMatchObject({ status: 206, body: 'sole.lo' });
+  });
+
+  it('serves nested assets and rejects when the loader has lost one', async () => {
+    expect((await request(storage, '/assets/logo.svg')).body).toBe('<svg/>');
+    await expect(request(storage, '/gone.txt')).rejects.toThrow('could not load asset "gone.txt"');
+  });
+
+  it('validates the manifest up front', () => {
+    expect(() => manifestStorage({ manifest: { 'a.txt': { size: -1 } }, load })).toThrow(
+      'invalid size'
+    );
+    expect(() =>
+      manifestStorage({ manifest: { 'a.txt': { size: 1, mtime: 'never' } }, load })
+    ).toThrow('invalid mtime');
+  });
+});
+
+describe('filesystem storages', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'nextrush-static-storage-'));
+    writeFileSync(join(root, 'hello.txt'), 'hello from disk', 'utf8');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it('denoStorage reads through Deno.open with seek and read', async () => {
+    const toInfo = (stats: import('node:fs').Stats) => ({
+      size: stats.size,
+      mtime: stats.mtime,
+      isFile: stats.isFile(),
+      isDirectory: stats.isDirectory(),
+      isSymlink: stats.isSymbolicLink(),
+    });
+    vi.stubGlobal('Deno', {
+      lstat: async (path: string) => toInfo(await fsp.lstat(path)),
+      stat: async (path: string) => toInfo(await fsp.stat(path)),
+      realPath: (path: string) => fsp.realpath(path),
+      async open(path: string) {
+        const handle = await fsp.open(path, 'r');
+        let position = 0;
+        return {
+          stat: async () => toInfo(await handle.stat()),
+          seek: (offset: number) => Promise.resolve((position = offset)),
+          async read(buffer: Uint8Array) {
+            const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+            position += bytesRead;
+            return bytesRead === 0 ? null : bytesRead;
+          },
+          close: () => void handle.close(),
+        };
+      },
+      SeekMode: { Start: 0 },
+    });
+
+    const storage = denoStorage(root);
+    expect((await request(storage, '/hello.txt')).body).toBe('hello from disk');
+    expect(
+      (await request(storage, '/hello.txt', { headers: { range: 'bytes=6-9' }, highWaterMark: 0 }))
+        .body
+    ).toBe('from');
+    expect((await request(storage, '/missing.txt')).status).toBe(404);
+  });
+
+  it('bunStorage reads the opened descriptor through Bun.file', async () => {
+    const file = (fd: number, start = 0, end = Number.POSITIVE_INFINITY) => ({
+      slice: (begin: number, until: number) => file(fd, begin, until),
+      stream: () =>
+        Readable.toWeb(
+          createReadStream('', { fd, start, end: end - 1, autoClose: false })
+        ) as ReadableStream<Uint8Array>,
+      arrayBuffer: () => {
+        const bytes = new Uint8Array(64);
+        return Promise.resolve(bytes.slice(0, readSync(fd, bytes, 0, 64, 0)).buffer);
+      },
+    });
+    vi.stubGlobal('Bun', { file });
+
+    const storage = bunStorage(root);
+    expect((await request(storage, '/hello.txt')).body).toBe('hello from disk');
+    expect(
+      (await request(storage, '/hello.txt', { headers: { range: 'bytes=0-4' }, highWaterMark: 0 }))
+        .body
+    ).toBe('hello');
+  });
+
+  it('need their runtime', () => {
+    vi.unstubAllGlobals();
+    expect(() => denoStorage(root)).toThrow('needs the Deno runtime');
+    expect(() => bunStorage(root)).toThrow('needs the Bun runtime');
+  });
+});
+
+describe('storage option', () => {
+  it('is exclusive with root', () => {
+    expect(() => serveStatic({ root: '/tmp', storage: memoryStorage({}) })).toThrow(
+      'not both'
+    );
+  });
+
+  it('backs createSendFile too', async () => {
+    const send = createSendFile({ storage: memoryStorage({ 'report.csv': 'a,b' }) });
+    const { ctx, response } = createContext('/download');
+
+    expect(await send(ctx, 'report.csv')).toBe(true);
+    expect(response.body).toBe('a,b');
+    expect(await send(ctx, '../report.csv')).toBe(false);
+  });
+});
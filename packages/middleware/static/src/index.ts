@@ -8,22 +8,24 @@
  * - Dotfile handling
  * - Extension fallbacks
  * - Directory index serving
+ * - Precompressed variants (.br, .zst, .gz)
+ * - Pluggable storage: Node, Bun and Deno filesystems, memory, asset manifests
  *
  * @packageDocumentation
  * @module @nextrush/static
  */
 
-import type { Middleware, Next } from '@nextrush/types';
+import type { Context, Middleware, Next } from '@nextrush/types';
 import { SECURITY_AUDIT, type SecurityAuditVerdict } from '@nextrush/types';
-import { join, resolve } from 'node:path';
+import { findPrecompressed, PRECOMPRESSED_ENCODINGS } from './precompressed';
 import { sendFile } from './send-file';
-import type { NodeContext, NodeMiddleware, NormalizedStaticOptions, StaticOptions } from './static.types';
+import type { NormalizedStaticOptions, StaticEntry, StaticOptions } from './static.types';
+import { runtimeStorage } from './storage';
 import {
     isDotfile,
     normalizePrefix,
-    safeJoin,
-    statSafe,
     stripPrefix,
+    toStoragePath,
 } from './utils';
 
 // Re-export types
@@ -32,12 +34,34 @@ export type {
     NodeContext,
     NodeMiddleware,
     NormalizedStaticOptions,
+    PrecompressedEncoding,
+    PrecompressedVariant,
     RangeResult,
     StaticContext,
+    StaticEntry,
+    StaticFile,
     StaticOptions,
+    StaticStorage,
     StatsLike
 } from './static.types';
 
+// Storages
+export {
+    bunStorage,
+    denoStorage,
+    manifestStorage,
+    memoryStorage,
+    nodeStorage,
+    statSafe,
+    type AssetBody,
+    type AssetManifest,
+    type AssetManifestEntry,
+    type FileStorageOptions,
+    type ManifestStorageOptions,
+    type MemoryFile,
+    type MemoryStorageOptions
+} from './storage';
+
 // Re-export utilities
 export {
     generateETag,
@@ -48,7 +72,6 @@ export {
     normalizePrefix,
     parseRange,
     safeJoin,
-    statSafe,
     stripPrefix
 } from './utils';
 
@@ -57,7 +80,7 @@ export { sendFile } from './send-file';
 /**
  * Default options for static middleware
  */
-const DEFAULT_OPTIONS: Omit<NormalizedStaticOptions, 'root'> = {
+const DEFAULT_OPTIONS: Omit<NormalizedStaticOptions, 'root' | 'storage'> = {
   prefix: '',
   index: 'index.html',
   fallthrough: false,
@@ -67,6 +90,7 @@ const DEFAULT_OPTIONS: Omit<NormalizedStaticOptions, 'root'> = {
   cacheControlValue: '',
   dotfiles: 'ignore',
   extensions: [],
+  precompressed: [],
   etag: true,
   lastModified: true,
   acceptRanges: true,
@@ -81,11 +105,17 @@ const DEFAULT_OPTIONS: Omit<NormalizedStaticOptions, 'root'> = {
  * Normalize user options with defaults
  */
 function normalizeOptions(options: StaticOptions): NormalizedStaticOptions {
-  if (!options.root) {
-    throw new Error('[static] "root" option is required');
+  if (options.root && options.storage) {
+    throw new Error('[static] pass either "root" or "storage", not both');
+  }
+  if (!options.root && !options.storage) {
+    throw new Error('[static] "root" option is required (or pass "storage")');
   }
 
-  const root = resolve(options.root);
+  const root = options.root ?? '';
+  const storage =
+    options.storage ??
+    runtimeStorage(root, { followSymlinks: options.followSymlinks ?? DEFAULT_OPTIONS.followSymlinks });
   const maxAge = Math.max(0, options.maxAge ?? 0);
   const immutable = options.immutable ?? DEFAULT_OPTIONS.immutable;
 
@@ -102,19 +132,48 @@ function normalizeOptions(options: StaticOptions): NormalizedStaticOptions {
     ...DEFAULT_OPTIONS,
     ...options,
     root,
+    storage,
     prefix: normalizePrefix(options.prefix),
     maxAge,
     immutable,
     cacheControlValue,
+    precompressed: resolvePrecompressed(options.precompressed),
     streamTimeout: options.streamTimeout ?? DEFAULT_OPTIONS.streamTimeout,
   };
 }
 
+/**
+ * The `precompressed` option as the encodings offered: `true` offers all
+ */
+function resolvePrecompressed(
+  precompressed: StaticOptions['precompressed']
+): NormalizedStaticOptions['precompressed'] {
+  if (precompressed === true) return PRECOMPRESSED_ENCODINGS;
+  if (!precompressed) return DEFAULT_OPTIONS.precompressed;
+  return precompressed;
+}
+
+/**
+ * Send a resolved file, or the precompressed sibling the request accepts
+ */
+async function serveEntry(
+  ctx: Context,
+  relativePath: string,
+  entry: StaticEntry,
+  opts: NormalizedStaticOptions
+): Promise<void> {
+  const variant =
+    opts.precompressed.length > 0
+      ? await findPrecompressed(ctx, opts.storage, relativePath, entry, opts.precompressed)
+      : null;
+  return sendFile(ctx, entry.path, entry, opts, variant ?? undefined);
+}
+
 /**
  * Send error response or call next middleware
  */
 async function failOrNext(
-  ctx: NodeContext,
+  ctx: Context,
   next: Next,
   status: number,
   message: string,
@@ -160,6 +219,14 @@ async function failOrNext(
  * }));
  * ```
  *
+ * @example Precompressed assets (from `nextrush build --precompress dist/public`)
+ * ```typescript
+ * app.use(serveStatic({
+ *   root: './dist/public',
+ *   precompressed: true, // app.js.br / .zst / .gz when Accept-Encoding allows
+ * }));
+ * ```
+ *
  * @example SPA fallback
  * ```typescript
  * app.use(serveStatic({
@@ -170,9 +237,9 @@ async function failOrNext(
  */
 export function serveStatic(options: StaticOptions): Middleware {
   const opts = normalizeOptions(options);
-  const { root, prefix, fallthrough, followSymlinks } = opts;
+  const { root, storage, prefix, fallthrough } = opts;
 
-  const staticMiddleware: NodeMiddleware = async (ctx, next) => {
+  const staticMiddleware: Middleware = async (ctx, next) => {
     // Only handle GET and HEAD
     if (ctx.method !== 'GET' && ctx.method !== 'HEAD') {
       return next();
@@ -206,23 +273,23 @@ export function serveStatic(options: StaticOptions): Middleware {
       return failOrNext(ctx, next, 403, 'Forbidden', fallthrough);
     }
 
-    // Safe path join
-    const absolutePath = safeJoin(root, decodedPath);
-    if (!absolutePath) {
+    // Normalize to the storage's relative form
+    const relativePath = toStoragePath(decodedPath);
+    if (relativePath === null) {
       return failOrNext(ctx, next, 403, 'Forbidden', fallthrough);
     }
 
-    // Stat the file (symlink-safe)
-    let stat = await statSafe(absolutePath, followSymlinks, root);
-    let finalPath = absolutePath;
+    // Look the file up (storages refuse symlinks leaving their root)
+    let entry = await storage.stat(relativePath);
+    let finalPath = relativePath;
 
     // Try extension fallbacks if not found
-    if (!stat && opts.extensions.length > 0) {
+    if (!entry && relativePath && opts.extensions.length > 0) {
       for (const ext of opts.extensions) {
-        const extPath = absolutePath + (ext.startsWith('.') ? ext : `.${ext}`);
-        const extStat = await statSafe(extPath, followSymlinks, root);
-        if (extStat?.isFile()) {
-          stat = extStat;
+        const extPath = relativePath + (ext.startsWith('.') ? ext : `.${ext}`);
+        const extEntry = await storage.stat(extPath);
+        if (extEntry?.isFile()) {
+          entry = extEntry;
           finalPath = extPath;
           break;
         }
@@ -230,21 +297,18 @@ export function serveStatic(options: StaticOptions): Middleware {
     }
 
     // Handle directory
-    if (stat?.isDirectory()) {
+    if (entry?.isDirectory()) {
       // Redirect to add trailing slash
       if (opts.redirect && !ctx.path.endsWith('/')) {
-        const location = ctx.path + '/';
-        ctx.status = 301;
-        ctx.set('Location', location);
-        ctx.raw.res.end();
+        ctx.redirect(ctx.path + '/', 301);
         return;
       }
 
       // Serve index file
       if (opts.index) {
-        const indexPath = join(finalPath, opts.index);
-        const indexStat = await statSafe(indexPath, followSymlinks, root);
-        if (indexStat?.isFile()) {
+        const indexPath = finalPath ? `${finalPath}/${opts.index}` : opts.index;
+        const indexEntry = await storage.stat(indexPath);
+        if (indexEntry?.isFile()) {
           // Check dotfiles for index
           if (isDotfile(indexPath) && opts.dotfiles !== 'allow') {
             return failOrNext(
@@ -255,7 +319,7 @@ export function serveStatic(options: StaticOptions): Middleware {
               fallthrough
             );
           }
-          return sendFile(ctx, indexPath, indexStat, opts);
+          return serveEntry(ctx, indexPath, indexEntry, opts);
         }
       }
 
@@ -264,7 +328,7 @@ export function serveStatic(options: StaticOptions): Middleware {
     }
 
     // Not found
-    if (!stat || !stat.isFile()) {
+    if (!entry || !entry.isFile()) {
       return failOrNext(ctx, next, 404, 'Not Found', fallthrough);
     }
 
@@ -279,7 +343,7 @@ export function serveStatic(options: StaticOptions): Middleware {
     }
 
     // Serve the file
-    return sendFile(ctx, finalPath, stat, opts);
+    return serveEntry(ctx, finalPath, entry, opts);
   };
 
   /**
@@ -291,8 +355,8 @@ export function serveStatic(options: StaticOptions): Middleware {
       return {
         level: 'warn',
         message:
-          `serveStatic({ root: '${root}', dotfiles: 'allow' }) serves dotfiles (.env, ` +
-          '.git/, .htpasswd, …) if present under this root. Confirm the root never ' +
+          `serveStatic({ ${root ? `root: '${root}'` : 'storage'}, dotfiles: 'allow' }) serves ` +
+          'dotfiles (.env, .git/, .htpasswd, …) if present under this root. Confirm the root never ' +
           "contains secrets, or switch to 'ignore'/'deny'.",
       };
     }
@@ -304,7 +368,7 @@ export function serveStatic(options: StaticOptions): Middleware {
     enumerable: false,
   });
 
-  return staticMiddleware as Middleware;
+  return staticMiddleware;
 }
 
 /**
@@ -329,24 +393,24 @@ export const staticFiles = serveStatic;
  */
 export function createSendFile(options: Omit<StaticOptions, 'prefix'>) {
   const opts = normalizeOptions({ ...options, prefix: '' });
-  const { followSymlinks, root } = opts;
+  const { storage } = opts;
 
-  return async function send(ctx: NodeContext, relativePath: string): Promise<boolean> {
-    const absolutePath = safeJoin(root, relativePath);
-    if (!absolutePath) {
+  return async function send(ctx: Context, relativePath: string): Promise<boolean> {
+    const storagePath = toStoragePath(relativePath);
+    if (storagePath === null) {
       return false;
     }
 
-    const stat = await statSafe(absolutePath, followSymlinks, root);
-    if (!stat?.isFile()) {
+    const entry = await storage.stat(storagePath);
+    if (!entry?.isFile()) {
       return false;
     }
 
-    if (isDotfile(absolutePath) && opts.dotfiles !== 'allow') {
+    if (isDotfile(storagePath) && opts.dotfiles !== 'allow') {
       return false;
     }
 
-    await sendFile(ctx, absolutePath, stat, opts);
+    await serveEntry(ctx, storagePath, entry, opts);
     return true;
   };
 }
@@ -8,9 +8,9 @@
  * file: NextRush lost the `static-file` scenario to Express — the only
  * scenario in the comparison matrix where that happens.
  *
- * `serveStatic()` still calls `statSafe()` on every request (freshness is
- * never skipped); this cache only skips *re-deriving* the string fields that
- * map from an unchanged stat result. A cache hit still passes through
+ * `serveStatic()` still stats the file through its storage on every request
+ * (freshness is never skipped); this cache only skips *re-deriving* the
+ * string fields that map from an unchanged stat result. A cache hit still passes through
  * `isFresh()`'s own conditional-request check unchanged.
  *
  * @packageDocumentation
@@ -29,6 +29,7 @@ export interface CachedFileMetadata {
 interface CacheEntry extends CachedFileMetadata {
   readonly size: number;
   readonly mtimeMs: number;
+  readonly storageEtag: string | undefined;
 }
 
 /**
@@ -45,18 +46,30 @@ const cache = new Map<string, CacheEntry>();
 
 /**
  * Get the derived metadata for `absolutePath` at the given `stat`, computing
- * and caching it on a miss. A cache HIT requires an exact match on both
- * `size` and `mtime` — either changing invalidates the entry, so an edited
- * file is never served stale metadata on the very next request.
+ * and caching it on a miss. A cache HIT requires an exact match on `size`,
+ * `mtime` and any storage-supplied `etag` — one changing invalidates the
+ * entry, so an edited file is never served stale metadata on the very next
+ * request.
  *
- * @param absolutePath - The file's resolved path (cache key).
+ * @param absolutePath - The file's storage path (cache key).
  * @param stat - The freshly-taken stat result for this request.
+ * @param encoding - The content coding when `absolutePath` is a precompressed
+ *   variant; folded into the generated ETag. A path always names the same
+ *   coding, so it needs no part in the cache key.
  */
-export function getCachedFileMetadata(absolutePath: string, stat: StatsLike): CachedFileMetadata {
+export function getCachedFileMetadata(
+  absolutePath: string,
+  stat: StatsLike,
+  encoding?: string
+): CachedFileMetadata {
   const mtimeMs = stat.mtime.getTime();
   const existing = cache.get(absolutePath);
 
-  if (existing?.size === stat.size && existing.mtimeMs === mtimeMs) {
+  if (
+    existing?.size === stat.size &&
+    existing.mtimeMs === mtimeMs &&
+    existing.storageEtag === stat.etag
+  ) {
     // Re-insert to move this entry to the end (insertion-order = recency).
     cache.delete(absolutePath);
     cache.set(absolutePath, existing);
@@ -65,10 +78,11 @@ export function getCachedFileMetadata(absolutePath: string, stat: StatsLike): Ca
 
   const entry: CacheEntry = {
     mimeType: getMimeType(absolutePath),
-    etag: generateETag(stat),
+    etag: stat.etag ?? generateETag(stat, encoding),
     lastModifiedString: stat.mtime.toUTCString(),
     size: stat.size,
     mtimeMs,
+    storageEtag: stat.etag,
   };
 
   cache.set(absolutePath, entry);
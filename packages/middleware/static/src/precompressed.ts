@@ -0,0 +1,98 @@
+/**
+ * @nextrush/static - Precompressed variants
+ *
+ * Picks a sibling written at build time (`app.js.br`, `app.js.zst`,
+ * `app.js.gz`) to answer a request for `app.js`, so immutable bundles are
+ * compressed once instead of on every response. Negotiation is local: this
+ * package does not depend on `@nextrush/compression`.
+ *
+ * @packageDocumentation
+ */
+
+import type { Context } from '@nextrush/types';
+import type {
+  PrecompressedEncoding,
+  PrecompressedVariant,
+  StaticEntry,
+  StaticStorage,
+} from './static.types';
+
+/** What `precompressed: true` offers, in server preference order */
+export const PRECOMPRESSED_ENCODINGS: readonly PrecompressedEncoding[] = ['br', 'zstd', 'gzip'];
+
+const EXTENSIONS: Readonly<Record<PrecompressedEncoding, string>> = {
+  br: '.br',
+  zstd: '.zst',
+  gzip: '.gz',
+};
+
+/**
+ * Parse `Accept-Encoding` into coding → quality. A malformed `q` counts as
+ * `0`, so a coding the client named oddly is never forced on it.
+ */
+function parseQualities(header: string): Map<string, number> {
+  const qualities = new Map<string, number>();
+
+  for (const part of header.split(',')) {
+    const [coding = '', ...params] = part.split(';');
+    const name = coding.trim().toLowerCase();
+    if (!name) continue;
+
+    let quality = 1;
+    for (const param of params) {
+      const [key = '', value = ''] = param.split('=');
+      if (key.trim().toLowerCase() === 'q') {
+        const parsed = Number(value.trim());
+        quality = Number.isFinite(parsed) && parsed >= 0 && parsed <= 1 ? parsed : 0;
+      }
+    }
+    qualities.set(name, quality);
+  }
+
+  return qualities;
+}
+
+/**
+ * The offered encodings the client accepts, best first. Ties keep the order
+ * of `offered`; an encoding the client did not name is accepted through `*`.
+ */
+export function acceptableEncodings(
+  header: string,
+  offered: readonly PrecompressedEncoding[]
+): PrecompressedEncoding[] {
+  const qualities = parseQualities(header);
+  const wildcard = qualities.get('*') ?? 0;
+
+  return offered
+    .map((encoding) => ({ encoding, quality: qualities.get(encoding) ?? wildcard }))
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+    .map(({ encoding }) => encoding);
+}
+
+/**
+ * Find the best precompressed sibling of `relativePath` the request accepts,
+ * or `null` to serve the file itself. A sibling older than `source` is
+ * skipped as stale — it was built from an earlier version of the file.
+ */
+export async function findPrecompressed(
+  ctx: Context,
+  storage: StaticStorage,
+  relativePath: string,
+  source: StaticEntry,
+  offered: readonly PrecompressedEncoding[]
+): Promise<PrecompressedVariant | null> {
+  const header = ctx.headers['accept-encoding'];
+  if (typeof header !== 'string' || !header) {
+    return null;
+  }
+
+  for (const encoding of acceptableEncodings(header, offered)) {
+    const entry = await storage.stat(relativePath + EXTENSIONS[encoding]);
+    if (entry?.isFile() && entry.mtime.getTime() >= source.mtime.getTime()) {
+      return { encoding, entry };
+    }
+  }
+
+  return null;
+}
@@ -2,39 +2,66 @@
  * @nextrush/static - File Sending
  *
  * Handles streaming files with proper headers, range requests, and caching.
+ * Responds through `Context` alone, so the same code serves on every adapter;
+ * the bytes come from the configured storage.
  *
  * @packageDocumentation
  */
 
-import * as fsp from 'node:fs/promises';
-import type { FileHandle } from 'node:fs/promises';
+import type { Context } from '@nextrush/types';
 import { getCachedFileMetadata } from './metadata-cache';
-import type { NodeContext, NormalizedStaticOptions, StatsLike } from './static.types';
+import type {
+  NormalizedStaticOptions,
+  PrecompressedVariant,
+  StaticFile,
+  StatsLike,
+} from './static.types';
 import { isFresh, isScriptCapable, parseRange } from './utils';
 
 /**
  * Set common response headers for file serving
+ *
+ * `Content-Length` is left to the caller: it depends on the range and on the
+ * opened file's size. A `304` gets neither it nor `Content-Type`.
  */
 function setFileHeaders(
-  ctx: NodeContext,
+  ctx: Context,
   absolutePath: string,
   stat: StatsLike,
-  options: NormalizedStaticOptions
-): string {
+  options: NormalizedStaticOptions,
+  notModified: boolean,
+  variant: PrecompressedVariant | undefined
+): void {
   // MIME type, ETag, and Last-Modified are all pure functions of `stat` (size
   // + mtime) and the path's extension — cached so an unchanged file skips the
-  // Date formatting and FNV-1a hash on every request. `statSafe()` above this
-  // call still ran, so freshness is never skipped; only the *derivation* of
-  // these three fields is.
+  // Date formatting and FNV-1a hash on every request. The storage lookup
+  // above this call still ran, so freshness is never skipped; only the
+  // *derivation* of these three fields is. A precompressed variant is its own
+  // representation: validators come from it, the type from the source file.
   const cached = getCachedFileMetadata(absolutePath, stat);
+  const served = variant
+    ? getCachedFileMetadata(variant.entry.path, variant.entry, variant.encoding)
+    : cached;
+
+  if (!notModified) {
+    // Content-Type — downgraded to application/octet-stream under untrusted
+    // mode for any script-capable type (SEC-11), regardless of whether this
+    // path came from a direct match, a directory index, or an extension
+    // fallback — sendFile() is the single place every resolution converges.
+    const neutralize = options.untrusted && isScriptCapable(absolutePath);
+    const mimeType = neutralize ? 'application/octet-stream' : cached.mimeType;
+    ctx.set('Content-Type', mimeType);
+
+    if (variant) {
+      ctx.set('Content-Encoding', variant.encoding);
+    }
+  }
 
-  // Content-Type — downgraded to application/octet-stream under untrusted
-  // mode for any script-capable type (SEC-11), regardless of whether this
-  // path came from a direct match, a directory index, or an extension
-  // fallback — sendFile() is the single place every resolution converges.
-  const neutralize = options.untrusted && isScriptCapable(absolutePath);
-  const mimeType = neutralize ? 'application/octet-stream' : cached.mimeType;
-  ctx.set('Content-Type', mimeType);
+  // Whether or not a variant was chosen, the response depends on
+  // Accept-Encoding — caches must key on it, identity responses included.
+  if (options.precompressed.length > 0) {
+    ctx.set('Vary', 'Accept-Encoding');
+  }
 
   if (options.untrusted) {
     ctx.set('Content-Disposition', 'attachment');
@@ -46,19 +73,14 @@ function setFileHeaders(
     ctx.set('X-Content-Type-Options', 'nosniff');
   }
 
-  // Content-Length
-  ctx.set('Content-Length', stat.size);
-
   // Last-Modified
   if (options.lastModified) {
-    ctx.set('Last-Modified', cached.lastModifiedString);
+    ctx.set('Last-Modified', served.lastModifiedString);
   }
 
   // ETag
-  let etag = '';
   if (options.etag) {
-    etag = cached.etag;
-    ctx.set('ETag', etag);
+    ctx.set('ETag', served.etag);
   }
 
   // Accept-Ranges
@@ -74,10 +96,8 @@ function setFileHeaders(
 
   // Custom headers hook
   if (options.setHeaders) {
-    options.setHeaders(ctx, absolutePath, stat);
+    options.setHeaders(ctx, absolutePath, variant?.entry ?? stat);
   }
-
-  return etag;
 }
 
 /**
@@ -88,172 +108,157 @@ function setFileHeaders(
  * - Range requests (206 Partial Content)
  * - HEAD requests
  * - Full file streaming
- * - TOCTOU-safe reads (SEC-13): a single descriptor is opened for the
- *   request and every subsequent operation (size verification, read,
- *   stream) uses that same descriptor rather than re-resolving `absolutePath`
+ * - TOCTOU-safe reads (SEC-13): the file is opened once for the request
+ *   and every subsequent operation (size verification, read, stream) goes
+ *   through what the storage opened rather than re-resolving `absolutePath`
  *   by name, so a symlink swapped in after the safety check cannot be
  *   followed.
+ * - Precompressed variants: the variant's bytes are sent, with its own
+ *   validators, length and ranges, under the source file's type.
+ *
+ * @param absolutePath - The storage path of the file, from its `stat()`.
+ * @param variant - A precompressed sibling to send in the file's place.
  */
 export async function sendFile(
-  ctx: NodeContext,
+  ctx: Context,
   absolutePath: string,
   stat: StatsLike,
-  options: NormalizedStaticOptions
+  options: NormalizedStaticOptions,
+  variant?: PrecompressedVariant
 ): Promise<void> {
-  const etag = setFileHeaders(ctx, absolutePath, stat, options);
+  const sentPath = variant ? variant.entry.path : absolutePath;
+  const sentStat = variant ? variant.entry : stat;
 
   // Handle conditional requests (304)
-  if (options.etag || options.lastModified) {
-    if (isFresh(ctx, stat, etag)) {
-      ctx.status = 304;
-      // Remove content headers for 304
-      ctx.raw.res.removeHeader('Content-Type');
-      ctx.raw.res.removeHeader('Content-Length');
-      ctx.raw.res.end();
-      return;
-    }
+  const etag = options.etag
+    ? getCachedFileMetadata(sentPath, sentStat, variant?.encoding).etag
+    : '';
+  const notModified = (options.etag || options.lastModified) && isFresh(ctx, sentStat, etag);
+
+  setFileHeaders(ctx, absolutePath, stat, options, notModified, variant);
+
+  if (notModified) {
+    ctx.status = 304;
+    ctx.send(null);
+    return;
   }
 
   // Open exactly once for the request (SEC-13); every branch below reads
-  // from this handle, never from `absolutePath` again.
-  const handle = await fsp.open(absolutePath, 'r');
+  // from this file, never from `absolutePath` again. Its size, not the
+  // earlier stat's, is authoritative if the file changed in between.
+  const file = await options.storage.open(sentPath);
+  let streaming = false;
 
   try {
     // Handle range requests
     const rangeHeader = ctx.headers.range;
     if (options.acceptRanges && typeof rangeHeader === 'string') {
-      const range = parseRange(rangeHeader, stat.size);
+      const range = parseRange(rangeHeader, file.size);
 
       if (range) {
         // Valid range - send partial content
         const { start, end } = range;
-        const contentLength = end - start + 1;
 
         ctx.status = 206;
-        ctx.set('Content-Range', `bytes ${String(start)}-${String(end)}/${String(stat.size)}`);
-        ctx.set('Content-Length', contentLength);
+        ctx.set('Content-Range', `bytes ${String(start)}-${String(end)}/${String(file.size)}`);
+        ctx.set('Content-Length', end - start + 1);
 
         // HEAD request - just headers
         if (ctx.method === 'HEAD') {
-          ctx.raw.res.end();
+          ctx.send(null);
           return;
         }
 
-        // Stream partial content from the already-open descriptor.
-        const stream = handle.createReadStream({ start, end });
-        await streamToResponse(ctx, stream, options.streamTimeout);
+        streaming = true;
+        await sendBody(ctx, file.stream(range), options.streamTimeout);
         return;
       }
 
       // Unsatisfiable range
       ctx.status = 416;
-      ctx.set('Content-Range', `bytes */${String(stat.size)}`);
-      ctx.raw.res.removeHeader('Content-Length');
-      ctx.raw.res.end();
+      ctx.set('Content-Range', `bytes */${String(file.size)}`);
+      ctx.send(null);
       return;
     }
 
+    ctx.set('Content-Length', file.size);
+
     // HEAD request - just headers
     if (ctx.method === 'HEAD') {
-      ctx.raw.res.end();
+      ctx.send(null);
       return;
     }
 
-    // Small files - read entire content with TOCTOU-safe fstat verification
-    if (stat.size <= options.highWaterMark) {
-      const fstat = await handle.stat();
-      const content = await handle.readFile();
-
-      // Update Content-Length if the descriptor's own size differs from the
-      // pre-open stat (file grew/shrank between the safety check and open —
-      // the descriptor's view, not the stale stat, is authoritative).
-      if (fstat.size !== stat.size || content.length !== fstat.size) {
-        ctx.set('Content-Length', content.length);
-      }
-
-      ctx.raw.res.end(content);
+    // Small files - one read
+    if (file.size <= options.highWaterMark) {
+      ctx.send(await file.bytes());
       return;
     }
 
-    // Large files - stream from the already-open descriptor
-    const stream = handle.createReadStream();
-    await streamToResponse(ctx, stream, options.streamTimeout);
+    // Large files - stream
+    streaming = true;
+    await sendBody(ctx, file.stream(), options.streamTimeout);
   } finally {
-    // streamToResponse's own stream (fd-backed) closes the descriptor when
-    // it ends/errors; the small-file and HEAD/range-rejection paths never
-    // hand the handle to a stream, so they must close it here. A
-    // double-close is a no-op on a FileHandle.
-    await handle.close().catch(() => {
-      /* already closed by the stream, or never opened past this point */
-    });
+    // A stream closes the file itself when it ends, errors or is cancelled —
+    // on the Web adapters that is after this function has returned.
+    if (!streaming) {
+      await closeFile(file);
+    }
   }
 }
 
+function closeFile(file: StaticFile): Promise<void> {
+  return file.close().catch(() => {
+    /* nothing left to release */
+  });
+}
+
 /**
- * Stream file to response with error handling and timeout
+ * Stream `body` as the response, erroring it if it is still streaming after
+ * `timeout` ms.
+ *
+ * `sendStream()` resolves once the body is flushed on Node and once it is
+ * wired on the Web adapters, so a timeout rejects here on Node and, on the
+ * Web adapters, aborts the response the runtime is already sending.
  */
-function streamToResponse(
-  ctx: NodeContext,
-  stream: ReturnType<FileHandle['createReadStream']>,
+async function sendBody(
+  ctx: Context,
+  body: ReadableStream<Uint8Array>,
   timeout: number
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
-    let settled = false;
+  await ctx.sendStream(timeout > 0 ? withDeadline(body, timeout) : body);
+}
 
-    const cleanup = () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-        timeoutId = undefined;
-      }
-    };
+function withDeadline(body: ReadableStream<Uint8Array>, timeout: number): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
-    const settle = (fn: () => void) => {
-      if (!settled) {
-        settled = true;
-        cleanup();
-        fn();
-      }
-    };
-
-    // Set up timeout if configured
-    if (timeout > 0) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
       timeoutId = setTimeout(() => {
-        settle(() => {
-          stream.destroy();
-          if (!ctx.raw.res.headersSent) {
-            ctx.status = 504; // Gateway Timeout
-            ctx.raw.res.end();
-          }
-          reject(new Error('Stream timeout'));
-        });
+        const error = new Error('Stream timeout');
+        controller.error(error);
+        void reader.cancel(error).catch((): undefined => undefined);
       }, timeout);
-    }
-
-    stream.on('error', (err) => {
-      settle(() => {
-        // Only set error if headers not sent
-        if (!ctx.raw.res.headersSent) {
-          ctx.status = 500;
-          ctx.raw.res.end();
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          clearTimeout(timeoutId);
+          controller.close();
+        } else {
+          controller.enqueue(value);
         }
-        reject(err);
-      });
-    });
-
-    stream.on('end', () => {
-      settle(resolve);
-    });
-
-    // Handle client disconnect
-    ctx.raw.res.on('close', () => {
-      if (!settled) {
-        stream.destroy();
-        settle(resolve);
+      } catch (error) {
+        clearTimeout(timeoutId);
+        // A no-op once the deadline has already errored the stream.
+        controller.error(error);
       }
-    });
-
-    // Pipe stream to response
-    stream.pipe(ctx.raw.res);
+    },
+    cancel(reason) {
+      clearTimeout(timeoutId);
+      return reader.cancel(reason);
+    },
   });
 }
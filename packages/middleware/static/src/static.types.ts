@@ -11,6 +11,8 @@ import type { IncomingMessage, ServerResponse } from 'node:http';
 
 /**
  * Node.js specific context with typed raw HTTP objects
+ *
+ * Not needed by the middleware, which runs on every adapter through `Context`.
  */
 export interface NodeContext extends Context {
   readonly raw: {
@@ -33,6 +35,12 @@ export type NodeMiddleware = (ctx: NodeContext, next: Next) => void | Promise<vo
  */
 export type DotfilesPolicy = 'ignore' | 'deny' | 'allow';
 
+/**
+ * Content codings a precompressed sibling file can carry, found by extension:
+ * `br` as `file.br`, `zstd` as `file.zst`, `gzip` as `file.gz`
+ */
+export type PrecompressedEncoding = 'br' | 'zstd' | 'gzip';
+
 /**
  * File system stats-like interface
  */
@@ -45,6 +53,74 @@ export interface StatsLike {
   isFile(): boolean;
   /** Check if entry is a directory */
   isDirectory(): boolean;
+  /**
+   * Validator supplied by the storage (e.g. a content hash from an asset
+   * manifest). Used as the `ETag` verbatim instead of the derived weak one.
+   */
+  etag?: string;
+}
+
+/**
+ * An entry a {@link StaticStorage} found
+ */
+export interface StaticEntry extends StatsLike {
+  /**
+   * Where the storage keeps the entry — an absolute filesystem path, or the
+   * asset key. Passed back to `open()`, to `setHeaders`, and used as the
+   * metadata cache key.
+   */
+  readonly path: string;
+}
+
+/**
+ * A precompressed sibling chosen to answer a request in place of its source
+ */
+export interface PrecompressedVariant {
+  /** The `Content-Encoding` the variant is served with */
+  readonly encoding: PrecompressedEncoding;
+  /** The sibling file, as the storage found it */
+  readonly entry: StaticEntry;
+}
+
+/**
+ * A file opened for one response
+ *
+ * Everything is read from what `open()` returned, never by name again, so a
+ * file swapped after the lookup cannot be served in its place (SEC-13).
+ */
+export interface StaticFile {
+  /** Size of the opened file — authoritative over the earlier lookup */
+  readonly size: number;
+  /** Read the whole file */
+  bytes(): Promise<Uint8Array>;
+  /**
+   * Stream the file, or the inclusive byte `range` of it. The file is closed
+   * when the stream ends, errors or is cancelled.
+   */
+  stream(range?: RangeResult): ReadableStream<Uint8Array>;
+  /** Release the file. Safe to call more than once. */
+  close(): Promise<void>;
+}
+
+/**
+ * Where static files are read from
+ *
+ * The middleware owns the HTTP semantics (ETag, ranges, dotfiles, untrusted
+ * mode); a storage only finds and reads bytes. Built in: `nodeStorage`,
+ * `bunStorage`, `denoStorage`, `memoryStorage` and `manifestStorage`.
+ */
+export interface StaticStorage {
+  /**
+   * Look up a path relative to the storage root. `path` is `/`-separated,
+   * without a leading slash, and has no empty, `.` or `..` segments (`''`
+   * is the root). Resolves `null` when nothing is there, or when the storage
+   * refuses the entry (e.g. a symlink leaving the root).
+   */
+  stat(path: string): Promise<StaticEntry | null>;
+  /**
+   * Open an entry `stat()` returned, by its `path`. Rejects if it has gone.
+   */
+  open(path: string): Promise<StaticFile>;
 }
 
 /**
@@ -52,10 +128,17 @@ export interface StatsLike {
  */
 export interface StaticOptions {
   /**
-   * Root directory to serve files from (absolute path)
-   * @required
+   * Root directory to serve files from, read through the filesystem of the
+   * runtime (`nodeStorage`, `bunStorage` or `denoStorage`).
+   * Either `root` or `storage` is required.
    */
-  root: string;
+  root?: string;
+
+  /**
+   * Where files are read from, instead of a `root` directory — e.g.
+   * `memoryStorage()` or `manifestStorage()` on runtimes without a filesystem.
+   */
+  storage?: StaticStorage;
 
   /**
    * URL prefix to mount under
@@ -110,11 +193,25 @@ export interface StaticOptions {
    */
   extensions?: string[];
 
+  /**
+   * Serve a precompressed sibling (`file.br`, `file.zst`, `file.gz`) in place
+   * of the file when the request's `Accept-Encoding` allows it. `true` offers
+   * `['br', 'zstd', 'gzip']`; a list offers those, preferred in that order
+   * when the client ranks them equally. Responses then carry
+   * `Vary: Accept-Encoding`, and the variant's own ETag, length and ranges.
+   * A variant older than its source is ignored. Write them with
+   * `nextrush build --precompress <dir>`.
+   * @default false
+   */
+  precompressed?: boolean | readonly PrecompressedEncoding[];
+
   /**
    * Custom headers hook
-   * Called before sending file to customize headers
+   * Called before sending file to customize headers. `absolutePath` is the
+   * storage's path for the file; `stat` describes the bytes being sent, which
+   * are a precompressed variant's when one was chosen.
    */
-  setHeaders?: (ctx: NodeContext, absolutePath: string, stat: StatsLike) => void;
+  setHeaders?: (ctx: Context, absolutePath: string, stat: StatsLike) => void;
 
   /**
    * Enable ETag generation for conditional requests
@@ -144,6 +241,7 @@ export interface StaticOptions {
    * Follow symbolic links
    * When false (default), symlinks are not followed and return 404
    * When true, symlinks are resolved but destination must still be within root
+   * Applies to the `root` filesystem storage; a custom `storage` has its own.
    * @default false
    * @security Set to true only if you trust all content in the root directory
    */
@@ -173,7 +271,8 @@ export interface StaticOptions {
   untrusted?: boolean;
 
   /**
-   * Timeout for streaming operations in milliseconds
+   * Timeout for streaming operations in milliseconds. A body still streaming
+   * when it expires is errored, which aborts the response.
    * Set to 0 to disable timeout
    * @default 30000 (30 seconds)
    */
@@ -184,7 +283,9 @@ export interface StaticOptions {
  * Normalized options with defaults applied
  */
 export interface NormalizedStaticOptions {
+  /** The `root` option, or `''` when a `storage` was given */
   root: string;
+  storage: StaticStorage;
   prefix: string;
   index: string | false;
   fallthrough: boolean;
@@ -200,7 +301,9 @@ export interface NormalizedStaticOptions {
   cacheControlValue: string;
   dotfiles: DotfilesPolicy;
   extensions: string[];
-  setHeaders?: (ctx: NodeContext, absolutePath: string, stat: StatsLike) => void;
+  /** Encodings offered from precompressed siblings, in preference order; empty when off */
+  precompressed: readonly PrecompressedEncoding[];
+  setHeaders?: (ctx: Context, absolutePath: string, stat: StatsLike) => void;
   etag: boolean;
   lastModified: boolean;
   acceptRanges: boolean;
@@ -0,0 +1,79 @@
+/**
+ * @nextrush/static - Bun Storage
+ *
+ * Reads a root directory with `Bun.file()`. Lookups go through Bun's native
+ * `node:fs/promises`, which has no `Bun.*` equivalent for `lstat`/`realpath`.
+ *
+ * @packageDocumentation
+ */
+
+import type { StaticStorage } from '../static.types';
+import { createFileStorage, type FileStorageOptions, type FileSystem } from './file';
+import { fromNodeFs } from './node';
+import { closeOnce, sliceStream } from './streams';
+
+/** The part of `BunFile` this storage reads with. */
+interface BunFile {
+  slice(begin: number, end: number): BunFile;
+  stream(): ReadableStream<Uint8Array>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+interface BunGlobal {
+  file(fd: number): BunFile;
+}
+
+function getBun(): BunGlobal {
+  const bun = (globalThis as { Bun?: BunGlobal }).Bun;
+  if (!bun) {
+    throw new Error('[static] bunStorage() needs the Bun runtime');
+  }
+  return bun;
+}
+
+async function loadBunFileSystem(bun: BunGlobal): Promise<FileSystem> {
+  const fsp = await import('node:fs/promises');
+  const lookups = fromNodeFs(fsp);
+
+  return {
+    ...lookups,
+
+    async open(path) {
+      // `Bun.file(fd)` reads the descriptor opened here, not `path` (SEC-13).
+      const handle = await fsp.open(path, 'r');
+      const close = closeOnce(() => handle.close());
+
+      try {
+        const { size } = await handle.stat();
+        const file = bun.file(handle.fd);
+
+        return {
+          size,
+          bytes: async () => new Uint8Array(await file.arrayBuffer()),
+          stream: (range) =>
+            sliceStream(
+              range ? file.slice(range.start, range.end + 1).stream() : file.stream(),
+              undefined,
+              close
+            ),
+          close,
+        };
+      } catch (error) {
+        await close();
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Serve the directory `root` with `Bun.file()`.
+ *
+ * The default storage for `serveStatic({ root })` on Bun.
+ *
+ * @throws {Error} Outside the Bun runtime.
+ */
+export function bunStorage(root: string, options: FileStorageOptions = {}): StaticStorage {
+  const bun = getBun();
+  return createFileStorage(root, options, () => loadBunFileSystem(bun));
+}
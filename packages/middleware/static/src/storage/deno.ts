@@ -0,0 +1,101 @@
+/**
+ * @nextrush/static - Deno Storage
+ *
+ * Reads a root directory with `Deno.open()` and friends, so serving files
+ * needs only `--allow-read`.
+ *
+ * @packageDocumentation
+ */
+
+import type { StaticStorage } from '../static.types';
+import { createFileStorage, type FileInfo, type FileStorageOptions, type FileSystem } from './file';
+import { closeOnce, readAll, readRange, type ReadAt } from './streams';
+
+/** The parts of the `Deno` namespace this storage reads with. */
+interface DenoFileInfo {
+  size: number;
+  mtime: Date | null;
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymlink: boolean;
+}
+
+interface DenoFsFile {
+  stat(): Promise<DenoFileInfo>;
+  seek(offset: number, whence: number): Promise<number>;
+  read(buffer: Uint8Array): Promise<number | null>;
+  close(): void;
+}
+
+interface DenoGlobal {
+  lstat(path: string): Promise<DenoFileInfo>;
+  stat(path: string): Promise<DenoFileInfo>;
+  realPath(path: string): Promise<string>;
+  open(path: string, options: { read: true }): Promise<DenoFsFile>;
+  SeekMode: { Start: number };
+}
+
+function getDeno(): DenoGlobal {
+  const deno = (globalThis as { Deno?: DenoGlobal }).Deno;
+  if (!deno) {
+    throw new Error('[static] denoStorage() needs the Deno runtime');
+  }
+  return deno;
+}
+
+function toFileInfo(info: DenoFileInfo): FileInfo {
+  return {
+    size: info.size,
+    mtime: info.mtime ?? new Date(0),
+    isFile: info.isFile,
+    isDirectory: info.isDirectory,
+    isSymlink: info.isSymlink,
+  };
+}
+
+function denoFileSystem(deno: DenoGlobal): FileSystem {
+  return {
+    lstat: async (path) => toFileInfo(await deno.lstat(path)),
+    stat: async (path) => toFileInfo(await deno.stat(path)),
+    realpath: (path) => deno.realPath(path),
+
+    async open(path) {
+      // Reads seek the file opened here rather than reopening `path` (SEC-13).
+      const file = await deno.open(path, { read: true });
+      const close = closeOnce(() => {
+        file.close();
+      });
+
+      try {
+        const { size } = await file.stat();
+        const read: ReadAt = async (buffer, position) => {
+          await file.seek(position, deno.SeekMode.Start);
+          return (await file.read(buffer)) ?? 0;
+        };
+
+        return {
+          size,
+          bytes: () => readAll(read, size),
+          stream: (range = { start: 0, end: size - 1 }) => readRange(read, range, close),
+          close,
+        };
+      } catch (error) {
+        await close();
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Serve the directory `root` with the `Deno` file APIs.
+ *
+ * The default storage for `serveStatic({ root })` on Deno.
+ *
+ * @throws {Error} Outside the Deno runtime.
+ */
+export function denoStorage(root: string, options: FileStorageOptions = {}): StaticStorage {
+  const deno = getDeno();
+  const fs = denoFileSystem(deno);
+  return createFileStorage(root, options, () => Promise.resolve(fs));
+}
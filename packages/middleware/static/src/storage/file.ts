@@ -0,0 +1,134 @@
+/**
+ * @nextrush/static - Root Directory Storage
+ *
+ * The part of `nodeStorage`, `bunStorage` and `denoStorage` that does not
+ * depend on the runtime: resolving the root, containing paths within it, and
+ * the symlink policy. Each runtime only supplies a {@link FileSystem}.
+ *
+ * `node:path` is imported on first use rather than at module load, so an
+ * edge bundle that only uses `memoryStorage()` never evaluates it. Node, Bun
+ * and Deno all provide it.
+ *
+ * @packageDocumentation
+ */
+
+import type { StaticFile, StaticStorage, StatsLike } from '../static.types';
+import { safeJoin } from '../utils';
+
+/** One entry as a runtime's filesystem reports it. */
+export interface FileInfo {
+  size: number;
+  mtime: Date;
+  isFile: boolean;
+  isDirectory: boolean;
+  isSymlink: boolean;
+}
+
+/** The filesystem calls a root-directory storage makes. */
+export interface FileSystem {
+  /** Stat without following a final symlink */
+  lstat(path: string): Promise<FileInfo>;
+  stat(path: string): Promise<FileInfo>;
+  realpath(path: string): Promise<string>;
+  /** Open for reading; every later read goes through what this returns */
+  open(path: string): Promise<StaticFile>;
+}
+
+/**
+ * Options for the root-directory storages
+ */
+export interface FileStorageOptions {
+  /**
+   * Follow symbolic links whose target stays within the root
+   * @default false
+   */
+  followSymlinks?: boolean;
+}
+
+interface Mount {
+  fs: FileSystem;
+  root: string;
+  separator: string;
+}
+
+function toStats(info: FileInfo): StatsLike {
+  return {
+    size: info.size,
+    mtime: info.mtime,
+    isFile: () => info.isFile,
+    isDirectory: () => info.isDirectory,
+  };
+}
+
+/**
+ * Stat `path`, refusing a symlink unless `followSymlinks` is set and its
+ * target is within `root`. Resolves null on any error.
+ *
+ * @param root - Absolute root; without one every symlink is refused.
+ */
+export async function statWithin(
+  fs: FileSystem,
+  path: string,
+  followSymlinks: boolean,
+  root: string | undefined,
+  separator: string
+): Promise<StatsLike | null> {
+  try {
+    const info = await fs.lstat(path);
+    if (!info.isSymlink) {
+      return toStats(info);
+    }
+
+    if (!followSymlinks || root === undefined) {
+      return null;
+    }
+
+    const target = await fs.realpath(path);
+    if (target !== root && !target.startsWith(root + separator)) {
+      // Symlink points outside root - security violation
+      return null;
+    }
+
+    return toStats(await fs.stat(path));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A storage serving the directory `root` through `loadFileSystem()`, which is
+ * called once, on the first request.
+ */
+export function createFileStorage(
+  root: string,
+  options: FileStorageOptions,
+  loadFileSystem: () => Promise<FileSystem>
+): StaticStorage {
+  const followSymlinks = options.followSymlinks ?? false;
+  let mounted: Promise<Mount> | undefined;
+
+  const mount = (): Promise<Mount> =>
+    (mounted ??= Promise.all([loadFileSystem(), import('node:path')]).then(([fs, path]) => ({
+      fs,
+      root: path.resolve(root),
+      separator: path.sep,
+    })));
+
+  return {
+    async stat(relativePath) {
+      const { fs, root: absoluteRoot, separator } = await mount();
+      const absolutePath = safeJoin(absoluteRoot, relativePath);
+      if (!absolutePath) {
+        return null;
+      }
+
+      const stat = await statWithin(fs, absolutePath, followSymlinks, absoluteRoot, separator);
+      return stat && { ...stat, path: absolutePath };
+    },
+
+    async open(absolutePath) {
+      const { fs } = await mount();
+      return fs.open(absolutePath);
+    },
+  };
+}
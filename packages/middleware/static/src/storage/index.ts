@@ -0,0 +1,40 @@
+import type { StaticStorage } from '../static.types';
+import { bunStorage } from './bun';
+import { denoStorage } from './deno';
+import type { FileStorageOptions } from './file';
+import { nodeStorage } from './node';
+
+export { bunStorage } from './bun';
+export { denoStorage } from './deno';
+export type { FileStorageOptions } from './file';
+export {
+  manifestStorage,
+  type AssetBody,
+  type AssetManifest,
+  type AssetManifestEntry,
+  type ManifestStorageOptions,
+} from './manifest';
+export { memoryStorage, type MemoryFile, type MemoryStorageOptions } from './memory';
+export { nodeStorage, statSafe } from './node';
+
+/**
+ * The storage `serveStatic({ root })` reads `root` with on this runtime.
+ *
+ * @throws {Error} On a runtime without a filesystem (Workers, Vercel Edge).
+ */
+export function runtimeStorage(root: string, options: FileStorageOptions): StaticStorage {
+  const runtime = globalThis as {
+    Bun?: unknown;
+    Deno?: unknown;
+    process?: { versions?: { node?: string } };
+  };
+
+  if (runtime.Bun !== undefined) return bunStorage(root, options);
+  if (runtime.Deno !== undefined) return denoStorage(root, options);
+  if (typeof runtime.process?.versions?.node === 'string') return nodeStorage(root, options);
+
+  throw new Error(
+    '[static] "root" needs a filesystem, which this runtime lacks — ' +
+      'pass "storage" (memoryStorage() or manifestStorage()) instead'
+  );
+}
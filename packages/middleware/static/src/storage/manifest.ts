@@ -0,0 +1,145 @@
+/**
+ * @nextrush/static - Asset Manifest Storage
+ *
+ * Serves assets listed in a manifest generated at build time, reading each
+ * one through a caller-supplied loader — a KV namespace, an assets binding,
+ * an object store. Sizes, dates and validators come from the manifest, so
+ * lookups, `304`s and `HEAD`s never touch the backing store.
+ *
+ * @packageDocumentation
+ */
+
+import type { StaticStorage } from '../static.types';
+import {
+  bytesFile,
+  currentSecond,
+  directoryEntry,
+  parentDirectories,
+  toAssetPath,
+  toBytes,
+} from './memory';
+import { closeOnce, collect, sliceStream } from './streams';
+
+/**
+ * One asset in a manifest
+ */
+export interface AssetManifestEntry {
+  /** Size in bytes */
+  size: number;
+  /**
+   * Last modification time (a `Date`, an ISO string or epoch milliseconds)
+   * @default When the storage was created, to the second
+   */
+  mtime?: Date | string | number;
+  /**
+   * A complete `ETag` value, quotes included — e.g. a content hash as
+   * `'"5d41402a"'`. Replaces the ETag derived from size and mtime.
+   */
+  etag?: string;
+}
+
+/** Asset entries keyed by their path under the root. */
+export type AssetManifest = Record<string, AssetManifestEntry>;
+
+/** An asset's content, as a manifest loader returns it; strings are encoded as UTF-8. */
+export type AssetBody = ReadableStream<Uint8Array> | Uint8Array | ArrayBuffer | string;
+
+/**
+ * Options for {@link manifestStorage}
+ */
+export interface ManifestStorageOptions {
+  /** The assets that exist, and their metadata */
+  manifest: AssetManifest;
+  /**
+   * Read one asset, by its path as normalized from the manifest key (no
+   * leading slash). Called once per response that sends a body; resolve
+   * `null` when the asset is gone.
+   */
+  load(path: string): Promise<AssetBody | null | undefined>;
+}
+
+function toDate(value: AssetManifestEntry['mtime'], path: string, fallback: Date): Date {
+  if (value === undefined) return fallback;
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError(`[static] manifestStorage(): invalid mtime for "${path}"`);
+  }
+  return date;
+}
+
+/**
+ * Serve the assets of a build-time manifest, loading their content on demand.
+ *
+ * @throws {TypeError} For an invalid path, size or mtime in the manifest.
+ *
+ * @example
+ * ```typescript
+ * import manifest from './static-manifest.json';
+ *
+ * app.use(serveStatic({
+ *   storage: manifestStorage({
+ *     manifest,
+ *     load: async (path) => {
+ *       const res = await fetch(`${ASSET_ORIGIN}/${path}`);
+ *       return res.ok ? res.body : null;
+ *     },
+ *   }),
+ * }));
+ * ```
+ */
+export function manifestStorage(options: ManifestStorageOptions): StaticStorage {
+  const created = currentSecond();
+  const assets = new Map<string, { size: number; mtime: Date; etag?: string }>();
+  const directories = new Set<string>(['']);
+
+  for (const [key, entry] of Object.entries(options.manifest)) {
+    const path = toAssetPath(key, 'manifestStorage');
+    if (!Number.isSafeInteger(entry.size) || entry.size < 0) {
+      throw new TypeError(`[static] manifestStorage(): invalid size for "${key}"`);
+    }
+    assets.set(path, {
+      size: entry.size,
+      mtime: toDate(entry.mtime, key, created),
+      ...(entry.etag !== undefined && { etag: entry.etag }),
+    });
+    for (const directory of parentDirectories(path)) directories.add(directory);
+  }
+
+  return {
+    stat(path) {
+      const asset = assets.get(path);
+      if (asset) {
+        return Promise.resolve({
+          ...asset,
+          path: `/${path}`,
+          isFile: () => true,
+          isDirectory: () => false,
+        });
+      }
+      return Promise.resolve(directories.has(path) ? directoryEntry(path, created) : null);
+    },
+
+    async open(path) {
+      const key = path.slice(1);
+      const asset = assets.get(key);
+      const body = asset ? await options.load(key) : undefined;
+      if (!asset || body === undefined || body === null) {
+        throw new Error(`[static] could not load asset "${key}"`);
+      }
+
+      if (!(body instanceof ReadableStream)) {
+        return bytesFile(toBytes(body));
+      }
+
+      // A stream can be read once: whichever of bytes() and stream() runs
+      // first consumes it.
+      const close = closeOnce(() => body.cancel());
+      return {
+        size: asset.size,
+        bytes: () => collect(body),
+        stream: (range) => sliceStream(body, range, close),
+        close,
+      };
+    },
+  };
+}
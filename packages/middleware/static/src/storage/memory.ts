@@ -0,0 +1,134 @@
+/**
+ * @nextrush/static - Memory Storage
+ *
+ * Serves files held in memory — for edge bundles that inline their assets,
+ * and for tests. Works on every runtime.
+ *
+ * @packageDocumentation
+ */
+
+import type { StaticEntry, StaticFile, StaticStorage } from '../static.types';
+import { toStoragePath } from '../utils';
+import { bytesStream } from './streams';
+
+/** The content of one in-memory file; strings are encoded as UTF-8. */
+export type MemoryFile = string | Uint8Array | ArrayBuffer;
+
+/**
+ * Options for {@link memoryStorage}
+ */
+export interface MemoryStorageOptions {
+  /**
+   * Modification time reported for every file
+   * @default When the storage was created, to the second
+   */
+  mtime?: Date;
+}
+
+const encoder = new TextEncoder();
+
+/** Now, truncated to what `Last-Modified` can carry. */
+export function currentSecond(): Date {
+  return new Date(Math.floor(Date.now() / 1000) * 1000);
+}
+
+/** Normalize a path given to a storage factory, or throw. */
+export function toAssetPath(path: string, factory: string): string {
+  const normalized = toStoragePath(path);
+  if (!normalized) {
+    throw new TypeError(`[static] ${factory}(): invalid file path "${path}"`);
+  }
+  return normalized;
+}
+
+/** File content as bytes. */
+export function toBytes(content: MemoryFile): Uint8Array {
+  if (typeof content === 'string') return encoder.encode(content);
+  return content instanceof ArrayBuffer ? new Uint8Array(content) : content;
+}
+
+/** An open file over bytes already in memory. */
+export function bytesFile(bytes: Uint8Array): StaticFile {
+  return {
+    size: bytes.length,
+    bytes: () => Promise.resolve(bytes),
+    stream: (range) => bytesStream(bytes, range),
+    close: () => Promise.resolve(),
+  };
+}
+
+/** Every directory above `path`, root (`''`) excluded. */
+export function parentDirectories(path: string): string[] {
+  const directories: string[] = [];
+  for (let slash = path.indexOf('/'); slash !== -1; slash = path.indexOf('/', slash + 1)) {
+    directories.push(path.slice(0, slash));
+  }
+  return directories;
+}
+
+/** The entry for a directory implied by file paths. */
+export function directoryEntry(path: string, mtime: Date): StaticEntry {
+  return {
+    path: `/${path}`,
+    size: 0,
+    mtime,
+    isFile: () => false,
+    isDirectory: () => true,
+  };
+}
+
+/**
+ * Serve files from memory, keyed by their path under the root.
+ *
+ * Directories are implied by the paths, so `'docs/index.html'` makes `/docs/`
+ * serve its index.
+ *
+ * @throws {TypeError} For a path with a `..` segment or a NUL byte.
+ *
+ * @example
+ * ```typescript
+ * app.use(serveStatic({
+ *   storage: memoryStorage({
+ *     'index.html': '<h1>Hello</h1>',
+ *     'logo.png': logoBytes,
+ *   }),
+ * }));
+ * ```
+ */
+export function memoryStorage(
+  files: Record<string, MemoryFile>,
+  options: MemoryStorageOptions = {}
+): StaticStorage {
+  const mtime = options.mtime ?? currentSecond();
+  const contents = new Map<string, Uint8Array>();
+  const directories = new Set<string>(['']);
+
+  for (const [key, content] of Object.entries(files)) {
+    const path = toAssetPath(key, 'memoryStorage');
+    contents.set(path, toBytes(content));
+    for (const directory of parentDirectories(path)) directories.add(directory);
+  }
+
+  return {
+    stat(path) {
+      const bytes = contents.get(path);
+      if (bytes) {
+        return Promise.resolve({
+          path: `/${path}`,
+          size: bytes.length,
+          mtime,
+          isFile: () => true,
+          isDirectory: () => false,
+        });
+      }
+      return Promise.resolve(directories.has(path) ? directoryEntry(path, mtime) : null);
+    },
+
+    open(path) {
+      const bytes = contents.get(path.slice(1));
+      return bytes
+        ? Promise.resolve(bytesFile(bytes))
+        : Promise.reject(new Error(`[static] no file at "${path}"`));
+    },
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * @nextrush/static - Storage Stream Helpers
+ *
+ * Web `ReadableStream` plumbing shared by the storages: every storage hands
+ * the middleware the same stream type, whatever its runtime reads with.
+ *
+ * @packageDocumentation
+ */
+
+import type { RangeResult } from '../static.types';
+
+/** Bytes pulled per read — the size of a Node file stream's chunks. */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Positional read: fill `buffer` from `position`, resolving the number of
+ * bytes read (0 at end of file).
+ */
+export type ReadAt = (buffer: Uint8Array, position: number) => Promise<number>;
+
+/**
+ * Wrap `close` so it runs once, and never rejects.
+ */
+export function closeOnce(close: () => unknown): () => Promise<void> {
+  let closing: Promise<void> | undefined;
+  return () =>
+    (closing ??= Promise.resolve()
+      .then(close)
+      .then(
+        () => undefined,
+        () => undefined
+      ));
+}
+
+/**
+ * Stream `range` of an open file with positional reads, pulled chunk by
+ * chunk so a slow client never buffers more than one chunk ahead.
+ */
+export function readRange(
+  read: ReadAt,
+  range: RangeResult,
+  close: () => Promise<void>
+): ReadableStream<Uint8Array> {
+  let position = range.start;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const remaining = range.end - position + 1;
+      if (remaining <= 0) {
+        await close();
+        controller.close();
+        return;
+      }
+
+      const buffer = new Uint8Array(Math.min(CHUNK_SIZE, remaining));
+      let bytesRead: number;
+      try {
+        bytesRead = await read(buffer, position);
+      } catch (error) {
+        await close();
+        controller.error(error);
+        return;
+      }
+
+      // The file shrank after it was opened: end early rather than spin.
+      if (bytesRead === 0) {
+        await close();
+        controller.close();
+        return;
+      }
+
+      position += bytesRead;
+      controller.enqueue(bytesRead === buffer.length ? buffer : buffer.subarray(0, bytesRead));
+    },
+    async cancel() {
+      await close();
+    },
+  });
+}
+
+/**
+ * Read `size` bytes of an open file from the start.
+ */
+export async function readAll(read: ReadAt, size: number): Promise<Uint8Array> {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+
+  while (offset < size) {
+    const bytesRead = await read(bytes.subarray(offset), offset);
+    if (bytesRead === 0) break;
+    offset += bytesRead;
+  }
+
+  return offset === size ? bytes : bytes.subarray(0, offset);
+}
+
+/**
+ * Stream `range` of bytes already in memory.
+ */
+export function bytesStream(bytes: Uint8Array, range?: RangeResult): ReadableStream<Uint8Array> {
+  const { start, end } = range ?? { start: 0, end: bytes.length - 1 };
+  return readRange(
+    (buffer, position) => {
+      const chunk = bytes.subarray(position, position + buffer.length);
+      buffer.set(chunk);
+      return Promise.resolve(chunk.length);
+    },
+    { start, end },
+    () => Promise.resolve()
+  );
+}
+
+/**
+ * Pass `range` of `source` through — every byte when `range` is omitted —
+ * then `close`. Bytes before the range are read and dropped.
+ */
+export function sliceStream(
+  source: ReadableStream<Uint8Array>,
+  range: RangeResult | undefined,
+  close: () => Promise<void>
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  const start = range?.start ?? 0;
+  const end = range?.end ?? Number.POSITIVE_INFINITY;
+  let offset = 0;
+
+  const finish = async (): Promise<void> => {
+    await reader.cancel().catch((): undefined => undefined);
+    await close();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          await close();
+          controller.error(error);
+          return;
+        }
+
+        if (result.done) {
+          await close();
+          controller.close();
+          return;
+        }
+
+        const chunk = result.value;
+        const chunkStart = offset;
+        offset += chunk.length;
+        if (offset <= start) continue;
+
+        const from = Math.max(0, start - chunkStart);
+        const to = Math.min(chunk.length, end - chunkStart + 1);
+        controller.enqueue(from === 0 && to === chunk.length ? chunk : chunk.subarray(from, to));
+
+        if (offset > end) {
+          await finish();
+          controller.close();
+        }
+        return;
+      }
+    },
+    async cancel() {
+      await finish();
+    },
+  });
+}
+
+/**
+ * Read `source` to the end.
+ */
+export async function collect(source: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+
+  const [only] = chunks;
+  if (only && chunks.length === 1) return only;
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
@@ -1,14 +1,13 @@
 /**
  * @nextrush/static - Utility Functions
  *
- * Path safety, file stats, caching, and MIME type utilities.
+ * Path safety, caching, and MIME type utilities. Runtime-neutral: nothing
+ * here touches a filesystem.
  *
  * @packageDocumentation
  */
 
 import type { Context } from '@nextrush/types';
-import { promises as fsp } from 'node:fs';
-import { extname, normalize, resolve, sep } from 'node:path';
 import type { RangeResult, StatsLike } from './static.types';
 
 /**
@@ -28,95 +27,66 @@ export function stripPrefix(pathname: string, prefix: string): string {
 }
 
 /**
- * Safely join root directory with URL path
- * Returns null if path traversal is detected
- *
- * Security: Prevents directory traversal attacks
+ * Split a decoded URL path into the `/`-joined form storages are handed.
+ * Returns null for a segment starting with `..` or holding a NUL byte;
+ * empty and `.` segments are dropped. Both `/` and `\\` separate segments
+ * on every runtime.
  */
-export function safeJoin(root: string, urlPath: string): string | null {
-  const cleaned = normalize(urlPath).replace(/^\/+/, '');
-
-  // Block obvious traversal
-  if (cleaned.startsWith('..') || cleaned.includes(`..${sep}`)) {
-    return null;
-  }
-
-  const abs = resolve(root, cleaned);
+export function toStoragePath(urlPath: string): string | null {
+  const segments: string[] = [];
 
-  // Verify result is within root
-  if (abs !== root && !abs.startsWith(root + sep)) {
-    return null;
+  for (const segment of urlPath.split(/[\\/]/)) {
+    if (segment === '' || segment === '.') continue;
+    if (segment.startsWith('..') || segment.includes('\0')) {
+      return null;
+    }
+    segments.push(segment);
   }
 
-  return abs;
+  return segments.join('/');
 }
 
 /**
- * Safely stat a file, returning null on error
- * Uses lstat by default to not follow symlinks
+ * Safely join root directory with URL path
+ * Returns null if path traversal is detected
  *
- * @param path - Absolute path to stat
- * @param followSymlinks - Whether to follow symlinks (default: false)
- * @param root - Root directory for symlink validation (required if followSymlinks=true)
+ * `root` must be absolute. The result uses the root's separator — `\\` for a
+ * Windows root, `/` otherwise — so the check is the same on every runtime.
+ * Under a Windows root a `:` is refused too: it names a drive or an NTFS
+ * alternate data stream.
+ *
+ * Security: Prevents directory traversal attacks
  */
-export async function statSafe(
-  path: string,
-  followSymlinks = false,
-  root?: string
-): Promise<StatsLike | null> {
-  try {
-    // Use lstat to check if it's a symlink first
-    const lstats = await fsp.lstat(path);
-
-    if (lstats.isSymbolicLink()) {
-      if (!followSymlinks) {
-        // Symlinks not allowed - treat as not found
-        return null;
-      }
-
-      // Resolve the symlink and verify it's within root
-      if (!root) {
-        // Safety: if no root provided, reject symlinks
-        return null;
-      }
-
-      const realPath = await fsp.realpath(path);
-      const normalizedRoot = resolve(root);
-
-      // Verify resolved path is within root
-      if (realPath !== normalizedRoot && !realPath.startsWith(normalizedRoot + sep)) {
-        // Symlink points outside root - security violation
-        return null;
-      }
+export function safeJoin(root: string, urlPath: string): string | null {
+  const relative = toStoragePath(urlPath);
+  if (relative === null) {
+    return null;
+  }
 
-      // Now safe to stat the resolved path
-      const s = await fsp.stat(path);
-      return {
-        size: s.size,
-        mtime: s.mtime,
-        isFile: () => s.isFile(),
-        isDirectory: () => s.isDirectory(),
-      };
-    }
+  if (relative === '') {
+    return root;
+  }
 
-    // Not a symlink, return lstats directly
-    return {
-      size: lstats.size,
-      mtime: lstats.mtime,
-      isFile: () => lstats.isFile(),
-      isDirectory: () => lstats.isDirectory(),
-    };
-  } catch {
+  const separator = /^(?:[a-z]:|\\\\)/i.test(root) ? '\\' : '/';
+  if (separator === '\\' && relative.includes(':')) {
     return null;
   }
+
+  const base = root.endsWith(separator) ? root.slice(0, -1) : root;
+  return base + separator + relative.split('/').join(separator);
 }
 
 /**
  * Generate weak ETag from file stats
  * Uses FNV-1a hash for speed
+ *
+ * @param encoding - The `Content-Encoding` of a precompressed variant. Part of
+ *   the hash input, since variants share the source file's mtime and can share
+ *   a size while being different representations.
  */
-export function generateETag(stat: StatsLike): string {
-  const base = `${stat.size}-${stat.mtime.getTime()}`;
+export function generateETag(stat: StatsLike, encoding?: string): string {
+  let base = `${stat.size}-${stat.mtime.getTime()}`;
+  if (encoding !== undefined) base += `-${encoding}`;
   let hash = 2166136261; // FNV offset basis
 
   for (let i = 0; i < base.length; i++) {
@@ -319,11 +289,21 @@ const MIME_TYPES: Record<string, string> = {
   '.toml': 'text/toml; charset=utf-8',
 };
 
+/**
+ * Lower-cased extension of the last path segment, with its dot — `''` when
+ * there is none or the name only starts with a dot (as `path.extname`).
+ */
+function extensionOf(filePath: string): string {
+  const name = filePath.slice(Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')) + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+}
+
 /**
  * Get MIME type for file extension
  */
 export function getMimeType(filePath: string): string {
-  const ext = extname(filePath).toLowerCase();
+  const ext = extensionOf(filePath);
   return MIME_TYPES[ext] || 'application/octet-stream';
 }
 
@@ -341,14 +321,14 @@ const SCRIPT_CAPABLE_EXTENSIONS = new Set(['.svg', '.html', '.htm', '.xhtml']);
  * `untrusted: true` must neutralize (SEC-11).
  */
 export function isScriptCapable(filePath: string): boolean {
-  return SCRIPT_CAPABLE_EXTENSIONS.has(extname(filePath).toLowerCase());
+  return SCRIPT_CAPABLE_EXTENSIONS.has(extensionOf(filePath));
 }
 
 /**
  * Check if filename is a dotfile
  */
 export function isDotfile(filePath: string): boolean {
-  const parts = filePath.split(sep);
+  const parts = filePath.split(/[\\/]/);
   return parts.some((part) => part.startsWith('.') && part !== '.' && part !== '..');
 }
 
@@ -9,6 +9,9 @@ export default defineConfig({
   minify: false,
   target: 'node20',
   outDir: 'dist',
+  // Deno resolves Node built-ins only with the node: prefix, which tsup strips
+  // by default — the filesystem storages import them at runtime.
+  removeNodeProtocol: false,
   external: [
     '@nextrush/types',
     '@nextrush/core',
@@ -0,0 +1,162 @@
+/**
+ * @nextrush/timeout - Middleware tests
+ */
+
+import { RequestTimeoutError } from '@nextrush/errors';
+import { ROUTE_METADATA, type Context, type MetadataContribution } from '@nextrush/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { timeout } from '../timeout';
+
+type TestContext = Context & { responded: boolean; triggerTimeout(reason?: unknown): void };
+
+function createCtx(): TestContext {
+  const controller = new AbortController();
+  return {
+    responded: false,
+    signal: controller.signal,
+    triggerTimeout(reason?: unknown) {
+      controller.abort(reason);
+    },
+  } as unknown as TestContext;
+}
+
+/** A downstream chain that settles only when told to, or when `ctx.signal` aborts. */
+function hangingNext(ctx: Context): { next: () => Promise<void>; finish: () => void } {
+  let finish = (): void => undefined;
+  const next = (): Promise<void> =>
+    new Promise<void>((resolve, reject) => {
+      finish = resolve;
+      ctx.signal.addEventListener('abort', () => {
+        reject(ctx.signal.reason as Error);
+      });
+    });
+  return { next, finish: () => finish() };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('timeout()', () => {
+  it('passes through a chain that finishes in time', async () => {
+    const ctx = createCtx();
+    const { next, finish } = hangingNext(ctx);
+    const done = timeout(1000)(ctx, next);
+
+    await vi.advanceTimersByTimeAsync(500);
+    finish();
+    await expect(done).resolves.toBeUndefined();
+    expect(ctx.signal.aborted).toBe(false);
+  });
+
+  it('propagates errors thrown downstream before the deadline', async () => {
+    const ctx = createCtx();
+    const failure = new Error('boom');
+    await expect(timeout(1000)(ctx, () => Promise.reject(failure))).rejects.toBe(failure);
+  });
+
+  it('aborts ctx.signal and throws a 503 RequestTimeoutError when the deadline passes', async () => {
+    const ctx = createCtx();
+    const { next } = hangingNext(ctx);
+    const done = timeout(1000)(ctx, next);
+    const assertion = expect(done).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+
+    const error = ctx.signal.reason as RequestTimeoutError;
+    expect(ctx.signal.aborted).toBe(true);
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect(error.status).toBe(503);
+    expect(error.code).toBe('REQUEST_TIMEOUT');
+    expect(error.timeout).toBe(1000);
+    expect(error.message).toBe('Request timed out');
+  });
+
+  it('uses the configured status and message', async () => {
+    const ctx = createCtx();
+    const { next } = hangingNext(ctx);
+    const done = timeout(50, { status: 504, message: 'Upstream too slow' })(ctx, next);
+    const assertion = expect(done).rejects.toMatchObject({
+      status: 504,
+      message: 'Upstream too slow',
+    });
+
+    await vi.advanceTimersByTimeAsync(50);
+    await assertion;
+  });
+
+  it('aborts without throwing once a response is committed', async () => {
+    const ctx = createCtx();
+    const done = timeout(100)(ctx, () => {
+      ctx.responded = true; // e.g. a stream whose writer loops until the signal aborts
+      return new Promise<void>(() => undefined);
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(done).resolves.toBeUndefined();
+    expect(ctx.signal.aborted).toBe(true);
+  });
+
+  it('still responds on a context without triggerTimeout()', async () => {
+    const ctx = { responded: false } as unknown as Context;
+    const done = timeout(10)(ctx, () => new Promise<void>(() => undefined));
+    const assertion = expect(done).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+  });
+
+  it('lets the innermost deadline replace the enclosing one', async () => {
+    const ctx = createCtx();
+    const { next, finish } = hangingNext(ctx);
+    const outer = timeout(100);
+    const inner = timeout(5000);
+    const done = outer(ctx, () => inner(ctx, next));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(ctx.signal.aborted).toBe(false);
+    finish();
+    await expect(done).resolves.toBeUndefined();
+  });
+
+  it('enforces a shorter inner deadline', async () => {
+    const ctx = createCtx();
+    const { next } = hangingNext(ctx);
+    const done = timeout(5000)(ctx, () => timeout(100)(ctx, next));
+    const assertion = expect(done).rejects.toMatchObject({ timeout: 100 });
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+
+  it('clears its timer when the chain settles', async () => {
+    const ctx = createCtx();
+    await timeout(1000)(ctx, () => Promise.resolve());
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('contributes RouteMetadata.timeout without enumerating it', () => {
+    const middleware = timeout(2500);
+    const contribution = (middleware as unknown as Record<symbol, MetadataContribution>)[
+      ROUTE_METADATA
+    ];
+    expect(contribution).toEqual({ timeout: 2500 });
+    expect(Object.keys(middleware)).toEqual([]);
+  });
+
+  it.each([0, -1, Number.NaN, Number.POSITIVE_INFINITY, 2 ** 31])(
+    'rejects %s milliseconds',
+    (ms) => {
+      expect(() => timeout(ms)).toThrow(TypeError);
+    }
+  );
+
+  it('rejects a status other than 503 or 504', () => {
+    expect(() => timeout(1000, { status: 500 as never })).toThrow(/503 or 504/);
+  });
+});
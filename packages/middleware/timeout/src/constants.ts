@@ -0,0 +1,16 @@
+/**
+ * @nextrush/timeout - Constants
+ *
+ * @packageDocumentation
+ */
+
+import type { TimeoutStatus } from './types';
+
+/** Default status sent when a deadline passes. */
+export const DEFAULT_TIMEOUT_STATUS: TimeoutStatus = 503;
+
+/** Default message of the thrown `RequestTimeoutError`. */
+export const DEFAULT_TIMEOUT_MESSAGE = 'Request timed out';
+
+/** The longest delay `setTimeout` honors (2^31 - 1 ms, about 24.8 days). */
+export const MAX_TIMEOUT = 2_147_483_647;
@@ -0,0 +1,32 @@
+/**
+ * @nextrush/timeout
+ *
+ * Per-route deadlines for NextRush.
+ *
+ * Features:
+ * - `timeout(ms)` for an app, a router or a single route
+ * - Cooperative cancellation: aborts `ctx.signal` when the deadline passes
+ * - Typed `RequestTimeoutError` (503 or 504) when no response was committed
+ * - Contributes `RouteMetadata.timeout` for docs and tooling
+ * - Multi-runtime: timers and `AbortSignal` only
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { TimeoutOptions, TimeoutStatus } from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export { DEFAULT_TIMEOUT_MESSAGE, DEFAULT_TIMEOUT_STATUS, MAX_TIMEOUT } from './constants';
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export { timeout } from './timeout';
@@ -0,0 +1,114 @@
+/**
+ * @nextrush/timeout - Middleware
+ *
+ * `timeout()` races the rest of the chain against a deadline. When the
+ * deadline passes it aborts `ctx.signal` — so `fetch`, database drivers and
+ * stream writers listening on it stop — and throws a `RequestTimeoutError`
+ * unless a response was already committed.
+ *
+ * @packageDocumentation
+ */
+
+import { RequestTimeoutError } from '@nextrush/errors';
+import {
+  ROUTE_METADATA,
+  type AdapterContext,
+  type MetadataContribution,
+  type Next,
+} from '@nextrush/types';
+import { DEFAULT_TIMEOUT_MESSAGE, DEFAULT_TIMEOUT_STATUS, MAX_TIMEOUT } from './constants';
+import type { Context, Middleware, TimeoutOptions } from './types';
+
+/**
+ * The armed deadline of each in-flight request, so a nested `timeout()` can
+ * disarm the one around it. Keyed weakly — an entry never outlives its request.
+ */
+const armed = new WeakMap<Context, () => void>();
+
+const TIMED_OUT: unique symbol = Symbol('timed-out');
+
+/** Checked at runtime too — the status often comes from untyped configuration. */
+const TIMEOUT_STATUSES: ReadonlySet<number> = new Set([503, 504]);
+
+function assertValidOptions(ms: number, options: TimeoutOptions): void {
+  if (!Number.isFinite(ms) || ms <= 0 || ms > MAX_TIMEOUT) {
+    throw new TypeError(
+      `timeout: ms must be a positive number of milliseconds up to ${String(MAX_TIMEOUT)}, got ${String(ms)}`
+    );
+  }
+  if (options.status !== undefined && !TIMEOUT_STATUSES.has(options.status)) {
+    throw new TypeError(`timeout: status must be 503 or 504, got ${String(options.status)}`);
+  }
+}
+
+/**
+ * Create middleware that gives the rest of the chain `ms` milliseconds.
+ *
+ * When the deadline passes, `ctx.signal` is aborted with the
+ * `RequestTimeoutError` as its reason and the middleware throws that error —
+ * the error handler responds with its status (503 unless configured). If the
+ * response was already committed (a stream in flight), the signal is aborted
+ * and nothing is thrown. The timed-out handler is not awaited; work that
+ * ignores `ctx.signal` keeps running in the background until it finishes.
+ *
+ * Nested deadlines do not stack: the innermost `timeout()` replaces the ones
+ * around it, so a route can lengthen the app-wide default as well as shorten it.
+ *
+ * @example
+ * ```typescript
+ * app.use(timeout(30_000));
+ *
+ * router.get('/report',
+ *   timeout(120_000, { status: 504 }),
+ *   async (ctx) => ctx.json(await fetch(reportUrl, { signal: ctx.signal }).then((r) => r.json())),
+ * );
+ * ```
+ *
+ * @param ms - The deadline in milliseconds; also contributed as `RouteMetadata.timeout`.
+ * @param options - Status and message of the timeout error.
+ * @throws {TypeError} When `ms` is not a positive number of milliseconds
+ *   within `setTimeout`'s range, or `status` is not 503 or 504.
+ */
+export function timeout(ms: number, options: TimeoutOptions = {}): Middleware {
+  assertValidOptions(ms, options);
+  const status = options.status ?? DEFAULT_TIMEOUT_STATUS;
+  const message = options.message ?? DEFAULT_TIMEOUT_MESSAGE;
+
+  const middleware: Middleware = async (ctx: Context, next: Next): Promise<void> => {
+    // Disarm the enclosing deadline and arm this one before anything
+    // downstream runs, so a nested timeout() finds this one to replace.
+    armed.get(ctx)?.();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const elapsed = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(resolve, ms, TIMED_OUT);
+    });
+    const disarm = (): void => {
+      clearTimeout(timer);
+    };
+    armed.set(ctx, disarm);
+
+    const run = next();
+    try {
+      if ((await Promise.race([run, elapsed])) !== TIMED_OUT) return;
+    } finally {
+      disarm();
+      if (armed.get(ctx) === disarm) armed.delete(ctx);
+    }
+
+    // Nobody awaits the abandoned chain any more; its eventual rejection
+    // (typically the AbortError it sees next) must not go unhandled.
+    run.catch(() => undefined);
+
+    const error = new RequestTimeoutError(message, { status, timeout: ms });
+    (ctx as Partial<AdapterContext>).triggerTimeout?.(error);
+    if (ctx.responded) return;
+    throw error;
+  };
+
+  Object.defineProperty(middleware, ROUTE_METADATA, {
+    value: { timeout: ms } satisfies MetadataContribution,
+    enumerable: false,
+  });
+
+  return middleware;
+}
@@ -0,0 +1,33 @@
+/**
+ * @nextrush/timeout - Type Definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { Context, Middleware } from '@nextrush/types';
+
+export type { Context, Middleware };
+
+/** Status sent when a handler misses its deadline. */
+export type TimeoutStatus = 503 | 504;
+
+/**
+ * Options for {@link timeout}.
+ */
+export interface TimeoutOptions {
+  /**
+   * Status of the `RequestTimeoutError` thrown when the deadline passes —
+   * `503` when this server ran out of time, `504` when it was waiting on an
+   * upstream it proxies.
+   *
+   * @default 503
+   */
+  readonly status?: TimeoutStatus;
+
+  /**
+   * Message of the thrown error, sent to the client.
+   *
+   * @default 'Request timed out'
+   */
+  readonly message?: string;
+}
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOtlpExporter, encodeOtlpTraces } from '../otlp-exporter';
+import type { SpanData } from '../types';
+
+function span(overrides: Partial<SpanData> = {}): SpanData {
+  return {
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7',
+    traceFlags: 1,
+    name: 'GET /users/:id',
+    kind: 'server',
+    startTime: 1_700_000_000_000.25,
+    endTime: 1_700_000_000_012.5,
+    attributes: {},
+    status: { code: 'unset' },
+    events: [],
+    ...overrides,
+  };
+}
+
+interface SentRequest {
+  url: string;
+  init: RequestInit;
+  body: { resourceSpans: [{ scopeSpans: [{ spans: Record<string, unknown>[] }] }] };
+}
+
+function createFetch(status = 200) {
+  const requests: SentRequest[] = [];
+  const fetch = vi.fn((url: string | URL | Request, init: RequestInit = {}) => {
+    requests.push({
+      url: String(url),
+      init,
+      body: JSON.parse(String(init.body)) as SentRequest['body'],
+    });
+    return Promise.resolve(new Response(null, { status }));
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, requests };
+}
+
+const spanCount = (request: SentRequest): number =>
+  request.body.resourceSpans[0].scopeSpans[0].spans.length;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('encodeOtlpTraces', () => {
+  it('encodes spans in OTLP/JSON', () => {
+    const body = encodeOtlpTraces(
+      [
+        span({
+          parentSpanId: 'b7ad6b7169203331',
+          traceState: 'vendor=opaque',
+          attributes: {
+            'http.route': '/users/:id',
+            'http.response.status_code': 500,
+            ratio: 0.5,
+            cached: false,
+          },
+          status: { code: 'error', message: 'boom' },
+          events: [
+            {
+              name: 'exception',
+              time: 1_700_000_000_010,
+              attributes: { 'exception.type': 'Error' },
+            },
+          ],
+        }),
+        span({ kind: 'internal', spanId: 'b7ad6b7169203331', status: { code: 'ok' } }),
+      ],
+      { 'service.name': 'orders' }
+    );
+
+    expect(body).toEqual({
+      resourceSpans: [
+        {
+          resource: { attributes: [{ key: 'service.name', value: { stringValue: 'orders' } }] },
+          scopeSpans: [
+            {
+              scope: { name: '@nextrush/tracing' },
+              spans: [
+                {
+                  traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+                  spanId: '00f067aa0ba902b7',
+                  parentSpanId: 'b7ad6b7169203331',
+                  traceState: 'vendor=opaque',
+                  name: 'GET /users/:id',
+                  kind: 2,
+                  startTimeUnixNano: '1700000000000250000',
+                  endTimeUnixNano: '1700000000012500000',
+                  attributes: [
+                    { key: 'http.route', value: { stringValue: '/users/:id' } },
+                    { key: 'http.response.status_code', value: { intValue: '500' } },
+                    { key: 'ratio', value: { doubleValue: 0.5 } },
+                    { key: 'cached', value: { boolValue: false } },
+                  ],
+                  events: [
+                    {
+                      timeUnixNano: '1700000000010000000',
+                      name: 'exception',
+                      attributes: [{ key: 'exception.type', value: { stringValue: 'Error' } }],
+                    },
+                  ],
+                  status: { code: 2, message: 'boom' },
+                },
+                expect.objectContaining({ kind: 1, status: { code: 1 } }),
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe('OtlpHttpExporter', () => {
+  it('POSTs JSON to the endpoint with the configured headers and resource', async () => {
+    const { fetch, requests } = createFetch();
+    const exporter = createOtlpExporter({
+      url: 'https://collector.test/v1/traces',
+      headers: { authorization: 'Bearer t0ken' },
+      serviceName: 'orders',
+      resourceAttributes: { 'service.version': '1.2.0' },
+      fetch,
+    });
+
+    await exporter.export([span()]);
+    expect(requests).toHaveLength(0);
+    await exporter.forceFlush();
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request!.url).toBe('https://collector.test/v1/traces');
+    expect(request!.init.method).toBe('POST');
+    expect(request!.init.headers).toEqual({
+      authorization: 'Bearer t0ken',
+      'content-type': 'application/json',
+    });
+    expect(request!.body).toMatchObject({
+      resourceSpans: [
+        {
+          resource: {
+            attributes: [
+              { key: 'service.version', value: { stringValue: '1.2.0' } },
+              { key: 'service.name', value: { stringValue: 'orders' } },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it('sends a full batch straight away and splits the queue into batches', async () => {
+    const { fetch, requests } = createFetch();
+    const exporter = createOtlpExporter({ fetch, maxBatchSize: 2 });
+
+    await exporter.export([span(), span(), span()]);
+    expect(requests.map(spanCount)).toEqual([2, 1]);
+  });
+
+  it('sends a partial batch after flushInterval', async () => {
+    vi.useFakeTimers();
+    const { fetch, requests } = createFetch();
+    const exporter = createOtlpExporter({ fetch, flushInterval: 1_000 });
+
+    await exporter.export([span()]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(requests).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('reports a failed send and a full queue to onError, never rejecting', async () => {
+    const onError = vi.fn();
+    const { fetch } = createFetch(503);
+    const exporter = createOtlpExporter({ fetch, onError, maxBatchSize: 2, maxQueueSize: 2 });
+
+    await exporter.export([span()]);
+    await exporter.export([span(), span()]);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'OTLP queue is full; dropped 1 span(s)' })
+    );
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'OTLP endpoint answered 503 for 2 span(s)' })
+    );
+  });
+
+  it('reports to the given logger when there is no onError', async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+    const { fetch } = createFetch(503);
+    const exporter = createOtlpExporter({ fetch, logger, maxBatchSize: 1 });
+
+    await exporter.export([span()]);
+    await exporter.forceFlush();
+    expect(logger.warn).toHaveBeenCalledWith(
+      '[@nextrush/tracing] OTLP export failed:',
+      expect.objectContaining({ message: 'OTLP endpoint answered 503 for 1 span(s)' })
+    );
+  });
+
+  it('flushes on shutdown and drops spans exported after it', async () => {
+    const { fetch, requests } = createFetch();
+    const exporter = createOtlpExporter({ fetch });
+
+    await exporter.export([span()]);
+    await exporter.shutdown();
+    await exporter.export([span()]);
+    await exporter.forceFlush();
+
+    expect(requests.map(spanCount)).toEqual([1]);
+  });
+
+  it('rejects an unusable configuration', () => {
+    const { fetch } = createFetch();
+    expect(() => createOtlpExporter({ fetch, maxBatchSize: 0 })).toThrow(RangeError);
+    expect(() => createOtlpExporter({ fetch, maxBatchSize: 10, maxQueueSize: 5 })).toThrow(
+      RangeError
+    );
+  });
+});
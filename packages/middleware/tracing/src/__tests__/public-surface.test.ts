@@ -0,0 +1,78 @@
+/**
+ * @nextrush/tracing - Public API surface test
+ *
+ * Locks the exported symbol set from `src/index.ts`. If this test fails, the
+ * public API has changed. Intentional changes require an explicit update to
+ * the expected list below, plus a changeset for a published package.
+ */
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import * as tracingApi from '../index';
+import type {
+  AttributeValue,
+  OtlpExporterOptions,
+  SpanAttributes,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+  TraceContext,
+  TraceStepKind,
+  TracingOptions,
+} from '../index';
+
+describe('Public API surface (runtime exports)', () => {
+  it('exports exactly the intended runtime symbols', () => {
+    const actualExports = Object.keys(tracingApi).sort();
+
+    // SEALED: intentional public runtime API surface.
+    const expectedRuntime = [
+      'DEFAULT_EXPORT_TIMEOUT',
+      'DEFAULT_FLUSH_INTERVAL',
+      'DEFAULT_MAX_BATCH_SIZE',
+      'DEFAULT_MAX_QUEUE_SIZE',
+      'DEFAULT_OTLP_ENDPOINT',
+      'DEFAULT_SERVICE_NAME',
+      'InMemorySpanExporter',
+      'MAX_TRACESTATE_MEMBERS',
+      'OtlpHttpExporter',
+      'TRACEPARENT_HEADER',
+      'TRACESTATE_HEADER',
+      'TRACE_FLAG_SAMPLED',
+      'createInMemoryExporter',
+      'createOtlpExporter',
+      'encodeOtlpTraces',
+      'formatTraceparent',
+      'generateSpanId',
+      'generateTraceId',
+      'getTraceContext',
+      'parseTraceparent',
+      'parseTracestate',
+      'traceHeaders',
+      'tracing',
+    ].sort();
+
+    expect(actualExports).toEqual(expectedRuntime);
+  });
+});
+
+describe('Public API surface (type-only exports)', () => {
+  it('the type-only surface stays importable from the barrel', () => {
+    // Compile-time only: removing/renaming any of these in src/index.ts fails
+    // this file to type-check.
+    type Surface = [
+      AttributeValue,
+      OtlpExporterOptions,
+      SpanAttributes,
+      SpanData,
+      SpanEvent,
+      SpanExporter,
+      SpanKind,
+      SpanStatus,
+      TraceContext,
+      TraceStepKind,
+      TracingOptions,
+    ];
+    expectTypeOf<Surface>().not.toBeNever();
+  });
+});
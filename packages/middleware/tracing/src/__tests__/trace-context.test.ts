@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  parseTracestate,
+} from '../trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('parseTraceparent', () => {
+  it('reads a version-00 header', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+    });
+    expect(parseTraceparent(` 00-${TRACE_ID}-${SPAN_ID}-00 `)?.traceFlags).toBe(0);
+  });
+
+  it('reads the first four fields of a later version', () => {
+    expect(parseTraceparent(`cc-${TRACE_ID}-${SPAN_ID}-09-what-the-future-holds`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 9,
+    });
+  });
+
+  it.each([
+    ['version ff', `ff-${TRACE_ID}-${SPAN_ID}-01`],
+    ['trailing data on version 00', `00-${TRACE_ID}-${SPAN_ID}-01-extra`],
+    ['uppercase hex', `00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`],
+    ['an all-zero trace ID', `00-${'0'.repeat(32)}-${SPAN_ID}-01`],
+    ['an all-zero span ID', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+    ['a short trace ID', `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`],
+    ['a missing field', `00-${TRACE_ID}-${SPAN_ID}`],
+    ['garbage', 'not-a-traceparent'],
+  ])('ignores %s', (_label, header) => {
+    expect(parseTraceparent(header)).toBeUndefined();
+  });
+});
+
+describe('formatTraceparent', () => {
+  it('round-trips through parseTraceparent', () => {
+    const header = `00-${TRACE_ID}-${SPAN_ID}-01`;
+    expect(formatTraceparent(parseTraceparent(header)!)).toBe(header);
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 0 })).toBe(
+      `00-${TRACE_ID}-${SPAN_ID}-00`
+    );
+  });
+});
+
+describe('parseTracestate', () => {
+  it('keeps valid members in order, trimmed, without empty ones', () => {
+    expect(parseTracestate('rojo=00f067aa0ba902b7 ,, congo=t61rcWkgMzE, tenant@vendor=x')).toBe(
+      'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE,tenant@vendor=x'
+    );
+  });
+
+  it.each([
+    ['an uppercase key', 'Rojo=1'],
+    ['a key with a space', 'ro jo=1'],
+    ['a member without a value', 'rojo'],
+    ['an empty value', 'rojo='],
+    ['an equals sign in the value', 'rojo=a=b'],
+    ['a duplicated key', 'rojo=1,rojo=2'],
+    ['nothing but separators', ' , '],
+  ])('discards the header on %s', (_label, header) => {
+    expect(parseTracestate(header)).toBeUndefined();
+  });
+
+  it('allows 32 members and discards 33', () => {
+    const members = Array.from({ length: 33 }, (_, i) => `k${String(i)}=v`);
+    expect(parseTracestate(members.slice(0, 32).join(','))).toBeDefined();
+    expect(parseTracestate(members.join(','))).toBeUndefined();
+  });
+});
+
+describe('ID generation', () => {
+  it('produces lowercase hex IDs of the right length', () => {
+    expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+    expect(generateTraceId()).not.toBe(generateTraceId());
+  });
+});
@@ -0,0 +1,371 @@
+import { createApp } from '@nextrush/core';
+import { createRouter, type Router } from '@nextrush/router';
+import type { Context, Middleware } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { createInMemoryExporter } from '../memory-exporter';
+import { getTraceContext, traceHeaders, tracing } from '../middleware';
+import { parseTraceparent } from '../trace-context';
+import type { SpanData, TracingOptions } from '../types';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+function createContext(
+  method: string,
+  path: string,
+  headers: Record<string, string> = {}
+): Context {
+  let stored: () => Promise<void> = () => Promise.resolve();
+  return {
+    method,
+    path,
+    headers,
+    ip: '203.0.113.7',
+    params: {},
+    query: {},
+    status: 200,
+    state: {},
+    set: vi.fn(),
+    setNext: (fn: () => Promise<void>) => {
+      stored = fn;
+    },
+    next: () => stored(),
+  } as unknown as Context;
+}
+
+/** `tracing()` mounted ahead of the router, as an app would compose them. */
+async function run(
+  router: Router,
+  ctx: Context,
+  options: Partial<TracingOptions> = {}
+): Promise<SpanData[]> {
+  const exporter = createInMemoryExporter();
+  const routes = router.routes();
+  await tracing({ exporter, ...options })(ctx, () => Promise.resolve(routes(ctx, async () => {})));
+  return [...exporter.getFinishedSpans()];
+}
+
+function byName(spans: SpanData[], name: string): SpanData {
+  const span = spans.find((candidate) => candidate.name === name);
+  if (!span) throw new Error(`No span named "${name}" in ${spans.map((s) => s.name).join(', ')}`);
+  return span;
+}
+
+describe('tracing()', () => {
+  it('records a server span named after the route template, with HTTP attributes', async () => {
+    const router = createRouter();
+    router.get('/users/:id', (ctx) => {
+      ctx.status = 201;
+    });
+
+    const spans = await run(
+      router,
+      createContext('GET', '/users/42', { 'user-agent': 'curl/8.4.0' })
+    );
+
+    const server = byName(spans, 'GET /users/:id');
+    expect(server).toMatchObject({
+      kind: 'server',
+      traceFlags: 1,
+      status: { code: 'unset' },
+      attributes: {
+        'http.request.method': 'GET',
+        'url.path': '/users/42',
+        'http.route': '/users/:id',
+        'http.response.status_code': 201,
+        'user_agent.original': 'curl/8.4.0',
+        'client.address': '203.0.113.7',
+      },
+    });
+    expect(server.parentSpanId).toBeUndefined();
+    expect(server.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(server.endTime).toBeGreaterThanOrEqual(server.startTime);
+  });
+
+  it('names the span after the full route when the router is mounted under a prefix', async () => {
+    const exporter = createInMemoryExporter();
+    const router = createRouter();
+    router.get('/users/:id', () => undefined);
+    router.get('/', () => undefined);
+    const app = createApp();
+    app.use(tracing({ exporter }));
+    app.route('/api', router);
+
+    await app.callback()(createContext('GET', '/api/users/42'));
+    await app.callback()(createContext('GET', '/api'));
+
+    expect(byName([...exporter.getFinishedSpans()], 'GET /api/users/:id')).toMatchObject({
+      attributes: { 'url.path': '/api/users/42', 'http.route': '/api/users/:id' },
+    });
+    expect(byName([...exporter.getFinishedSpans()], 'GET /api').attributes).toMatchObject({
+      'http.route': '/api',
+    });
+  });
+
+  it('nests a child span per route middleware and the handler', async () => {
+    const router = createRouter();
+    const authenticate: Middleware = async (_ctx, next) => next();
+    router.use(async function audit(_ctx, next) {
+      await next();
+    });
+    router.get('/orders', authenticate, function listOrders(ctx) {
+      ctx.status = 200;
+    });
+
+    const spans = await run(router, createContext('GET', '/orders'));
+
+    const server = byName(spans, 'GET /orders');
+    const audit = byName(spans, 'middleware audit');
+    const auth = byName(spans, 'middleware authenticate');
+    const handler = byName(spans, 'handler listOrders');
+
+    expect(audit.parentSpanId).toBe(server.spanId);
+    expect(auth.parentSpanId).toBe(audit.spanId);
+    expect(handler.parentSpanId).toBe(auth.spanId);
+    expect(handler).toMatchObject({
+      kind: 'internal',
+      traceId: server.traceId,
+      attributes: { 'nextrush.step.kind': 'handler', 'nextrush.step.name': 'listOrders' },
+    });
+    // Exported together, once the request ended: server span last.
+    expect(spans.map((span) => span.name)).toEqual([
+      'handler listOrders',
+      'middleware authenticate',
+      'middleware audit',
+      'GET /orders',
+    ]);
+  });
+
+  it('names the span after the method alone when no route matched', async () => {
+    const ctx = createContext('GET', '/missing');
+    const spans = await run(createRouter(), ctx);
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: 'GET',
+      attributes: { 'http.response.status_code': 404 },
+    });
+    expect(spans[0]!.attributes['http.route']).toBeUndefined();
+  });
+
+  it('records a thrown error on the failing steps and the server span', async () => {
+    const router = createRouter();
+    router.get('/boom', function explode() {
+      throw new TypeError('cannot read the ledger');
+    });
+
+    const exporter = createInMemoryExporter();
+    const ctx = createContext('GET', '/boom');
+    const routes = router.routes();
+    await expect(
+      tracing({ exporter })(ctx, () => Promise.resolve(routes(ctx, async () => {})))
+    ).rejects.toThrow('cannot read the ledger');
+
+    const spans = [...exporter.getFinishedSpans()];
+    for (const span of [byName(spans, 'handler explode'), byName(spans, 'GET /boom')]) {
+      expect(span.status).toEqual({ code: 'error', message: 'cannot read the ledger' });
+      expect(span.attributes['error.type']).toBe('TypeError');
+      expect(span.events).toMatchObject([
+        {
+          name: 'exception',
+          attributes: {
+            'exception.type': 'TypeError',
+            'exception.message': 'cannot read the ledger',
+          },
+        },
+      ]);
+    }
+    expect(byName(spans, 'GET /boom').attributes['http.response.status_code']).toBe(500);
+  });
+
+  it('leaves the server span unset for a thrown 4xx, using its status', async () => {
+    const router = createRouter();
+    router.get('/orders/:id', () => {
+      throw Object.assign(new Error('Order not found'), { name: 'NotFoundError', status: 404 });
+    });
+
+    const exporter = createInMemoryExporter();
+    const ctx = createContext('GET', '/orders/9');
+    const routes = router.routes();
+    await expect(
+      tracing({ exporter })(ctx, () => Promise.resolve(routes(ctx, async () => {})))
+    ).rejects.toThrow();
+
+    const server = byName([...exporter.getFinishedSpans()], 'GET /orders/:id');
+    expect(server.status).toEqual({ code: 'unset' });
+    expect(server.attributes['http.response.status_code']).toBe(404);
+    expect(server.attributes['error.type']).toBeUndefined();
+    expect(server.events[0]?.name).toBe('exception');
+  });
+
+  it('marks a 5xx response as an error even when nothing threw', async () => {
+    const router = createRouter();
+    router.get('/health', (ctx) => {
+      ctx.status = 503;
+    });
+
+    const server = byName(await run(router, createContext('GET', '/health')), 'GET /health');
+    expect(server.status).toEqual({ code: 'error' });
+    expect(server.attributes['error.type']).toBe('503');
+  });
+});
+
+describe('trace context propagation', () => {
+  it('continues the trace named by traceparent, passing tracestate on', async () => {
+    const router = createRouter();
+    router.get('/', (ctx) => {
+      ctx.status = 200;
+    });
+
+    const spans = await run(
+      router,
+      createContext('GET', '/', {
+        traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+        tracestate: 'vendor=opaque',
+      })
+    );
+
+    const server = byName(spans, 'GET /');
+    expect(server.traceId).toBe(TRACE_ID);
+    expect(server.parentSpanId).toBe(PARENT_ID);
+    expect(server.traceState).toBe('vendor=opaque');
+    expect(byName(spans, 'handler anonymous').traceState).toBe('vendor=opaque');
+  });
+
+  it('starts a new trace when trustIncoming is off or traceparent is invalid', async () => {
+    const router = createRouter();
+    router.get('/', () => undefined);
+    const headers = { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` };
+
+    const untrusted = await run(router, createContext('GET', '/', headers), {
+      trustIncoming: false,
+    });
+    expect(byName(untrusted, 'GET /').traceId).not.toBe(TRACE_ID);
+
+    const invalid = await run(router, createContext('GET', '/', { traceparent: 'ff-bogus' }));
+    expect(byName(invalid, 'GET /').parentSpanId).toBeUndefined();
+  });
+
+  it('records nothing for an unsampled trace but still propagates it', async () => {
+    const router = createRouter();
+    let outgoing: Record<string, string> = {};
+    router.get('/', (ctx) => {
+      outgoing = traceHeaders(ctx);
+    });
+
+    const ctx = createContext('GET', '/', { traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` });
+    expect(await run(router, ctx)).toEqual([]);
+
+    const context = parseTraceparent(outgoing.traceparent!);
+    expect(context).toMatchObject({ traceId: TRACE_ID, traceFlags: 0 });
+    expect(context?.spanId).not.toBe(PARENT_ID);
+  });
+
+  it('names the innermost open span as the parent of outgoing calls', async () => {
+    const router = createRouter();
+    let outgoing: Record<string, string> = {};
+    router.get('/checkout', function checkout(ctx) {
+      outgoing = traceHeaders(ctx);
+    });
+
+    const spans = await run(
+      router,
+      createContext('GET', '/checkout', {
+        traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+        tracestate: 'vendor=opaque',
+      })
+    );
+
+    expect(outgoing).toEqual({
+      traceparent: `00-${TRACE_ID}-${byName(spans, 'handler checkout').spanId}-01`,
+      tracestate: 'vendor=opaque',
+    });
+  });
+
+  it('has no context outside tracing()', () => {
+    const ctx = createContext('GET', '/');
+    expect(getTraceContext(ctx)).toBeUndefined();
+    expect(traceHeaders(ctx)).toEqual({});
+  });
+});
+
+describe('sampling and options', () => {
+  const router = createRouter();
+  router.get('/health', () => undefined);
+
+  it('samples new traces at sampleRate', async () => {
+    expect(await run(router, createContext('GET', '/health'), { sampleRate: 0 })).toEqual([]);
+
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.3);
+    try {
+      expect(await run(router, createContext('GET', '/health'), { sampleRate: 0.25 })).toEqual([]);
+      expect(await run(router, createContext('GET', '/health'), { sampleRate: 0.5 })).toHaveLength(
+        2
+      );
+    } finally {
+      random.mockRestore();
+    }
+  });
+
+  it('leaves skipped requests untraced', async () => {
+    const ctx = createContext('GET', '/health');
+    expect(await run(router, ctx, { skip: (c) => c.path === '/health' })).toEqual([]);
+    expect(getTraceContext(ctx)).toBeUndefined();
+  });
+
+  it('reports an exporter failure without failing the request', async () => {
+    const onError = vi.fn();
+    const failure = new Error('collector down');
+    const exporter = { export: () => Promise.reject(failure) };
+    const ctx = createContext('GET', '/health');
+    const routes = router.routes();
+
+    await tracing({ exporter, onError })(ctx, () => Promise.resolve(routes(ctx, async () => {})));
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(failure);
+    });
+  });
+
+  it('reports an exporter failure to the given logger when there is no onError', async () => {
+    const logger = { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() };
+    const failure = new Error('collector down');
+    const exporter = { export: () => Promise.reject(failure) };
+    const ctx = createContext('GET', '/health');
+    const routes = router.routes();
+
+    await tracing({ exporter, logger })(ctx, () => Promise.resolve(routes(ctx, async () => {})));
+    await vi.waitFor(() => {
+      expect(logger.warn).toHaveBeenCalledWith('[@nextrush/tracing] Span export failed:', failure);
+    });
+  });
+
+  it('rejects an unusable configuration', () => {
+    const exporter = createInMemoryExporter();
+    expect(() => tracing({} as TracingOptions)).toThrow(TypeError);
+    expect(() => tracing({ exporter, sampleRate: 1.5 })).toThrow(RangeError);
+    expect(() => tracing({ exporter, sampleRate: Number.NaN })).toThrow(RangeError);
+  });
+});
+
+describe('InMemorySpanExporter', () => {
+  it('keeps spans until reset, and stops keeping them after shutdown', async () => {
+    const router = createRouter();
+    router.get('/', () => undefined);
+    const exporter = createInMemoryExporter();
+    const middleware = tracing({ exporter });
+    const routes = router.routes();
+    const request = async () => {
+      const ctx = createContext('GET', '/');
+      await middleware(ctx, () => Promise.resolve(routes(ctx, async () => {})));
+    };
+
+    await request();
+    expect(exporter.getFinishedSpans()).toHaveLength(2);
+
+    exporter.reset();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+
+    await exporter.shutdown();
+    await request();
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * @nextrush/tracing - Constants
+ *
+ * @packageDocumentation
+ */
+
+/** Header carrying the trace ID, parent span ID and flags (W3C Trace Context). */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/** Header carrying vendor-specific trace state (W3C Trace Context). */
+export const TRACESTATE_HEADER = 'tracestate';
+
+/** The `sampled` bit of the trace flags. */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+/** Most `tracestate` list members the W3C specification allows. */
+export const MAX_TRACESTATE_MEMBERS = 32;
+
+/** Where `createOtlpExporter()` sends spans by default: a local collector. */
+export const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318/v1/traces';
+
+/** `service.name` when none is configured, as OpenTelemetry SDKs report it. */
+export const DEFAULT_SERVICE_NAME = 'unknown_service';
+
+/** Spans per OTLP request. */
+export const DEFAULT_MAX_BATCH_SIZE = 512;
+
+/** Spans an OTLP exporter holds before dropping new ones. */
+export const DEFAULT_MAX_QUEUE_SIZE = 2048;
+
+/** Milliseconds a partial batch waits (5 seconds). */
+export const DEFAULT_FLUSH_INTERVAL = 5_000;
+
+/** Milliseconds an OTLP request may take (10 seconds). */
+export const DEFAULT_EXPORT_TIMEOUT = 10_000;
+
+/** Instrumentation scope name reported with exported spans. */
+export const INSTRUMENTATION_SCOPE = '@nextrush/tracing';
@@ -0,0 +1,75 @@
+/**
+ * @nextrush/tracing
+ *
+ * Request tracing for NextRush.
+ *
+ * Features:
+ * - W3C Trace Context: continues incoming `traceparent`/`tracestate`, and
+ *   `traceHeaders()` carries the trace into outgoing calls
+ * - A `server` span per request with route template, status and error
+ * - Child spans for route middleware, handlers, guards and interceptors
+ * - Pluggable exporters: OTLP/HTTP JSON, and in-memory for tests
+ * - Multi-runtime: Web Crypto and `fetch` only
+ *
+ * @packageDocumentation
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type {
+  AttributeValue,
+  OtlpExporterOptions,
+  SpanAttributes,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+  TraceContext,
+  TraceStepKind,
+  TracingOptions,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export {
+  DEFAULT_EXPORT_TIMEOUT,
+  DEFAULT_FLUSH_INTERVAL,
+  DEFAULT_MAX_BATCH_SIZE,
+  DEFAULT_MAX_QUEUE_SIZE,
+  DEFAULT_OTLP_ENDPOINT,
+  DEFAULT_SERVICE_NAME,
+  MAX_TRACESTATE_MEMBERS,
+  TRACE_FLAG_SAMPLED,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from './constants';
+
+// ============================================================================
+// Trace context
+// ============================================================================
+
+export {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  parseTracestate,
+} from './trace-context';
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+export { getTraceContext, traceHeaders, tracing } from './middleware';
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+export { createInMemoryExporter, InMemorySpanExporter } from './memory-exporter';
+export { createOtlpExporter, encodeOtlpTraces, OtlpHttpExporter } from './otlp-exporter';
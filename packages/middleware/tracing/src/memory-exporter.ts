@@ -0,0 +1,56 @@
+/**
+ * @nextrush/tracing - In-memory Exporter
+ *
+ * Keeps finished spans in an array, for tests to assert on.
+ *
+ * @packageDocumentation
+ */
+
+import type { SpanData, SpanExporter } from './types';
+
+/**
+ * Span exporter that keeps every span it is given, in the order they ended.
+ *
+ * @example
+ * ```typescript
+ * const exporter = createInMemoryExporter();
+ * app.use(tracing({ exporter }));
+ *
+ * await request(app).get('/users/1');
+ * expect(exporter.getFinishedSpans().map((span) => span.name)).toContain('GET /users/:id');
+ * ```
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+  private stopped = false;
+
+  export(spans: readonly SpanData[]): Promise<void> {
+    if (!this.stopped) this.spans.push(...spans);
+    return Promise.resolve();
+  }
+
+  /** Every span exported so far. */
+  getFinishedSpans(): readonly SpanData[] {
+    return [...this.spans];
+  }
+
+  /** Forget the spans exported so far. */
+  reset(): void {
+    this.spans = [];
+  }
+
+  forceFlush(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /** Stop keeping spans; the ones already kept stay readable. */
+  shutdown(): Promise<void> {
+    this.stopped = true;
+    return Promise.resolve();
+  }
+}
+
+/** Create an {@link InMemorySpanExporter}. */
+export function createInMemoryExporter(): InMemorySpanExporter {
+  return new InMemorySpanExporter();
+}
@@ -0,0 +1,205 @@
+/**
+ * @nextrush/tracing - Middleware
+ *
+ * `tracing()` opens the request's server span, publishes a
+ * {@link RequestTracer} for the router and class runtime to open child spans
+ * through, and hands the finished trace to the exporter.
+ *
+ * @packageDocumentation
+ */
+
+import { REQUEST_TRACER, type Next } from '@nextrush/types';
+import { TRACE_FLAG_SAMPLED, TRACEPARENT_HEADER, TRACESTATE_HEADER } from './constants';
+import {
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  parseTraceparent,
+  parseTracestate,
+} from './trace-context';
+import { errorMessage, recordException, RequestTrace } from './tracer';
+import type {
+  Context,
+  Middleware,
+  SpanAttributes,
+  SpanData,
+  TraceContext,
+  TracingOptions,
+} from './types';
+
+/**
+ * Where `tracing()` keeps the request's trace context on `ctx.state`: a
+ * {@link RequestTrace} when the request is sampled, a bare
+ * {@link TraceContext} when it only propagates.
+ */
+const TRACE_STATE = Symbol.for('nextrush.tracing.context');
+
+function headerValue(ctx: Context, name: string): string | undefined {
+  const value = ctx.headers[name];
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+/** The caller's trace context, or `undefined` to start a trace here. */
+function extractParent(ctx: Context): TraceContext | undefined {
+  const traceparent = headerValue(ctx, TRACEPARENT_HEADER);
+  const parent = traceparent === undefined ? undefined : parseTraceparent(traceparent);
+  if (!parent) return undefined;
+
+  // tracestate only means something next to the traceparent it came with.
+  const tracestate = headerValue(ctx, TRACESTATE_HEADER);
+  const traceState = tracestate === undefined ? undefined : parseTracestate(tracestate);
+  return traceState === undefined ? parent : { ...parent, traceState };
+}
+
+function serverAttributes(ctx: Context): SpanAttributes {
+  const attributes: SpanAttributes = {
+    'http.request.method': ctx.method,
+    'url.path': ctx.path,
+  };
+  const userAgent = headerValue(ctx, 'user-agent');
+  if (userAgent) attributes['user_agent.original'] = userAgent;
+  if (ctx.ip) attributes['client.address'] = ctx.ip;
+  return attributes;
+}
+
+/** The status of a thrown error, as the error middleware will answer it. */
+function errorStatus(error: unknown): number {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status <= 599 ? status : 500;
+}
+
+/**
+ * Trace every request.
+ *
+ * Each request continues the trace its `traceparent` header names, or starts
+ * a new one, and gets a `server` span named `METHOD /route/:template` with
+ * the OpenTelemetry HTTP attributes (`http.request.method`, `url.path`,
+ * `http.route`, `http.response.status_code`, `user_agent.original`,
+ * `client.address`). A thrown error or a 5xx response marks it as an error;
+ * a thrown error is also recorded as an `exception` event.
+ *
+ * Route middleware, the route handler and, in class controllers, every
+ * guard and interceptor get an `internal` child span. Application
+ * middleware (`app.use()`) is not spanned individually: it runs inside the
+ * server span. Mount `tracing()` first, so the server span covers them.
+ *
+ * @example
+ * ```typescript
+ * const exporter = createOtlpExporter({ serviceName: 'orders' });
+ *
+ * app.use(tracing({ exporter }));
+ * app.route('/', router);
+ * ```
+ *
+ * @throws {TypeError} When `exporter` has no `export()` method.
+ * @throws {RangeError} When `sampleRate` is outside `0`–`1`.
+ */
+export function tracing(options: TracingOptions): Middleware {
+  const {
+    exporter,
+    sampleRate = 1,
+    trustIncoming = true,
+    skip,
+    logger = console,
+    onError = (error: unknown) => {
+      logger.warn('[@nextrush/tracing] Span export failed:', error);
+    },
+  } = options;
+
+  if (typeof (exporter as Partial<typeof exporter> | undefined)?.export !== 'function') {
+    throw new TypeError('tracing(): `exporter` must have an export() method');
+  }
+  if (!(sampleRate >= 0 && sampleRate <= 1)) {
+    throw new RangeError('tracing(): `sampleRate` must be between 0 and 1');
+  }
+
+  const emit = (spans: readonly SpanData[]): void => {
+    try {
+      exporter.export(spans).catch(onError);
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  return async (ctx: Context, next: Next): Promise<void> => {
+    if (skip?.(ctx)) {
+      await next();
+      return;
+    }
+
+    const parent = trustIncoming ? extractParent(ctx) : undefined;
+    const sampled = parent
+      ? (parent.traceFlags & TRACE_FLAG_SAMPLED) !== 0
+      : sampleRate > 0 && Math.random() < sampleRate;
+    const context: TraceContext = {
+      traceId: parent?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      traceFlags: sampled ? TRACE_FLAG_SAMPLED : 0,
+      ...(parent?.traceState === undefined ? {} : { traceState: parent.traceState }),
+    };
+
+    const state = ctx.state as Record<symbol, unknown>;
+    if (!sampled) {
+      // Nothing is recorded, but outgoing calls still carry the trace on.
+      state[TRACE_STATE] = context;
+      await next();
+      return;
+    }
+
+    const trace = new RequestTrace(parent, context, serverAttributes(ctx), emit);
+    state[TRACE_STATE] = trace;
+    state[REQUEST_TRACER] = trace;
+
+    const server = trace.server;
+    let thrown: { error: unknown } | undefined;
+    try {
+      await next();
+    } catch (error) {
+      thrown = { error };
+      throw error;
+    } finally {
+      const status = thrown ? errorStatus(thrown.error) : ctx.status;
+      server.attributes['http.response.status_code'] = status;
+
+      const errorType = thrown ? recordException(server, thrown.error) : undefined;
+      // Only a 5xx is the server's failure; a 4xx span stays unset.
+      if (status >= 500) {
+        server.attributes['error.type'] = errorType ?? String(status);
+        server.status = thrown
+          ? { code: 'error', message: errorMessage(thrown.error) }
+          : { code: 'error' };
+      }
+
+      const route = server.attributes['http.route'];
+      trace.finish(route === undefined ? ctx.method : `${ctx.method} ${String(route)}`);
+    }
+  };
+}
+
+/**
+ * The trace context of the request's current span — the one an outgoing call
+ * made now should name as its parent — or `undefined` outside `tracing()`.
+ */
+export function getTraceContext(ctx: Context): TraceContext | undefined {
+  const stored = (ctx.state as Record<symbol, unknown>)[TRACE_STATE];
+  if (stored instanceof RequestTrace) return stored.currentContext();
+  return stored as TraceContext | undefined;
+}
+
+/**
+ * `traceparent` and `tracestate` headers that continue the request's trace
+ * in an outgoing call. Empty outside `tracing()`.
+ *
+ * @example
+ * ```typescript
+ * const res = await fetch(inventoryUrl, { headers: traceHeaders(ctx) });
+ * ```
+ */
+export function traceHeaders(ctx: Context): Record<string, string> {
+  const context = getTraceContext(ctx);
+  if (!context) return {};
+
+  const headers: Record<string, string> = { [TRACEPARENT_HEADER]: formatTraceparent(context) };
+  if (context.traceState !== undefined) headers[TRACESTATE_HEADER] = context.traceState;
+  return headers;
+}
@@ -0,0 +1,258 @@
+/**
+ * @nextrush/tracing - OTLP/HTTP Exporter
+ *
+ * Sends spans to an OpenTelemetry collector (or any OTLP/HTTP endpoint) as
+ * JSON, batched, with nothing but `fetch` — so it runs on every runtime.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  DEFAULT_EXPORT_TIMEOUT,
+  DEFAULT_FLUSH_INTERVAL,
+  DEFAULT_MAX_BATCH_SIZE,
+  DEFAULT_MAX_QUEUE_SIZE,
+  DEFAULT_OTLP_ENDPOINT,
+  DEFAULT_SERVICE_NAME,
+  INSTRUMENTATION_SCOPE,
+} from './constants';
+import type {
+  AttributeValue,
+  OtlpExporterOptions,
+  SpanAttributes,
+  SpanData,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+} from './types';
+
+// ============================================================================
+// OTLP/JSON encoding
+// ============================================================================
+
+type OtlpValue =
+  { stringValue: string } | { boolValue: boolean } | { intValue: string } | { doubleValue: number };
+
+interface OtlpAttribute {
+  key: string;
+  value: OtlpValue;
+}
+
+/** `SPAN_KIND_INTERNAL` and `SPAN_KIND_SERVER` of the OTLP `Span.SpanKind` enum. */
+const OTLP_SPAN_KIND: Readonly<Record<SpanKind, number>> = { internal: 1, server: 2 };
+
+/** `STATUS_CODE_UNSET`, `_OK` and `_ERROR` of the OTLP `Status.StatusCode` enum. */
+const OTLP_STATUS_CODE: Readonly<Record<SpanStatus['code'], number>> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+function encodeValue(value: AttributeValue): OtlpValue {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  // OTLP/JSON carries 64-bit integers as decimal strings.
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function encodeAttributes(attributes: SpanAttributes): OtlpAttribute[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: encodeValue(value) }));
+}
+
+/**
+ * Epoch milliseconds as OTLP's decimal-string nanoseconds. Whole milliseconds
+ * and the fraction are converted apart, since epoch nanoseconds are past
+ * `Number.MAX_SAFE_INTEGER`.
+ */
+function toUnixNano(ms: number): string {
+  const whole = Math.floor(ms);
+  const nanos = Math.round((ms - whole) * 1e6);
+  return (BigInt(whole) * 1_000_000n + BigInt(nanos)).toString();
+}
+
+function encodeSpan(span: SpanData): Record<string, unknown> {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId === undefined ? {} : { parentSpanId: span.parentSpanId }),
+    ...(span.traceState === undefined ? {} : { traceState: span.traceState }),
+    name: span.name,
+    kind: OTLP_SPAN_KIND[span.kind],
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    attributes: encodeAttributes(span.attributes),
+    events: span.events.map((event) => ({
+      timeUnixNano: toUnixNano(event.time),
+      name: event.name,
+      attributes: encodeAttributes(event.attributes),
+    })),
+    status: {
+      code: OTLP_STATUS_CODE[span.status.code],
+      ...(span.status.message === undefined ? {} : { message: span.status.message }),
+    },
+  };
+}
+
+/**
+ * The `ExportTraceServiceRequest` body for `spans`, in OTLP/JSON: one
+ * resource, one instrumentation scope.
+ */
+export function encodeOtlpTraces(
+  spans: readonly SpanData[],
+  resource: SpanAttributes
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: encodeAttributes(resource) },
+        scopeSpans: [{ scope: { name: INSTRUMENTATION_SCOPE }, spans: spans.map(encodeSpan) }],
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// Exporter
+// ============================================================================
+
+/**
+ * Span exporter that POSTs batches to an OTLP/HTTP endpoint as JSON.
+ *
+ * Spans are queued and sent once `maxBatchSize` are waiting or
+ * `flushInterval` has passed since the first. The interval timer does not
+ * keep the process alive; call `shutdown()` on exit, and `forceFlush()` —
+ * under `waitUntil()` where the runtime has it — before a serverless
+ * invocation returns.
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly resource: SpanAttributes;
+  private readonly maxBatchSize: number;
+  private readonly maxQueueSize: number;
+  private readonly flushInterval: number;
+  private readonly timeout: number;
+  private readonly fetch: typeof globalThis.fetch;
+  private readonly onError: (error: unknown) => void;
+
+  private queue: SpanData[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private sending: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(options: OtlpExporterOptions = {}) {
+    this.url = options.url ?? DEFAULT_OTLP_ENDPOINT;
+    this.headers = { ...options.headers, 'content-type': 'application/json' };
+    this.resource = {
+      ...options.resourceAttributes,
+      'service.name': options.serviceName ?? DEFAULT_SERVICE_NAME,
+    };
+    this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.timeout = options.timeout ?? DEFAULT_EXPORT_TIMEOUT;
+    const logger = options.logger ?? console;
+    this.onError =
+      options.onError ??
+      ((error: unknown) => {
+        logger.warn('[@nextrush/tracing] OTLP export failed:', error);
+      });
+
+    const fetchImpl: typeof fetch | undefined = options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new TypeError('createOtlpExporter(): no fetch() in this runtime; pass `fetch`');
+    }
+    this.fetch = fetchImpl;
+
+    if (!(this.maxBatchSize >= 1 && this.maxQueueSize >= this.maxBatchSize)) {
+      throw new RangeError(
+        'createOtlpExporter(): `maxBatchSize` must be at least 1 and at most `maxQueueSize`'
+      );
+    }
+  }
+
+  /** Queue `spans`; a full batch is sent straight away. Never rejects. */
+  export(spans: readonly SpanData[]): Promise<void> {
+    if (this.stopped) return Promise.resolve();
+
+    const room = this.maxQueueSize - this.queue.length;
+    if (room < spans.length) {
+      this.onError(new Error(`OTLP queue is full; dropped ${String(spans.length - room)} span(s)`));
+    }
+    this.queue.push(...spans.slice(0, Math.max(room, 0)));
+
+    if (this.queue.length >= this.maxBatchSize) return this.flushQueue();
+    if (this.queue.length > 0 && this.timer === undefined) {
+      this.timer = setTimeout(() => {
+        void this.flushQueue();
+      }, this.flushInterval);
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+    return Promise.resolve();
+  }
+
+  /** Send every queued span and wait for the sends in flight. */
+  forceFlush(): Promise<void> {
+    return this.flushQueue();
+  }
+
+  /** Send every queued span, then drop any exported after. */
+  shutdown(): Promise<void> {
+    this.stopped = true;
+    return this.flushQueue();
+  }
+
+  private flushQueue(): Promise<void> {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const batches: SpanData[][] = [];
+    while (this.queue.length > 0) batches.push(this.queue.splice(0, this.maxBatchSize));
+
+    // Batches go out one at a time, in order, behind any send in flight.
+    for (const batch of batches) {
+      this.sending = this.sending.then(() => this.send(batch));
+    }
+    return this.sending;
+  }
+
+  private async send(batch: readonly SpanData[]): Promise<void> {
+    try {
+      const response = await this.fetch(this.url, {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify(encodeOtlpTraces(batch, this.resource)),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(
+          `OTLP endpoint answered ${String(response.status)} for ${String(batch.length)} span(s)`
+        );
+      }
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+}
+
+/**
+ * Create an {@link OtlpHttpExporter}.
+ *
+ * @example
+ * ```typescript
+ * const exporter = createOtlpExporter({
+ *   url: 'https://otlp.example.com/v1/traces',
+ *   headers: { authorization: `Bearer ${process.env.OTLP_TOKEN}` },
+ *   serviceName: 'orders',
+ * });
+ * ```
+ *
+ * @throws {TypeError} When the runtime has no `fetch` and none is passed.
+ * @throws {RangeError} When `maxBatchSize` is below 1 or above `maxQueueSize`.
+ */
+export function createOtlpExporter(options?: OtlpExporterOptions): OtlpHttpExporter {
+  return new OtlpHttpExporter(options);
+}
@@ -0,0 +1,96 @@
+/**
+ * @nextrush/tracing - W3C Trace Context
+ *
+ * Parsing and formatting of the `traceparent` and `tracestate` headers
+ * (https://www.w3.org/TR/trace-context/), and random trace and span IDs.
+ *
+ * @packageDocumentation
+ */
+
+import { MAX_TRACESTATE_MEMBERS } from './constants';
+import type { TraceContext } from './types';
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const ALL_ZEROS = /^0+$/;
+
+const TRACESTATE_KEY =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+const TRACESTATE_VALUE = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Parse a `traceparent` header. Returns `undefined` for anything the
+ * specification says to ignore: a malformed value, uppercase hex, version
+ * `ff`, an all-zero ID, or a version-`00` header with trailing data. A
+ * higher version is read for its first four fields, as the specification
+ * asks.
+ *
+ * @example
+ * ```typescript
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf9…4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }
+ * ```
+ */
+export function parseTraceparent(header: string): TraceContext | undefined {
+  const match = TRACEPARENT.exec(header.trim());
+  if (!match) return undefined;
+
+  const [, version = '', traceId = '', spanId = '', flags = '', rest] = match;
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return undefined;
+  if (ALL_ZEROS.test(traceId) || ALL_ZEROS.test(spanId)) return undefined;
+
+  return { traceId, spanId, traceFlags: Number.parseInt(flags, 16) };
+}
+
+/** Format a version-`00` `traceparent` header. */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Validate a `tracestate` header and return it normalized — members
+ * trimmed, empty members dropped — or `undefined` when it must be discarded:
+ * an invalid or duplicated key, an invalid value, or more than
+ * {@link MAX_TRACESTATE_MEMBERS} members.
+ */
+export function parseTracestate(header: string): string | undefined {
+  const members: string[] = [];
+  const keys = new Set<string>();
+
+  for (const part of header.split(',')) {
+    const member = part.trim();
+    if (!member) continue;
+
+    const eq = member.indexOf('=');
+    if (eq <= 0) return undefined;
+    const key = member.slice(0, eq);
+    const value = member.slice(eq + 1);
+    if (!TRACESTATE_KEY.test(key) || !TRACESTATE_VALUE.test(value) || keys.has(key)) {
+      return undefined;
+    }
+
+    keys.add(key);
+    members.push(member);
+  }
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) return undefined;
+  return members.join(',');
+}
+
+function randomHex(bytes: number): string {
+  const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+  let hex = '';
+  for (const byte of buffer) hex += byte.toString(16).padStart(2, '0');
+  // An all-zero ID is invalid; at these lengths it is also all but impossible.
+  return ALL_ZEROS.test(hex) ? randomHex(bytes) : hex;
+}
+
+/** A random 16-byte trace ID, as 32 lowercase hex characters. */
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+/** A random 8-byte span ID, as 16 lowercase hex characters. */
+export function generateSpanId(): string {
+  return randomHex(8);
+}
@@ -0,0 +1,160 @@
+/**
+ * @nextrush/tracing - Request Trace
+ *
+ * The spans of one sampled request: its server span and a child span for
+ * each step the router and class runtime run through {@link RequestTracer}.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import type { RequestTracer } from '@nextrush/types';
+import { generateSpanId } from './trace-context';
+import type {
+  SpanAttributes,
+  SpanData,
+  SpanEvent,
+  SpanKind,
+  TraceContext,
+  TraceStepKind,
+} from './types';
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+interface RecordingSpan extends Mutable<SpanData> {
+  events: SpanEvent[];
+}
+
+/** Milliseconds since the Unix epoch, at the precision of `performance.now()`. */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/** The `exception` event the OpenTelemetry conventions ask for; returns the error's type. */
+export function recordException(span: RecordingSpan, error: unknown): string {
+  const type = error instanceof Error ? error.name : typeof error;
+  span.events.push({
+    name: 'exception',
+    time: now(),
+    attributes: { 'exception.type': type, 'exception.message': errorMessage(error) },
+  });
+  return type;
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Records the spans of one request and hands them to `emit` once the server
+ * span ends.
+ *
+ * Steps open their span under the innermost span still open. The router and
+ * class runtime run steps either one after another (guards) or each inside
+ * the last (middleware, interceptors), so that is always the step's caller;
+ * steps run concurrently would nest under one another.
+ */
+export class RequestTrace implements RequestTracer {
+  readonly server: RecordingSpan;
+  private readonly open: RecordingSpan[] = [];
+  private finished: SpanData[] | undefined = [];
+
+  constructor(
+    parent: TraceContext | undefined,
+    context: TraceContext,
+    attributes: SpanAttributes,
+    private readonly emit: (spans: readonly SpanData[]) => void
+  ) {
+    this.server = this.start(context.spanId, parent?.spanId, 'server', '', attributes, context);
+  }
+
+  /** The innermost open span — what an outgoing call should name as its parent. */
+  currentContext(): TraceContext {
+    const { traceId, spanId, traceFlags, traceState } = this.innermost();
+    return traceState === undefined
+      ? { traceId, spanId, traceFlags }
+      : { traceId, spanId, traceFlags, traceState };
+  }
+
+  setRoute(route: string): void {
+    this.server.attributes['http.route'] = route;
+  }
+
+  async step<T>(kind: TraceStepKind, name: string, run: () => T | PromiseLike<T>): Promise<T> {
+    const span = this.start(
+      generateSpanId(),
+      this.innermost().spanId,
+      'internal',
+      `${kind} ${name}`,
+      {
+        'nextrush.step.kind': kind,
+        'nextrush.step.name': name,
+      }
+    );
+    this.open.push(span);
+
+    try {
+      const value = await run();
+      this.end(span);
+      return value;
+    } catch (error) {
+      this.fail(span, error);
+      throw error;
+    }
+  }
+
+  /** End the server span under its final name, and emit the trace. */
+  finish(name: string): void {
+    this.server.name = name;
+    this.end(this.server);
+
+    const spans = this.finished;
+    this.finished = undefined;
+    if (spans) this.emit(spans);
+  }
+
+  private innermost(): RecordingSpan {
+    return this.open[this.open.length - 1] ?? this.server;
+  }
+
+  private start(
+    spanId: string,
+    parentSpanId: string | undefined,
+    kind: SpanKind,
+    name: string,
+    attributes: SpanAttributes,
+    context: TraceContext = this.server
+  ): RecordingSpan {
+    return {
+      traceId: context.traceId,
+      spanId,
+      ...(parentSpanId === undefined ? {} : { parentSpanId }),
+      traceFlags: context.traceFlags,
+      ...(context.traceState === undefined ? {} : { traceState: context.traceState }),
+      name,
+      kind,
+      startTime: now(),
+      endTime: 0,
+      attributes,
+      status: { code: 'unset' },
+      events: [],
+    };
+  }
+
+  private fail(span: RecordingSpan, error: unknown): void {
+    span.attributes['error.type'] = recordException(span, error);
+    span.status = { code: 'error', message: errorMessage(error) };
+    this.end(span);
+  }
+
+  private end(span: RecordingSpan): void {
+    span.endTime = now();
+
+    const index = this.open.lastIndexOf(span);
+    if (index !== -1) this.open.splice(index, 1);
+
+    // A step still running when the request ended is sent on its own.
+    if (this.finished) this.finished.push(span);
+    else if (span !== this.server) this.emit([span]);
+  }
+}
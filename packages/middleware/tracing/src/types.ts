@@ -0,0 +1,192 @@
+/**
+ * @nextrush/tracing - Type Definitions
+ *
+ * @packageDocumentation
+ */
+
+import type { Context, Logger, Middleware, TraceStepKind } from '@nextrush/types';
+
+export type { Context, Middleware, TraceStepKind };
+
+// ============================================================================
+// Trace context
+// ============================================================================
+
+/** One position in a trace, as carried by a W3C `traceparent` header. */
+export interface TraceContext {
+  /** 32 lowercase hex characters, never all zeros. */
+  readonly traceId: string;
+
+  /** 16 lowercase hex characters identifying a span, never all zeros. */
+  readonly spanId: string;
+
+  /** Trace flags; bit 0 ({@link TRACE_FLAG_SAMPLED}) means the trace is recorded. */
+  readonly traceFlags: number;
+
+  /** The validated `tracestate` header, passed on unchanged. */
+  readonly traceState?: string;
+}
+
+// ============================================================================
+// Spans
+// ============================================================================
+
+/** `server` for the request's span, `internal` for the steps inside it. */
+export type SpanKind = 'server' | 'internal';
+
+/** Value of a span or event attribute. */
+export type AttributeValue = string | number | boolean;
+
+/** Attributes keyed by OpenTelemetry semantic-convention names. */
+export type SpanAttributes = Record<string, AttributeValue>;
+
+/**
+ * Outcome of a span. `error` for a failed step or a 5xx response; a server
+ * span that answered normally — 4xx included — stays `unset`, as the
+ * OpenTelemetry HTTP conventions ask.
+ */
+export interface SpanStatus {
+  readonly code: 'unset' | 'ok' | 'error';
+  readonly message?: string;
+}
+
+/** Something that happened at a point in a span — an `exception`, mostly. */
+export interface SpanEvent {
+  readonly name: string;
+  /** Milliseconds since the Unix epoch, with sub-millisecond precision. */
+  readonly time: number;
+  readonly attributes: SpanAttributes;
+}
+
+/** A finished span, as handed to a {@link SpanExporter}. */
+export interface SpanData {
+  readonly traceId: string;
+  readonly spanId: string;
+  /** The span this one is a child of; absent for a trace's root span. */
+  readonly parentSpanId?: string;
+  readonly traceFlags: number;
+  readonly traceState?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  /** Milliseconds since the Unix epoch, with sub-millisecond precision. */
+  readonly startTime: number;
+  /** Milliseconds since the Unix epoch, with sub-millisecond precision. */
+  readonly endTime: number;
+  readonly attributes: SpanAttributes;
+  readonly status: SpanStatus;
+  readonly events: readonly SpanEvent[];
+}
+
+// ============================================================================
+// Exporters
+// ============================================================================
+
+/**
+ * Receives finished spans. The middleware hands over each request's spans in
+ * one call once the request ends, and never waits for it: an exporter that
+ * sends over the network should queue and batch.
+ */
+export interface SpanExporter {
+  export(spans: readonly SpanData[]): Promise<void>;
+
+  /** Send anything queued. Call it before a serverless invocation returns. */
+  forceFlush?(): Promise<void>;
+
+  /** Send anything queued, then stop accepting spans. */
+  shutdown?(): Promise<void>;
+}
+
+/** Options for `createOtlpExporter()`. */
+export interface OtlpExporterOptions {
+  /**
+   * OTLP/HTTP traces endpoint.
+   * @default 'http://localhost:4318/v1/traces'
+   */
+  url?: string;
+
+  /** Extra request headers — an API key for a hosted collector, say. */
+  headers?: Record<string, string>;
+
+  /**
+   * `service.name` of the exported resource.
+   * @default 'unknown_service'
+   */
+  serviceName?: string;
+
+  /** Further resource attributes (`service.version`, `deployment.environment`, …). */
+  resourceAttributes?: SpanAttributes;
+
+  /**
+   * Most spans sent in one request; a full batch is sent straight away.
+   * @default 512
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Most spans held while waiting to be sent; spans beyond it are dropped.
+   * @default 2048
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Milliseconds a partial batch waits before it is sent.
+   * @default 5000
+   */
+  flushInterval?: number;
+
+  /**
+   * Milliseconds before a send is abandoned.
+   * @default 10000
+   */
+  timeout?: number;
+
+  /** `fetch` to send with (default: `globalThis.fetch`). */
+  fetch?: typeof globalThis.fetch;
+
+  /**
+   * Where failed sends are reported when no `onError` is given — pass
+   * `app.logger` to keep them with the rest of the app's logs.
+   * @default console
+   */
+  logger?: Logger;
+
+  /** Called when a batch cannot be sent; it is dropped (default: `logger.warn`). */
+  onError?: (error: unknown) => void;
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/** Options for `tracing()`. */
+export interface TracingOptions {
+  /** Where finished spans go. */
+  exporter: SpanExporter;
+
+  /**
+   * Share of new traces to record, from `0` to `1`. A request that continues
+   * a trace follows the caller's sampled flag instead.
+   * @default 1
+   */
+  sampleRate?: number;
+
+  /**
+   * Continue the trace named by an incoming `traceparent`. Turn it off at an
+   * edge that faces untrusted clients, to start every trace here.
+   * @default true
+   */
+  trustIncoming?: boolean;
+
+  /** Requests to leave untraced, such as health checks. */
+  skip?: (ctx: Context) => boolean;
+
+  /**
+   * Where exporter failures are reported when no `onError` is given — pass
+   * `app.logger` to keep them with the rest of the app's logs.
+   * @default console
+   */
+  logger?: Logger;
+
+  /** Called when the exporter rejects (default: `logger.warn`). */
+  onError?: (error: unknown) => void;
+}
@@ -19,12 +19,18 @@ export function fake<T>(
 
 /** Minimal Context stub carrying only what the validation middleware touches. */
 export function mockCtx(
-  init: { body?: unknown; query?: Record<string, unknown>; params?: Record<string, string> } = {}
+  init: {
+    body?: unknown;
+    query?: Record<string, unknown>;
+    params?: Record<string, string>;
+    headers?: Record<string, string | string[]>;
+  } = {}
 ): Context {
   return {
     body: init.body,
     query: init.query ?? {},
     params: init.params ?? {},
+    headers: init.headers ?? {},
   } as unknown as Context;
 }
 
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { readCookies } from '../cookies.js';
+import { mockCtx } from './_helpers.js';
+
+const read = (cookie?: string | string[]) =>
+  readCookies(mockCtx({ headers: cookie === undefined ? {} : { cookie } }));
+
+describe('readCookies', () => {
+  it('returns an empty record without a Cookie header', () => {
+    expect(Object.keys(read())).toEqual([]);
+  });
+
+  it('parses name=value pairs', () => {
+    expect({ ...read('a=1; b=2;c=3') }).toEqual({ a: '1', b: '2', c: '3' });
+  });
+
+  it('keeps the first occurrence of a repeated name', () => {
+    expect(read('id=first; id=second').id).toBe('first');
+  });
+
+  it('decodes values and keeps malformed encodings raw', () => {
+    expect({ ...read('a=hello%20world; b=%E0%A4%A') }).toEqual({
+      a: 'hello world',
+      b: '%E0%A4%A',
+    });
+  });
+
+  it('unwraps double-quoted values', () => {
+    expect(read('q="quoted"').q).toBe('quoted');
+  });
+
+  it('skips pairs without a name or an =', () => {
+    expect(Object.keys(read('=orphan; flag; ok=1'))).toEqual(['ok']);
+  });
+
+  it('joins a header delivered as an array', () => {
+    expect({ ...read(['a=1', 'b=2']) }).toEqual({ a: '1', b: '2' });
+  });
+
+  it('treats __proto__ as plain data (null-prototype record)', () => {
+    const cookies = read('__proto__=polluted; constructor=x');
+    expect(Object.getPrototypeOf(cookies)).toBeNull();
+    expect(cookies['__proto__']).toBe('polluted');
+    expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+  });
+});
@@ -60,6 +60,24 @@ describe('integration: real Zod', () => {
     expect(t.called()).toBe(true);
   });
 
+  it('validates real Zod header and cookie schemas', async () => {
+    const ctx = mockCtx({ headers: { 'x-api-key': 'k_123', cookie: 'sid=s%3A42' } });
+    const t = tracker();
+    await validate({
+      headers: z.object({ 'x-api-key': z.string().startsWith('k_') }),
+      cookies: z.object({ sid: z.literal('s:42') }),
+    })(ctx, t.next);
+    expect(t.called()).toBe(true);
+  });
+
+  it('rejects a missing Zod-required header with a headers.* path', async () => {
+    const ctx = mockCtx({ headers: {} });
+    const err = await catchErr(
+      validate({ headers: z.object({ 'x-tenant': z.string() }) })(ctx, tracker().next)
+    );
+    expect(err.issues.map((i) => i.path)).toEqual(['headers.x-tenant']);
+  });
+
   it('does not leak the raw invalid value for a real Zod failure', async () => {
     const Login = z.object({ email: z.string().email(), password: z.string().min(8) });
     const ctx = mockCtx({ body: { email: 'bad', password: 'secret-password-123' } });
@@ -7,14 +7,14 @@
  */
 import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as validationApi from '../index';
-import type { ValidationIssue } from '../index';
+import type { ResponseValidationMode, ResponseValidationOptions, ValidationIssue } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
     const actualExports = Object.keys(validationApi).sort();
 
     // SEALED: intentional public runtime API surface.
-    const expectedRuntime = ['validate', 'ValidationError'].sort();
+    const expectedRuntime = ['runSchema', 'validate', 'validateResponse', 'ValidationError'].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
   });
@@ -24,7 +24,7 @@ describe('Public API surface (type-only exports)', () => {
   it('the type-only surface stays importable from the barrel', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
-    type Surface = [ValidationIssue];
+    type Surface = [ResponseValidationMode, ResponseValidationOptions, ValidationIssue];
     expectTypeOf<Surface>().not.toBeNever();
   });
 });
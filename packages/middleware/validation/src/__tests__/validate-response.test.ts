@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { InternalServerError, type ValidationIssue } from '@nextrush/errors';
+import { ROUTE_METADATA } from '@nextrush/types';
+import type { Context, Next } from '@nextrush/types';
+import { validateResponse } from '../validate-response.js';
+import { fake } from './_helpers.js';
+
+/** Context stub that records what actually went out through ctx.json(). */
+function responseCtx(): Context & { sent: { status: number; data: unknown }[] } {
+  const sent: { status: number; data: unknown }[] = [];
+  const ctx = {
+    method: 'GET',
+    path: '/users/1',
+    status: 200,
+    sent,
+    json(data: unknown) {
+      sent.push({ status: ctx.status, data });
+    },
+  };
+  return ctx as unknown as Context & { sent: typeof sent };
+}
+
+/** A `next` that plays the handler: sets a status and sends a JSON body. */
+function handler(status: number, data: unknown, ctx: Context): Next {
+  return async () => {
+    ctx.status = status;
+    ctx.json(data);
+  };
+}
+
+const User = z.object({ id: z.number(), name: z.string() });
+
+describe('validateResponse', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('sends a valid body unchanged', async () => {
+    const ctx = responseCtx();
+    const body = { id: 1, name: 'Ada', internal: true };
+    await validateResponse({ 200: User }, { mode: 'strict' })(ctx, handler(200, body, ctx));
+    expect(ctx.sent).toEqual([{ status: 200, data: body }]);
+  });
+
+  it('strips unknown fields when strip is enabled', async () => {
+    const ctx = responseCtx();
+    const body = { id: 1, name: 'Ada', passwordHash: 'x' };
+    await validateResponse({ 200: User }, { strip: true })(ctx, handler(200, body, ctx));
+    expect(ctx.sent).toEqual([{ status: 200, data: { id: 1, name: 'Ada' } }]);
+  });
+
+  it('throws a non-exposed 500 in strict mode and sends nothing', async () => {
+    const ctx = responseCtx();
+    const onInvalid = vi.fn();
+    const mw = validateResponse({ 200: User }, { mode: 'strict', onInvalid });
+    const err = await mw(ctx, handler(200, { id: 'one' }, ctx)).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(InternalServerError);
+    expect((err as InternalServerError).expose).toBe(false);
+    expect((err as InternalServerError).code).toBe('RESPONSE_VALIDATION_ERROR');
+    expect(ctx.sent).toEqual([]);
+    const issues = onInvalid.mock.calls[0]?.[0] as ValidationIssue[];
+    expect(issues.map((i) => i.path).sort()).toEqual(['response.id', 'response.name']);
+  });
+
+  it('restores ctx.json before the error propagates', async () => {
+    const ctx = responseCtx();
+    const mw = validateResponse({ 200: User }, { mode: 'strict', onInvalid: () => {} });
+    await mw(ctx, handler(200, {}, ctx)).catch(() => {});
+    ctx.json({ error: 'rendered by the error handler' });
+    expect(ctx.sent).toEqual([{ status: 200, data: { error: 'rendered by the error handler' } }]);
+  });
+
+  it('reports but still sends the original body in log mode', async () => {
+    const ctx = responseCtx();
+    const onInvalid = vi.fn();
+    const body = { id: 'one' };
+    await validateResponse({ 200: User }, { mode: 'log', onInvalid })(ctx, handler(200, body, ctx));
+    expect(onInvalid).toHaveBeenCalledOnce();
+    expect(ctx.sent).toEqual([{ status: 200, data: body }]);
+  });
+
+  it('checks against the schema for the committed status', async () => {
+    const NotFound = fake(() => ({ issues: [{ message: 'bad error body' }] }));
+    const ctx = responseCtx();
+    const onInvalid = vi.fn();
+    const mw = validateResponse({ 200: User, 404: NotFound }, { mode: 'log', onInvalid });
+    await mw(ctx, handler(404, { id: 1, name: 'Ada' }, ctx));
+    expect(onInvalid).toHaveBeenCalledOnce();
+    expect(ctx.sent[0]?.status).toBe(404);
+  });
+
+  it('passes statuses without a schema through unchecked', async () => {
+    const ctx = responseCtx();
+    const body = { anything: true };
+    await validateResponse({ 200: User }, { mode: 'strict' })(ctx, handler(201, body, ctx));
+    expect(ctx.sent).toEqual([{ status: 201, data: body }]);
+  });
+
+  it('does nothing when the handler sends no JSON', async () => {
+    const ctx = responseCtx();
+    await validateResponse({ 200: User })(ctx, async () => {});
+    expect(ctx.sent).toEqual([]);
+  });
+
+  it('skips the check for unsampled responses', async () => {
+    const ctx = responseCtx();
+    const validateFn = vi.fn(() => ({ issues: [{ message: 'never reached' }] }));
+    const mw = validateResponse({ 200: fake(validateFn) }, { mode: 'strict', sampleRate: 0 });
+    await mw(ctx, handler(200, { id: 1 }, ctx));
+    expect(validateFn).not.toHaveBeenCalled();
+    expect(ctx.sent).toHaveLength(1);
+  });
+
+  it('still strips unsampled responses, since stripping is serialization', async () => {
+    const ctx = responseCtx();
+    const mw = validateResponse({ 200: User }, { strip: true, sampleRate: 0 });
+    await mw(ctx, handler(200, { id: 1, name: 'Ada', extra: 1 }, ctx));
+    expect(ctx.sent[0]?.data).toEqual({ id: 1, name: 'Ada' });
+  });
+
+  it('defaults to log-only in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const ctx = responseCtx();
+    const onInvalid = vi.fn();
+    await validateResponse({ 200: User }, { onInvalid })(ctx, handler(200, {}, ctx));
+    expect(onInvalid).toHaveBeenCalledOnce();
+    expect(ctx.sent).toHaveLength(1);
+  });
+
+  it('defaults to strict outside production', async () => {
+    vi.stubEnv('NODE_ENV', 'test');
+    const ctx = responseCtx();
+    const mw = validateResponse({ 200: User }, { onInvalid: () => {} });
+    await expect(mw(ctx, handler(200, {}, ctx))).rejects.toBeInstanceOf(InternalServerError);
+  });
+
+  it('propagates a schema that itself throws', async () => {
+    const boom = new Error('schema exploded');
+    const ctx = responseCtx();
+    const schema = fake(() => {
+      throw boom;
+    });
+    await expect(validateResponse({ 200: schema })(ctx, handler(200, {}, ctx))).rejects.toBe(boom);
+  });
+
+  it('contributes the schemas as RouteMetadata.responses', () => {
+    const mw = validateResponse({ 200: User });
+    const contribution = (mw as unknown as Record<symbol, unknown>)[ROUTE_METADATA];
+    expect(contribution).toEqual({ responses: { 200: User } });
+    expect(Object.keys(mw)).not.toContain(ROUTE_METADATA.toString());
+  });
+});
@@ -79,6 +79,62 @@ describe('validate (multi-target)', () => {
   });
 });
 
+describe('validate (headers and cookies)', () => {
+  it('validates ctx.headers by lowercase name and leaves them unmodified', async () => {
+    const headers = fake((v) =>
+      typeof (v as Record<string, unknown>)['x-api-key'] === 'string'
+        ? { value: { 'x-api-key': 'coerced' } }
+        : { issues: [{ message: 'Required', path: ['x-api-key'] }] }
+    );
+    const ctx = mockCtx({ headers: { 'x-api-key': 'k1' } });
+    const t = tracker();
+    await validate({ headers })(ctx, t.next);
+    expect(ctx.headers).toEqual({ 'x-api-key': 'k1' });
+    expect(t.called()).toBe(true);
+  });
+
+  it('validates cookies parsed from the Cookie header', async () => {
+    let seen: unknown;
+    const cookies = fake((v) => {
+      seen = v;
+      return { value: v };
+    });
+    const ctx = mockCtx({ headers: { cookie: 'session=abc; theme=dark' } });
+    await validate({ cookies })(ctx, tracker().next);
+    expect({ ...(seen as object) }).toEqual({ session: 'abc', theme: 'dark' });
+  });
+
+  it('validates an empty cookie record when no Cookie header is sent', async () => {
+    const cookies = fake((v) =>
+      Object.keys(v as object).length === 0
+        ? { issues: [{ message: 'Required', path: ['session'] }] }
+        : { value: v }
+    );
+    const err = await catchErr(validate({ cookies })(mockCtx(), tracker().next));
+    expect(err.issues.map((i) => i.path)).toEqual(['cookies.session']);
+  });
+
+  it('aggregates header and cookie issues with the other targets', async () => {
+    const fail = (field: string) => fake(() => ({ issues: [{ message: 'bad', path: [field] }] }));
+    const ctx = mockCtx({ body: {}, headers: {} });
+    const err = await catchErr(
+      validate({ body: fail('name'), headers: fail('x-tenant'), cookies: fail('sid') })(
+        ctx,
+        tracker().next
+      )
+    );
+    expect(err.issues.map((i) => i.path)).toEqual(['body.name', 'headers.x-tenant', 'cookies.sid']);
+  });
+
+  it('does not overwrite body when a header schema fails (atomic)', async () => {
+    const original = { raw: 1 };
+    const body = fake(() => ({ value: { clean: true } }));
+    const headers = fake(() => ({ issues: [{ message: 'missing', path: ['x-api-key'] }] }));
+    const ctx = mockCtx({ body: original });
+    await catchErr(validate({ body, headers })(ctx, tracker().next));
+    expect(ctx.body).toBe(original);
+  });
+});
 
 describe('validate() route metadata contribution', () => {
   it('attaches request.body under ROUTE_METADATA (body shorthand)', () => {
@@ -94,6 +150,13 @@ describe('validate() route metadata contribution', () => {
     expect(Reflect.get(mw, ROUTE_METADATA)).toEqual({ request: { body, query } });
   });
 
+  it('attaches header and cookie schemas alongside the others', () => {
+    const headers = fake(() => ({ value: {} }));
+    const cookies = fake(() => ({ value: {} }));
+    const mw = validate({ headers, cookies });
+    expect(Reflect.get(mw, ROUTE_METADATA)).toEqual({ request: { headers, cookies } });
+  });
+
   it('makes the contribution non-enumerable (public API unchanged)', () => {
     const mw = validate(fake(() => ({ value: {} })));
     const descriptor = Object.getOwnPropertyDescriptor(mw, ROUTE_METADATA);
@@ -0,0 +1,48 @@
+/**
+ * @nextrush/validation - Cookie Parsing
+ *
+ * `validate({ cookies })` reads the `Cookie` request header directly rather
+ * than depending on `@nextrush/cookies` — a validation rule must not require a
+ * second middleware to be mounted first. The parsing rules match that package:
+ * first occurrence of a name wins, values are URI-decoded when possible.
+ */
+
+import type { Context } from '@nextrush/types';
+
+/**
+ * Parse the request's `Cookie` header into a name → value record.
+ *
+ * The record has a null prototype, so a cookie named `__proto__` or
+ * `constructor` is plain data and can never reach `Object.prototype`.
+ */
+export function readCookies(ctx: Context): Record<string, string> {
+  const cookies = Object.create(null) as Record<string, string>;
+  const header = ctx.headers.cookie;
+  const raw = Array.isArray(header) ? header.join('; ') : header;
+  if (!raw) return cookies;
+
+  for (const pair of raw.split(/;\s*/)) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+
+    const name = pair.slice(0, eq).trim();
+    if (!name || name in cookies) continue;
+
+    let value = pair.slice(eq + 1).trim();
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    cookies[name] = decode(value);
+  }
+  return cookies;
+}
+
+/** URI-decode a cookie value, keeping the raw value when it is malformed. */
+function decode(value: string): string {
+  if (!value.includes('%')) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -1,12 +1,13 @@
 /**
  * @nextrush/validation
  *
- * Standard Schema request validation middleware for NextRush. Works with any
- * schema library that implements Standard Schema (Zod, Valibot, ArkType, ...).
+ * Standard Schema request and response validation middleware for NextRush.
+ * Works with any schema library that implements Standard Schema (Zod, Valibot,
+ * ArkType, ...).
  *
  * @example
  * ```typescript
- * import { validate } from '@nextrush/validation';
+ * import { validate, validateResponse } from '@nextrush/validation';
  * import { z } from 'zod';
  *
  * const User = z.object({ name: z.string().min(1), email: z.string().email() });
@@ -14,12 +15,23 @@
  * app.post('/users', validate(User), (ctx) => {
  *   ctx.json(ctx.body); // validated + coerced
  * });
+ *
+ * // Outgoing JSON, checked against the schema for ctx.status
+ * app.get('/users/:id', validateResponse({ 200: User }), (ctx) => {
+ *   ctx.json(findUser(ctx.params.id));
+ * });
  * ```
  *
  * @packageDocumentation
  */
 
 export { validate } from './validate.js';
+export { runSchema } from './run-schema.js';
+export {
+  validateResponse,
+  type ResponseValidationMode,
+  type ResponseValidationOptions,
+} from './validate-response.js';
 
 // Re-exported so validation errors can be caught/typed from a single import
 // site. The error itself is owned by @nextrush/errors and rendered by the
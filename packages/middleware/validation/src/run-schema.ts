@@ -2,8 +2,9 @@
  * @nextrush/validation - Schema Runner
  *
  * The single place that touches the Standard Schema contract. Every entry
- * point (the `validate` middleware, and any future integration) delegates here
- * so validation behaviour is defined exactly once.
+ * point (the `validate` middleware, and integrations such as the
+ * `@nextrush/class` parameter decorators) delegates here so validation
+ * behaviour is defined exactly once.
  */
 
 import { ValidationError } from '@nextrush/errors';
@@ -15,7 +16,7 @@ import type { InferOutput, StandardSchemaV1 } from '@nextrush/types';
  *
  * @param schema - Any schema implementing Standard Schema (Zod, Valibot, ...).
  * @param value - The value to validate (e.g. `ctx.body`).
- * @param pathPrefix - Target name used to prefix issue paths (`'body'` | `'query'` | `'params'`).
+ * @param pathPrefix - Target name used to prefix issue paths (`'body'`, `'query'`, `'headers'`, ...).
  * @returns The schema's validated, coerced output.
  * @throws {ValidationError} Aggregating every issue the schema reported.
  */
@@ -3,13 +3,13 @@
  *
  * These types are internal — they are intentionally not exported from the
  * package barrel. Developers only ever write `validate(schema)` or
- * `validate({ body, query, params })`; they never name these types.
+ * `validate({ body, query, params, headers, cookies })`; they never name these types.
  */
 
 import type { StandardSchemaV1 } from '@nextrush/types';
 
 /** Request part a schema can validate. */
-export type ValidationTarget = 'body' | 'query' | 'params';
+export type ValidationTarget = 'body' | 'query' | 'params' | 'headers' | 'cookies';
 
 /** Map of request part → schema, for multi-target validation. */
 export type RequestSchemas = Partial<Record<ValidationTarget, StandardSchemaV1>>;
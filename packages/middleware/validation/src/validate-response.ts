@@ -0,0 +1,196 @@
+/**
+ * @nextrush/validation - Response Validation Middleware
+ *
+ * `validateResponse()` is the outgoing counterpart of `validate()`. It checks
+ * the JSON a handler sends through `ctx.json()` against the schema declared
+ * for the committed `ctx.status`, so drift between a handler and the published
+ * OpenAPI document is caught on the server, before a client notices. The same
+ * schemas are contributed as `RouteMetadata.responses`, so the document and
+ * the runtime check can never disagree about the contract.
+ */
+
+import { InternalServerError, ValidationError, type ValidationIssue } from '@nextrush/errors';
+import type { Context, Middleware, Next, StandardSchemaV1 } from '@nextrush/types';
+import { ROUTE_METADATA, type MetadataContribution } from '@nextrush/types';
+import { runSchema } from './run-schema.js';
+
+/** Error code carried by the 500 a strict-mode contract violation raises. */
+const RESPONSE_VALIDATION_ERROR_CODE = 'RESPONSE_VALIDATION_ERROR';
+
+/**
+ * How a response that fails its schema is handled.
+ *
+ * - `'strict'` — fail the request with a 500 (`InternalServerError`, never
+ *   exposed to the client). The default outside production.
+ * - `'log'` — report the issues via `onInvalid` and send the body unchanged.
+ *   The default in production.
+ * - `'off'` — skip response checks entirely (`strip` still applies).
+ */
+export type ResponseValidationMode = 'strict' | 'log' | 'off';
+
+/** Options for {@link validateResponse}. */
+export interface ResponseValidationOptions {
+  /**
+   * Failure handling. Defaults to `'log'` when `NODE_ENV === 'production'`,
+   * and `'strict'` otherwise (development and test).
+   */
+  mode?: ResponseValidationMode;
+
+  /**
+   * Fraction of responses checked, from `0` to `1`. Lets production sample a
+   * slice of traffic instead of paying the schema cost on every response.
+   * Ignored when `strip` is enabled — serialization must run on every
+   * response or unknown fields would leak on the unsampled ones.
+   * @default 1
+   */
+  sampleRate?: number;
+
+  /**
+   * Send the schema's validated output instead of the handler's original
+   * value. With a schema that drops unknown keys (Zod's default `z.object`),
+   * this strips fields the contract does not declare — an internal column
+   * added to a database row can no longer leak by accident.
+   * @default false
+   */
+  strip?: boolean;
+
+  /**
+   * Called with the mapped issues whenever a checked response fails its
+   * schema, in every mode that checks. Defaults to a `console.warn` report.
+   */
+  onInvalid?: (issues: readonly ValidationIssue[], ctx: Context) => void;
+}
+
+/** A JSON body captured from the handler, held until its schema has run. */
+interface PendingJson {
+  readonly data: unknown;
+  readonly status: number;
+}
+
+/** Resolve the default mode from the environment, following the helmet/cors convention. */
+function defaultMode(): ResponseValidationMode {
+  return typeof process !== 'undefined' && process.env.NODE_ENV === 'production' ? 'log' : 'strict';
+}
+
+/** Default `onInvalid` reporter. */
+function reportInvalid(issues: readonly ValidationIssue[], ctx: Context): void {
+  console.warn(
+    `[@nextrush/validation] Response for ${ctx.method} ${ctx.path} (${String(ctx.status)}) ` +
+      'does not match its declared schema:',
+    issues
+  );
+}
+
+/**
+ * Create response-validation middleware.
+ *
+ * Register it on a route, ahead of the handler. Every `ctx.json()` call the
+ * handler makes is held back until the schema declared for the committed
+ * status has run; statuses without a schema, and responses sent through
+ * `ctx.send()`/`ctx.html()`/streams, pass through untouched.
+ *
+ * @example
+ * ```typescript
+ * router.get('/users/:id',
+ *   validateResponse({ 200: User, 404: NotFound }, { strip: true }),
+ *   async (ctx) => ctx.json(await db.users.find(ctx.params.id)),
+ * );
+ * ```
+ *
+ * @param responses - Schemas by numeric status; also contributed as `RouteMetadata.responses`.
+ * @param options - Mode, sampling, stripping, and reporting options.
+ */
+export function validateResponse(
+  responses: Readonly<Record<number, StandardSchemaV1>>,
+  options: ResponseValidationOptions = {}
+): Middleware {
+  const mode = options.mode ?? defaultMode();
+  const strip = options.strip ?? false;
+  const sampleRate = options.sampleRate ?? 1;
+  const onInvalid = options.onInvalid ?? reportInvalid;
+
+  const middleware: Middleware = async (ctx: Context, next: Next): Promise<void> => {
+    if (mode === 'off' && !strip) {
+      await next();
+      return;
+    }
+
+    // Shadow ctx.json for the rest of the chain: schemas may be async, but
+    // ctx.json() commits synchronously, so the body is captured here and only
+    // sent once it has been checked. Only the first call is kept, matching
+    // ctx.json()'s own "first response wins" semantics.
+    const sendJson = ctx.json.bind(ctx);
+    let pending: PendingJson | undefined;
+    ctx.json = (data: unknown): void => {
+      pending ??= { data, status: ctx.status };
+    };
+
+    try {
+      await next();
+    } finally {
+      // Restored before anything else runs, so an error handler further up
+      // the chain renders its own body through the real ctx.json().
+      ctx.json = sendJson;
+    }
+
+    if (pending === undefined) return;
+
+    ctx.status = pending.status;
+    const schema = responses[pending.status];
+    const checked = schema !== undefined && (strip || (mode !== 'off' && sampled(sampleRate)));
+    if (!checked) {
+      ctx.json(pending.data);
+      return;
+    }
+
+    const outcome = await check(schema, pending.data);
+    if (outcome.ok) {
+      ctx.json(strip ? outcome.value : pending.data);
+      return;
+    }
+
+    if (mode !== 'off') onInvalid(outcome.issues, ctx);
+    if (mode === 'strict') {
+      throw new InternalServerError('Response validation failed', {
+        code: RESPONSE_VALIDATION_ERROR_CODE,
+        details: { status: pending.status, issues: outcome.issues },
+      });
+    }
+    // Log-only (or off): the contract violation is reported, never turned into
+    // a client-visible failure — an invalid body still beats a 500 in production.
+    ctx.json(pending.data);
+  };
+
+  // Contribute the response schemas to the route metadata, so the document
+  // @nextrush/openapi renders is built from the very schemas checked here.
+  Object.defineProperty(middleware, ROUTE_METADATA, {
+    value: { responses } satisfies MetadataContribution,
+    enumerable: false,
+  });
+
+  return middleware;
+}
+
+/** Whether this response falls inside the sampled fraction. */
+function sampled(rate: number): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+  return Math.random() < rate;
+}
+
+type ResponseCheck =
+  { ok: true; value: unknown } | { ok: false; issues: readonly ValidationIssue[] };
+
+/**
+ * Run a response schema, turning a `ValidationError` into a result. As with
+ * request validation, any other error (a schema that itself throws) is a bug
+ * and propagates untouched.
+ */
+async function check(schema: StandardSchemaV1, value: unknown): Promise<ResponseCheck> {
+  try {
+    return { ok: true, value: await runSchema(schema, value, 'response') };
+  } catch (err) {
+    if (err instanceof ValidationError) return { ok: false, issues: err.issues };
+    throw err;
+  }
+}
@@ -2,9 +2,10 @@
  * @nextrush/validation - Validation Middleware
  *
  * `validate()` is the one public entry point. Pass a schema to validate the
- * request body, or a `{ body, query, params }` map to validate several parts
- * at once. On success the coerced body replaces `ctx.body`; query and params
- * are validated but intentionally left unmodified (see the package README §5).
+ * request body, or a `{ body, query, params, headers, cookies }` map to
+ * validate several parts at once. On success the coerced body replaces
+ * `ctx.body`; every other target is validated but intentionally left
+ * unmodified (see the package README §5).
  * On failure it throws the framework's existing `ValidationError`, aggregating
  * every issue across every target.
  */
@@ -12,6 +13,7 @@
 import { ValidationError, type ValidationIssue } from '@nextrush/errors';
 import type { Context, Middleware, Next } from '@nextrush/types';
 import { ROUTE_METADATA, type MetadataContribution } from '@nextrush/types';
+import { readCookies } from './cookies.js';
 import { runSchema } from './run-schema.js';
 import type { StandardSchemaV1 } from '@nextrush/types';
 import type { RequestSchemas, ValidationTarget } from './types.js';
@@ -19,11 +21,16 @@ import type { RequestSchemas, ValidationTarget } from './types.js';
 /**
  * Create request-validation middleware.
  *
- * Pass a schema to validate the request **body**, or a `{ body, query, params }`
- * map to validate several parts at once. On success the coerced body replaces
- * `ctx.body`; query and params are validated but intentionally left unmodified
- * (see the package README). On failure it throws the framework's existing
- * `ValidationError`, aggregating every issue across every target.
+ * Pass a schema to validate the request **body**, or a
+ * `{ body, query, params, headers, cookies }` map to validate several parts at
+ * once. On success the coerced body replaces `ctx.body`; the other targets are
+ * validated but intentionally left unmodified (see the package README). On
+ * failure it throws the framework's existing `ValidationError`, aggregating
+ * every issue across every target.
+ *
+ * Headers are validated as the lowercase-keyed `ctx.headers` record, so a
+ * schema names `'x-api-key'`, never `'X-Api-Key'`. Cookies are parsed from the
+ * `Cookie` header; no cookie middleware is required.
  *
  * @param arg - A Standard Schema (validates the body) or a per-target schema map.
  */
@@ -53,6 +60,13 @@ export function validate(arg: StandardSchemaV1 | RequestSchemas): Middleware {
     if (schemas.params) {
       if (!(await check(schemas.params, ctx.params, 'params', issues)).ok) anyFailed = true;
     }
+    if (schemas.headers) {
+      if (!(await check(schemas.headers, ctx.headers, 'headers', issues)).ok) anyFailed = true;
+    }
+    if (schemas.cookies) {
+      const cookies = readCookies(ctx);
+      if (!(await check(schemas.cookies, cookies, 'cookies', issues)).ok) anyFailed = true;
+    }
 
     // Track failure explicitly rather than via `issues.length`: a schema that
     // signals failure with an empty issues array must still reject, never pass
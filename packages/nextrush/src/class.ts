@@ -94,6 +94,8 @@ export type {
 // DECORATORS & CONTROLLERS: From @nextrush/class
 // ============================================
 export const All = cls.All;
+export const ApiResponse = cls.ApiResponse;
+export const Authenticated = cls.Authenticated;
 export const Body = cls.Body;
 export const Controller = cls.Controller;
 export const Module = cls.Module;
@@ -113,7 +115,14 @@ export const Query = cls.Query;
 export const Redirect = cls.Redirect;
 export const Req = cls.Req;
 export const Res = cls.Res;
+export const Roles = cls.Roles;
 export const SetHeader = cls.SetHeader;
+export const SetMetadata = cls.SetMetadata;
+export const Summary = cls.Summary;
+export const Tags = cls.Tags;
+export const createMetadataDecorator = cls.createMetadataDecorator;
+export const Reflector = cls.Reflector;
+export const Timeout = cls.Timeout;
 export const UseGuard = cls.UseGuard;
 export const Catch = cls.Catch;
 export const UseFilter = cls.UseFilter;
@@ -134,10 +143,13 @@ export type {
   ControllerRouteMetadata,
   CustomParamExtractor,
   ExceptionFilter,
+  ExecutionContext,
   GuardContext,
   GuardFn,
   HeaderOptions,
   Interceptor,
+  MetadataDecorator,
+  MetadataKey,
   ModuleMetadata,
   ModuleOptions,
   ModuleProvider,
@@ -40,6 +40,7 @@ function buildRoot(
     caseSensitive,
     staticRoutes: new Map(),
     routeDefinitions: [],
+    routeNames: new Map(),
     maxDepth: 0,
   };
   for (const [method, path] of routes) {
@@ -71,6 +71,35 @@ describe('matchNodeIndexed — unpooled fallback (no WalkPool argument)', () =>
     expect(bindValues).toEqual(['anything/here']);
   });
 
+  it('tries constrained param alternatives before the plain param without a pool', () => {
+    const root = createNode('');
+    const executor = compileExecutor(noop, []);
+    const numeric: HandlerEntry = { handler: noop, middleware: [], executor };
+    const plain: HandlerEntry = { handler: noop, middleware: [], executor };
+
+    const idNode = createNode(':id(\\d+)', NodeType.PARAM);
+    idNode.paramName = 'id';
+    idNode.pattern = /^(?:\d+)$/;
+    idNode.handlers.set('GET', numeric);
+    root.patternChildren = [idNode];
+
+    const slugNode = createNode(':slug', NodeType.PARAM);
+    slugNode.paramName = 'slug';
+    slugNode.handlers.set('GET', plain);
+    root.paramChild = slugNode;
+
+    const names: string[] = [];
+    const values: string[] = [];
+    expect(matchNodeIndexed(root, '/42', 1, names, values, 'GET', true)).toBe(numeric);
+    expect(names).toEqual(['id']);
+
+    names.length = 0;
+    values.length = 0;
+    expect(matchNodeIndexed(root, '/hello', 1, names, values, 'GET', true)).toBe(plain);
+    expect(names).toEqual(['slug']);
+    expect(values).toEqual(['hello']);
+  });
+
   it('returns null cleanly on a miss without a pool', () => {
     const root = createNode('');
     const bindNames: string[] = [];
@@ -0,0 +1,164 @@
+/**
+ * @nextrush/router - Named routes and reverse URL generation
+ *
+ * `endpoint({ name })` names a route; `router.url(name, params)` builds its
+ * path back, percent-encoding every param. Names follow a route through the
+ * router `prefix`, groups and `mount()`, and a duplicate name fails
+ * registration before anything is installed.
+ */
+
+import type { RouteHandler } from '@nextrush/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRouter, endpoint, Router } from '../router';
+
+const h = (): RouteHandler => vi.fn();
+
+describe('router.url()', () => {
+  let router: Router;
+  beforeEach(() => {
+    router = createRouter();
+  });
+
+  it('builds a static route', () => {
+    router.get('/health', endpoint({ name: 'health' }), h());
+    expect(router.url('health')).toBe('/health');
+  });
+
+  it('substitutes params and stringifies numbers', () => {
+    router.get('/users/:id/posts/:postId', endpoint({ name: 'users.post' }), h());
+    expect(router.url('users.post', { id: 7, postId: 'intro' })).toBe('/users/7/posts/intro');
+  });
+
+  it('percent-encodes param values', () => {
+    router.get('/search/:term', endpoint({ name: 'search' }), h());
+    expect(router.url('search', { term: 'a/b c?d#é' })).toBe('/search/a%2Fb%20c%3Fd%23%C3%A9');
+  });
+
+  it('round-trips an encoded value through match()', () => {
+    router.get('/tags/:tag', endpoint({ name: 'tag' }), h());
+    const url = router.url('tag', { tag: 'c++ & co/x' });
+    expect(router.match('GET', url)?.params).toEqual({ tag: 'c++ & co/x' });
+  });
+
+  it('keeps slashes in a wildcard value while encoding each segment', () => {
+    router.get('/files/*', endpoint({ name: 'files' }), h());
+    expect(router.url('files', { '*': 'docs/my file.txt' })).toBe('/files/docs/my%20file.txt');
+  });
+
+  it('checks a constrained param against its constraint', () => {
+    router.get('/users/:id(\\d+)', endpoint({ name: 'users.show' }), h());
+    expect(router.url('users.show', { id: 42 })).toBe('/users/42');
+    expect(() => router.url('users.show', { id: 'abc' })).toThrow(/does not satisfy/);
+  });
+
+  it('drops omitted trailing optional params', () => {
+    router.get('/archive/:year?/:month?', endpoint({ name: 'archive' }), h());
+    expect(router.url('archive')).toBe('/archive');
+    expect(router.url('archive', { year: 2024 })).toBe('/archive/2024');
+    expect(router.url('archive', { year: 2024, month: 5 })).toBe('/archive/2024/5');
+    expect(() => router.url('archive', { month: 5 })).toThrow(/optional param "year"/);
+  });
+
+  it('throws for a missing required param', () => {
+    router.get('/users/:id', endpoint({ name: 'users.show' }), h());
+    expect(() => router.url('users.show')).toThrow('Missing value for route param "id"');
+    expect(() => router.url('users.show', { id: '' })).toThrow(/Missing value/);
+  });
+
+  it('throws for an unknown name', () => {
+    expect(() => router.url('nope')).toThrow('No route named "nope"');
+  });
+
+  it('exposes the name on the route definition', () => {
+    router.get('/users/:id', endpoint({ name: 'users.show' }), h());
+    expect(router.getRoutes()[0]?.metadata?.name).toBe('users.show');
+  });
+
+  it('names an any-method route', () => {
+    router.all('/proxy/:target', endpoint({ name: 'proxy' }), h());
+    expect(router.url('proxy', { target: 'x' })).toBe('/proxy/x');
+    expect(router.getRoutes()).toHaveLength(1);
+    expect(router.getRoutes()[0]?.metadata?.name).toBe('proxy');
+  });
+
+  it('forgets names on reset()', () => {
+    router.get('/a', endpoint({ name: 'a' }), h());
+    router.reset();
+    expect(() => router.url('a')).toThrow(/No route named/);
+    router.get('/a', endpoint({ name: 'a' }), h());
+    expect(router.url('a')).toBe('/a');
+  });
+});
+
+describe('route name prefixes', () => {
+  it('includes the router prefix option', () => {
+    const router = createRouter({ prefix: '/api' });
+    router.get('/users/:id', endpoint({ name: 'users.show' }), h());
+    expect(router.url('users.show', { id: 1 })).toBe('/api/users/1');
+  });
+
+  it('includes the group prefix', () => {
+    const router = createRouter();
+    router.group('/admin', (g) => {
+      g.get('/users/:id', endpoint({ name: 'admin.user' }), h());
+      g.group('/reports', (r) => {
+        r.all('/:id', endpoint({ name: 'admin.report' }), h());
+      });
+    });
+    expect(router.url('admin.user', { id: 3 })).toBe('/admin/users/3');
+    expect(router.url('admin.report', { id: 9 })).toBe('/admin/reports/9');
+  });
+
+  it('re-roots names of a mounted sub-router under the mount prefix', () => {
+    const users = createRouter({ prefix: '/users' });
+    users.get('/:id', endpoint({ name: 'users.show' }), h());
+
+    const api = createRouter({ prefix: '/api' });
+    api.mount('/v1', users);
+    expect(api.url('users.show', { id: 5 })).toBe('/api/v1/users/5');
+    expect(users.url('users.show', { id: 5 })).toBe('/users/5');
+  });
+
+  it('re-roots names mounted through use(prefix, router)', () => {
+    const child = createRouter();
+    child.get('/ping', endpoint({ name: 'ping' }), h());
+    const parent = createRouter();
+    parent.use('/svc', child);
+    expect(parent.url('ping')).toBe('/svc/ping');
+  });
+});
+
+describe('duplicate route names', () => {
+  it('rejects a second route with the same name and installs nothing', () => {
+    const router = createRouter();
+    router.get('/a', endpoint({ name: 'dup' }), h());
+    expect(() => router.get('/b', endpoint({ name: 'dup' }), h())).toThrow(
+      'Duplicate route name "dup": already registered for /a.'
+    );
+    expect(router.match('GET', '/b')).toBeNull();
+    expect(router.getRoutes()).toHaveLength(1);
+  });
+
+  it('rejects a duplicate all() before inserting any method', () => {
+    const router = createRouter();
+    router.get('/a', endpoint({ name: 'dup' }), h());
+    expect(() => router.all('/b', endpoint({ name: 'dup' }), h())).toThrow(/Duplicate route name/);
+    expect(router.match('POST', '/b')).toBeNull();
+  });
+
+  it('rejects a mount whose names collide, before copying any route', () => {
+    const child = createRouter();
+    child.get('/x', endpoint({ name: 'dup' }), h());
+    const parent = createRouter();
+    parent.get('/y', endpoint({ name: 'dup' }), h());
+    expect(() => parent.mount('/child', child)).toThrow(/Duplicate route name "dup"/);
+    expect(parent.match('GET', '/child/x')).toBeNull();
+  });
+
+  it('keeps the last name when one route contributes several', () => {
+    const router = createRouter();
+    router.get('/a', endpoint({ name: 'first' }), endpoint({ name: 'second' }), h());
+    expect(router.url('second')).toBe('/a');
+    expect(() => router.url('first')).toThrow(/No route named/);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @nextrush/router - Regex-constrained and optional route params
+ *
+ * `/users/:id(\d+)` only binds a segment its anchored pattern matches, and
+ * sibling constraints at one position are tried in registration order before
+ * the unconstrained param. `/posts/:slug?` answers at both `/posts` and
+ * `/posts/:slug`. Both must behave identically across the match walk, the
+ * allowed-methods walk and sub-router mounting.
+ */
+
+import type { Context, RouteHandler } from '@nextrush/types';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRouter, Router } from '../router';
+
+const h = (): RouteHandler => vi.fn();
+
+describe('regex-constrained params', () => {
+  let router: Router;
+  beforeEach(() => {
+    router = createRouter();
+  });
+
+  it('binds only values the constraint matches', () => {
+    router.get('/users/:id(\\d+)', h());
+    expect(router.match('GET', '/users/42')?.params).toEqual({ id: '42' });
+    expect(router.match('GET', '/users/abc')).toBeNull();
+  });
+
+  it('anchors the constraint to the whole segment', () => {
+    router.get('/users/:id(\\d+)', h());
+    expect(router.match('GET', '/users/42abc')).toBeNull();
+    expect(router.match('GET', '/users/x42')).toBeNull();
+  });
+
+  it('anchors every branch of an alternation', () => {
+    router.get('/files/:ext(png|jpe?g)', h());
+    expect(router.match('GET', '/files/jpeg')?.params).toEqual({ ext: 'jpeg' });
+    expect(router.match('GET', '/files/apng')).toBeNull();
+    expect(router.match('GET', '/files/pngx')).toBeNull();
+  });
+
+  it('tries sibling constraints in registration order', () => {
+    const numeric = h();
+    const hex = h();
+    router.get('/items/:id(\\d+)', numeric);
+    router.get('/items/:hex([0-9a-f]+)', hex);
+    // "123" matches both constraints — the first registered wins.
+    expect(router.match('GET', '/items/123')?.handler).toBe(numeric);
+    expect(router.match('GET', '/items/ff')?.params).toEqual({ hex: 'ff' });
+  });
+
+  it('prefers static over constrained over unconstrained params', () => {
+    const me = h();
+    const byId = h();
+    const bySlug = h();
+    router.get('/users/:slug', bySlug);
+    router.get('/users/:id(\\d+)', byId);
+    router.get('/users/me', me);
+    expect(router.match('GET', '/users/me')?.handler).toBe(me);
+    expect(router.match('GET', '/users/7')?.handler).toBe(byId);
+    expect(router.match('GET', '/users/ada')?.handler).toBe(bySlug);
+  });
+
+  it('backtracks into the next alternative when a deeper segment fails', () => {
+    const posts = h();
+    const files = h();
+    router.get('/u/:id(\\d+)/posts', posts);
+    router.get('/u/:name/files', files);
+    expect(router.match('GET', '/u/42/files')?.params).toEqual({ name: '42' });
+    expect(router.match('GET', '/u/42/posts')?.params).toEqual({ id: '42' });
+  });
+
+  it('tests the decoded value', () => {
+    router.get('/tags/:tag([a-z ]+)', h());
+    expect(router.match('GET', '/tags/two%20words')?.params).toEqual({ tag: 'two words' });
+  });
+
+  it('tests the original-case value on a case-insensitive router', () => {
+    const ci = createRouter({ caseSensitive: false });
+    ci.get('/Codes/:code([A-Z]{3})', h());
+    expect(ci.match('GET', '/codes/ABC')?.params).toEqual({ code: 'ABC' });
+    expect(ci.match('GET', '/CODES/abc')).toBeNull();
+  });
+
+  it('falls through to a wildcard when no constraint matches', () => {
+    router.get('/a/:id(\\d+)', h());
+    router.get('/a/*', h());
+    expect(router.match('GET', '/a/xyz')?.params).toEqual({ '*': 'xyz' });
+  });
+
+  it('reports a duplicate constrained route as a route conflict', () => {
+    router.get('/users/:id(\\d+)', h());
+    expect(() => router.get('/users/:id(\\d+)', h())).toThrow(/Route conflict/);
+  });
+
+  it('rejects a different name for the same constraint at the same position', () => {
+    router.get('/users/:id(\\d+)', h());
+    expect(() => router.post('/users/:userId(\\d+)', h())).toThrow(/param name conflict/i);
+  });
+
+  it('allows the same position to carry different constraints and names', () => {
+    router.get('/v/:id(\\d+)', h());
+    expect(() => router.get('/v/:slug([a-z-]+)', h())).not.toThrow();
+  });
+
+  it('rejects an invalid or malformed constraint at registration', () => {
+    expect(() => router.get('/x/:id([)', h())).toThrow(/Invalid route param ":id\(\[\)"/);
+    expect(() => router.get('/x/:id()', h())).toThrow(/Invalid route param/);
+    expect(() => router.get('/x/:id(\\d+', h())).toThrow(/Invalid route param/);
+    expect(() => router.get('/x/:(\\d+)', h())).toThrow(/needs a name/);
+  });
+
+  it('lists the constrained path unchanged in getRoutes()', () => {
+    router.get('/users/:id(\\d+)', h());
+    expect(router.getRoutes().map((r) => r.path)).toEqual(['/users/:id(\\d+)']);
+  });
+});
+
+describe('optional params', () => {
+  let router: Router;
+  beforeEach(() => {
+    router = createRouter();
+  });
+
+  it('answers with and without a trailing optional param', () => {
+    const handler = h();
+    router.get('/posts/:slug?', handler);
+    expect(router.match('GET', '/posts')?.handler).toBe(handler);
+    expect(router.match('GET', '/posts')?.params).toEqual({});
+    expect(router.match('GET', '/posts/hello')?.params).toEqual({ slug: 'hello' });
+  });
+
+  it('expands several trailing optional params', () => {
+    router.get('/archive/:year?/:month?', h());
+    expect(router.match('GET', '/archive')?.params).toEqual({});
+    expect(router.match('GET', '/archive/2024')?.params).toEqual({ year: '2024' });
+    expect(router.match('GET', '/archive/2024/05')?.params).toEqual({ year: '2024', month: '05' });
+    expect(router.match('GET', '/archive/2024/05/01')).toBeNull();
+  });
+
+  it('combines an optional param with a constraint', () => {
+    router.get('/page/:n(\\d+)?', h());
+    expect(router.match('GET', '/page')).not.toBeNull();
+    expect(router.match('GET', '/page/3')?.params).toEqual({ n: '3' });
+    expect(router.match('GET', '/page/three')).toBeNull();
+  });
+
+  it('supports an optional param directly under the root', () => {
+    router.get('/:lang?', h());
+    expect(router.match('GET', '/')).not.toBeNull();
+    expect(router.match('GET', '/en')?.params).toEqual({ lang: 'en' });
+  });
+
+  it('derives HEAD for every expansion', () => {
+    router.get('/posts/:slug?', h());
+    expect(router.match('HEAD', '/posts')).not.toBeNull();
+    expect(router.match('HEAD', '/posts/a')).not.toBeNull();
+  });
+
+  it('rejects an optional param followed by a required segment', () => {
+    expect(() => router.get('/:lang?/docs', h())).toThrow(/must be trailing/);
+    expect(() => router.get('/files/:dir?/*', h())).toThrow(/must be trailing/);
+  });
+
+  it('reports a conflict with an existing route at any expansion, registering nothing', () => {
+    router.get('/posts', h());
+    expect(() => router.get('/posts/:slug?', h())).toThrow(/Route conflict: GET \/posts /);
+    expect(router.match('GET', '/posts/a')).toBeNull();
+  });
+
+  it('lists one row for the optional route in getRoutes()', () => {
+    router.get('/posts/:slug?', h());
+    expect(router.getRoutes().map((r) => r.path)).toEqual(['/posts/:slug?']);
+  });
+});
+
+describe('constraints and optional params across router features', () => {
+  function ctxFor(method: string, path: string): Context {
+    return {
+      method,
+      path,
+      status: 404,
+      set: vi.fn(),
+    } as unknown as Context;
+  }
+
+  it('answers 405 only for values the constraint admits', async () => {
+    const router = createRouter();
+    router.get('/users/:id(\\d+)', h());
+
+    const allowed = ctxFor('POST', '/users/42');
+    await router.allowedMethods()(allowed, async () => {});
+    expect(allowed.status).toBe(405);
+
+    const rejected = ctxFor('POST', '/users/abc');
+    await router.allowedMethods()(rejected, async () => {});
+    expect(rejected.status).toBe(404);
+  });
+
+  it('keeps constraints, priority and optional expansions when mounted', () => {
+    const numeric = h();
+    const sub = createRouter();
+    sub.get('/:id(\\d+)', numeric);
+    sub.get('/:name', h());
+    sub.get('/list/:page?', h());
+
+    const parent = createRouter();
+    parent.use('/api', sub);
+
+    expect(parent.match('GET', '/api/7')?.handler).toBe(numeric);
+    expect(parent.match('GET', '/api/ada')?.params).toEqual({ name: 'ada' });
+    expect(parent.match('GET', '/api/list')).not.toBeNull();
+    expect(parent.match('GET', '/api/list/2')?.params).toEqual({ page: '2' });
+  });
+});
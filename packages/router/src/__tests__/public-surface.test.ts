@@ -20,6 +20,7 @@ import type {
   RouterInterface,
   RouterOptions,
   TrieNode,
+  VersioningOptions,
 } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
@@ -66,6 +67,7 @@ describe('Public API surface (type-only exports)', () => {
       RouteMatch,
       RouterInterface,
       RouterOptions,
+      VersioningOptions,
     ];
     expectTypeOf<Surface>().not.toBeNever();
   });
@@ -20,6 +20,7 @@ function createState(): RegistrationState & { maxDepth: number } {
     caseSensitive: false,
     staticRoutes: new Map(),
     routeDefinitions: [],
+    routeNames: new Map(),
     maxDepth: 0,
   };
 }
@@ -136,6 +136,41 @@ describe('contribution merge semantics', () => {
     expect(route?.metadata?.tags).toEqual(['b']); // last wins
     expect(route?.metadata?.responses).toEqual({ 200: a, 404: b }); // per-key merge
   });
+
+  it('keeps the last cacheControl policy whole rather than merging directives', () => {
+    router.get('/x',
+      contributingMiddleware({ cacheControl: { public: true, maxAge: 60 } }),
+      endpoint({ cacheControl: { noStore: true } }),
+      vi.fn()
+    );
+    const [route] = router.getRoutes();
+    expect(route?.metadata?.cacheControl).toEqual({ noStore: true });
+  });
+
+  it('keeps the innermost timeout contribution', () => {
+    router.get('/x',
+      contributingMiddleware({ timeout: 30_000 }),
+      contributingMiddleware({ timeout: 2_000 }),
+      vi.fn()
+    );
+    const [route] = router.getRoutes();
+    expect(route?.metadata?.timeout).toBe(2_000);
+  });
+
+  it('keeps the last security requirement whole', () => {
+    const bearer = { name: 'bearerAuth', scheme: { type: 'http', scheme: 'bearer' } } as const;
+    const apiKey = {
+      name: 'apiKeyAuth',
+      scheme: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+    } as const;
+    router.get('/x',
+      contributingMiddleware({ security: { schemes: [bearer], optional: true } }),
+      contributingMiddleware({ security: { schemes: [apiKey] } }),
+      vi.fn()
+    );
+    const [route] = router.getRoutes();
+    expect(route?.metadata?.security).toEqual({ schemes: [apiKey] });
+  });
 });
 
 describe('markers never enter the executed chain', () => {
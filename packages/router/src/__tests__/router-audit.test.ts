@@ -3,7 +3,7 @@
  *
  * Proves routing correctness by exhaustive assertion, not assumption. Organized
  * by audit phase. Tests that assert *actual* behavior of an unsupported feature
- * (brace syntax, regex constraints, param decoding) are marked CHARACTERIZATION
+ * (brace syntax, param decoding) are marked CHARACTERIZATION
  * and documented in the audit report as limitations, not bugs.
  */
 
@@ -32,12 +32,10 @@ describe('Router audit', () => {
       expect(router.match('GET', '/users/42')).toBeNull();
     });
 
-    it('CHARACTERIZATION: regex constraint /:id(\\d+) is NOT a regex — the param is literally named "id(\\d+)"', () => {
+    it('supports the regex constraint syntax /:id(\\d+) — the param is named "id"', () => {
       router.get('/n/:id(\\d+)', h());
-      const m = router.match('GET', '/n/abc'); // matches any segment (no regex enforcement)
-      expect(m).not.toBeNull();
-      expect(m?.params).toHaveProperty('id(\\d+)');
-      expect(m?.params['id']).toBeUndefined();
+      expect(router.match('GET', '/n/abc')).toBeNull();
+      expect(router.match('GET', '/n/42')?.params).toEqual({ id: '42' });
     });
   });
 
@@ -0,0 +1,143 @@
+/**
+ * @nextrush/router - Traced dispatch
+ *
+ * With a {@link RequestTracer} published on `ctx.state`, dispatch reports the
+ * matched route template and runs every route middleware and the handler as
+ * a traced step; without one, nothing changes.
+ */
+
+import { REQUEST_TRACER } from '@nextrush/types';
+import type { Context, Middleware, RequestTracer, TraceStepKind } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { createRouter, type Router } from '../router';
+
+function createCtx(path: string, method = 'GET', state: Record<string | symbol, unknown> = {}) {
+  let stored: () => Promise<void> = () => Promise.resolve();
+  return {
+    method,
+    path,
+    params: {},
+    query: {},
+    headers: {},
+    status: 200,
+    state,
+    set: vi.fn(),
+    setNext: (fn: () => Promise<void>) => {
+      stored = fn;
+    },
+    next: () => stored(),
+  } as unknown as Context;
+}
+
+interface RecordedStep {
+  kind: TraceStepKind;
+  name: string;
+  depth: number;
+  outcome?: 'ok' | 'error';
+}
+
+function createTracer() {
+  const steps: RecordedStep[] = [];
+  const routes: string[] = [];
+  let depth = 0;
+
+  const tracer: RequestTracer = {
+    setRoute(route) {
+      routes.push(route);
+    },
+    async step(kind, name, run) {
+      const step: RecordedStep = { kind, name, depth: depth++ };
+      steps.push(step);
+      try {
+        const result = await run();
+        step.outcome = 'ok';
+        return result;
+      } catch (err) {
+        step.outcome = 'error';
+        throw err;
+      } finally {
+        depth--;
+      }
+    },
+  };
+
+  return { tracer, steps, routes };
+}
+
+const run = async (router: Router, ctx: Context): Promise<void> => {
+  await router.routes()(ctx, async () => {});
+};
+
+describe('traced dispatch', () => {
+  it('reports the route template and nests a step per middleware around the handler', async () => {
+    const router = createRouter({ prefix: '/api' });
+    const authenticate: Middleware = async (_ctx, next) => next();
+    router.use(async function routerLogger(_ctx, next) {
+      await next();
+    });
+    router.get('/users/:id', authenticate, function getUser(ctx) {
+      ctx.status = 204;
+    });
+
+    const { tracer, steps, routes } = createTracer();
+    const ctx = createCtx('/api/users/42', 'GET', { [REQUEST_TRACER]: tracer });
+    await run(router, ctx);
+
+    expect(ctx.status).toBe(204);
+    expect(routes).toEqual(['/api/users/:id']);
+    expect(steps).toEqual([
+      { kind: 'middleware', name: 'routerLogger', depth: 0, outcome: 'ok' },
+      { kind: 'middleware', name: 'authenticate', depth: 1, outcome: 'ok' },
+      { kind: 'handler', name: 'getUser', depth: 2, outcome: 'ok' },
+    ]);
+  });
+
+  it('marks the failing step and every step around it', async () => {
+    const router = createRouter();
+    router.get(
+      '/boom',
+      async (_ctx, next) => next(),
+      () => {
+        throw new Error('boom');
+      }
+    );
+
+    const { tracer, steps } = createTracer();
+    await expect(
+      run(router, createCtx('/boom', 'GET', { [REQUEST_TRACER]: tracer }))
+    ).rejects.toThrow('boom');
+    expect(steps.map((step) => [step.kind, step.name, step.outcome])).toEqual([
+      ['middleware', 'anonymous', 'error'],
+      ['handler', 'anonymous', 'error'],
+    ]);
+  });
+
+  it('traces HEAD requests answered by a GET route and routes copied from a sub-router', async () => {
+    const child = createRouter();
+    child.get('/items/:id', function getItem(ctx) {
+      ctx.status = 200;
+    });
+    const router = createRouter();
+    router.use('/shop', child);
+
+    const { tracer, steps, routes } = createTracer();
+    await run(router, createCtx('/shop/items/1', 'HEAD', { [REQUEST_TRACER]: tracer }));
+
+    expect(routes).toEqual(['/shop/items/:id']);
+    expect(steps.map((step) => step.name)).toEqual(['getItem']);
+  });
+
+  it('runs the plain executor when no tracer is published', async () => {
+    const router = createRouter();
+    const handler = vi.fn((ctx: Context) => {
+      ctx.status = 201;
+    });
+    router.post('/items', handler);
+
+    const ctx = createCtx('/items', 'POST');
+    await run(router, ctx);
+
+    expect(ctx.status).toBe(201);
+    expect(handler).toHaveBeenCalledOnce();
+  });
+});
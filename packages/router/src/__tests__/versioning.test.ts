@@ -0,0 +1,298 @@
+/**
+ * @nextrush/router - API versioning
+ *
+ * With the `versioning` option, routes declare the versions they serve
+ * (`endpoint({ versions })`, or the router's `defaultVersion`). The URI
+ * strategy registers each version under its own path; the header, media-type
+ * and custom strategies keep one path and pick the route per request, answering
+ * 404 (406 for `Accept`) when no route at the path serves the requested version.
+ */
+
+import type { Context, RouterOptions } from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { createRouter, endpoint, Router } from '../router';
+import { mediaTypeVersion } from '../versioning';
+
+function createCtx(path: string, headers: Record<string, string> = {}, method = 'GET'): Context {
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  return {
+    method,
+    path,
+    params: {},
+    query: {},
+    body: undefined,
+    headers: lower,
+    status: 200,
+    state: {},
+    json: vi.fn(),
+    send: vi.fn(),
+    set: vi.fn(),
+    get: (field: string) => lower[field.toLowerCase()],
+  } as unknown as Context;
+}
+
+/** Dispatch through `routes()` and report what answered. */
+async function request(router: Router, path: string, headers?: Record<string, string>) {
+  const ctx = createCtx(path, headers);
+  const next = vi.fn(async () => {});
+  await router.routes()(ctx, next);
+  return { status: ctx.status, body: ctx.body, fellThrough: next.mock.calls.length > 0 };
+}
+
+/** A handler that answers with `label`. */
+const answer = (label: string) => (ctx: Context) => {
+  ctx.body = label;
+};
+
+function usersRouter(versioning: RouterOptions['versioning']): Router {
+  return createRouter({ versioning })
+    .get('/users', endpoint({ versions: ['1'] }), answer('users v1'))
+    .get('/users', endpoint({ versions: ['2', '3'] }), answer('users v2'))
+    .get('/health', answer('health'));
+}
+
+describe('URI versioning', () => {
+  it('registers a route under the path of each version it serves', async () => {
+    const router = usersRouter({ type: 'uri' });
+
+    expect((await request(router, '/v1/users')).body).toBe('users v1');
+    expect((await request(router, '/v3/users')).body).toBe('users v2');
+    expect((await request(router, '/health')).body).toBe('health');
+    expect(await request(router, '/v4/users')).toMatchObject({ status: 404, fellThrough: true });
+    expect(router.getRoutes().map((r) => [r.path, r.metadata?.versions])).toEqual([
+      ['/v1/users', ['1']],
+      ['/v2/users', ['2']],
+      ['/v3/users', ['3']],
+      ['/health', undefined],
+    ]);
+  });
+
+  it('versions after the router prefix and before a group prefix', () => {
+    const router = createRouter({
+      prefix: '/api',
+      versioning: { type: 'uri', prefix: 'version-' },
+    });
+    router.group('/admin', (group) => {
+      group.all('/jobs', endpoint({ versions: ['2'] }), answer('jobs'));
+    });
+
+    expect(router.match('DELETE', '/api/version-2/admin/jobs')).not.toBeNull();
+    expect(router.getRoutes()).toMatchObject([
+      { path: '/api/version-2/admin/jobs', isAnyMethod: true, metadata: { versions: ['2'] } },
+    ]);
+  });
+
+  it('puts routes declaring no version under the default version', () => {
+    const router = createRouter({ versioning: { type: 'uri', defaultVersion: '1' } });
+    router.get('/', answer('root'));
+
+    expect(router.match('GET', '/v1')).not.toBeNull();
+    expect(router.match('GET', '/')).toBeNull();
+  });
+
+  it('lets the first version of a named route claim its name', () => {
+    const router = createRouter({ versioning: { type: 'uri' } });
+    router.get('/users/:id', endpoint({ name: 'users.show', versions: ['1', '2'] }), answer('u'));
+
+    expect(router.url('users.show', { id: 7 })).toBe('/v1/users/7');
+  });
+});
+
+describe('header versioning', () => {
+  const router = usersRouter({ type: 'header' });
+
+  it('runs the route serving the version the header names', async () => {
+    expect((await request(router, '/users', { 'X-API-Version': '1' })).body).toBe('users v1');
+    expect((await request(router, '/users', { 'X-API-Version': '3' })).body).toBe('users v2');
+  });
+
+  it('answers 404 without falling through when no route serves the version', async () => {
+    expect(await request(router, '/users', { 'X-API-Version': '9' })).toMatchObject({
+      status: 404,
+      body: undefined,
+      fellThrough: false,
+    });
+    expect((await request(router, '/users')).status).toBe(404);
+  });
+
+  it('serves version-neutral routes to every version', async () => {
+    expect((await request(router, '/health', { 'X-API-Version': '9' })).body).toBe('health');
+    expect((await request(router, '/health')).body).toBe('health');
+  });
+
+  it('reads a custom header name', async () => {
+    const custom = usersRouter({ type: 'header', header: 'Api-Version' });
+    expect((await request(custom, '/users', { 'api-version': '2' })).body).toBe('users v2');
+  });
+
+  it('answers HEAD from every version of a GET route', () => {
+    const head = router.match('HEAD', '/users');
+    const ctx = createCtx('/users', { 'x-api-version': '2' }, 'HEAD');
+    void head?.handler(ctx, async () => {});
+
+    expect(ctx.body).toBe('users v2');
+  });
+});
+
+describe('media-type versioning', () => {
+  const router = usersRouter({ type: 'media-type' });
+
+  it('reads the version from a vendor media type or a parameter', async () => {
+    const vendor = { Accept: 'application/vnd.acme.v2+json' };
+    expect((await request(router, '/users', vendor)).body).toBe('users v2');
+    const param = { Accept: 'text/html, application/json; v=1' };
+    expect((await request(router, '/users', param)).body).toBe('users v1');
+  });
+
+  it('answers 406 when no route serves the requested version', async () => {
+    const accept = { Accept: 'application/vnd.acme.v7+json' };
+    expect(await request(router, '/users', accept)).toMatchObject({ status: 406, body: undefined });
+  });
+
+  it('parses versions out of Accept headers', () => {
+    expect(mediaTypeVersion('application/vnd.acme.v2.1+json', 'v')).toBe('2');
+    expect(mediaTypeVersion('application/vnd.acme.version10+json', 'version')).toBe('10');
+    expect(mediaTypeVersion('application/json; version="3"', 'version')).toBe('3');
+    expect(mediaTypeVersion('application/vnd.vendor+json', 'v')).toBeUndefined();
+    expect(mediaTypeVersion(undefined, 'v')).toBeUndefined();
+  });
+});
+
+describe('custom versioning', () => {
+  it('runs the route serving the version the extractor returns', async () => {
+    const router = usersRouter({
+      type: 'custom',
+      extract: (ctx) => (ctx.get('host')?.startsWith('v2.') ? '2' : '1'),
+    });
+
+    expect((await request(router, '/users', { Host: 'v2.api.test' })).body).toBe('users v2');
+    expect((await request(router, '/users', { Host: 'api.test' })).body).toBe('users v1');
+  });
+
+  it('requires an extract function', () => {
+    expect(() => createRouter({ versioning: { type: 'custom' } as never })).toThrow(TypeError);
+  });
+});
+
+describe('Vary', () => {
+  /** The `Vary` a request through `router` sets, if any. */
+  async function varyOf(router: Router, path: string, ctx = createCtx(path)) {
+    await router.routes()(ctx, async () => {});
+    const calls = vi.mocked(ctx.set).mock.calls.filter(([field]) => field === 'Vary');
+    return calls.at(-1)?.[1];
+  }
+
+  it('names the header the version is read from', async () => {
+    expect(await varyOf(usersRouter({ type: 'header' }), '/users')).toBe('x-api-version');
+    expect(await varyOf(usersRouter({ type: 'media-type' }), '/users')).toBe('Accept');
+  });
+
+  it('names the headers a custom extractor declares', async () => {
+    const extract = (ctx: Context) => ctx.get('host');
+    const router = usersRouter({ type: 'custom', extract, vary: ['Host', 'X-Tenant'] });
+    expect(await varyOf(router, '/users')).toBe('Host, X-Tenant');
+    expect(await varyOf(usersRouter({ type: 'custom', extract }), '/users')).toBeUndefined();
+  });
+
+  it('is set on an unserved version too, but not on version-neutral paths', async () => {
+    const router = usersRouter({ type: 'header' });
+    expect(await varyOf(router, '/users', createCtx('/users', { 'x-api-version': '9' }))).toBe(
+      'x-api-version'
+    );
+    expect(await varyOf(router, '/health')).toBeUndefined();
+  });
+
+  it('keeps a Vary an earlier middleware set', async () => {
+    const ctx = createCtx('/users');
+    Object.assign(ctx, { raw: { req: {}, res: { getHeader: () => 'Origin' } } });
+    expect(await varyOf(usersRouter({ type: 'media-type' }), '/users', ctx)).toBe('Origin, Accept');
+  });
+});
+
+describe('default and fallback versions', () => {
+  it('assumes the fallback version for a request naming none', async () => {
+    const router = usersRouter({ type: 'header', fallbackVersion: '1' });
+    expect((await request(router, '/users')).body).toBe('users v1');
+  });
+
+  it('assumes the highest version at the path for fallbackVersion latest', async () => {
+    const router = createRouter({ versioning: { type: 'header', fallbackVersion: 'latest' } })
+      .get('/users', endpoint({ versions: ['9'] }), answer('v9'))
+      .get('/users', endpoint({ versions: ['10'] }), answer('v10'));
+
+    expect((await request(router, '/users')).body).toBe('v10');
+  });
+
+  it('gives routes declaring no version the default version', async () => {
+    const router = createRouter({ versioning: { type: 'header', defaultVersion: '1' } })
+      .get('/users', answer('users v1'))
+      .get('/users', endpoint({ versions: ['2'] }), answer('users v2'));
+
+    expect((await request(router, '/users', { 'x-api-version': '1' })).body).toBe('users v1');
+    expect((await request(router, '/users')).status).toBe(404);
+    expect(router.getRoutes().map((r) => r.metadata?.versions)).toEqual([['1'], ['2']]);
+  });
+
+  it('falls back to the version-neutral route for an unserved version', async () => {
+    const router = createRouter({ versioning: { type: 'header' } })
+      .get('/users', answer('users'))
+      .get('/users', endpoint({ versions: ['2'] }), answer('users v2'));
+
+    expect((await request(router, '/users', { 'x-api-version': '2' })).body).toBe('users v2');
+    expect((await request(router, '/users', { 'x-api-version': '1' })).body).toBe('users');
+  });
+});
+
+describe('versioned registration', () => {
+  it('rejects two routes serving the same version on one method and path', () => {
+    const router = createRouter({ versioning: { type: 'header' } });
+    router.get('/users', endpoint({ versions: ['1', '2'] }), answer('a'));
+
+    expect(() => router.get('/users', endpoint({ versions: ['2'] }), answer('b'))).toThrow(
+      /already registered for version 1, 2/
+    );
+  });
+
+  it('rejects two version-neutral routes on one method and path', () => {
+    const router = createRouter({ versioning: { type: 'header' } });
+    router.get('/users', answer('a'));
+
+    expect(() => router.get('/users', answer('b'))).toThrow(/Route conflict/);
+  });
+
+  it('keeps versions a documentation fact on a router without versioning', () => {
+    const router = createRouter();
+    router.get('/users', endpoint({ versions: ['1'] }), answer('a'));
+
+    expect(() => router.get('/users', endpoint({ versions: ['2'] }), answer('b'))).toThrow(
+      /Route conflict/
+    );
+  });
+
+  it('runs router middleware ahead of the selected version', async () => {
+    const router = usersRouter({ type: 'header' });
+    router.use(async (ctx, next) => {
+      ctx.state.seen = true;
+      await next?.();
+    });
+
+    const ctx = createCtx('/users', { 'x-api-version': '2' });
+    await router.routes()(ctx, async () => {});
+
+    expect(ctx.body).toBe('users v2');
+    expect(ctx.state.seen).toBe(true);
+  });
+
+  it('keeps the versions of routes copied from a mounted router', async () => {
+    const parent = createRouter({ versioning: { type: 'header' } });
+    parent.mount('/api', usersRouter({ type: 'header' }));
+
+    expect((await request(parent, '/api/users', { 'x-api-version': '1' })).body).toBe('users v1');
+    expect((await request(parent, '/api/users', { 'x-api-version': '3' })).body).toBe('users v2');
+  });
+
+  it('exposes the options it versions with', () => {
+    expect(createRouter({ versioning: { type: 'header' } }).versioning).toEqual({ type: 'header' });
+    expect(createRouter().versioning).toBeUndefined();
+  });
+});
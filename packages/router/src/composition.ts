@@ -19,14 +19,15 @@
  * @internal
  */
 
-import type { HttpMethod, Middleware, RouteHandler } from '@nextrush/types';
-import type { TrieNode } from './segment-trie';
+import type { HttpMethod, Middleware, RouteEntry } from '@nextrush/types';
+import { endpoint } from './route-metadata';
+import type { HandlerEntry, TrieNode } from './segment-trie';
 
 /** Callback signature matching `Router['addRoute']` — injected, not imported. */
 export type AddRouteFn = (
   method: HttpMethod,
   path: string,
-  handlers: RouteHandler[],
+  entries: RouteEntry[],
   middleware: Middleware[]
 ) => void;
 
@@ -48,12 +49,16 @@ export function copyRoutes(
     // precedence and introspection rows correct.
     if (entry.autoHead) continue;
     const path = prefix + '/' + segments.join('/');
-    // Prepend sub-router middleware so it runs before the route's own middleware
-    const combined =
-      subRouterMiddleware.length > 0
-        ? [...subRouterMiddleware, ...entry.middleware]
-        : entry.middleware;
-    addRoute(method, path || '/', [entry.handler], combined);
+    // A version-selecting entry is copied as the routes it selects between,
+    // each keeping the versions it serves.
+    for (const route of entry.variants ?? [entry]) {
+      // Prepend sub-router middleware so it runs before the route's own middleware
+      const combined =
+        subRouterMiddleware.length > 0
+          ? [...subRouterMiddleware, ...route.middleware]
+          : route.middleware;
+      addRoute(method, path || '/', routeEntries(route), combined);
+    }
   }
 
   // Copy static children
@@ -61,6 +66,11 @@ export function copyRoutes(
     copyRoutes(child, prefix, [...segments, child.segment], subRouterMiddleware, addRoute);
   }
 
+  // Copy constrained param children, in their registration (= priority) order
+  for (const child of node.patternChildren ?? []) {
+    copyRoutes(child, prefix, [...segments, child.segment], subRouterMiddleware, addRoute);
+  }
+
   // Copy param child
   if (node.paramChild) {
     copyRoutes(
@@ -77,3 +87,8 @@ export function copyRoutes(
     copyRoutes(node.wildcardChild, prefix, [...segments, '*'], subRouterMiddleware, addRoute);
   }
 }
+
+/** The entries re-registering a copied route: its handler, and the versions it serves. */
+function routeEntries(route: HandlerEntry): RouteEntry[] {
+  return route.versions ? [endpoint({ versions: route.versions }), route.handler] : [route.handler];
+}
@@ -22,6 +22,7 @@ import type { Context, HttpMethod, Middleware, RouteMatch } from '@nextrush/type
 import { NOOP_NEXT, type TrieNode } from './segment-trie';
 import { findAllowedMethods } from './find-node';
 import { canonicalizePath } from './canonicalize';
+import { getRequestTracer, tracedRoute } from './tracing';
 
 /**
  * Shared resolved promise for the no-`next` miss path (NF-1). Reused rather than
@@ -42,7 +43,9 @@ const RESOLVED: Promise<void> = Promise.resolve();
  * target as `ctx.originalPath`), sets `ctx.params`, and runs the
  * pre-compiled executor (which already bakes in any router-level
  * middleware). A miss sets `ctx.status = 404` and yields to the next
- * middleware so `allowedMethods()`/a 404 handler can act.
+ * middleware so `allowedMethods()`/a 404 handler can act. When a tracing
+ * middleware published a tracer on `ctx.state`, the matched route template
+ * is reported to it and the traced executor runs instead.
  *
  * @param match - Route resolver, supplied by `Router.match` so this factory
  *   never touches `Router` internals directly.
@@ -83,6 +86,12 @@ export function createRoutesMiddleware(
 
     ctx.params = routeMatch.params;
 
+    const tracer = getRequestTracer(ctx);
+    if (tracer && routeMatch.tracedExecutor) {
+      if (routeMatch.route !== undefined) tracer.setRoute(tracedRoute(ctx, routeMatch.route));
+      return routeMatch.tracedExecutor(ctx);
+    }
+
     // NF-1: forward the executor's promise DIRECTLY instead of `await`-ing it in
     // an extra `async` frame. The executor already returns a `Promise<void>`,
     // converts synchronous throws to rejections, and terminates the chain at the
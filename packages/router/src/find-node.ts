@@ -15,21 +15,23 @@
  */
 
 import type { HttpMethod } from '@nextrush/types';
-import { normalizePathForMatch, segmentAt } from './matching';
-import type { TrieNode } from './segment-trie';
+import { collapseAndStrip, decodeParam, normalizePathForMatch, segmentAt } from './matching';
+import { paramAlternative, type TrieNode } from './segment-trie';
 
 /**
  * One node in {@link findNode}'s explicit-stack walk. `stage` is a small state
  * machine (0 = extract segment + try static, 1 = try param, 2 = try
  * wildcard/backtrack) so a single frame can be revisited on backtrack without
  * recursion. `next` is the start position of the following segment, captured
- * once in stage 0 and reused when descending into the param branch.
+ * once in stage 0 and reused when descending into the param branch. `alt` is
+ * the cursor over the node's param alternatives (constrained params first).
  */
 interface FindFrame {
   node: TrieNode;
   pos: number;
   stage: 0 | 1 | 2;
   next: number;
+  alt: number;
 }
 
 /**
@@ -40,17 +42,25 @@ interface FindFrame {
  * Walks with an EXPLICIT stack instead of recursion — mirroring
  * `matchNodeIndexed` — so a pathological segment count cannot overflow the call
  * stack (the same DoS class HP-11 closed for the match path). Behavior is
- * byte-identical to the former recursive walker: precedence is static > param >
- * wildcard at each node, a partially-matching branch backtracks cleanly, the
+ * byte-identical to the former recursive walker: precedence is static >
+ * constrained params > param > wildcard at each node, a partially-matching
+ * branch backtracks cleanly, the
  * wildcard child is a terminal (it captures the remainder), and the first
  * accepted terminal wins. The scalar {@link segmentAt} scan is reused so the
  * traversal shares one segment-extraction helper rather than duplicating it.
  *
  * `path` is the already-normalized lookup path; `startPos` skips the leading
- * `/` (callers pass `1`, matching `matchNodeIndexed`).
+ * `/` (callers pass `1`, matching `matchNodeIndexed`). `originalPath`, present
+ * only when case-folding may have occurred, supplies the original-case value a
+ * constrained param is tested against — the same value the match walk tests.
  */
-export function findNode(root: TrieNode, path: string, startPos: number): TrieNode | null {
-  const stack: FindFrame[] = [{ node: root, pos: startPos, stage: 0, next: 0 }];
+export function findNode(
+  root: TrieNode,
+  path: string,
+  startPos: number,
+  originalPath?: string
+): TrieNode | null {
+  const stack: FindFrame[] = [{ node: root, pos: startPos, stage: 0, next: 0, alt: 0 }];
 
   while (stack.length > 0) {
     const frame = stack[stack.length - 1];
@@ -77,18 +87,25 @@ export function findNode(root: TrieNode, path: string, startPos: number): TrieNo
       frame.stage = 1;
       const staticChild = frame.node.children.get(seg);
       if (staticChild) {
-        stack.push({ node: staticChild, pos: frame.next, stage: 0, next: 0 });
+        stack.push({ node: staticChild, pos: frame.next, stage: 0, next: 0, alt: 0 });
       }
       continue;
     }
 
-    // Stage 1 — static child (if any) failed: try the param child.
+    // Stage 1 — static child (or the previous param alternative) failed: try
+    // the next param alternative whose constraint, if any, admits the segment.
     if (frame.stage === 1) {
-      frame.stage = 2;
-      if (frame.node.paramChild) {
-        stack.push({ node: frame.node.paramChild, pos: frame.next, stage: 0, next: 0 });
+      const paramChild = paramAlternative(frame.node, frame.alt++);
+      if (paramChild) {
+        if (
+          paramChild.pattern === undefined ||
+          paramChild.pattern.test(constrainedValue(frame, path, originalPath))
+        ) {
+          stack.push({ node: paramChild, pos: frame.next, stage: 0, next: 0, alt: 0 });
+        }
+        continue;
       }
-      continue;
+      frame.stage = 2;
     }
 
     // Stage 2 — static and param branches exhausted: the wildcard child is a
@@ -102,6 +119,14 @@ export function findNode(root: TrieNode, path: string, startPos: number): TrieNo
   return null;
 }
 
+/**
+ * The decoded, original-case segment at `frame.pos` — the value a constrained
+ * param would bind. Decoding follows the router's default (`decode: true`).
+ */
+function constrainedValue(frame: FindFrame, path: string, originalPath?: string): string {
+  return decodeParam(segmentAt(originalPath ?? path, frame.pos), true);
+}
+
 /**
  * Find all HTTP methods registered for a given path via a single tree walk.
  * `caseSensitive`/`strict` (formerly `this.opts.*`) and `root` (formerly
@@ -118,7 +143,8 @@ export function findAllowedMethods(
   // Walk from position 1 to skip the leading '/', matching `matchNodeIndexed`'s
   // start offset. The iterative `findNode` scans segments off the path in place,
   // so no `split('/')` array is allocated here.
-  const node = findNode(root, normalized, 1);
+  const original = caseSensitive ? undefined : collapseAndStrip(path, strict);
+  const node = findNode(root, normalized, 1, original);
   if (!node || node.handlers.size === 0) return [];
 
   return Array.from(node.handlers.keys());
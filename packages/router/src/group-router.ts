@@ -9,7 +9,7 @@
  * @packageDocumentation
  */
 
-import { HTTP_METHODS, type HttpMethod, type Middleware, type RouteHandler } from '@nextrush/types';
+import { HTTP_METHODS, type HttpMethod, type Middleware, type RouteEntry } from '@nextrush/types';
 import { createRedirectHandler, type RedirectStatus } from './redirect';
 
 /**
@@ -24,12 +24,14 @@ export interface GroupRouterHost {
   _addGroupRoute(
     method: HttpMethod,
     path: string,
-    handlers: RouteHandler[],
+    entries: RouteEntry[],
     groupMiddleware: Middleware[],
     recordIntrospection?: boolean
   ): void;
+  /** Reject an already-taken route name before a group's `.all()` inserts anything. */
+  _assertRouteNameFree(entries: RouteEntry[]): void;
   /** Record a single any-method introspection row (T016) — see `Router._pushAnyMethodRouteDefinition`. */
-  _pushAnyMethodRouteDefinition(path: string): void;
+  _pushAnyMethodRouteDefinition(path: string, entries: RouteEntry[]): void;
 }
 
 /**
@@ -41,14 +43,14 @@ export interface GroupRouterHost {
  * why the previous `as unknown as Router` cast was a lie (audit RT-6).
  */
 export interface RouteGroup {
-  get(path: string, ...handlers: RouteHandler[]): this;
-  post(path: string, ...handlers: RouteHandler[]): this;
-  put(path: string, ...handlers: RouteHandler[]): this;
-  delete(path: string, ...handlers: RouteHandler[]): this;
-  patch(path: string, ...handlers: RouteHandler[]): this;
-  head(path: string, ...handlers: RouteHandler[]): this;
-  options(path: string, ...handlers: RouteHandler[]): this;
-  all(path: string, ...handlers: RouteHandler[]): this;
+  get(path: string, ...entries: RouteEntry[]): this;
+  post(path: string, ...entries: RouteEntry[]): this;
+  put(path: string, ...entries: RouteEntry[]): this;
+  delete(path: string, ...entries: RouteEntry[]): this;
+  patch(path: string, ...entries: RouteEntry[]): this;
+  head(path: string, ...entries: RouteEntry[]): this;
+  options(path: string, ...entries: RouteEntry[]): this;
+  all(path: string, ...entries: RouteEntry[]): this;
   redirect(from: string, to: string, status?: RedirectStatus): this;
   group(
     prefix: string,
@@ -83,38 +85,38 @@ export class GroupRouter implements RouteGroup {
     return cleanPrefix + cleanPath;
   }
 
-  get(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('GET', this.fullPath(path), handlers, this.middleware);
+  get(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('GET', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
-  post(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('POST', this.fullPath(path), handlers, this.middleware);
+  post(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('POST', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
-  put(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('PUT', this.fullPath(path), handlers, this.middleware);
+  put(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('PUT', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
-  delete(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('DELETE', this.fullPath(path), handlers, this.middleware);
+  delete(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('DELETE', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
-  patch(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('PATCH', this.fullPath(path), handlers, this.middleware);
+  patch(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('PATCH', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
-  head(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('HEAD', this.fullPath(path), handlers, this.middleware);
+  head(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('HEAD', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
-  options(path: string, ...handlers: RouteHandler[]): this {
-    this.parent._addGroupRoute('OPTIONS', this.fullPath(path), handlers, this.middleware);
+  options(path: string, ...entries: RouteEntry[]): this {
+    this.parent._addGroupRoute('OPTIONS', this.fullPath(path), entries, this.middleware);
     return this;
   }
 
@@ -125,11 +127,12 @@ export class GroupRouter implements RouteGroup {
    * registration is routed through `_addGroupRoute` instead of `addRoute`
    * directly.
    */
-  all(path: string, ...handlers: RouteHandler[]): this {
+  all(path: string, ...entries: RouteEntry[]): this {
+    this.parent._assertRouteNameFree(entries);
     for (const method of HTTP_METHODS) {
-      this.parent._addGroupRoute(method, this.fullPath(path), handlers, this.middleware, false);
+      this.parent._addGroupRoute(method, this.fullPath(path), entries, this.middleware, false);
     }
-    this.parent._pushAnyMethodRouteDefinition(this.fullPath(path));
+    this.parent._pushAnyMethodRouteDefinition(this.fullPath(path), entries);
     return this;
   }
 
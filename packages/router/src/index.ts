@@ -36,5 +36,6 @@ export type {
   RouteHandler,
   RouteMatch,
   Router as RouterInterface,
-  RouterOptions
+  RouterOptions,
+  VersioningOptions
 } from '@nextrush/types';
@@ -110,6 +110,8 @@ export function matchRoute(
         params: EMPTY_PARAMS,
         middleware: routerMiddleware,
         executor: staticEntry.executor,
+        tracedExecutor: staticEntry.tracedExecutor,
+        route: staticEntry.route,
       };
     }
   }
@@ -180,6 +182,8 @@ export function matchRoute(
     params,
     middleware: routerMiddleware,
     executor: entry.executor,
+    tracedExecutor: entry.tracedExecutor,
+    route: entry.route,
   };
 }
 
@@ -12,7 +12,7 @@
  */
 
 import type { HttpMethod } from '@nextrush/types';
-import type { HandlerEntry, TrieNode } from './segment-trie';
+import { paramAlternative, type HandlerEntry, type TrieNode } from './segment-trie';
 import { matchNodeIndexedPooled, type WalkFrame, type WalkPool } from './walk-pool';
 
 export type { WalkFrame, WalkPool } from './walk-pool';
@@ -128,8 +128,10 @@ export function normalizePathForMatch(
  * Walks the trie with an EXPLICIT stack instead of recursion, so a pathological
  * segment count cannot overflow the call stack (DoS safety) — behavior is
  * otherwise byte-identical to the former recursive matcher: precedence is
- * static > param > wildcard at each node, a partially-matching branch backtracks
- * cleanly, and the first accepted terminal wins.
+ * static > constrained params (registration order) > param > wildcard at each
+ * node, a partially-matching branch backtracks cleanly, and the first accepted
+ * terminal wins. A constrained param is only descended when its anchored
+ * pattern matches the (decoded) value it would bind.
  *
  * Param/wildcard bindings are DEFERRED onto the caller-owned `bindNames` /
  * `bindValues` stacks and popped on backtrack, so params are materialized ONCE
@@ -165,7 +167,7 @@ export function matchNodeIndexed(
     return matchNodeIndexedPooled(root, path, startPos, bindNames, bindValues, method, decode, pool, originalPath);
   }
   const stack: WalkFrame[] = [
-    { node: root, pos: startPos, stage: 0, seg: '', next: 0, bound: false },
+    { node: root, pos: startPos, stage: 0, seg: '', next: 0, bound: false, alt: 0 },
   ];
 
   while (stack.length > 0) {
@@ -197,16 +199,21 @@ export function matchNodeIndexed(
       frame.stage = 1;
       const staticChild = frame.node.children.get(frame.seg);
       if (staticChild) {
-        stack.push({ node: staticChild, pos: frame.next, stage: 0, seg: '', next: 0, bound: false });
+        stack.push({ node: staticChild, pos: frame.next, stage: 0, seg: '', next: 0, bound: false, alt: 0 });
       }
       continue;
     }
 
-    // Stage 1 — static child (if any) has failed: try the param child, deferring
-    // its binding onto the shared stacks.
+    // Stage 1 — static child (if any) has failed, or the previous param
+    // alternative did: undo that alternative's deferred bind, then try the next
+    // one (constrained params first, the unconstrained param last).
     if (frame.stage === 1) {
-      frame.stage = 2;
-      const paramChild = frame.node.paramChild;
+      if (frame.bound) {
+        bindNames.pop();
+        bindValues.pop();
+        frame.bound = false;
+      }
+      const paramChild = paramAlternative(frame.node, frame.alt++);
       if (paramChild) {
         const paramName = paramChild.paramName;
         if (paramName === undefined) return null; // degenerate param node → whole walk fails (as before)
@@ -214,21 +221,18 @@ export function matchNodeIndexed(
           originalPath !== undefined
             ? decodeParam(segmentAt(originalPath, frame.pos), decode)
             : decodeParam(frame.seg, decode);
+        if (paramChild.pattern !== undefined && !paramChild.pattern.test(value)) continue;
         bindNames.push(paramName);
         bindValues.push(value);
         frame.bound = true;
-        stack.push({ node: paramChild, pos: frame.next, stage: 0, seg: '', next: 0, bound: false });
+        stack.push({ node: paramChild, pos: frame.next, stage: 0, seg: '', next: 0, bound: false, alt: 0 });
+        continue;
       }
-      continue;
+      frame.stage = 2;
     }
 
-    // Stage 2 — param branch (if taken) failed: undo its deferred bind, then try
-    // the wildcard child (a terminal — it captures the original-case remainder).
-    if (frame.bound) {
-      bindNames.pop();
-      bindValues.pop();
-      frame.bound = false;
-    }
+    // Stage 2 — every param alternative failed: try the wildcard child (a
+    // terminal — it captures the original-case remainder).
     const wildcardChild = frame.node.wildcardChild;
     if (wildcardChild) {
       const src = originalPath ?? path;
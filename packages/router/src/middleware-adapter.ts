@@ -17,7 +17,13 @@
  * @internal
  */
 
-import { compileExecutor, type StaticRouteMap, type TrieNode } from './segment-trie';
+import {
+  compileExecutor,
+  type HandlerEntry,
+  type StaticRouteMap,
+  type TrieNode,
+} from './segment-trie';
+import { compileTracedExecutor } from './tracing';
 import type { Middleware } from '@nextrush/types';
 
 /**
@@ -33,15 +39,27 @@ export function sealRouterMiddleware(
 ): void {
   const routerMw = [...routerMiddleware];
 
+  // A version-selecting entry runs its variants' executors, so those are the
+  // ones re-compiled; its own dispatch to them stays as built.
+  const seal = (entry: HandlerEntry): void => {
+    if (entry.variants) {
+      for (const variant of entry.variants) seal(variant);
+      return;
+    }
+    const combinedMw = [...routerMw, ...entry.middleware];
+    entry.executor = compileExecutor(entry.handler, combinedMw);
+    entry.tracedExecutor = compileTracedExecutor(entry.handler, combinedMw);
+  };
+
   const walk = (node: TrieNode): void => {
     for (const [method, entry] of node.handlers) {
-      const combinedMw = [...routerMw, ...entry.middleware];
-      entry.executor = compileExecutor(entry.handler, combinedMw);
+      seal(entry);
       node.handlers.set(method, entry);
     }
     for (const [, child] of node.children) {
       walk(child);
     }
+    for (const child of node.patternChildren ?? []) walk(child);
     if (node.paramChild) walk(node.paramChild);
     if (node.wildcardChild) walk(node.wildcardChild);
   };
@@ -51,8 +69,7 @@ export function sealRouterMiddleware(
   // Also update static route entries (method-nested map, HP-9).
   for (const [, methodMap] of staticRoutes) {
     for (const [key, entry] of methodMap) {
-      const combinedMw = [...routerMw, ...entry.middleware];
-      entry.executor = compileExecutor(entry.handler, combinedMw);
+      seal(entry);
       methodMap.set(key, entry);
     }
   }
@@ -26,6 +26,7 @@ import type {
   RouteDefinition,
   RouteEntry,
   RouteHandler,
+  RouteMetadata,
 } from '@nextrush/types';
 import {
   compileExecutor,
@@ -33,11 +34,19 @@ import {
   NodeType,
   parseSegments,
   type HandlerEntry,
+  type ParsedSegment,
   type StaticRouteMap,
   type TrieNode,
 } from './segment-trie';
+import { compileTracedExecutor } from './tracing';
 import { mergeContributions, readContribution } from './route-metadata';
 import { createRedirectHandler, type RedirectStatus } from './redirect';
+import {
+  createVersionedEntry,
+  routeVersions,
+  versionsOverlap,
+  type Versioning,
+} from './versioning';
 
 /**
  * Registration state `addRoute` reads and writes, threaded explicitly.
@@ -54,6 +63,10 @@ export interface RegistrationState {
   readonly caseSensitive: boolean;
   readonly staticRoutes: StaticRouteMap;
   readonly routeDefinitions: RouteDefinition[];
+  /** Named routes (`RouteMetadata.name`) → normalized path, read by `Router.url()`. */
+  readonly routeNames: Map<string, string>;
+  /** The resolved `versioning` router option, if the router versions its routes. */
+  readonly versioning: Versioning | undefined;
   maxDepth: number;
 }
 
@@ -127,6 +140,8 @@ function setStaticEntry(
  *   touching how any individual method is matched. Every other call site
  *   (`get`/`post`/etc., `redirect`, sub-router mounting) omits this parameter
  *   and keeps the original one-row-per-call behavior unchanged.
+ * @param claimName - When `false`, the route's name is not claimed. `Router`
+ *   registers a URI-versioned route once per version; only the first claims it.
  * @returns `true` if the registered route has a param or wildcard segment —
  *   the caller (`Router.addRoute`) uses this to flip its own `hasParamRoutes`
  *   flag. Returned rather than mutated through `state` because it's a
@@ -139,7 +154,8 @@ export function addRoute(
   entries: RouteEntry[],
   middleware: Middleware[],
   state: RegistrationState,
-  recordIntrospection = true
+  recordIntrospection = true,
+  claimName = true
 ): boolean {
   const segments = parseSegments(normalized, state.caseSensitive);
 
@@ -147,39 +163,7 @@ export function addRoute(
     state.maxDepth = segments.length;
   }
 
-  let node = state.root;
-
-  for (const seg of segments) {
-    if (seg.type === NodeType.PARAM) {
-      if (!node.paramChild) {
-        node.paramChild = createNode(seg.segment, NodeType.PARAM);
-        node.paramChild.paramName = seg.paramName;
-      } else if (node.paramChild.paramName !== seg.paramName) {
-        // Same position, different param names — this silently loses one name
-        // at runtime (params[newName] is undefined), so fail fast at
-        // registration rather than warn (audit RT-5). Also removes the
-        // process.env / console.warn usage that was here.
-        throw new Error(
-          `Route param name conflict at "${normalized}": ":${String(seg.paramName)}" ` +
-            `conflicts with existing ":${String(node.paramChild.paramName)}" at the same ` +
-            `position. Use the same param name for this segment across all routes.`
-        );
-      }
-      node = node.paramChild;
-    } else if (seg.type === NodeType.WILDCARD) {
-      node.wildcardChild ??= createNode('*', NodeType.WILDCARD);
-      node = node.wildcardChild;
-      break; // Wildcard must be last
-    } else {
-      const key = seg.segment;
-      let child = node.children.get(key);
-      if (!child) {
-        child = createNode(seg.segment, NodeType.STATIC);
-        node.children.set(key, child);
-      }
-      node = child;
-    }
-  }
+  const terminals = insertSegments(state.root, segments, normalized);
 
   // Partition entries: functions are behavior (inline middleware + the final
   // handler); pure markers (endpoint()) contribute metadata only and never
@@ -209,55 +193,64 @@ export function addRoute(
 
   // Pre-compile executor at registration time (not per-request!)
   const executor = compileExecutor(finalHandler, combinedMiddleware);
+  const tracedExecutor = compileTracedExecutor(finalHandler, combinedMiddleware);
 
   const handlerEntry: HandlerEntry = {
     handler: finalHandler,
     middleware: combinedMiddleware,
     executor,
+    tracedExecutor,
+    route: normalized,
     autoHead: false,
   };
 
-  // Detect duplicate route registration. A derived HEAD entry is not a
-  // duplicate — an explicit `router.head()` replaces it, in either
-  // registration order.
-  const existing = node.handlers.get(method);
-  if (existing && !(method === 'HEAD' && existing.autoHead)) {
-    throw new Error(
-      `Route conflict: ${method} ${normalized} is already registered. ` +
-        'Remove the duplicate or use a different path.'
-    );
-  }
+  const versions = state.versioning ? routeVersions(entries, state.versioning) : undefined;
+  if (state.versioning?.extract) handlerEntry.versions = versions;
+
+  // Detect duplicate route registration at every terminal before installing
+  // at any, so a conflicting optional-param route registers nothing.
+  const installed = terminals.map((terminal) =>
+    entryToInstall(terminal, method, handlerEntry, state.versioning)
+  );
 
-  node.handlers.set(method, handlerEntry);
-
-  // Populate static route hash map for O(1) lookup. Method-nested (HP-9): the
-  // outer map is keyed by method, the inner by the (lowercased, unless
-  // case-sensitive) path — so matching selects the inner map by method and
-  // probes by the raw path with no per-request key-string concatenation.
-  const hasParams = segments.some((s) => s.type === NodeType.PARAM || s.type === NodeType.WILDCARD);
-  const staticKey = hasParams
-    ? undefined
-    : state.caseSensitive
-      ? normalized
-      : normalized.toLowerCase();
-  if (staticKey !== undefined) {
-    setStaticEntry(state.staticRoutes, method, staticKey, handlerEntry);
+  // The name is checked last, so a route that fails for any reason claims none.
+  const metadata = recordIntrospection
+    ? withVersions(mergeContributions(contributions), versions)
+    : undefined;
+  if (metadata?.name !== undefined && claimName) {
+    claimRouteName(state, metadata.name, normalized);
   }
 
-  // RFC 9110 §9.3.2: HEAD is GET without a body, so a GET registration answers
-  // HEAD too — matching Fastify/Express/Koa/Hono. Derived at registration time,
-  // so request dispatch is unchanged. An explicit HEAD already registered for
-  // this path wins and is never overwritten.
-  if (method === 'GET' && !node.handlers.has('HEAD')) {
-    const derived: HandlerEntry = {
-      handler: finalHandler,
-      middleware: combinedMiddleware,
-      executor,
-      autoHead: true,
-    };
-    node.handlers.set('HEAD', derived);
+  for (const [index, terminal] of terminals.entries()) {
+    const { node } = terminal;
+    const installedEntry = installed[index] ?? handlerEntry;
+    node.handlers.set(method, installedEntry);
+
+    // Populate static route hash map for O(1) lookup. Method-nested (HP-9): the
+    // outer map is keyed by method, the inner by the (lowercased, unless
+    // case-sensitive) path — so matching selects the inner map by method and
+    // probes by the raw path with no per-request key-string concatenation.
+    const staticKey = terminal.hasParams
+      ? undefined
+      : state.caseSensitive
+        ? terminal.path
+        : terminal.path.toLowerCase();
     if (staticKey !== undefined) {
-      setStaticEntry(state.staticRoutes, 'HEAD', staticKey, derived);
+      setStaticEntry(state.staticRoutes, method, staticKey, installedEntry);
+    }
+
+    // RFC 9110 §9.3.2: HEAD is GET without a body, so a GET registration answers
+    // HEAD too — matching Fastify/Express/Koa/Hono. Derived at registration time,
+    // so request dispatch is unchanged. An explicit HEAD already registered for
+    // this path wins and is never overwritten; a derived one is re-derived when
+    // another version of the GET joins it.
+    const head = node.handlers.get('HEAD');
+    if (method === 'GET' && (!head || head.autoHead)) {
+      const derived: HandlerEntry = { ...installedEntry, autoHead: true };
+      node.handlers.set('HEAD', derived);
+      if (staticKey !== undefined) {
+        setStaticEntry(state.staticRoutes, 'HEAD', staticKey, derived);
+      }
     }
   }
 
@@ -271,11 +264,189 @@ export function addRoute(
       key: `${method} ${normalized}`,
       method,
       path: normalized,
-      metadata: mergeContributions(contributions),
+      metadata,
     });
   }
 
-  return hasParams;
+  return segments.some((seg) => seg.type !== NodeType.STATIC);
+}
+
+/**
+ * The entry to install for `method` at `terminal`: the new route itself, or —
+ * when the router selects a version per request and the route is versioned or
+ * joins others on the same method and path — a version-selecting entry over
+ * all of them. A derived HEAD entry is not a duplicate — an explicit
+ * `router.head()` replaces it, in either registration order.
+ *
+ * @throws {Error} When a route already serves the method and path (for a
+ *   versioning router: one of the same versions, or both version-neutral).
+ */
+function entryToInstall(
+  terminal: Terminal,
+  method: HttpMethod,
+  entry: HandlerEntry,
+  versioning: Versioning | undefined
+): HandlerEntry {
+  const found = terminal.node.handlers.get(method);
+  const existing = found && !(method === 'HEAD' && found.autoHead) ? found : undefined;
+
+  if (!versioning?.extract) {
+    if (existing) throw routeConflict(method, terminal.path);
+    return entry;
+  }
+
+  const variants = existing ? (existing.variants ?? [existing]) : [];
+  const clash = variants.find((variant) => versionsOverlap(variant.versions, entry.versions));
+  if (clash) {
+    throw routeConflict(method, terminal.path, clash.versions);
+  }
+  if (variants.length === 0 && entry.versions === undefined) return entry;
+  return createVersionedEntry([...variants, entry], entry.route, versioning);
+}
+
+function routeConflict(method: HttpMethod, path: string, versions?: readonly string[]): Error {
+  const scope = versions ? ` for version ${versions.join(', ')}` : '';
+  return new Error(
+    `Route conflict: ${method} ${path} is already registered${scope}. ` +
+      'Remove the duplicate or use a different path.'
+  );
+}
+
+/** Record the versions a route serves in its metadata, unless it declared them itself. */
+function withVersions(
+  metadata: RouteMetadata | undefined,
+  versions: readonly string[] | undefined
+): RouteMetadata | undefined {
+  if (versions === undefined || metadata?.versions !== undefined) return metadata;
+  return { ...metadata, versions };
+}
+
+/**
+ * A node a route's handler is installed on, with the concrete path it answers.
+ * A route has one terminal per optional-param expansion (`/posts/:slug?`
+ * answers at both `/posts` and `/posts/:slug`), otherwise exactly one.
+ */
+interface Terminal {
+  readonly node: TrieNode;
+  readonly path: string;
+  readonly hasParams: boolean;
+}
+
+/**
+ * Walk (creating as needed) the trie nodes for `segments` and return the
+ * route's terminals.
+ *
+ * Constrained params get their own node per constraint, tried in
+ * registration order ahead of the unconstrained param, so priority between
+ * sibling constraints is deterministic. Re-registering the same constraint
+ * reuses its node — a duplicate method there is then reported as a route
+ * conflict, exactly like a duplicate static route.
+ *
+ * @throws {Error} When two params at the same position share a constraint (or
+ *   both have none) but differ in name, or an optional param is followed by a
+ *   required segment.
+ */
+function insertSegments(root: TrieNode, segments: ParsedSegment[], normalized: string): Terminal[] {
+  const firstOptional = segments.findIndex((seg) => seg.optional === true);
+  if (firstOptional !== -1) {
+    const required = segments.slice(firstOptional).find((seg) => seg.optional !== true);
+    if (required) {
+      throw new Error(
+        `Optional route param in "${normalized}" must be trailing: "${required.segment}" ` +
+          'follows an optional segment. Only the last segments of a path can be optional.'
+      );
+    }
+  }
+
+  const terminals: Terminal[] = [];
+  const pathParts = segments.length === 0 ? [] : normalized.slice(1).split('/');
+  let node = root;
+  let hasParams = false;
+
+  for (let i = 0; i < segments.length; i++) {
+    const seg = segments[i];
+    if (seg === undefined) break;
+
+    // Every prefix ending right before an optional segment answers the route too.
+    if (i === firstOptional || (firstOptional !== -1 && i > firstOptional)) {
+      terminals.push({ node, path: joinParts(pathParts, i), hasParams });
+    }
+
+    if (seg.type === NodeType.PARAM) {
+      node = seg.pattern
+        ? constrainedChild(node, seg, normalized)
+        : unconstrainedChild(node, seg, normalized);
+      hasParams = true;
+    } else if (seg.type === NodeType.WILDCARD) {
+      node.wildcardChild ??= createNode('*', NodeType.WILDCARD);
+      node = node.wildcardChild;
+      hasParams = true;
+      break; // Wildcard must be last
+    } else {
+      const key = seg.segment;
+      let child = node.children.get(key);
+      if (!child) {
+        child = createNode(seg.segment, NodeType.STATIC);
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+  }
+
+  terminals.push({ node, path: joinParts(pathParts, segments.length), hasParams });
+  return terminals;
+}
+
+/**
+ * Rebuild the concrete path answered by the first `count` segments (`'/'` for
+ * none), dropping the `?` marker from optional params.
+ */
+function joinParts(parts: readonly string[], count: number): string {
+  let path = '';
+  for (let i = 0; i < count; i++) {
+    const part = parts[i] ?? '';
+    path += '/' + (part.startsWith(':') && part.endsWith('?') ? part.slice(0, -1) : part);
+  }
+  return path === '' ? '/' : path;
+}
+
+/** Get or create the unconstrained param child for `seg`. */
+function unconstrainedChild(node: TrieNode, seg: ParsedSegment, normalized: string): TrieNode {
+  if (!node.paramChild) {
+    node.paramChild = createNode(seg.segment, NodeType.PARAM);
+    node.paramChild.paramName = seg.paramName;
+  } else if (node.paramChild.paramName !== seg.paramName) {
+    // Same position, different param names — this silently loses one name
+    // at runtime (params[newName] is undefined), so fail fast at
+    // registration rather than warn (audit RT-5). Also removes the
+    // process.env / console.warn usage that was here.
+    throw paramConflict(normalized, seg, node.paramChild);
+  }
+  return node.paramChild;
+}
+
+/** Get or create the param child constrained by `seg.pattern`. */
+function constrainedChild(node: TrieNode, seg: ParsedSegment, normalized: string): TrieNode {
+  const source = seg.pattern?.source;
+  const siblings = (node.patternChildren ??= []);
+  const existing = siblings.find((child) => child.pattern?.source === source);
+  if (existing) {
+    if (existing.paramName !== seg.paramName) throw paramConflict(normalized, seg, existing);
+    return existing;
+  }
+  const child = createNode(seg.segment, NodeType.PARAM);
+  child.paramName = seg.paramName;
+  child.pattern = seg.pattern;
+  siblings.push(child);
+  return child;
+}
+
+function paramConflict(normalized: string, seg: ParsedSegment, existing: TrieNode): Error {
+  return new Error(
+    `Route param name conflict at "${normalized}": "${seg.segment}" ` +
+      `conflicts with existing "${existing.segment}" at the same ` +
+      `position. Use the same param name for this segment across all routes.`
+  );
 }
 
 /**
@@ -325,19 +496,88 @@ export function registerRedirect(
  * handler each (so every method still matches) with `recordIntrospection`
  * off, then call this exactly once — so `getRoutes()` yields a single row per
  * `.all()`/`@All()` route instead of one row per enumerated HTTP method,
- * without changing how any individual method is matched.
+ * without changing how any individual method is matched. The row carries the
+ * route's merged metadata and claims its name, which the caller has already
+ * checked with {@link assertRouteNameFree} before inserting any handler.
  *
- * @param routeDefinitions - The router's introspection registry to append to.
+ * @param state - The registration state whose registry and names to update.
  * @param normalized - The already-normalized route path.
+ * @param entries - The route's entries, read for metadata contributions only.
+ * @param claimName - When `false`, the route's name is not claimed (see {@link addRoute}).
  */
 export function pushAnyMethodDefinition(
-  routeDefinitions: RouteDefinition[],
-  normalized: string
+  state: RegistrationState,
+  normalized: string,
+  entries: readonly RouteEntry[],
+  claimName = true
 ): void {
-  routeDefinitions.push({
+  const metadata = withVersions(
+    routeMetadataOf(entries),
+    state.versioning ? routeVersions(entries, state.versioning) : undefined
+  );
+  if (metadata?.name !== undefined && claimName) {
+    claimRouteName(state, metadata.name, normalized);
+  }
+  state.routeDefinitions.push({
     key: `${HTTP_METHODS[0]} ${normalized}`,
     method: HTTP_METHODS[0],
     path: normalized,
     isAnyMethod: true,
+    metadata,
   });
 }
+
+/**
+ * Throw if the name `entries` contribute is already taken — lets a caller that
+ * registers one route through several `addRoute` calls (`.all()`) fail before
+ * inserting any of them.
+ */
+export function assertRouteNameFree(
+  state: RegistrationState,
+  entries: readonly RouteEntry[]
+): void {
+  const name = routeMetadataOf(entries)?.name;
+  if (name !== undefined) assertNameFree(state, name);
+}
+
+/**
+ * Import a mounted sub-router's route names, re-rooted under the mount
+ * `prefix`. Every name is checked before any is claimed, so a collision leaves
+ * the parent's names untouched.
+ *
+ * @param toPath - Maps a child path to the parent's normalized path (prefix join).
+ */
+export function importRouteNames(
+  state: RegistrationState,
+  names: ReadonlyMap<string, string>,
+  toPath: (childPath: string) => string
+): void {
+  for (const name of names.keys()) assertNameFree(state, name);
+  for (const [name, childPath] of names) state.routeNames.set(name, toPath(childPath));
+}
+
+/** Merge the metadata contributions carried by `entries`. */
+function routeMetadataOf(entries: readonly RouteEntry[]): RouteMetadata | undefined {
+  const contributions: MetadataContribution[] = [];
+  for (const entry of entries) {
+    const contribution = readContribution(entry);
+    if (contribution) contributions.push(contribution);
+  }
+  return mergeContributions(contributions);
+}
+
+/** Record `name` → `normalized` for `Router.url()`, rejecting a duplicate. */
+function claimRouteName(state: RegistrationState, name: string, normalized: string): void {
+  assertNameFree(state, name);
+  state.routeNames.set(name, normalized);
+}
+
+function assertNameFree(state: RegistrationState, name: string): void {
+  const existing = state.routeNames.get(name);
+  if (existing !== undefined) {
+    throw new Error(
+      `Duplicate route name "${name}": already registered for ${existing}. ` +
+        'Route names must be unique within a router.'
+    );
+  }
+}
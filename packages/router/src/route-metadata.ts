@@ -40,9 +40,10 @@ type MutableRouteMetadata = { -readonly [K in keyof RouteMetadata]?: RouteMetada
 
 /**
  * Merge metadata contributions (from `validate()`, `endpoint()`, etc.) in
- * registration order. Scalars and arrays are last-write-wins; the `request` and
- * `responses` maps merge per key. Returns `undefined` when nothing contributed
- * (an undocumented route).
+ * registration order. Scalars (including `timeout`), arrays, the
+ * `cacheControl` policy and the `security` requirement are last-write-wins; the `request` and `responses`
+ * maps merge per key. Returns `undefined` when nothing contributed (an
+ * undocumented route).
  */
 export function mergeContributions(
   contributions: readonly MetadataContribution[]
@@ -55,7 +56,12 @@ export function mergeContributions(
     if (c.description !== undefined) meta.description = c.description;
     if (c.deprecated !== undefined) meta.deprecated = c.deprecated;
     if (c.visibility !== undefined) meta.visibility = c.visibility;
+    if (c.name !== undefined) meta.name = c.name;
     if (c.tags !== undefined) meta.tags = c.tags;
+    if (c.cacheControl !== undefined) meta.cacheControl = c.cacheControl;
+    if (c.timeout !== undefined) meta.timeout = c.timeout;
+    if (c.security !== undefined) meta.security = c.security;
+    if (c.versions !== undefined) meta.versions = c.versions;
     if (c.request) meta.request = { ...meta.request, ...c.request };
     if (c.responses) meta.responses = { ...meta.responses, ...c.responses };
   }
@@ -14,9 +14,10 @@ import {
   type Middleware,
   type RouteDefinition,
   type RouteEntry,
-  type RouteHandler,
   type RouteMatch,
   type RouterOptions,
+  type RouteUrlParams,
+  type VersioningOptions,
 } from '@nextrush/types';
 import { clearNode, createNode, type StaticRouteMap, type TrieNode } from './segment-trie';
 import { type RedirectStatus } from './redirect';
@@ -27,14 +28,19 @@ import { copyRoutes } from './composition';
 import { sealRouterMiddleware as sealRouterMiddlewareImpl } from './middleware-adapter';
 import {
   addRoute as addRouteImpl,
+  assertRouteNameFree,
+  importRouteNames,
   normalizeRegistrationPath,
   pushAnyMethodDefinition,
   registerRedirect,
   type RegistrationState,
 } from './registration';
 import { createAllowedMethodsMiddleware, createRoutesMiddleware } from './dispatch';
-import { createRouterState, resolveRouterOptions } from './state';
+import { createRouterState, resolveRouterOptions, type ResolvedRouterOptions } from './state';
 import { canonicalizePath } from './canonicalize';
+import { buildUrl } from './url';
+import { endpoint } from './route-metadata';
+import { routeVersions, versionedPath } from './versioning';
 
 /** '/'.charCodeAt(0) — used by {@link Router.matchesMountPrefix}'s boundary check. */
 const SLASH_CHAR_CODE = 0x2f;
@@ -49,7 +55,7 @@ export { endpoint } from './route-metadata';
  */
 export class Router {
   private readonly root: TrieNode;
-  private readonly opts: Required<RouterOptions>;
+  private readonly opts: ResolvedRouterOptions;
   private readonly routerMiddleware: Middleware[] = [];
 
   /** Static-route fast path: method-nested map for O(1) lookup with no per-request key string (HP-9). */
@@ -61,6 +67,9 @@ export class Router {
    */
   private readonly routeDefinitions: RouteDefinition[] = [];
 
+  /** Named routes → normalized path, for {@link url}. Registration-time only, like `routeDefinitions`. */
+  private readonly routeNames = new Map<string, string>();
+
   /** Whether any routes have params or wildcards (disables static-only fast path) */
   private hasParamRoutes = false;
 
@@ -86,13 +95,19 @@ export class Router {
       this.opts,
       this.staticRoutes,
       this.routeDefinitions,
+      this.routeNames,
       this.routerMiddleware
     );
   }
 
+  /** How this router tells API versions apart, if it was created with `versioning`. */
+  get versioning(): VersioningOptions | undefined {
+    return this.opts.versioning?.options;
+  }
+
   /**
-   * Validate + normalize a raw path, then delegate trie insertion to the
-   * extracted `addRoute` (design.md D2); flips `hasParamRoutes` from its return.
+   * Validate a raw path and register the route — once per version it serves
+   * under URI versioning, each under its version's path.
    */
   private addRoute(
     method: HttpMethod,
@@ -108,9 +123,63 @@ export class Router {
         `Route path must be a string, received ${rawPath === null ? 'null' : typeof rawPath}.`
       );
     }
+    for (const [index, route] of this.versionedRoutes(path, entries).entries()) {
+      this.insertRoute(
+        method,
+        route.path,
+        route.entries,
+        middleware,
+        recordIntrospection,
+        index === 0
+      );
+    }
+  }
+
+  /**
+   * The path and entries a route registers under per version: one registration
+   * each under URI versioning (`/users` → `/v1/users`, `/v2/users`), carrying
+   * its version; the route unchanged otherwise.
+   */
+  private versionedRoutes(
+    path: string,
+    entries: RouteEntry[]
+  ): { readonly path: string; readonly entries: RouteEntry[] }[] {
+    const versioning = this.opts.versioning;
+    if (versioning?.uriPrefix === undefined) return [{ path, entries }];
+    const { uriPrefix } = versioning;
+    const versions = routeVersions(entries, versioning);
+    if (versions === undefined) return [{ path, entries }];
+    return versions.map((version) => ({
+      path: versionedPath(path, version, uriPrefix),
+      entries: [...entries, endpoint({ versions: [version] })],
+    }));
+  }
+
+  /**
+   * Normalize a path, then delegate trie insertion to the extracted
+   * `addRoute` (design.md D2); flips `hasParamRoutes` from its return.
+   */
+  private insertRoute(
+    method: HttpMethod,
+    path: string,
+    entries: RouteEntry[],
+    middleware: Middleware[] = [],
+    recordIntrospection = true,
+    claimName = true
+  ): void {
     const normalized = normalizeRegistrationPath(path, this.opts.prefix, this.opts.strict);
     const depthBefore = this.state.maxDepth;
-    if (addRouteImpl(method, normalized, entries, middleware, this.state, recordIntrospection)) {
+    if (
+      addRouteImpl(
+        method,
+        normalized,
+        entries,
+        middleware,
+        this.state,
+        recordIntrospection,
+        claimName
+      )
+    ) {
       this.hasParamRoutes = true;
     }
     // Rebuild the pool only when maxDepth actually grew (F-02) — a cheap,
@@ -160,18 +229,28 @@ export class Router {
    * introspection row (T016) — matching is unchanged (see {@link pushAnyMethodDefinition}).
    */
   all(path: string, ...entries: RouteEntry[]): this {
+    assertRouteNameFree(this.state, entries);
     // recordIntrospection=false: insert each per-method handler without its own
     // introspection row; the single consolidated row below replaces all 7.
     for (const method of HTTP_METHODS) {
       this.addRoute(method, path, entries, [], false);
     }
-    pushAnyMethodDefinition(
-      this.routeDefinitions,
-      normalizeRegistrationPath(path, this.opts.prefix, this.opts.strict)
-    );
+    this.pushAnyMethodDefinitions(path, entries);
     return this;
   }
 
+  /** Push the consolidated any-method row of each path an `.all()` route registered under. */
+  private pushAnyMethodDefinitions(path: string, entries: RouteEntry[]): void {
+    for (const [index, route] of this.versionedRoutes(path, entries).entries()) {
+      pushAnyMethodDefinition(
+        this.state,
+        normalizeRegistrationPath(route.path, this.opts.prefix, this.opts.strict),
+        route.entries,
+        index === 0
+      );
+    }
+  }
+
   route(method: HttpMethod, path: string, ...entries: RouteEntry[]): this {
     this.addRoute(method, path, entries);
     return this;
@@ -185,6 +264,22 @@ export class Router {
     return this.routeDefinitions;
   }
 
+  /**
+   * Build the path of a route named through `endpoint({ name })` (or a class
+   * route's `name` option), percent-encoding each param. Names of mounted
+   * sub-routers resolve under their mount prefix.
+   * @see {@link https://github.com/0xTanzim/nextRush/blob/main/packages/router/README.md#named-routes | README: Named Routes}
+   * @throws {Error} When no route has that name, a required param is missing, or
+   *   a param fails its route constraint.
+   */
+  url(name: string, params: RouteUrlParams = {}): string {
+    const path = this.routeNames.get(name);
+    if (path === undefined) {
+      throw new Error(`No route named "${name}" is registered on this router.`);
+    }
+    return buildUrl(path, params);
+  }
+
   /**
    * Register a redirect from one path to another (301 by default). 307/308
    * additionally register POST/PUT/PATCH/DELETE to preserve the method.
@@ -224,9 +319,20 @@ export class Router {
     return this;
   }
 
-  /** Mount a sub-router, carrying its own `routerMiddleware` onto every copied route. */
+  /**
+   * Mount a sub-router, carrying its own `routerMiddleware` onto every copied
+   * route and its route names re-rooted under `prefix`.
+   */
   private mountRouter(prefix: string, router: Router): void {
-    copyRoutes(router.root, prefix, [], router.routerMiddleware, this.addRoute.bind(this));
+    // Names first: a name collision then fails the mount before any route is copied.
+    importRouteNames(this.state, router.routeNames, (childPath) =>
+      normalizeRegistrationPath(prefix + childPath, this.opts.prefix, this.opts.strict)
+    );
+    // Copied routes keep the paths they were registered under, so a
+    // URI-versioned route is not versioned a second time.
+    copyRoutes(router.root, prefix, [], router.routerMiddleware, (method, path, entries, mw) => {
+      this.insertRoute(method, path, entries, mw);
+    });
   }
 
   /** Match a request to a route — delegates to {@link resolveMatch} (design.md D1). */
@@ -336,6 +442,7 @@ export class Router {
     // Clear the introspection registry too, or getRoutes()/OpenAPI would emit
     // ghost routes after a reset (audit RT-1).
     this.routeDefinitions.length = 0;
+    this.routeNames.clear();
     // Reset the walk-frame pool sizing too (F-02) — otherwise maxDepth would
     // keep reporting a since-cleared route's depth, and the pool would stay
     // needlessly oversized for whatever gets registered next.
@@ -348,22 +455,24 @@ export class Router {
   _addGroupRoute(
     method: HttpMethod,
     path: string,
-    handlers: RouteHandler[],
+    entries: RouteEntry[],
     groupMiddleware: Middleware[],
     recordIntrospection = true
   ): void {
-    this.addRoute(method, path, handlers, groupMiddleware, recordIntrospection);
+    this.addRoute(method, path, entries, groupMiddleware, recordIntrospection);
+  }
+
+  /** Group-facing entry point to {@link assertRouteNameFree}, run ahead of a group's `.all()`. @internal */
+  _assertRouteNameFree(entries: RouteEntry[]): void {
+    assertRouteNameFree(this.state, entries);
   }
 
   /**
    * Group-facing entry point to {@link pushAnyMethodDefinition} — a group's `.all()`
    * records its consolidated row here since group routes live on the parent. @internal
    */
-  _pushAnyMethodRouteDefinition(path: string): void {
-    pushAnyMethodDefinition(
-      this.routeDefinitions,
-      normalizeRegistrationPath(path, this.opts.prefix, this.opts.strict)
-    );
+  _pushAnyMethodRouteDefinition(path: string, entries: RouteEntry[]): void {
+    this.pushAnyMethodDefinitions(path, entries);
   }
 }
 
@@ -41,6 +41,13 @@ export interface TrieNode {
   wildcardChild?: TrieNode;
   /** Parameter child if any */
   paramChild?: TrieNode;
+  /**
+   * Regex-constrained parameter children (`:id(\d+)`), tried in registration
+   * order before the unconstrained {@link paramChild}.
+   */
+  patternChildren?: TrieNode[];
+  /** Anchored constraint a param node's value must match, if any */
+  pattern?: RegExp;
 }
 
 /**
@@ -51,6 +58,10 @@ export interface HandlerEntry {
   middleware: Middleware[];
   /** Pre-compiled executor for fast dispatch (no closure per request) */
   executor?: (ctx: Context) => Promise<void>;
+  /** Executor that runs each layer as a traced step, used when a tracer is present */
+  tracedExecutor?: (ctx: Context) => Promise<void>;
+  /** Route template as registered (`/users/:id`), reported to the tracer */
+  route: string;
   /**
    * `true` only for a `HEAD` entry derived from a `GET` registration
    * (RFC 9110 §9.3.2). A derived entry is replaced by an explicit `HEAD`
@@ -59,6 +70,18 @@ export interface HandlerEntry {
    * which re-derives it from the `GET` it copies.
    */
   autoHead: boolean;
+  /**
+   * API versions this route serves, when the router selects a version per
+   * request (header, media type or custom versioning). `undefined` for a
+   * version-neutral route and on routers that do not.
+   */
+  versions?: readonly string[];
+  /**
+   * The routes sharing this method and path, when this entry is the
+   * version-selecting stand-in for them (see `createVersionedEntry`). Its own
+   * handler and executors pick one of these per request.
+   */
+  variants?: readonly HandlerEntry[];
 }
 
 /**
@@ -174,9 +197,72 @@ export function clearNode(node: TrieNode): void {
   node.children.clear();
   node.handlers.clear();
   node.paramChild = undefined;
+  node.patternChildren = undefined;
   node.wildcardChild = undefined;
 }
 
+/**
+ * Return the `index`-th param-branch alternative of `node`, in match priority
+ * order: every constrained param child in registration order, then the
+ * unconstrained param child. `undefined` once the alternatives are exhausted.
+ *
+ * Shared by the match and allowed-methods walks, which iterate it with a
+ * per-frame cursor so a failed alternative backtracks into the next one.
+ */
+export function paramAlternative(node: TrieNode, index: number): TrieNode | undefined {
+  const constrained = node.patternChildren;
+  if (constrained === undefined) return index === 0 ? node.paramChild : undefined;
+  if (index < constrained.length) return constrained[index];
+  return index === constrained.length ? node.paramChild : undefined;
+}
+
+/**
+ * Parse a `:name`, `:name(regex)`, `:name?` or `:name(regex)?` segment.
+ *
+ * The constraint must span the rest of the segment and is anchored, so
+ * `:id(\d+)` matches `42` but never `42abc`. A constraint cannot contain `/`
+ * — segments are split before params are parsed.
+ *
+ * @throws {Error} For an empty name, an unterminated or empty constraint, or a
+ *   constraint that is not a valid regular expression.
+ */
+function parseParamSegment(part: string): ParsedSegment {
+  let body = part.slice(1);
+  const optional = body.endsWith('?');
+  if (optional) body = body.slice(0, -1);
+
+  const open = body.indexOf('(');
+  const paramName = open === -1 ? body : body.slice(0, open);
+  if (paramName === '') {
+    throw new Error(`Invalid route param "${part}": a param needs a name (e.g. ":id").`);
+  }
+  if (open === -1) {
+    return { segment: ':' + paramName, type: NodeType.PARAM, paramName, optional };
+  }
+
+  if (!body.endsWith(')') || body.length - open < 3) {
+    throw new Error(
+      `Invalid route param "${part}": a constraint must be a non-empty "(...)" at the end ` +
+        'of the segment and cannot contain "/".'
+    );
+  }
+  const source = body.slice(open + 1, -1);
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(`^(?:${source})$`);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid route param "${part}": ${reason}`, { cause: err });
+  }
+  return {
+    segment: `:${paramName}(${source})`,
+    type: NodeType.PARAM,
+    paramName,
+    pattern,
+    optional,
+  };
+}
+
 /**
  * Parse path segments
  * Splits path into segments and identifies param/wildcard types
@@ -193,13 +279,9 @@ export function parseSegments(path: string, caseSensitive = true): ParsedSegment
 
   for (const part of parts) {
     if (part.startsWith(':')) {
-      // Preserve the original parameter name case
-      const paramName = part.slice(1);
-      segments.push({
-        segment: part, // Preserve original case — param nodes match any segment
-        type: NodeType.PARAM,
-        paramName, // Keep original case
-      });
+      // Param segments are never case-folded: the name keeps its original case
+      // and a constraint is matched against the original-case value.
+      segments.push(parseParamSegment(part));
     } else if (part === '*') {
       segments.push({
         segment: '*',
@@ -221,7 +303,12 @@ export function parseSegments(path: string, caseSensitive = true): ParsedSegment
  * Parsed segment structure
  */
 export interface ParsedSegment {
+  /** Segment text; for a param, `:name` or `:name(regex)` without the `?` */
   segment: string;
   type: NodeType;
   paramName?: string;
+  /** Anchored constraint compiled from `:name(regex)` */
+  pattern?: RegExp;
+  /** `true` for a trailing `:name?` segment */
+  optional?: boolean;
 }
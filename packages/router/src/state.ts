@@ -13,14 +13,21 @@ import type { Middleware, RouteDefinition, RouterOptions } from '@nextrush/types
 import type { StaticRouteMap, TrieNode } from './segment-trie';
 import type { RegistrationState } from './registration';
 import type { MatchState } from './match-route';
+import { resolveVersioning, type Versioning } from './versioning';
+
+/** Router options with defaults applied and `versioning` resolved. */
+export type ResolvedRouterOptions = Required<Omit<RouterOptions, 'versioning'>> & {
+  readonly versioning: Versioning | undefined;
+};
 
 /** Apply defaults to user-supplied router options. */
-export function resolveRouterOptions(options: RouterOptions): Required<RouterOptions> {
+export function resolveRouterOptions(options: RouterOptions): ResolvedRouterOptions {
   return {
     prefix: options.prefix ?? '',
     caseSensitive: options.caseSensitive ?? false,
     strict: options.strict ?? false,
     decode: options.decode ?? true,
+    versioning: resolveVersioning(options.versioning),
   };
 }
 
@@ -35,18 +42,21 @@ export function resolveRouterOptions(options: RouterOptions): Required<RouterOpt
  */
 export function createRouterState(
   root: TrieNode,
-  opts: Required<RouterOptions>,
+  opts: ResolvedRouterOptions,
   staticRoutes: StaticRouteMap,
   routeDefinitions: RouteDefinition[],
+  routeNames: Map<string, string>,
   routerMiddleware: Middleware[]
 ): RegistrationState & MatchState {
   return {
     root,
     staticRoutes,
     routeDefinitions,
+    routeNames,
     caseSensitive: opts.caseSensitive,
     strict: opts.strict,
     decode: opts.decode,
+    versioning: opts.versioning,
     routerMiddleware,
     maxDepth: 0,
   };
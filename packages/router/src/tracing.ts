@@ -0,0 +1,72 @@
+/**
+ * @nextrush/router - Traced Execution
+ *
+ * A second executor per route that runs each route middleware and the final
+ * handler inside a child span of the request's {@link RequestTracer}. It is
+ * compiled next to the plain executor at registration (and again when router
+ * middleware is sealed), and dispatch only picks it when a tracing middleware
+ * has published a tracer on `ctx.state` — an untraced request runs the plain
+ * executor and pays nothing for this.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import { REQUEST_TRACER } from '@nextrush/types';
+import type {
+  Context,
+  Middleware,
+  Next,
+  RequestTracer,
+  RouteHandler,
+  TraceStepKind,
+} from '@nextrush/types';
+import { compileExecutor } from './segment-trie';
+
+/** Where `app.route(prefix, router)` records the prefix it stripped from `ctx.path`. */
+const ROUTE_PREFIX = Symbol.for('nextrush.routePrefix');
+
+/**
+ * The tracer a tracing middleware published for this request, if any. Reads
+ * `ctx.state` defensively: dispatch also runs against minimal contexts that
+ * never had state attached.
+ */
+export function getRequestTracer(ctx: Context): RequestTracer | undefined {
+  const state = ctx.state as Record<symbol, unknown> | undefined;
+  return state?.[REQUEST_TRACER] as RequestTracer | undefined;
+}
+
+/**
+ * The matched route template as the client addressed it. Routes are registered
+ * relative to the router, so a router mounted with `app.route('/api', router)`
+ * matches `/users/:id`; the span must read `/api/users/:id`.
+ */
+export function tracedRoute(ctx: Context, route: string): string {
+  const state = ctx.state as Record<symbol, unknown> | undefined;
+  const prefix = state?.[ROUTE_PREFIX] as string | undefined;
+  if (!prefix) return route;
+  return route === '/' ? prefix : prefix + route;
+}
+
+function traceStep(kind: TraceStepKind, fn: Middleware): Middleware {
+  const name = fn.name || 'anonymous';
+  return (ctx: Context, next: Next): void | Promise<void> => {
+    const tracer = getRequestTracer(ctx);
+    return tracer ? tracer.step(kind, name, () => fn(ctx, next)) : fn(ctx, next);
+  };
+}
+
+/**
+ * Compile an executor equivalent to {@link compileExecutor}`(handler,
+ * middleware)` whose every layer is a traced step. `next` still advances the
+ * same chain, so a middleware's span covers everything downstream of it.
+ */
+export function compileTracedExecutor(
+  handler: RouteHandler,
+  middleware: Middleware[]
+): (ctx: Context) => Promise<void> {
+  return compileExecutor(
+    traceStep('handler', handler),
+    middleware.map((mw) => traceStep('middleware', mw))
+  );
+}
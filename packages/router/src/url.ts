@@ -0,0 +1,70 @@
+/**
+ * @nextrush/router - Reverse URL Generation
+ *
+ * Builds a concrete path from a registered route pattern and a params object —
+ * the inverse of matching, behind `Router.url()`. Registration-time data only;
+ * never on the request path.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import type { RouteUrlParams } from '@nextrush/types';
+import { NodeType, parseSegments } from './segment-trie';
+
+/**
+ * Substitute `params` into the normalized route `path`.
+ *
+ * Param values are percent-encoded with `encodeURIComponent`, so a `/` or `?`
+ * in a value can never change the shape of the URL. A wildcard value (`'*'`)
+ * may span several segments: each is encoded and the `/` between them kept.
+ * A constrained param (`:id(\d+)`) is checked against its constraint, so the
+ * generated URL is always one the route actually matches. Omitted trailing
+ * optional params are dropped (`/posts/:slug?` with no `slug` is `/posts`).
+ *
+ * @throws {Error} When a required param is missing or empty, a value fails its
+ *   constraint, or an optional param is given after an omitted one.
+ */
+export function buildUrl(path: string, params: RouteUrlParams): string {
+  const parts: string[] = [];
+  let omitted: string | undefined;
+
+  for (const seg of parseSegments(path, true)) {
+    if (seg.type === NodeType.STATIC) {
+      parts.push(seg.segment);
+      continue;
+    }
+
+    const name = seg.type === NodeType.WILDCARD ? '*' : (seg.paramName ?? '');
+    const raw = params[name];
+    const value = raw === undefined ? '' : String(raw);
+
+    if (value === '') {
+      if (seg.optional !== true) {
+        throw new Error(`Missing value for route param "${name}" in "${path}".`);
+      }
+      omitted ??= name;
+      continue;
+    }
+    if (omitted !== undefined) {
+      throw new Error(
+        `Route param "${name}" in "${path}" cannot be set while the optional ` +
+          `param "${omitted}" before it is omitted.`
+      );
+    }
+    if (seg.pattern && !seg.pattern.test(value)) {
+      throw new Error(
+        `Value "${value}" for route param "${name}" in "${path}" does not satisfy ` +
+          `its constraint ${seg.pattern.source}.`
+      );
+    }
+
+    parts.push(
+      seg.type === NodeType.WILDCARD
+        ? value.split('/').map(encodeURIComponent).join('/')
+        : encodeURIComponent(value)
+    );
+  }
+
+  return '/' + parts.join('/');
+}
@@ -0,0 +1,281 @@
+/**
+ * @nextrush/router - API Versioning
+ *
+ * Resolves the `versioning` router option into what registration needs. The
+ * URI strategy only rewrites a route's path (`/users` serving version 2 is
+ * registered as `/v2/users`), so matching is untouched. Every other strategy
+ * lets routes for different versions share one method and path: registration
+ * installs a version-selecting entry there, which reads the requested version
+ * and runs the route serving it. Unversioned routers and version-neutral
+ * routes never go through a selecting entry, so they pay nothing for this.
+ *
+ * @packageDocumentation
+ * @internal
+ */
+
+import type { Context, RouteEntry, VersioningOptions } from '@nextrush/types';
+import { readContribution } from './route-metadata';
+import { NOOP_NEXT, type HandlerEntry } from './segment-trie';
+
+const RESOLVED: Promise<void> = Promise.resolve();
+
+/** The `versioning` option, with its strategy turned into a version reader. */
+export interface Versioning {
+  readonly options: VersioningOptions;
+  /** Segment prefix of a version under the URI strategy (`'v'` → `/v2`), else `undefined`. */
+  readonly uriPrefix: string | undefined;
+  /** Read the version a request names — `undefined` under the URI strategy. */
+  readonly extract: ((ctx: Context) => string | undefined) | undefined;
+  /**
+   * Status of a request whose version no route at the matched path serves:
+   * 406 when the version came from `Accept`, 404 otherwise.
+   */
+  readonly unsupportedStatus: 404 | 406;
+  /** Request headers the version is read from, for the response's `Vary` — `undefined` when none. */
+  readonly vary: string | undefined;
+}
+
+/**
+ * Resolve the `versioning` router option.
+ *
+ * @throws {TypeError} When the strategy is unknown, or `custom` has no `extract` function.
+ */
+export function resolveVersioning(options: VersioningOptions | undefined): Versioning | undefined {
+  if (!options) return undefined;
+
+  switch (options.type) {
+    case 'uri':
+      return {
+        options,
+        uriPrefix: options.prefix ?? 'v',
+        extract: undefined,
+        unsupportedStatus: 404,
+        vary: undefined,
+      };
+    case 'header': {
+      const header = options.header ?? 'x-api-version';
+      return {
+        options,
+        uriPrefix: undefined,
+        extract: (ctx) => nonEmpty(ctx.get(header)),
+        unsupportedStatus: 404,
+        vary: header,
+      };
+    }
+    case 'media-type': {
+      const key = options.key ?? 'v';
+      return {
+        options,
+        uriPrefix: undefined,
+        extract: (ctx) => mediaTypeVersion(ctx.get('accept'), key),
+        unsupportedStatus: 406,
+        vary: 'Accept',
+      };
+    }
+    case 'custom': {
+      const extract: unknown = options.extract;
+      if (typeof extract !== 'function') {
+        throw new TypeError('Custom API versioning requires an `extract(ctx)` function.');
+      }
+      return {
+        options,
+        uriPrefix: undefined,
+        extract: (ctx) => nonEmpty(options.extract(ctx)),
+        unsupportedStatus: 404,
+        vary: nonEmpty(typeof options.vary === 'string' ? options.vary : options.vary?.join(', ')),
+      };
+    }
+    default: {
+      const type: unknown = (options as { type?: unknown }).type;
+      throw new TypeError(
+        `Unknown API versioning strategy "${String(type)}". ` +
+          "Use 'uri', 'header', 'media-type' or 'custom'."
+      );
+    }
+  }
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  return trimmed;
+}
+
+/** The response's current `Vary`, where the adapter exposes response headers (Node). */
+function responseVary(ctx: Context): string | undefined {
+  const res = (ctx.raw as { res?: { getHeader?: (name: string) => unknown } } | undefined)?.res;
+  const value = typeof res?.getHeader === 'function' ? res.getHeader('vary') : undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join(', ');
+  return undefined;
+}
+
+/**
+ * Add `fields` to the response's `Vary`, keeping what an earlier middleware
+ * (CORS's `Origin`, say) already put there.
+ */
+function appendVary(ctx: Context, fields: string): void {
+  const current = responseVary(ctx);
+  if (!current) {
+    ctx.set('Vary', fields);
+    return;
+  }
+  if (current.trim() === '*') return;
+  const present = current.split(',').map((field) => field.trim().toLowerCase());
+  const missing = fields
+    .split(',')
+    .map((field) => field.trim())
+    .filter((field) => field !== '' && !present.includes(field.toLowerCase()));
+  if (missing.length > 0) ctx.set('Vary', [current, ...missing].join(', '));
+}
+
+/**
+ * Read a version from an `Accept` header: the first media range carrying a
+ * `key` parameter (`application/json; v=2`) or a subtype segment made of `key`
+ * and a version starting with a digit (`application/vnd.acme.v2+json`).
+ */
+export function mediaTypeVersion(accept: string | undefined, key: string): string | undefined {
+  if (!accept) return undefined;
+
+  for (const range of accept.split(',')) {
+    const [type = '', ...params] = range.split(';');
+
+    for (const param of params) {
+      const eq = param.indexOf('=');
+      if (eq !== -1 && param.slice(0, eq).trim() === key) {
+        const version = nonEmpty(param.slice(eq + 1).replace(/"/g, ''));
+        if (version) return version;
+      }
+    }
+
+    const subtype = type.trim().split('/')[1]?.split('+')[0] ?? '';
+    for (const segment of subtype.split('.')) {
+      const code = segment.charCodeAt(key.length);
+      if (segment.startsWith(key) && code >= 0x30 && code <= 0x39) {
+        return segment.slice(key.length);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The versions a route serves: the last `versions` its entries contribute,
+ * else the router's `defaultVersion`. `undefined` for a version-neutral route.
+ */
+export function routeVersions(
+  entries: readonly RouteEntry[],
+  versioning: Versioning
+): readonly string[] | undefined {
+  let versions: readonly string[] | undefined;
+  for (const entry of entries) {
+    const declared = readContribution(entry)?.versions;
+    if (declared !== undefined) versions = declared;
+  }
+  if (versions !== undefined && versions.length > 0) return versions;
+  const fallback = versioning.options.defaultVersion;
+  return fallback === undefined ? undefined : [fallback];
+}
+
+/** Where the URI strategy registers `path` for `version`: `/users` → `/v2/users`. */
+export function versionedPath(path: string, version: string, prefix: string): string {
+  const base = `/${prefix}${version}`;
+  if (path === '/' || path === '') return base;
+  return base + (path.startsWith('/') ? path : '/' + path);
+}
+
+/** Whether two version sets share a version; two neutral routes overlap too. */
+export function versionsOverlap(
+  a: readonly string[] | undefined,
+  b: readonly string[] | undefined
+): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return a.some((version) => b.includes(version));
+}
+
+/** The highest version among `variants`, comparing digit runs numerically (`10` > `9`). */
+function latestVersion(variants: readonly HandlerEntry[]): string | undefined {
+  let latest: string | undefined;
+  for (const variant of variants) {
+    for (const version of variant.versions ?? []) {
+      if (latest === undefined || version.localeCompare(latest, 'en', { numeric: true }) > 0) {
+        latest = version;
+      }
+    }
+  }
+  return latest;
+}
+
+/**
+ * The route serving `version`, else the version-neutral route, if any. A
+ * request naming no version (and with no fallback) reaches the neutral route only.
+ */
+function selectVariant(
+  variants: readonly HandlerEntry[],
+  version: string | undefined
+): HandlerEntry | undefined {
+  let neutral: HandlerEntry | undefined;
+  for (const variant of variants) {
+    if (variant.versions === undefined) neutral = variant;
+    else if (version !== undefined && variant.versions.includes(version)) return variant;
+  }
+  return neutral;
+}
+
+/**
+ * Build the entry standing in for the routes that share one method and path
+ * under a request-selected strategy. Each request runs the variant serving the
+ * version it names (or the fallback version); when none does, the status is set
+ * to the strategy's {@link Versioning.unsupportedStatus} and nothing else runs.
+ * Either way the response varies by {@link Versioning.vary}, since one URL
+ * answers differently per requested version.
+ *
+ * Variants are read per request, so executors re-compiled in place when router
+ * middleware is sealed take effect here too.
+ */
+export function createVersionedEntry(
+  variants: readonly HandlerEntry[],
+  route: string,
+  versioning: Versioning
+): HandlerEntry {
+  const extract = versioning.extract ?? ((): undefined => undefined);
+  const { fallbackVersion } = versioning.options;
+  const fallback = fallbackVersion === 'latest' ? latestVersion(variants) : fallbackVersion;
+  const status = versioning.unsupportedStatus;
+  const { vary } = versioning;
+
+  const select = (ctx: Context): HandlerEntry | undefined => {
+    if (vary !== undefined) appendVary(ctx, vary);
+    return selectVariant(variants, extract(ctx) ?? fallback);
+  };
+
+  const run = (
+    ctx: Context,
+    executorOf: (variant: HandlerEntry) => ((ctx: Context) => Promise<void>) | undefined
+  ): Promise<void> => {
+    const variant = select(ctx);
+    if (!variant) {
+      ctx.status = status;
+      return RESOLVED;
+    }
+    const executor = executorOf(variant);
+    return executor ? executor(ctx) : Promise.resolve(variant.handler(ctx, NOOP_NEXT));
+  };
+
+  return {
+    handler: (ctx, next) => {
+      const variant = select(ctx);
+      if (!variant) {
+        ctx.status = status;
+        return;
+      }
+      return variant.handler(ctx, next);
+    },
+    middleware: [],
+    executor: (ctx) => run(ctx, (variant) => variant.executor),
+    tracedExecutor: (ctx) => run(ctx, (variant) => variant.tracedExecutor),
+    route,
+    autoHead: false,
+    variants,
+  };
+}
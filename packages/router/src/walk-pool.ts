@@ -12,15 +12,17 @@
  */
 
 import type { HttpMethod } from '@nextrush/types';
-import type { HandlerEntry, TrieNode } from './segment-trie';
+import { paramAlternative, type HandlerEntry, type TrieNode } from './segment-trie';
 import { decodeParam, segmentAt } from './matching';
 
 /**
  * One node in the iterative walk's explicit stack. `stage` is a small state
- * machine (0 = extract + try static, 1 = try param, 2 = try wildcard/backtrack)
+ * machine (0 = extract + try static, 1 = try params, 2 = try wildcard/backtrack)
  * so a single frame can be revisited on backtrack without recursion. `bound`
  * records whether this frame pushed a deferred param binding, so backtracking
- * can pop it without an object-property delete.
+ * can pop it without an object-property delete. `alt` is the cursor over the
+ * node's param alternatives (see `paramAlternative`), so a constrained param
+ * that fails deeper down backtracks into the next one.
  */
 export interface WalkFrame {
   node: TrieNode;
@@ -29,6 +31,7 @@ export interface WalkFrame {
   seg: string;
   next: number;
   bound: boolean;
+  alt: number;
 }
 
 /**
@@ -70,6 +73,7 @@ export function createWalkPool(maxDepth: number): WalkPool {
       seg: '',
       next: 0,
       bound: false,
+      alt: 0,
     });
   }
   return { frames, bindNames: [], bindValues: [] };
@@ -107,6 +111,7 @@ export function matchNodeIndexedPooled(
   first.seg = '';
   first.next = 0;
   first.bound = false;
+  first.alt = 0;
 
   while (depth >= 0) {
     const frame = frames[depth];
@@ -150,13 +155,18 @@ export function matchNodeIndexedPooled(
         next.seg = '';
         next.next = 0;
         next.bound = false;
+        next.alt = 0;
       }
       continue;
     }
 
     if (frame.stage === 1) {
-      frame.stage = 2;
-      const paramChild = frame.node.paramChild;
+      if (frame.bound) {
+        bindNames.pop();
+        bindValues.pop();
+        frame.bound = false;
+      }
+      const paramChild = paramAlternative(frame.node, frame.alt++);
       if (paramChild) {
         const paramName = paramChild.paramName;
         if (paramName === undefined) return null;
@@ -164,6 +174,7 @@ export function matchNodeIndexedPooled(
           originalPath !== undefined
             ? decodeParam(segmentAt(originalPath, frame.pos), decode)
             : decodeParam(frame.seg, decode);
+        if (paramChild.pattern !== undefined && !paramChild.pattern.test(value)) continue;
         bindNames.push(paramName);
         bindValues.push(value);
         frame.bound = true;
@@ -182,15 +193,12 @@ export function matchNodeIndexedPooled(
         next.seg = '';
         next.next = 0;
         next.bound = false;
+        next.alt = 0;
+        continue;
       }
-      continue;
+      frame.stage = 2;
     }
 
-    if (frame.bound) {
-      bindNames.pop();
-      bindValues.pop();
-      frame.bound = false;
-    }
     const wildcardChild = frame.node.wildcardChild;
     if (wildcardChild) {
       const src = originalPath ?? path;
@@ -4,10 +4,13 @@ import { describe, expect, it } from 'vitest';
 import {
   BodyConsumedError,
   BodyTooLargeError,
+  contentCodings,
   createEmptyBodySource,
   createWebBodySource,
   DEFAULT_BODY_LIMIT,
   EmptyBodySource,
+  inflateBody,
+  UnsupportedContentEncodingError,
   WebBodySource,
 } from '../body-source.js';
 
@@ -387,4 +390,55 @@ describe('BodySource', () => {
       expect(new TextDecoder().decode(buffer)).toBe('small');
     });
   });
+
+  describe('Content-Encoding inflation', () => {
+    /** Compress `text` with each format in turn. */
+    async function compress(text: string, ...formats: CompressionFormat[]): Promise<Uint8Array> {
+      let stream = new Blob([text]).stream();
+      for (const format of formats) stream = stream.pipeThrough(new CompressionStream(format));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+
+    it('should decompress gzip and deflate bodies', async () => {
+      for (const format of ['gzip', 'deflate'] as const) {
+        const body = await inflateBody(await compress('plain', format), [format], 1024);
+        expect(new TextDecoder().decode(body)).toBe('plain');
+      }
+    });
+
+    it('should undo stacked codings last applied first', async () => {
+      const layered = await compress('layered', 'deflate', 'gzip');
+      const body = await inflateBody(layered, contentCodings('deflate, gzip'), 1024);
+
+      expect(new TextDecoder().decode(body)).toBe('layered');
+    });
+
+    it('should enforce the limit on the decompressed size', async () => {
+      const bomb = await compress('0'.repeat(100_000), 'gzip');
+      expect(bomb.length).toBeLessThan(1024);
+
+      await expect(inflateBody(bomb, ['gzip'], 1024)).rejects.toThrow(BodyTooLargeError);
+    });
+
+    it('should reject a corrupt body with a 400', async () => {
+      await expect(inflateBody(new Uint8Array([1, 2, 3]), ['gzip'], 1024)).rejects.toMatchObject({
+        status: 400,
+        code: 'INVALID_CONTENT_ENCODING',
+      });
+    });
+
+    it('should parse Content-Encoding into formats to undo', () => {
+      expect(contentCodings(undefined)).toEqual([]);
+      expect(contentCodings('identity')).toEqual([]);
+      expect(contentCodings('x-gzip')).toEqual(['gzip']);
+      expect(contentCodings('deflate, GZIP')).toEqual(['gzip', 'deflate']);
+    });
+
+    it('should reject an unsupported coding with a 415', () => {
+      expect(() => contentCodings('gzip, compress')).toThrow(UnsupportedContentEncodingError);
+      expect(() => contentCodings('compress')).toThrow(
+        expect.objectContaining({ status: 415, encoding: 'compress' })
+      );
+    });
+  });
 });
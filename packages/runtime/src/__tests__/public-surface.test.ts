@@ -35,6 +35,7 @@ import type {
   RuntimeCapabilities,
   RuntimeInfo,
   ServerStartErrorCode,
+  StandardWebSocket,
 } from '../index';
 
 describe('Public API surface (runtime exports)', () => {
@@ -107,16 +108,24 @@ describe('Public API surface (runtime exports)', () => {
       // Shared Web Context base (F-08, ADR-0010)
       'WebContextBase',
 
+      // WebSocket upgrade
+      'bindWebSocket',
+      'isWebSocketUpgrade',
+      'resolveWebSocketUpgrade',
+
       // Body source
       'AbstractBodySource',
       'BodyConsumedError',
       'BodyTooLargeError',
       'RequestAbortedError',
+      'UnsupportedContentEncodingError',
       'DEFAULT_BODY_LIMIT',
       'EmptyBodySource',
       'WebBodySource',
+      'contentCodings',
       'createEmptyBodySource',
       'createWebBodySource',
+      'inflateBody',
     ].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
@@ -153,6 +162,7 @@ describe('Public API surface (type-only exports)', () => {
       ProxyTrust,
       CombinedAbort,
       ServerStartErrorCode,
+      StandardWebSocket,
     ];
     expectTypeOf<Surface>().not.toBeNever();
   });
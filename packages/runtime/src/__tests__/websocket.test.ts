@@ -0,0 +1,167 @@
+/**
+ * @nextrush/runtime — WebSocket upgrade helper unit tests.
+ */
+
+import type {
+  WebSocketPeer,
+  WebSocketUpgradeHandler,
+  WebSocketUpgradeRequest,
+} from '@nextrush/types';
+import { describe, expect, it, vi } from 'vitest';
+import { WebContextBase } from '../web-context-base';
+import {
+  bindWebSocket,
+  isWebSocketUpgrade,
+  resolveWebSocketUpgrade,
+  type StandardWebSocket,
+} from '../websocket';
+
+class TestContext extends WebContextBase {
+  constructor(request: Request, ip = '') {
+    super(request, ip, 'deno', {
+      runTextStream: async () => undefined,
+      runSSEStream: async () => undefined,
+      runNDJSONStream: async () => undefined,
+    });
+  }
+}
+
+/** A standard-shaped socket whose events the test fires by hand. */
+class FakeSocket extends EventTarget {
+  readyState: number;
+  binaryType = 'blob';
+  readonly sent: unknown[] = [];
+  closedWith?: [number | undefined, string | undefined];
+
+  constructor(readyState: number) {
+    super();
+    this.readyState = readyState;
+  }
+
+  send(data: unknown): void {
+    this.sent.push(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = [code, reason];
+  }
+
+  fire(type: string, init: Record<string, unknown> = {}): void {
+    this.dispatchEvent(Object.assign(new Event(type), init));
+  }
+}
+
+function upgradeRequest(headers: Record<string, string> = { upgrade: 'websocket' }): Request {
+  return new Request('http://localhost/chat?room=1', { headers });
+}
+
+describe('isWebSocketUpgrade', () => {
+  it('recognizes a GET with Upgrade: websocket, case-insensitively', () => {
+    expect(isWebSocketUpgrade(upgradeRequest({ upgrade: 'WebSocket' }))).toBe(true);
+  });
+
+  it('ignores other upgrades and other methods', () => {
+    expect(isWebSocketUpgrade(upgradeRequest({ upgrade: 'h2c' }))).toBe(false);
+    expect(isWebSocketUpgrade(upgradeRequest({}))).toBe(false);
+    expect(
+      isWebSocketUpgrade(
+        new Request('http://localhost/', { method: 'POST', headers: { upgrade: 'websocket' } })
+      )
+    ).toBe(false);
+  });
+});
+
+describe('resolveWebSocketUpgrade', () => {
+  it('hands the handler the parsed request and resolved IP', async () => {
+    let seen: WebSocketUpgradeRequest | undefined;
+    const handler: WebSocketUpgradeHandler = {
+      handleUpgrade: async (request) => {
+        seen = request;
+        return { accepted: false, status: 404, message: 'Not Found' };
+      },
+    };
+    const request = upgradeRequest();
+
+    const result = await resolveWebSocketUpgrade(handler, new TestContext(request, '10.0.0.1'));
+
+    expect(result).toEqual({ accepted: false, status: 404, message: 'Not Found' });
+    expect(seen).toMatchObject({
+      url: '/chat?room=1',
+      path: '/chat',
+      ip: '10.0.0.1',
+      raw: request,
+    });
+    expect(seen?.headers.upgrade).toBe('websocket');
+  });
+
+  it('rejects with 500 and reports the error when the handler throws', async () => {
+    const onError = vi.fn();
+    const handler: WebSocketUpgradeHandler = {
+      handleUpgrade: () => Promise.reject(new Error('boom')),
+    };
+
+    const result = await resolveWebSocketUpgrade(
+      handler,
+      new TestContext(upgradeRequest()),
+      onError
+    );
+
+    expect(result).toMatchObject({ accepted: false, status: 500 });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'boom' }));
+  });
+});
+
+describe('bindWebSocket', () => {
+  function bind(readyState: number) {
+    const socket = new FakeSocket(readyState);
+    const handlers = { message: vi.fn(), close: vi.fn(), error: vi.fn() };
+    const open = vi.fn((_peer: WebSocketPeer) => handlers);
+    bindWebSocket(socket as unknown as StandardWebSocket, open);
+    return { socket, handlers, open };
+  }
+
+  it('opens immediately for an already-open socket and delivers text and binary frames', () => {
+    const { socket, handlers, open } = bind(1);
+
+    expect(open).toHaveBeenCalledOnce();
+    expect(socket.binaryType).toBe('arraybuffer');
+
+    socket.fire('message', { data: 'hi' });
+    socket.fire('message', { data: new Uint8Array([1, 2]).buffer });
+
+    expect(handlers.message).toHaveBeenNthCalledWith(1, 'hi');
+    expect(handlers.message).toHaveBeenNthCalledWith(2, new Uint8Array([1, 2]));
+  });
+
+  it('waits for the open event on a connecting socket', () => {
+    const { socket, open } = bind(0);
+
+    expect(open).not.toHaveBeenCalled();
+    socket.readyState = 1;
+    socket.fire('open');
+    expect(open).toHaveBeenCalledOnce();
+  });
+
+  it('exposes the socket as a peer without control frames', () => {
+    const { socket, open } = bind(1);
+    const peer = open.mock.calls[0]![0];
+
+    peer.send('out');
+    peer.close(4000, 'bye');
+
+    expect(peer.readyState).toBe(1);
+    expect(peer.ping).toBeUndefined();
+    expect(socket.sent).toEqual(['out']);
+    expect(socket.closedWith).toEqual([4000, 'bye']);
+  });
+
+  it('delivers close and error events', () => {
+    const { socket, handlers } = bind(1);
+
+    socket.fire('error', { error: new Error('reset') });
+    socket.fire('close', { code: 1006, reason: '' });
+
+    expect(handlers.error).toHaveBeenCalledWith(expect.objectContaining({ message: 'reset' }));
+    expect(handlers.close).toHaveBeenCalledWith(1006, '');
+  });
+});
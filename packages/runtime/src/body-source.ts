@@ -6,7 +6,7 @@
  * @packageDocumentation
  */
 
-import { BadRequestError, PayloadTooLargeError } from '@nextrush/errors';
+import { BadRequestError, PayloadTooLargeError, UnsupportedMediaTypeError } from '@nextrush/errors';
 import type { BodySource, BodySourceOptions, NodeStreamLike, WebStreamLike } from '@nextrush/types';
 
 /**
@@ -60,6 +60,139 @@ export class RequestAbortedError extends BadRequestError {
   }
 }
 
+/**
+ * Error thrown by {@link contentCodings} for a `Content-Encoding` it cannot
+ * decode — unknown, or not supported by this runtime's `DecompressionStream`.
+ */
+export class UnsupportedContentEncodingError extends UnsupportedMediaTypeError {
+  readonly encoding: string;
+
+  constructor(encoding: string) {
+    super(`Unsupported Content-Encoding: "${encoding}"`, {
+      code: 'UNSUPPORTED_CONTENT_ENCODING',
+      details: { encoding },
+    });
+    this.name = 'UnsupportedContentEncodingError';
+    this.encoding = encoding;
+  }
+}
+
+/** `DecompressionStream` format decoding each supported content coding. */
+const DECOMPRESSION_FORMATS: Readonly<Record<string, string>> = {
+  gzip: 'gzip',
+  'x-gzip': 'gzip',
+  deflate: 'deflate',
+  br: 'brotli',
+  zstd: 'zstd',
+};
+
+/** Whether this runtime's `DecompressionStream` accepts a format, probed once per format. */
+const formatSupport = new Map<string, boolean>();
+
+function supportsFormat(format: string): boolean {
+  let supported = formatSupport.get(format);
+  if (supported === undefined) {
+    try {
+      new DecompressionStream(format as CompressionFormat);
+      supported = true;
+    } catch {
+      supported = false;
+    }
+    formatSupport.set(format, supported);
+  }
+  return supported;
+}
+
+/**
+ * Parse a `Content-Encoding` header into the codings to undo, last applied
+ * first, skipping `identity`.
+ *
+ * @throws {UnsupportedContentEncodingError} For a coding this runtime cannot decode.
+ */
+export function contentCodings(contentEncoding: string | undefined): string[] {
+  if (!contentEncoding) return [];
+
+  const codings: string[] = [];
+  for (const part of contentEncoding.split(',')) {
+    const coding = part.trim().toLowerCase();
+    if (coding === '' || coding === 'identity') continue;
+    const format = DECOMPRESSION_FORMATS[coding];
+    if (format === undefined || !supportsFormat(format)) {
+      throw new UnsupportedContentEncodingError(coding);
+    }
+    codings.push(format);
+  }
+  return codings.reverse();
+}
+
+/**
+ * Decompress a body through Web `DecompressionStream`s, so it runs on every
+ * runtime. Output is counted as it is produced and decompression stops once
+ * it passes `limit`, so a small compressed body cannot expand without bound.
+ *
+ * @param codings - Formats to undo, in order, as returned by {@link contentCodings}
+ * @throws {BodyTooLargeError} When the decompressed body exceeds `limit`.
+ * @throws {BadRequestError} When the body is not valid data for its coding.
+ */
+export async function inflateBody(
+  body: Uint8Array,
+  codings: readonly string[],
+  limit: number
+): Promise<Uint8Array> {
+  let bytes = body;
+  for (const format of codings) {
+    bytes = await decompress(bytes, format, limit);
+  }
+  return bytes;
+}
+
+async function decompress(body: Uint8Array, format: string, limit: number): Promise<Uint8Array> {
+  const decompressor = new DecompressionStream(format as CompressionFormat);
+  const writer = decompressor.writable.getWriter();
+  // Write errors resurface on the readable side; only the reader reports them.
+  writer
+    .write(body as Uint8Array<ArrayBuffer>)
+    .then(() => writer.close())
+    .catch(() => undefined);
+
+  const reader = decompressor.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      totalBytes += value.byteLength;
+      if (totalBytes > limit) {
+        await reader.cancel();
+        throw new BodyTooLargeError(limit, totalBytes);
+      }
+      chunks.push(value);
+    }
+  } catch (err) {
+    if (err instanceof BodyTooLargeError) throw err;
+    throw new BadRequestError(`Request body is not valid ${format} data`, {
+      code: 'INVALID_CONTENT_ENCODING',
+      cause: err,
+    });
+  } finally {
+    reader.releaseLock();
+  }
+  return concatChunks(chunks, totalBytes);
+}
+
+function concatChunks(chunks: readonly Uint8Array[], totalBytes: number): Uint8Array {
+  if (chunks.length === 1 && chunks[0] !== undefined) return chunks[0];
+  const result = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
 /**
  * Abstract base class for BodySource implementations
  *
@@ -301,15 +434,7 @@ export class WebBodySource extends AbstractBodySource {
       reader.releaseLock();
     }
 
-    // Concatenate chunks into single Uint8Array
-    if (chunks.length === 1 && chunks[0] !== undefined) return chunks[0];
-    const result = new Uint8Array(totalBytes);
-    let offset = 0;
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.byteLength;
-    }
-    return result;
+    return concatChunks(chunks, totalBytes);
   }
 
   protected _stream(): ReadableStream<Uint8Array> {
@@ -123,6 +123,13 @@ export { assertHeaderSafe, isBodylessResponse, jsonErrorResponse, WebResponseBui
 export { WebContextBase } from './web-context-base';
 export type { WebRawHttp, WebStreamRunners } from './web-context-base';
 
+// ============================================================================
+// WebSocket Upgrade (shared by the Bun/Deno/Edge adapters)
+// ============================================================================
+
+export { bindWebSocket, isWebSocketUpgrade, resolveWebSocketUpgrade } from './websocket';
+export type { StandardWebSocket } from './websocket';
+
 // ============================================================================
 // Body Source
 // ============================================================================
@@ -132,9 +139,12 @@ export {
   BodyConsumedError,
   BodyTooLargeError,
   RequestAbortedError,
+  UnsupportedContentEncodingError,
   DEFAULT_BODY_LIMIT,
   EmptyBodySource,
   WebBodySource,
+  contentCodings,
   createEmptyBodySource,
   createWebBodySource,
+  inflateBody,
 } from './body-source';
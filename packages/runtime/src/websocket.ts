@@ -0,0 +1,130 @@
+/**
+ * @nextrush/runtime - WebSocket Upgrade Helpers
+ *
+ * The runtime side of the `WebSocketUpgradeHandler` contract, shared by the
+ * Bun, Deno and Edge adapters: recognize an upgrade request, ask the handler
+ * about it, and — for runtimes that hand back a standard `WebSocket` (Deno's
+ * `upgradeWebSocket()`, the `WebSocketPair` of Workers) — deliver the socket's
+ * events to the handler. Bun's `Bun.serve` `websocket` handlers are wired in
+ * the Bun adapter itself.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  WebSocketPeer,
+  WebSocketPeerHandlers,
+  WebSocketUpgradeHandler,
+  WebSocketUpgradeResult,
+} from '@nextrush/types';
+import type { WebContextBase } from './web-context-base';
+
+/** `WebSocket.OPEN`. */
+const OPEN = 1;
+
+/**
+ * The part of the WHATWG `WebSocket` the adapters drive.
+ *
+ * @remarks
+ * Structural, so the Deno and Workers socket types — declared by each adapter,
+ * not by a DOM lib — satisfy it without a cast.
+ */
+export interface StandardWebSocket {
+  readonly readyState: number;
+  binaryType: string;
+  send(data: string | ArrayBufferLike | ArrayBufferView): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'open', listener: () => void): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+  addEventListener(
+    type: 'close',
+    listener: (event: { code: number; reason: string }) => void
+  ): void;
+  addEventListener(type: 'error', listener: (event: { error?: unknown }) => void): void;
+}
+
+/**
+ * Whether a request asks to upgrade to a WebSocket (`GET` with
+ * `Upgrade: websocket`).
+ */
+export function isWebSocketUpgrade(request: Request): boolean {
+  return request.method === 'GET' && request.headers.get('upgrade')?.toLowerCase() === 'websocket';
+}
+
+/**
+ * Ask `handler` whether to accept the upgrade request `ctx` was built from.
+ *
+ * @remarks
+ * `ctx` is only used for its parsed URL, headers and resolved client IP — the
+ * HTTP middleware pipeline does not run. A throwing handler is reported to
+ * `onError` and answered with a `500` rejection.
+ */
+export async function resolveWebSocketUpgrade(
+  handler: WebSocketUpgradeHandler,
+  ctx: WebContextBase,
+  onError?: (error: unknown) => void
+): Promise<WebSocketUpgradeResult> {
+  try {
+    return await handler.handleUpgrade({
+      url: ctx.url,
+      path: ctx.path,
+      headers: ctx.headers,
+      ip: ctx.ip,
+      raw: ctx.raw.req,
+    });
+  } catch (error) {
+    onError?.(error);
+    return { accepted: false, status: 500, message: 'Internal Server Error' };
+  }
+}
+
+/**
+ * Connect a standard `WebSocket` to the handlers returned by `open`.
+ *
+ * @remarks
+ * `open` runs as soon as the socket is open — immediately for an accepted
+ * `WebSocketPair` end, on the `open` event for Deno's upgraded socket. Binary
+ * messages arrive as `Uint8Array`. The peer has no `ping`/`pong`: neither
+ * runtime exposes control frames, and both answer pings themselves.
+ */
+export function bindWebSocket(
+  socket: StandardWebSocket,
+  open: (peer: WebSocketPeer) => WebSocketPeerHandlers
+): void {
+  socket.binaryType = 'arraybuffer';
+
+  const peer: WebSocketPeer = {
+    get readyState() {
+      return socket.readyState;
+    },
+    send: (data) => {
+      socket.send(data);
+    },
+    close: (code, reason) => {
+      socket.close(code, reason);
+    },
+  };
+
+  let handlers: WebSocketPeerHandlers | undefined;
+  const start = (): void => {
+    handlers ??= open(peer);
+  };
+
+  socket.addEventListener('message', (event) => {
+    const { data } = event;
+    if (typeof data === 'string') handlers?.message(data);
+    else if (data instanceof ArrayBuffer) handlers?.message(new Uint8Array(data));
+    else if (ArrayBuffer.isView(data))
+      handlers?.message(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+  });
+  socket.addEventListener('close', (event) => {
+    handlers?.close(event.code, event.reason);
+  });
+  socket.addEventListener('error', (event) => {
+    const { error } = event;
+    handlers?.error(error instanceof Error ? error : new Error('WebSocket error'));
+  });
+
+  if (socket.readyState === OPEN) start();
+  else socket.addEventListener('open', start);
+}
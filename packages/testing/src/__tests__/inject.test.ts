@@ -0,0 +1,205 @@
+import { createApp, type Application } from '@nextrush/core';
+import { createRouter } from '@nextrush/router';
+import type { Context } from '@nextrush/types';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { inject, TestResponse } from '../index.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function createTestApp(): Application {
+  const app = createApp();
+
+  app.use(async (ctx, next) => {
+    await next();
+    ctx.set('x-powered-by', 'nextrush-test');
+  });
+
+  const router = createRouter();
+  router.get('/users/:id', (ctx) => {
+    ctx.json({ id: ctx.params.id, query: ctx.query, ip: ctx.ip });
+  });
+  router.get('/echo-headers', (ctx) => {
+    ctx.json({ auth: ctx.get('authorization') ?? null, cookie: ctx.get('cookie') ?? null });
+  });
+  router.post('/json', async (ctx) => {
+    ctx.status = 201;
+    ctx.json({ received: await ctx.bodySource.json() });
+  });
+  router.post('/text', async (ctx) => {
+    ctx.json({
+      contentType: ctx.get('content-type') ?? null,
+      text: await ctx.bodySource.text(),
+    });
+  });
+  router.post('/upload', async (ctx) => {
+    const form = await (ctx.raw.req as Request).formData();
+    const file = form.get('file') as File;
+    ctx.json({
+      tags: form.getAll('tag'),
+      file: { name: file.name, content: await file.text() },
+    });
+  });
+  router.get('/login', (ctx) => {
+    ctx.set('set-cookie', ['sid=abc123; HttpOnly; Path=/', 'theme=dark']);
+    ctx.send('ok');
+  });
+  router.get('/fail', (ctx: Context) => {
+    ctx.throw(403, 'Forbidden');
+  });
+  router.get('/sse', (ctx) =>
+    ctx.sse(async (writer) => {
+      await writer.write({ data: 'one' });
+      await writer.write({ data: 'two' });
+    })
+  );
+  app.route('/', router);
+
+  return app;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('inject()', () => {
+  let app: Application;
+
+  beforeEach(() => {
+    app = createTestApp();
+  });
+
+  describe('pipeline', () => {
+    it('runs global middleware, routing and params', async () => {
+      const res = await inject(app).get('/users/7');
+
+      expect(res).toBeInstanceOf(TestResponse);
+      expect(res.status).toBe(200);
+      expect(res.header('x-powered-by')).toBe('nextrush-test');
+      expect(await res.json()).toEqual({ id: '7', query: {}, ip: '127.0.0.1' });
+    });
+
+    it('sends the 404 the Web adapters send for an unmatched route', async () => {
+      await inject(app).get('/missing').expect(404).expectBody({ error: 'Not Found' });
+    });
+
+    it('renders thrown errors through the error handler', async () => {
+      const res = await inject(app).get('/fail').expect(403);
+
+      expect(await res.json()).toMatchObject({ message: 'Forbidden' });
+    });
+
+    it('uses the configured client IP', async () => {
+      const res = await inject(app, { ip: '10.0.0.9' }).get('/users/1');
+
+      expect(await res.json()).toMatchObject({ ip: '10.0.0.9' });
+    });
+  });
+
+  describe('request building', () => {
+    it('encodes query parameters, repeating array values', async () => {
+      const res = await inject(app)
+        .get('/users/1')
+        .query({ page: 2, tag: ['a', 'b'], skip: undefined });
+
+      expect(await res.json()).toMatchObject({ query: { page: '2', tag: ['a', 'b'] } });
+    });
+
+    it('sets headers and joins cookies into one header', async () => {
+      await inject(app)
+        .get('/echo-headers')
+        .set('authorization', 'Bearer token')
+        .cookie('sid', 'abc')
+        .cookie('lang', 'en')
+        .expectBody({ auth: 'Bearer token', cookie: 'sid=abc; lang=en' });
+    });
+
+    it('sends a JSON body with a JSON content type', async () => {
+      await inject(app)
+        .post('/json')
+        .json({ name: 'Alice' })
+        .expect(201)
+        .expectBody({ received: { name: 'Alice' } });
+    });
+
+    it('sends a URL-encoded form body', async () => {
+      await inject(app)
+        .post('/text')
+        .form({ name: 'Alice', role: ['admin', 'user'] })
+        .expectBody({
+          contentType: 'application/x-www-form-urlencoded;charset=UTF-8',
+          text: 'name=Alice&role=admin&role=user',
+        });
+    });
+
+    it('sends a multipart body with file parts', async () => {
+      await inject(app)
+        .post('/upload')
+        .multipart({
+          tag: ['x', 'y'],
+          file: new File(['hello'], 'hello.txt', { type: 'text/plain' }),
+        })
+        .expectBody({ tags: ['x', 'y'], file: { name: 'hello.txt', content: 'hello' } });
+    });
+
+    it('sends a raw body with an explicit content type', async () => {
+      await inject(app)
+        .post('/text')
+        .set('content-type', 'text/csv')
+        .send('a,b\n1,2')
+        .expectBody({ contentType: 'text/csv', text: 'a,b\n1,2' });
+    });
+  });
+
+  describe('responses', () => {
+    it('parses response cookies', async () => {
+      const res = await inject(app).get('/login');
+
+      expect(res.cookies).toEqual({ sid: 'abc123', theme: 'dark' });
+      expect(await res.text()).toBe('ok');
+      expect(await res.text()).toBe('ok');
+    });
+
+    it('reads a streamed body chunk by chunk', async () => {
+      const res = await inject(app)
+        .get('/sse')
+        .expect('content-type', /text\/event-stream/);
+
+      let body = '';
+      for await (const chunk of res.chunks()) body += chunk;
+
+      expect(body).toContain('data: one\n\n');
+      expect(body).toContain('data: two\n\n');
+    });
+  });
+
+  describe('expectations', () => {
+    it('fails with the method, path and body on a status mismatch', async () => {
+      await expect(inject(app).get('/fail').expect(200)).rejects.toThrow(
+        /GET \/fail: expected status 200, got 403/
+      );
+    });
+
+    it('fails on a header mismatch', async () => {
+      await expect(inject(app).get('/users/1').expect('x-powered-by', 'other')).rejects.toThrow(
+        /header "x-powered-by"/
+      );
+    });
+
+    it('runs custom assertions against the response', async () => {
+      let seen = 0;
+      await inject(app)
+        .get('/users/1')
+        .expect((res) => {
+          seen = res.status;
+        });
+
+      expect(seen).toBe(200);
+    });
+
+    it('matches a text body against a RegExp', async () => {
+      await inject(app).get('/login').expectBody(/^ok$/);
+    });
+  });
+});
@@ -7,14 +7,29 @@
  */
 import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as testingApi from '../index';
-import type { TestModuleConfig } from '../index';
+import type {
+  InjectOptions,
+  InjectQuery,
+  InjectTarget,
+  MultipartFields,
+  ResponseAssertion,
+  TestModuleConfig,
+} from '../index';
 
 describe('Public API surface (runtime exports)', () => {
   it('exports exactly the intended runtime symbols', () => {
     const actualExports = Object.keys(testingApi).sort();
 
     // SEALED: intentional public runtime API surface.
-    const expectedRuntime = ['createTestModule', 'TestModuleBuilder', 'TestModuleRef'].sort();
+    const expectedRuntime = [
+      'createTestModule',
+      'inject',
+      'InjectClient',
+      'TestModuleBuilder',
+      'TestModuleRef',
+      'TestRequest',
+      'TestResponse',
+    ].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
   });
@@ -24,7 +39,14 @@ describe('Public API surface (type-only exports)', () => {
   it('the type-only surface stays importable from the barrel', () => {
     // Compile-time only: removing/renaming any of these in src/index.ts fails
     // this file to type-check.
-    type Surface = [TestModuleConfig];
+    type Surface = [
+      InjectOptions,
+      InjectQuery,
+      InjectTarget,
+      MultipartFields,
+      ResponseAssertion,
+      TestModuleConfig,
+    ];
     expectTypeOf<Surface>().not.toBeNever();
   });
 });
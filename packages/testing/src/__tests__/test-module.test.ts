@@ -3,7 +3,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { Controller, Get, Service, UseGuard, inject } from '@nextrush/class';
 import { CanActivate } from '@nextrush/di';
 import type { GuardContext } from '@nextrush/class';
-import { createTestModule } from '../index.js';
+import { createTestModule, inject as injectHttp } from '../index.js';
 
 // ============================================================================
 // Test Services & Controllers
@@ -346,6 +346,37 @@ describe('TestModule', () => {
       expect(s1.getValue()).toBe('fake1');
       expect(s2.getValue()).toBe('fake2');
 
+      await ref.close();
+    });
+  });
+  describe('inject(ref) drives a compiled module through the full pipeline', () => {
+    it('runs the controller route with real params and headers', async () => {
+      const ref = await createTestModule({
+        controllers: [UserController],
+        providers: [UserService, RequestIdService],
+      })
+        .override(UserService)
+        .useValue({ getUser: (id: string) => ({ id, name: 'Fake' }) })
+        .compile();
+
+      const res = await injectHttp(ref)
+        .get('/users/123')
+        .expect(200)
+        .expect('content-type', /application\/json/);
+
+      expect(await res.json()).toEqual({ id: '123', name: 'Fake' });
+
+      await ref.close();
+    });
+
+    it('answers an unmatched path with 404 instead of throwing', async () => {
+      const ref = await createTestModule({
+        controllers: [UserController],
+        providers: [UserService, RequestIdService],
+      }).compile();
+
+      await injectHttp(ref).get('/nowhere').expect(404);
+
       await ref.close();
     });
   });
@@ -1,2 +1,10 @@
+export { inject, InjectClient, TestRequest, TestResponse } from './inject.js';
+export type {
+  InjectOptions,
+  InjectQuery,
+  InjectTarget,
+  MultipartFields,
+  ResponseAssertion,
+} from './inject.js';
 export { createTestModule, TestModuleBuilder, TestModuleRef } from './test-module.js';
 export type { TestModuleConfig } from './test-module.js';
@@ -0,0 +1,13 @@
+import { getRuntime, WebContextBase } from '@nextrush/runtime';
+import { runNDJSONStream, runSSEStream, runTextStream } from '@nextrush/stream';
+
+/**
+ * The context `inject()` drives the application with — the same Web `Request`
+ * → `Response` shell the Bun, Deno and Edge adapters use, with a fixed client IP
+ * in place of a socket.
+ */
+export class InjectContext extends WebContextBase {
+  constructor(request: Request, ip: string) {
+    super(request, ip, getRuntime(), { runTextStream, runSSEStream, runNDJSONStream });
+  }
+}
@@ -0,0 +1,364 @@
+import type { Application } from '@nextrush/core';
+import { expect } from 'vitest';
+import { InjectContext } from './inject-context.js';
+import { TestModuleRef } from './test-module.js';
+
+/** What `inject()` drives: a functional app, or a compiled test module. */
+export type InjectTarget = Application | TestModuleRef;
+
+/**
+ * Options for {@link inject}.
+ */
+export interface InjectOptions {
+  /** Origin request URLs are resolved against. Defaults to `http://localhost`. */
+  baseUrl?: string;
+  /** The client IP handlers see as `ctx.ip`. Defaults to `127.0.0.1`. */
+  ip?: string;
+}
+
+type QueryValue = string | number | boolean;
+
+/** Query parameters for {@link TestRequest.query}; an array repeats the key. */
+export type InjectQuery = Record<string, QueryValue | readonly QueryValue[] | undefined>;
+
+/** Fields for {@link TestRequest.multipart}; a `Blob` (or `File`) is sent as a file part. */
+export type MultipartFields = Record<string, string | Blob | readonly (string | Blob)[]>;
+
+/** A custom assertion for {@link TestRequest.expect}. */
+export type ResponseAssertion = (response: TestResponse) => void | Promise<void>;
+
+const DEFAULT_BASE_URL = 'http://localhost';
+const DEFAULT_IP = '127.0.0.1';
+
+/**
+ * Run one request through the application's real pipeline — every
+ * `app.use()` middleware, the router, guards and the error handler — and
+ * finalize it the way the Web adapters do.
+ */
+async function dispatch(app: Application, request: Request, ip: string): Promise<Response> {
+  await app.ready();
+  const ctx = new InjectContext(request, ip);
+  await app.callback()(ctx);
+  if (!ctx.responded && ctx.status === 404) {
+    ctx.json({ error: 'Not Found' });
+  }
+  return ctx.getResponse();
+}
+
+/**
+ * A response returned by `inject()`.
+ *
+ * @remarks
+ * The body is read on demand. `text()`, `json()` and `bytes()` buffer the whole
+ * body and can be called repeatedly; `chunks()` reads a streamed body as it is
+ * written and consumes it.
+ */
+export class TestResponse {
+  /** The Web `Response` the application produced. */
+  readonly raw: Response;
+  private buffered?: Promise<Uint8Array>;
+
+  constructor(raw: Response) {
+    this.raw = raw;
+  }
+
+  get status(): number {
+    return this.raw.status;
+  }
+
+  get headers(): Headers {
+    return this.raw.headers;
+  }
+
+  /** A response header, or `null` when it is not set. */
+  header(name: string): string | null {
+    return this.raw.headers.get(name);
+  }
+
+  /** Cookies set by the response, by name. */
+  get cookies(): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    for (const line of this.raw.headers.getSetCookie()) {
+      const [pair = ''] = line.split(';');
+      const separator = pair.indexOf('=');
+      if (separator > 0)
+        cookies[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+    return cookies;
+  }
+
+  /** The whole body as bytes. */
+  bytes(): Promise<Uint8Array> {
+    this.buffered ??= this.raw.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+    return this.buffered;
+  }
+
+  /** The whole body as text. */
+  async text(): Promise<string> {
+    return new TextDecoder().decode(await this.bytes());
+  }
+
+  /** The whole body parsed as JSON. */
+  async json<T = unknown>(): Promise<T> {
+    return JSON.parse(await this.text()) as T;
+  }
+
+  /**
+   * The body as it is streamed, one decoded chunk at a time. Leaving the loop
+   * early cancels the stream, which aborts the handler's writer signal.
+   */
+  async *chunks(): AsyncGenerator<string, void, undefined> {
+    if (this.raw.body === null) return;
+    const reader = this.raw.body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decoder.decode(value, { stream: true });
+      }
+    } finally {
+      await reader.cancel();
+    }
+  }
+}
+
+/**
+ * A request being built by `inject()`. Chain the request setters and
+ * expectations, then `await` it for the {@link TestResponse}.
+ *
+ * @example
+ * ```typescript
+ * const res = await inject(app)
+ *   .post('/users')
+ *   .set('authorization', 'Bearer token')
+ *   .json({ name: 'Alice' })
+ *   .expect(201)
+ *   .expect('content-type', /json/);
+ *
+ * expect(await res.json()).toMatchObject({ name: 'Alice' });
+ * ```
+ */
+export class TestRequest implements PromiseLike<TestResponse> {
+  private readonly url: URL;
+  private readonly headers = new Headers();
+  private readonly cookieJar: string[] = [];
+  private body?: BodyInit;
+  private readonly expectations: ResponseAssertion[] = [];
+  private response?: Promise<TestResponse>;
+
+  constructor(
+    private readonly app: Application,
+    private readonly method: string,
+    path: string,
+    private readonly options: Required<InjectOptions>
+  ) {
+    this.url = new URL(path, options.baseUrl);
+  }
+
+  /** Set a request header, or several at once. */
+  set(name: string, value: string): this;
+  set(headers: Record<string, string>): this;
+  set(nameOrHeaders: string | Record<string, string>, value?: string): this {
+    const entries =
+      typeof nameOrHeaders === 'string'
+        ? [[nameOrHeaders, value ?? ''] as const]
+        : Object.entries(nameOrHeaders);
+    for (const [name, headerValue] of entries) this.headers.set(name, headerValue);
+    return this;
+  }
+
+  /** Append query parameters to the URL. */
+  query(params: InjectQuery): this {
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      const values: readonly QueryValue[] = Array.isArray(value) ? value : [value as QueryValue];
+      for (const item of values) this.url.searchParams.append(key, String(item));
+    }
+    return this;
+  }
+
+  /** Send a cookie. Values are sent as given — encode them if they need it. */
+  cookie(name: string, value: string): this {
+    this.cookieJar.push(`${name}=${value}`);
+    return this;
+  }
+
+  /** Send a JSON body, with `content-type: application/json` unless one is set. */
+  json(body: unknown): this {
+    if (!this.headers.has('content-type')) this.headers.set('content-type', 'application/json');
+    this.body = JSON.stringify(body);
+    return this;
+  }
+
+  /** Send a URL-encoded form body. */
+  form(fields: Record<string, string | readonly string[]>): this {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(fields)) {
+      for (const item of typeof value === 'string' ? [value] : value) params.append(key, item);
+    }
+    this.body = params;
+    return this;
+  }
+
+  /** Send a `multipart/form-data` body; the boundary header is generated. */
+  multipart(fields: MultipartFields | FormData): this {
+    if (fields instanceof FormData) {
+      this.body = fields;
+      return this;
+    }
+    const form = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      const items: readonly (string | Blob)[] = Array.isArray(value)
+        ? value
+        : [value as string | Blob];
+      for (const item of items) form.append(key, item);
+    }
+    this.body = form;
+    return this;
+  }
+
+  /** Send a raw body — a string, bytes, a `Blob` or a stream. */
+  send(body: BodyInit): this {
+    this.body = body;
+    return this;
+  }
+
+  /** Expect a status, a header value, or run a custom assertion. */
+  expect(statusOrAssertion: number | ResponseAssertion): this;
+  expect(header: string, value: string | RegExp): this;
+  expect(expected: number | string | ResponseAssertion, value?: string | RegExp): this {
+    const label = `${this.method} ${this.url.pathname}${this.url.search}`;
+    if (typeof expected === 'number') {
+      this.expectations.push(async (res) => {
+        if (res.status !== expected) {
+          const body = await res.text().catch(() => '');
+          expect.fail(
+            `${label}: expected status ${String(expected)}, got ${String(res.status)}\n${body}`
+          );
+        }
+      });
+    } else if (typeof expected === 'string') {
+      this.expectations.push((res) => {
+        const actual = res.header(expected);
+        const message = `${label}: header "${expected}"`;
+        if (value instanceof RegExp) expect(actual, message).toMatch(value);
+        else expect(actual, message).toBe(value);
+      });
+    } else {
+      this.expectations.push(expected);
+    }
+    return this;
+  }
+
+  /**
+   * Expect the whole body: a string or `RegExp` is matched against the text,
+   * anything else is compared deeply with the parsed JSON.
+   */
+  expectBody(expected: unknown): this {
+    const label = `${this.method} ${this.url.pathname}: body`;
+    this.expectations.push(async (res) => {
+      if (typeof expected === 'string') expect(await res.text(), label).toBe(expected);
+      else if (expected instanceof RegExp) expect(await res.text(), label).toMatch(expected);
+      else expect(await res.json(), label).toEqual(expected);
+    });
+    return this;
+  }
+
+  then<TResult1 = TestResponse, TResult2 = never>(
+    onfulfilled?: ((value: TestResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    this.response ??= this.run();
+    return this.response.then(onfulfilled, onrejected);
+  }
+
+  private async run(): Promise<TestResponse> {
+    if (this.cookieJar.length > 0) this.headers.set('cookie', this.cookieJar.join('; '));
+    const request = new Request(this.url, {
+      method: this.method,
+      headers: this.headers,
+      ...(this.body === undefined ? {} : { body: this.body, duplex: 'half' }),
+    });
+    const response = new TestResponse(await dispatch(this.app, request, this.options.ip));
+    for (const assertion of this.expectations) await assertion(response);
+    return response;
+  }
+}
+
+/**
+ * Request builders for one application, returned by {@link inject}.
+ */
+export class InjectClient {
+  constructor(
+    private readonly app: Application,
+    private readonly config: Required<InjectOptions>
+  ) {}
+
+  request(method: string, path: string): TestRequest {
+    return new TestRequest(this.app, method.toUpperCase(), path, this.config);
+  }
+
+  get(path: string): TestRequest {
+    return this.request('GET', path);
+  }
+
+  post(path: string): TestRequest {
+    return this.request('POST', path);
+  }
+
+  put(path: string): TestRequest {
+    return this.request('PUT', path);
+  }
+
+  patch(path: string): TestRequest {
+    return this.request('PATCH', path);
+  }
+
+  delete(path: string): TestRequest {
+    return this.request('DELETE', path);
+  }
+
+  head(path: string): TestRequest {
+    return this.request('HEAD', path);
+  }
+
+  options(path: string): TestRequest {
+    return this.request('OPTIONS', path);
+  }
+}
+
+/**
+ * Drive requests through an application's full pipeline — `Application.callback()`
+ * with a Web `Request`, no sockets.
+ *
+ * Unlike `TestModuleRef.request()`, which calls the matched handler directly,
+ * the request passes every global middleware, the router (with real params and
+ * query parsing), guards and the error handler, exactly as an adapter would run
+ * it. The app is readied on first use.
+ *
+ * @example Functional app
+ * ```typescript
+ * const app = createApp();
+ * app.use(cors());
+ * app.get('/users/:id', (ctx) => ctx.json({ id: ctx.params.id }));
+ *
+ * await inject(app).get('/users/7').expect(200).expectBody({ id: '7' });
+ * ```
+ *
+ * @example Test module
+ * ```typescript
+ * const moduleRef = await createTestModule({ controllers: [UserController] })
+ *   .override(UserRepository).useValue(fakeRepository)
+ *   .compile();
+ *
+ * const res = await inject(moduleRef).get('/users').query({ page: 2 }).expect(200);
+ * ```
+ */
+export function inject(target: InjectTarget, options: InjectOptions = {}): InjectClient {
+  const app = target instanceof TestModuleRef ? target.app : target;
+  return new InjectClient(app, {
+    baseUrl: options.baseUrl ?? DEFAULT_BASE_URL,
+    ip: options.ip ?? DEFAULT_IP,
+  });
+}
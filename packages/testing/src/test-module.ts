@@ -44,7 +44,8 @@ export interface TestModuleConfig {
  */
 export class TestModuleRef {
   constructor(
-    private app: Application,
+    /** The compiled application — pass the ref to `inject()` to drive it over HTTP. */
+    readonly app: Application,
     private router: Router,
     private container: Container
   ) {}
@@ -58,6 +59,10 @@ export class TestModuleRef {
 
   /**
    * Drive a request through the matched route handler and capture the response.
+   *
+   * @remarks
+   * Only the matched handler runs — no global middleware, no headers, no
+   * error handler. Use `inject(ref)` to run the full request pipeline.
    */
   async request(
     method: string,
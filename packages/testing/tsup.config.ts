@@ -16,7 +16,10 @@ export default defineConfig({
     '@nextrush/core',
     '@nextrush/di',
     '@nextrush/router',
+    '@nextrush/runtime',
+    '@nextrush/stream',
     '@nextrush/types',
     'reflect-metadata',
+    'vitest',
   ],
 });
@@ -21,7 +21,16 @@ import { describe, expect, expectTypeOf, it } from 'vitest';
 import * as typesApi from '../index';
 
 // Runtime (value) exports — the only ones Object.keys() can see.
-import { ContentType, HTTP_METHODS, HttpStatus, ROUTE_METADATA, SECURITY_AUDIT } from '../index';
+import {
+  ContentType,
+  HTTP_METHODS,
+  HttpStatus,
+  REQUEST_TRACER,
+  ROUTE_METADATA,
+  SCHEMA_FIELDS,
+  SECURITY_AUDIT,
+  SESSION_IDENTIFIER,
+} from '../index';
 
 // Type-only exports — locked by assignability, not Object.keys().
 import type {
@@ -31,6 +40,7 @@ import type {
   BaseStreamWriter,
   BodySource,
   BodySourceOptions,
+  CacheControlPolicy,
   ClassProvider,
   CommonHttpMethod,
   Constructor,
@@ -47,6 +57,7 @@ import type {
   FetchContext,
   FetchHandler,
   FetchHandlerOptions,
+  FieldsSchema,
   HandlerOptions,
   HttpMethod,
   HttpStatusCode,
@@ -64,6 +75,7 @@ import type {
   QueryParams,
   RawHttp,
   RegisterOptions,
+  RequestTracer,
   ResponseBody,
   Route,
   RouteDefinition,
@@ -77,17 +89,23 @@ import type {
   RoutePattern,
   Router,
   RouterOptions,
+  RouteSecurity,
+  RouteUrlParams,
   Runtime,
   RuntimeCapabilities,
   RuntimeInfo,
+  SchemaField,
   Scope,
   SecurityAuditCheck,
   SecurityAudited,
   SecurityAuditVerdict,
+  SecurityRequirement,
+  SecurityScheme,
   ServerAdapter,
   ServerAddress,
   ServerHandle,
   ServiceOptions,
+  SessionIdentifierSource,
   SSEEvent,
   SSEStreamWriter,
   StandardSchemaIssue,
@@ -99,7 +117,15 @@ import type {
   StreamSource,
   TextStreamWriter,
   Token,
+  TraceStepKind,
   ValueProvider,
+  VersioningOptions,
+  VersioningStrategy,
+  WebSocketPeer,
+  WebSocketPeerHandlers,
+  WebSocketUpgradeHandler,
+  WebSocketUpgradeRequest,
+  WebSocketUpgradeResult,
   WebStreamLike,
 } from '../index';
 
@@ -112,8 +138,11 @@ describe('Public API surface (runtime exports)', () => {
       'ContentType',
       'HTTP_METHODS',
       'HttpStatus',
+      'REQUEST_TRACER',
       'ROUTE_METADATA',
+      'SCHEMA_FIELDS',
       'SECURITY_AUDIT',
+      'SESSION_IDENTIFIER',
     ].sort();
 
     expect(actualExports).toEqual(expectedRuntime);
@@ -121,8 +150,11 @@ describe('Public API surface (runtime exports)', () => {
     expect(typeof ContentType).toBe('object');
     expect(typeof HttpStatus).toBe('object');
     expect(Array.isArray(HTTP_METHODS)).toBe(true);
+    expect(typeof REQUEST_TRACER).toBe('symbol');
     expect(typeof ROUTE_METADATA).toBe('symbol');
+    expect(typeof SCHEMA_FIELDS).toBe('symbol');
     expect(typeof SECURITY_AUDIT).toBe('symbol');
+    expect(typeof SESSION_IDENTIFIER).toBe('symbol');
   });
 });
 
@@ -145,6 +177,7 @@ describe('Public API surface (type-only exports, incl. runtime-adapter-contract)
       BaseStreamWriter,
       BodySource,
       BodySourceOptions,
+      CacheControlPolicy,
       ClassProvider<object>,
       CommonHttpMethod,
       Constructor,
@@ -160,6 +193,7 @@ describe('Public API surface (type-only exports, incl. runtime-adapter-contract)
       FetchContext,
       FetchHandler,
       FetchHandlerOptions,
+      FieldsSchema,
       HandlerOptions,
       HttpMethod,
       HttpStatusCode,
@@ -177,6 +211,7 @@ describe('Public API surface (type-only exports, incl. runtime-adapter-contract)
       QueryParams,
       RawHttp,
       RegisterOptions,
+      RequestTracer,
       ResponseBody,
       Route,
       RouteDefinition,
@@ -190,16 +225,22 @@ describe('Public API surface (type-only exports, incl. runtime-adapter-contract)
       RoutePattern,
       Router,
       RouterOptions,
+      RouteSecurity,
+      RouteUrlParams,
       Runtime,
       RuntimeCapabilities,
       RuntimeInfo,
+      SchemaField,
       Scope,
       SecurityAuditCheck,
       SecurityAudited,
       SecurityAuditVerdict,
+      SecurityRequirement,
+      SecurityScheme,
       ServerAddress,
       ServerHandle,
       ServiceOptions,
+      SessionIdentifierSource,
       SSEEvent,
       SSEStreamWriter,
       StandardSchemaIssue,
@@ -211,7 +252,15 @@ describe('Public API surface (type-only exports, incl. runtime-adapter-contract)
       StreamSource<unknown>,
       TextStreamWriter,
       Token,
+      TraceStepKind,
       ValueProvider<object>,
+      VersioningOptions,
+      VersioningStrategy,
+      WebSocketPeer,
+      WebSocketPeerHandlers,
+      WebSocketUpgradeHandler,
+      WebSocketUpgradeRequest,
+      WebSocketUpgradeResult,
       WebStreamLike,
     ];
     expectTypeOf<Surface>().not.toBeNever();
@@ -33,6 +33,16 @@ export interface AdapterContext extends Context {
    * without going through `json()`/`send()`/`html()`/`redirect()`.
    */
   markResponded(): void;
+
+  /**
+   * Abort `ctx.signal` with `reason`, so `fetch`, database drivers and stream
+   * writers listening on it stop. Does not send a response.
+   *
+   * @remarks
+   * Called by the adapters' own request timeout and by `@nextrush/timeout`.
+   * Optional so hand-written contexts (test doubles) need not implement it.
+   */
+  triggerTimeout?(reason?: unknown): void;
 }
 
 /**
@@ -64,7 +64,8 @@ export interface ExtensionContext {
  * A NextRush Extension.
  *
  * Registered via `app.extend()` (queues) and booted once at `app.ready()`
- * (runs `setup` in registration order). Torn down at `app.close()`.
+ * (runs `setup` after its dependencies, otherwise in registration order).
+ * Torn down at `app.close()`.
  *
  * @example
  * ```typescript
@@ -115,16 +116,26 @@ export interface ExtensionContext {
  * ```
  */
 export interface Extension<TDecorated = Record<string, never>> {
-  /** Unique name — used for collision detection, dependency assertion, diagnostics. */
+  /** Unique name — used for collision detection, dependency ordering, diagnostics. */
   readonly name: string;
   /**
-   * Names of other extensions that MUST already be registered before this one.
-   * Asserted at `app.ready()` in registration order — not auto-sorted.
+   * Names of other extensions this one requires. `app.ready()` sets each of
+   * them up before this one, whatever the registration order; a name that is
+   * never registered, or a dependency cycle, fails boot.
    */
   readonly needs?: readonly string[];
-  /** Set up the extension. Runs once, at `app.ready()`, in registration order. */
+  /**
+   * Names of extensions this one uses when present. Each one that is
+   * registered is set up before this one, exactly like `needs`; one that is
+   * not registered is skipped.
+   */
+  readonly optionalNeeds?: readonly string[];
+  /**
+   * Set up the extension. Runs once, at `app.ready()`, after its `needs` and
+   * registered `optionalNeeds` — otherwise in registration order.
+   */
   setup(ctx: ExtensionContext): void | Promise<void>;
-  /** Tear down on `app.close()`. Runs in reverse registration order. */
+  /** Tear down on `app.close()`. Runs in the reverse of the boot order. */
   destroy?(): void | Promise<void>;
   /**
    * Phantom marker carrying `TDecorated` through the type system. Never set
@@ -138,6 +138,10 @@ export {
   type Router,
   // Router options
   type RouterOptions,
+  type RouteUrlParams,
+  // API versioning
+  type VersioningOptions,
+  type VersioningStrategy,
 } from './router';
 
 // ============================================================================
@@ -173,6 +177,18 @@ export {
   type TextStreamWriter,
 } from './stream';
 
+// ============================================================================
+// WebSocket Upgrade Contract (runtime-neutral; adapters ↔ @nextrush/websocket)
+// ============================================================================
+
+export {
+  type WebSocketPeer,
+  type WebSocketPeerHandlers,
+  type WebSocketUpgradeHandler,
+  type WebSocketUpgradeRequest,
+  type WebSocketUpgradeResult,
+} from './websocket';
+
 // ============================================================================
 // Standard Schema Contract (shared by validation, route metadata, openapi)
 // ============================================================================
@@ -193,12 +209,19 @@ export {
 export {
   // Contribution protocol symbol (value export)
   ROUTE_METADATA,
+  SCHEMA_FIELDS,
+  type CacheControlPolicy,
+  type FieldsSchema,
   type MetadataContribution,
   // The canonical endpoint descriptor
   type RouteDefinition,
   type RouteEntry,
   type RouteMetadata,
   type RouteMetaMarker,
+  type RouteSecurity,
+  type SchemaField,
+  type SecurityRequirement,
+  type SecurityScheme,
 } from './route-metadata';
 
 // ============================================================================
@@ -213,3 +236,24 @@ export {
   type SecurityAudited,
   type SecurityAuditVerdict,
 } from './security-audit';
+
+// ============================================================================
+// Session Identifier Contract (published by @nextrush/session)
+// ============================================================================
+
+export {
+  // ctx.state key (value export)
+  SESSION_IDENTIFIER,
+  type SessionIdentifierSource,
+} from './session';
+
+// ============================================================================
+// Request Tracer Contract (published by @nextrush/tracing)
+// ============================================================================
+
+export {
+  // ctx.state key (value export)
+  REQUEST_TRACER,
+  type RequestTracer,
+  type TraceStepKind,
+} from './tracing';
@@ -41,19 +41,46 @@ export interface RouteMetaMarker {
 /** An entry in a route's argument list: behavior (`Middleware`) or pure metadata (a marker). */
 export type RouteEntry = Middleware | RouteMetaMarker;
 
+/**
+ * Well-known symbol under which an object schema assembled from per-field
+ * schemas — e.g. the `@Param('id', schema)` parameters of a class controller
+ * method — lists those fields. A schema library cannot describe such a
+ * composite, so renderers convert each field on its own.
+ */
+export const SCHEMA_FIELDS: unique symbol = Symbol.for('nextrush.schema.fields');
+
+/** One field of a {@link FieldsSchema}. */
+export interface SchemaField {
+  readonly schema: StandardSchemaV1;
+  /** Whether the field must be present. */
+  readonly required: boolean;
+}
+
+/** An object schema whose properties are validated by independent field schemas. */
+export interface FieldsSchema extends StandardSchemaV1 {
+  readonly [SCHEMA_FIELDS]: Readonly<Record<string, SchemaField>>;
+}
+
 /**
  * Generic, renderer-agnostic description of a route's request/response shapes
  * and documentation facts. Every field is a fact any renderer needs; no
  * renderer-specific artifacts (e.g. OpenAPI `operationId`) live here.
  */
 export interface RouteMetadata {
-  /** Request shapes — contributed by `validate()`; never hand-written on the golden path. */
+  /**
+   * Request shapes — contributed by `validate()`, or by the schema parameters of a
+   * class controller; never hand-written on the golden path.
+   */
   readonly request?: {
     readonly body?: StandardSchemaV1;
     readonly query?: StandardSchemaV1;
     readonly params?: StandardSchemaV1;
+    /** Request headers, keyed by lowercase header name. */
+    readonly headers?: StandardSchemaV1;
+    /** Request cookies, keyed by cookie name. */
+    readonly cookies?: StandardSchemaV1;
   };
-  /** Response shapes by numeric status — contributed by `endpoint()`. */
+  /** Response shapes by numeric status — contributed by `endpoint()` or `@ApiResponse()`. */
   readonly responses?: Readonly<Record<number, StandardSchemaV1>>;
   readonly summary?: string;
   readonly description?: string;
@@ -61,6 +88,96 @@ export interface RouteMetadata {
   readonly deprecated?: boolean;
   /** Cross-renderer intent — an `'internal'` route is excluded from public specs/SDKs. */
   readonly visibility?: 'public' | 'internal';
+  /**
+   * Unique route name (e.g. `'users.show'`) — the key `router.url()` builds
+   * this route's path from. Registering a second route under the same name throws.
+   */
+  readonly name?: string;
+  /**
+   * The route's `Cache-Control` policy — contributed by `cacheControl()` from
+   * `@nextrush/cache`, which also sends it as the response header.
+   */
+  readonly cacheControl?: CacheControlPolicy;
+  /**
+   * The route's deadline in milliseconds — contributed by `timeout()` from
+   * `@nextrush/timeout`, which also enforces it.
+   */
+  readonly timeout?: number;
+  /**
+   * How a request to this route authenticates — contributed by
+   * `authenticate()` from `@nextrush/auth`, which also enforces it.
+   */
+  readonly security?: RouteSecurity;
+  /**
+   * API versions the route serves — contributed by `endpoint({ versions })` or
+   * a class controller's `version`. Absent for a version-neutral route.
+   */
+  readonly versions?: readonly string[];
+}
+
+/**
+ * A route's authentication requirement: any one of `schemes` authenticates
+ * the request.
+ */
+export interface RouteSecurity {
+  /** Accepted schemes, in the order they are tried. */
+  readonly schemes: readonly SecurityRequirement[];
+  /** Whether an anonymous request is served too (authentication is optional). */
+  readonly optional?: boolean;
+}
+
+/** One accepted authentication scheme, under a name unique to the API. */
+export interface SecurityRequirement {
+  /** Scheme name, e.g. `'bearerAuth'` — the key renderers group the scheme under. */
+  readonly name: string;
+  readonly scheme: SecurityScheme;
+}
+
+/**
+ * How credentials are presented: an HTTP `Authorization` scheme (RFC 9110
+ * §11), or an API key in a header, query parameter or cookie.
+ */
+export type SecurityScheme =
+  | {
+      readonly type: 'http';
+      readonly scheme: 'bearer' | 'basic';
+      /** Token format hint for `bearer`, e.g. `'JWT'`. */
+      readonly bearerFormat?: string;
+      readonly description?: string;
+    }
+  | {
+      readonly type: 'apiKey';
+      readonly in: 'header' | 'query' | 'cookie';
+      /** Header, query parameter or cookie name. */
+      readonly name: string;
+      readonly description?: string;
+    };
+
+/**
+ * A `Cache-Control` response policy (RFC 9111 §5.2.2), one field per
+ * directive. Durations are in seconds.
+ */
+export interface CacheControlPolicy {
+  /** `public` — any cache may store the response, even for an authorized request. */
+  readonly public?: boolean;
+  /** `private` — only the client's own cache may store the response. */
+  readonly private?: boolean;
+  /** `no-store` — no cache may store the response at all. */
+  readonly noStore?: boolean;
+  /** `no-cache` — a stored copy must be revalidated before every reuse. */
+  readonly noCache?: boolean;
+  /** `max-age` — how long the response stays fresh. */
+  readonly maxAge?: number;
+  /** `s-maxage` — freshness for shared caches, overriding `maxAge` there. */
+  readonly sMaxAge?: number;
+  /** `stale-while-revalidate` — how long a stale copy may be served while it is refreshed. */
+  readonly staleWhileRevalidate?: number;
+  /** `stale-if-error` — how long a stale copy may be served when refreshing fails. */
+  readonly staleIfError?: number;
+  /** `must-revalidate` — a stale copy must never be served without revalidation. */
+  readonly mustRevalidate?: boolean;
+  /** `immutable` — the response never changes while fresh; skip revalidation on reload. */
+  readonly immutable?: boolean;
 }
 
 /**
@@ -42,6 +42,10 @@ export interface RouteMatch {
   middleware: Middleware[];
   /** Pre-compiled executor for fast dispatch (internal) */
   executor?: (ctx: Context) => Promise<void>;
+  /** Executor that runs each layer as a traced step (internal) */
+  tracedExecutor?: (ctx: Context) => Promise<void>;
+  /** Route template the request matched, as registered (`/users/:id`) */
+  route?: string;
 }
 
 // ============================================================================
@@ -146,12 +150,28 @@ export interface Router {
    */
   getRoutes(): readonly RouteDefinition[];
 
+  /**
+   * Build the path of a named route (see `RouteMetadata.name`), substituting
+   * and percent-encoding `params`. Throws for an unknown name or a missing
+   * required param.
+   */
+  url(name: string, params?: RouteUrlParams): string;
+
+  /** How this router tells API versions apart, when it versions its routes. */
+  readonly versioning?: VersioningOptions;
+
   /**
    * Match a route
    */
   match(method: HttpMethod, path: string): RouteMatch | null;
 }
 
+/**
+ * Param values for `Router.url()`, keyed by param name (`'*'` for a wildcard).
+ * Numbers are stringified; an omitted key drops a trailing optional param.
+ */
+export type RouteUrlParams = Readonly<Record<string, string | number | undefined>>;
+
 // ============================================================================
 // Router Options
 // ============================================================================
@@ -185,8 +205,62 @@ export interface RouterOptions {
    * @default true
    */
   decode?: boolean;
+
+  /**
+   * How routes declaring API versions (`endpoint({ versions })`, a controller's
+   * `version`) are told apart. Without it, a version is documentation only and
+   * two routes on one method and path conflict.
+   */
+  versioning?: VersioningOptions;
 }
 
+// ============================================================================
+// API Versioning
+// ============================================================================
+
+/**
+ * Where a request names the API version it wants.
+ *
+ * - `uri` — in the path: a route serving version `2` is registered under
+ *   `/v2/...` (`prefix` defaults to `'v'`).
+ * - `header` — in a request header (`header` defaults to `'x-api-version'`).
+ * - `media-type` — in the `Accept` header, as a vendor subtype segment
+ *   (`application/vnd.acme.v2+json`) or a parameter (`application/json; v=2`);
+ *   `key` defaults to `'v'`.
+ * - `custom` — returned by `extract`; `undefined` means the request names none.
+ *   `vary` lists the request headers `extract` reads.
+ *
+ * With every strategy but `uri`, routes for different versions share a path
+ * and the router picks one per request, adding the header it read from (or
+ * `Accept`, or the custom `vary`) to the response's `Vary` so caches keep the
+ * versions apart.
+ */
+export type VersioningStrategy =
+  | { readonly type: 'uri'; readonly prefix?: string }
+  | { readonly type: 'header'; readonly header?: string }
+  | { readonly type: 'media-type'; readonly key?: string }
+  | {
+      readonly type: 'custom';
+      readonly extract: (ctx: Context) => string | undefined;
+      readonly vary?: string | readonly string[];
+    };
+
+/** A {@link VersioningStrategy} and the versions assumed when none is given. */
+export type VersioningOptions = VersioningStrategy & {
+  /**
+   * Version of a route that declares none. Without it, such a route is
+   * version-neutral: it serves every version no other route serves.
+   */
+  readonly defaultVersion?: string;
+
+  /**
+   * Version assumed for a request that names none — a version, or `'latest'`
+   * for the highest version served at the matched path. Without it, such a
+   * request reaches version-neutral routes only.
+   */
+  readonly fallbackVersion?: string;
+};
+
 // ============================================================================
 // Route Pattern Types
 // ============================================================================
@@ -0,0 +1,26 @@
+/**
+ * @nextrush/types - Session Identifier Contract
+ *
+ * Lets a package that needs "the current session" — `@nextrush/csrf` binding
+ * its tokens to one — find it without importing `@nextrush/session`. The
+ * session middleware publishes a {@link SessionIdentifierSource} on
+ * `ctx.state` under {@link SESSION_IDENTIFIER}; consumers read it from there.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Well-known `ctx.state` key under which a session middleware publishes the
+ * request's {@link SessionIdentifierSource}. `Symbol.for` keeps identity
+ * across duplicate package instances, as with {@link SECURITY_AUDIT}.
+ */
+export const SESSION_IDENTIFIER: unique symbol = Symbol.for('nextrush.session.identifier');
+
+/**
+ * Returns the current session's identifier, or `undefined` when there is no
+ * session. A function rather than a value, so a caller always sees the
+ * identifier in effect after a regeneration. Calling it also tells the
+ * session middleware the identifier is now relied upon, so the session is
+ * kept even if nothing was stored in it.
+ */
+export type SessionIdentifierSource = () => string | undefined;
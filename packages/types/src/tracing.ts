@@ -0,0 +1,39 @@
+/**
+ * @nextrush/types - Request Tracer Contract
+ *
+ * Lets the router and the class runtime open child spans without importing
+ * `@nextrush/tracing`. The tracing middleware publishes a
+ * {@link RequestTracer} on `ctx.state` under {@link REQUEST_TRACER}; code that
+ * runs a step of the request reads it from there and, when it is absent,
+ * runs the step directly.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Well-known `ctx.state` key under which a tracing middleware publishes the
+ * request's {@link RequestTracer}. `Symbol.for` keeps identity across
+ * duplicate package instances, as with {@link SESSION_IDENTIFIER}.
+ */
+export const REQUEST_TRACER: unique symbol = Symbol.for('nextrush.tracing.request');
+
+/** What a traced step of the request pipeline is */
+export type TraceStepKind = 'middleware' | 'guard' | 'interceptor' | 'handler';
+
+/**
+ * The current request's tracer, as seen by the router and class runtime
+ */
+export interface RequestTracer {
+  /**
+   * Record the matched route template (`/users/:id`), which names the
+   * request's server span. Called by the router once a route matches.
+   */
+  setRoute(route: string): void;
+
+  /**
+   * Run `run` inside a child span of the current span. The span ends when
+   * the returned promise settles, and is marked as an error if it rejects —
+   * for middleware, that includes the time spent in everything after it.
+   */
+  step<T>(kind: TraceStepKind, name: string, run: () => T | PromiseLike<T>): Promise<T>;
+}
@@ -0,0 +1,122 @@
+/**
+ * @nextrush/types - WebSocket Upgrade Contract
+ *
+ * Every runtime upgrades a connection differently — Node hands the raw socket
+ * to `ws.handleUpgrade()`, Bun calls `server.upgrade()` and delivers events to
+ * `Bun.serve`'s `websocket` handlers, Deno returns the `response` from
+ * `Deno.upgradeWebSocket()`, and Workers return a `101` carrying one end of a
+ * `WebSocketPair`. These interfaces are the seam between them: an adapter turns
+ * the upgrade request into a {@link WebSocketUpgradeRequest}, asks a
+ * {@link WebSocketUpgradeHandler} whether to accept it, and, once the socket is
+ * open, exposes it as a {@link WebSocketPeer} and delivers its events to the
+ * returned {@link WebSocketPeerHandlers}.
+ *
+ * `@nextrush/websocket` implements the handler side; the Bun, Deno and Edge
+ * adapters implement the runtime side.
+ *
+ * @packageDocumentation
+ */
+
+import type { IncomingHeaders } from './http';
+
+/**
+ * The HTTP request asking to upgrade, in a runtime-neutral shape.
+ */
+export interface WebSocketUpgradeRequest {
+  /** Path and query string, e.g. `/chat?room=1`. */
+  readonly url: string;
+  /** Path without the query string. */
+  readonly path: string;
+  /** Request headers, lower-cased keys. */
+  readonly headers: IncomingHeaders;
+  /**
+   * Client IP. The Web adapters resolve it with the app's `proxy` policy;
+   * on Node it is the socket's peer address.
+   */
+  readonly ip: string;
+  /**
+   * The platform request — Node's `IncomingMessage`, or the Web `Request` on
+   * Bun, Deno and Edge. For runtime-specific needs only.
+   */
+  readonly raw: unknown;
+}
+
+/**
+ * The server side of an open WebSocket, as each runtime's socket is adapted to.
+ */
+export interface WebSocketPeer {
+  /** `WebSocket.readyState` — `1` while open. */
+  readonly readyState: number;
+  /** Send a text (`string`) or binary frame. */
+  send(data: string | Uint8Array): void;
+  /** Start the closing handshake. */
+  close(code?: number, reason?: string): void;
+  /**
+   * Send a ping frame. Absent where the runtime exposes no control frames
+   * (Deno, `WebSocketPair`) — those runtimes answer pings themselves.
+   */
+  ping?(data?: Uint8Array): void;
+  /** Send an unsolicited pong frame. Absent where {@link WebSocketPeer.ping} is. */
+  pong?(data?: Uint8Array): void;
+}
+
+/**
+ * Where the adapter delivers a peer's events.
+ */
+export interface WebSocketPeerHandlers {
+  /** A message arrived: text frames as `string`, binary frames as `Uint8Array`. */
+  message(data: string | Uint8Array): void;
+  /** The socket closed — called once, whichever side closed it. */
+  close(code: number, reason: string): void;
+  /** The socket failed. A `close` follows. */
+  error(error: Error): void;
+  /** A ping arrived. Only runtimes that expose control frames call it. */
+  ping?(data: Uint8Array): void;
+  /** A pong arrived. Only runtimes that expose control frames call it. */
+  pong?(data: Uint8Array): void;
+}
+
+/**
+ * The handler's answer to an upgrade request.
+ *
+ * @remarks
+ * A rejection is sent as an HTTP error response with `status`. An acceptance
+ * carries `open`, which the adapter calls exactly once with the peer when the
+ * socket is open, and which returns the handlers for that peer's events.
+ */
+export type WebSocketUpgradeResult =
+  | {
+      readonly accepted: false;
+      /** HTTP status of the rejection (e.g. `401`, `403`, `404`, `503`). */
+      readonly status: number;
+      /** Error message sent in the rejection's JSON body. */
+      readonly message?: string;
+    }
+  | {
+      readonly accepted: true;
+      readonly open: (peer: WebSocketPeer) => WebSocketPeerHandlers;
+    };
+
+/**
+ * What an adapter hands WebSocket upgrade requests to.
+ *
+ * @remarks
+ * Pass one as the `websocket` option of the Bun and Deno `serve()` and the Edge
+ * `createFetchHandler()`. Upgrade requests go to the handler instead of the
+ * HTTP middleware pipeline; every other request is unaffected.
+ *
+ * @example
+ * ```typescript
+ * const app = createApp().extend(createWebSocketExtension());
+ * await serve(app, { websocket: app.wss }); // @nextrush/adapter-bun
+ * ```
+ */
+export interface WebSocketUpgradeHandler {
+  /** Decide whether to accept an upgrade request. */
+  handleUpgrade(request: WebSocketUpgradeRequest): Promise<WebSocketUpgradeResult>;
+  /**
+   * Largest incoming message, in bytes, for runtimes that enforce it at the
+   * socket (Bun's `maxPayloadLength`). Elsewhere the handler enforces it.
+   */
+  readonly maxPayload?: number;
+}